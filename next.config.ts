@@ -7,6 +7,9 @@ const nextConfig: NextConfig = {
   turbopack: {
     root: process.cwd(),
   },
+  // Loaded at runtime by the local Lighthouse performance provider, and by
+  // report export (PDF printing, Tailwind compiled for the inlined CSS)
+  serverExternalPackages: ["lighthouse", "chrome-launcher", "puppeteer-core", "tailwindcss"],
 };
 
 export default withMDX(nextConfig);
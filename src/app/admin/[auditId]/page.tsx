@@ -22,12 +22,30 @@ import {
   FileCode,
   Gauge,
   RefreshCw,
+  History,
+  Trophy,
+  Camera,
+  Route,
+  Archive,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ThemePicker } from "@/components/theme-picker";
 import { LinkBuilder } from "@/components/admin/link-builder";
-import type { AuditResult } from "@/types/audit";
+import { AuditChangesSummary, ScoreTrendChart } from "@/components/admin/score-history";
+import { CompetitorBenchmark } from "@/components/admin/competitor-benchmark";
+import { FunnelWalk } from "@/components/admin/funnel-walk";
+import { ScannerScreenshots } from "@/components/admin/scanner-screenshots";
+import type { AuditChanges, ScoreHistory } from "@/lib/audit-history";
+import type { ScoreDiff } from "@/rules";
+import type {
+  ApiRequestInfo,
+  AuditResult,
+  RawApiData,
+  SEMrushKeyword,
+  SEMrushParsedData,
+  SEMrushRefDomain,
+} from "@/types/audit";
 
 // ============================================================================
 // Navigation Sections Config
@@ -35,8 +53,12 @@ import type { AuditResult } from "@/types/audit";
 
 const NAV_SECTIONS = [
   { id: "overview", label: "Overview", subsections: ["Score Ring", "Category Breakdown", "Data Sources Status"] },
+  { id: "changes-section", label: "What Changed", subsections: ["Score Timeline", "Since Last Audit"] },
+  { id: "competitors-section", label: "Competitors", subsections: ["Benchmark", "Competitor Audits"] },
   { id: "recommendations-preview", label: "Top Issues", subsections: ["Priority Issues", "Quick Stats"] },
   { id: "booking-trust-section", label: "Booking & Trust", subsections: ["Booking Flow", "Trust Signals"] },
+  { id: "funnel-section", label: "Booking Funnel", subsections: ["Outcome", "Steps"] },
+  { id: "screenshots-section", label: "What the Scanner Saw", subsections: ["First Screen", "Full Page"] },
   { id: "seo-section", label: "SEO Metrics", subsections: ["DataForSEO", "SEMrush Comparison"] },
   { id: "semrush-section", label: "SEMrush Data", subsections: ["Domain Rank", "Backlinks", "Top Keywords", "Referring Domains"] },
   { id: "revenue-section", label: "Revenue Impact", subsections: ["Score Gap", "Monthly Loss"] },
@@ -207,72 +229,6 @@ interface StoredAudit {
   result: AuditResult;
 }
 
-interface RequestInfo {
-  method: "GET" | "POST";
-  url: string;
-  headers: Record<string, string>;
-  body?: string;
-}
-
-// SEMrush parsed data types
-interface SEMrushKeyword {
-  keyword: string;
-  position: number;
-  previousPosition: number | null;
-  searchVolume: number;
-  traffic: number;
-  trafficPercent: number;
-  cpc: number;
-  url: string;
-}
-
-interface SEMrushRefDomain {
-  domain: string;
-  backlinksCount: number;
-  firstSeen: string;
-  lastSeen: string;
-}
-
-interface SEMrushParsedData {
-  domainRanks: {
-    rank: number;
-    organicKeywords: number;
-    organicTraffic: number;
-    organicCost: number;
-    adwordsKeywords: number;
-    adwordsTraffic: number;
-    adwordsCost: number;
-  } | null;
-  backlinks: {
-    authorityScore: number;
-    totalBacklinks: number;
-    referringDomains: number;
-    referringUrls: number;
-    referringIps: number;
-    followLinks: number;
-    nofollowLinks: number;
-  } | null;
-  topKeywords: SEMrushKeyword[];
-  refDomains: SEMrushRefDomain[];
-}
-
-interface RawApiData {
-  htmlFetch?: {
-    request: RequestInfo;
-    response: {
-      statusCode: number;
-      contentLength: number;
-      headers: Record<string, string>;
-      loadTimeMs: number;
-      fetchedAt: string;
-      error?: string;
-    };
-  };
-  pageSpeed?: { request: RequestInfo; response: unknown };
-  dataForSEO?: { request: RequestInfo; response: unknown };
-  semrush?: { request: RequestInfo; response: unknown; parsed?: SEMrushParsedData };
-}
-
 // ============================================================================
 // Score Ring Component - SVG Circular Gauge
 // ============================================================================
@@ -481,15 +437,19 @@ function CategoryBar({
   name,
   score,
   weight,
+  totalWeight = 100,
   source,
 }: {
   name: string;
   score: number;
   weight: number;
+  totalWeight?: number;
   source?: string;
 }) {
-  const contribution = (score * weight) / 100;
-  const isHighWeight = weight >= 15; // Conversion, Performance, Trust, Content
+  // Scoring profiles may use weights that don't sum to 100
+  const share = totalWeight > 0 ? (weight / totalWeight) * 100 : 0;
+  const contribution = (score * share) / 100;
+  const isHighWeight = share >= 15; // Conversion, Performance, Trust, Content
 
   const getBarColor = (s: number) => {
     if (s >= 70) return "bg-success";
@@ -507,7 +467,7 @@ function CategoryBar({
         <div className="flex items-center gap-2">
           <span className={`text-sm font-medium ${textOpacity}`}>{name}</span>
           <span className={`text-xs ${isHighWeight ? "text-muted-foreground" : "text-muted-foreground/60"}`}>
-            {weight}%
+            {Math.round(share)}%
           </span>
         </div>
         <div className="flex items-center gap-3">
@@ -665,7 +625,7 @@ function MetricGrid({
 // Curl Command Generator
 // ============================================================================
 
-function generateCurlCommand(request: RequestInfo): string {
+function generateCurlCommand(request: ApiRequestInfo): string {
   const parts = ["curl"];
 
   // Method (only add if not GET)
@@ -694,7 +654,7 @@ function generateCurlCommand(request: RequestInfo): string {
   return parts.join(" \\\n  ");
 }
 
-function CurlCommand({ request }: { request: RequestInfo }) {
+function CurlCommand({ request }: { request: ApiRequestInfo }) {
   const curlCmd = generateCurlCommand(request);
 
   return (
@@ -845,13 +805,13 @@ function parseSEMrushData(response: SEMrushRawResponse): SEMrushParsedData | nul
 // Raw Data Tabs - Tabbed JSON Viewer
 // ============================================================================
 
-function RawDataTabs({ rawApiData }: { rawApiData: RawApiData }) {
+function RawDataTabs({ rawApiData }: { rawApiData: Partial<RawApiData> }) {
   const tabs = useMemo(() => {
     const t: Array<{
       id: string;
       label: string;
       available: boolean;
-      request?: RequestInfo;
+      request?: ApiRequestInfo;
       response: unknown;
       meta: { status?: number | string; size?: string; time?: string };
     }> = [];
@@ -1170,24 +1130,9 @@ function SEMrushFormattedView({ response }: { response: SEMrushRawResponse }) {
 // SEO Metrics Comparison - DataForSEO vs SEMrush
 // ============================================================================
 
-interface SEOMetrics {
-  organic_keywords?: number;
-  organic_traffic?: number;
-  authority_score?: number;
-  domain_rank?: number;
-  backlinks?: number;
-  source?: string;
-}
-
 function SEOMetricsComparison({ result }: { result: AuditResult }) {
-  // Access extended fields that may exist on the result
-  const extendedResult = result as AuditResult & {
-    dataForSEOMetrics?: SEOMetrics;
-    semrushMetrics?: SEOMetrics;
-  };
-
-  const dataForSEO = extendedResult.dataForSEOMetrics;
-  const semrush = extendedResult.semrushMetrics;
+  const dataForSEO = result.dataForSEOMetrics;
+  const semrush = result.semrushMetrics;
 
   if (!dataForSEO && !semrush) return null;
 
@@ -1234,7 +1179,7 @@ function SEOMetricsComparison({ result }: { result: AuditResult }) {
 // SEMrush Dashboard - Full Presentation Layer
 // ============================================================================
 
-function SEMrushDashboard({ rawApiData }: { rawApiData: RawApiData }) {
+function SEMrushDashboard({ rawApiData }: { rawApiData: Partial<RawApiData> }) {
   // Parse on-the-fly from raw response
   const semrushData = useMemo(() => {
     if (!rawApiData.semrush?.response) return null;
@@ -1734,23 +1679,114 @@ function RecommendationsGrid({
   );
 }
 
+function ScoreDiffDetails({ diff }: { diff: ScoreDiff }) {
+  const formatDiff = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+  const diffColor = (n: number) =>
+    n > 0 ? "text-success" : n < 0 ? "text-error" : "text-muted-foreground";
+  const { added, removed, changed } = diff.findings;
+
+  return (
+    <div className="space-y-4">
+      {diff.mode === "reweight" && (
+        <p className="text-xs text-muted-foreground">
+          This audit predates stored rule inputs, so only category weights were applied.
+        </p>
+      )}
+      {diff.mode === "reanalysis" && (
+        <p className="text-xs text-muted-foreground">
+          Re-analyzed from the pages and provider data stored with the audit; nothing was re-fetched.
+        </p>
+      )}
+
+      <div className="bg-card/30 rounded-lg border border-border/50 overflow-hidden">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/30">
+            <tr>
+              <th className="text-left px-3 py-2 font-medium">Category</th>
+              <th className="text-right px-3 py-2 font-medium">Weight</th>
+              <th className="text-right px-3 py-2 font-medium">Old</th>
+              <th className="text-right px-3 py-2 font-medium">New</th>
+              <th className="text-right px-3 py-2 font-medium">Diff</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.categories.map((cat) => (
+              <tr key={cat.name} className="border-t border-border/50">
+                <td className="px-3 py-2">{cat.name}</td>
+                <td className="px-3 py-2 text-right font-mono tabular-nums">
+                  {cat.oldWeight === cat.newWeight
+                    ? cat.newWeight
+                    : `${cat.oldWeight} → ${cat.newWeight}`}
+                </td>
+                <td className="px-3 py-2 text-right font-mono tabular-nums">{cat.oldScore}</td>
+                <td className="px-3 py-2 text-right font-mono tabular-nums">{cat.newScore}</td>
+                <td className={`px-3 py-2 text-right font-mono tabular-nums ${diffColor(cat.diff)}`}>
+                  {formatDiff(cat.diff)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(added.length > 0 || removed.length > 0 || changed.length > 0) && (
+        <div className="space-y-1 text-xs">
+          {added.map((f) => (
+            <div key={`added-${f.id}`} className="flex items-center gap-2">
+              <XCircle className="size-3 text-error shrink-0" />
+              <span className="font-medium">{f.title}</span>
+              <span className="text-muted-foreground">new {f.severity} finding</span>
+            </div>
+          ))}
+          {removed.map((f) => (
+            <div key={`removed-${f.id}`} className="flex items-center gap-2">
+              <CheckCircle2 className="size-3 text-success shrink-0" />
+              <span className="font-medium">{f.title}</span>
+              <span className="text-muted-foreground">no longer flagged</span>
+            </div>
+          ))}
+          {changed.map((f) => (
+            <div key={`changed-${f.id}`} className="flex items-center gap-2">
+              <AlertTriangle className="size-3 text-warning shrink-0" />
+              <span className="font-medium">{f.title}</span>
+              <span className="text-muted-foreground">
+                {f.oldSeverity === f.newSeverity
+                  ? f.newSeverity
+                  : `${f.oldSeverity} → ${f.newSeverity}`}
+                , penalty {f.oldPenalty} → {f.newPenalty}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ============================================================================
 // Main Page Component
 // ============================================================================
 
 export default function AdminAuditDetailPage() {
   const params = useParams();
-  const auditId = params.auditId as string;
+  const auditId = params?.auditId as string;
   const [audit, setAudit] = useState<StoredAudit | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [recalculating, setRecalculating] = useState(false);
+  const [reanalyzing, setReanalyzing] = useState(false);
   const [recalculateResult, setRecalculateResult] = useState<{
     oldScore: number;
     newScore: number;
-    newAuditId: string;
-    changes: { name: string; oldScore: number; newScore: number; diff: number }[];
+    newAuditId: string | null;
+    dryRun: boolean;
+    profile: string;
+    changes: ScoreDiff;
   } | null>(null);
+  const [scoringProfiles, setScoringProfiles] = useState<string[]>([]);
+  const [selectedProfile, setSelectedProfile] = useState("");
+  const [history, setHistory] = useState<ScoreHistory | null>(null);
+  const [changes, setChanges] = useState<AuditChanges | null>(null);
 
   useEffect(() => {
     async function loadAuditData() {
@@ -1770,14 +1806,45 @@ export default function AdminAuditDetailPage() {
     loadAuditData();
   }, [auditId]);
 
-  const handleRecalculate = async () => {
+  // Score history of the domain and changes since its previous audit
+  const auditDomain = audit?.domain;
+  useEffect(() => {
+    if (!auditDomain) return;
+    fetch(`/api/domains/${encodeURIComponent(auditDomain)}/history`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setHistory(data))
+      .catch(() => {});
+    fetch(`/api/audit/${auditId}/changes`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setChanges(data?.changes ?? null))
+      .catch(() => {});
+  }, [auditId, auditDomain]);
+
+  useEffect(() => {
+    fetch("/api/admin/scoring-profiles")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setScoringProfiles([
+          data.builtIn.name,
+          ...data.profiles.map((p: { name: string }) => p.name),
+        ]);
+      })
+      .catch(() => {});
+  }, []);
+
+  const handleRecalculate = async (dryRun: boolean) => {
     setRecalculating(true);
     setRecalculateResult(null);
     try {
       const res = await fetch("/api/audit/recalculate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ auditId }),
+        body: JSON.stringify({
+          auditId,
+          profile: selectedProfile || undefined,
+          dryRun,
+        }),
       });
       const data = await res.json();
       if (data.success) {
@@ -1792,6 +1859,29 @@ export default function AdminAuditDetailPage() {
     }
   };
 
+  // Re-run the current detectors against the audit's stored snapshot
+  const handleReanalyze = async () => {
+    setReanalyzing(true);
+    setRecalculateResult(null);
+    try {
+      const res = await fetch(`/api/audit/${auditId}/reanalyze`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ profile: selectedProfile || undefined }),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setRecalculateResult(data);
+      } else {
+        setError(data.error || "Re-analysis failed");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Re-analysis failed");
+    } finally {
+      setReanalyzing(false);
+    }
+  };
+
   // Format relative time
   const formatRelativeTime = (dateStr: string) => {
     const date = new Date(dateStr);
@@ -1842,7 +1932,7 @@ export default function AdminAuditDetailPage() {
   const result = audit.result;
   const meta = result.meta;
   const dataSources = (meta?.dataSourcesUsed || {}) as Record<string, boolean>;
-  const rawApiData = (result as unknown as { rawApiData?: RawApiData }).rawApiData || {};
+  const rawApiData: Partial<RawApiData> = result.rawApiData || {};
 
   return (
     <div className="min-h-screen bg-background">
@@ -1873,16 +1963,66 @@ export default function AdminAuditDetailPage() {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              {scoringProfiles.length > 1 && (
+                <select
+                  value={selectedProfile}
+                  onChange={(e) => setSelectedProfile(e.target.value)}
+                  className="h-8 px-2 rounded-md border border-border bg-background text-xs"
+                  title="Scoring profile"
+                >
+                  <option value="">
+                    {result.meta?.scoringProfile
+                      ? `Profile: ${result.meta.scoringProfile}`
+                      : "Current profile"}
+                  </option>
+                  {scoringProfiles.map((name) => (
+                    <option key={name} value={name}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRecalculate(true)}
+                disabled={recalculating}
+                className="text-muted-foreground"
+              >
+                Preview
+              </Button>
               <Button
                 variant="ghost"
                 size="sm"
-                onClick={handleRecalculate}
+                onClick={() => handleRecalculate(false)}
                 disabled={recalculating}
                 className="text-muted-foreground"
               >
                 <RefreshCw className={`size-4 ${recalculating ? "animate-spin" : ""}`} />
                 {recalculating ? "Recalculating..." : "Recalculate"}
               </Button>
+              {result.snapshot && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleReanalyze}
+                  disabled={reanalyzing || recalculating}
+                  className="text-muted-foreground"
+                  title={`Re-run the current detectors on the pages stored ${new Date(result.snapshot.capturedAt).toLocaleDateString()}`}
+                >
+                  <Archive className={`size-4 ${reanalyzing ? "animate-pulse" : ""}`} />
+                  {reanalyzing ? "Re-analyzing..." : "Re-analyze"}
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => (window.location.href = `/admin/domains/${encodeURIComponent(audit.domain)}`)}
+                className="text-muted-foreground"
+              >
+                <History className="size-4" />
+                History
+              </Button>
               <Button
                 variant="outline"
                 size="sm"
@@ -1986,15 +2126,18 @@ export default function AdminAuditDetailPage() {
                       name={cat.name}
                       score={cat.score}
                       weight={cat.weight}
+                      totalWeight={result.categories.reduce((sum, c) => sum + c.weight, 0)}
                       source={cat.source}
                     />
                   ))}
                   <div className="flex items-center justify-between pt-3 border-t border-border/50">
                     <span className="text-sm font-medium">Weighted Total</span>
                     <span className="font-mono text-lg tabular-nums">
-                      {result.categories
-                        .reduce((sum, cat) => sum + (cat.score * cat.weight) / 100, 0)
-                        .toFixed(0)}
+                      {/* Profiles don't have to weight to 100 */}
+                      {(
+                        result.categories.reduce((sum, cat) => sum + cat.score * cat.weight, 0) /
+                        (result.categories.reduce((sum, cat) => sum + cat.weight, 0) || 1)
+                      ).toFixed(0)}
                       <span className="text-muted-foreground text-sm">/100</span>
                     </span>
                   </div>
@@ -2009,7 +2152,14 @@ export default function AdminAuditDetailPage() {
           <div className="border border-success/30 bg-success/5 rounded-lg p-6">
             <h3 className="font-medium mb-4 flex items-center gap-2">
               <CheckCircle2 className="size-4 text-success" />
-              Scores Recalculated
+              {recalculateResult.changes.mode === "reanalysis"
+                ? "Re-analyzed from Snapshot"
+                : recalculateResult.dryRun
+                ? "Recalculation Preview"
+                : "Scores Recalculated"}
+              <Badge variant="outline" className="font-mono text-[10px] px-2">
+                {recalculateResult.profile}
+              </Badge>
             </h3>
             <div className="grid sm:grid-cols-3 gap-4 mb-4">
               <div>
@@ -2038,15 +2188,50 @@ export default function AdminAuditDetailPage() {
                 </div>
               </div>
             </div>
-            <Button
-              size="sm"
-              onClick={() => (window.location.href = `/admin/${recalculateResult.newAuditId}`)}
-            >
-              View New Audit
-            </Button>
+            <ScoreDiffDetails diff={recalculateResult.changes} />
+            {recalculateResult.newAuditId && (
+              <Button
+                size="sm"
+                className="mt-4"
+                onClick={() => (window.location.href = `/admin/${recalculateResult.newAuditId}`)}
+              >
+                View New Audit
+              </Button>
+            )}
           </div>
         )}
 
+        {/* ================================================================== */}
+        {/* What Changed - Score timeline and changes since the previous audit */}
+        {/* ================================================================== */}
+        <div id="changes-section" className="bg-card/30 rounded-lg border border-border/50 p-6 space-y-6">
+          <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+            <History className="size-4" />
+            What Changed Since Last Audit
+          </h2>
+          {changes ? (
+            <AuditChangesSummary changes={changes} />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              This is the first audit of {audit.domain}.
+            </p>
+          )}
+          {history && history.points.length > 1 && (
+            <ScoreTrendChart history={history} currentAuditId={audit.id} />
+          )}
+        </div>
+
+        {/* ================================================================== */}
+        {/* Competitors - Side-by-side benchmark against competitor audits */}
+        {/* ================================================================== */}
+        <div id="competitors-section" className="bg-card/30 rounded-lg border border-border/50 p-6 space-y-6">
+          <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+            <Trophy className="size-4" />
+            Competitor Benchmark
+          </h2>
+          <CompetitorBenchmark auditId={audit.id} result={result} />
+        </div>
+
         {/* ================================================================== */}
         {/* Notes/Warnings - Only show actual warnings, not informational notes */}
         {/* ================================================================== */}
@@ -2093,7 +2278,12 @@ export default function AdminAuditDetailPage() {
                 },
                 { label: "Date Picker", value: result.bookingFlow.hasDatePicker },
                 { label: "Instant Book", value: result.bookingFlow.hasInstantBook },
-                { label: "Clicks to Book", value: result.bookingFlow.estimatedClicksToBook },
+                {
+                  label: "Clicks to Book",
+                  value: `${result.bookingFlow.estimatedClicksToBook} (${
+                    result.bookingFlow.clicksMeasured ? "measured" : "estimated"
+                  })`,
+                },
                 { label: "Friction Score", value: result.bookingFlow.frictionScore },
               ]}
             />
@@ -2120,6 +2310,28 @@ export default function AdminAuditDetailPage() {
           )}
         </div>
 
+        {/* ================================================================== */}
+        {/* Booking Funnel - The explorer's walk towards checkout */}
+        {/* ================================================================== */}
+        <div id="funnel-section" className="bg-card/30 rounded-lg border border-border/50 p-6 space-y-6">
+          <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+            <Route className="size-4" />
+            Booking Funnel
+          </h2>
+          <FunnelWalk auditId={audit.id} result={result} />
+        </div>
+
+        {/* ================================================================== */}
+        {/* Screenshots - The pages as the scanner rendered them */}
+        {/* ================================================================== */}
+        <div id="screenshots-section" className="bg-card/30 rounded-lg border border-border/50 p-6 space-y-6">
+          <h2 className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+            <Camera className="size-4" />
+            What the Scanner Saw
+          </h2>
+          <ScannerScreenshots auditId={audit.id} result={result} />
+        </div>
+
         {/* ================================================================== */}
         {/* SEO Metrics Comparison - DataForSEO vs SEMrush */}
         {/* ================================================================== */}
@@ -2369,6 +2581,16 @@ export default function AdminAuditDetailPage() {
                       Duration: {(meta.fetchTimeMs / 1000).toFixed(1)}s
                     </div>
                   )}
+                  {meta?.analyzerVersion && (
+                    <div>
+                      Analyzer: <span className="font-mono">v{meta.analyzerVersion}</span>
+                    </div>
+                  )}
+                  {result.snapshot && (
+                    <div>
+                      Snapshot: {(result.snapshot.sizeBytes / 1024).toFixed(0)} KB
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,403 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ArrowLeft,
+  KeySquare,
+  AlertCircle,
+  RefreshCw,
+  Loader2,
+  Plus,
+  Copy,
+  Check,
+  Gauge,
+  Ban,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+type ApiKeyScope = "audits:read" | "audits:write" | "batches:read" | "batches:write";
+
+interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number | null;
+  dailyAuditQuota: number | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  usage: { requestsThisMinute: number; auditsToday: number };
+}
+
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  "audits:read": "Poll audits and fetch reports",
+  "audits:write": "Start audits",
+  "batches:read": "Poll batches",
+  "batches:write": "Create batches",
+};
+
+const SCOPES = Object.keys(SCOPE_DESCRIPTIONS) as ApiKeyScope[];
+
+function formatDate(iso: string | null) {
+  if (!iso) return "never";
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+// Blank means "use the server default"
+function parseLimit(value: string): number | null {
+  return value.trim() === "" ? null : Number(value);
+}
+
+const EMPTY_FORM = {
+  name: "",
+  scopes: ["audits:read", "audits:write"] as ApiKeyScope[],
+  rateLimitPerMinute: "",
+  dailyAuditQuota: "",
+};
+
+export default function ApiKeysPage() {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The plaintext key, shown once after creating it
+  const [createdKey, setCreatedKey] = useState<{ name: string; key: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fetchKeys = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/api-keys");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to fetch API keys");
+      setKeys(data.keys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchKeys();
+  }, []);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setForm({
+      ...form,
+      scopes: form.scopes.includes(scope)
+        ? form.scopes.filter((s) => s !== scope)
+        : [...form.scopes, scope],
+    });
+  };
+
+  const createKey = async () => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch("/api/admin/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name,
+          scopes: form.scopes,
+          rateLimitPerMinute: parseLimit(form.rateLimitPerMinute),
+          dailyAuditQuota: parseLimit(form.dailyAuditQuota),
+        }),
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setFormError(result.error || "Failed to create API key");
+        return;
+      }
+      setCreatedKey({ name: result.apiKey.name, key: result.key });
+      setCopied(false);
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      await fetchKeys();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to create API key");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const copyKey = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey.key);
+    setCopied(true);
+  };
+
+  const editLimits = async (key: ApiKey) => {
+    const rateLimit = window.prompt(
+      `Requests per minute for ${key.name} (blank for the default)`,
+      key.rateLimitPerMinute?.toString() ?? ""
+    );
+    if (rateLimit === null) return;
+    const quota = window.prompt(
+      `Audits per day for ${key.name} (blank for the default)`,
+      key.dailyAuditQuota?.toString() ?? ""
+    );
+    if (quota === null) return;
+
+    try {
+      const res = await fetch(`/api/admin/api-keys/${key.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rateLimitPerMinute: parseLimit(rateLimit),
+          dailyAuditQuota: parseLimit(quota),
+        }),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to update API key");
+      await fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update API key");
+    }
+  };
+
+  const revokeKey = async (key: ApiKey) => {
+    if (!window.confirm(`Revoke ${key.name}? Anything using it stops working immediately.`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/api-keys/${key.id}`, { method: "DELETE" });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to revoke API key");
+      await fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke API key");
+    }
+  };
+
+  return (
+    <div className="h-screen bg-background flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="h-14 shrink-0 border-b border-border bg-background/95 backdrop-blur z-40">
+        <div className="px-4 sm:px-6 h-full flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => (window.location.href = "/admin")}
+              className="gap-1.5"
+            >
+              <ArrowLeft className="size-4" />
+              <span className="hidden sm:inline">Admin</span>
+            </Button>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-2">
+              <KeySquare className="size-4 text-muted-foreground" />
+              <h1 className="font-semibold">API Keys</h1>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={fetchKeys} disabled={isLoading}>
+              <RefreshCw className={cn("size-4", isLoading && "animate-spin")} />
+            </Button>
+            <Button size="sm" onClick={() => setShowForm(!showForm)}>
+              <Plus className="size-4" />
+              New Key
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+              {error}
+            </div>
+          )}
+
+          {createdKey && (
+            <section className="p-5 rounded-lg border border-emerald-500/30 bg-emerald-500/10 space-y-3">
+              <p className="text-sm">
+                <span className="font-medium">{createdKey.name}</span> was created. Copy the key now - it
+                won&apos;t be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 truncate px-3 py-2 rounded-md bg-background border border-border text-xs">
+                  {createdKey.key}
+                </code>
+                <Button variant="outline" size="sm" onClick={copyKey}>
+                  {copied ? <Check className="size-4" /> : <Copy className="size-4" />}
+                  {copied ? "Copied" : "Copy"}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setCreatedKey(null)}>
+                  Done
+                </Button>
+              </div>
+            </section>
+          )}
+
+          {showForm && (
+            <section className="p-5 rounded-lg border border-border bg-card space-y-4">
+              <div className="grid sm:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Name</label>
+                  <Input
+                    placeholder="e.g. Partner CRM"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Requests per minute</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="Default"
+                    value={form.rateLimitPerMinute}
+                    onChange={(e) => setForm({ ...form, rateLimitPerMinute: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Audits per day</label>
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="Default"
+                    value={form.dailyAuditQuota}
+                    onChange={(e) => setForm({ ...form, dailyAuditQuota: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Scopes</label>
+                <div className="grid sm:grid-cols-2 gap-2">
+                  {SCOPES.map((scope) => (
+                    <label key={scope} className="flex items-start gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={form.scopes.includes(scope)}
+                        onChange={() => toggleScope(scope)}
+                      />
+                      <span>
+                        <span className="font-mono">{scope}</span>
+                        <span className="block text-xs text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {formError && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+                  <AlertCircle className="size-4 shrink-0 mt-0.5" />
+                  {formError}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Button onClick={createKey} disabled={isSaving || !form.name || form.scopes.length === 0}>
+                  {isSaving ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+                  Create Key
+                </Button>
+                <Button variant="ghost" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </section>
+          )}
+
+          {isLoading && keys.length === 0 && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isLoading && !error && keys.length === 0 && (
+            <p className="p-6 text-sm text-muted-foreground text-center rounded-lg border border-border bg-card">
+              No API keys yet. Create one to start audits and fetch reports through{" "}
+              <span className="font-mono">/api/v1</span>.
+            </p>
+          )}
+
+          {keys.length > 0 && (
+            <section className="rounded-lg border border-border bg-card overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-muted-foreground text-left">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Key</th>
+                    <th className="px-4 py-2 font-medium">Scopes</th>
+                    <th className="px-4 py-2 font-medium text-right">Requests / min</th>
+                    <th className="px-4 py-2 font-medium text-right">Audits today</th>
+                    <th className="px-4 py-2 font-medium">Last used</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {keys.map((key) => (
+                    <tr key={key.id} className={cn("border-t border-border", key.revokedAt && "opacity-60")}>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{key.name}</span>
+                          {key.revokedAt && <Badge variant="error">revoked</Badge>}
+                        </div>
+                        <p className="text-xs text-muted-foreground font-mono">{key.keyPrefix}…</p>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          {key.scopes.map((scope) => (
+                            <Badge key={scope} variant="secondary" className="font-mono">
+                              {scope}
+                            </Badge>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-right tabular-nums">
+                        {key.usage.requestsThisMinute} / {key.rateLimitPerMinute ?? "default"}
+                      </td>
+                      <td className="px-4 py-3 text-right tabular-nums">
+                        {key.usage.auditsToday} / {key.dailyAuditQuota ?? "default"}
+                      </td>
+                      <td className="px-4 py-3 text-muted-foreground">{formatDate(key.lastUsedAt)}</td>
+                      <td className="px-4 py-3">
+                        {!key.revokedAt && (
+                          <div className="flex items-center justify-end gap-1">
+                            <Button variant="ghost" size="icon" title="Edit limits" onClick={() => editLimits(key)}>
+                              <Gauge className="size-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-red-500"
+                              title="Revoke"
+                              onClick={() => revokeKey(key)}
+                            >
+                              <Ban className="size-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  ArrowLeft,
+  ScrollText,
+  RefreshCw,
+  Loader2,
+  Download,
+  ChevronDown,
+  ChevronRight,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+interface AuditLogEntry {
+  id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  before: unknown;
+  after: unknown;
+  ip: string | null;
+  createdAt: string;
+}
+
+interface Filters {
+  actor: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  since: string;
+  until: string;
+}
+
+const EMPTY_FILTERS: Filters = {
+  actor: "",
+  action: "",
+  entityType: "",
+  entityId: "",
+  since: "",
+  until: "",
+};
+
+const PAGE_SIZE = 50;
+
+function actionVariant(action: string): "error" | "success" | "secondary" {
+  if (/\.(delete|revoke|revoke_all|remove)$/.test(action)) return "error";
+  if (/\.(create|add|issue)$/.test(action)) return "success";
+  return "secondary";
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+// Query string shared by the list and the CSV export. Dates are whole days:
+// "until" includes the chosen day.
+function buildQuery(filters: Filters, extra: Record<string, string> = {}) {
+  const params = new URLSearchParams(extra);
+  if (filters.actor) params.set("actor", filters.actor.trim());
+  if (filters.action) params.set("action", filters.action);
+  if (filters.entityType) params.set("entity_type", filters.entityType);
+  if (filters.entityId) params.set("entity_id", filters.entityId.trim());
+  if (filters.since) params.set("since", new Date(`${filters.since}T00:00:00`).toISOString());
+  if (filters.until) {
+    const until = new Date(`${filters.until}T00:00:00`);
+    until.setDate(until.getDate() + 1);
+    params.set("until", until.toISOString());
+  }
+  return params.toString();
+}
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="min-w-0 flex-1">
+      <p className="text-xs font-medium text-muted-foreground mb-1">{label}</p>
+      {value === null || value === undefined ? (
+        <p className="text-xs text-muted-foreground">—</p>
+      ) : (
+        <pre className="text-xs bg-muted/50 rounded-md p-2 overflow-x-auto max-h-80">
+          {JSON.stringify(value, null, 2)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [facets, setFacets] = useState<{ actions: string[]; entityTypes: string[] }>({
+    actions: [],
+    entityTypes: [],
+  });
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(
+        `/api/admin/audit-log?${buildQuery(applied, { limit: String(PAGE_SIZE), offset: String(offset) })}`
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to fetch audit log");
+      setEntries(data.entries);
+      setTotal(data.total);
+      setFacets(data.facets);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [applied, offset]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const applyFilters = (next: Filters) => {
+    setApplied(next);
+    setOffset(0);
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const hasFilters = Object.values(applied).some(Boolean);
+
+  return (
+    <div className="h-screen bg-background flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="h-14 shrink-0 border-b border-border bg-background/95 backdrop-blur z-40">
+        <div className="px-4 sm:px-6 h-full flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => (window.location.href = "/admin")}
+              className="gap-1.5"
+            >
+              <ArrowLeft className="size-4" />
+              <span className="hidden sm:inline">Admin</span>
+            </Button>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-2">
+              <ScrollText className="size-4 text-muted-foreground" />
+              <h1 className="font-semibold">Audit Log</h1>
+              <Badge variant="outline">{total}</Badge>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={fetchEntries} disabled={isLoading}>
+              <RefreshCw className={cn("size-4", isLoading && "animate-spin")} />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => (window.location.href = `/api/admin/audit-log/export?${buildQuery(applied)}`)}
+            >
+              <Download className="size-4" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-6xl mx-auto space-y-6">
+          {/* Filters */}
+          <form
+            className="p-4 rounded-lg border border-border bg-card grid sm:grid-cols-3 lg:grid-cols-6 gap-3 items-end"
+            onSubmit={(e) => {
+              e.preventDefault();
+              applyFilters(filters);
+            }}
+          >
+            <div>
+              <label className="block text-xs font-medium mb-1">Actor</label>
+              <Input
+                placeholder="Email or user ID"
+                value={filters.actor}
+                onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium mb-1">Action</label>
+              <select
+                value={filters.action}
+                onChange={(e) => applyFilters({ ...filters, action: e.target.value })}
+                className="w-full h-10 px-3 rounded-md border border-border bg-background text-sm"
+              >
+                <option value="">All actions</option>
+                {facets.actions.map((action) => (
+                  <option key={action} value={action}>
+                    {action}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium mb-1">Entity</label>
+              <select
+                value={filters.entityType}
+                onChange={(e) => applyFilters({ ...filters, entityType: e.target.value })}
+                className="w-full h-10 px-3 rounded-md border border-border bg-background text-sm"
+              >
+                <option value="">All entities</option>
+                {facets.entityTypes.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium mb-1">Entity ID</label>
+              <Input
+                placeholder="e.g. a lead or audit ID"
+                value={filters.entityId}
+                onChange={(e) => setFilters({ ...filters, entityId: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium mb-1">From</label>
+              <Input
+                type="date"
+                value={filters.since}
+                onChange={(e) => applyFilters({ ...filters, since: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium mb-1">To</label>
+              <Input
+                type="date"
+                value={filters.until}
+                onChange={(e) => applyFilters({ ...filters, until: e.target.value })}
+              />
+            </div>
+            <div className="sm:col-span-3 lg:col-span-6 flex items-center gap-2">
+              <Button type="submit" size="sm">
+                Apply
+              </Button>
+              {hasFilters && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setFilters(EMPTY_FILTERS);
+                    applyFilters(EMPTY_FILTERS);
+                  }}
+                >
+                  <X className="size-4" />
+                  Clear
+                </Button>
+              )}
+            </div>
+          </form>
+
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+              {error}
+            </div>
+          )}
+
+          {isLoading && entries.length === 0 && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isLoading && !error && entries.length === 0 && (
+            <p className="p-6 text-sm text-muted-foreground text-center rounded-lg border border-border bg-card">
+              {hasFilters ? "No actions match these filters." : "No admin actions recorded yet."}
+            </p>
+          )}
+
+          {entries.length > 0 && (
+            <section className="rounded-lg border border-border bg-card divide-y divide-border">
+              {entries.map((entry) => {
+                const isOpen = expanded.has(entry.id);
+                return (
+                  <div key={entry.id}>
+                    <button
+                      type="button"
+                      className="w-full flex items-center gap-3 px-4 py-3 text-left text-sm hover:bg-muted/30"
+                      onClick={() => toggleExpanded(entry.id)}
+                    >
+                      {isOpen ? (
+                        <ChevronDown className="size-4 shrink-0 text-muted-foreground" />
+                      ) : (
+                        <ChevronRight className="size-4 shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="w-40 shrink-0 text-xs text-muted-foreground tabular-nums">
+                        {formatDate(entry.createdAt)}
+                      </span>
+                      <span className="w-48 shrink-0 truncate" title={entry.actorId ?? undefined}>
+                        {entry.actorEmail ?? <span className="text-muted-foreground">auth disabled</span>}
+                      </span>
+                      <Badge variant={actionVariant(entry.action)}>{entry.action}</Badge>
+                      <span className="flex-1 min-w-0 truncate font-mono text-xs text-muted-foreground">
+                        {entry.entityId ?? ""}
+                      </span>
+                    </button>
+                    {isOpen && (
+                      <div className="px-4 pb-4 pl-11 space-y-2">
+                        <div className="flex flex-col md:flex-row gap-4">
+                          <JsonBlock label="Before" value={entry.before} />
+                          <JsonBlock label="After" value={entry.after} />
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {entry.entityType}
+                          {entry.ip && ` · ${entry.ip}`}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </section>
+          )}
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+              </span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={offset === 0 || isLoading}
+                  onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={offset + PAGE_SIZE >= total || isLoading}
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
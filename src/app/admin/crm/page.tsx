@@ -0,0 +1,527 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ArrowLeft,
+  Cable,
+  AlertCircle,
+  RefreshCw,
+  Loader2,
+  Plus,
+  Pencil,
+  Trash2,
+  Upload,
+  Download,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+type CrmType = "hubspot" | "pipedrive" | "http";
+type LeadStatus = "new" | "contacted" | "qualified" | "converted";
+type SyncState = "pending" | "syncing" | "synced" | "failed";
+
+interface CrmConnection {
+  id: string;
+  name: string;
+  type: CrmType;
+  config: Record<string, string>;
+  statusMap: Partial<Record<LeadStatus, string>>;
+  enabled: boolean;
+  pullStatus: boolean;
+  createdAt: string;
+  lastPulledAt: string | null;
+  leads: Partial<Record<SyncState, number>>;
+}
+
+const LEAD_STATUSES: LeadStatus[] = ["new", "contacted", "qualified", "converted"];
+
+// Mirrors the adapters in src/lib/crm
+const CRM_TYPES: Record<
+  CrmType,
+  {
+    label: string;
+    fields: { key: string; label: string; placeholder: string; secret?: boolean }[];
+    statusHint: string;
+    defaultStatusMap: Partial<Record<LeadStatus, string>>;
+  }
+> = {
+  hubspot: {
+    label: "HubSpot",
+    fields: [
+      { key: "accessToken", label: "Private app access token", placeholder: "pat-na1-...", secret: true },
+      { key: "baseUrl", label: "API base URL", placeholder: "https://api.hubapi.com" },
+    ],
+    statusHint: "hs_lead_status values",
+    defaultStatusMap: {
+      new: "NEW",
+      contacted: "ATTEMPTED_TO_CONTACT",
+      qualified: "IN_PROGRESS",
+      converted: "OPEN_DEAL",
+    },
+  },
+  pipedrive: {
+    label: "Pipedrive",
+    fields: [
+      { key: "apiToken", label: "API token", placeholder: "Personal API token", secret: true },
+      { key: "baseUrl", label: "API base URL", placeholder: "https://api.pipedrive.com" },
+    ],
+    statusHint: "lead label IDs",
+    defaultStatusMap: {},
+  },
+  http: {
+    label: "JSON/HTTP",
+    fields: [
+      { key: "url", label: "Endpoint URL", placeholder: "https://crm.example.com/leads" },
+      { key: "token", label: "Bearer token", placeholder: "Optional", secret: true },
+      { key: "secret", label: "Signing secret", placeholder: "Optional", secret: true },
+    ],
+    statusHint: "status values",
+    defaultStatusMap: { new: "new", contacted: "contacted", qualified: "qualified", converted: "converted" },
+  },
+};
+
+interface FormState {
+  name: string;
+  type: CrmType;
+  config: Record<string, string>;
+  statusMap: Partial<Record<LeadStatus, string>>;
+  pullStatus: boolean;
+  backfill: boolean;
+}
+
+function emptyForm(type: CrmType = "hubspot"): FormState {
+  return {
+    name: "",
+    type,
+    config: {},
+    statusMap: { ...CRM_TYPES[type].defaultStatusMap },
+    pullStatus: true,
+    backfill: false,
+  };
+}
+
+function formatDate(iso: string | null) {
+  if (!iso) return "never";
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function CrmPage() {
+  const [connections, setConnections] = useState<CrmConnection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Form for a new connection, or the one being edited
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<FormState>(emptyForm());
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchConnections = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/crm");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to fetch CRM connections");
+      setConnections(data.connections);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchConnections();
+  }, []);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (connection: CrmConnection) => {
+    setEditingId(connection.id);
+    setForm({
+      name: connection.name,
+      type: connection.type,
+      // Credentials come back masked; left blank they keep their value
+      config: Object.fromEntries(
+        CRM_TYPES[connection.type].fields
+          .filter((field) => !field.secret)
+          .map((field) => [field.key, connection.config[field.key] ?? ""])
+      ),
+      statusMap: { ...connection.statusMap },
+      pullStatus: connection.pullStatus,
+      backfill: false,
+    });
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const saveConnection = async () => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const payload = {
+        name: form.name,
+        config: form.config,
+        statusMap: form.statusMap,
+        pullStatus: form.pullStatus,
+        ...(editingId ? {} : { type: form.type, backfill: form.backfill }),
+      };
+      const res = await fetch(editingId ? `/api/admin/crm/${editingId}` : "/api/admin/crm", {
+        method: editingId ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setFormError(result.error || "Failed to save connection");
+        return;
+      }
+      if (result.queued) setNotice(`Queued ${result.queued} existing lead(s) for ${result.connection.name}.`);
+      setShowForm(false);
+      setEditingId(null);
+      await fetchConnections();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save connection");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateConnection = async (connection: CrmConnection, updates: Record<string, unknown>) => {
+    try {
+      const res = await fetch(`/api/admin/crm/${connection.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to update connection");
+      await fetchConnections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update connection");
+    }
+  };
+
+  const syncConnection = async (connection: CrmConnection, direction: "push" | "pull") => {
+    setBusyId(connection.id);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/admin/crm/${connection.id}/sync`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ direction }),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Sync failed");
+      setNotice(
+        direction === "push"
+          ? `Queued ${result.queued} lead(s) not yet in ${connection.name}.`
+          : `${result.updated} lead status(es) updated from ${connection.name}.`
+      );
+      await fetchConnections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sync failed");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteConnection = async (connection: CrmConnection) => {
+    const confirmed = window.confirm(
+      `Disconnect ${connection.name}? Leads already pushed stay in the CRM, but their sync state is lost.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const res = await fetch(`/api/admin/crm/${connection.id}`, { method: "DELETE" });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to delete connection");
+      await fetchConnections();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete connection");
+    }
+  };
+
+  const typeInfo = CRM_TYPES[form.type];
+
+  return (
+    <div className="h-screen bg-background flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="h-14 shrink-0 border-b border-border bg-background/95 backdrop-blur z-40">
+        <div className="px-4 sm:px-6 h-full flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => (window.location.href = "/admin")}
+              className="gap-1.5"
+            >
+              <ArrowLeft className="size-4" />
+              <span className="hidden sm:inline">Admin</span>
+            </Button>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-2">
+              <Cable className="size-4 text-muted-foreground" />
+              <h1 className="font-semibold">CRM Sync</h1>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={fetchConnections} disabled={isLoading}>
+              <RefreshCw className={cn("size-4", isLoading && "animate-spin")} />
+            </Button>
+            <Button size="sm" onClick={openCreate}>
+              <Plus className="size-4" />
+              Connect CRM
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+              {error}
+            </div>
+          )}
+
+          {notice && (
+            <div className="p-3 rounded-lg bg-emerald-500/10 border border-emerald-500/30 text-sm">
+              {notice}
+            </div>
+          )}
+
+          {showForm && (
+            <section className="p-5 rounded-lg border border-border bg-card space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">CRM</label>
+                  <select
+                    value={form.type}
+                    disabled={editingId !== null}
+                    onChange={(e) => setForm(emptyForm(e.target.value as CrmType))}
+                    className="w-full h-9 px-3 rounded-md border border-border bg-background text-sm disabled:opacity-60"
+                  >
+                    {(Object.keys(CRM_TYPES) as CrmType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {CRM_TYPES[type].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Name</label>
+                  <Input
+                    placeholder={typeInfo.label}
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                {typeInfo.fields.map((field) => (
+                  <div key={field.key}>
+                    <label className="block text-sm font-medium mb-2">{field.label}</label>
+                    <Input
+                      type={field.secret ? "password" : "text"}
+                      placeholder={editingId && field.secret ? "Leave blank to keep the current value" : field.placeholder}
+                      value={form.config[field.key] ?? ""}
+                      onChange={(e) => setForm({ ...form, config: { ...form.config, [field.key]: e.target.value } })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-1">Status mapping</label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Our lead statuses and the CRM&apos;s {typeInfo.statusHint}. Leave a status blank to not sync it.
+                </p>
+                <div className="grid sm:grid-cols-4 gap-2">
+                  {LEAD_STATUSES.map((status) => (
+                    <div key={status}>
+                      <span className="block text-xs text-muted-foreground capitalize mb-1">{status}</span>
+                      <Input
+                        value={form.statusMap[status] ?? ""}
+                        onChange={(e) =>
+                          setForm({ ...form, statusMap: { ...form.statusMap, [status]: e.target.value } })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-6 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={form.pullStatus}
+                    onChange={(e) => setForm({ ...form, pullStatus: e.target.checked })}
+                  />
+                  Copy status changes made in the CRM back to leads
+                </label>
+                {!editingId && (
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.backfill}
+                      onChange={(e) => setForm({ ...form, backfill: e.target.checked })}
+                    />
+                    Push existing leads too
+                  </label>
+                )}
+              </div>
+
+              {formError && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+                  <AlertCircle className="size-4 shrink-0 mt-0.5" />
+                  {formError}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Button onClick={saveConnection} disabled={isSaving}>
+                  {isSaving && <Loader2 className="size-4 animate-spin" />}
+                  {editingId ? "Save Changes" : "Connect"}
+                </Button>
+                <Button variant="ghost" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </section>
+          )}
+
+          {isLoading && connections.length === 0 && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isLoading && !error && connections.length === 0 && (
+            <p className="p-6 text-sm text-muted-foreground text-center rounded-lg border border-border bg-card">
+              No CRM connected. New leads will be pushed to every connected CRM with their audit score and report
+              link.
+            </p>
+          )}
+
+          {connections.length > 0 && (
+            <div className="rounded-lg border border-border bg-card overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border text-left text-xs text-muted-foreground">
+                    <th className="px-4 py-2 font-medium">Connection</th>
+                    <th className="px-4 py-2 font-medium">Leads</th>
+                    <th className="px-4 py-2 font-medium">Status pull</th>
+                    <th className="px-4 py-2 font-medium">Enabled</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {connections.map((connection) => (
+                    <tr
+                      key={connection.id}
+                      className={cn("border-b border-border last:border-0", !connection.enabled && "opacity-60")}
+                    >
+                      <td className="px-4 py-3">
+                        <div className="font-medium">{connection.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {CRM_TYPES[connection.type]?.label ?? connection.type}
+                          {connection.config.url && ` · ${connection.config.url}`}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant="success">{connection.leads.synced ?? 0} synced</Badge>
+                          {((connection.leads.pending ?? 0) + (connection.leads.syncing ?? 0)) > 0 && (
+                            <Badge variant="warning">
+                              {(connection.leads.pending ?? 0) + (connection.leads.syncing ?? 0)} queued
+                            </Badge>
+                          )}
+                          {(connection.leads.failed ?? 0) > 0 && (
+                            <Badge variant="error">{connection.leads.failed} failed</Badge>
+                          )}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                          <input
+                            type="checkbox"
+                            checked={connection.pullStatus}
+                            onChange={(e) => updateConnection(connection, { pullStatus: e.target.checked })}
+                          />
+                          {connection.pullStatus ? `last ${formatDate(connection.lastPulledAt)}` : "off"}
+                        </label>
+                      </td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={connection.enabled}
+                          onChange={(e) => updateConnection(connection, { enabled: e.target.checked })}
+                        />
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex items-center justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Push leads not yet in this CRM"
+                            disabled={!connection.enabled || busyId === connection.id}
+                            onClick={() => syncConnection(connection, "push")}
+                          >
+                            <Upload className="size-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Pull lead statuses now"
+                            disabled={!connection.enabled || busyId === connection.id}
+                            onClick={() => syncConnection(connection, "pull")}
+                          >
+                            {busyId === connection.id ? (
+                              <Loader2 className="size-4 animate-spin" />
+                            ) : (
+                              <Download className="size-4" />
+                            )}
+                          </Button>
+                          <Button variant="ghost" size="icon" title="Edit" onClick={() => openEdit(connection)}>
+                            <Pencil className="size-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-red-500"
+                            title="Disconnect"
+                            onClick={() => deleteConnection(connection)}
+                          >
+                            <Trash2 className="size-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
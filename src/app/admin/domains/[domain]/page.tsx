@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import { ArrowLeft, RefreshCw, Loader2, TrendingUp, ExternalLink, History } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScoreTrendChart, AuditChangesSummary, ScoreDelta } from "@/components/admin/score-history";
+import type { AuditChanges, ScoreHistory } from "@/lib/audit-history";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+type DomainHistory = ScoreHistory & { latestChanges: AuditChanges | null };
+
+// -----------------------------------------------------------------------------
+// Main Component
+// -----------------------------------------------------------------------------
+
+export default function DomainHistoryPage() {
+  const params = useParams();
+  const domain = decodeURIComponent(params?.domain as string);
+  const [history, setHistory] = useState<DomainHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/domains/${encodeURIComponent(domain)}/history`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to load history");
+      }
+      setHistory(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load history");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [domain]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const points = history?.points ?? [];
+  // Newest first for the table
+  const runs = [...points].reverse();
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="sticky top-0 z-40 border-b border-border bg-background/95 backdrop-blur">
+        <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="sm" onClick={() => (window.location.href = "/admin")}>
+              <ArrowLeft className="size-4" />
+            </Button>
+            <h1 className="text-xl font-bold">{domain}</h1>
+            <Badge variant="outline">
+              {points.length} audit{points.length !== 1 ? "s" : ""}
+            </Badge>
+          </div>
+          <Button variant="ghost" size="sm" onClick={fetchHistory} disabled={isLoading}>
+            <RefreshCw className={`size-4 ${isLoading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </header>
+
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {isLoading && !history ? (
+          <div className="flex items-center justify-center py-24">
+            <Loader2 className="size-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <Card className="p-8 text-center text-muted-foreground">{error}</Card>
+        ) : (
+          <>
+            {/* Score Timeline */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  <TrendingUp className="size-4" />
+                  Score Timeline
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {history && <ScoreTrendChart history={history} currentAuditId={points[points.length - 1]?.auditId} />}
+              </CardContent>
+            </Card>
+
+            {/* Latest Changes */}
+            {history?.latestChanges && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <History className="size-4" />
+                    Since the Previous Audit
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AuditChangesSummary changes={history.latestChanges} />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Audit Runs */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Audits</CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/30 text-xs text-muted-foreground">
+                    <tr>
+                      <th className="text-left p-3 font-medium">Date</th>
+                      <th className="text-right p-3 font-medium">Score</th>
+                      <th className="text-right p-3 font-medium">Change</th>
+                      <th className="text-center p-3 font-medium">Issues</th>
+                      <th className="text-left p-3 font-medium">Profile</th>
+                      <th className="p-3" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {runs.map((point, i) => {
+                      const previous = runs[i + 1];
+                      return (
+                        <tr key={point.auditId} className="border-t border-border/50">
+                          <td className="p-3">
+                            {new Date(point.createdAt).toLocaleString()}
+                            {point.recalculated && (
+                              <Badge variant="secondary" className="ml-2 text-[10px]">
+                                Re-scored
+                              </Badge>
+                            )}
+                          </td>
+                          <td className="p-3 text-right font-mono tabular-nums">{point.overallScore}</td>
+                          <td className="p-3 text-right">
+                            <ScoreDelta
+                              diff={previous ? point.overallScore - previous.overallScore : null}
+                              className="justify-end"
+                            />
+                          </td>
+                          <td className="p-3 text-center text-xs">
+                            <span className="text-error">{point.issues.fail}</span>
+                            {" / "}
+                            <span className="text-warning">{point.issues.warning}</span>
+                          </td>
+                          <td className="p-3 text-xs text-muted-foreground">
+                            {point.scoringProfile || "default"}
+                          </td>
+                          <td className="p-3 text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => (window.location.href = `/admin/${point.auditId}`)}
+                              title="Open audit"
+                            >
+                              <ExternalLink className="size-4" />
+                            </Button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,437 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ArrowLeft,
+  FlaskConical,
+  AlertCircle,
+  RefreshCw,
+  Loader2,
+  Play,
+  Pause,
+  Plus,
+  Square,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+type VariantKey = "a" | "b" | "c";
+type ExperimentStatus = "draft" | "running" | "paused" | "completed";
+type ExperimentGoal = "cta_click" | "lead_capture";
+
+interface VariantResult {
+  variant: VariantKey;
+  isControl: boolean;
+  assigned: number;
+  visitors: number;
+  views: number;
+  clicks: number;
+  leads: number;
+  conversions: number;
+  conversionRate: number;
+  lift: number | null;
+  pValue: number | null;
+  significant: boolean;
+}
+
+interface Experiment {
+  id: string;
+  name: string;
+  status: ExperimentStatus;
+  goal: ExperimentGoal;
+  variants: Array<{ key: VariantKey; weight: number }>;
+  startedAt: string | null;
+  endedAt: string | null;
+  createdAt: string;
+  results: {
+    variants: VariantResult[];
+    totalVisitors: number;
+  };
+}
+
+const VARIANT_LABELS: Record<VariantKey, string> = {
+  a: "A · Current",
+  b: "B · Clean & Subtle",
+  c: "C · Modern Analytics",
+};
+
+const GOAL_LABELS: Record<ExperimentGoal, string> = {
+  cta_click: "CTA click",
+  lead_capture: "Lead capture",
+};
+
+const STATUS_VARIANT: Record<ExperimentStatus, "success" | "warning" | "secondary" | "outline"> = {
+  draft: "outline",
+  running: "success",
+  paused: "warning",
+  completed: "secondary",
+};
+
+function formatDate(iso: string | null) {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+function formatPercent(value: number) {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatLift(lift: number | null) {
+  if (lift === null) return "—";
+  return `${lift >= 0 ? "+" : ""}${(lift * 100).toFixed(1)}%`;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  goal: "cta_click" as ExperimentGoal,
+  weights: { a: 50, b: 50, c: 0 } as Record<VariantKey, number>,
+};
+
+export default function ExperimentsPage() {
+  const [experiments, setExperiments] = useState<Experiment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchExperiments = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/experiments");
+      if (!res.ok) throw new Error("Failed to fetch experiments");
+      const data = await res.json();
+      setExperiments(data.experiments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchExperiments();
+  }, []);
+
+  const createExperiment = async () => {
+    // Variants left at 0% aren't part of the experiment; A is the control
+    const variants = (Object.keys(form.weights) as VariantKey[])
+      .filter((key) => key === "a" || form.weights[key] > 0)
+      .map((key) => ({ key, weight: form.weights[key] }));
+
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch("/api/admin/experiments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: form.name, goal: form.goal, variants }),
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setFormError(result.error || "Failed to create experiment");
+        return;
+      }
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      await fetchExperiments();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to create experiment");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setStatus = async (experiment: Experiment, status: ExperimentStatus) => {
+    if (
+      status === "completed" &&
+      !window.confirm(`End "${experiment.name}"? A completed experiment can't be restarted.`)
+    ) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/admin/experiments/${experiment.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status }),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to update experiment");
+      await fetchExperiments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update experiment");
+    }
+  };
+
+  const deleteExperiment = async (experiment: Experiment) => {
+    const confirmed = window.confirm(
+      `Delete experiment "${experiment.name}"? Visitor assignments are deleted; recorded views and clicks are kept.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const res = await fetch(`/api/admin/experiments/${experiment.id}`, { method: "DELETE" });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to delete experiment");
+      await fetchExperiments();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete experiment");
+    }
+  };
+
+  return (
+    <div className="h-screen bg-background flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="h-14 shrink-0 border-b border-border bg-background/95 backdrop-blur z-40">
+        <div className="px-4 sm:px-6 h-full flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => (window.location.href = "/admin")}
+              className="gap-1.5"
+            >
+              <ArrowLeft className="size-4" />
+              <span className="hidden sm:inline">Admin</span>
+            </Button>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-2">
+              <FlaskConical className="size-4 text-muted-foreground" />
+              <h1 className="font-semibold">Report Experiments</h1>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={fetchExperiments} disabled={isLoading}>
+              <RefreshCw className={cn("size-4", isLoading && "animate-spin")} />
+            </Button>
+            <Button size="sm" onClick={() => setShowForm(!showForm)}>
+              <Plus className="size-4" />
+              New Experiment
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+              {error}
+            </div>
+          )}
+
+          {showForm && (
+            <section className="p-5 rounded-lg border border-border bg-card space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Name</label>
+                  <Input
+                    placeholder="Tabbed layout vs current"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Conversion goal</label>
+                  <select
+                    value={form.goal}
+                    onChange={(e) => setForm({ ...form, goal: e.target.value as ExperimentGoal })}
+                    className="w-full h-10 px-3 rounded-md border border-border bg-background text-sm"
+                  >
+                    <option value="cta_click">{GOAL_LABELS.cta_click}</option>
+                    <option value="lead_capture">{GOAL_LABELS.lead_capture}</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Traffic weights</label>
+                <div className="grid sm:grid-cols-3 gap-4">
+                  {(Object.keys(VARIANT_LABELS) as VariantKey[]).map((key) => (
+                    <div key={key}>
+                      <p className="text-xs text-muted-foreground mb-1">
+                        {VARIANT_LABELS[key]}
+                        {key === "a" && " (control)"}
+                      </p>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={form.weights[key]}
+                        onChange={(e) =>
+                          setForm({
+                            ...form,
+                            weights: { ...form.weights, [key]: Number(e.target.value) },
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Weights are relative. Set a variant to 0 to leave it out.
+                </p>
+              </div>
+
+              {formError && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+                  <AlertCircle className="size-4 shrink-0 mt-0.5" />
+                  {formError}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Button onClick={createExperiment} disabled={isSaving || !form.name}>
+                  {isSaving ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+                  Create Experiment
+                </Button>
+                <Button variant="ghost" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </section>
+          )}
+
+          {isLoading && experiments.length === 0 && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isLoading && experiments.length === 0 && (
+            <p className="p-6 text-sm text-muted-foreground text-center rounded-lg border border-border bg-card">
+              No experiments yet. Without a running experiment every visitor sees variant A, unless
+              the link sets <span className="font-mono">?v=</span>.
+            </p>
+          )}
+
+          {experiments.map((experiment) => (
+            <section key={experiment.id} className="rounded-lg border border-border bg-card">
+              <div className="flex items-center gap-3 p-4 border-b border-border">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{experiment.name}</span>
+                    <Badge variant={STATUS_VARIANT[experiment.status]}>{experiment.status}</Badge>
+                    <Badge variant="outline">{GOAL_LABELS[experiment.goal]}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {experiment.variants.map((v) => `${v.key.toUpperCase()} ${v.weight}`).join(" / ")}
+                    {" · "}started {formatDate(experiment.startedAt)}
+                    {experiment.endedAt && ` · ended ${formatDate(experiment.endedAt)}`}
+                    {" · "}
+                    {experiment.results.totalVisitors} visitor
+                    {experiment.results.totalVisitors === 1 ? "" : "s"}
+                  </p>
+                </div>
+                {(experiment.status === "draft" || experiment.status === "paused") && (
+                  <Button variant="outline" size="sm" onClick={() => setStatus(experiment, "running")}>
+                    <Play className="size-4" />
+                    {experiment.status === "draft" ? "Start" : "Resume"}
+                  </Button>
+                )}
+                {experiment.status === "running" && (
+                  <Button variant="outline" size="sm" onClick={() => setStatus(experiment, "paused")}>
+                    <Pause className="size-4" />
+                    Pause
+                  </Button>
+                )}
+                {(experiment.status === "running" || experiment.status === "paused") && (
+                  <Button variant="outline" size="sm" onClick={() => setStatus(experiment, "completed")}>
+                    <Square className="size-4" />
+                    End
+                  </Button>
+                )}
+                {experiment.status !== "running" && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-red-500"
+                    onClick={() => deleteExperiment(experiment)}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                )}
+              </div>
+
+              {experiment.status === "draft" ? (
+                <p className="p-4 text-xs text-muted-foreground">
+                  Not started. Visitors are assigned once it&apos;s running.
+                </p>
+              ) : (
+                <div className="p-4 overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-xs text-muted-foreground text-left">
+                      <tr>
+                        <th className="py-1 font-medium">Variant</th>
+                        <th className="py-1 font-medium text-right">Visitors</th>
+                        <th className="py-1 font-medium text-right">Views</th>
+                        <th className="py-1 font-medium text-right">Clicks</th>
+                        <th className="py-1 font-medium text-right">Leads</th>
+                        <th className="py-1 font-medium text-right">Conversion</th>
+                        <th className="py-1 font-medium text-right">Lift</th>
+                        <th className="py-1 font-medium text-right">Significance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {experiment.results.variants.map((result) => (
+                        <tr key={result.variant} className="border-t border-border">
+                          <td className="py-2">
+                            {VARIANT_LABELS[result.variant]}
+                            {result.isControl && (
+                              <span className="text-xs text-muted-foreground"> (control)</span>
+                            )}
+                          </td>
+                          <td className="py-2 text-right tabular-nums">{result.visitors}</td>
+                          <td className="py-2 text-right tabular-nums">{result.views}</td>
+                          <td className="py-2 text-right tabular-nums">{result.clicks}</td>
+                          <td className="py-2 text-right tabular-nums">{result.leads}</td>
+                          <td className="py-2 text-right tabular-nums font-medium">
+                            {formatPercent(result.conversionRate)}
+                          </td>
+                          <td
+                            className={cn(
+                              "py-2 text-right tabular-nums",
+                              result.lift !== null && result.lift > 0 && "text-green-600",
+                              result.lift !== null && result.lift < 0 && "text-red-500"
+                            )}
+                          >
+                            {formatLift(result.lift)}
+                          </td>
+                          <td className="py-2 text-right">
+                            {result.isControl ? (
+                              <span className="text-muted-foreground">—</span>
+                            ) : result.pValue === null ? (
+                              <span className="text-xs text-muted-foreground">needs more visitors</span>
+                            ) : (
+                              <Badge variant={result.significant ? "success" : "secondary"}>
+                                {result.significant ? "significant" : "not significant"} · p=
+                                {result.pValue < 0.001 ? "<0.001" : result.pValue.toFixed(3)}
+                              </Badge>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Conversion is the share of visitors who{" "}
+                    {experiment.goal === "lead_capture" ? "became new leads" : "clicked a CTA"}.
+                    Significance is a two-sided z-test against the control at p &lt; 0.05, shown
+                    once each variant has 30 visitors.
+                  </p>
+                </div>
+              )}
+            </section>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -20,6 +20,10 @@ import {
   Clock,
   UserPlus,
   Users,
+  Cable,
+  Flame,
+  MousePointerClick,
+  FileText,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -43,8 +47,50 @@ interface Lead {
   lastActiveAt: string | null;
   status: string;
   notes: string | null;
+  score: number | null;
 }
 
+interface CrmSync {
+  connectionId: string;
+  connectionName: string;
+  externalId: string | null;
+  state: "pending" | "syncing" | "synced" | "failed";
+  attempts: number;
+  remoteStatus: string | null;
+  lastError: string | null;
+  lastSyncedAt: string | null;
+}
+
+interface LeadScore {
+  score: number;
+  grade: "hot" | "warm" | "cold";
+  engagement: {
+    views: number;
+    timeOnPage: number;
+    scroll: number;
+    ctaClicks: number;
+    recency: number;
+  };
+  opportunity: {
+    siteScore: number;
+    revenueLoss: number;
+  };
+}
+
+type TimelineEvent =
+  | { type: "captured"; at: string; capturePoint: string; auditId: string | null }
+  | {
+      type: "view";
+      at: string;
+      auditId: string;
+      timeOnPageMs: number | null;
+      maxScrollPercent: number | null;
+      deviceType: string | null;
+      variant: string | null;
+    }
+  | { type: "click"; at: string; auditId: string; ctaType: string; ctaLocation: string | null }
+  | { type: "report_access"; at: string; auditId: string; accessCount: number };
+
 // -----------------------------------------------------------------------------
 // Main Component
 // -----------------------------------------------------------------------------
@@ -65,13 +111,18 @@ export default function LeadsPage() {
   const [debouncedSearch, setDebouncedSearch] = useState("");
 
   // Sort
-  const [sortBy, setSortBy] = useState<"captured_at" | "email" | "reports_viewed">("captured_at");
+  const [sortBy, setSortBy] = useState<"captured_at" | "email" | "reports_viewed" | "score">("captured_at");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
 
   // Selected lead for detail view
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
   const [leadNotes, setLeadNotes] = useState("");
   const [isUpdating, setIsUpdating] = useState(false);
+  const [crmSync, setCrmSync] = useState<CrmSync[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [leadScore, setLeadScore] = useState<LeadScore | null>(null);
+  const [timeline, setTimeline] = useState<TimelineEvent[]>([]);
+  const [isRescoring, setIsRescoring] = useState(false);
 
   // Debounce search
   useEffect(() => {
@@ -113,6 +164,46 @@ export default function LeadsPage() {
     fetchLeads();
   }, [fetchLeads]);
 
+  // The selected lead's score, activity and where it has been pushed
+  const fetchLeadDetail = async (leadId: string) => {
+    try {
+      const res = await fetch(`/api/leads/${leadId}`);
+      const data = await res.json();
+      setCrmSync(data.crmSync || []);
+      setTimeline(data.timeline || []);
+      setLeadScore(data.score || null);
+    } catch (error) {
+      console.error("Failed to fetch lead details:", error);
+    }
+  };
+
+  // Recalculate every lead's score
+  const rescoreLeads = async () => {
+    setIsRescoring(true);
+    try {
+      await fetch("/api/leads/scores", { method: "POST" });
+      fetchLeads();
+      if (selectedLead) fetchLeadDetail(selectedLead.id);
+    } catch (error) {
+      console.error("Failed to rescore leads:", error);
+    } finally {
+      setIsRescoring(false);
+    }
+  };
+
+  const syncLeadToCrm = async (leadId: string) => {
+    setIsSyncing(true);
+    try {
+      const res = await fetch(`/api/leads/${leadId}/crm`, { method: "POST" });
+      const data = await res.json();
+      setCrmSync(data.crmSync || []);
+    } catch (error) {
+      console.error("Failed to sync lead:", error);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
   // Update lead status
   const updateLeadStatus = async (leadId: string, status: string) => {
     setIsUpdating(true);
@@ -125,6 +216,7 @@ export default function LeadsPage() {
       fetchLeads();
       if (selectedLead?.id === leadId) {
         setSelectedLead({ ...selectedLead, status });
+        fetchLeadDetail(leadId);
       }
     } catch (error) {
       console.error("Failed to update lead:", error);
@@ -184,7 +276,7 @@ export default function LeadsPage() {
       const leads = data.leads || [];
 
       // Build CSV
-      const headers = ["Email", "Name", "Company", "Phone", "Status", "Capture Point", "Captured At", "Reports Viewed"];
+      const headers = ["Email", "Name", "Company", "Phone", "Status", "Capture Point", "Captured At", "Reports Viewed", "Score"];
       const rows = leads.map((lead: Lead) => [
         lead.email,
         lead.name || "",
@@ -194,6 +286,7 @@ export default function LeadsPage() {
         lead.capturePoint,
         lead.capturedAt,
         lead.reportsViewed.toString(),
+        lead.score?.toString() ?? "",
       ]);
 
       const csvContent = [
@@ -239,6 +332,56 @@ export default function LeadsPage() {
     }
   };
 
+  const getSyncVariant = (state: CrmSync["state"]): "success" | "warning" | "secondary" | "error" => {
+    switch (state) {
+      case "synced":
+        return "success";
+      case "failed":
+        return "error";
+      case "pending":
+        return "warning";
+      default:
+        return "secondary";
+    }
+  };
+
+  const getGradeVariant = (score: number): "success" | "warning" | "secondary" => {
+    if (score >= 70) return "success";
+    if (score >= 40) return "warning";
+    return "secondary";
+  };
+
+  const describeEvent = (event: TimelineEvent): string => {
+    switch (event.type) {
+      case "captured":
+        return `Captured via ${getCapturePointLabel(event.capturePoint)}`;
+      case "view": {
+        const details = [
+          event.timeOnPageMs ? `${Math.round(event.timeOnPageMs / 1000)}s` : null,
+          event.maxScrollPercent ? `${event.maxScrollPercent}% scrolled` : null,
+        ].filter(Boolean);
+        return `Viewed report${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+      }
+      case "click":
+        return `Clicked ${event.ctaType}${event.ctaLocation ? ` (${event.ctaLocation})` : ""}`;
+      case "report_access":
+        return `Unlocked report${event.accessCount > 1 ? ` (${event.accessCount} visits)` : ""}`;
+    }
+  };
+
+  const getEventIcon = (type: TimelineEvent["type"]) => {
+    switch (type) {
+      case "captured":
+        return UserPlus;
+      case "view":
+        return Eye;
+      case "click":
+        return MousePointerClick;
+      case "report_access":
+        return FileText;
+    }
+  };
+
   const getCapturePointLabel = (point: string) => {
     switch (point) {
       case "scroll_80":
@@ -270,6 +413,14 @@ export default function LeadsPage() {
             <Badge variant="outline">{total} leads</Badge>
           </div>
           <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={rescoreLeads} disabled={isRescoring}>
+              {isRescoring ? <Loader2 className="size-4 animate-spin" /> : <Flame className="size-4" />}
+              Rescore
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => window.location.href = "/admin/crm"}>
+              <Cable className="size-4" />
+              CRM
+            </Button>
             <Button variant="outline" size="sm" onClick={exportLeads}>
               <Download className="size-4" />
               Export
@@ -375,6 +526,24 @@ export default function LeadsPage() {
                   <option value="pdf_offer">PDF Offer</option>
                 </select>
 
+                {/* Sort */}
+                <select
+                  value={`${sortBy}:${sortOrder}`}
+                  onChange={(e) => {
+                    const [column, order] = e.target.value.split(":");
+                    setSortBy(column as typeof sortBy);
+                    setSortOrder(order as typeof sortOrder);
+                    setOffset(0);
+                  }}
+                  className="h-10 px-3 rounded-md border border-border bg-background text-sm"
+                >
+                  <option value="captured_at:desc">Newest first</option>
+                  <option value="captured_at:asc">Oldest first</option>
+                  <option value="score:desc">Highest score</option>
+                  <option value="reports_viewed:desc">Most views</option>
+                  <option value="email:asc">Email A-Z</option>
+                </select>
+
                 {hasFilters && (
                   <Button
                     variant="ghost"
@@ -411,6 +580,10 @@ export default function LeadsPage() {
                         onClick={() => {
                           setSelectedLead(lead);
                           setLeadNotes(lead.notes || "");
+                          setCrmSync([]);
+                          setTimeline([]);
+                          setLeadScore(null);
+                          fetchLeadDetail(lead.id);
                         }}
                         className={`p-4 rounded-lg border cursor-pointer transition-colors ${
                           selectedLead?.id === lead.id
@@ -425,6 +598,12 @@ export default function LeadsPage() {
                               <Badge variant={getStatusVariant(lead.status)} className="capitalize">
                                 {lead.status}
                               </Badge>
+                              {lead.score !== null && (
+                                <Badge variant={getGradeVariant(lead.score)} title="Lead score">
+                                  <Flame className="size-3" />
+                                  {lead.score}
+                                </Badge>
+                              )}
                             </div>
                             <div className="flex items-center gap-4 mt-1 text-sm text-muted-foreground">
                               {lead.name && <span>{lead.name}</span>}
@@ -554,6 +733,100 @@ export default function LeadsPage() {
                   )}
                 </div>
 
+                {/* Score */}
+                {leadScore && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-sm font-medium">Lead Score</label>
+                      <Badge variant={getGradeVariant(leadScore.score)} className="capitalize">
+                        {leadScore.score} · {leadScore.grade}
+                      </Badge>
+                    </div>
+                    <div className="space-y-1 text-sm">
+                      {[
+                        ["Report views", leadScore.engagement.views],
+                        ["Time on page", leadScore.engagement.timeOnPage],
+                        ["Scroll depth", leadScore.engagement.scroll],
+                        ["CTA clicks", leadScore.engagement.ctaClicks],
+                        ["Recent activity", leadScore.engagement.recency],
+                        ["Site score", leadScore.opportunity.siteScore],
+                        ["Revenue loss", leadScore.opportunity.revenueLoss],
+                      ].map(([label, points]) => (
+                        <div key={label} className="flex justify-between">
+                          <span className="text-muted-foreground">{label}</span>
+                          <span>+{points}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Activity */}
+                {timeline.length > 0 && (
+                  <div>
+                    <label className="text-sm font-medium mb-2 block">Activity</label>
+                    <div className="space-y-2 text-sm max-h-64 overflow-y-auto">
+                      {timeline.map((event, index) => {
+                        const Icon = getEventIcon(event.type);
+                        return (
+                          <div key={`${event.type}-${event.at}-${index}`} className="flex items-start gap-2">
+                            <Icon className="size-4 mt-0.5 shrink-0 text-muted-foreground" />
+                            <div className="min-w-0">
+                              <div className="truncate">{describeEvent(event)}</div>
+                              <div className="text-xs text-muted-foreground">{formatDate(event.at)}</div>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
+                {/* CRM sync */}
+                {crmSync.length > 0 && (
+                  <div>
+                    <div className="flex items-center justify-between mb-2">
+                      <label className="text-sm font-medium">CRM</label>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => syncLeadToCrm(selectedLead.id)}
+                        disabled={isSyncing}
+                      >
+                        {isSyncing ? <Loader2 className="size-4 animate-spin" /> : <RefreshCw className="size-4" />}
+                        Sync now
+                      </Button>
+                    </div>
+                    <div className="space-y-2 text-sm">
+                      {crmSync.map((sync) => (
+                        <div key={sync.connectionId} className="p-2 rounded-md border border-border space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="truncate">{sync.connectionName}</span>
+                            <Badge variant={getSyncVariant(sync.state)}>{sync.state}</Badge>
+                          </div>
+                          {sync.externalId && (
+                            <div className="text-xs text-muted-foreground font-mono truncate">
+                              ID {sync.externalId}
+                              {sync.remoteStatus && ` · ${sync.remoteStatus}`}
+                            </div>
+                          )}
+                          {sync.lastSyncedAt && (
+                            <div className="text-xs text-muted-foreground">
+                              Synced {formatDate(sync.lastSyncedAt)}
+                            </div>
+                          )}
+                          {sync.lastError && (
+                            <div className="text-xs text-red-500 break-words">
+                              {sync.lastError}
+                              {sync.state === "pending" && ` (attempt ${sync.attempts}, retrying)`}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Notes */}
                 <div>
                   <label className="text-sm font-medium mb-2 block">Notes</label>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import {
   Plus,
   RefreshCw,
@@ -20,6 +20,16 @@ import {
   LayoutList,
   FileText,
   Database,
+  SlidersHorizontal,
+  CalendarClock,
+  FlaskConical,
+  Palette,
+  UserCog,
+  ScrollText,
+  KeySquare,
+  Webhook,
+  Cable,
+  X,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -27,6 +37,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ThemePicker } from "@/components/theme-picker";
 import { LinkBuilder, BulkImportModal, AuditTable } from "@/components/admin";
+import type { AuditStreamEvent } from "@/types/audit";
 
 interface AuditSummary {
   id: string;
@@ -38,11 +49,17 @@ interface AuditSummary {
 interface RunningJob {
   jobId: string;
   domain: string;
-  status: "pending" | "running" | "completed" | "failed";
+  status: "pending" | "running" | "stalled" | "completed" | "failed" | "cancelled";
   progress: number;
   currentStep: string;
 }
 
+interface AdminSession {
+  user: { id: string; email: string; name: string | null; role: string } | null;
+  permissions: string[];
+  setupRequired?: boolean;
+}
+
 interface ApiBalances {
   semrush: { units: number | null; error?: string };
   dataForSEO: { balance: number | null; spent: number | null; error?: string };
@@ -50,7 +67,14 @@ interface ApiBalances {
 }
 
 // Login form component
-function AdminLogin({ onSuccess }: { onSuccess: () => void }) {
+function AdminLogin({
+  setupRequired,
+  onSuccess,
+}: {
+  setupRequired?: boolean;
+  onSuccess: (session: AdminSession) => void;
+}) {
+  const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -64,15 +88,15 @@ function AdminLogin({ onSuccess }: { onSuccess: () => void }) {
       const res = await fetch("/api/admin/login", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify({ email, password }),
       });
 
       const data = await res.json();
 
       if (data.success) {
-        onSuccess();
+        onSuccess({ user: data.user ?? null, permissions: data.permissions ?? [] });
       } else {
-        setError(data.error || "Invalid password");
+        setError(data.error || "Invalid email or password");
       }
     } catch {
       setError("Failed to authenticate");
@@ -90,18 +114,28 @@ function AdminLogin({ onSuccess }: { onSuccess: () => void }) {
           </div>
           <CardTitle className="text-xl">Admin Access</CardTitle>
           <p className="text-sm text-muted-foreground mt-2">
-            Enter the admin password to continue
+            {setupRequired
+              ? "No admin accounts yet. Sign in with your email and ADMIN_PASSWORD to create the owner account."
+              : "Sign in with your admin account to continue"}
           </p>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Input
+                type="email"
+                placeholder="Email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoFocus
+              />
+            </div>
             <div>
               <Input
                 type="password"
                 placeholder="Password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
-                autoFocus
               />
             </div>
             {error && (
@@ -110,7 +144,7 @@ function AdminLogin({ onSuccess }: { onSuccess: () => void }) {
             <Button
               type="submit"
               className="w-full"
-              disabled={isLoading || !password}
+              disabled={isLoading || !email || !password}
             >
               {isLoading ? (
                 <Loader2 className="size-4 animate-spin" />
@@ -126,7 +160,7 @@ function AdminLogin({ onSuccess }: { onSuccess: () => void }) {
 }
 
 // Main admin dashboard
-function AdminDashboard({ onLogout }: { onLogout: () => void }) {
+function AdminDashboard({ session, onLogout }: { session: AdminSession; onLogout: () => void }) {
   const [audits, setAudits] = useState<AuditSummary[]>([]);
   const [runningJobs, setRunningJobs] = useState<Map<string, RunningJob>>(new Map());
   const [newDomain, setNewDomain] = useState("");
@@ -173,53 +207,87 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
     fetchAudits();
   }, [fetchAudits]);
 
-  // Poll running jobs
+  // Follow running jobs over their event streams
+  const jobStreamsRef = useRef(new Map<string, EventSource>());
+
   useEffect(() => {
-    if (runningJobs.size === 0) return;
+    const streams = jobStreamsRef.current;
+
+    const updateJob = (jobId: string, update: (job: RunningJob) => RunningJob | null) => {
+      setRunningJobs((prev) => {
+        const job = prev.get(jobId);
+        if (!job) return prev;
+        const next = new Map(prev);
+        const updated = update(job);
+        if (updated) {
+          next.set(jobId, updated);
+        } else {
+          next.delete(jobId);
+        }
+        return next;
+      });
+    };
 
-    const interval = setInterval(async () => {
-      const updates = new Map(runningJobs);
-      let hasChanges = false;
+    for (const [jobId, job] of runningJobs) {
+      if (streams.has(jobId) || job.status === "failed") continue;
 
-      for (const [jobId, job] of runningJobs) {
-        if (job.status === "completed" || job.status === "failed") continue;
+      const source = new EventSource(`/api/audit/stream/${jobId}`);
+      streams.set(jobId, source);
 
-        try {
-          const res = await fetch(`/api/audit/status/${jobId}`);
-          const data = await res.json();
+      const handle = (message: MessageEvent<string>) => {
+        const event = JSON.parse(message.data) as AuditStreamEvent;
 
-          if (data.status === "completed") {
-            updates.delete(jobId);
-            hasChanges = true;
-            // Refresh the audits list
-            fetchAudits();
-          } else if (data.status === "failed") {
-            updates.set(jobId, { ...job, status: "failed" });
-            hasChanges = true;
-          } else {
-            updates.set(jobId, {
-              ...job,
-              status: data.status,
-              progress: data.progress || 0,
-              currentStep: data.currentStep || "",
-            });
-            hasChanges = true;
-          }
-        } catch {
-          // Job might have completed and been removed
-          updates.delete(jobId);
-          hasChanges = true;
+        if (event.type === "progress" || event.type === "stage") {
+          updateJob(jobId, (j) => ({
+            ...j,
+            status: "running",
+            progress: event.progress,
+            currentStep: event.step,
+          }));
+          return;
+        }
+        if (event.type === "retrying") {
+          updateJob(jobId, (j) => ({
+            ...j,
+            status: "pending",
+            currentStep: `Retrying (attempt ${event.attempt + 1} of ${event.maxAttempts})...`,
+          }));
+          return;
         }
-      }
 
-      if (hasChanges) {
-        setRunningJobs(updates);
+        source.close();
+        streams.delete(jobId);
+        if (event.type === "failed") {
+          updateJob(jobId, (j) => ({ ...j, status: "failed", currentStep: event.error }));
+        } else {
+          updateJob(jobId, () => null);
+          // Refresh the audits list
+          if (event.type === "completed") fetchAudits();
+        }
+      };
+
+      for (const type of ["progress", "stage", "retrying", "completed", "failed", "cancelled"]) {
+        source.addEventListener(type, handle as EventListener);
       }
-    }, 2000);
+    }
 
-    return () => clearInterval(interval);
+    // Close streams for jobs no longer shown
+    for (const [jobId, source] of streams) {
+      if (!runningJobs.has(jobId)) {
+        source.close();
+        streams.delete(jobId);
+      }
+    }
   }, [runningJobs, fetchAudits]);
 
+  useEffect(() => {
+    const streams = jobStreamsRef.current;
+    return () => {
+      for (const source of streams.values()) source.close();
+      streams.clear();
+    };
+  }, []);
+
   // Start a new audit
   const startAudit = async (domain: string) => {
     if (!domain.trim()) return;
@@ -251,6 +319,22 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
     }
   };
 
+  // Cancel a running audit
+  const cancelAudit = async (jobId: string) => {
+    try {
+      const res = await fetch(`/api/audit/cancel/${jobId}`, { method: "POST" });
+      if (!res.ok) return;
+
+      setRunningJobs((prev) => {
+        const next = new Map(prev);
+        next.delete(jobId);
+        return next;
+      });
+    } catch (error) {
+      console.error("Failed to cancel audit:", error);
+    }
+  };
+
   // Start bulk audits
   const startBulkAudits = async () => {
     const domains = bulkDomains
@@ -330,6 +414,54 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
               <FileText className="size-4" />
               Plans
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.location.href = "/admin/scoring"}
+            >
+              <SlidersHorizontal className="size-4" />
+              Scoring
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.location.href = "/admin/schedules"}
+            >
+              <CalendarClock className="size-4" />
+              Schedules
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.location.href = "/admin/experiments"}
+            >
+              <FlaskConical className="size-4" />
+              Experiments
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.location.href = "/admin/workspaces"}
+            >
+              <Palette className="size-4" />
+              Workspaces
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.location.href = "/admin/webhooks"}
+            >
+              <Webhook className="size-4" />
+              Webhooks
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => window.location.href = "/admin/crm"}
+            >
+              <Cable className="size-4" />
+              CRM
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -338,6 +470,36 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
               <Database className="size-4" />
               DB
             </Button>
+            {session.user && session.permissions.includes("admin:manage") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => window.location.href = "/admin/users"}
+              >
+                <UserCog className="size-4" />
+                Users
+              </Button>
+            )}
+            {session.permissions.includes("admin:manage") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => window.location.href = "/admin/audit-log"}
+              >
+                <ScrollText className="size-4" />
+                Log
+              </Button>
+            )}
+            {session.permissions.includes("admin:manage") && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => window.location.href = "/admin/api-keys"}
+              >
+                <KeySquare className="size-4" />
+                API
+              </Button>
+            )}
             <Button
               variant="default"
               size="sm"
@@ -368,6 +530,11 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
               <RefreshCw className="size-4" />
             </Button>
             <ThemePicker />
+            {session.user && (
+              <span className="text-xs text-muted-foreground" title={session.user.email}>
+                {session.user.name || session.user.email} · {session.user.role}
+              </span>
+            )}
             <Button variant="ghost" size="sm" onClick={handleLogout}>
               <LogOut className="size-4" />
             </Button>
@@ -509,8 +676,16 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
                         {job.progress}%
                       </div>
                     </div>
-                    {job.status === "failed" && (
+                    {job.status === "failed" ? (
                       <Badge variant="error">Failed</Badge>
+                    ) : (
+                      <button
+                        onClick={() => cancelAudit(job.jobId)}
+                        className="p-1 rounded hover:bg-muted transition-colors"
+                        title="Cancel audit"
+                      >
+                        <X className="size-4 text-muted-foreground" />
+                      </button>
                     )}
                   </div>
                 ))}
@@ -693,6 +868,7 @@ function AdminDashboard({ onLogout }: { onLogout: () => void }) {
 // Main component with auth state management
 export default function AdminPage() {
   const [authState, setAuthState] = useState<"loading" | "unauthenticated" | "authenticated">("loading");
+  const [session, setSession] = useState<AdminSession>({ user: null, permissions: [] });
 
   // Check auth status on mount
   useEffect(() => {
@@ -703,6 +879,11 @@ export default function AdminPage() {
         const res = await fetch("/api/admin/check");
         if (res.ok) {
           const data = await res.json();
+          setSession({
+            user: data.user ?? null,
+            permissions: data.permissions ?? [],
+            setupRequired: data.setupRequired,
+          });
           setAuthState(data.authenticated ? "authenticated" : "unauthenticated");
         } else {
           setAuthState("unauthenticated");
@@ -725,8 +906,24 @@ export default function AdminPage() {
   }
 
   if (authState === "unauthenticated") {
-    return <AdminLogin onSuccess={() => setAuthState("authenticated")} />;
+    return (
+      <AdminLogin
+        setupRequired={session.setupRequired}
+        onSuccess={(next) => {
+          setSession(next);
+          setAuthState("authenticated");
+        }}
+      />
+    );
   }
 
-  return <AdminDashboard onLogout={() => setAuthState("unauthenticated")} />;
+  return (
+    <AdminDashboard
+      session={session}
+      onLogout={() => {
+        setSession({ user: null, permissions: [] });
+        setAuthState("unauthenticated");
+      }}
+    />
+  );
 }
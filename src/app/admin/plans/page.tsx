@@ -142,7 +142,7 @@ function InlineCode({ children }: { children: React.ReactNode }) {
 export default function PlansPage() {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const selectedSlug = searchParams.get("doc");
+  const selectedSlug = searchParams?.get("doc");
 
   const [plans, setPlans] = useState<PlanMeta[]>([]);
   const [selectedPlan, setSelectedPlan] = useState<PlanContent | null>(null);
@@ -0,0 +1,621 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ArrowLeft,
+  CalendarClock,
+  AlertCircle,
+  BellRing,
+  ChevronDown,
+  ChevronRight,
+  RefreshCw,
+  Loader2,
+  Play,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+type Frequency = "daily" | "weekly" | "monthly";
+
+type AlertRule =
+  | { type: "score_drop"; threshold: number }
+  | { type: "high_impact_fail" }
+  | { type: "booking_engine_lost" };
+
+type NotifierConfig =
+  | { type: "webhook"; url: string; secret?: string }
+  | { type: "email"; to: string[] };
+
+interface ScheduleRun {
+  id: string;
+  status: "running" | "completed" | "failed" | "interrupted";
+  triggeredBy: "schedule" | "manual";
+  domainsTotal: number;
+  domainsCompleted: number;
+  domainsFailed: number;
+  alertsTriggered: number;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+interface Schedule {
+  id: string;
+  name: string;
+  targetType: "domain" | "batch";
+  target: string;
+  frequency: Frequency;
+  runHour: number;
+  scoringProfile: string | null;
+  alertRules: AlertRule[];
+  notifiers: NotifierConfig[];
+  enabled: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  lastRun: ScheduleRun | null;
+}
+
+interface ScheduleAlert {
+  id: string;
+  scheduleId: string;
+  domain: string;
+  auditId: string;
+  rule: string;
+  message: string;
+  deliveries: Array<{ notifier: string; target: string; ok: boolean; error?: string }>;
+  createdAt: string;
+}
+
+const RULE_LABELS: Record<AlertRule["type"], string> = {
+  score_drop: "Score drops",
+  high_impact_fail: "High-impact check starts failing",
+  booking_engine_lost: "Booking engine no longer detected",
+};
+
+const RUN_STATUS_VARIANT: Record<ScheduleRun["status"], "success" | "warning" | "error" | "secondary"> = {
+  running: "secondary",
+  completed: "success",
+  failed: "error",
+  interrupted: "warning",
+};
+
+function formatDateTime(iso: string | null) {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+const EMPTY_FORM = {
+  name: "",
+  targetType: "domain" as "domain" | "batch",
+  target: "",
+  frequency: "weekly" as Frequency,
+  runHour: 6,
+  scoringProfile: "",
+  scoreDrop: true,
+  threshold: 5,
+  highImpactFail: true,
+  bookingEngineLost: true,
+  webhookUrl: "",
+  webhookSecret: "",
+  emailTo: "",
+};
+
+export default function SchedulesPage() {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [alerts, setAlerts] = useState<ScheduleAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+
+  const fetchSchedules = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/schedules");
+      if (!res.ok) throw new Error("Failed to fetch schedules");
+      const data = await res.json();
+      setSchedules(data.schedules);
+      setAlerts(data.alerts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSchedules();
+  }, []);
+
+  const toggleExpanded = async (id: string) => {
+    if (expanded === id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(id);
+    setRuns([]);
+    try {
+      const res = await fetch(`/api/admin/schedules/${id}`);
+      if (res.ok) setRuns((await res.json()).runs);
+    } catch (err) {
+      console.error("Failed to fetch runs:", err);
+    }
+  };
+
+  const createSchedule = async () => {
+    const alertRules: AlertRule[] = [];
+    if (form.scoreDrop) alertRules.push({ type: "score_drop", threshold: form.threshold });
+    if (form.highImpactFail) alertRules.push({ type: "high_impact_fail" });
+    if (form.bookingEngineLost) alertRules.push({ type: "booking_engine_lost" });
+
+    const notifiers: NotifierConfig[] = [];
+    if (form.webhookUrl.trim()) {
+      notifiers.push({
+        type: "webhook",
+        url: form.webhookUrl.trim(),
+        ...(form.webhookSecret ? { secret: form.webhookSecret } : {}),
+      });
+    }
+    if (form.emailTo.trim()) {
+      notifiers.push({
+        type: "email",
+        to: form.emailTo.split(",").map((to) => to.trim()).filter(Boolean),
+      });
+    }
+
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch("/api/admin/schedules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: form.name || undefined,
+          targetType: form.targetType,
+          target: form.target,
+          frequency: form.frequency,
+          runHour: form.runHour,
+          scoringProfile: form.scoringProfile || undefined,
+          alertRules,
+          notifiers,
+        }),
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setFormError(result.error || "Failed to create schedule");
+        return;
+      }
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      await fetchSchedules();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to create schedule");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setEnabled = async (schedule: Schedule, enabled: boolean) => {
+    try {
+      const res = await fetch(`/api/admin/schedules/${schedule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ enabled }),
+      });
+      if (!res.ok) throw new Error("Failed to update schedule");
+      await fetchSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update schedule");
+    }
+  };
+
+  const runNow = async (schedule: Schedule) => {
+    try {
+      const res = await fetch(`/api/admin/schedules/${schedule.id}/run`, { method: "POST" });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to start run");
+      await fetchSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start run");
+    }
+  };
+
+  const deleteSchedule = async (schedule: Schedule) => {
+    const confirmed = window.confirm(
+      `Delete schedule "${schedule.name}"? Its run and alert history is deleted too; audits are kept.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const res = await fetch(`/api/admin/schedules/${schedule.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete schedule");
+      if (expanded === schedule.id) setExpanded(null);
+      await fetchSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete schedule");
+    }
+  };
+
+  return (
+    <div className="h-screen bg-background flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="h-14 shrink-0 border-b border-border bg-background/95 backdrop-blur z-40">
+        <div className="px-4 sm:px-6 h-full flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => (window.location.href = "/admin")}
+              className="gap-1.5"
+            >
+              <ArrowLeft className="size-4" />
+              <span className="hidden sm:inline">Admin</span>
+            </Button>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-2">
+              <CalendarClock className="size-4 text-muted-foreground" />
+              <h1 className="font-semibold">Scheduled Audits</h1>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={fetchSchedules} disabled={isLoading}>
+              <RefreshCw className={cn("size-4", isLoading && "animate-spin")} />
+            </Button>
+            <Button size="sm" onClick={() => setShowForm(!showForm)}>
+              <Plus className="size-4" />
+              New Schedule
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+              {error}
+            </div>
+          )}
+
+          {showForm && (
+            <section className="p-5 rounded-lg border border-border bg-card space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Target</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={form.targetType}
+                      onChange={(e) =>
+                        setForm({ ...form, targetType: e.target.value as "domain" | "batch" })
+                      }
+                      className="h-10 px-3 rounded-md border border-border bg-background text-sm"
+                    >
+                      <option value="domain">Domain</option>
+                      <option value="batch">Import batch</option>
+                    </select>
+                    <Input
+                      placeholder={form.targetType === "domain" ? "example.com" : "batch_..."}
+                      value={form.target}
+                      onChange={(e) => setForm({ ...form, target: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Name</label>
+                  <Input
+                    placeholder="Defaults to the target"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium mb-2">Frequency</label>
+                    <select
+                      value={form.frequency}
+                      onChange={(e) => setForm({ ...form, frequency: e.target.value as Frequency })}
+                      className="w-full h-10 px-3 rounded-md border border-border bg-background text-sm"
+                    >
+                      <option value="daily">Daily</option>
+                      <option value="weekly">Weekly</option>
+                      <option value="monthly">Monthly</option>
+                    </select>
+                  </div>
+                  <div className="w-28">
+                    <label className="block text-sm font-medium mb-2">Hour (UTC)</label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={23}
+                      value={form.runHour}
+                      onChange={(e) => setForm({ ...form, runHour: Number(e.target.value) })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Scoring profile</label>
+                  <Input
+                    placeholder="Default profile"
+                    value={form.scoringProfile}
+                    onChange={(e) => setForm({ ...form, scoringProfile: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Alert when</label>
+                <div className="space-y-2 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.scoreDrop}
+                      onChange={(e) => setForm({ ...form, scoreDrop: e.target.checked })}
+                    />
+                    Score drops by at least
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-20 h-8"
+                      value={form.threshold}
+                      onChange={(e) => setForm({ ...form, threshold: Number(e.target.value) })}
+                    />
+                    points
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.highImpactFail}
+                      onChange={(e) => setForm({ ...form, highImpactFail: e.target.checked })}
+                    />
+                    {RULE_LABELS.high_impact_fail}
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.bookingEngineLost}
+                      onChange={(e) => setForm({ ...form, bookingEngineLost: e.target.checked })}
+                    />
+                    {RULE_LABELS.booking_engine_lost}
+                  </label>
+                </div>
+              </div>
+
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Webhook</label>
+                  <div className="space-y-2">
+                    <Input
+                      placeholder="https://hooks.example.com/..."
+                      value={form.webhookUrl}
+                      onChange={(e) => setForm({ ...form, webhookUrl: e.target.value })}
+                    />
+                    <Input
+                      placeholder="Signing secret (optional)"
+                      value={form.webhookSecret}
+                      onChange={(e) => setForm({ ...form, webhookSecret: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Email</label>
+                  <Input
+                    placeholder="ops@example.com, sales@example.com"
+                    value={form.emailTo}
+                    onChange={(e) => setForm({ ...form, emailTo: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {formError && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+                  <AlertCircle className="size-4 shrink-0 mt-0.5" />
+                  {formError}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Button onClick={createSchedule} disabled={isSaving || !form.target}>
+                  {isSaving ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+                  Create Schedule
+                </Button>
+                <Button variant="ghost" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </section>
+          )}
+
+          {/* Schedules */}
+          <section className="rounded-lg border border-border bg-card divide-y divide-border">
+            {isLoading && schedules.length === 0 && (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="size-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {!isLoading && schedules.length === 0 && (
+              <p className="p-6 text-sm text-muted-foreground text-center">
+                No schedules yet. Create one to re-audit a domain or import batch automatically.
+              </p>
+            )}
+
+            {schedules.map((schedule) => (
+              <div key={schedule.id}>
+                <div className="flex items-center gap-3 p-4">
+                  <button
+                    onClick={() => toggleExpanded(schedule.id)}
+                    className="text-muted-foreground hover:text-foreground"
+                  >
+                    {expanded === schedule.id ? (
+                      <ChevronDown className="size-4" />
+                    ) : (
+                      <ChevronRight className="size-4" />
+                    )}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">{schedule.name}</span>
+                      <Badge variant="outline">{schedule.frequency}</Badge>
+                      {!schedule.enabled && <Badge variant="secondary">paused</Badge>}
+                      {schedule.lastRun && (
+                        <Badge variant={RUN_STATUS_VARIANT[schedule.lastRun.status]}>
+                          {schedule.lastRun.status}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {schedule.targetType === "batch" ? "Batch " : ""}
+                      <span className="font-mono">{schedule.target}</span>
+                      {" · "}next {schedule.enabled ? formatDateTime(schedule.nextRunAt) : "—"}
+                      {" · "}last {formatDateTime(schedule.lastRunAt)}
+                      {" · "}
+                      {schedule.notifiers.length} notifier{schedule.notifiers.length === 1 ? "" : "s"}
+                    </p>
+                  </div>
+                  <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={schedule.enabled}
+                      onChange={(e) => setEnabled(schedule, e.target.checked)}
+                    />
+                    Enabled
+                  </label>
+                  <Button variant="outline" size="sm" onClick={() => runNow(schedule)}>
+                    <Play className="size-4" />
+                    Run now
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-red-500"
+                    onClick={() => deleteSchedule(schedule)}
+                  >
+                    <Trash2 className="size-4" />
+                  </Button>
+                </div>
+
+                {expanded === schedule.id && (
+                  <div className="px-11 pb-4 space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      Alerts:{" "}
+                      {schedule.alertRules.length === 0
+                        ? "none"
+                        : schedule.alertRules
+                            .map((rule) =>
+                              rule.type === "score_drop"
+                                ? `${RULE_LABELS[rule.type]} ≥ ${rule.threshold}`
+                                : RULE_LABELS[rule.type]
+                            )
+                            .join(", ")}
+                    </p>
+                    {runs.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">No runs yet</p>
+                    ) : (
+                      <table className="w-full text-xs">
+                        <thead className="text-muted-foreground text-left">
+                          <tr>
+                            <th className="py-1 font-medium">Started</th>
+                            <th className="py-1 font-medium">Status</th>
+                            <th className="py-1 font-medium">Domains</th>
+                            <th className="py-1 font-medium">Alerts</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {runs.map((run) => (
+                            <tr key={run.id} className="border-t border-border">
+                              <td className="py-1.5">
+                                {formatDateTime(run.startedAt)}
+                                {run.triggeredBy === "manual" && (
+                                  <span className="text-muted-foreground"> (manual)</span>
+                                )}
+                              </td>
+                              <td className="py-1.5">
+                                <Badge variant={RUN_STATUS_VARIANT[run.status]}>{run.status}</Badge>
+                                {run.error && <span className="text-red-500 ml-2">{run.error}</span>}
+                              </td>
+                              <td className="py-1.5">
+                                {run.domainsCompleted}/{run.domainsTotal}
+                                {run.domainsFailed > 0 && (
+                                  <span className="text-red-500"> ({run.domainsFailed} failed)</span>
+                                )}
+                              </td>
+                              <td className="py-1.5">{run.alertsTriggered}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
+
+          {/* Recent alerts */}
+          <section>
+            <div className="flex items-center gap-2 mb-3">
+              <BellRing className="size-4 text-muted-foreground" />
+              <h2 className="font-semibold text-sm">Recent Alerts</h2>
+            </div>
+            {alerts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No alerts have fired yet.</p>
+            ) : (
+              <div className="rounded-lg border border-border bg-card divide-y divide-border">
+                {alerts.map((alert) => (
+                  <div key={alert.id} className="p-3 flex items-start gap-3 text-sm">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() => (window.location.href = `/admin/${alert.auditId}`)}
+                          className="font-mono hover:underline"
+                        >
+                          {alert.domain}
+                        </button>
+                        <span className="text-xs text-muted-foreground">
+                          {formatDateTime(alert.createdAt)}
+                        </span>
+                      </div>
+                      <p className="text-muted-foreground">{alert.message}</p>
+                    </div>
+                    <div className="flex flex-wrap gap-1 justify-end">
+                      {alert.deliveries.length === 0 ? (
+                        <Badge variant="outline">not sent</Badge>
+                      ) : (
+                        alert.deliveries.map((delivery, i) => (
+                          <Badge
+                            key={i}
+                            variant={delivery.ok ? "success" : "error"}
+                            title={delivery.error || delivery.target}
+                          >
+                            {delivery.notifier}
+                          </Badge>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  );
+}
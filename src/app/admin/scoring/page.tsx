@@ -0,0 +1,369 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ArrowLeft,
+  SlidersHorizontal,
+  CheckCircle2,
+  AlertCircle,
+  RefreshCw,
+  Loader2,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+interface ScoringProfile {
+  name: string;
+  description: string | null;
+  format: "yaml" | "json";
+  source: string;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ProfilesData {
+  builtIn: {
+    name: string;
+    description: string;
+    weights: Record<string, number>;
+    ruleCount: number;
+  };
+  profiles: ScoringProfile[];
+}
+
+interface ProfileSummary {
+  weights: Record<string, number>;
+  severityBase: Record<string, number>;
+  clamps: { conversionBlocker: number | null; noHttps: number | null };
+  ruleCount: number;
+}
+
+const NEW_PROFILE_TEMPLATE = `description: Describe when to use this profile
+
+# Category weights (relative; omitted categories keep their default)
+weights:
+  conversion: 35
+  performance: 20
+  trust: 20
+  content: 15
+  seo: 7
+  security: 3
+
+# Disable or adjust built-in rules
+overrides:
+  - ruleId: trust.no_social_profiles
+    action: disable
+
+# DSL rules; an id matching a built-in rule replaces it
+rules:
+  - id: performance.mobile_lcp_slow
+    when: perf.mobile.lcpMs > 4000
+    then:
+      severity: major
+      impact: 0.6
+      title: Mobile pages load slowly
+      evidence: "Mobile LCP: {perf.mobile.lcpMs | round(0)}ms"
+      fix: Compress hero images and defer non-critical scripts.
+`;
+
+export default function ScoringProfilesPage() {
+  const [data, setData] = useState<ProfilesData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Editor state
+  const [selected, setSelected] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [format, setFormat] = useState<"yaml" | "json">("yaml");
+  const [source, setSource] = useState("");
+  const [isDefault, setIsDefault] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [validation, setValidation] = useState<
+    { valid: true; summary: ProfileSummary } | { valid: false; error: string } | null
+  >(null);
+
+  const fetchProfiles = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/scoring-profiles");
+      if (!res.ok) throw new Error("Failed to fetch scoring profiles");
+      setData(await res.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  const selectProfile = (profile: ScoringProfile | null) => {
+    setSelected(profile?.name ?? null);
+    setName(profile?.name ?? "");
+    setFormat(profile?.format ?? "yaml");
+    setSource(profile?.source ?? NEW_PROFILE_TEMPLATE);
+    setIsDefault(profile?.isDefault ?? false);
+    setValidation(null);
+  };
+
+  const submit = async (validateOnly: boolean) => {
+    setIsSaving(true);
+    setValidation(null);
+    try {
+      const res = await fetch("/api/admin/scoring-profiles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, format, source, isDefault, validateOnly }),
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setValidation({ valid: false, error: result.error || "Failed to save profile" });
+        return;
+      }
+      setValidation({ valid: true, summary: result.summary });
+      if (!validateOnly) {
+        setSelected(name);
+        await fetchProfiles();
+      }
+    } catch (err) {
+      setValidation({
+        valid: false,
+        error: err instanceof Error ? err.message : "Failed to save profile",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteProfile = async () => {
+    if (!selected) return;
+    const confirmed = window.confirm(
+      `Delete scoring profile "${selected}"? Existing audits keep their scores.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const res = await fetch(`/api/admin/scoring-profiles/${selected}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete profile");
+      setSelected(null);
+      setName("");
+      setSource("");
+      await fetchProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete profile");
+    }
+  };
+
+  const isEditing = selected !== null || source !== "";
+
+  return (
+    <div className="h-screen bg-background flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="h-14 shrink-0 border-b border-border bg-background/95 backdrop-blur z-40">
+        <div className="px-4 sm:px-6 h-full flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => (window.location.href = "/admin")}
+              className="gap-1.5"
+            >
+              <ArrowLeft className="size-4" />
+              <span className="hidden sm:inline">Admin</span>
+            </Button>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-2">
+              <SlidersHorizontal className="size-4 text-muted-foreground" />
+              <h1 className="font-semibold">Scoring Profiles</h1>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={fetchProfiles} disabled={isLoading}>
+              <RefreshCw className={cn("size-4", isLoading && "animate-spin")} />
+            </Button>
+            <Button size="sm" onClick={() => selectProfile(null)}>
+              <Plus className="size-4" />
+              New Profile
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 overflow-hidden flex">
+        {/* Profile list */}
+        <aside className="w-72 shrink-0 border-r border-border overflow-y-auto p-4 space-y-2">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+              {error}
+            </div>
+          )}
+
+          {isLoading && !data && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {data && (
+            <>
+              <div className="p-3 rounded-lg border border-border bg-card">
+                <div className="flex items-center justify-between">
+                  <span className="font-mono text-sm">{data.builtIn.name}</span>
+                  <Badge variant="outline">built-in</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {data.builtIn.ruleCount} rules
+                </p>
+              </div>
+
+              {data.profiles.map((profile) => (
+                <button
+                  key={profile.name}
+                  onClick={() => selectProfile(profile)}
+                  className={cn(
+                    "w-full text-left p-3 rounded-lg border transition-colors",
+                    selected === profile.name
+                      ? "border-primary bg-primary/5"
+                      : "border-border bg-card hover:bg-muted/50"
+                  )}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono text-sm">{profile.name}</span>
+                    {profile.isDefault && <Badge variant="success">default</Badge>}
+                  </div>
+                  {profile.description && (
+                    <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                      {profile.description}
+                    </p>
+                  )}
+                </button>
+              ))}
+
+              {data.profiles.length === 0 && (
+                <p className="text-sm text-muted-foreground px-1">
+                  No custom profiles yet. Audits use the built-in rules and weights.
+                </p>
+              )}
+            </>
+          )}
+        </aside>
+
+        {/* Editor */}
+        <section className="flex-1 overflow-y-auto p-6">
+          {!isEditing ? (
+            <div className="flex items-center justify-center h-full text-sm text-muted-foreground">
+              Select a profile or create a new one
+            </div>
+          ) : (
+            <div className="max-w-3xl space-y-4">
+              <div className="flex items-end gap-3">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium mb-2">Name</label>
+                  <Input
+                    placeholder="e.g. q1-outbound"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    disabled={selected !== null}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Format</label>
+                  <select
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as "yaml" | "json")}
+                    className="h-10 px-3 rounded-md border border-border bg-background text-sm"
+                  >
+                    <option value="yaml">YAML</option>
+                    <option value="json">JSON</option>
+                  </select>
+                </div>
+              </div>
+
+              <textarea
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                spellCheck={false}
+                className="w-full h-[28rem] p-4 rounded-lg border border-input bg-background font-mono text-sm resize-y focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={isDefault}
+                  onChange={(e) => setIsDefault(e.target.checked)}
+                />
+                Use for audits and batches that don&apos;t select a profile
+              </label>
+
+              {validation && (
+                <div
+                  className={cn(
+                    "p-4 rounded-lg border text-sm",
+                    validation.valid
+                      ? "bg-green-500/10 border-green-500/30"
+                      : "bg-red-500/10 border-red-500/30 text-red-500"
+                  )}
+                >
+                  {validation.valid ? (
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2 font-medium">
+                        <CheckCircle2 className="size-4 text-green-500" />
+                        Profile is valid ({validation.summary.ruleCount} rules)
+                      </div>
+                      <p className="text-muted-foreground font-mono text-xs">
+                        {Object.entries(validation.summary.weights)
+                          .map(([category, weight]) => `${category} ${weight}`)
+                          .join(" · ")}
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="flex items-start gap-2">
+                      <AlertCircle className="size-4 shrink-0 mt-0.5" />
+                      <span className="whitespace-pre-wrap">
+                        {validation.error.replace(/; /g, "\n")}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => submit(true)}
+                  disabled={isSaving || !name}
+                >
+                  Validate
+                </Button>
+                <Button onClick={() => submit(false)} disabled={isSaving || !name}>
+                  {isSaving ? (
+                    <Loader2 className="size-4 animate-spin" />
+                  ) : (
+                    <Save className="size-4" />
+                  )}
+                  Save
+                </Button>
+                {selected && (
+                  <Button variant="ghost" className="ml-auto text-red-500" onClick={deleteProfile}>
+                    <Trash2 className="size-4" />
+                    Delete
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ArrowLeft,
+  UserCog,
+  AlertCircle,
+  RefreshCw,
+  Loader2,
+  Plus,
+  KeyRound,
+  LogOut,
+  Ban,
+  CheckCircle,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+type AdminRole = "owner" | "analyst" | "sales" | "viewer";
+
+interface AdminUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: AdminRole;
+  disabledAt: string | null;
+  lastLoginAt: string | null;
+  createdAt: string;
+  activeSessions: number;
+}
+
+const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  owner: "Everything, including users and migrations",
+  analyst: "Run audits and batches, edit schedules, experiments, scoring and workspaces",
+  sales: "View everything, edit and delete leads",
+  viewer: "Read-only",
+};
+
+const ROLES = Object.keys(ROLE_DESCRIPTIONS) as AdminRole[];
+
+function formatDate(iso: string | null) {
+  if (!iso) return "never";
+  return new Date(iso).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+const EMPTY_FORM = {
+  email: "",
+  name: "",
+  role: "viewer" as AdminRole,
+  password: "",
+};
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchUsers = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [usersRes, checkRes] = await Promise.all([
+        fetch("/api/admin/users"),
+        fetch("/api/admin/check"),
+      ]);
+      const data = await usersRes.json();
+      if (!usersRes.ok) throw new Error(data.error || "Failed to fetch users");
+      setUsers(data.users);
+      if (checkRes.ok) {
+        const check = await checkRes.json();
+        setCurrentUserId(check.user?.id ?? null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const createUser = async () => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch("/api/admin/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setFormError(result.error || "Failed to create user");
+        return;
+      }
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      await fetchUsers();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to create user");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateUser = async (user: AdminUser, updates: Record<string, unknown>) => {
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to update user");
+      await fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update user");
+    }
+  };
+
+  const resetPassword = async (user: AdminUser) => {
+    const password = window.prompt(
+      `New password for ${user.email} (at least 10 characters). They'll be signed out everywhere.`
+    );
+    if (!password) return;
+    await updateUser(user, { password });
+  };
+
+  const setDisabled = async (user: AdminUser, disabled: boolean) => {
+    if (disabled && !window.confirm(`Disable ${user.email}? They'll be signed out everywhere.`)) {
+      return;
+    }
+    await updateUser(user, { disabled });
+  };
+
+  const revokeSessions = async (user: AdminUser) => {
+    if (!window.confirm(`Sign ${user.email} out of all ${user.activeSessions} session(s)?`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}/sessions`, { method: "DELETE" });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to revoke sessions");
+      if (user.id === currentUserId) {
+        window.location.href = "/admin";
+        return;
+      }
+      await fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke sessions");
+    }
+  };
+
+  const deleteUser = async (user: AdminUser) => {
+    const confirmed = window.confirm(
+      `Delete ${user.email}? Audits, batches and leads they touched stay attributed to their user ID.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const res = await fetch(`/api/admin/users/${user.id}`, { method: "DELETE" });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to delete user");
+      await fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete user");
+    }
+  };
+
+  return (
+    <div className="h-screen bg-background flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="h-14 shrink-0 border-b border-border bg-background/95 backdrop-blur z-40">
+        <div className="px-4 sm:px-6 h-full flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => (window.location.href = "/admin")}
+              className="gap-1.5"
+            >
+              <ArrowLeft className="size-4" />
+              <span className="hidden sm:inline">Admin</span>
+            </Button>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-2">
+              <UserCog className="size-4 text-muted-foreground" />
+              <h1 className="font-semibold">Admin Users</h1>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={fetchUsers} disabled={isLoading}>
+              <RefreshCw className={cn("size-4", isLoading && "animate-spin")} />
+            </Button>
+            <Button size="sm" onClick={() => setShowForm(!showForm)}>
+              <Plus className="size-4" />
+              New User
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+              {error}
+            </div>
+          )}
+
+          {showForm && (
+            <section className="p-5 rounded-lg border border-border bg-card space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Email</label>
+                  <Input
+                    type="email"
+                    placeholder="jane@example.com"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Name</label>
+                  <Input
+                    placeholder="Optional"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Role</label>
+                  <select
+                    value={form.role}
+                    onChange={(e) => setForm({ ...form, role: e.target.value as AdminRole })}
+                    className="w-full h-10 px-3 rounded-md border border-border bg-background text-sm"
+                  >
+                    {ROLES.map((role) => (
+                      <option key={role} value={role}>
+                        {role}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground mt-1">{ROLE_DESCRIPTIONS[form.role]}</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Password</label>
+                  <Input
+                    type="password"
+                    placeholder="At least 10 characters"
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              {formError && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+                  <AlertCircle className="size-4 shrink-0 mt-0.5" />
+                  {formError}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Button onClick={createUser} disabled={isSaving || !form.email || !form.password}>
+                  {isSaving ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+                  Create User
+                </Button>
+                <Button variant="ghost" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </section>
+          )}
+
+          {isLoading && users.length === 0 && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isLoading && !error && users.length === 0 && (
+            <p className="p-6 text-sm text-muted-foreground text-center rounded-lg border border-border bg-card">
+              No admin users yet. Sign in with your email and <span className="font-mono">ADMIN_PASSWORD</span>{" "}
+              to create the first owner, then add everyone else here.
+            </p>
+          )}
+
+          {users.length > 0 && (
+            <section className="rounded-lg border border-border bg-card overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-muted-foreground text-left">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">User</th>
+                    <th className="px-4 py-2 font-medium">Role</th>
+                    <th className="px-4 py-2 font-medium">Last sign-in</th>
+                    <th className="px-4 py-2 font-medium text-right">Sessions</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {users.map((user) => {
+                    const isSelf = user.id === currentUserId;
+                    return (
+                      <tr key={user.id} className={cn("border-t border-border", user.disabledAt && "opacity-60")}>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{user.email}</span>
+                            {isSelf && <Badge variant="outline">you</Badge>}
+                            {user.disabledAt && <Badge variant="error">disabled</Badge>}
+                          </div>
+                          {user.name && <p className="text-xs text-muted-foreground">{user.name}</p>}
+                        </td>
+                        <td className="px-4 py-3">
+                          <select
+                            value={user.role}
+                            onChange={(e) => updateUser(user, { role: e.target.value })}
+                            title={ROLE_DESCRIPTIONS[user.role]}
+                            className="h-8 px-2 rounded-md border border-border bg-background text-sm"
+                          >
+                            {ROLES.map((role) => (
+                              <option key={role} value={role}>
+                                {role}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="px-4 py-3 text-muted-foreground">{formatDate(user.lastLoginAt)}</td>
+                        <td className="px-4 py-3 text-right tabular-nums">{user.activeSessions}</td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center justify-end gap-1">
+                            <Button variant="ghost" size="icon" title="Reset password" onClick={() => resetPassword(user)}>
+                              <KeyRound className="size-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Sign out everywhere"
+                              disabled={user.activeSessions === 0}
+                              onClick={() => revokeSessions(user)}
+                            >
+                              <LogOut className="size-4" />
+                            </Button>
+                            {!isSelf && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={user.disabledAt ? "Enable" : "Disable"}
+                                onClick={() => setDisabled(user, !user.disabledAt)}
+                              >
+                                {user.disabledAt ? <CheckCircle className="size-4" /> : <Ban className="size-4" />}
+                              </Button>
+                            )}
+                            {!isSelf && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="text-red-500"
+                                title="Delete"
+                                onClick={() => deleteUser(user)}
+                              >
+                                <Trash2 className="size-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </section>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,551 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ArrowLeft,
+  Webhook,
+  AlertCircle,
+  RefreshCw,
+  Loader2,
+  Plus,
+  Send,
+  RotateCw,
+  Trash2,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Check,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+type WebhookEventType = "audit.completed" | "audit.failed" | "batch.completed" | "lead.created";
+type DeliveryStatus = "pending" | "delivering" | "succeeded" | "failed";
+
+interface WebhookSubscription {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  createdAt: string;
+  deliveries: Partial<Record<DeliveryStatus, number>>;
+}
+
+interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  eventType: string;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+const EVENT_DESCRIPTIONS: Record<WebhookEventType, string> = {
+  "audit.completed": "An audit finished, including audits in a batch",
+  "audit.failed": "An audit failed after its last retry",
+  "batch.completed": "Every domain in a batch was processed",
+  "lead.created": "A new lead was captured",
+};
+
+const EVENTS = Object.keys(EVENT_DESCRIPTIONS) as WebhookEventType[];
+
+const STATUS_VARIANTS: Record<DeliveryStatus, "success" | "error" | "warning" | "secondary"> = {
+  succeeded: "success",
+  failed: "error",
+  pending: "warning",
+  delivering: "secondary",
+};
+
+function formatDate(iso: string | null) {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+const EMPTY_FORM = {
+  name: "",
+  url: "",
+  events: ["audit.completed"] as WebhookEventType[],
+};
+
+export default function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // A full signing secret, shown once after creating or rotating it
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [deliveriesLoading, setDeliveriesLoading] = useState(false);
+  const [openDeliveryId, setOpenDeliveryId] = useState<string | null>(null);
+  const [testingId, setTestingId] = useState<string | null>(null);
+
+  const fetchWebhooks = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/webhooks");
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to fetch webhooks");
+      setWebhooks(data.webhooks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchDeliveries = async (webhookId: string) => {
+    setDeliveriesLoading(true);
+    try {
+      const res = await fetch(`/api/admin/webhooks/${webhookId}/deliveries?limit=50`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to fetch deliveries");
+      setDeliveries(data.deliveries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to fetch deliveries");
+    } finally {
+      setDeliveriesLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, []);
+
+  const toggleExpanded = (webhookId: string) => {
+    if (expandedId === webhookId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(webhookId);
+    setDeliveries([]);
+    setOpenDeliveryId(null);
+    fetchDeliveries(webhookId);
+  };
+
+  const toggleEvent = (event: WebhookEventType) => {
+    setForm({
+      ...form,
+      events: form.events.includes(event)
+        ? form.events.filter((e) => e !== event)
+        : [...form.events, event],
+    });
+  };
+
+  const showSecret = (webhook: { name: string; secret: string }) => {
+    setRevealedSecret({ name: webhook.name, secret: webhook.secret });
+    setCopied(false);
+  };
+
+  const createWebhook = async () => {
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch("/api/admin/webhooks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setFormError(result.error || "Failed to create webhook");
+        return;
+      }
+      showSecret(result.webhook);
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+      await fetchWebhooks();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to create webhook");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateWebhook = async (webhook: WebhookSubscription, updates: Record<string, unknown>) => {
+    try {
+      const res = await fetch(`/api/admin/webhooks/${webhook.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updates),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to update webhook");
+      if (updates.rotateSecret) showSecret(result.webhook);
+      await fetchWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update webhook");
+    }
+  };
+
+  const rotateSecret = async (webhook: WebhookSubscription) => {
+    const confirmed = window.confirm(
+      `Rotate the signing secret of ${webhook.name}? Deliveries are signed with the new secret right away.`
+    );
+    if (!confirmed) return;
+    await updateWebhook(webhook, { rotateSecret: true });
+  };
+
+  const sendTest = async (webhook: WebhookSubscription) => {
+    setTestingId(webhook.id);
+    try {
+      const res = await fetch(`/api/admin/webhooks/${webhook.id}/test`, { method: "POST" });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to send test event");
+      await fetchWebhooks();
+      setExpandedId(webhook.id);
+      setOpenDeliveryId(result.delivery?.id ?? null);
+      await fetchDeliveries(webhook.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send test event");
+    } finally {
+      setTestingId(null);
+    }
+  };
+
+  const redeliver = async (webhookId: string, deliveryId: string) => {
+    try {
+      const res = await fetch(`/api/admin/webhooks/${webhookId}/deliveries`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ deliveryId }),
+      });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to redeliver");
+      await fetchDeliveries(webhookId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to redeliver");
+    }
+  };
+
+  const deleteWebhook = async (webhook: WebhookSubscription) => {
+    if (!window.confirm(`Delete ${webhook.name} and its delivery log?`)) return;
+
+    try {
+      const res = await fetch(`/api/admin/webhooks/${webhook.id}`, { method: "DELETE" });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to delete webhook");
+      if (expandedId === webhook.id) setExpandedId(null);
+      await fetchWebhooks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete webhook");
+    }
+  };
+
+  return (
+    <div className="h-screen bg-background flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="h-14 shrink-0 border-b border-border bg-background/95 backdrop-blur z-40">
+        <div className="px-4 sm:px-6 h-full flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => (window.location.href = "/admin")}
+              className="gap-1.5"
+            >
+              <ArrowLeft className="size-4" />
+              <span className="hidden sm:inline">Admin</span>
+            </Button>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-2">
+              <Webhook className="size-4 text-muted-foreground" />
+              <h1 className="font-semibold">Webhooks</h1>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={fetchWebhooks} disabled={isLoading}>
+              <RefreshCw className={cn("size-4", isLoading && "animate-spin")} />
+            </Button>
+            <Button size="sm" onClick={() => setShowForm(!showForm)}>
+              <Plus className="size-4" />
+              New Webhook
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+              {error}
+            </div>
+          )}
+
+          {revealedSecret && (
+            <section className="p-5 rounded-lg border border-emerald-500/30 bg-emerald-500/10 space-y-3">
+              <p className="text-sm">
+                Signing secret for <span className="font-medium">{revealedSecret.name}</span>. Copy it now - it
+                won&apos;t be shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 min-w-0 truncate px-3 py-2 rounded-md bg-background border border-border text-xs">
+                  {revealedSecret.secret}
+                </code>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={async () => {
+                    await navigator.clipboard.writeText(revealedSecret.secret);
+                    setCopied(true);
+                  }}
+                >
+                  {copied ? <Check className="size-4" /> : <Copy className="size-4" />}
+                  {copied ? "Copied" : "Copy"}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setRevealedSecret(null)}>
+                  Done
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Verify deliveries by computing HMAC-SHA256 of{" "}
+                <span className="font-mono">{"<X-HostAI-Timestamp>.<raw body>"}</span> with this secret and comparing
+                it to <span className="font-mono">X-HostAI-Signature</span>.
+              </p>
+            </section>
+          )}
+
+          {showForm && (
+            <section className="p-5 rounded-lg border border-border bg-card space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">URL</label>
+                  <Input
+                    placeholder="https://example.com/hooks/hostai"
+                    value={form.url}
+                    onChange={(e) => setForm({ ...form, url: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Name</label>
+                  <Input
+                    placeholder="Defaults to the URL's host"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Events</label>
+                <div className="grid sm:grid-cols-2 gap-2">
+                  {EVENTS.map((event) => (
+                    <label key={event} className="flex items-start gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={form.events.includes(event)}
+                        onChange={() => toggleEvent(event)}
+                      />
+                      <span>
+                        <span className="font-mono">{event}</span>
+                        <span className="block text-xs text-muted-foreground">{EVENT_DESCRIPTIONS[event]}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {formError && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+                  <AlertCircle className="size-4 shrink-0 mt-0.5" />
+                  {formError}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Button onClick={createWebhook} disabled={isSaving || !form.url || form.events.length === 0}>
+                  {isSaving ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+                  Create Webhook
+                </Button>
+                <Button variant="ghost" onClick={() => setShowForm(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </section>
+          )}
+
+          {isLoading && webhooks.length === 0 && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isLoading && !error && webhooks.length === 0 && (
+            <p className="p-6 text-sm text-muted-foreground text-center rounded-lg border border-border bg-card">
+              No webhooks yet. Add one to notify other systems when audits, batches or leads change.
+            </p>
+          )}
+
+          {webhooks.map((webhook) => {
+            const isExpanded = expandedId === webhook.id;
+            return (
+              <section
+                key={webhook.id}
+                className={cn("rounded-lg border border-border bg-card", !webhook.enabled && "opacity-70")}
+              >
+                <div className="p-4 flex items-start gap-3">
+                  <button
+                    type="button"
+                    className="mt-0.5 text-muted-foreground"
+                    onClick={() => toggleExpanded(webhook.id)}
+                    title="Delivery log"
+                  >
+                    {isExpanded ? <ChevronDown className="size-4" /> : <ChevronRight className="size-4" />}
+                  </button>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{webhook.name}</span>
+                      {!webhook.enabled && <Badge variant="outline">disabled</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono truncate">{webhook.url}</p>
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {webhook.events.map((event) => (
+                        <Badge key={event} variant="secondary" className="font-mono">
+                          {event}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground pt-1">
+                      {webhook.deliveries.succeeded ?? 0} delivered · {webhook.deliveries.failed ?? 0} failed ·{" "}
+                      {(webhook.deliveries.pending ?? 0) + (webhook.deliveries.delivering ?? 0)} queued
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <label className="flex items-center gap-1.5 text-xs text-muted-foreground mr-2">
+                      <input
+                        type="checkbox"
+                        checked={webhook.enabled}
+                        onChange={(e) => updateWebhook(webhook, { enabled: e.target.checked })}
+                      />
+                      Enabled
+                    </label>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Send test event"
+                      disabled={testingId === webhook.id}
+                      onClick={() => sendTest(webhook)}
+                    >
+                      {testingId === webhook.id ? <Loader2 className="size-4 animate-spin" /> : <Send className="size-4" />}
+                    </Button>
+                    <Button variant="ghost" size="icon" title="Rotate secret" onClick={() => rotateSecret(webhook)}>
+                      <RotateCw className="size-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-red-500"
+                      title="Delete"
+                      onClick={() => deleteWebhook(webhook)}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="border-t border-border">
+                    {deliveriesLoading && deliveries.length === 0 && (
+                      <div className="flex items-center justify-center py-6">
+                        <Loader2 className="size-5 animate-spin text-muted-foreground" />
+                      </div>
+                    )}
+                    {!deliveriesLoading && deliveries.length === 0 && (
+                      <p className="p-4 text-sm text-muted-foreground">No deliveries yet.</p>
+                    )}
+                    {deliveries.length > 0 && (
+                      <div className="divide-y divide-border">
+                        {deliveries.map((delivery) => {
+                          const isOpen = openDeliveryId === delivery.id;
+                          return (
+                            <div key={delivery.id} className="text-sm">
+                              <button
+                                type="button"
+                                className="w-full flex items-center gap-3 px-4 py-2 text-left hover:bg-muted/30"
+                                onClick={() => setOpenDeliveryId(isOpen ? null : delivery.id)}
+                              >
+                                <Badge variant={STATUS_VARIANTS[delivery.status]}>{delivery.status}</Badge>
+                                <span className="font-mono text-xs">{delivery.eventType}</span>
+                                <span className="text-xs text-muted-foreground">
+                                  {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.error ?? ""}
+                                </span>
+                                <span className="ml-auto text-xs text-muted-foreground tabular-nums">
+                                  {delivery.attempts}/{delivery.maxAttempts} · {formatDate(delivery.createdAt)}
+                                </span>
+                              </button>
+                              {isOpen && (
+                                <div className="px-4 pb-4 space-y-2">
+                                  {delivery.error && <p className="text-xs text-red-500">{delivery.error}</p>}
+                                  {delivery.status === "pending" && delivery.nextAttemptAt && (
+                                    <p className="text-xs text-muted-foreground">
+                                      Next attempt {formatDate(delivery.nextAttemptAt)}
+                                    </p>
+                                  )}
+                                  <div className="grid md:grid-cols-2 gap-3">
+                                    <div className="min-w-0">
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">Payload</p>
+                                      <pre className="text-xs bg-muted/50 rounded-md p-2 overflow-x-auto max-h-64">
+                                        {JSON.stringify(JSON.parse(delivery.payload), null, 2)}
+                                      </pre>
+                                    </div>
+                                    <div className="min-w-0">
+                                      <p className="text-xs font-medium text-muted-foreground mb-1">
+                                        Response{delivery.durationMs !== null && ` (${delivery.durationMs} ms)`}
+                                      </p>
+                                      <pre className="text-xs bg-muted/50 rounded-md p-2 overflow-x-auto max-h-64 whitespace-pre-wrap">
+                                        {delivery.responseBody || "—"}
+                                      </pre>
+                                    </div>
+                                  </div>
+                                  {delivery.status === "failed" && (
+                                    <Button variant="outline" size="sm" onClick={() => redeliver(webhook.id, delivery.id)}>
+                                      <RotateCw className="size-4" />
+                                      Redeliver
+                                    </Button>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </section>
+            );
+          })}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,387 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  ArrowLeft,
+  Palette,
+  AlertCircle,
+  RefreshCw,
+  Loader2,
+  Plus,
+  Pencil,
+  Trash2,
+  Globe,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+interface WorkspaceBranding {
+  brandName: string;
+  logoUrl: string | null;
+  websiteUrl: string | null;
+  primaryColor: string | null;
+  accentColor: string | null;
+  fontFamily: string | null;
+  fontUrl: string | null;
+  ctaHeading: string | null;
+  ctaDescription: string | null;
+  ctaText: string | null;
+  ctaUrl: string | null;
+  footerText: string | null;
+  privacyUrl: string | null;
+}
+
+interface Workspace {
+  id: string;
+  name: string;
+  customDomain: string | null;
+  branding: WorkspaceBranding;
+  reportCount: number;
+  createdAt: string;
+}
+
+type BrandingForm = Record<keyof WorkspaceBranding, string>;
+
+const EMPTY_BRANDING: BrandingForm = {
+  brandName: "",
+  logoUrl: "",
+  websiteUrl: "",
+  primaryColor: "",
+  accentColor: "",
+  fontFamily: "",
+  fontUrl: "",
+  ctaHeading: "",
+  ctaDescription: "",
+  ctaText: "",
+  ctaUrl: "",
+  footerText: "",
+  privacyUrl: "",
+};
+
+const EMPTY_FORM = {
+  name: "",
+  customDomain: "",
+  branding: EMPTY_BRANDING,
+};
+
+// Form fields, in display order
+const BRANDING_FIELDS: Array<{
+  group: string;
+  fields: Array<{ key: keyof WorkspaceBranding; label: string; placeholder: string; color?: boolean }>;
+}> = [
+  {
+    group: "Brand",
+    fields: [
+      { key: "brandName", label: "Brand name", placeholder: "Defaults to the workspace name" },
+      { key: "logoUrl", label: "Logo URL", placeholder: "https://agency.com/logo.svg" },
+      { key: "websiteUrl", label: "Website", placeholder: "https://agency.com" },
+      { key: "primaryColor", label: "Primary color", placeholder: "#4f46e5", color: true },
+      { key: "accentColor", label: "CTA panel color", placeholder: "#111827", color: true },
+    ],
+  },
+  {
+    group: "Font",
+    fields: [
+      { key: "fontFamily", label: "Font family", placeholder: "'Poppins', sans-serif" },
+      { key: "fontUrl", label: "Font stylesheet", placeholder: "https://fonts.googleapis.com/css2?family=Poppins" },
+    ],
+  },
+  {
+    group: "Call to action",
+    fields: [
+      { key: "ctaHeading", label: "Heading", placeholder: "Ready to fix these issues?" },
+      { key: "ctaDescription", label: "Description", placeholder: "We can help fix these issues..." },
+      { key: "ctaText", label: "Button text", placeholder: "Get Started" },
+      { key: "ctaUrl", label: "Button link", placeholder: "https://agency.com/book-a-call" },
+    ],
+  },
+  {
+    group: "Footer & consent",
+    fields: [
+      { key: "footerText", label: "Footer text", placeholder: "© Agency Ltd. Report prepared for you by Agency." },
+      { key: "privacyUrl", label: "Privacy policy URL", placeholder: "https://agency.com/privacy" },
+    ],
+  },
+];
+
+function toForm(workspace: Workspace) {
+  const branding = { ...EMPTY_BRANDING };
+  for (const key of Object.keys(EMPTY_BRANDING) as (keyof WorkspaceBranding)[]) {
+    branding[key] = workspace.branding[key] ?? "";
+  }
+  return { name: workspace.name, customDomain: workspace.customDomain ?? "", branding };
+}
+
+export default function WorkspacesPage() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchWorkspaces = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/admin/workspaces");
+      if (!res.ok) throw new Error("Failed to fetch workspaces");
+      const data = await res.json();
+      setWorkspaces(data.workspaces);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, []);
+
+  const openForm = (workspace?: Workspace) => {
+    setEditingId(workspace?.id ?? null);
+    setForm(workspace ? toForm(workspace) : EMPTY_FORM);
+    setFormError(null);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+  };
+
+  const saveWorkspace = async () => {
+    // Empty fields clear the setting; an empty brand name falls back to the workspace name
+    const branding: Record<string, string | null> = {};
+    for (const [key, value] of Object.entries(form.branding)) {
+      branding[key] = value.trim() || null;
+    }
+    branding.brandName = branding.brandName ?? form.name;
+
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const res = await fetch(
+        editingId ? `/api/admin/workspaces/${editingId}` : "/api/admin/workspaces",
+        {
+          method: editingId ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: form.name,
+            customDomain: form.customDomain.trim() || null,
+            branding,
+          }),
+        }
+      );
+      const result = await res.json();
+      if (!res.ok) {
+        setFormError(result.error || "Failed to save workspace");
+        return;
+      }
+      closeForm();
+      await fetchWorkspaces();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save workspace");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteWorkspace = async (workspace: Workspace) => {
+    const confirmed = window.confirm(
+      `Delete workspace "${workspace.name}"? Its ${workspace.reportCount} report(s) go back to the default GetHost.AI branding.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const res = await fetch(`/api/admin/workspaces/${workspace.id}`, { method: "DELETE" });
+      const result = await res.json();
+      if (!res.ok) throw new Error(result.error || "Failed to delete workspace");
+      await fetchWorkspaces();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete workspace");
+    }
+  };
+
+  const setBrandingField = (key: keyof WorkspaceBranding, value: string) => {
+    setForm({ ...form, branding: { ...form.branding, [key]: value } });
+  };
+
+  return (
+    <div className="h-screen bg-background flex flex-col overflow-hidden">
+      {/* Header */}
+      <header className="h-14 shrink-0 border-b border-border bg-background/95 backdrop-blur z-40">
+        <div className="px-4 sm:px-6 h-full flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => (window.location.href = "/admin")}
+              className="gap-1.5"
+            >
+              <ArrowLeft className="size-4" />
+              <span className="hidden sm:inline">Admin</span>
+            </Button>
+            <div className="h-5 w-px bg-border" />
+            <div className="flex items-center gap-2">
+              <Palette className="size-4 text-muted-foreground" />
+              <h1 className="font-semibold">White-label Workspaces</h1>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={fetchWorkspaces} disabled={isLoading}>
+              <RefreshCw className={cn("size-4", isLoading && "animate-spin")} />
+            </Button>
+            <Button size="sm" onClick={() => openForm()}>
+              <Plus className="size-4" />
+              New Workspace
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+              {error}
+            </div>
+          )}
+
+          {showForm && (
+            <section className="p-5 rounded-lg border border-border bg-card space-y-5">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Name</label>
+                  <Input
+                    placeholder="Acme Digital"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Custom domain</label>
+                  <Input
+                    placeholder="reports.acme.com"
+                    value={form.customDomain}
+                    onChange={(e) => setForm({ ...form, customDomain: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Short links and QR codes use this domain. Point its DNS at this app.
+                  </p>
+                </div>
+              </div>
+
+              {BRANDING_FIELDS.map(({ group, fields }) => (
+                <div key={group}>
+                  <p className="text-sm font-medium mb-2">{group}</p>
+                  <div className="grid sm:grid-cols-2 gap-4">
+                    {fields.map((field) => (
+                      <div key={field.key}>
+                        <label className="block text-xs text-muted-foreground mb-1">{field.label}</label>
+                        <div className="flex gap-2">
+                          {field.color && (
+                            <input
+                              type="color"
+                              value={form.branding[field.key] || field.placeholder}
+                              onChange={(e) => setBrandingField(field.key, e.target.value)}
+                              className="h-10 w-10 shrink-0 rounded-md border border-border bg-background p-1"
+                            />
+                          )}
+                          <Input
+                            placeholder={field.placeholder}
+                            value={form.branding[field.key]}
+                            onChange={(e) => setBrandingField(field.key, e.target.value)}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              {formError && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-500 text-sm">
+                  <AlertCircle className="size-4 shrink-0 mt-0.5" />
+                  {formError}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Button onClick={saveWorkspace} disabled={isSaving || !form.name}>
+                  {isSaving ? <Loader2 className="size-4 animate-spin" /> : editingId ? <Pencil className="size-4" /> : <Plus className="size-4" />}
+                  {editingId ? "Save Workspace" : "Create Workspace"}
+                </Button>
+                <Button variant="ghost" onClick={closeForm}>
+                  Cancel
+                </Button>
+              </div>
+            </section>
+          )}
+
+          {isLoading && workspaces.length === 0 && (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="size-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isLoading && workspaces.length === 0 && (
+            <p className="p-6 text-sm text-muted-foreground text-center rounded-lg border border-border bg-card">
+              No workspaces yet. Reports use the default GetHost.AI branding until their link
+              settings assign them to a workspace.
+            </p>
+          )}
+
+          {workspaces.map((workspace) => (
+            <section key={workspace.id} className="rounded-lg border border-border bg-card p-4 flex items-center gap-4">
+              <div className="flex gap-1 shrink-0">
+                {[workspace.branding.primaryColor, workspace.branding.accentColor].map((color, idx) => (
+                  <span
+                    key={idx}
+                    className={cn("size-6 rounded-md border border-border", !color && "bg-muted")}
+                    style={color ? { backgroundColor: color } : undefined}
+                  />
+                ))}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{workspace.name}</span>
+                  {workspace.branding.brandName !== workspace.name && (
+                    <span className="text-xs text-muted-foreground truncate">as {workspace.branding.brandName}</span>
+                  )}
+                  <Badge variant="secondary">
+                    {workspace.reportCount} report{workspace.reportCount === 1 ? "" : "s"}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground mt-0.5 flex items-center gap-1">
+                  <Globe className="size-3" />
+                  {workspace.customDomain ?? "No custom domain"}
+                  {workspace.branding.ctaUrl && ` · CTA → ${workspace.branding.ctaUrl}`}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => openForm(workspace)}>
+                <Pencil className="size-4" />
+                Edit
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-red-500"
+                onClick={() => deleteWorkspace(workspace)}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </section>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
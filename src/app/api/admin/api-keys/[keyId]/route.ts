@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getApiKey, parseApiKeyFields, revokeApiKey, updateApiKey } from "@/lib/api-keys";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * PATCH /api/admin/api-keys/[keyId]
+ * Rename an API key or change its scopes, rate limit or quota
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  const auth = await requireAdmin("admin:manage");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { keyId } = await params;
+    const body = await request.json();
+
+    const fields = parseApiKeyFields(body, false);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+
+    const existing = await getApiKey(keyId);
+    if (!existing) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+    if (existing.revokedAt) {
+      return NextResponse.json({ error: "API key has been revoked" }, { status: 400 });
+    }
+
+    const apiKey = await updateApiKey(keyId, fields);
+
+    await recordAdminAction(auth.user, {
+      action: "api_key.update",
+      entityType: "api_key",
+      entityId: keyId,
+      before: existing,
+      after: apiKey,
+    });
+
+    return NextResponse.json({ apiKey });
+  } catch (error) {
+    console.error("[API Keys API] Failed to update key:", error);
+    return NextResponse.json(
+      { error: "Failed to update API key" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/api-keys/[keyId]
+ * Revoke an API key. It is kept, so what it created stays attributed to it.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ keyId: string }> }
+) {
+  const auth = await requireAdmin("admin:manage");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { keyId } = await params;
+
+    const existing = await getApiKey(keyId);
+    if (!existing) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+
+    if (await revokeApiKey(keyId)) {
+      await recordAdminAction(auth.user, {
+        action: "api_key.revoke",
+        entityType: "api_key",
+        entityId: keyId,
+        before: existing,
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[API Keys API] Failed to revoke key:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke API key" },
+      { status: 500 }
+    );
+  }
+}
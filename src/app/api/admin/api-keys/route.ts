@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createApiKey, listApiKeys, parseApiKeyFields } from "@/lib/api-keys";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/api-keys
+ * List API keys, including revoked ones, with their usage this minute and
+ * today
+ */
+export async function GET() {
+  const auth = await requireAdmin("admin:manage");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const keys = await listApiKeys();
+    return NextResponse.json({ keys });
+  } catch (error) {
+    console.error("[API Keys API] Failed to list keys:", error);
+    return NextResponse.json(
+      { error: "Failed to list API keys" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/api-keys
+ * Create an API key. The key is only returned here.
+ *
+ * Body:
+ * - name: string
+ * - scopes: ("audits:read" | "audits:write" | "batches:read" | "batches:write")[]
+ * - rateLimitPerMinute?: number | null - Null uses API_RATE_LIMIT_PER_MINUTE
+ * - dailyAuditQuota?: number | null - Null uses API_DAILY_AUDIT_QUOTA
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin("admin:manage");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+
+    const fields = parseApiKeyFields(body, true);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+    const { name, scopes } = fields;
+    if (!name || !scopes) {
+      return NextResponse.json({ error: "name and scopes are required" }, { status: 400 });
+    }
+
+    const { apiKey, key } = await createApiKey({ ...fields, name, scopes }, auth.user?.id ?? null);
+
+    await recordAdminAction(auth.user, {
+      action: "api_key.create",
+      entityType: "api_key",
+      entityId: apiKey.id,
+      after: apiKey,
+    });
+
+    return NextResponse.json({ apiKey, key });
+  } catch (error) {
+    console.error("[API Keys API] Failed to create key:", error);
+    return NextResponse.json(
+      { error: "Failed to create API key" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listAdminAuditLog } from "@/lib/admin-audit-log";
+import { requireAdmin } from "@/lib/admin-auth";
+
+// Most entries one export returns
+const EXPORT_LIMIT = 10000;
+
+// GET /api/admin/audit-log/export - Export the audit log as CSV
+// Takes the same filters as GET /api/admin/audit-log
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin("admin:manage");
+  if (!auth.ok) return auth.response;
+
+  const searchParams = request.nextUrl.searchParams;
+
+  try {
+    const { entries } = await listAdminAuditLog({
+      actor: searchParams.get("actor") || undefined,
+      action: searchParams.get("action") || undefined,
+      entityType: searchParams.get("entity_type") || undefined,
+      entityId: searchParams.get("entity_id") || undefined,
+      since: searchParams.get("since") || undefined,
+      until: searchParams.get("until") || undefined,
+      limit: EXPORT_LIMIT,
+    });
+
+    // Build CSV
+    const headers = [
+      "Timestamp",
+      "Actor",
+      "Actor ID",
+      "Action",
+      "Entity Type",
+      "Entity ID",
+      "Before",
+      "After",
+      "IP",
+    ];
+
+    const rows = entries.map((entry) => [
+      entry.createdAt,
+      entry.actorEmail || "",
+      entry.actorId || "",
+      entry.action,
+      entry.entityType,
+      entry.entityId || "",
+      entry.before === null ? "" : JSON.stringify(entry.before),
+      entry.after === null ? "" : JSON.stringify(entry.after),
+      entry.ip || "",
+    ]);
+
+    const csvContent = [
+      headers.join(","),
+      ...rows.map((row) =>
+        row.map((cell) => `"${cell.replace(/"/g, '""')}"`).join(",")
+      ),
+    ].join("\n");
+
+    // Return as downloadable CSV
+    return new NextResponse(csvContent, {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="admin-audit-log-${Date.now()}.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("[Audit Log API] Failed to export entries:", error);
+    return NextResponse.json(
+      { error: "Failed to export audit log" },
+      { status: 500 }
+    );
+  }
+}
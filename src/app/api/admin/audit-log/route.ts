@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAdminAuditFacets, listAdminAuditLog } from "@/lib/admin-audit-log";
+import { requireAdmin } from "@/lib/admin-auth";
+
+/**
+ * GET /api/admin/audit-log
+ * Admin actions, newest first
+ *
+ * Query params:
+ * - actor?: string - User ID or email
+ * - action?: string - e.g. "lead.update"
+ * - entity_type?: string - e.g. "lead"
+ * - entity_id?: string
+ * - since?: string - ISO date, inclusive
+ * - until?: string - ISO date, exclusive
+ * - limit?: number (default 50)
+ * - offset?: number (default 0)
+ */
+export async function GET(request: NextRequest) {
+  const auth = await requireAdmin("admin:manage");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get("limit") || "50", 10);
+    const offset = parseInt(searchParams.get("offset") || "0", 10);
+
+    const [{ entries, total }, facets] = await Promise.all([
+      listAdminAuditLog({
+        actor: searchParams.get("actor") || undefined,
+        action: searchParams.get("action") || undefined,
+        entityType: searchParams.get("entity_type") || undefined,
+        entityId: searchParams.get("entity_id") || undefined,
+        since: searchParams.get("since") || undefined,
+        until: searchParams.get("until") || undefined,
+        limit,
+        offset,
+      }),
+      getAdminAuditFacets(),
+    ]);
+
+    return NextResponse.json({
+      entries,
+      total,
+      limit,
+      offset,
+      hasMore: offset + entries.length < total,
+      facets,
+    });
+  } catch (error) {
+    console.error("[Audit Log API] Failed to list entries:", error);
+    return NextResponse.json(
+      { error: "Failed to list audit log" },
+      { status: 500 }
+    );
+  }
+}
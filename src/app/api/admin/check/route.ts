@@ -1,21 +1,32 @@
 import { NextResponse } from "next/server";
-import { isAdminAuthenticated, isAdminAuthEnabled } from "@/lib/admin-auth";
+import { countAdminUsers } from "@/lib/admin-users";
+import {
+  getAdminPermissions,
+  getCurrentAdminUser,
+  isAdminAuthEnabled,
+} from "@/lib/admin-auth";
 
 export async function GET() {
   try {
     // If auth is not enabled, always return authenticated
-    if (!isAdminAuthEnabled()) {
+    if (!(await isAdminAuthEnabled())) {
       return NextResponse.json({
         authenticated: true,
         authEnabled: false,
+        user: null,
+        permissions: getAdminPermissions(null),
       });
     }
 
-    const authenticated = await isAdminAuthenticated();
+    const user = await getCurrentAdminUser();
 
     return NextResponse.json({
-      authenticated,
+      authenticated: user !== null,
       authEnabled: true,
+      user,
+      permissions: user ? getAdminPermissions(user) : [],
+      // No accounts yet: the first sign-in with ADMIN_PASSWORD creates the owner
+      setupRequired: (await countAdminUsers()) === 0,
     });
   } catch (error) {
     console.error("[Admin Check] Error:", error);
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteCrmConnection,
+  getCrmConnection,
+  maskCrmConnection,
+  parseCrmConnectionFields,
+  updateCrmConnection,
+} from "@/lib/crm-storage";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/crm/[connectionId]
+ * A CRM connection, credentials masked
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ connectionId: string }> }
+) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { connectionId } = await params;
+
+    const connection = await getCrmConnection(connectionId);
+    if (!connection) {
+      return NextResponse.json({ error: "CRM connection not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ connection: maskCrmConnection(connection) });
+  } catch (error) {
+    console.error("[CRM API] Failed to get connection:", error);
+    return NextResponse.json(
+      { error: "Failed to get CRM connection" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/crm/[connectionId]
+ * Update a connection's name, config, status map, pull setting or enabled
+ * state. Credentials left out of config keep their current value.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ connectionId: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { connectionId } = await params;
+    const body = await request.json();
+
+    const existing = await getCrmConnection(connectionId);
+    if (!existing) {
+      return NextResponse.json({ error: "CRM connection not found" }, { status: 404 });
+    }
+
+    const fields = parseCrmConnectionFields(body, existing);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+
+    const connection = await updateCrmConnection(connectionId, fields);
+    if (!connection) {
+      return NextResponse.json({ error: "CRM connection not found" }, { status: 404 });
+    }
+
+    await recordAdminAction(auth.user, {
+      action: "crm_connection.update",
+      entityType: "crm_connection",
+      entityId: connectionId,
+      before: existing,
+      after: connection,
+    });
+
+    return NextResponse.json({ connection: maskCrmConnection(connection) });
+  } catch (error) {
+    console.error("[CRM API] Failed to update connection:", error);
+    return NextResponse.json(
+      { error: "Failed to update CRM connection" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/crm/[connectionId]
+ * Disconnect a CRM and forget its sync state. Leads already pushed stay in
+ * the CRM.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ connectionId: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { connectionId } = await params;
+
+    const existing = await getCrmConnection(connectionId);
+    if (!existing) {
+      return NextResponse.json({ error: "CRM connection not found" }, { status: 404 });
+    }
+
+    await deleteCrmConnection(connectionId);
+
+    await recordAdminAction(auth.user, {
+      action: "crm_connection.delete",
+      entityType: "crm_connection",
+      entityId: connectionId,
+      before: existing,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[CRM API] Failed to delete connection:", error);
+    return NextResponse.json(
+      { error: "Failed to delete CRM connection" },
+      { status: 500 }
+    );
+  }
+}
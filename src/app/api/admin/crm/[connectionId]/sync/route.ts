@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { enqueueUnsyncedLeads, getCrmConnection } from "@/lib/crm-storage";
+import { pullCrmStatuses, syncDueLeads } from "@/lib/crm-sync";
+import { requireAdmin } from "@/lib/admin-auth";
+
+/**
+ * POST /api/admin/crm/[connectionId]/sync
+ * Sync a connection now.
+ *
+ * Body:
+ * - direction: "push" - Queue every lead not yet pushed to the CRM
+ * - direction: "pull" - Read lead statuses back from the CRM
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ connectionId: string }> }
+) {
+  const auth = await requireAdmin("leads:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { connectionId } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const connection = await getCrmConnection(connectionId);
+    if (!connection) {
+      return NextResponse.json({ error: "CRM connection not found" }, { status: 404 });
+    }
+    if (!connection.enabled) {
+      return NextResponse.json({ error: "CRM connection is disabled" }, { status: 409 });
+    }
+
+    if (body.direction === "pull") {
+      const updated = await pullCrmStatuses(connectionId);
+      return NextResponse.json({ updated });
+    }
+    if (body.direction !== "push") {
+      return NextResponse.json({ error: 'direction must be "push" or "pull"' }, { status: 400 });
+    }
+
+    const queued = await enqueueUnsyncedLeads(connectionId);
+    void syncDueLeads();
+    return NextResponse.json({ queued });
+  } catch (error) {
+    console.error("[CRM API] Sync failed:", error);
+    return NextResponse.json(
+      { error: "Failed to sync CRM connection" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createCrmConnection,
+  enqueueUnsyncedLeads,
+  getLeadSyncStats,
+  listCrmConnections,
+  maskCrmConnection,
+  parseCrmConnectionFields,
+} from "@/lib/crm-storage";
+import { syncDueLeads } from "@/lib/crm-sync";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/crm
+ * List CRM connections with lead counts per sync state
+ */
+export async function GET() {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const [connections, stats] = await Promise.all([
+      listCrmConnections(),
+      getLeadSyncStats(),
+    ]);
+
+    return NextResponse.json({
+      connections: connections.map((connection) => ({
+        ...maskCrmConnection(connection),
+        leads: stats[connection.id] ?? {},
+      })),
+    });
+  } catch (error) {
+    console.error("[CRM API] Failed to list connections:", error);
+    return NextResponse.json(
+      { error: "Failed to list CRM connections" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/crm
+ * Connect a CRM. New leads are pushed to it from now on.
+ *
+ * Body:
+ * - type: "hubspot" | "pipedrive" | "http"
+ * - config: { accessToken, baseUrl? } | { apiToken, baseUrl? } | { url, token?, secret? }
+ * - name?: string - Defaults to the CRM's name
+ * - statusMap?: { new?, contacted?, qualified?, converted? } - CRM value per
+ *   lead status, defaults to the adapter's mapping
+ * - pullStatus?: boolean - Copy status changes made in the CRM back (default true)
+ * - backfill?: boolean - Also push every existing lead
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+
+    const fields = parseCrmConnectionFields(body, null);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+
+    const connection = await createCrmConnection({
+      ...fields,
+      config: fields.config!,
+      createdBy: auth.user?.id ?? null,
+    });
+
+    await recordAdminAction(auth.user, {
+      action: "crm_connection.create",
+      entityType: "crm_connection",
+      entityId: connection.id,
+      after: connection,
+    });
+
+    let queued = 0;
+    if (body.backfill === true) {
+      queued = await enqueueUnsyncedLeads(connection.id);
+      void syncDueLeads();
+    }
+
+    return NextResponse.json({ connection: maskCrmConnection(connection), queued });
+  } catch (error) {
+    console.error("[CRM API] Failed to create connection:", error);
+    return NextResponse.json(
+      { error: "Failed to create CRM connection" },
+      { status: 500 }
+    );
+  }
+}
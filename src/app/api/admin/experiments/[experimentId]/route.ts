@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteExperiment,
+  EXPERIMENT_STATUSES,
+  getExperiment,
+  getVariantCounts,
+  parseExperimentFields,
+  setExperimentStatus,
+  updateExperiment,
+  type ExperimentStatus,
+} from "@/lib/experiment-storage";
+import { summarizeExperiment } from "@/lib/experiment-stats";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+// Audit log action for each status transition
+const STATUS_ACTIONS: Record<ExperimentStatus, string> = {
+  draft: "experiment.update",
+  running: "experiment.start",
+  paused: "experiment.pause",
+  completed: "experiment.end",
+};
+
+/**
+ * GET /api/admin/experiments/[experimentId]
+ * An experiment with its per-variant conversion rates and significance
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ experimentId: string }> }
+) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { experimentId } = await params;
+
+    const experiment = await getExperiment(experimentId);
+    if (!experiment) {
+      return NextResponse.json({ error: "Experiment not found" }, { status: 404 });
+    }
+
+    const results = summarizeExperiment(experiment, await getVariantCounts(experiment));
+
+    return NextResponse.json({ experiment, results });
+  } catch (error) {
+    console.error("[Experiments API] Failed to get experiment:", error);
+    return NextResponse.json(
+      { error: "Failed to get experiment" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/experiments/[experimentId]
+ * Update an experiment's name, goal or variant weights, or move it to a new
+ * status: draft -> running <-> paused -> completed. Only one experiment can
+ * be running at a time.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ experimentId: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { experimentId } = await params;
+    const body = await request.json();
+
+    const fields = parseExperimentFields(body);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+    if (body.status !== undefined && !EXPERIMENT_STATUSES.includes(body.status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${EXPERIMENT_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const before = await getExperiment(experimentId);
+
+    let experiment;
+    try {
+      experiment = await updateExperiment(experimentId, fields);
+      if (experiment && body.status !== undefined) {
+        experiment = await setExperimentStatus(experimentId, body.status);
+      }
+    } catch (error) {
+      // Disallowed transitions and variant changes
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 409 }
+      );
+    }
+    if (!experiment) {
+      return NextResponse.json({ error: "Experiment not found" }, { status: 404 });
+    }
+
+    await recordAdminAction(auth.user, {
+      action:
+        body.status !== undefined && body.status !== before?.status
+          ? STATUS_ACTIONS[body.status as ExperimentStatus]
+          : "experiment.update",
+      entityType: "experiment",
+      entityId: experimentId,
+      before,
+      after: experiment,
+    });
+
+    return NextResponse.json({ experiment });
+  } catch (error) {
+    console.error("[Experiments API] Failed to update experiment:", error);
+    return NextResponse.json(
+      { error: "Failed to update experiment" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/experiments/[experimentId]
+ * Delete an experiment and its visitor assignments. Recorded views, clicks
+ * and leads keep their variant.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ experimentId: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { experimentId } = await params;
+
+    const experiment = await getExperiment(experimentId);
+    if (!experiment) {
+      return NextResponse.json({ error: "Experiment not found" }, { status: 404 });
+    }
+    if (experiment.status === "running") {
+      return NextResponse.json(
+        { error: "Pause or complete the experiment before deleting it" },
+        { status: 409 }
+      );
+    }
+
+    await deleteExperiment(experimentId);
+
+    await recordAdminAction(auth.user, {
+      action: "experiment.delete",
+      entityType: "experiment",
+      entityId: experimentId,
+      before: experiment,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Experiments API] Failed to delete experiment:", error);
+    return NextResponse.json(
+      { error: "Failed to delete experiment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createExperiment,
+  getVariantCounts,
+  listExperiments,
+  parseExperimentFields,
+} from "@/lib/experiment-storage";
+import { summarizeExperiment } from "@/lib/experiment-stats";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/experiments
+ * List report variant experiments with their per-variant results
+ */
+export async function GET() {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const experiments = await listExperiments();
+    const withResults = await Promise.all(
+      experiments.map(async (experiment) => ({
+        ...experiment,
+        results: summarizeExperiment(experiment, await getVariantCounts(experiment)),
+      }))
+    );
+
+    return NextResponse.json({ experiments: withResults });
+  } catch (error) {
+    console.error("[Experiments API] Failed to list experiments:", error);
+    return NextResponse.json(
+      { error: "Failed to list experiments" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/experiments
+ * Create an experiment as a draft; start it with PATCH { status: "running" }
+ *
+ * Body:
+ * - name: string
+ * - variants: { key: "a" | "b" | "c", weight: number }[] - First is the control
+ * - goal?: "cta_click" | "lead_capture" - Conversion measured, default cta_click
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+
+    const fields = parseExperimentFields(body);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+    if (!fields.name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+    if (!fields.variants) {
+      return NextResponse.json({ error: "variants are required" }, { status: 400 });
+    }
+
+    const experiment = await createExperiment({
+      ...fields,
+      name: fields.name,
+      variants: fields.variants,
+    });
+
+    await recordAdminAction(auth.user, {
+      action: "experiment.create",
+      entityType: "experiment",
+      entityId: experiment.id,
+      after: experiment,
+    });
+
+    return NextResponse.json({ experiment });
+  } catch (error) {
+    console.error("[Experiments API] Failed to create experiment:", error);
+    return NextResponse.json(
+      { error: "Failed to create experiment" },
+      { status: 500 }
+    );
+  }
+}
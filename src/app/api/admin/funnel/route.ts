@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
+import { exploreBookingFunnel } from "@/services/audit/funnel-explorer";
+
+/**
+ * POST /api/admin/funnel
+ * Walk a site's booking funnel without running an audit, e.g. against the
+ * /dev/funnel fixture sites. Body: { url, screenshots? } - screenshots come
+ * back as JPEG data URLs when asked for. Runs whether or not FUNNEL_EXPLORER
+ * is on.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+
+    let url: URL;
+    try {
+      url = new URL(String(body.url ?? ""));
+    } catch {
+      return NextResponse.json({ error: "url must be an absolute URL" }, { status: 400 });
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return NextResponse.json({ error: "url must be http or https" }, { status: 400 });
+    }
+
+    const exploration = await exploreBookingFunnel(url.toString());
+
+    return NextResponse.json({
+      funnel: {
+        ...exploration,
+        steps: exploration.steps.map(({ screenshot, ...step }) => ({
+          ...step,
+          screenshot:
+            body.screenshots === true && screenshot
+              ? `data:image/jpeg;base64,${screenshot.toString("base64")}`
+              : undefined,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("[Funnel API] Failed to explore funnel:", error);
+    return NextResponse.json({ error: "Failed to explore funnel" }, { status: 500 });
+  }
+}
@@ -1,19 +1,28 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
-  verifyAdminPassword,
+  loginAdmin,
   setAdminAuthCookie,
   isAdminAuthEnabled,
+  getAdminPermissions,
 } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
 
 export async function POST(request: NextRequest) {
   try {
     // If auth is not enabled, just return success
-    if (!isAdminAuthEnabled()) {
+    if (!(await isAdminAuthEnabled())) {
       return NextResponse.json({ success: true, authEnabled: false });
     }
 
     const body = await request.json();
-    const { password } = body;
+    const { email, password } = body;
+
+    if (!email || typeof email !== "string") {
+      return NextResponse.json(
+        { success: false, error: "Email is required" },
+        { status: 400 }
+      );
+    }
 
     if (!password || typeof password !== "string") {
       return NextResponse.json(
@@ -22,15 +31,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const result = verifyAdminPassword(password);
+    const result = await loginAdmin(email, password, {
+      ip: request.headers.get("x-forwarded-for")?.split(",")[0].trim() || null,
+      userAgent: request.headers.get("user-agent"),
+    });
 
-    if (result.success && result.token) {
+    if (result.success && result.token && result.user) {
       await setAdminAuthCookie(result.token);
-      return NextResponse.json({ success: true });
+      await recordAdminAction(result.user, {
+        action: "admin_session.login",
+        entityType: "admin_user",
+        entityId: result.user.id,
+      });
+      return NextResponse.json({
+        success: true,
+        user: result.user,
+        permissions: getAdminPermissions(result.user),
+      });
     }
 
     return NextResponse.json(
-      { success: false, error: "Invalid password" },
+      { success: false, error: "Invalid email or password" },
       { status: 401 }
     );
   } catch (error) {
@@ -1,9 +1,18 @@
 import { NextResponse } from "next/server";
-import { clearAdminAuthCookie } from "@/lib/admin-auth";
+import { clearAdminAuthCookie, getCurrentAdminUser } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
 
 export async function POST() {
   try {
+    const user = await getCurrentAdminUser();
     await clearAdminAuthCookie();
+    if (user) {
+      await recordAdminAction(user, {
+        action: "admin_session.logout",
+        entityType: "admin_user",
+        entityId: user.id,
+      });
+    }
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("[Admin Logout] Error:", error);
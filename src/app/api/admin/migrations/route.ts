@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import fs from "fs";
 import path from "path";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
 
 interface Migration {
   name: string;
@@ -99,6 +101,9 @@ async function runMigrationSql(sql: string): Promise<{ success: boolean; error?:
 }
 
 export async function GET() {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
   try {
     // Ensure migrations table exists
     await ensureMigrationsTable();
@@ -152,6 +157,9 @@ export async function GET() {
 }
 
 export async function POST() {
+  const auth = await requireAdmin("admin:manage");
+  if (!auth.ok) return auth.response;
+
   const applied: string[] = [];
   const skipped: string[] = [];
   const errors: { name: string; error: string }[] = [];
@@ -193,6 +201,12 @@ export async function POST() {
       }
     }
 
+    await recordAdminAction(auth.user, {
+      action: "migrations.run",
+      entityType: "migrations",
+      after: { applied, errors },
+    });
+
     return NextResponse.json({
       success: errors.length === 0,
       applied,
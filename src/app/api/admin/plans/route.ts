@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import fs from "fs/promises";
 import path from "path";
+import { requireAdmin } from "@/lib/admin-auth";
 
 const PLANS_DIR = path.join(process.cwd(), "docs/plans");
 
@@ -59,6 +60,9 @@ function extractFrontmatter(content: string): { meta: Record<string, string>; bo
 }
 
 export async function GET(request: Request) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
   const { searchParams } = new URL(request.url);
   const slug = searchParams.get("slug");
 
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteSchedule,
+  getSchedule,
+  listAlerts,
+  listRuns,
+  parseScheduleFields,
+  updateSchedule,
+} from "@/lib/schedule-storage";
+import { resolveScoringProfile } from "@/lib/scoring-profile-storage";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/schedules/[scheduleId]
+ * A schedule with its recent runs and alerts
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { scheduleId } = await params;
+
+    const schedule = await getSchedule(scheduleId);
+    if (!schedule) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    const [runs, alerts] = await Promise.all([
+      listRuns(scheduleId),
+      listAlerts({ scheduleId }),
+    ]);
+
+    return NextResponse.json({ schedule, runs, alerts });
+  } catch (error) {
+    console.error("[Schedules API] Failed to get schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to get schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/schedules/[scheduleId]
+ * Update a schedule's name, timing, profile, alert rules, notifiers or
+ * enabled flag. The target can't be changed; create a new schedule instead.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { scheduleId } = await params;
+    const body = await request.json();
+
+    const fields = parseScheduleFields(body);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+
+    if (fields.scoringProfile) {
+      try {
+        await resolveScoringProfile(fields.scoringProfile);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 400 }
+        );
+      }
+    }
+
+    const before = await getSchedule(scheduleId);
+    const schedule = await updateSchedule(scheduleId, fields);
+    if (!schedule) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    await recordAdminAction(auth.user, {
+      action: "schedule.update",
+      entityType: "schedule",
+      entityId: scheduleId,
+      before,
+      after: schedule,
+    });
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error("[Schedules API] Failed to update schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to update schedule" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/schedules/[scheduleId]
+ * Delete a schedule with its run and alert history
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { scheduleId } = await params;
+
+    const before = await getSchedule(scheduleId);
+    const deleted = await deleteSchedule(scheduleId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    await recordAdminAction(auth.user, {
+      action: "schedule.delete",
+      entityType: "schedule",
+      entityId: scheduleId,
+      before,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Schedules API] Failed to delete schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete schedule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSchedule } from "@/lib/schedule-storage";
+import { runScheduleNow } from "@/lib/scheduler";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * POST /api/admin/schedules/[scheduleId]/run
+ * Run a schedule now, outside its timetable. Its next scheduled run is
+ * unchanged.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ scheduleId: string }> }
+) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { scheduleId } = await params;
+
+    const schedule = await getSchedule(scheduleId);
+    if (!schedule) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    const run = await runScheduleNow(scheduleId);
+    if (!run) {
+      return NextResponse.json(
+        { error: "Schedule is already running" },
+        { status: 409 }
+      );
+    }
+
+    await recordAdminAction(auth.user, {
+      action: "schedule.run",
+      entityType: "schedule",
+      entityId: scheduleId,
+      after: run,
+    });
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    console.error("[Schedules API] Failed to run schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to run schedule" },
+      { status: 500 }
+    );
+  }
+}
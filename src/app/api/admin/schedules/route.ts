@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createSchedule,
+  listAlerts,
+  listRuns,
+  listSchedules,
+  parseScheduleFields,
+  type ScheduleTargetType,
+} from "@/lib/schedule-storage";
+import { getBatch } from "@/lib/batch-storage";
+import { resolveScoringProfile } from "@/lib/scoring-profile-storage";
+import { DEFAULT_ALERT_RULES } from "@/lib/alert-rules";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/schedules
+ * List schedules with their latest run, plus the most recent alerts
+ */
+export async function GET() {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const schedules = await listSchedules();
+    const withRuns = await Promise.all(
+      schedules.map(async (schedule) => ({
+        ...schedule,
+        lastRun: (await listRuns(schedule.id, 1))[0] ?? null,
+      }))
+    );
+    const alerts = await listAlerts({ limit: 20 });
+
+    return NextResponse.json({ schedules: withRuns, alerts });
+  } catch (error) {
+    console.error("[Schedules API] Failed to list schedules:", error);
+    return NextResponse.json(
+      { error: "Failed to list schedules" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/schedules
+ * Create a recurring re-audit schedule
+ *
+ * Body:
+ * - name: string
+ * - targetType: "domain" | "batch"
+ * - target: string - Domain, or import batch ID
+ * - frequency: "daily" | "weekly" | "monthly"
+ * - runHour?: number - Hour of day (UTC) runs are due, default 6
+ * - scoringProfile?: string
+ * - alertRules?: AlertRule[] - Defaults to every rule, with a 5 point score drop
+ * - notifiers?: NotifierConfig[] - { type: "webhook", url, secret? } | { type: "email", to }
+ * - enabled?: boolean
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+
+    const fields = parseScheduleFields(body);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+    if (!fields.frequency) {
+      return NextResponse.json({ error: "frequency is required" }, { status: 400 });
+    }
+
+    const targetType = body.targetType as ScheduleTargetType;
+    if (targetType !== "domain" && targetType !== "batch") {
+      return NextResponse.json(
+        { error: 'targetType must be "domain" or "batch"' },
+        { status: 400 }
+      );
+    }
+
+    let target = typeof body.target === "string" ? body.target.trim() : "";
+    if (!target) {
+      return NextResponse.json({ error: "target is required" }, { status: 400 });
+    }
+    if (targetType === "domain") {
+      // Same cleanup as POST /api/audit/start, so history lines up
+      target = target.replace(/^(https?:\/\/)?(www\.)?/, "").split("/")[0];
+    } else if (!(await getBatch(target))) {
+      return NextResponse.json({ error: "Import batch not found" }, { status: 404 });
+    }
+
+    if (fields.scoringProfile) {
+      try {
+        await resolveScoringProfile(fields.scoringProfile);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 400 }
+        );
+      }
+    }
+
+    const schedule = await createSchedule({
+      ...fields,
+      name: fields.name || `${target} (${fields.frequency})`,
+      targetType,
+      target,
+      frequency: fields.frequency,
+      alertRules: fields.alertRules ?? DEFAULT_ALERT_RULES,
+      notifiers: fields.notifiers ?? [],
+    });
+
+    await recordAdminAction(auth.user, {
+      action: "schedule.create",
+      entityType: "schedule",
+      entityId: schedule.id,
+      after: schedule,
+    });
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error("[Schedules API] Failed to create schedule:", error);
+    return NextResponse.json(
+      { error: "Failed to create schedule" },
+      { status: 500 }
+    );
+  }
+}
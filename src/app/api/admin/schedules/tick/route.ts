@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runDueSchedules } from "@/lib/scheduler";
+import { deliverDueWebhooks } from "@/lib/webhooks";
+import { pullCrmStatuses, syncDueLeads } from "@/lib/crm-sync";
+import { refreshStaleLeadScores } from "@/lib/lead-engagement";
+import { requireAdmin } from "@/lib/admin-auth";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET|POST /api/admin/schedules/tick
+ * Start every due schedule, send due webhook deliveries, run due CRM
+ * syncs and refresh stale lead scores, for deployments where an external cron drives the scheduler
+ * instead of the in-process timers. Accepts
+ * "Authorization: Bearer $CRON_SECRET" when CRON_SECRET is set, or an admin
+ * session allowed to run audits.
+ */
+async function tick(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    const auth = await requireAdmin("audits:write");
+    if (!auth.ok) return auth.response;
+  }
+
+  try {
+    const runs = await runDueSchedules();
+    const webhooksDelivered = await deliverDueWebhooks();
+    const crmPushed = await syncDueLeads();
+    const crmStatusesUpdated = await pullCrmStatuses();
+    const leadScoresRefreshed = await refreshStaleLeadScores();
+    return NextResponse.json({
+      started: runs.length,
+      runs,
+      webhooksDelivered,
+      crmPushed,
+      crmStatusesUpdated,
+      leadScoresRefreshed,
+    });
+  } catch (error) {
+    console.error("[Schedules API] Tick failed:", error);
+    return NextResponse.json(
+      { error: "Failed to run due schedules" },
+      { status: 500 }
+    );
+  }
+}
+
+export { tick as GET, tick as POST };
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteScoringProfile, getScoringProfile } from "@/lib/scoring-profile-storage";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/scoring-profiles/[name]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { name } = await params;
+    const profile = await getScoringProfile(name);
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Scoring profile not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error("[Scoring Profiles API] Failed to get profile:", error);
+    return NextResponse.json(
+      { error: "Failed to get scoring profile" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/scoring-profiles/[name]
+ * Audits already scored under the profile keep their scores
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { name } = await params;
+    const before = await getScoringProfile(name);
+    const deleted = await deleteScoringProfile(name);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Scoring profile not found" },
+        { status: 404 }
+      );
+    }
+
+    await recordAdminAction(auth.user, {
+      action: "scoring_profile.delete",
+      entityType: "scoring_profile",
+      entityId: name,
+      before,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Scoring Profiles API] Failed to delete profile:", error);
+    return NextResponse.json(
+      { error: "Failed to delete scoring profile" },
+      { status: 500 }
+    );
+  }
+}
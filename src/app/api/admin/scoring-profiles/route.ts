@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getScoringProfile,
+  listScoringProfiles,
+  saveScoringProfile,
+  validateProfileName,
+} from "@/lib/scoring-profile-storage";
+import { compileProfile, DEFAULT_PROFILE, type ProfileFormat } from "@/rules";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/scoring-profiles
+ * List stored profiles plus the built-in default
+ */
+export async function GET() {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const profiles = await listScoringProfiles();
+
+    return NextResponse.json({
+      builtIn: {
+        name: DEFAULT_PROFILE.name,
+        description: DEFAULT_PROFILE.description,
+        weights: DEFAULT_PROFILE.config.weights,
+        ruleCount: DEFAULT_PROFILE.rules.length,
+      },
+      profiles,
+    });
+  } catch (error) {
+    console.error("[Scoring Profiles API] Failed to list profiles:", error);
+    return NextResponse.json(
+      { error: "Failed to list scoring profiles" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/scoring-profiles
+ * Create or replace a profile
+ *
+ * Body:
+ * - name: string
+ * - format: "yaml" | "json"
+ * - source: string - Profile document
+ * - isDefault?: boolean - Use for audits that don't name a profile
+ * - validateOnly?: boolean - Compile and report without saving
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+    const { name, format = "yaml", source, isDefault = false, validateOnly = false } = body;
+
+    const nameError = validateProfileName(name);
+    if (nameError) {
+      return NextResponse.json({ error: nameError }, { status: 400 });
+    }
+    if (format !== "yaml" && format !== "json") {
+      return NextResponse.json(
+        { error: 'format must be "yaml" or "json"' },
+        { status: 400 }
+      );
+    }
+    if (typeof source !== "string") {
+      return NextResponse.json({ error: "source is required" }, { status: 400 });
+    }
+
+    let compiled;
+    try {
+      compiled = compileProfile(name, source, format as ProfileFormat);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      );
+    }
+
+    const summary = {
+      weights: compiled.config.weights,
+      severityBase: compiled.config.severityBase,
+      clamps: compiled.config.clamps,
+      ruleCount: compiled.rules.length,
+    };
+
+    if (validateOnly) {
+      return NextResponse.json({ valid: true, summary });
+    }
+
+    const before = await getScoringProfile(name);
+    const profile = await saveScoringProfile({ name, format, source, isDefault });
+
+    await recordAdminAction(auth.user, {
+      action: before ? "scoring_profile.update" : "scoring_profile.create",
+      entityType: "scoring_profile",
+      entityId: name,
+      before,
+      after: profile,
+    });
+
+    return NextResponse.json({ profile, summary });
+  } catch (error) {
+    console.error("[Scoring Profiles API] Failed to save profile:", error);
+    return NextResponse.json(
+      { error: "Failed to save scoring profile" },
+      { status: 500 }
+    );
+  }
+}
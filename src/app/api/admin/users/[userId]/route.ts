@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  countActiveOwners,
+  deleteAdminUser,
+  getAdminUser,
+  getAdminUserByEmail,
+  parseAdminUserFields,
+  updateAdminUser,
+  type AdminUser,
+} from "@/lib/admin-users";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/users/[userId]
+ * An admin user
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const auth = await requireAdmin("admin:manage");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { userId } = await params;
+
+    const user = await getAdminUser(userId);
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error("[Users API] Failed to get user:", error);
+    return NextResponse.json(
+      { error: "Failed to get user" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/users/[userId]
+ * Update a user's email, name, role or password, or disable them. Disabling
+ * a user or resetting their password signs them out everywhere.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const auth = await requireAdmin("admin:manage");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { userId } = await params;
+    const body = await request.json();
+
+    const fields = parseAdminUserFields(body, false);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+
+    const existing = await getAdminUser(userId);
+    if (!existing) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    if (fields.disabled && auth.user?.id === userId) {
+      return NextResponse.json(
+        { error: "You can't disable your own account" },
+        { status: 400 }
+      );
+    }
+    const removesOwner = (fields.role && fields.role !== "owner") || fields.disabled;
+    if (removesOwner && (await isLastOwner(existing))) {
+      return NextResponse.json(
+        { error: "At least one active owner is required" },
+        { status: 400 }
+      );
+    }
+    if (fields.email && fields.email !== existing.email && (await getAdminUserByEmail(fields.email))) {
+      return NextResponse.json(
+        { error: "A user with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    const user = await updateAdminUser(userId, fields);
+
+    // The password itself is redacted - record only that it changed
+    await recordAdminAction(auth.user, {
+      action: "admin_user.update",
+      entityType: "admin_user",
+      entityId: userId,
+      before: existing,
+      after: { ...user, ...(fields.password !== undefined ? { passwordChanged: true } : {}) },
+    });
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error("[Users API] Failed to update user:", error);
+    return NextResponse.json(
+      { error: "Failed to update user" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/users/[userId]
+ * Delete a user and end their sessions. What they did stays attributed to
+ * their user ID.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const auth = await requireAdmin("admin:manage");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { userId } = await params;
+
+    if (auth.user?.id === userId) {
+      return NextResponse.json(
+        { error: "You can't delete your own account" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getAdminUser(userId);
+    if (!existing) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    if (await isLastOwner(existing)) {
+      return NextResponse.json(
+        { error: "At least one active owner is required" },
+        { status: 400 }
+      );
+    }
+
+    await deleteAdminUser(userId);
+
+    await recordAdminAction(auth.user, {
+      action: "admin_user.delete",
+      entityType: "admin_user",
+      entityId: userId,
+      before: existing,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Users API] Failed to delete user:", error);
+    return NextResponse.json(
+      { error: "Failed to delete user" },
+      { status: 500 }
+    );
+  }
+}
+
+async function isLastOwner(user: AdminUser): Promise<boolean> {
+  return user.role === "owner" && !user.disabledAt && (await countActiveOwners()) <= 1;
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  hasPermission,
+  listUserSessions,
+  revokeSession,
+  revokeUserSessions,
+} from "@/lib/admin-users";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+// Users can manage their own sessions; owners can manage anyone's
+async function authorize(userId: string) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth;
+
+  if (auth.user && auth.user.id !== userId && !hasPermission(auth.user.role, "admin:manage")) {
+    return {
+      ok: false as const,
+      response: NextResponse.json(
+        { error: "You can only manage your own sessions" },
+        { status: 403 }
+      ),
+    };
+  }
+  return auth;
+}
+
+/**
+ * GET /api/admin/users/[userId]/sessions
+ * A user's active sessions, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+  const auth = await authorize(userId);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const sessions = await listUserSessions(userId);
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error("[Users API] Failed to list sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to list sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/users/[userId]/sessions
+ * Revoke one session (?sessionId=...) or all of a user's sessions
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  const { userId } = await params;
+  const auth = await authorize(userId);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const sessionId = request.nextUrl.searchParams.get("sessionId");
+
+    if (sessionId) {
+      const revoked = await revokeSession(userId, sessionId);
+      if (!revoked) {
+        return NextResponse.json({ error: "Session not found" }, { status: 404 });
+      }
+      await recordAdminAction(auth.user, {
+        action: "admin_session.revoke",
+        entityType: "admin_session",
+        entityId: sessionId,
+        after: { userId },
+      });
+      return NextResponse.json({ revoked: 1 });
+    }
+
+    const revoked = await revokeUserSessions(userId);
+
+    await recordAdminAction(auth.user, {
+      action: "admin_session.revoke_all",
+      entityType: "admin_user",
+      entityId: userId,
+      after: { revoked },
+    });
+    return NextResponse.json({ revoked });
+  } catch (error) {
+    console.error("[Users API] Failed to revoke sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke sessions" },
+      { status: 500 }
+    );
+  }
+}
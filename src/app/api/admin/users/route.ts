@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createAdminUser,
+  getAdminUserByEmail,
+  listAdminUsers,
+  parseAdminUserFields,
+} from "@/lib/admin-users";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/users
+ * List admin users with their number of active sessions
+ */
+export async function GET() {
+  const auth = await requireAdmin("admin:manage");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const users = await listAdminUsers();
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error("[Users API] Failed to list users:", error);
+    return NextResponse.json(
+      { error: "Failed to list users" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/users
+ * Create an admin user
+ *
+ * Body:
+ * - email: string
+ * - name?: string
+ * - role: "owner" | "analyst" | "sales" | "viewer"
+ * - password: string - At least 10 characters
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin("admin:manage");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+
+    const fields = parseAdminUserFields(body, true);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+    const { email, name, role, password } = fields;
+    if (!email || !role || !password) {
+      return NextResponse.json({ error: "email, role and password are required" }, { status: 400 });
+    }
+    if (await getAdminUserByEmail(email)) {
+      return NextResponse.json(
+        { error: "A user with this email already exists" },
+        { status: 409 }
+      );
+    }
+
+    const user = await createAdminUser({ email, name, role, password });
+
+    await recordAdminAction(auth.user, {
+      action: "admin_user.create",
+      entityType: "admin_user",
+      entityId: user.id,
+      after: user,
+    });
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error("[Users API] Failed to create user:", error);
+    return NextResponse.json(
+      { error: "Failed to create user" },
+      { status: 500 }
+    );
+  }
+}
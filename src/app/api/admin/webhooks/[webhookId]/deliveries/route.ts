@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getWebhookSubscription,
+  listDeliveries,
+  redeliver,
+  type WebhookDeliveryStatus,
+} from "@/lib/webhook-storage";
+import { deliverDueWebhooks } from "@/lib/webhooks";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ["pending", "delivering", "succeeded", "failed"];
+
+/**
+ * GET /api/admin/webhooks/[webhookId]/deliveries
+ * A subscription's delivery log, newest first
+ *
+ * Query params:
+ * - limit?: number (default 20, max 100)
+ * - offset?: number (default 0)
+ * - status?: "pending" | "delivering" | "succeeded" | "failed"
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { webhookId } = await params;
+    const { searchParams } = request.nextUrl;
+    const limit = parseInt(searchParams.get("limit") || "20");
+    const offset = parseInt(searchParams.get("offset") || "0");
+    const status = searchParams.get("status") as WebhookDeliveryStatus | null;
+
+    if (status && !DELIVERY_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${DELIVERY_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getWebhookSubscription(webhookId))) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const { deliveries, total } = await listDeliveries(webhookId, {
+      limit,
+      offset,
+      status: status || undefined,
+    });
+
+    return NextResponse.json({
+      deliveries,
+      total,
+      limit,
+      offset,
+      hasMore: offset + deliveries.length < total,
+    });
+  } catch (error) {
+    console.error("[Webhooks API] Failed to list deliveries:", error);
+    return NextResponse.json(
+      { error: "Failed to list deliveries" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/webhooks/[webhookId]/deliveries
+ * Send a failed delivery again, with a fresh set of attempts
+ *
+ * Body:
+ * - deliveryId: string
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { webhookId } = await params;
+    const { deliveryId } = await request.json();
+
+    if (typeof deliveryId !== "string" || !deliveryId) {
+      return NextResponse.json({ error: "deliveryId is required" }, { status: 400 });
+    }
+
+    if (!(await redeliver(webhookId, deliveryId))) {
+      return NextResponse.json(
+        { error: "Only failed deliveries of this webhook can be redelivered" },
+        { status: 400 }
+      );
+    }
+
+    void deliverDueWebhooks();
+
+    await recordAdminAction(auth.user, {
+      action: "webhook.redeliver",
+      entityType: "webhook",
+      entityId: webhookId,
+      after: { deliveryId },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Webhooks API] Failed to redeliver:", error);
+    return NextResponse.json(
+      { error: "Failed to redeliver" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteWebhookSubscription,
+  generateWebhookSecret,
+  getWebhookSubscription,
+  maskWebhookSecret,
+  parseWebhookFields,
+  updateWebhookSubscription,
+} from "@/lib/webhook-storage";
+import { checkWebhookUrl } from "@/lib/webhooks";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/webhooks/[webhookId]
+ * A webhook subscription
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { webhookId } = await params;
+
+    const webhook = await getWebhookSubscription(webhookId);
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ webhook: maskWebhookSecret(webhook) });
+  } catch (error) {
+    console.error("[Webhooks API] Failed to get webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to get webhook" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/webhooks/[webhookId]
+ * Update a subscription's name, URL, events or enabled state.
+ * `rotateSecret: true` replaces the signing secret and returns the new one.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { webhookId } = await params;
+    const body = await request.json();
+
+    const fields = parseWebhookFields(body, false);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+    const urlError = fields.url ? await checkWebhookUrl(fields.url) : null;
+    if (urlError) {
+      return NextResponse.json({ error: urlError }, { status: 400 });
+    }
+
+    const existing = await getWebhookSubscription(webhookId);
+    if (!existing) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const rotateSecret = body.rotateSecret === true;
+    const webhook = await updateWebhookSubscription(webhookId, {
+      ...fields,
+      ...(rotateSecret && { secret: generateWebhookSecret() }),
+    });
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    await recordAdminAction(auth.user, {
+      action: "webhook.update",
+      entityType: "webhook",
+      entityId: webhookId,
+      before: existing,
+      after: { ...webhook, ...(rotateSecret && { secretRotated: true }) },
+    });
+
+    return NextResponse.json({ webhook: rotateSecret ? webhook : maskWebhookSecret(webhook) });
+  } catch (error) {
+    console.error("[Webhooks API] Failed to update webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to update webhook" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/webhooks/[webhookId]
+ * Delete a subscription and its delivery log. Queued deliveries are dropped.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { webhookId } = await params;
+
+    const existing = await getWebhookSubscription(webhookId);
+    if (!existing) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    await deleteWebhookSubscription(webhookId);
+
+    await recordAdminAction(auth.user, {
+      action: "webhook.delete",
+      entityType: "webhook",
+      entityId: webhookId,
+      before: existing,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Webhooks API] Failed to delete webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to delete webhook" },
+      { status: 500 }
+    );
+  }
+}
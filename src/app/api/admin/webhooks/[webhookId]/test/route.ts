@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWebhookSubscription } from "@/lib/webhook-storage";
+import { sendTestEvent } from "@/lib/webhooks";
+import { requireAdmin } from "@/lib/admin-auth";
+
+/**
+ * POST /api/admin/webhooks/[webhookId]/test
+ * Send a webhook.test event now and return the delivery, including the
+ * receiver's response. Works on disabled subscriptions too.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { webhookId } = await params;
+
+    const webhook = await getWebhookSubscription(webhookId);
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const delivery = await sendTestEvent(webhook);
+
+    return NextResponse.json({ delivery });
+  } catch (error) {
+    console.error("[Webhooks API] Failed to send test event:", error);
+    return NextResponse.json(
+      { error: "Failed to send test event" },
+      { status: 500 }
+    );
+  }
+}
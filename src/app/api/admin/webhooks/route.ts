@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createWebhookSubscription,
+  getDeliveryStats,
+  listWebhookSubscriptions,
+  maskWebhookSecret,
+  parseWebhookFields,
+} from "@/lib/webhook-storage";
+import { checkWebhookUrl } from "@/lib/webhooks";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/webhooks
+ * List webhook subscriptions with delivery counts per status
+ */
+export async function GET() {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const [subscriptions, stats] = await Promise.all([
+      listWebhookSubscriptions(),
+      getDeliveryStats(),
+    ]);
+
+    return NextResponse.json({
+      webhooks: subscriptions.map((subscription) => ({
+        ...maskWebhookSecret(subscription),
+        deliveries: stats[subscription.id] ?? {},
+      })),
+    });
+  } catch (error) {
+    console.error("[Webhooks API] Failed to list webhooks:", error);
+    return NextResponse.json(
+      { error: "Failed to list webhooks" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/webhooks
+ * Create a webhook subscription. The signing secret is only returned here
+ * and when it is rotated.
+ *
+ * Body:
+ * - url: string
+ * - events: ("audit.completed" | "audit.failed" | "batch.completed" | "lead.created")[]
+ * - name?: string - Defaults to the URL's host
+ * - secret?: string - Generated when omitted
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+
+    const fields = parseWebhookFields(body, true);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+    const urlError = fields.url ? await checkWebhookUrl(fields.url) : null;
+    if (urlError) {
+      return NextResponse.json({ error: urlError }, { status: 400 });
+    }
+    const { url, events } = fields;
+    if (!url || !events) {
+      return NextResponse.json({ error: "url and events are required" }, { status: 400 });
+    }
+    if (body.secret !== undefined && (typeof body.secret !== "string" || body.secret.length < 16)) {
+      return NextResponse.json(
+        { error: "secret must be at least 16 characters" },
+        { status: 400 }
+      );
+    }
+
+    const webhook = await createWebhookSubscription({
+      ...fields,
+      url,
+      events,
+      secret: body.secret,
+      createdBy: auth.user?.id ?? null,
+    });
+
+    await recordAdminAction(auth.user, {
+      action: "webhook.create",
+      entityType: "webhook",
+      entityId: webhook.id,
+      after: webhook,
+    });
+
+    return NextResponse.json({ webhook });
+  } catch (error) {
+    console.error("[Webhooks API] Failed to create webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to create webhook" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteWorkspace,
+  getWorkspace,
+  isCustomDomainAvailable,
+  parseWorkspaceFields,
+  updateWorkspace,
+} from "@/lib/workspace-storage";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/workspaces/[workspaceId]
+ * A workspace with its branding
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { workspaceId } = await params;
+
+    const workspace = await getWorkspace(workspaceId);
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ workspace });
+  } catch (error) {
+    console.error("[Workspaces API] Failed to get workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to get workspace" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/admin/workspaces/[workspaceId]
+ * Update a workspace's name, custom domain or branding. Branding fields are
+ * merged; send null to clear one.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { workspaceId } = await params;
+    const body = await request.json();
+
+    const fields = parseWorkspaceFields(body);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+    if (fields.customDomain && !(await isCustomDomainAvailable(fields.customDomain, workspaceId))) {
+      return NextResponse.json(
+        { error: "This domain is already used by another workspace" },
+        { status: 409 }
+      );
+    }
+
+    const before = await getWorkspace(workspaceId);
+    const workspace = await updateWorkspace(workspaceId, fields);
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+
+    await recordAdminAction(auth.user, {
+      action: "workspace.update",
+      entityType: "workspace",
+      entityId: workspaceId,
+      before,
+      after: workspace,
+    });
+
+    return NextResponse.json({ workspace });
+  } catch (error) {
+    console.error("[Workspaces API] Failed to update workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to update workspace" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/workspaces/[workspaceId]
+ * Delete a workspace. Its reports go back to the default branding.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ workspaceId: string }> }
+) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { workspaceId } = await params;
+
+    const before = await getWorkspace(workspaceId);
+    const deleted = await deleteWorkspace(workspaceId);
+    if (!deleted) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+
+    await recordAdminAction(auth.user, {
+      action: "workspace.delete",
+      entityType: "workspace",
+      entityId: workspaceId,
+      before,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Workspaces API] Failed to delete workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to delete workspace" },
+      { status: 500 }
+    );
+  }
+}
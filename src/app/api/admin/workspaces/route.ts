@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createWorkspace,
+  isCustomDomainAvailable,
+  listWorkspaces,
+  parseWorkspaceFields,
+} from "@/lib/workspace-storage";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * GET /api/admin/workspaces
+ * List white-label workspaces with the number of reports assigned to each
+ */
+export async function GET() {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const workspaces = await listWorkspaces();
+    return NextResponse.json({ workspaces });
+  } catch (error) {
+    console.error("[Workspaces API] Failed to list workspaces:", error);
+    return NextResponse.json(
+      { error: "Failed to list workspaces" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/workspaces
+ * Create a workspace. Assign reports to it from their link settings.
+ *
+ * Body:
+ * - name: string - Also the default brand name
+ * - customDomain?: string - Hostname short links are shared on; point its DNS at this app
+ * - branding?: { brandName, logoUrl, websiteUrl, primaryColor, accentColor,
+ *   fontFamily, fontUrl, ctaHeading, ctaDescription, ctaText, ctaUrl,
+ *   footerText, privacyUrl }
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireAdmin("config:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json();
+
+    const fields = parseWorkspaceFields(body);
+    if (typeof fields === "string") {
+      return NextResponse.json({ error: fields }, { status: 400 });
+    }
+    if (!fields.name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+    if (fields.customDomain && !(await isCustomDomainAvailable(fields.customDomain))) {
+      return NextResponse.json(
+        { error: "This domain is already used by another workspace" },
+        { status: 409 }
+      );
+    }
+
+    const workspace = await createWorkspace({ ...fields, name: fields.name });
+
+    await recordAdminAction(auth.user, {
+      action: "workspace.create",
+      entityType: "workspace",
+      entityId: workspace.id,
+      after: workspace,
+    });
+
+    return NextResponse.json({ workspace });
+  } catch (error) {
+    console.error("[Workspaces API] Failed to create workspace:", error);
+    return NextResponse.json(
+      { error: "Failed to create workspace" },
+      { status: 500 }
+    );
+  }
+}
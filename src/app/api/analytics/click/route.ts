@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { recordClick, type ClickData } from "@/lib/analytics";
+import { recordVisitorActivity } from "@/lib/lead-engagement";
 
 /**
  * POST /api/analytics/click
@@ -38,6 +39,7 @@ export async function POST(request: NextRequest) {
     };
 
     const clickId = await recordClick(clickData);
+    await recordVisitorActivity({ visitorId }, { touch: true });
 
     return NextResponse.json({ clickId });
   } catch (error) {
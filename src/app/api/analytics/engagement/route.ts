@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { updateEngagement } from "@/lib/analytics";
+import { recordVisitorActivity } from "@/lib/lead-engagement";
 
 /**
  * POST /api/analytics/engagement
@@ -37,6 +38,7 @@ export async function POST(request: NextRequest) {
       timeOnPageMs: Math.max(0, Math.round(time)),
       maxScrollPercent: Math.min(100, Math.max(0, Math.round(scroll))),
     });
+    await recordVisitorActivity({ viewId });
 
     // Minimal response for beacon
     return NextResponse.json({ success: true });
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { recordView, type ViewData } from "@/lib/analytics";
+import { getAssignment, REPORT_VARIANTS, type ReportVariantKey } from "@/lib/experiment-storage";
+import { linkVisitorToLead, recordVisitorActivity } from "@/lib/lead-engagement";
+import { LEAD_COOKIE, parseLeadCookie } from "@/lib/lead-storage";
 
 /**
  * POST /api/analytics/view
@@ -17,6 +20,8 @@ import { recordView, type ViewData } from "@/lib/analytics";
  *   deviceType?: string;
  *   browser?: string;
  *   os?: string;
+ *   variant?: "a" | "b" | "c";
+ *   experimentId?: string; // Only kept if the visitor was assigned this variant
  * }
  *
  * Response: { viewId: string }
@@ -37,6 +42,15 @@ export async function POST(request: NextRequest) {
     // Get country from Vercel's geo header
     const country = request.headers.get("x-vercel-ip-country") || undefined;
 
+    // Report page tells us the variant it rendered; only credit the experiment
+    // when it matches the visitor's assignment
+    const variant = REPORT_VARIANTS.includes(body.variant) ? (body.variant as ReportVariantKey) : undefined;
+    let experimentId: string | null = null;
+    if (variant && typeof body.experimentId === "string") {
+      const assigned = await getAssignment(body.experimentId, visitorId);
+      experimentId = assigned === variant ? body.experimentId : null;
+    }
+
     const viewData: ViewData = {
       auditId,
       visitorId,
@@ -49,10 +63,23 @@ export async function POST(request: NextRequest) {
       deviceType: body.deviceType,
       browser: body.browser,
       os: body.os,
+      variant,
+      experimentId,
     };
 
     const viewId = await recordView(viewData);
 
+    // A captured lead on a new visitor ID (cleared cookies, another report
+    // link) is still recognised by the lead cookie - if this browser created
+    // the lead, rather than resubmitting someone's email
+    const lead = parseLeadCookie(request.cookies.get(LEAD_COOKIE)?.value);
+    if (lead?.owner) {
+      await linkVisitorToLead(lead.leadId, visitorId).catch((error) => {
+        console.error("[Analytics] Failed to link visitor to lead:", error);
+      });
+    }
+    await recordVisitorActivity({ visitorId }, { touch: true });
+
     return NextResponse.json({ viewId });
   } catch (error) {
     console.error("[Analytics] Failed to record view:", error);
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuditChanges } from "@/lib/audit-history";
+import { authorizeReportAccess } from "@/lib/report-access";
+
+// GET /api/audit/[auditId]/changes - What changed since the previous audit
+// of the same domain (or ?against=<auditId>): score and category deltas, and
+// recommendations fixed, improved, regressed or new. Follows the report's
+// access rules (?token=, lead cookie or an admin session), for both audits.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string }> }
+) {
+  const { auditId } = await params;
+  const against = request.nextUrl.searchParams.get("against") || undefined;
+
+  try {
+    const access = await authorizeReportAccess(auditId, {
+      route: "api",
+      token: request.nextUrl.searchParams.get("token"),
+      adminBypass: "always",
+    });
+    const againstAccess = against
+      ? await authorizeReportAccess(against, { route: "api", adminBypass: "always", log: false })
+      : null;
+    if (!access.granted || (againstAccess && !againstAccess.granted)) {
+      return NextResponse.json(
+        { error: "This report is private", reason: access.reason ?? againstAccess?.reason },
+        { status: 403 }
+      );
+    }
+
+    const comparison = await getAuditChanges(auditId, against);
+    if (!comparison) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+    if (against && !comparison.changes) {
+      return NextResponse.json({ error: "Comparison audit not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ auditId, ...comparison });
+  } catch (error) {
+    console.error("Failed to compare audits:", error);
+    return NextResponse.json(
+      { error: "Failed to compare audits" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadAudit } from "@/lib/audit-storage";
+import { getBatch, listBatchItems } from "@/lib/batch-storage";
+import { parseDomains } from "@/lib/domain-parser";
+import { listCompetitors, type AddCompetitorInput } from "@/lib/competitor-storage";
+import {
+  benchmarkCompetitors,
+  refreshCompetitors,
+  removeCompetitorFromAudit,
+  MAX_COMPETITORS,
+} from "@/lib/competitor-benchmark";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+// GET /api/audit/[auditId]/competitors - Competitors attached to an audit,
+// with their audit status, and the benchmark summaries of the finished ones
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string }> }
+) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  const { auditId } = await params;
+
+  try {
+    const competitors = await refreshCompetitors(auditId);
+    const audit = await loadAudit(auditId);
+    if (!audit) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      auditId,
+      competitors,
+      benchmark: audit.result?.competitors ?? [],
+    });
+  } catch (error) {
+    console.error("Failed to load competitors:", error);
+    return NextResponse.json(
+      { error: "Failed to load competitors" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/audit/[auditId]/competitors - Attach competitors and audit them
+// with the same pipeline and scoring profile as the audit
+//
+// Body: { domains?: string[] | string, batchId?: string }
+// Domains can be entered directly (array, or newline/comma separated) and/or
+// taken from an import batch
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string }> }
+) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
+  const { auditId } = await params;
+
+  try {
+    const body = await request.json();
+    const inputs: AddCompetitorInput[] = [];
+
+    if (body.domains) {
+      const text = Array.isArray(body.domains) ? body.domains.join("\n") : String(body.domains);
+      const parsed = parseDomains(text);
+      if (parsed.invalid.length > 0) {
+        return NextResponse.json(
+          { error: `Invalid domain: ${parsed.invalid[0].input} (${parsed.invalid[0].reason})` },
+          { status: 400 }
+        );
+      }
+      inputs.push(...parsed.valid.map((domain) => ({ domain, source: "manual" as const })));
+    }
+
+    if (body.batchId) {
+      const batch = await getBatch(body.batchId);
+      if (!batch) {
+        return NextResponse.json({ error: "Import batch not found" }, { status: 404 });
+      }
+      const items = await listBatchItems(batch.id);
+      inputs.push(
+        ...items.map((item) => ({ domain: item.domain, source: "batch" as const, batchId: batch.id }))
+      );
+    }
+
+    if (inputs.length === 0) {
+      return NextResponse.json(
+        { error: "Provide domains or a batchId" },
+        { status: 400 }
+      );
+    }
+
+    const existing = new Set((await listCompetitors(auditId)).map((c) => c.domain));
+    const newDomains = new Set(inputs.map((c) => c.domain).filter((d) => !existing.has(d)));
+    if (existing.size + newDomains.size > MAX_COMPETITORS) {
+      return NextResponse.json(
+        { error: `An audit can have at most ${MAX_COMPETITORS} competitors (${existing.size} attached)` },
+        { status: 400 }
+      );
+    }
+
+    const added = await benchmarkCompetitors(auditId, inputs);
+    if (!added) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    await recordAdminAction(auth.user, {
+      action: "competitor.add",
+      entityType: "competitor",
+      entityId: auditId,
+      after: { domains: inputs.map((c) => c.domain), added },
+    });
+
+    return NextResponse.json({ auditId, added, competitors: await listCompetitors(auditId) });
+  } catch (error) {
+    console.error("Failed to add competitors:", error);
+    return NextResponse.json(
+      { error: "Failed to add competitors" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/audit/[auditId]/competitors?domain=<domain> - Remove a
+// competitor from the benchmark (its own audit is kept)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string }> }
+) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
+  const { auditId } = await params;
+  const domain = request.nextUrl.searchParams.get("domain");
+
+  if (!domain) {
+    return NextResponse.json({ error: "domain is required" }, { status: 400 });
+  }
+
+  try {
+    const removed = await removeCompetitorFromAudit(auditId, domain);
+    if (!removed) {
+      return NextResponse.json({ error: "Competitor not found" }, { status: 404 });
+    }
+
+    await recordAdminAction(auth.user, {
+      action: "competitor.remove",
+      entityType: "competitor",
+      entityId: auditId,
+      before: { domain },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Failed to remove competitor:", error);
+    return NextResponse.json(
+      { error: "Failed to remove competitor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listAccessLog } from "@/lib/report-access";
+import { requireAdmin } from "@/lib/admin-auth";
+
+// GET /api/audit/[auditId]/link/access-log - Who opened (or was refused) a
+// report, which token or lead they used, newest first. ?limit= (default 50)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string }> }
+) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  const { auditId } = await params;
+  const limit = Math.min(parseInt(request.nextUrl.searchParams.get("limit") || "50") || 50, 500);
+
+  const entries = await listAccessLog(auditId, limit);
+  return NextResponse.json({ auditId, entries });
+}
@@ -3,12 +3,17 @@ import { loadAudit } from "@/lib/audit-storage";
 import {
   createOrUpdateLink,
   getLinkByAuditId,
+  getDefaultVisibility,
   isSlugAvailable,
   isValidSlug,
   incrementLinkStat,
-  generateSignedToken,
-  storeAccessToken,
+  issueAccessToken,
+  REPORT_VISIBILITIES,
+  type ReportVisibility,
 } from "@/lib/link-storage";
+import { getReportBaseUrl, getWorkspace, toReportBranding } from "@/lib/workspace-storage";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
 
 interface LinkUpdateRequest {
   customSlug?: string | null;
@@ -16,6 +21,9 @@ interface LinkUpdateRequest {
   defaultUtmSource?: string | null;
   defaultUtmMedium?: string | null;
   defaultUtmCampaign?: string | null;
+  showChanges?: boolean;
+  visibility?: ReportVisibility;
+  workspaceId?: string | null;
   generateToken?: boolean;
 }
 
@@ -24,6 +32,9 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ auditId: string }> }
 ) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
   const { auditId } = await params;
 
   if (!auditId) {
@@ -37,6 +48,7 @@ export async function GET(
   }
 
   const link = await getLinkByAuditId(auditId);
+  const workspace = link?.workspaceId ? await getWorkspace(link.workspaceId) : null;
 
   // Return link settings or empty defaults
   return NextResponse.json({
@@ -46,6 +58,11 @@ export async function GET(
     defaultUtmSource: link?.defaultUtmSource ?? null,
     defaultUtmMedium: link?.defaultUtmMedium ?? null,
     defaultUtmCampaign: link?.defaultUtmCampaign ?? null,
+    showChanges: link?.showChanges ?? false,
+    visibility: link?.visibility ?? getDefaultVisibility(),
+    workspaceId: workspace?.id ?? null,
+    // Origin the link is shared on - the workspace's custom domain, if it has one
+    shareBaseUrl: getReportBaseUrl(toReportBranding(workspace)),
     linkCopies: link?.linkCopies ?? 0,
     qrDownloads: link?.qrDownloads ?? 0,
   });
@@ -56,6 +73,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ auditId: string }> }
 ) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
   const { auditId } = await params;
 
   if (!auditId) {
@@ -119,22 +139,47 @@ export async function PATCH(
     }
   }
 
+  if (body.visibility !== undefined && !REPORT_VISIBILITIES.includes(body.visibility)) {
+    return NextResponse.json(
+      { error: `visibility must be one of: ${REPORT_VISIBILITIES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  if (body.workspaceId) {
+    const workspace = await getWorkspace(body.workspaceId);
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 400 });
+    }
+  }
+
   // Update link settings
+  const before = await getLinkByAuditId(auditId);
   const updatedLink = await createOrUpdateLink(auditId, {
     customSlug: body.customSlug,
     expiresAt: body.expiresAt,
     defaultUtmSource: body.defaultUtmSource,
     defaultUtmMedium: body.defaultUtmMedium,
     defaultUtmCampaign: body.defaultUtmCampaign,
+    showChanges: body.showChanges,
+    visibility: body.visibility,
+    workspaceId: body.workspaceId,
   });
 
   // Generate access token if requested and expiration is set
   let accessToken: string | null = null;
   if (body.generateToken && body.expiresAt) {
-    accessToken = generateSignedToken(auditId, body.expiresAt);
-    await storeAccessToken(auditId, accessToken);
+    accessToken = (await issueAccessToken(auditId, body.expiresAt)).token;
   }
 
+  await recordAdminAction(auth.user, {
+    action: "report_link.update",
+    entityType: "report_link",
+    entityId: auditId,
+    before,
+    after: { ...updatedLink, tokenIssued: accessToken !== null },
+  });
+
   return NextResponse.json({
     success: true,
     link: {
@@ -144,6 +189,9 @@ export async function PATCH(
       defaultUtmSource: updatedLink.defaultUtmSource,
       defaultUtmMedium: updatedLink.defaultUtmMedium,
       defaultUtmCampaign: updatedLink.defaultUtmCampaign,
+      showChanges: updatedLink.showChanges,
+      visibility: updatedLink.visibility,
+      workspaceId: updatedLink.workspaceId,
       linkCopies: updatedLink.linkCopies,
       qrDownloads: updatedLink.qrDownloads,
     },
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { revokeAccessToken } from "@/lib/link-storage";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+// DELETE /api/audit/[auditId]/link/tokens/[tokenId] - Revoke an access token
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string; tokenId: string }> }
+) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
+  const { auditId, tokenId } = await params;
+
+  const revoked = await revokeAccessToken(auditId, tokenId);
+  if (!revoked) {
+    return NextResponse.json(
+      { error: "Token not found or already revoked" },
+      { status: 404 }
+    );
+  }
+
+  await recordAdminAction(auth.user, {
+    action: "access_token.revoke",
+    entityType: "access_token",
+    entityId: tokenId,
+    before: { auditId },
+  });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadAudit } from "@/lib/audit-storage";
+import {
+  issueAccessToken,
+  listAccessTokens,
+  revokeAllAccessTokens,
+} from "@/lib/link-storage";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+// Tokens live at most this long, so a leaked link can't work forever
+const MAX_TOKEN_DAYS = 365;
+
+// GET /api/audit/[auditId]/link/tokens - List access tokens issued for a report
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string }> }
+) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  const { auditId } = await params;
+
+  const tokens = await listAccessTokens(auditId);
+  return NextResponse.json({ auditId, tokens });
+}
+
+// POST /api/audit/[auditId]/link/tokens - Issue an access token
+//
+// Body: { expiresAt: string, label?: string, rotate?: boolean }
+// With rotate, every existing token for the report is revoked first. The
+// token is only returned here; it isn't stored.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string }> }
+) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
+  const { auditId } = await params;
+
+  const audit = await loadAudit(auditId);
+  if (!audit) {
+    return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+  }
+
+  let body: { expiresAt?: string; label?: string; rotate?: boolean };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const expiresAt = body.expiresAt ? new Date(body.expiresAt) : null;
+  if (!expiresAt || isNaN(expiresAt.getTime())) {
+    return NextResponse.json(
+      { error: "expiresAt is required" },
+      { status: 400 }
+    );
+  }
+  if (expiresAt <= new Date()) {
+    return NextResponse.json(
+      { error: "Expiration date must be in the future" },
+      { status: 400 }
+    );
+  }
+  if (expiresAt.getTime() - Date.now() > MAX_TOKEN_DAYS * 24 * 60 * 60 * 1000) {
+    return NextResponse.json(
+      { error: `Tokens can be valid for at most ${MAX_TOKEN_DAYS} days` },
+      { status: 400 }
+    );
+  }
+
+  const revoked = body.rotate ? await revokeAllAccessTokens(auditId) : 0;
+  const { token, accessToken } = await issueAccessToken(
+    auditId,
+    expiresAt.toISOString(),
+    body.label?.trim() || null
+  );
+
+  await recordAdminAction(auth.user, {
+    action: "access_token.issue",
+    entityType: "access_token",
+    entityId: accessToken.id,
+    after: { ...accessToken, rotatedOut: revoked },
+  });
+
+  return NextResponse.json({ success: true, token, accessToken, revoked });
+}
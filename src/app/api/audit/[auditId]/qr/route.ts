@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { loadAudit } from "@/lib/audit-storage";
-import { getLinkByAuditId, incrementLinkStat } from "@/lib/link-storage";
+import {
+  buildReportUrl,
+  getDefaultVisibility,
+  getLinkByAuditId,
+  incrementLinkStat,
+  verifyAccessToken,
+  type ReportLink,
+} from "@/lib/link-storage";
+import { getReportBaseUrl, getReportBranding } from "@/lib/workspace-storage";
+import { requireAdmin } from "@/lib/admin-auth";
 import QRCode from "qrcode";
 
 interface QRRequest {
@@ -9,9 +18,13 @@ interface QRRequest {
   utmMedium?: string;
   utmCampaign?: string;
   trackDownload?: boolean;
+  token?: string;
 }
 
 // GET /api/audit/[auditId]/qr - Generate QR code for report
+//
+// Reports with "token" visibility need ?token= (admins only), which is put in
+// the QR code's link; without it the printed code would only open a 403.
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ auditId: string }> }
@@ -31,18 +44,14 @@ export async function GET(
   // Get link settings for custom slug and default UTM
   const link = await getLinkByAuditId(auditId);
 
-  // Build the report URL
-  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://gethost.ai";
+  const token = request.nextUrl.searchParams.get("token");
+  const tokenError = await checkQrToken(auditId, link, token);
+  if (tokenError) return tokenError;
 
-  // Use custom slug if available, otherwise use audit ID
-  let reportPath: string;
-  if (link?.customSlug) {
-    reportPath = `/r/${link.customSlug}`;
-  } else {
-    reportPath = `/report/${auditId}`;
-  }
-
-  const url = new URL(reportPath, baseUrl);
+  // Build the report URL - short link if there's a custom slug, on the
+  // workspace's custom domain if it has one
+  const branding = await getReportBranding(link);
+  const url = buildReportUrl(auditId, link, getReportBaseUrl(branding));
 
   // Add UTM params from query string or link defaults
   const searchParams = request.nextUrl.searchParams;
@@ -61,6 +70,8 @@ export async function GET(
     if (utmCampaign) url.searchParams.set("utm_campaign", utmCampaign);
   }
 
+  if (token) url.searchParams.set("token", token);
+
   // Track download if requested
   if (searchParams.get("trackDownload") === "true") {
     await incrementLinkStat(auditId, "qr_downloads");
@@ -72,7 +83,7 @@ export async function GET(
       width: 300,
       margin: 2,
       color: {
-        dark: "#000000",
+        dark: qrColor(branding.primaryColor),
         light: "#ffffff",
       },
       errorCorrectionLevel: "M",
@@ -121,17 +132,13 @@ export async function POST(
   // Get link settings
   const link = await getLinkByAuditId(auditId);
 
-  // Build the report URL
-  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "https://gethost.ai";
-
-  let reportPath: string;
-  if (link?.customSlug) {
-    reportPath = `/r/${link.customSlug}`;
-  } else {
-    reportPath = `/report/${auditId}`;
-  }
+  const tokenError = await checkQrToken(auditId, link, body.token);
+  if (tokenError) return tokenError;
 
-  const url = new URL(reportPath, baseUrl);
+  // Build the report URL - short link if there's a custom slug, on the
+  // workspace's custom domain if it has one
+  const branding = await getReportBranding(link);
+  const url = buildReportUrl(auditId, link, getReportBaseUrl(branding));
 
   // Add UTM params
   if (body.includeUtm !== false) {
@@ -144,6 +151,8 @@ export async function POST(
     if (utmCampaign) url.searchParams.set("utm_campaign", utmCampaign);
   }
 
+  if (body.token) url.searchParams.set("token", body.token);
+
   // Track download
   if (body.trackDownload) {
     await incrementLinkStat(auditId, "qr_downloads");
@@ -154,7 +163,7 @@ export async function POST(
       width: 300,
       margin: 2,
       color: {
-        dark: "#000000",
+        dark: qrColor(branding.primaryColor),
         light: "#ffffff",
       },
       errorCorrectionLevel: "M",
@@ -175,3 +184,46 @@ export async function POST(
     );
   }
 }
+
+// A token printed in a QR code hands out access to the report, so only admins
+// can include one, and private reports can't get a QR code without one
+async function checkQrToken(
+  auditId: string,
+  link: ReportLink | null,
+  token: string | null | undefined
+): Promise<NextResponse | null> {
+  if (token) {
+    const auth = await requireAdmin("audits:write");
+    if (!auth.ok) return auth.response;
+
+    const verified = await verifyAccessToken(auditId, token, { recordUse: false });
+    if (!verified.valid) {
+      return NextResponse.json(
+        { error: `Invalid access token: ${verified.error ?? "Invalid token"}` },
+        { status: 400 }
+      );
+    }
+    return null;
+  }
+
+  if ((link?.visibility ?? getDefaultVisibility()) === "token") {
+    return NextResponse.json(
+      { error: "This report is private - pass an access token to include in the QR code" },
+      { status: 400 }
+    );
+  }
+  return null;
+}
+
+// Brand color for the QR modules, as long as it's dark enough to scan
+function qrColor(primaryColor: string | null): string {
+  if (!primaryColor) return "#000000";
+
+  const hex = primaryColor.length === 4
+    ? primaryColor.slice(1).split("").map((c) => c + c).join("")
+    : primaryColor.slice(1);
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+
+  return luminance < 0.5 ? `#${hex}` : "#000000";
+}
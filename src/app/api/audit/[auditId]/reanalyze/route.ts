@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadAudit } from "@/lib/audit-storage";
+import { reanalyzeStoredAudit } from "@/lib/audit-reanalysis";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * POST /api/audit/[auditId]/reanalyze
+ * Re-run the current detectors and rules against the audit's stored
+ * snapshot, without fetching anything, and save the result as a new audit.
+ *
+ * Body:
+ * - profile?: string - Scoring profile (defaults to the audit's)
+ * - dryRun?: boolean - Return the diff without saving a new audit
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string }> }
+) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { auditId } = await params;
+    const { profile, dryRun = false } = await request.json().catch(() => ({}));
+
+    const audit = await loadAudit(auditId);
+    if (!audit) {
+      return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+    }
+
+    const outcome = await reanalyzeStoredAudit(audit, {
+      profile,
+      dryRun,
+      createdBy: auth.user?.id,
+    });
+    if (typeof outcome === "string") {
+      return NextResponse.json({ error: outcome }, { status: 400 });
+    }
+
+    if (outcome.newAuditId) {
+      await recordAdminAction(auth.user, {
+        action: "audit.reanalyze",
+        entityType: "audit",
+        entityId: outcome.newAuditId,
+        before: {
+          auditId,
+          score: outcome.oldScore,
+          analyzerVersion: outcome.analyzerVersion.old,
+        },
+        after: {
+          auditId: outcome.newAuditId,
+          score: outcome.newScore,
+          analyzerVersion: outcome.analyzerVersion.new,
+          profile: outcome.profile,
+        },
+      });
+    }
+
+    return NextResponse.json({ success: true, dryRun, ...outcome });
+  } catch (error) {
+    console.error("[Reanalyze] Failed to re-analyze audit:", error);
+    return NextResponse.json({ error: "Failed to re-analyze audit" }, { status: 500 });
+  }
+}
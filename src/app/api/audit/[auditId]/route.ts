@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { loadAudit } from "@/lib/audit-storage";
+import { authorizeReportAccess } from "@/lib/report-access";
 
 // GET /api/audit/[auditId] - Load a stored audit by ID
+// Private reports need ?token=<access token>, a lead cookie (lead-gated) or
+// an admin session
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ auditId: string }> }
@@ -18,5 +21,17 @@ export async function GET(
     return NextResponse.json({ error: "Audit not found" }, { status: 404 });
   }
 
+  const access = await authorizeReportAccess(auditId, {
+    route: "api",
+    token: request.nextUrl.searchParams.get("token"),
+    adminBypass: "always",
+  });
+  if (!access.granted) {
+    return NextResponse.json(
+      { error: "This report is private", reason: access.reason },
+      { status: 403 }
+    );
+  }
+
   return NextResponse.json(audit);
 }
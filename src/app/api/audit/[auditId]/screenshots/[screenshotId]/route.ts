@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getArtifact } from "@/lib/artifacts";
+import { loadAudit } from "@/lib/audit-storage";
+import { authorizeReportAccess } from "@/lib/report-access";
+
+// GET /api/audit/[auditId]/screenshots/[screenshotId] - A screenshot taken
+// during the audit. Same access rules as the report; ?token= is passed on
+// from the report page.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string; screenshotId: string }> }
+) {
+  const { auditId, screenshotId } = await params;
+
+  const audit = await loadAudit(auditId);
+  if (!audit) {
+    return NextResponse.json({ error: "Audit not found" }, { status: 404 });
+  }
+
+  // Opening the report was logged already
+  const access = await authorizeReportAccess(auditId, {
+    route: "api",
+    token: request.nextUrl.searchParams.get("token"),
+    adminBypass: "always",
+    log: false,
+  });
+  if (!access.granted) {
+    return NextResponse.json({ error: "This report is private" }, { status: 403 });
+  }
+
+  const screenshot = audit.result?.screenshots?.find((s) => s.id === screenshotId);
+  if (!screenshot) {
+    return NextResponse.json({ error: "Screenshot not found" }, { status: 404 });
+  }
+
+  try {
+    const artifact = await getArtifact(screenshot.key);
+    if (!artifact) {
+      return NextResponse.json({ error: "Screenshot file is missing" }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(artifact.data), {
+      headers: {
+        "Content-Type": artifact.contentType,
+        // Screenshots never change; private since the report may be
+        "Cache-Control": "private, max-age=86400",
+      },
+    });
+  } catch (error) {
+    console.error(`[Screenshots] Failed to load ${screenshot.key}:`, error);
+    return NextResponse.json({ error: "Failed to load screenshot" }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AUDIT_JOB_COOKIE, cancelJob, getJob } from "@/lib/audit-queue";
+import { publishAuditEvent } from "@/lib/audit-events";
+import { requireAdmin } from "@/lib/admin-auth";
+
+/**
+ * POST /api/audit/cancel/[jobId]
+ * Cancel a pending, running or stalled audit job. A running audit finishes
+ * its current step in the background but its result is discarded.
+ *
+ * Open to the browser that started the job (the homepage cancels its own
+ * scan) and to admins with audits:write.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await params;
+
+    if (request.cookies.get(AUDIT_JOB_COOKIE)?.value !== jobId) {
+      const auth = await requireAdmin("audits:write");
+      if (!auth.ok) return auth.response;
+    }
+
+    const job = await getJob(jobId);
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    const cancelled = await cancelJob(jobId);
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: `Job is already ${job.status}` },
+        { status: 400 }
+      );
+    }
+
+    publishAuditEvent(jobId, { type: "cancelled" });
+
+    return NextResponse.json({
+      id: cancelled.id,
+      status: cancelled.status,
+    });
+  } catch (error) {
+    console.error("Failed to cancel audit:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel audit" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/admin-auth";
 import { runAudit } from "./runner";
 
 export const maxDuration = 60;
@@ -7,8 +8,13 @@ interface AuditRequest {
   domain: string;
 }
 
-// Synchronous audit endpoint (kept for backward compatibility)
+// Synchronous audit endpoint (kept for backward compatibility). Admin only:
+// anonymous audits go through /api/audit/start, which is rate limited, and
+// tools through /api/v1.
 export async function POST(request: NextRequest) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
   try {
     const body: AuditRequest = await request.json();
     const { domain } = body;
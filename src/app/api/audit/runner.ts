@@ -2,24 +2,61 @@
 
 import {
   analyzeBookingFlow,
-  type BookingFlowAnalysis,
+  applyFunnelExploration,
+  mergeBookingFlow,
 } from "@/services/audit/checks/booking-flow";
+import { analyzePageContent } from "@/services/audit/checks/page-content";
+import { analyzeTrustSignals, mergeTrustSignals } from "@/services/audit/checks/trust-signals";
+import { crawlSite, getCrawlDefaults, USER_AGENT, type CrawlResult } from "@/services/audit/crawler";
 import {
-  analyzeTrustSignals,
-  type TrustSignalAnalysis,
-} from "@/services/audit/checks/trust-signals";
-
-// Core Web Vitals extracted from either CrUX or Lighthouse
-interface CoreWebVitals {
-  LCP: { value: number; rating: string; source: "field" | "lab" };
-  FID: { value: number; rating: string; source: "field" | "lab" } | null;
-  CLS: { value: number; rating: string; source: "field" | "lab" };
-  FCP: { value: number; rating: string; source: "field" | "lab" };
-  TBT: { value: number; rating: string; source: "lab" } | null;
-}
+  exploreBookingFunnel,
+  isFunnelExplorerEnabled,
+  toAuditFunnel,
+  type FunnelExploration,
+} from "@/services/audit/funnel-explorer";
+import {
+  getRenderMode,
+  renderPages,
+  type PageRender,
+  type RenderMode,
+} from "@/services/audit/renderer";
+import {
+  getScreenshotMode,
+  screenshotTargets,
+  storeScreenshots,
+  type ScreenshotMode,
+} from "@/services/audit/screenshots";
+import { isSnapshotEnabled, loadSnapshot, storeSnapshot } from "@/services/audit/snapshot";
+import { runPerformance, type PerformanceRun } from "@/services/audit/performance";
+import { AUDIT_SCHEMA_VERSION } from "@/lib/audit-schema";
+import { resolveScoringProfile } from "@/lib/scoring-profile-storage";
+import {
+  buildRecommendations,
+  diffScores,
+  normalizeAudit,
+  pageRules,
+  runRules,
+  scoreFindings,
+  withoutPageHtml,
+  type ResolvedProfile,
+  type ScoreDiff,
+} from "@/rules";
+import type {
+  ApiRequestInfo,
+  AuditCoreWebVitals,
+  AuditPage,
+  AuditResult,
+  AuditScreenshot,
+  AuditSnapshotRef,
+  AuditStage,
+  PageSpeedResult,
+  RawApiData,
+  SEMrushParsedData,
+  SEOMetrics,
+} from "@/types/audit";
 
 // Extract Core Web Vitals from PageSpeed data (CrUX first, Lighthouse fallback)
-function extractCoreWebVitals(data: PageSpeedResult | null): CoreWebVitals | null {
+function extractCoreWebVitals(data: PageSpeedResult | null): AuditCoreWebVitals | null {
   if (!data) return null;
 
   const crux = data.loadingExperience?.metrics;
@@ -62,125 +99,81 @@ function extractCoreWebVitals(data: PageSpeedResult | null): CoreWebVitals | nul
   return null;
 }
 
-// PageSpeed Insights API types
-interface PageSpeedResult {
-  lighthouseResult?: {
-    categories: {
-      performance?: { score: number };
-      accessibility?: { score: number };
-      "best-practices"?: { score: number };
-      seo?: { score: number };
-    };
-    audits: Record<
-      string,
-      {
-        score: number | null;
-        displayValue?: string;
-        numericValue?: number;
-      }
-    >;
-  };
-  loadingExperience?: {
-    metrics: {
-      LARGEST_CONTENTFUL_PAINT_MS?: { percentile: number; category: string };
-      FIRST_INPUT_DELAY_MS?: { percentile: number; category: string };
-      CUMULATIVE_LAYOUT_SHIFT_SCORE?: { percentile: number; category: string };
-      FIRST_CONTENTFUL_PAINT_MS?: { percentile: number; category: string };
-    };
-  };
-}
-
-// SEO Data types (from DataForSEO or SEMrush)
-interface SEOMetricsData {
-  organic_traffic?: number;
-  organic_keywords?: number;
-  backlinks?: number;
-  domain_rank?: number;
-  authority_score?: number;
-  source?: "dataforseo" | "semrush" | "none";
-}
-
 type ProgressCallback = (progress: number, step: string) => void | Promise<void>;
 
-// Request info for curl command generation
-interface RequestInfo {
-  method: "GET" | "POST";
-  url: string;
-  headers: Record<string, string>;
-  body?: string;
+// Why a funnel walk stopped short of checkout, for the audit notes
+const FUNNEL_OUTCOMES: Record<FunnelExploration["outcome"], string> = {
+  checkout: "reached checkout",
+  account_wall: "sign-in required",
+  captcha: "CAPTCHA",
+  dead_end: "no booking button left to follow",
+  step_limit: "step or time limit",
+  error: "error",
+};
+
+// SEO provider data, processed and as returned
+export interface SEOFetchResult {
+  processed: SEOMetrics | null;
+  dataForSEOProcessed: SEOMetrics | null;
+  semrushProcessed: SEOMetrics | null;
+  dataForSEORaw: { request: ApiRequestInfo; response: unknown } | null;
+  semrushRaw: { request: ApiRequestInfo; response: unknown } | null;
 }
 
-// SEMrush parsed data types
-interface SEMrushKeyword {
-  keyword: string;
-  position: number;
-  previousPosition: number | null;
-  searchVolume: number;
-  traffic: number;
-  trafficPercent: number;
-  cpc: number;
+/**
+ * Everything an audit fetched: the crawl, the pages rendered in Chrome, the
+ * funnel walk and the provider responses. Analysis and scoring run on these
+ * alone, so a stored snapshot of them (see services/audit/snapshot.ts) can be
+ * re-analyzed without network access.
+ */
+export interface AuditInputs {
   url: string;
-}
-
-interface SEMrushRefDomain {
   domain: string;
-  backlinksCount: number;
-  firstSeen: string;
-  lastSeen: string;
+  fetchedAt: string;
+  fetchTimeMs: number;
+  crawl: CrawlResult;
+  crawlLimits: { maxPages: number; maxDepth: number };
+  renderMode: RenderMode;
+  // Pages analyzed from the rendered DOM
+  renderTargets: string[];
+  renders: PageRender[];
+  screenshotUrls: string[];
+  funnel: FunnelExploration | null;
+  perf: PerformanceRun;
+  seo: SEOFetchResult;
+  rawApiData: RawApiData;
 }
 
-interface SEMrushParsedData {
-  domainRanks: {
-    rank: number;
-    organicKeywords: number;
-    organicTraffic: number;
-    organicCost: number;
-    adwordsKeywords: number;
-    adwordsTraffic: number;
-    adwordsCost: number;
-  } | null;
-  backlinks: {
-    authorityScore: number;
-    totalBacklinks: number;
-    referringDomains: number;
-    referringUrls: number;
-    referringIps: number;
-    followLinks: number;
-    nofollowLinks: number;
-  } | null;
-  topKeywords: SEMrushKeyword[];
-  refDomains: SEMrushRefDomain[];
-}
-
-// Raw API response storage with request details
-interface RawApiData {
-  pageSpeed: { request: RequestInfo; response: unknown } | null;
-  dataForSEO: { request: RequestInfo; response: unknown } | null;
-  semrush: {
-    request: RequestInfo;
-    response: unknown;
-    parsed?: SEMrushParsedData;
-  } | null;
-  htmlFetch: {
-    request: RequestInfo;
-    response: {
-      statusCode: number;
-      contentLength: number;
-      headers: Record<string, string>;
-      loadTimeMs: number;
-      fetchedAt: string;
-      error?: string;
-    };
-  } | null;
+// Bump when a change to the detectors, normalization or rules means the same
+// inputs produce a different result. Recorded on every result, so re-analyzed
+// audits show which analyzer produced them.
+export const ANALYZER_VERSION = 2;
+
+export interface RunAuditOptions {
+  // Scoring profile name; omitted uses the default profile
+  scoringProfile?: string | null;
+  // Which pages to analyze in headless Chrome; omitted uses RENDER_MODE
+  renderMode?: RenderMode;
+  // Which pages to screenshot; omitted uses SCREENSHOT_MODE
+  screenshotMode?: ScreenshotMode;
+  // Walk the booking funnel in headless Chrome; omitted uses FUNNEL_EXPLORER
+  exploreFunnel?: boolean;
+  // Called as each stage finishes, with the part of the result it produced
+  onStage?: (stage: AuditStage) => void;
 }
 
 export async function runAudit(
   url: string,
   domain: string,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options: RunAuditOptions = {}
 ) {
   const startTime = Date.now();
   const updateProgress = onProgress || (() => {});
+  const completeStage = options.onStage || (() => {});
+
+  // Resolve first so an unknown profile fails before any fetching
+  const profile = await resolveScoringProfile(options.scoringProfile);
 
   // Initialize raw data storage
   const rawApiData: RawApiData = {
@@ -190,16 +183,23 @@ export async function runAudit(
     htmlFetch: null,
   };
 
-  // Step 1: Fetch page
+  // Step 1: Crawl the site, homepage first
   updateProgress(20, "Fetching website content...");
-  const pageData = await fetchPage(url);
+  const crawlLimits = getCrawlDefaults();
+  const crawl = await crawlSite(url, {
+    ...crawlLimits,
+    onPage: (_page, crawled, maxPages) =>
+      updateProgress(
+        20 + Math.round((15 * crawled) / maxPages),
+        `Crawling website (${crawled} of up to ${maxPages} pages)...`
+      ),
+  });
+  const pageData = crawl.pages[0];
   rawApiData.htmlFetch = {
     request: {
       method: "GET",
       url,
-      headers: {
-        "User-Agent": "Mozilla/5.0 (compatible; GetHostAI-Audit/1.0; +https://gethost.ai)",
-      },
+      headers: { "User-Agent": USER_AGENT },
     },
     response: {
       statusCode: pageData.status,
@@ -211,63 +211,284 @@ export async function runAudit(
     },
   };
 
+  completeStage({
+    phase: "domain",
+    progress: 35,
+    step: `Crawled ${crawl.pages.length} pages`,
+    partial: {
+      domain,
+      pages: crawl.pages.map((p) => ({
+        url: p.url,
+        finalUrl: p.finalUrl,
+        kind: p.kind,
+        depth: p.depth,
+        status: p.status,
+        loadTimeMs: p.loadTimeMs,
+        error: p.error,
+        findings: [],
+      })),
+    },
+  });
+
+  // Optionally re-load pages in Chrome so checks see client-side content,
+  // and screenshot the pages the report shows in the same session
+  const renderMode = options.renderMode ?? getRenderMode();
+  const renderTargets = crawl.pages
+    .slice(0, renderMode === "all" ? undefined : renderMode === "home" ? 1 : 0)
+    .filter((p) => !p.error && p.status > 0 && p.status < 400)
+    .map((p) => p.finalUrl);
+  const screenshotMode = options.screenshotMode ?? getScreenshotMode();
+  const screenshotPages = screenshotTargets(crawl.pages, screenshotMode);
+  const chromeTargets = [...new Set([...renderTargets, ...screenshotPages.map((p) => p.finalUrl)])];
+  let renders = new Map<string, PageRender>();
+  if (chromeTargets.length > 0) {
+    updateProgress(36, `Rendering ${chromeTargets.length === 1 ? "homepage" : `${chromeTargets.length} pages`} in headless Chrome...`);
+    renders = await renderPages(chromeTargets, {
+      screenshotUrls: screenshotPages.map((p) => p.finalUrl),
+    });
+  }
+
+  // Optionally click through the booking funnel from the homepage
+  const homePage = crawl.pages[0];
+  const homeLoaded = !homePage.error && homePage.status > 0 && homePage.status < 400;
+  let funnel: FunnelExploration | null = null;
+  if ((options.exploreFunnel ?? isFunnelExplorerEnabled()) && homeLoaded) {
+    updateProgress(38, "Walking the booking funnel...");
+    funnel = await exploreBookingFunnel(homePage.finalUrl);
+  }
+
   // Step 2: Fetch external data in parallel
   updateProgress(40, "Analyzing performance metrics...");
-  const [pageSpeedResult, seoResult] = await Promise.all([
-    fetchPageSpeedInsightsWithRaw(url),
+  const [perfRun, seoResult] = await Promise.all([
+    runPerformance(url),
     fetchSEODataWithRaw(domain),
   ]);
 
-  const pageSpeedData = pageSpeedResult.processed;
-  const seoData = seoResult.processed;
-  const dataForSEOMetrics = seoResult.dataForSEOProcessed;
-  const semrushMetrics = seoResult.semrushProcessed;
-  rawApiData.pageSpeed = pageSpeedResult.raw;
+  rawApiData.pageSpeed = perfRun.raw;
   rawApiData.dataForSEO = seoResult.dataForSEORaw;
   rawApiData.semrush = seoResult.semrushRaw;
 
-  // Step 3: Analyze the page HTML
+  completeStage({
+    phase: "performance",
+    progress: 45,
+    step: "Performance metrics collected",
+    partial: {
+      lighthouseScores: perfRun.mobile?.lighthouseResult?.categories || null,
+    },
+  });
+  completeStage({
+    phase: "seo",
+    progress: 50,
+    step: "Search metrics collected",
+    partial: { seoMetrics: seoResult.processed || null },
+  });
+
+  const inputs: AuditInputs = {
+    url,
+    domain,
+    fetchedAt: new Date(startTime).toISOString(),
+    fetchTimeMs: Date.now() - startTime,
+    crawl,
+    crawlLimits,
+    renderMode,
+    renderTargets,
+    renders: [...renders.values()],
+    screenshotUrls: screenshotPages.map((p) => p.finalUrl),
+    funnel,
+    perf: perfRun,
+    seo: seoResult,
+    rawApiData,
+  };
+  const result = analyzeAuditInputs(inputs, profile, { updateProgress, completeStage });
+
+  // Stored last so a failed audit leaves no files behind
+  const screenshots = await storeScreenshots(screenshotPages, renders, funnel);
+  const snapshot = isSnapshotEnabled() ? await storeSnapshot(inputs, ANALYZER_VERSION) : null;
+
+  updateProgress(100, "Complete");
+
+  return withArtifacts(result, inputs, screenshots, snapshot);
+}
+
+/**
+ * Re-run the current detectors and rules against the snapshot stored with
+ * an audit, scored under `profile`. Nothing is fetched; screenshots are
+ * carried over. Null when the audit has no snapshot or it is gone.
+ */
+export async function reanalyzeAudit(
+  previous: AuditResult,
+  profile: ResolvedProfile
+): Promise<{ result: AuditResult; diff: ScoreDiff } | null> {
+  if (!previous.snapshot) return null;
+
+  const inputs = await loadSnapshot(previous.snapshot);
+  if (!inputs) return null;
+
+  const analyzed = withArtifacts(
+    analyzeAuditInputs(inputs, profile),
+    inputs,
+    previous.screenshots ?? [],
+    previous.snapshot
+  );
+  const result: AuditResult = {
+    ...analyzed,
+    meta: { ...analyzed.meta!, reanalyzedAt: new Date().toISOString() },
+  };
+
+  return { result, diff: diffScores(previous, result, "reanalysis") };
+}
+
+/**
+ * Analyze and score what an audit fetched. Runs no network requests, so it
+ * serves both fresh audits and re-analysis of a stored snapshot.
+ */
+function analyzeAuditInputs(
+  inputs: AuditInputs,
+  profile: ResolvedProfile,
+  hooks: { updateProgress?: ProgressCallback; completeStage?: (stage: AuditStage) => void } = {}
+) {
+  const updateProgress = hooks.updateProgress || (() => {});
+  const completeStage = hooks.completeStage || (() => {});
+  const { url, domain, crawl, crawlLimits, renderMode, renderTargets, funnel, rawApiData } = inputs;
+
+  const pageData = crawl.pages[0];
+  const sitemap = crawl.sitemap;
+  const renders = new Map(inputs.renders.map((r) => [r.url, r]));
+  // Pages with no viewport rendered fall back to the fetched HTML
+  const renderFailures = renderTargets
+    .map((target) => renders.get(target)!)
+    .filter((r) => Object.keys(r.viewports).length === 0);
+  // Only pages picked by the render mode are analyzed from the rendered DOM
+  const analyzedRender = (url: string) => (renderTargets.includes(url) ? renders.get(url) : undefined);
+
+  const perfRun = inputs.perf;
+  const pageSpeedData = perfRun.mobile;
+  const seoData = inputs.seo.processed;
+  const dataForSEOMetrics = inputs.seo.dataForSEOProcessed;
+  const semrushMetrics = inputs.seo.semrushProcessed;
+
+  // Step 3: Analyze each crawled page's HTML
   updateProgress(50, "Scanning for conversion elements...");
-  const analysis = analyzePage(pageData, domain);
+  const pageAnalyses = crawl.pages.map((page) => ({
+    page,
+    content: analyzePageContent(page.html),
+    bookingFlow: analyzeBookingFlow(page.html, analyzedRender(page.finalUrl)),
+    trustSignals: analyzeTrustSignals(page.html, analyzedRender(page.finalUrl)),
+  }));
+  const [homeAnalysis, ...otherAnalyses] = pageAnalyses;
+  const subpages = otherAnalyses.filter(
+    ({ page }) => !page.error && page.status > 0 && page.status < 400
+  );
+  const pageContent = homeAnalysis.content;
 
-  // Step 4: Run STR-specific analysis
+  // Step 4: Run STR-specific analysis across the site
   updateProgress(60, "Analyzing booking flow...");
-  const bookingFlowAnalysis = analyzeBookingFlow(pageData.html);
+  const mergedBookingFlow = mergeBookingFlow(
+    homeAnalysis.bookingFlow,
+    subpages.map((a) => ({ analysis: a.bookingFlow, depth: a.page.depth }))
+  );
+  // What the funnel walk saw beats what the HTML suggested
+  const bookingFlowAnalysis =
+    funnel && funnel.outcome !== "error"
+      ? applyFunnelExploration(mergedBookingFlow, funnel)
+      : mergedBookingFlow;
 
   updateProgress(70, "Analyzing trust signals...");
-  const trustSignalAnalysis = analyzeTrustSignals(pageData.html);
+  const trustSignalAnalysis = mergeTrustSignals(
+    homeAnalysis.trustSignals,
+    subpages.map((a) => a.trustSignals)
+  );
+
+  completeStage({
+    phase: "ui",
+    progress: 80,
+    step: "Booking flow and trust signals analyzed",
+    partial: {
+      bookingFlow: bookingFlowAnalysis,
+      trustSignals: trustSignalAnalysis,
+    },
+  });
 
-  // Step 5: Calculate scores
+  // Step 5: Normalize and run the rules engine
   updateProgress(85, "Calculating scores...");
-  const scores = calculateScores(
-    analysis,
-    pageSpeedData,
-    seoData,
-    bookingFlowAnalysis,
-    trustSignalAnalysis
-  );
+  const normalized = normalizeAudit({
+    domain,
+    url,
+    page: pageData,
+    crawled: crawl.pages.map((p) => ({
+      url: p.finalUrl,
+      kind: p.kind,
+      depth: p.depth,
+      status: p.status,
+    })),
+    sitemap,
+    pageSpeed: pageSpeedData,
+    pageSpeedDesktop: perfRun.desktop,
+    seo: seoData,
+    bookingFlow: bookingFlowAnalysis,
+    trustSignals: trustSignalAnalysis,
+    pageContent,
+  });
+  const findings = runRules(normalized, profile.rules);
+  const scores = scoreFindings(findings, normalized, profile.config);
+
+  // Page-level rules against each crawled page on its own
+  const pages: AuditPage[] = pageAnalyses.map(({ page, content, bookingFlow, trustSignals }) => {
+    const rules = pageRules(page.kind, profile.rules);
+    const pageAudit = normalizeAudit({
+      domain,
+      url: page.finalUrl,
+      page,
+      sitemap: null,
+      pageSpeed: null,
+      seo: null,
+      bookingFlow,
+      trustSignals,
+      pageContent: content,
+    });
+
+    return {
+      url: page.url,
+      finalUrl: page.finalUrl,
+      kind: page.kind,
+      depth: page.depth,
+      status: page.status,
+      loadTimeMs: page.loadTimeMs,
+      error: page.error,
+      findings: rules.length > 0 ? runRules(pageAudit, rules) : [],
+    };
+  });
 
   // Step 6: Compile recommendations
   updateProgress(90, "Generating recommendations...");
-  const allRecommendations = [
-    ...analysis.recommendations,
-    ...getBookingFlowRecommendations(bookingFlowAnalysis),
-    ...getTrustSignalRecommendations(trustSignalAnalysis),
-    ...getPageSpeedRecommendations(pageSpeedData),
-    ...getSEORecommendations(seoData),
-  ];
-
-  updateProgress(100, "Complete");
+  const allRecommendations = buildRecommendations(profile.rules, findings, normalized);
+
+  completeStage({
+    phase: "scoring",
+    progress: 95,
+    step: "Scores calculated",
+    partial: {
+      overallScore: scores.overall,
+      projectedScore: scores.projected,
+      categories: scores.categories,
+      recommendations: allRecommendations,
+    },
+  });
 
   return {
+    schemaVersion: AUDIT_SCHEMA_VERSION,
     domain,
     timestamp: new Date().toISOString(),
     overallScore: scores.overall,
-    projectedScore: Math.min(95, scores.overall + 25),
+    projectedScore: scores.projected,
     monthlyRevenueLoss: estimateRevenueLoss(scores.overall, seoData),
     summary: generateSummary(scores.overall),
     categories: scores.categories,
     recommendations: allRecommendations,
+    findings,
+    // Kept so the audit can be re-scored under another profile without refetching
+    normalized: withoutPageHtml(normalized),
+    pages,
     competitors: [],
     coreWebVitals: extractCoreWebVitals(pageSpeedData),
     lighthouseScores: pageSpeedData?.lighthouseResult?.categories || null,
@@ -279,10 +500,12 @@ export async function runAudit(
       hasBookingCTA: bookingFlowAnalysis.hasBookingCTA,
       ctaText: bookingFlowAnalysis.ctaText,
       ctaLocation: bookingFlowAnalysis.ctaLocation,
+      ctaPositions: bookingFlowAnalysis.ctaPositions,
       bookingEngine: bookingFlowAnalysis.bookingEngine,
       hasDatePicker: bookingFlowAnalysis.hasDatePicker,
       hasInstantBook: bookingFlowAnalysis.hasInstantBook,
       estimatedClicksToBook: bookingFlowAnalysis.estimatedClicksToBook,
+      clicksMeasured: bookingFlowAnalysis.clicksMeasured,
       frictionScore: bookingFlowAnalysis.frictionScore,
     },
     trustSignals: {
@@ -291,6 +514,7 @@ export async function runAudit(
       reviewSource: trustSignalAnalysis.reviewSource,
       reviewCount: trustSignalAnalysis.reviewCount,
       averageRating: trustSignalAnalysis.averageRating,
+      reviewPlacement: trustSignalAnalysis.reviewPlacement,
       trustBadges: trustSignalAnalysis.trustBadges,
       hasPhoneNumber: trustSignalAnalysis.hasPhoneNumber,
       hasEmailAddress: trustSignalAnalysis.hasEmailAddress,
@@ -299,8 +523,24 @@ export async function runAudit(
       hasPrivacyPolicy: trustSignalAnalysis.hasPrivacyPolicy,
     },
     meta: {
-      fetchTimeMs: Date.now() - startTime,
+      fetchTimeMs: inputs.fetchTimeMs,
       url,
+      scoringProfile: profile.name,
+      analyzerVersion: ANALYZER_VERSION,
+      perfProviders: perfRun.providers,
+      crawl: {
+        pagesCrawled: crawl.pages.length,
+        maxPages: crawlLimits.maxPages,
+        maxDepth: crawlLimits.maxDepth,
+        robotsTxtFound: crawl.robots?.found ?? null,
+        blockedByRobots: crawl.robots?.blockedCount ?? 0,
+        skipped: crawl.skippedCount,
+      },
+      render: {
+        mode: renderMode,
+        pagesRendered: renderTargets.length - renderFailures.length,
+        failed: renderFailures.length,
+      },
       dataSourcesUsed: {
         htmlAnalysis: true,
         pageSpeed: !!pageSpeedData?.lighthouseResult,
@@ -311,8 +551,26 @@ export async function runAudit(
       },
       notes: [
         ...(!pageSpeedData?.lighthouseResult
-          ? ["PageSpeed API unavailable - add PAGESPEED_API_KEY for Lighthouse data"]
+          ? [
+              `Performance data unavailable (${
+                perfRun.failures.map((f) => `${f.provider}: ${f.error}`).join("; ") ||
+                "no provider configured"
+              })`,
+            ]
+          : []),
+        ...(perfRun.providers.mobile === "lighthouse"
+          ? ["Performance measured with local Lighthouse (lab data, no CrUX field data)"]
           : []),
+        ...(renderFailures.length > 0
+          ? [
+              `Rendering failed for ${renderFailures.length} of ${renderTargets.length} pages, their fetched HTML was analyzed instead (${renderFailures[0].error})`,
+            ]
+          : []),
+        ...(funnel?.outcome === "error"
+          ? [`Booking funnel walk failed, clicks to book are estimated (${funnel.error})`]
+          : funnel && !funnel.reachedCheckout
+            ? [`Booking funnel walk stopped before checkout (${FUNNEL_OUTCOMES[funnel.outcome]}), clicks to book are estimated`]
+            : []),
         ...(seoData
           ? [`SEO data from ${seoData.source || "unknown"}`]
           : []),
@@ -323,114 +581,40 @@ export async function runAudit(
   };
 }
 
-async function fetchPage(url: string): Promise<{
-  html: string;
-  status: number;
-  headers: Record<string, string>;
-  loadTimeMs: number;
-  error?: string;
-}> {
-  const start = Date.now();
-
-  try {
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (compatible; GetHostAI-Audit/1.0; +https://gethost.ai)",
-      },
-      redirect: "follow",
-    });
-
-    const html = await response.text();
-    const headers: Record<string, string> = {};
-    response.headers.forEach((value, key) => {
-      headers[key] = value;
-    });
-
-    return {
-      html,
-      status: response.status,
-      headers,
-      loadTimeMs: Date.now() - start,
-    };
-  } catch (error) {
-    return {
-      html: "",
-      status: 0,
-      headers: {},
-      loadTimeMs: Date.now() - start,
-      error: String(error),
-    };
-  }
-}
-
-// Wrapper function that returns both raw and processed PageSpeed data
-async function fetchPageSpeedInsightsWithRaw(
-  url: string
-): Promise<{ processed: PageSpeedResult | null; raw: { request: RequestInfo; response: unknown } }> {
-  const apiKey = process.env.PAGESPEED_API_KEY || "";
-  const apiUrl = new URL(
-    "https://www.googleapis.com/pagespeedonline/v5/runPagespeed"
-  );
-  apiUrl.searchParams.set("url", url);
-  apiUrl.searchParams.set("strategy", "mobile");
-  // Add each category as a separate parameter
-  ["performance", "accessibility", "best-practices", "seo"].forEach((cat) => {
-    apiUrl.searchParams.append("category", cat);
-  });
-  if (apiKey) {
-    apiUrl.searchParams.set("key", apiKey);
-  }
+/**
+ * The analyzed result with what was stored alongside it: screenshots, the
+ * funnel walk pointing at its step screenshots, and the snapshot
+ */
+function withArtifacts(
+  result: ReturnType<typeof analyzeAuditInputs>,
+  inputs: AuditInputs,
+  screenshots: AuditScreenshot[],
+  snapshot: AuditSnapshotRef | null
+) {
+  // Two viewports, first screen and full page
+  const expected = inputs.screenshotUrls.length * 4;
+  const missingScreenshots = expected - screenshots.filter((s) => s.funnelStep === undefined).length;
 
-  const requestInfo: RequestInfo = {
-    method: "GET",
-    url: apiUrl.toString(),
-    headers: { Accept: "application/json" },
+  return {
+    ...result,
+    screenshots,
+    funnel: inputs.funnel && toAuditFunnel(inputs.funnel, screenshots),
+    snapshot,
+    meta: {
+      ...result.meta,
+      notes: [
+        ...result.meta.notes,
+        ...(missingScreenshots > 0
+          ? [`${missingScreenshots} of ${expected} screenshots could not be taken or stored`]
+          : []),
+      ],
+    },
   };
-
-  try {
-    console.log("[PageSpeed] Fetching:", apiUrl.toString().replace(/key=[^&]+/, "key=***"));
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
-
-    const response = await fetch(apiUrl.toString(), {
-      headers: { Accept: "application/json" },
-      signal: controller.signal,
-    });
-    clearTimeout(timeoutId);
-
-    const data = await response.json();
-
-    if (data.error) {
-      console.warn(`[PageSpeed] API error: ${data.error.message}`);
-      return { processed: null, raw: { request: requestInfo, response: data } };
-    }
-
-    if (!response.ok) {
-      console.warn(`[PageSpeed] Response not ok: ${response.status}`);
-      return { processed: null, raw: { request: requestInfo, response: data } };
-    }
-
-    console.log("[PageSpeed] Success, performance score:", data.lighthouseResult?.categories?.performance?.score);
-    return { processed: data as PageSpeedResult, raw: { request: requestInfo, response: data } };
-  } catch (error) {
-    console.error("[PageSpeed] Fetch failed:", error);
-    return { processed: null, raw: { request: requestInfo, response: { error: String(error) } } };
-  }
 }
 
 // Wrapper function that returns both raw and processed SEO data
 // Always calls both DataForSEO and SEMrush for comparison
-async function fetchSEODataWithRaw(
-  domain: string
-): Promise<{
-  processed: SEOMetricsData | null;
-  dataForSEOProcessed: SEOMetricsData | null;
-  semrushProcessed: SEOMetricsData | null;
-  dataForSEORaw: { request: RequestInfo; response: unknown } | null;
-  semrushRaw: { request: RequestInfo; response: unknown } | null;
-}> {
+async function fetchSEODataWithRaw(domain: string): Promise<SEOFetchResult> {
   // Call both APIs in parallel for richer data
   const [dataForSEOResult, semrushResult] = await Promise.all([
     fetchDataForSEOWithRaw(domain),
@@ -451,7 +635,7 @@ async function fetchSEODataWithRaw(
 
 async function fetchDataForSEOWithRaw(
   domain: string
-): Promise<{ processed: SEOMetricsData | null; raw: { request: RequestInfo; response: unknown } }> {
+): Promise<{ processed: SEOMetrics | null; raw: { request: ApiRequestInfo; response: unknown } }> {
   const login = process.env.DATAFORSEO_LOGIN;
   const password = process.env.DATAFORSEO_PASSWORD;
 
@@ -462,7 +646,7 @@ async function fetchDataForSEOWithRaw(
     language_code: "en",
   }]);
 
-  const requestInfo: RequestInfo = {
+  const requestInfo: ApiRequestInfo = {
     method: "POST",
     url: apiUrl,
     headers: {
@@ -553,7 +737,7 @@ function calculateAuthorityScore(organic: {
 
 async function fetchSEMrushWithRaw(
   domain: string
-): Promise<{ processed: SEOMetricsData | null; raw: { request: RequestInfo; response: unknown; parsed?: SEMrushParsedData } }> {
+): Promise<{ processed: SEOMetrics | null; raw: { request: ApiRequestInfo; response: unknown; parsed?: SEMrushParsedData } }> {
   const apiKey = process.env.SEMRUSH_API_KEY;
 
   if (!apiKey) {
@@ -604,7 +788,7 @@ async function fetchSEMrushWithRaw(
   refDomainsUrl.searchParams.set("display_sort", "backlinks_num");
   refDomainsUrl.searchParams.set("export_columns", "domain_ascore,domain,backlinks_num,first_seen,last_seen");
 
-  const requestInfo: RequestInfo = {
+  const requestInfo: ApiRequestInfo = {
     method: "GET",
     url: ranksUrl.toString(),
     headers: {},
@@ -774,650 +958,9 @@ async function fetchSEMrushWithRaw(
   }
 }
 
-interface PageAnalysis {
-  hasSSL: boolean;
-  hasMetaDescription: boolean;
-  hasMetaTitle: boolean;
-  hasMobileViewport: boolean;
-  hasBookingCTA: boolean;
-  hasPricing: boolean;
-  hasReviews: boolean;
-  hasContactInfo: boolean;
-  hasImages: boolean;
-  imageCount: number;
-  loadTimeMs: number;
-  pageSize: number;
-  recommendations: Array<{
-    title: string;
-    description: string;
-    status: "pass" | "fail" | "warning";
-    impact: "High" | "Medium" | "Low";
-    category: string;
-  }>;
-}
-
-function analyzePage(
-  pageData: Awaited<ReturnType<typeof fetchPage>>,
-  _domain: string
-): PageAnalysis {
-  const { html, loadTimeMs, error } = pageData;
-  const lowerHtml = html.toLowerCase();
-
-  const recommendations: PageAnalysis["recommendations"] = [];
-
-  // SSL Check
-  const hasSSL = !error && pageData.status === 200;
-  recommendations.push({
-    title: "SSL Certificate",
-    description: hasSSL
-      ? "Site uses HTTPS correctly"
-      : "Site is not accessible via HTTPS",
-    status: hasSSL ? "pass" : "fail",
-    impact: "High",
-    category: "Security",
-  });
-
-  // Meta title
-  const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-  const hasMetaTitle = !!titleMatch && titleMatch[1].trim().length > 0;
-  recommendations.push({
-    title: "Page Title",
-    description: hasMetaTitle
-      ? `Found title: "${titleMatch?.[1]?.substring(0, 50)}..."`
-      : "Missing or empty page title",
-    status: hasMetaTitle ? "pass" : "fail",
-    impact: "High",
-    category: "SEO",
-  });
-
-  // Meta description
-  const hasMetaDescription =
-    lowerHtml.includes('name="description"') ||
-    lowerHtml.includes("name='description'");
-  recommendations.push({
-    title: "Meta Description",
-    description: hasMetaDescription
-      ? "Meta description found"
-      : "Missing meta description - important for search results",
-    status: hasMetaDescription ? "pass" : "fail",
-    impact: "High",
-    category: "SEO",
-  });
-
-  // Mobile viewport
-  const hasMobileViewport =
-    lowerHtml.includes("viewport") && lowerHtml.includes("width=device-width");
-  recommendations.push({
-    title: "Mobile Viewport",
-    description: hasMobileViewport
-      ? "Mobile viewport configured correctly"
-      : "Missing mobile viewport meta tag",
-    status: hasMobileViewport ? "pass" : "fail",
-    impact: "High",
-    category: "Performance",
-  });
-
-  // Pricing visibility (booking CTA is now in getBookingFlowRecommendations)
-  const pricingPatterns = [/\$\d+/, /\d+\s*(per|\/)\s*night/i, /nightly\s*rate/i, /price/i];
-  const hasPricing = pricingPatterns.some((p) => p.test(html));
-  const bookingKeywords = ["book now", "reserve", "check availability"];
-  const hasBookingCTA = bookingKeywords.some((kw) => lowerHtml.includes(kw));
-  recommendations.push({
-    title: "Pricing Display",
-    description: hasPricing
-      ? "Pricing information visible"
-      : "No pricing found on page - show rates upfront to set expectations",
-    status: hasPricing ? "pass" : "warning",
-    impact: "High",
-    category: "Conversion",
-  });
-
-  // Reviews and contact info are now in getTrustSignalRecommendations
-  const reviewKeywords = ["review", "testimonial", "guest said", "★", "stars"];
-  const hasReviews = reviewKeywords.some((kw) => lowerHtml.includes(kw));
-  const contactPatterns = [/\d{3}[-.\s]?\d{3}[-.\s]?\d{4}/, /mailto:/i, /@.*\.(com|net|org)/i];
-  const hasContactInfo = contactPatterns.some((p) => p.test(html));
-
-  // Image count
-  const imageMatches = html.match(/<img[^>]+>/gi) || [];
-  const imageCount = imageMatches.length;
-  const hasImages = imageCount > 0;
-  recommendations.push({
-    title: "Property Images",
-    description:
-      imageCount > 5
-        ? `Found ${imageCount} images - good visual content`
-        : imageCount > 0
-        ? `Only ${imageCount} images - consider adding more property photos`
-        : "No images found - property photos are essential",
-    status: imageCount > 5 ? "pass" : imageCount > 0 ? "warning" : "fail",
-    impact: "High",
-    category: "Content",
-  });
-
-  // Page load time
-  recommendations.push({
-    title: "Page Load Time",
-    description:
-      loadTimeMs < 2000
-        ? `Page loaded in ${loadTimeMs}ms - good performance`
-        : loadTimeMs < 4000
-        ? `Page loaded in ${loadTimeMs}ms - could be faster`
-        : `Page loaded in ${loadTimeMs}ms - too slow, optimize images and scripts`,
-    status: loadTimeMs < 2000 ? "pass" : loadTimeMs < 4000 ? "warning" : "fail",
-    impact: "Medium",
-    category: "Performance",
-  });
-
-  // Page size
-  const pageSize = new Blob([html]).size;
-  recommendations.push({
-    title: "Page Size",
-    description:
-      pageSize < 500000
-        ? `Page is ${(pageSize / 1024).toFixed(0)}KB - acceptable size`
-        : `Page is ${(pageSize / 1024).toFixed(0)}KB - consider reducing page weight`,
-    status: pageSize < 500000 ? "pass" : "warning",
-    impact: "Medium",
-    category: "Performance",
-  });
-
-  return {
-    hasSSL,
-    hasMetaDescription,
-    hasMetaTitle,
-    hasMobileViewport,
-    hasBookingCTA,
-    hasPricing,
-    hasReviews,
-    hasContactInfo,
-    hasImages,
-    imageCount,
-    loadTimeMs,
-    pageSize,
-    recommendations,
-  };
-}
-
-function getPageSpeedRecommendations(
-  data: PageSpeedResult | null
-): PageAnalysis["recommendations"] {
-  if (!data?.lighthouseResult) return [];
-
-  const recommendations: PageAnalysis["recommendations"] = [];
-  const audits = data.lighthouseResult.audits;
-  const categories = data.lighthouseResult.categories;
-
-  if (categories.performance) {
-    const score = Math.round(categories.performance.score * 100);
-    recommendations.push({
-      title: "Lighthouse Performance",
-      description:
-        score >= 90
-          ? `Excellent performance score: ${score}/100`
-          : score >= 50
-          ? `Performance score ${score}/100 - room for improvement`
-          : `Poor performance score ${score}/100 - needs optimization`,
-      status: score >= 90 ? "pass" : score >= 50 ? "warning" : "fail",
-      impact: "High",
-      category: "Performance",
-    });
-  }
-
-  if (audits["largest-contentful-paint"]) {
-    const lcp = audits["largest-contentful-paint"];
-    const lcpMs = lcp.numericValue || 0;
-    recommendations.push({
-      title: "Largest Contentful Paint (LCP)",
-      description: lcp.displayValue || `${(lcpMs / 1000).toFixed(1)}s`,
-      status: lcpMs <= 2500 ? "pass" : lcpMs <= 4000 ? "warning" : "fail",
-      impact: "High",
-      category: "Performance",
-    });
-  }
-
-  if (categories.accessibility) {
-    const score = Math.round(categories.accessibility.score * 100);
-    recommendations.push({
-      title: "Accessibility Score",
-      description:
-        score >= 90
-          ? `Excellent accessibility: ${score}/100`
-          : `Accessibility issues found: ${score}/100`,
-      status: score >= 90 ? "pass" : score >= 70 ? "warning" : "fail",
-      impact: "Medium",
-      category: "Trust",
-    });
-  }
-
-  if (categories.seo) {
-    const score = Math.round(categories.seo.score * 100);
-    recommendations.push({
-      title: "Lighthouse SEO Score",
-      description:
-        score >= 90
-          ? `SEO well-optimized: ${score}/100`
-          : `SEO issues to address: ${score}/100`,
-      status: score >= 90 ? "pass" : score >= 70 ? "warning" : "fail",
-      impact: "High",
-      category: "SEO",
-    });
-  }
-
-  return recommendations;
-}
-
-function getSEORecommendations(
-  data: SEOMetricsData | null
-): PageAnalysis["recommendations"] {
-  if (!data) return [];
-
-  const recommendations: PageAnalysis["recommendations"] = [];
-
-  if (data.organic_traffic !== undefined && data.organic_traffic > 0) {
-    const traffic = data.organic_traffic;
-    recommendations.push({
-      title: "Organic Search Traffic",
-      description:
-        traffic > 1000
-          ? `Strong organic presence: ~${traffic.toLocaleString()} monthly visits`
-          : traffic > 100
-          ? `Moderate organic traffic: ~${traffic.toLocaleString()} monthly visits`
-          : `Low organic traffic: ~${traffic} monthly visits - SEO opportunity`,
-      status: traffic > 1000 ? "pass" : traffic > 100 ? "warning" : "fail",
-      impact: "High",
-      category: "SEO",
-    });
-  }
-
-  if (data.organic_keywords !== undefined && data.organic_keywords > 0) {
-    const keywords = data.organic_keywords;
-    recommendations.push({
-      title: "Ranking Keywords",
-      description:
-        keywords > 100
-          ? `Ranking for ${keywords.toLocaleString()} keywords - good visibility`
-          : keywords > 10
-          ? `Ranking for ${keywords} keywords - room to expand`
-          : `Only ranking for ${keywords} keywords - needs content strategy`,
-      status: keywords > 100 ? "pass" : keywords > 10 ? "warning" : "fail",
-      impact: "Medium",
-      category: "SEO",
-    });
-  }
-
-  if (data.backlinks !== undefined && data.backlinks > 0) {
-    const backlinks = data.backlinks;
-    recommendations.push({
-      title: "Backlink Profile",
-      description:
-        backlinks > 1000
-          ? `Strong backlink profile: ${backlinks.toLocaleString()} referring domains`
-          : backlinks > 100
-          ? `Moderate backlinks: ${backlinks.toLocaleString()} referring domains`
-          : `Limited backlinks: ${backlinks} - build more links from local tourism sites`,
-      status: backlinks > 1000 ? "pass" : backlinks > 100 ? "warning" : "fail",
-      impact: "Medium",
-      category: "SEO",
-    });
-  }
-
-  return recommendations;
-}
-
-function getBookingFlowRecommendations(
-  analysis: BookingFlowAnalysis
-): PageAnalysis["recommendations"] {
-  const recommendations: PageAnalysis["recommendations"] = [];
-
-  // Booking CTA
-  recommendations.push({
-    title: "Booking Call-to-Action",
-    description: analysis.hasBookingCTA
-      ? analysis.ctaLocation === "above-fold"
-        ? `"${analysis.ctaText}" button found above the fold`
-        : `"${analysis.ctaText}" found, but below the fold - move it higher`
-      : "No clear booking CTA found - add prominent booking buttons",
-    status: analysis.hasBookingCTA
-      ? analysis.ctaLocation === "above-fold"
-        ? "pass"
-        : "warning"
-      : "fail",
-    impact: "High",
-    category: "Conversion",
-  });
-
-  // Booking engine
-  if (analysis.bookingEngine) {
-    recommendations.push({
-      title: "Booking System",
-      description:
-        analysis.bookingEngine.type === "embedded"
-          ? `${analysis.bookingEngine.name} widget detected - keeps guests on your site`
-          : `${analysis.bookingEngine.name} detected - redirects guests off your site`,
-      status: analysis.bookingEngine.type === "embedded" ? "pass" : "warning",
-      impact: "Medium",
-      category: "Conversion",
-    });
-  } else {
-    recommendations.push({
-      title: "Booking System",
-      description: "No booking widget detected - consider adding an integrated booking system",
-      status: "fail",
-      impact: "High",
-      category: "Conversion",
-    });
-  }
-
-  // Date picker
-  recommendations.push({
-    title: "Date Selection",
-    description: analysis.hasDatePicker
-      ? "Date picker found - guests can easily select dates"
-      : "No date picker detected - add visible date selection for availability",
-    status: analysis.hasDatePicker ? "pass" : "fail",
-    impact: "High",
-    category: "Conversion",
-  });
-
-  // Instant book
-  recommendations.push({
-    title: "Instant Booking",
-    description: analysis.hasInstantBook
-      ? "Instant book enabled - reduces booking friction"
-      : "No instant booking - inquiry-based bookings have higher abandonment",
-    status: analysis.hasInstantBook ? "pass" : "warning",
-    impact: "Medium",
-    category: "Conversion",
-  });
-
-  // Booking friction
-  const frictionLevel =
-    analysis.frictionScore < 30
-      ? "Low"
-      : analysis.frictionScore < 60
-      ? "Medium"
-      : "High";
-  recommendations.push({
-    title: "Booking Friction",
-    description: `${frictionLevel} friction (${analysis.estimatedClicksToBook} estimated clicks to book)${
-      analysis.estimatedClicksToBook > 3 ? " - aim for 3 clicks or fewer" : ""
-    }`,
-    status:
-      analysis.frictionScore < 30
-        ? "pass"
-        : analysis.frictionScore < 60
-        ? "warning"
-        : "fail",
-    impact: "High",
-    category: "Conversion",
-  });
-
-  return recommendations;
-}
-
-function getTrustSignalRecommendations(
-  analysis: TrustSignalAnalysis
-): PageAnalysis["recommendations"] {
-  const recommendations: PageAnalysis["recommendations"] = [];
-
-  // Reviews
-  if (analysis.hasReviews) {
-    const reviewInfo = analysis.reviewSource
-      ? `${analysis.reviewSource.name}${analysis.reviewSource.isVerified ? " (verified)" : ""}`
-      : "Site reviews";
-    const ratingInfo =
-      analysis.averageRating !== null
-        ? ` - ${analysis.averageRating}/${analysis.ratingOutOf}`
-        : "";
-    const countInfo =
-      analysis.reviewCount !== null ? ` (${analysis.reviewCount} reviews)` : "";
-
-    recommendations.push({
-      title: "Guest Reviews",
-      description: `${reviewInfo}${ratingInfo}${countInfo}`,
-      status: analysis.reviewSource?.isVerified ? "pass" : "warning",
-      impact: "High",
-      category: "Trust",
-    });
-  } else {
-    recommendations.push({
-      title: "Guest Reviews",
-      description: "No reviews found - 93% of travelers read reviews before booking",
-      status: "fail",
-      impact: "High",
-      category: "Trust",
-    });
-  }
-
-  // Trust badges
-  if (analysis.trustBadges.length > 0) {
-    const badgeNames = analysis.trustBadges.slice(0, 3).map((b) => b.name).join(", ");
-    recommendations.push({
-      title: "Trust Badges",
-      description: `Found: ${badgeNames}${analysis.trustBadges.length > 3 ? ` (+${analysis.trustBadges.length - 3} more)` : ""}`,
-      status: "pass",
-      impact: "Medium",
-      category: "Trust",
-    });
-  } else {
-    recommendations.push({
-      title: "Trust Badges",
-      description: "No trust badges found - add Superhost, verified host, or security badges",
-      status: "warning",
-      impact: "Medium",
-      category: "Trust",
-    });
-  }
-
-  // Contact info
-  const contactScore =
-    (analysis.hasPhoneNumber ? 1 : 0) +
-    (analysis.hasEmailAddress ? 1 : 0) +
-    (analysis.hasPhysicalAddress ? 1 : 0);
-  const contactDetails = [
-    analysis.hasPhoneNumber && "phone",
-    analysis.hasEmailAddress && "email",
-    analysis.hasPhysicalAddress && "address",
-  ].filter(Boolean);
-
-  recommendations.push({
-    title: "Contact Information",
-    description:
-      contactScore >= 2
-        ? `Good transparency: ${contactDetails.join(", ")} visible`
-        : contactScore === 1
-        ? `Limited contact info: only ${contactDetails[0]} found`
-        : "No contact info found - guests want to know how to reach you",
-    status: contactScore >= 2 ? "pass" : contactScore === 1 ? "warning" : "fail",
-    impact: "Medium",
-    category: "Trust",
-  });
-
-  // Social presence
-  const socialCount = analysis.hasSocialProfiles.filter((p) => p.detected).length;
-  const detectedPlatforms = analysis.hasSocialProfiles
-    .filter((p) => p.detected)
-    .map((p) => p.platform)
-    .slice(0, 3);
-
-  recommendations.push({
-    title: "Social Media Presence",
-    description:
-      socialCount > 0
-        ? `Active on: ${detectedPlatforms.join(", ")}${socialCount > 3 ? ` (+${socialCount - 3} more)` : ""}`
-        : "No social media links found - add profiles to show you're a real business",
-    status: socialCount >= 2 ? "pass" : socialCount === 1 ? "warning" : "fail",
-    impact: "Low",
-    category: "Trust",
-  });
-
-  // Legal pages
-  recommendations.push({
-    title: "Privacy Policy",
-    description: analysis.hasPrivacyPolicy
-      ? "Privacy policy found"
-      : "No privacy policy found - legally required and builds trust",
-    status: analysis.hasPrivacyPolicy ? "pass" : "fail",
-    impact: "Medium",
-    category: "Trust",
-  });
-
-  // Overall trust score summary
-  const trustLevel =
-    analysis.overallTrustScore >= 70
-      ? "Strong"
-      : analysis.overallTrustScore >= 40
-      ? "Moderate"
-      : "Weak";
-  recommendations.push({
-    title: "Overall Trust Score",
-    description: `${trustLevel} trust signals (${analysis.overallTrustScore}/100)`,
-    status:
-      analysis.overallTrustScore >= 70
-        ? "pass"
-        : analysis.overallTrustScore >= 40
-        ? "warning"
-        : "fail",
-    impact: "High",
-    category: "Trust",
-  });
-
-  return recommendations;
-}
-
-function calculateScores(
-  analysis: PageAnalysis,
-  pageSpeed: PageSpeedResult | null,
-  seoData: SEOMetricsData | null,
-  bookingFlow: BookingFlowAnalysis,
-  trustSignals: TrustSignalAnalysis
-) {
-  const lighthousePerf = pageSpeed?.lighthouseResult?.categories?.performance?.score;
-  const lighthouseSeo = pageSpeed?.lighthouseResult?.categories?.seo?.score;
-  const lighthouseAccessibility =
-    pageSpeed?.lighthouseResult?.categories?.accessibility?.score;
-
-  // Conversion score - now based on detailed booking flow analysis
-  // Inverse friction score (100 - friction = ease of booking)
-  const bookingEaseScore = 100 - bookingFlow.frictionScore;
-  const conversionFactors = [
-    bookingFlow.hasBookingCTA,
-    bookingFlow.ctaLocation === "above-fold",
-    bookingFlow.bookingEngine !== null,
-    bookingFlow.hasDatePicker,
-    bookingFlow.hasInstantBook,
-    bookingFlow.estimatedClicksToBook <= 3,
-    analysis.hasPricing,
-  ];
-  const conversionCheckScore = calculateCategoryScore(conversionFactors);
-  const conversionScore = Math.round((conversionCheckScore + bookingEaseScore) / 2);
-
-  // Performance score
-  const basicPerfScore = calculateCategoryScore([
-    analysis.hasMobileViewport,
-    analysis.loadTimeMs < 3000,
-    analysis.pageSize < 500000,
-  ]);
-  const performanceScore = lighthousePerf
-    ? Math.round((basicPerfScore + lighthousePerf * 100) / 2)
-    : basicPerfScore;
-
-  // Trust score - now based on detailed trust signal analysis
-  const trustScore = trustSignals.overallTrustScore;
-
-  // Content score
-  const contentScore = calculateCategoryScore([
-    analysis.hasImages,
-    analysis.imageCount > 5,
-    trustSignals.hasGuestPhotos,
-    trustSignals.hasTestimonials,
-  ]);
-
-  // SEO score
-  const basicSeoScore = calculateCategoryScore([
-    analysis.hasMetaTitle,
-    analysis.hasMetaDescription,
-  ]);
-  let seoScore = basicSeoScore;
-  if (lighthouseSeo) {
-    seoScore = Math.round((seoScore + lighthouseSeo * 100) / 2);
-  }
-  if (seoData?.organic_traffic) {
-    const trafficBonus = Math.min(20, Math.log10(seoData.organic_traffic) * 5);
-    seoScore = Math.min(100, seoScore + trafficBonus);
-  }
-
-  const securityScore = analysis.hasSSL ? 100 : 0;
-
-  const overall = Math.round(
-    conversionScore * 0.35 +
-      performanceScore * 0.2 +
-      trustScore * 0.2 +
-      contentScore * 0.15 +
-      seoScore * 0.07 +
-      securityScore * 0.03
-  );
-
-  return {
-    overall,
-    categories: [
-      {
-        name: "Conversion",
-        score: conversionScore,
-        weight: 35,
-        description: "Booking flow and calls-to-action",
-        source: bookingFlow.bookingEngine
-          ? `Detected: ${bookingFlow.bookingEngine.name}`
-          : "HTML analysis",
-      },
-      {
-        name: "Performance",
-        score: performanceScore,
-        weight: 20,
-        description: "Page speed and mobile experience",
-        source: lighthousePerf ? "Lighthouse + HTML" : "HTML analysis",
-      },
-      {
-        name: "Trust",
-        score: trustScore,
-        weight: 20,
-        description: "Reviews, ratings, and credibility",
-        source: trustSignals.reviewSource
-          ? `Reviews: ${trustSignals.reviewSource.name}`
-          : "HTML analysis",
-      },
-      {
-        name: "Content",
-        score: contentScore,
-        weight: 15,
-        description: "Images and property descriptions",
-      },
-      {
-        name: "SEO",
-        score: seoScore,
-        weight: 7,
-        description: "Search engine optimization",
-        source: seoData?.source ? `Lighthouse + ${seoData.source}` : "HTML analysis",
-      },
-      {
-        name: "Security",
-        score: securityScore,
-        weight: 3,
-        description: "SSL and data protection",
-      },
-    ],
-  };
-}
-
-function calculateCategoryScore(checks: boolean[]): number {
-  const passed = checks.filter(Boolean).length;
-  return Math.round((passed / checks.length) * 100);
-}
-
 function estimateRevenueLoss(
   score: number,
-  seoData: SEOMetricsData | null
+  seoData: SEOMetrics | null
 ): number {
   const gap = Math.max(0, 90 - score);
   let baseLoss = gap * 50;
@@ -1,12 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createJob, updateJob } from "@/lib/audit-queue";
-import { saveAudit } from "@/lib/audit-storage";
-import { runAudit } from "../runner";
+import { createJob } from "@/lib/audit-queue";
+import { startAuditJob, sweepAuditJobs } from "@/lib/audit-job-worker";
+import { resolveScoringProfile } from "@/lib/scoring-profile-storage";
+import { getCurrentAdminUser } from "@/lib/admin-auth";
+import { consumeRateLimit, getClientIp, rateLimitHeaders } from "@/lib/rate-limit";
+import { AUDIT_JOB_COOKIE } from "@/lib/audit-queue";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_PUBLIC_AUDIT_RATE_LIMIT = 10;
+
+// Anonymous audits per IP per hour. PUBLIC_AUDIT_RATE_LIMIT=0 turns the limit off.
+function getPublicAuditRateLimit(): number {
+  const value = parseInt(process.env.PUBLIC_AUDIT_RATE_LIMIT || "", 10);
+  return value >= 0 ? value : DEFAULT_PUBLIC_AUDIT_RATE_LIMIT;
+}
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { domain } = body;
+    const { domain, scoringProfile } = body;
 
     if (!domain) {
       return NextResponse.json(
@@ -20,17 +32,59 @@ export async function POST(request: NextRequest) {
       .replace(/^(https?:\/\/)?(www\.)?/, "")
       .split("/")[0];
 
+    if (scoringProfile) {
+      try {
+        await resolveScoringProfile(scoringProfile);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Public audits run anonymously - credit ones started from the admin
+    const admin = await getCurrentAdminUser();
+
+    // Each audit spends PageSpeed and SEMrush quota, so anonymous callers
+    // are limited per IP. Programmatic access goes through /api/v1.
+    const limit = getPublicAuditRateLimit();
+    if (!admin && limit > 0) {
+      const ip = getClientIp(request.headers) ?? "unknown";
+      const result = await consumeRateLimit(`ip:${ip}:audits`, { windowMs: HOUR_MS, limit });
+      if (!result.allowed) {
+        return NextResponse.json(
+          { error: "Too many audits started from this address. Try again later." },
+          { status: 429, headers: rateLimitHeaders(result) }
+        );
+      }
+    }
+
     // Create job
-    const job = await createJob(cleanDomain);
+    const job = await createJob(cleanDomain, { scoringProfile, createdBy: admin?.id });
+
+    // Start audit in background (don't await); failed attempts are retried
+    startAuditJob(job.id);
 
-    // Start audit in background (don't await)
-    runAuditInBackground(job.id, cleanDomain);
+    // Pick up jobs other workers dropped and expire old ones
+    void sweepAuditJobs();
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       jobId: job.id,
       status: job.status,
       message: "Audit started",
     });
+
+    // Lets this browser cancel its own audit without signing in
+    response.cookies.set(AUDIT_JOB_COOKIE, job.id, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax",
+      maxAge: 60 * 60, // 1 hour
+      path: "/api/audit/cancel",
+    });
+
+    return response;
   } catch (error) {
     console.error("Failed to start audit:", error);
     return NextResponse.json(
@@ -39,41 +93,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-async function runAuditInBackground(jobId: string, domain: string) {
-  const url = `https://${domain}`;
-
-  try {
-    // Update to running
-    await updateJob(jobId, {
-      status: "running",
-      progress: 10,
-      currentStep: "Fetching website...",
-    });
-
-    // Run the actual audit
-    const result = await runAudit(url, domain, async (progress, step) => {
-      await updateJob(jobId, { progress, currentStep: step });
-    });
-
-    // Save to JSON file for persistence
-    const auditId = await saveAudit(domain, result);
-    console.log(`Audit saved with ID: ${auditId}`);
-
-    // Mark as completed with the persisted audit ID
-    await updateJob(jobId, {
-      status: "completed",
-      progress: 100,
-      currentStep: "Complete",
-      result: { ...result, auditId },
-      completedAt: new Date(),
-    });
-  } catch (error) {
-    console.error("Audit failed:", error);
-    await updateJob(jobId, {
-      status: "failed",
-      error: String(error),
-      currentStep: "Failed",
-    });
-  }
-}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getJob } from "@/lib/audit-queue";
+import { sweepAuditJobs } from "@/lib/audit-job-worker";
 
 export async function GET(
   request: NextRequest,
@@ -11,6 +12,9 @@ export async function GET(
     return NextResponse.json({ error: "Job ID required" }, { status: 400 });
   }
 
+  // Clients poll here, so this is where stalled jobs get noticed
+  await sweepAuditJobs();
+
   const job = await getJob(jobId);
 
   if (!job) {
@@ -25,6 +29,10 @@ export async function GET(
     currentStep: job.currentStep,
     result: job.status === "completed" ? job.result : null,
     error: job.error,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    nextAttemptAt: job.nextAttemptAt?.toISOString() || null,
+    heartbeatAt: job.heartbeatAt?.toISOString() || null,
     createdAt: job.createdAt.toISOString(),
     completedAt: job.completedAt?.toISOString() || null,
   });
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob, type AuditJob } from "@/lib/audit-queue";
+import { sweepAuditJobs } from "@/lib/audit-job-worker";
+import { isTerminalEvent, subscribeAuditEvents } from "@/lib/audit-events";
+import { phaseForProgress } from "@/lib/audit-progress";
+import { upgradeAuditResult } from "@/lib/audit-schema";
+import type { AuditStreamEvent } from "@/types/audit";
+
+export const dynamic = "force-dynamic";
+
+// How often the job row is checked, for jobs running in another process
+const POLL_MS = 2000;
+
+// Comment lines that keep proxies from closing an idle connection
+const KEEPALIVE_MS = 15000;
+
+/**
+ * GET /api/audit/stream/[jobId]
+ * Server-Sent Events stream of an audit job's progress. Sends progress and
+ * stage events (with partial results) as runAudit moves through its stages,
+ * then one completed, failed or cancelled event before closing.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  // Once per connection, not per poll; it throttles itself across requests
+  await sweepAuditJobs();
+
+  const job = await getJob(jobId);
+  if (!job) {
+    return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      let lastProgress = -1;
+
+      const send = (event: AuditStreamEvent) => {
+        if (closed) return;
+        if (event.type === "progress" || event.type === "stage") {
+          lastProgress = Math.max(lastProgress, event.progress);
+        }
+        write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        if (isTerminalEvent(event)) close();
+      };
+
+      // The client can go away between a check of `closed` and the write
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          teardown();
+        }
+      };
+
+      const { replay, unsubscribe } = subscribeAuditEvents(jobId, send);
+
+      const poll = setInterval(async () => {
+        try {
+          const current = await getJob(jobId);
+          if (!current) {
+            send({ type: "failed", error: "Job no longer exists" });
+            return;
+          }
+          const terminal = terminalEventFor(current);
+          if (terminal) {
+            send(terminal);
+          } else if (current.progress > lastProgress) {
+            send(progressEventFor(current));
+          }
+        } catch (error) {
+          console.error("[Audit Stream] Failed to poll job:", error);
+        }
+      }, POLL_MS);
+
+      const keepalive = setInterval(() => write(": keepalive\n\n"), KEEPALIVE_MS);
+
+      // Stop polling and listening; the stream itself is left as it is
+      function teardown() {
+        if (closed) return;
+        closed = true;
+        clearInterval(poll);
+        clearInterval(keepalive);
+        unsubscribe();
+      }
+      stop = teardown;
+
+      // End the stream from our side, after a terminal event or an abort
+      function close() {
+        if (closed) return;
+        teardown();
+        try {
+          controller.close();
+        } catch {
+          // Already closed or errored by the client disconnecting
+        }
+      }
+
+      request.signal.addEventListener("abort", close);
+
+      // Reconnect delay for EventSource
+      write("retry: 3000\n\n");
+
+      // Events from a worker in this process, else a snapshot from the job row
+      if (replay.length === 0) {
+        send(terminalEventFor(job) ?? progressEventFor(job));
+      }
+      for (const event of replay) {
+        send(event);
+      }
+    },
+    // The client cancelled, so the stream is already closed
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+function progressEventFor(job: AuditJob): AuditStreamEvent {
+  return {
+    type: "progress",
+    phase: phaseForProgress(job.progress),
+    progress: job.progress,
+    step: job.currentStep,
+  };
+}
+
+function terminalEventFor(job: AuditJob): AuditStreamEvent | null {
+  switch (job.status) {
+    case "completed": {
+      const result = upgradeAuditResult(job.result);
+      return result
+        ? { type: "completed", result }
+        : { type: "failed", error: "Audit finished without a valid result" };
+    }
+    case "failed":
+      return { type: "failed", error: job.error || "Audit failed" };
+    case "cancelled":
+      return { type: "cancelled" };
+    default:
+      return null;
+  }
+}
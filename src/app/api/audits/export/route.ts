@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { exportAudits, type AuditListParams } from "@/lib/audit-storage";
+import { requireAdmin } from "@/lib/admin-auth";
 
 // GET /api/audits/export - Export audits as CSV
 export async function GET(request: NextRequest) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
   const searchParams = request.nextUrl.searchParams;
 
   try {
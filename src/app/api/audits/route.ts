@@ -5,13 +5,19 @@ import {
   listAuditsAdvanced,
   deleteAudits,
   exportAudits,
+  getAuditSummaries,
   type AuditListParams,
 } from "@/lib/audit-storage";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
 
 // GET /api/audits - List audits with optional advanced params
 // Simple mode: GET /api/audits?domain=example.com&limit=20
 // Advanced mode: GET /api/audits?sort=score&order=desc&status=completed&page=1&limit=25
 export async function GET(request: NextRequest) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
   const searchParams = request.nextUrl.searchParams;
 
   // Check if using advanced mode (any advanced param present)
@@ -62,7 +68,7 @@ export async function GET(request: NextRequest) {
         id: a.id,
         domain: a.domain,
         createdAt: a.createdAt,
-        overallScore: (a.result as { overallScore?: number })?.overallScore,
+        overallScore: a.result?.overallScore,
       })),
       total: audits.length,
     });
@@ -77,6 +83,9 @@ export async function GET(request: NextRequest) {
 
 // DELETE /api/audits - Bulk delete audits
 export async function DELETE(request: NextRequest) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await request.json();
     const { auditIds } = body as { auditIds: string[] };
@@ -88,8 +97,18 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    const existing = await getAuditSummaries(auditIds);
     const deleted = await deleteAudits(auditIds);
 
+    for (const audit of existing) {
+      await recordAdminAction(auth.user, {
+        action: "audit.delete",
+        entityType: "audit",
+        entityId: audit.id,
+        before: audit,
+      });
+    }
+
     return NextResponse.json({ deleted });
   } catch (error) {
     console.error("Failed to delete audits:", error);
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuditsForBatch, getBatch } from "@/lib/batch-storage";
+import { loadAudit } from "@/lib/audit-storage";
+import { reanalyzeStoredAudit, type ReanalysisOutcome } from "@/lib/audit-reanalysis";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+const PAGE_SIZE = 100;
+
+/**
+ * POST /api/batches/[batchId]/reanalyze
+ * Re-analyze every completed audit in a batch from its stored snapshot.
+ * Each is saved as a new audit pointing back at the original, the way a
+ * single re-analysis is; audits without a snapshot are skipped.
+ *
+ * Body:
+ * - profile?: string - Scoring profile (defaults to each audit's own)
+ * - dryRun?: boolean - Return the diffs without saving new audits
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { batchId } = await params;
+    const { profile, dryRun = false } = await request.json().catch(() => ({}));
+
+    const batch = await getBatch(batchId);
+    if (!batch) {
+      return NextResponse.json(
+        { error: "Batch not found" },
+        { status: 404 }
+      );
+    }
+
+    const reanalyzed: ReanalysisOutcome[] = [];
+    const skipped: { auditId: string; domain: string; reason: string }[] = [];
+
+    // Sequential - each re-analysis is CPU-bound and loads a whole snapshot
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await getAuditsForBatch(batchId, { limit: PAGE_SIZE, offset });
+
+      for (const item of page) {
+        if (item.status !== "completed") continue;
+
+        const audit = await loadAudit(item.auditId);
+        if (!audit) continue;
+
+        const outcome = await reanalyzeStoredAudit(audit, {
+          profile,
+          dryRun,
+          createdBy: auth.user?.id,
+        });
+        if (typeof outcome === "string") {
+          skipped.push({ auditId: item.auditId, domain: item.domain, reason: outcome });
+        } else {
+          reanalyzed.push(outcome);
+        }
+      }
+
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    console.log(
+      `[Batch Reanalyze] Re-analyzed ${reanalyzed.length} audits for batch ${batchId}, skipped ${skipped.length}`
+    );
+
+    if (!dryRun && reanalyzed.length > 0) {
+      await recordAdminAction(auth.user, {
+        action: "batch.reanalyze",
+        entityType: "batch",
+        entityId: batchId,
+        before: { auditIds: reanalyzed.map((outcome) => outcome.oldAuditId) },
+        after: {
+          auditIds: reanalyzed.map((outcome) => outcome.newAuditId),
+          skipped: skipped.length,
+          profile: profile ?? null,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      batchId,
+      reanalyzed,
+      skipped,
+    });
+  } catch (error) {
+    console.error("[Batch Reanalyze] Failed to re-analyze batch:", error);
+    return NextResponse.json(
+      { error: "Failed to re-analyze batch" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBatch, updateBatch, getBatchItemCounts } from "@/lib/batch-storage";
+import { isBatchActive, startBatchWorker } from "@/lib/batch-worker";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * POST /api/batches/[batchId]/resume
+ * Resume a batch that stopped part-way (server restart, cancellation).
+ * Items still leased by another worker are picked up once their lease expires.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { batchId } = await params;
+
+    const batch = await getBatch(batchId);
+    if (!batch) {
+      return NextResponse.json(
+        { error: "Batch not found" },
+        { status: 404 }
+      );
+    }
+
+    if (batch.status !== "processing" && batch.status !== "cancelled") {
+      return NextResponse.json(
+        { error: `Cannot resume a ${batch.status} batch` },
+        { status: 400 }
+      );
+    }
+
+    if (isBatchActive(batchId)) {
+      return NextResponse.json(
+        { error: "Batch is already being processed" },
+        { status: 400 }
+      );
+    }
+
+    const counts = await getBatchItemCounts(batchId);
+    const remaining = counts.pending + counts.running;
+    if (remaining === 0) {
+      return NextResponse.json(
+        { error: "Batch has no unfinished domains" },
+        { status: 400 }
+      );
+    }
+
+    await updateBatch(batchId, { status: "processing" });
+    startBatchWorker(batchId);
+
+    console.log(`[Batch Resume] Resumed batch ${batchId} with ${remaining} unfinished domains`);
+
+    await recordAdminAction(auth.user, {
+      action: "batch.resume",
+      entityType: "batch",
+      entityId: batchId,
+      before: { status: batch.status },
+      after: { status: "processing", remaining },
+    });
+
+    return NextResponse.json({
+      message: "Batch processing resumed",
+      batchId,
+      remaining,
+    });
+  } catch (error) {
+    console.error("[Batch Resume] Failed to resume batch:", error);
+    return NextResponse.json(
+      { error: "Failed to resume batch" },
+      { status: 500 }
+    );
+  }
+}
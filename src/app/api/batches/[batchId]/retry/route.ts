@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getBatch,
+  updateBatch,
+  retryFailedBatchItems,
+  syncBatchCounts,
+} from "@/lib/batch-storage";
+import { isBatchActive, startBatchWorker } from "@/lib/batch-worker";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+
+/**
+ * POST /api/batches/[batchId]/retry
+ * Re-queue a batch's failed domains and process them again.
+ * Their failed audit records are replaced by the new attempts.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { batchId } = await params;
+
+    const batch = await getBatch(batchId);
+    if (!batch) {
+      return NextResponse.json(
+        { error: "Batch not found" },
+        { status: 404 }
+      );
+    }
+
+    if (batch.status === "pending") {
+      return NextResponse.json(
+        { error: "Batch has not been started" },
+        { status: 400 }
+      );
+    }
+
+    const retried = await retryFailedBatchItems(batchId);
+    if (retried === 0) {
+      return NextResponse.json(
+        { error: "Batch has no failed domains" },
+        { status: 400 }
+      );
+    }
+
+    await updateBatch(batchId, { status: "processing", completedAt: null });
+    await syncBatchCounts(batchId);
+
+    // A worker already on this batch picks the items up by itself
+    if (!isBatchActive(batchId)) {
+      startBatchWorker(batchId);
+    }
+
+    console.log(`[Batch Retry] Retrying ${retried} failed domains for batch ${batchId}`);
+
+    await recordAdminAction(auth.user, {
+      action: "batch.retry",
+      entityType: "batch",
+      entityId: batchId,
+      before: { status: batch.status, failedCount: batch.failedCount },
+      after: { status: "processing", retried },
+    });
+
+    return NextResponse.json({
+      message: "Retrying failed domains",
+      batchId,
+      retried,
+    });
+  } catch (error) {
+    console.error("[Batch Retry] Failed to retry batch:", error);
+    return NextResponse.json(
+      { error: "Failed to retry batch" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getBatch, getAuditsForBatch, deleteBatch, updateBatch } from "@/lib/batch-storage";
+import {
+  getBatch,
+  getAuditsForBatch,
+  deleteBatch,
+  updateBatch,
+  listBatchItems,
+  getBatchItemCounts,
+} from "@/lib/batch-storage";
+import { isBatchActive } from "@/lib/batch-worker";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
 
 /**
  * GET /api/batches/[batchId]
- * Get batch status with audit progress
+ * Get batch status with per-item and audit progress
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ batchId: string }> }
 ) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
   try {
     const { batchId } = await params;
 
@@ -20,23 +33,37 @@ export async function GET(
       );
     }
 
-    // Get audits for this batch
-    const audits = await getAuditsForBatch(batchId);
+    // Get items and audits for this batch
+    const [items, counts, audits] = await Promise.all([
+      listBatchItems(batchId),
+      getBatchItemCounts(batchId),
+      getAuditsForBatch(batchId),
+    ]);
 
     // Calculate progress stats
     const progress = {
       total: batch.totalDomains,
-      completed: batch.completedCount,
-      failed: batch.failedCount,
-      pending: batch.totalDomains - batch.completedCount - batch.failedCount,
-      percentComplete: Math.round(
-        ((batch.completedCount + batch.failedCount) / batch.totalDomains) * 100
-      ),
+      completed: counts.completed,
+      failed: counts.failed,
+      running: counts.running,
+      pending: counts.pending,
+      percentComplete: batch.totalDomains > 0
+        ? Math.round(((counts.completed + counts.failed) / batch.totalDomains) * 100)
+        : 0,
     };
 
+    // Open items that no worker holds a live lease on, e.g. after a restart
+    const resumable =
+      (batch.status === "processing" || batch.status === "cancelled") &&
+      counts.pending + counts.running > 0 &&
+      counts.leased === 0 &&
+      !isBatchActive(batchId);
+
     return NextResponse.json({
       batch,
       progress,
+      resumable,
+      items,
       audits,
     });
   } catch (error) {
@@ -56,6 +83,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ batchId: string }> }
 ) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
   try {
     const { batchId } = await params;
     const body = await request.json();
@@ -79,6 +109,16 @@ export async function PATCH(
 
     const updatedBatch = await updateBatch(batchId, allowedUpdates);
 
+    if (Object.keys(allowedUpdates).length > 0) {
+      await recordAdminAction(auth.user, {
+        action: allowedUpdates.status === "cancelled" ? "batch.cancel" : "batch.update",
+        entityType: "batch",
+        entityId: batchId,
+        before: batch,
+        after: updatedBatch,
+      });
+    }
+
     return NextResponse.json({ batch: updatedBatch });
   } catch (error) {
     console.error("[Batch API] Failed to update batch:", error);
@@ -100,6 +140,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ batchId: string }> }
 ) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
   try {
     const { batchId } = await params;
     const { searchParams } = new URL(request.url);
@@ -123,6 +166,14 @@ export async function DELETE(
 
     const deleted = await deleteBatch(batchId, deleteAudits);
 
+    await recordAdminAction(auth.user, {
+      action: "batch.delete",
+      entityType: "batch",
+      entityId: batchId,
+      before: batch,
+      after: { deleteAudits },
+    });
+
     return NextResponse.json({ deleted, batchId });
   } catch (error) {
     console.error("[Batch API] Failed to delete batch:", error);
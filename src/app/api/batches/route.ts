@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { parseDomains } from "@/lib/domain-parser";
 import { createBatch, listBatches } from "@/lib/batch-storage";
+import { resolveScoringProfile } from "@/lib/scoring-profile-storage";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
 
 /**
  * POST /api/batches
@@ -11,11 +14,15 @@ import { createBatch, listBatches } from "@/lib/batch-storage";
  * - rawText: string - Raw text to parse
  * - name?: string - Optional batch name
  * - source?: "paste" | "file" | "api" - Source of domains
+ * - scoringProfile?: string - Scoring profile to audit the batch under
  */
 export async function POST(request: NextRequest) {
+  const auth = await requireAdmin("audits:write");
+  if (!auth.ok) return auth.response;
+
   try {
     const body = await request.json();
-    const { domains: providedDomains, rawText, name, source = "paste" } = body;
+    const { domains: providedDomains, rawText, name, source = "paste", scoringProfile } = body;
 
     let validDomains: string[];
     let invalidDomains: { input: string; reason: string }[] = [];
@@ -47,15 +54,36 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Reject unknown profiles now rather than failing every audit later
+    if (scoringProfile) {
+      try {
+        await resolveScoringProfile(scoringProfile);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 400 }
+        );
+      }
+    }
+
     // Create the batch
     const batch = await createBatch({
       name: name || `Import ${new Date().toLocaleDateString()}`,
       source,
-      totalDomains: validDomains.length,
+      domains: validDomains,
+      scoringProfile: scoringProfile || undefined,
+      createdBy: auth.user?.id,
     });
 
     console.log(`[Batches API] Created batch ${batch.id} with ${validDomains.length} domains`);
 
+    await recordAdminAction(auth.user, {
+      action: "batch.create",
+      entityType: "batch",
+      entityId: batch.id,
+      after: { ...batch, domains: validDomains },
+    });
+
     return NextResponse.json({
       batchId: batch.id,
       batch,
@@ -83,6 +111,9 @@ export async function POST(request: NextRequest) {
  * - status?: "pending" | "processing" | "completed" | "failed" | "cancelled"
  */
 export async function GET(request: NextRequest) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
   try {
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get("limit") || "20");
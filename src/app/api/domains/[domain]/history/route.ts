@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuditChanges, getScoreHistory } from "@/lib/audit-history";
+import { requireAdmin } from "@/lib/admin-auth";
+
+// GET /api/domains/[domain]/history - Score timeline for a domain
+//
+// Query:
+// - limit?: number - Most recent audits to read (default 50)
+//
+// Returns one point per audit run (re-scored audits are folded into the run
+// they came from) plus the changes between the last two runs. Admin only -
+// it spans every report of the domain, whatever their visibility.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ domain: string }> }
+) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
+  const { domain } = await params;
+  const limitParam = request.nextUrl.searchParams.get("limit");
+  const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+  if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+    return NextResponse.json({ error: "limit must be a positive number" }, { status: 400 });
+  }
+
+  try {
+    const history = await getScoreHistory(decodeURIComponent(domain), limit);
+
+    const latest = history.points[history.points.length - 1];
+    const latestChanges =
+      history.points.length > 1 && latest
+        ? (await getAuditChanges(latest.auditId))?.changes ?? null
+        : null;
+
+    return NextResponse.json({ ...history, latestChanges });
+  } catch (error) {
+    console.error("Failed to load score history:", error);
+    return NextResponse.json(
+      { error: "Failed to load score history" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLead } from "@/lib/lead-storage";
+import { listLeadSyncs } from "@/lib/crm-storage";
+import { queueLeadSync, syncDueLeads } from "@/lib/crm-sync";
+import { requireAdmin } from "@/lib/admin-auth";
+
+interface RouteParams {
+  params: Promise<{ leadId: string }>;
+}
+
+// POST /api/leads/[leadId]/crm - Push the lead to every enabled CRM again
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireAdmin("leads:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { leadId } = await params;
+
+    const lead = await getLead(leadId);
+    if (!lead) {
+      return NextResponse.json(
+        { error: "Lead not found" },
+        { status: 404 }
+      );
+    }
+
+    await queueLeadSync(leadId);
+    await syncDueLeads();
+
+    return NextResponse.json({ crmSync: await listLeadSyncs(leadId) });
+  } catch (error) {
+    console.error("[Leads] CRM sync failed:", error);
+    return NextResponse.json(
+      { error: "Failed to sync lead" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,11 @@ import {
   deleteLead,
   getLeadReportAccess,
 } from "@/lib/lead-storage";
+import { requireAdmin } from "@/lib/admin-auth";
+import { recordAdminAction } from "@/lib/admin-audit-log";
+import { listLeadSyncs } from "@/lib/crm-storage";
+import { queueLeadSync } from "@/lib/crm-sync";
+import { getLeadTimeline, refreshLeadScore } from "@/lib/lead-engagement";
 
 interface RouteParams {
   params: Promise<{ leadId: string }>;
@@ -12,6 +17,9 @@ interface RouteParams {
 
 // GET /api/leads/[leadId] - Get lead details
 export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
   try {
     const { leadId } = await params;
 
@@ -24,12 +32,21 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Get report access history
-    const reportAccess = await getLeadReportAccess(leadId);
+    // Get report access history, where the lead has been pushed, its
+    // activity and an up-to-date score
+    const [reportAccess, crmSync, timeline, score] = await Promise.all([
+      getLeadReportAccess(leadId),
+      listLeadSyncs(leadId),
+      getLeadTimeline(leadId),
+      refreshLeadScore(leadId),
+    ]);
 
     return NextResponse.json({
-      lead,
+      lead: score ? { ...lead, score: score.score } : lead,
       reportAccess,
+      crmSync,
+      timeline,
+      score,
     });
   } catch (error) {
     console.error("[Leads] Get failed:", error);
@@ -42,13 +59,37 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
 // PATCH /api/leads/[leadId] - Update lead
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireAdmin("leads:write");
+  if (!auth.ok) return auth.response;
+
   try {
     const { leadId } = await params;
     const body = await request.json();
 
     const { status, notes } = body;
 
-    await updateLead(leadId, { status, notes });
+    const before = await getLead(leadId);
+    if (!before) {
+      return NextResponse.json(
+        { error: "Lead not found" },
+        { status: 404 }
+      );
+    }
+
+    await updateLead(leadId, { status, notes }, auth.user?.id ?? null);
+
+    await recordAdminAction(auth.user, {
+      action: "lead.update",
+      entityType: "lead",
+      entityId: leadId,
+      before,
+      after: await getLead(leadId),
+    });
+
+    // Status changes go to the CRMs too
+    if (status !== undefined && status !== before.status) {
+      await queueLeadSync(leadId);
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -62,11 +103,24 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
 // DELETE /api/leads/[leadId] - Delete lead
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const auth = await requireAdmin("leads:write");
+  if (!auth.ok) return auth.response;
+
   try {
     const { leadId } = await params;
 
+    const before = await getLead(leadId);
     await deleteLead(leadId);
 
+    if (before) {
+      await recordAdminAction(auth.user, {
+        action: "lead.delete",
+        entityType: "lead",
+        entityId: leadId,
+        before,
+      });
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("[Leads] Delete failed:", error);
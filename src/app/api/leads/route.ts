@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
+  buildLeadCookie,
   captureLead,
   checkLeadByEmail,
+  LEAD_COOKIE,
   listLeads,
+  parseLeadCookie,
   type LeadListParams,
 } from "@/lib/lead-storage";
+import { getViewedVariant } from "@/lib/analytics";
+import { queueLeadSync } from "@/lib/crm-sync";
+import { requireAdmin } from "@/lib/admin-auth";
 
 // POST /api/leads - Capture a new lead
 export async function POST(request: NextRequest) {
@@ -49,6 +55,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Credit the capture to the report variant this visitor was shown
+    const visitorId = request.cookies.get("ghai_vid")?.value;
+    const attribution =
+      auditId && visitorId ? await getViewedVariant(auditId, visitorId) : null;
+
     const result = await captureLead({
       email,
       name,
@@ -61,8 +72,15 @@ export async function POST(request: NextRequest) {
       utmCampaign,
       referrer,
       consentGiven: consentGiven === true,
+      variant: attribution?.variant,
+      experimentId: attribution?.experimentId,
+      visitorId,
     });
 
+    if (result.isNew) {
+      await queueLeadSync(result.leadId);
+    }
+
     // Set a cookie to remember this lead
     const response = NextResponse.json({
       success: true,
@@ -70,8 +88,11 @@ export async function POST(request: NextRequest) {
       isNew: result.isNew,
     });
 
-    // Set lead cookie for 30 days
-    response.cookies.set("ghai_lead", result.leadId, {
+    // Set lead cookie for 30 days; it opens the lead-gated reports captured
+    // on in this browser
+    const previous = parseLeadCookie(request.cookies.get(LEAD_COOKIE)?.value);
+    const cookie = buildLeadCookie(previous, { ...result, auditId });
+    response.cookies.set(LEAD_COOKIE, cookie, {
       httpOnly: true,
       secure: process.env.NODE_ENV === "production",
       sameSite: "lax",
@@ -110,6 +131,9 @@ export async function GET(request: NextRequest) {
   }
 
   // List mode: paginated lead list for admin
+  const auth = await requireAdmin("read");
+  if (!auth.ok) return auth.response;
+
   try {
     const params: LeadListParams = {
       status: searchParams.get("status") || undefined,
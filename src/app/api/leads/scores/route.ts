@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { recalculateAllLeadScores } from "@/lib/lead-engagement";
+import { requireAdmin } from "@/lib/admin-auth";
+
+// POST /api/leads/scores - Recalculate every lead's score
+export async function POST() {
+  const auth = await requireAdmin("leads:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const recalculated = await recalculateAllLeadScores();
+
+    return NextResponse.json({ recalculated });
+  } catch (error) {
+    console.error("[Leads] Rescore failed:", error);
+    return NextResponse.json(
+      { error: "Failed to recalculate lead scores" },
+      { status: 500 }
+    );
+  }
+}
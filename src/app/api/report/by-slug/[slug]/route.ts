@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getLinkBySlug, isLinkExpired } from "@/lib/link-storage";
 import { loadAudit } from "@/lib/audit-storage";
+import { authorizeReportAccess } from "@/lib/report-access";
 
 // GET /api/report/by-slug/[slug] - Resolve custom slug to audit ID
+// Private links need ?token=<access token> (or a lead cookie for lead-gated links)
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ slug: string }> }
@@ -31,6 +33,22 @@ export async function GET(
     );
   }
 
+  const access = await authorizeReportAccess(link.auditId, {
+    route: "slug",
+    token: request.nextUrl.searchParams.get("token"),
+    link,
+  });
+  if (!access.granted) {
+    return NextResponse.json(
+      {
+        error: "This report is private",
+        reason: access.reason,
+        tokenError: access.tokenError,
+      },
+      { status: 403 }
+    );
+  }
+
   // Verify the audit still exists
   const audit = await loadAudit(link.auditId);
   if (!audit) {
@@ -41,6 +59,7 @@ export async function GET(
     auditId: link.auditId,
     domain: audit.domain,
     customSlug: link.customSlug,
+    visibility: link.visibility,
     defaultUtmSource: link.defaultUtmSource,
     defaultUtmMedium: link.defaultUtmMedium,
     defaultUtmCampaign: link.defaultUtmCampaign,
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getJob } from "@/lib/audit-queue";
+import { sweepAuditJobs } from "@/lib/audit-job-worker";
+import { apiError, requireApiKey, serializeJob } from "@/lib/api-v1";
+
+/**
+ * GET /api/v1/audits/[jobId]
+ * Status of an audit started with this key, with the full result once it
+ * has completed. Jobs expire after AUDIT_JOB_TTL_HOURS - the stored report
+ * stays available at /api/v1/reports/[auditId].
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const auth = await requireApiKey(request, "audits:read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { jobId } = await params;
+
+    // Clients poll here, so this is where stalled jobs get noticed
+    await sweepAuditJobs();
+
+    // Other keys' and the app's own jobs look the same as missing ones
+    const job = await getJob(jobId);
+    if (!job || job.apiKeyId !== auth.key.id) {
+      return apiError("not_found", "Audit not found", { headers: auth.headers });
+    }
+
+    return NextResponse.json({ audit: serializeJob(job, true) }, { headers: auth.headers });
+  } catch (error) {
+    console.error("[API v1] Failed to get audit:", error);
+    return apiError("internal_error", "Failed to get audit", { headers: auth.headers });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createJob } from "@/lib/audit-queue";
+import { startAuditJob, sweepAuditJobs } from "@/lib/audit-job-worker";
+import { parseSingleDomain } from "@/lib/domain-parser";
+import { resolveScoringProfile } from "@/lib/scoring-profile-storage";
+import { apiError, consumeAuditQuota, requireApiKey, serializeJob } from "@/lib/api-v1";
+
+/**
+ * POST /api/v1/audits
+ * Start an audit. Counts one audit against the key's daily quota.
+ * Poll GET /api/v1/audits/[jobId] for the result.
+ *
+ * Body:
+ * - domain: string
+ * - scoringProfile?: string - Scoring profile to audit under
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireApiKey(request, "audits:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return apiError("invalid_request", "Request body must be a JSON object", { headers: auth.headers });
+    }
+
+    const { domain: input, scoringProfile } = body;
+    const domain = typeof input === "string" ? parseSingleDomain(input) : null;
+    if (!domain) {
+      return apiError("invalid_request", "A valid domain is required", {
+        details: { field: "domain" },
+        headers: auth.headers,
+      });
+    }
+
+    if (scoringProfile !== undefined) {
+      try {
+        if (typeof scoringProfile !== "string") throw new Error("scoringProfile must be a string");
+        await resolveScoringProfile(scoringProfile);
+      } catch (error) {
+        return apiError("invalid_request", error instanceof Error ? error.message : String(error), {
+          details: { field: "scoringProfile" },
+          headers: auth.headers,
+        });
+      }
+    }
+
+    const quotaError = await consumeAuditQuota(auth.key, 1, auth.headers);
+    if (quotaError) return quotaError;
+
+    const job = await createJob(domain, { scoringProfile, apiKeyId: auth.key.id });
+
+    // Start audit in background (don't await); failed attempts are retried
+    startAuditJob(job.id);
+    void sweepAuditJobs();
+
+    console.log(`[API v1] Key ${auth.key.id} started audit ${job.id} for ${domain}`);
+
+    return NextResponse.json({ audit: serializeJob(job) }, { status: 202, headers: auth.headers });
+  } catch (error) {
+    console.error("[API v1] Failed to start audit:", error);
+    return apiError("internal_error", "Failed to start audit", { headers: auth.headers });
+  }
+}
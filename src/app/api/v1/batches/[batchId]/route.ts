@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getBatch, getBatchItemCounts, listBatchItems } from "@/lib/batch-storage";
+import { apiError, requireApiKey } from "@/lib/api-v1";
+
+/**
+ * GET /api/v1/batches/[batchId]
+ * Progress of a batch created with this key, with each domain's status and,
+ * once audited, its report ID for /api/v1/reports/[auditId]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ batchId: string }> }
+) {
+  const auth = await requireApiKey(request, "batches:read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { batchId } = await params;
+
+    const batch = await getBatch(batchId);
+    if (!batch || batch.apiKeyId !== auth.key.id) {
+      return apiError("not_found", "Batch not found", { headers: auth.headers });
+    }
+
+    const [items, counts] = await Promise.all([
+      listBatchItems(batchId),
+      getBatchItemCounts(batchId),
+    ]);
+
+    return NextResponse.json(
+      {
+        batch: {
+          id: batch.id,
+          name: batch.name,
+          status: batch.status,
+          scoringProfile: batch.scoringProfile,
+          createdAt: batch.createdAt,
+          completedAt: batch.completedAt,
+        },
+        progress: {
+          total: batch.totalDomains,
+          completed: counts.completed,
+          failed: counts.failed,
+          running: counts.running,
+          pending: counts.pending,
+        },
+        items: items.map((item) => ({
+          domain: item.domain,
+          status: item.status,
+          auditId: item.auditId,
+          error: item.lastError,
+          completedAt: item.completedAt,
+        })),
+      },
+      { headers: auth.headers }
+    );
+  } catch (error) {
+    console.error("[API v1] Failed to get batch:", error);
+    return apiError("internal_error", "Failed to get batch", { headers: auth.headers });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseDomains } from "@/lib/domain-parser";
+import { createBatch, updateBatch } from "@/lib/batch-storage";
+import { startBatchWorker } from "@/lib/batch-worker";
+import { resolveScoringProfile } from "@/lib/scoring-profile-storage";
+import { apiError, consumeAuditQuota, requireApiKey } from "@/lib/api-v1";
+
+// Larger lists should be split across batches
+const MAX_BATCH_DOMAINS = 1000;
+
+/**
+ * POST /api/v1/batches
+ * Create a batch and start auditing it. Every valid domain counts against
+ * the key's daily quota; the whole batch is rejected if it doesn't fit.
+ *
+ * Body:
+ * - domains: string[]
+ * - name?: string
+ * - scoringProfile?: string - Scoring profile to audit the batch under
+ */
+export async function POST(request: NextRequest) {
+  const auth = await requireApiKey(request, "batches:write");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return apiError("invalid_request", "Request body must be a JSON object", { headers: auth.headers });
+    }
+
+    const { domains, name, scoringProfile } = body;
+    if (!Array.isArray(domains) || domains.some((domain) => typeof domain !== "string")) {
+      return apiError("invalid_request", "domains must be an array of strings", {
+        details: { field: "domains" },
+        headers: auth.headers,
+      });
+    }
+
+    const { valid, invalid } = parseDomains(domains.join("\n"));
+    if (valid.length === 0) {
+      return apiError("invalid_request", "No valid domains found", {
+        details: { field: "domains", invalidDomains: invalid },
+        headers: auth.headers,
+      });
+    }
+    if (valid.length > MAX_BATCH_DOMAINS) {
+      return apiError("invalid_request", `A batch can have at most ${MAX_BATCH_DOMAINS} domains`, {
+        details: { field: "domains", count: valid.length },
+        headers: auth.headers,
+      });
+    }
+
+    if (scoringProfile !== undefined) {
+      try {
+        if (typeof scoringProfile !== "string") throw new Error("scoringProfile must be a string");
+        await resolveScoringProfile(scoringProfile);
+      } catch (error) {
+        return apiError("invalid_request", error instanceof Error ? error.message : String(error), {
+          details: { field: "scoringProfile" },
+          headers: auth.headers,
+        });
+      }
+    }
+
+    const quotaError = await consumeAuditQuota(auth.key, valid.length, auth.headers);
+    if (quotaError) return quotaError;
+
+    const batch = await createBatch({
+      name: typeof name === "string" && name.trim() ? name.trim().slice(0, 200) : `API ${new Date().toLocaleDateString()}`,
+      source: "api",
+      domains: valid,
+      scoringProfile,
+      apiKeyId: auth.key.id,
+    });
+
+    await updateBatch(batch.id, { status: "processing" });
+    startBatchWorker(batch.id);
+
+    console.log(`[API v1] Key ${auth.key.id} started batch ${batch.id} with ${valid.length} domains`);
+
+    return NextResponse.json(
+      {
+        batch: {
+          id: batch.id,
+          name: batch.name,
+          status: "processing",
+          scoringProfile: batch.scoringProfile,
+          createdAt: batch.createdAt,
+          completedAt: null,
+        },
+        domains: valid,
+        invalidDomains: invalid,
+      },
+      { status: 202, headers: auth.headers }
+    );
+  } catch (error) {
+    console.error("[API v1] Failed to create batch:", error);
+    return apiError("internal_error", "Failed to create batch", { headers: auth.headers });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuditOwnedByApiKey, loadAudit } from "@/lib/audit-storage";
+import { apiError, requireApiKey } from "@/lib/api-v1";
+
+/**
+ * GET /api/v1/reports/[auditId]
+ * A stored audit started with this key, directly or through one of its
+ * batches
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ auditId: string }> }
+) {
+  const auth = await requireApiKey(request, "audits:read");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const { auditId } = await params;
+
+    const audit = (await isAuditOwnedByApiKey(auditId, auth.key.id)) ? await loadAudit(auditId) : null;
+    if (!audit) {
+      return apiError("not_found", "Report not found", { headers: auth.headers });
+    }
+
+    return NextResponse.json({ report: audit }, { headers: auth.headers });
+  } catch (error) {
+    console.error("[API v1] Failed to get report:", error);
+    return apiError("internal_error", "Failed to get report", { headers: auth.headers });
+  }
+}
@@ -0,0 +1,166 @@
+// Fixture sites for the booking funnel explorer (see
+// src/services/audit/funnel-explorer.ts). Each one is a tiny STR site with a
+// known funnel, served under /dev/funnel/fixtures/<site>/ so the explorer can
+// be run against it locally:
+//
+//   direct       - cookie banner, sticky Book Now, dates and guests on the
+//                  property page, fees shown before checkout
+//   hidden-fees  - nightly price up front, cleaning and service fees only at
+//                  checkout
+//   account-wall - Book Now leads to a sign-in form with no guest option
+//   cross-domain - Book Now hands off to "another domain" (the same fixture
+//                  on 127.0.0.1 when browsing on localhost, and vice versa)
+
+export interface FixtureContext {
+  // e.g. http://localhost:3000/dev/funnel/fixtures/direct
+  base: string;
+  // The same path on the other loopback host
+  otherBase: string;
+}
+
+export const FIXTURE_SITES = ["direct", "hidden-fees", "account-wall", "cross-domain"] as const;
+export type FixtureSite = (typeof FIXTURE_SITES)[number];
+
+function layout(title: string, body: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 0; padding: 16px 16px 96px; color: #111; }
+    header { font-weight: 600; margin-bottom: 24px; }
+    .hero { height: 420px; background: linear-gradient(#9cc, #cde); border-radius: 12px; margin-bottom: 24px; }
+    .sticky { position: fixed; left: 16px; right: 16px; bottom: 16px; }
+    .btn { display: block; padding: 14px; border-radius: 8px; background: #e11d48; color: #fff; text-align: center; text-decoration: none; border: 0; font-size: 16px; width: 100%; }
+    label { display: block; margin: 12px 0 4px; font-size: 14px; }
+    input, select { width: 100%; padding: 10px; font-size: 16px; box-sizing: border-box; }
+    .cookie { position: fixed; inset: auto 0 0 0; background: #222; color: #fff; padding: 16px; z-index: 10; }
+    .cookie button { margin-top: 8px; padding: 8px 16px; }
+    .fees { font-size: 14px; color: #555; }
+  </style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function home(ctx: FixtureContext, name: string, cta: string, extra = ""): string {
+  return layout(
+    name,
+    `<header>${name}</header>
+<div class="hero"></div>
+<h1>Lakeview Cabin</h1>
+<p>3 bedrooms, sleeps 6, a short walk from the water.</p>
+<p><a href="${ctx.base}/property/lakeview-cabin">View the cabin</a></p>
+<div class="sticky">${cta}</div>
+${extra}`
+  );
+}
+
+function propertyPage(ctx: FixtureContext, price: string, action: string): string {
+  return layout(
+    "Lakeview Cabin",
+    `<header>Lakeview Cabin</header>
+<div class="hero"></div>
+<p>3 bedrooms, sleeps 6.</p>
+<p><strong>$250 per night</strong></p>
+${price}
+<form action="${action}" method="get">
+  <label for="checkin">Check-in</label>
+  <input type="date" id="checkin" name="checkin" required>
+  <label for="checkout">Check-out</label>
+  <input type="date" id="checkout" name="checkout" required>
+  <label for="guests">Guests</label>
+  <select id="guests" name="guests">
+    <option value="1">1 guest</option>
+    <option value="2">2 guests</option>
+    <option value="3">3 guests</option>
+    <option value="4">4 guests</option>
+  </select>
+  <p><button class="btn" type="submit">Reserve now</button></p>
+</form>`
+  );
+}
+
+function checkoutPage(): string {
+  return layout(
+    "Checkout",
+    `<header>Complete your booking</header>
+<p>3 nights x $250: $750</p>
+<p class="fees">Cleaning fee: $120<br>Service fee: $45<br>Total price: $915</p>
+<form action="#" method="post" class="checkout">
+  <h2>Guest details</h2>
+  <label for="name">Full name</label>
+  <input id="name" name="name" autocomplete="name" required>
+  <label for="email">Email</label>
+  <input type="email" id="email" name="email" autocomplete="email" required>
+  <h2>Payment details</h2>
+  <label for="card-number">Card number</label>
+  <input id="card-number" name="card-number" autocomplete="cc-number" required>
+  <label for="card-expiry">Expiry</label>
+  <input id="card-expiry" name="card-expiry" autocomplete="cc-exp" required>
+  <p><button class="btn" type="submit">Confirm and pay</button></p>
+</form>`
+  );
+}
+
+const COOKIE_BANNER = `<div class="cookie" id="cookie-banner">
+  We use cookies to improve your stay.
+  <div><button type="button" onclick="document.getElementById('cookie-banner').remove()">Accept</button></div>
+</div>`;
+
+/**
+ * The HTML for `path` on a fixture site, or null for a page it doesn't have
+ */
+export function renderFixturePage(site: FixtureSite, path: string, ctx: FixtureContext): string | null {
+  const bookNow = (href: string) => `<a class="btn" href="${href}">Book Now</a>`;
+
+  switch (`${site}:${path}`) {
+    case "direct:":
+      return home(ctx, "Lakeview Direct", bookNow(`${ctx.base}/property/lakeview-cabin`), COOKIE_BANNER);
+    case "direct:property/lakeview-cabin":
+      return propertyPage(
+        ctx,
+        `<p class="fees">Plus a $120 cleaning fee and $45 service fee.</p>`,
+        `${ctx.base}/checkout`
+      );
+    case "direct:checkout":
+    case "hidden-fees:checkout":
+      return checkoutPage();
+
+    case "hidden-fees:":
+      return home(ctx, "Lakeview Hidden Fees", bookNow(`${ctx.base}/property/lakeview-cabin`));
+    case "hidden-fees:property/lakeview-cabin":
+      return propertyPage(ctx, "", `${ctx.base}/checkout`);
+
+    case "account-wall:":
+      return home(ctx, "Lakeview Members", bookNow(`${ctx.base}/book`));
+    case "account-wall:book":
+      return layout(
+        "Sign in",
+        `<header>Lakeview Members</header>
+<h1>Sign in to book</h1>
+<form action="#" method="post">
+  <label for="email">Email</label>
+  <input type="email" id="email" name="email" required>
+  <label for="password">Password</label>
+  <input type="password" id="password" name="password" required>
+  <p><button class="btn" type="submit">Sign in</button></p>
+</form>
+<p>New here? <a href="#">Create an account</a></p>`
+      );
+
+    case "cross-domain:":
+      return home(ctx, "Lakeview Partner", bookNow(`${ctx.otherBase}/property/lakeview-cabin`));
+    case "cross-domain:property/lakeview-cabin":
+      return propertyPage(ctx, `<p class="fees">Plus a $120 cleaning fee.</p>`, `${ctx.base}/checkout`);
+    case "cross-domain:checkout":
+      return checkoutPage();
+
+    default:
+      return null;
+  }
+}
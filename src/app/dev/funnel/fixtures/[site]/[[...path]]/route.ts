@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FIXTURE_SITES, renderFixturePage, type FixtureSite } from "../../../fixture-sites";
+
+// GET /dev/funnel/fixtures/[site]/[...path] - A page of a fixture site for
+// the booking funnel explorer. Development only.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ site: string; path?: string[] }> }
+) {
+  if (process.env.NODE_ENV !== "development") {
+    return NextResponse.json({ error: "Only available in development" }, { status: 403 });
+  }
+
+  const { site, path = [] } = await params;
+  if (!FIXTURE_SITES.includes(site as FixtureSite)) {
+    return NextResponse.json({ error: "Unknown fixture site" }, { status: 404 });
+  }
+
+  // localhost and 127.0.0.1 stand in for two domains
+  const url = request.nextUrl;
+  const otherHost =
+    url.hostname === "localhost" ? "127.0.0.1" : url.hostname === "127.0.0.1" ? "localhost" : url.hostname;
+  const prefix = `/dev/funnel/fixtures/${site}`;
+
+  const html = renderFixturePage(site as FixtureSite, path.join("/"), {
+    base: `${url.origin}${prefix}`,
+    otherBase: `${url.protocol}//${otherHost}${url.port ? `:${url.port}` : ""}${prefix}`,
+  });
+  if (html === null) {
+    return new NextResponse("Not found", { status: 404 });
+  }
+
+  return new NextResponse(html, {
+    headers: { "Content-Type": "text/html; charset=utf-8" },
+  });
+}
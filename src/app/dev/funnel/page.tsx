@@ -0,0 +1,130 @@
+"use client"
+
+import { useState } from "react"
+import type { AuditFunnel } from "@/types/audit"
+import { FIXTURE_SITES } from "./fixture-sites"
+
+type Walk = Omit<AuditFunnel, "steps"> & {
+  steps: Array<AuditFunnel["steps"][number] & { screenshot?: string }>
+}
+
+export default function FunnelDevPage() {
+  const [url, setUrl] = useState("")
+  const [walk, setWalk] = useState<Walk | null>(null)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const explore = async (target: string) => {
+    setUrl(target)
+    setRunning(true)
+    setError(null)
+    setWalk(null)
+    try {
+      const response = await fetch("/api/admin/funnel", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url: target, screenshots: true }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to explore funnel")
+      setWalk(data.funnel)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <main className="min-h-screen bg-white p-8">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-2 mb-2">
+            <span className="text-xs font-mono bg-amber-100 text-amber-700 px-2 py-0.5 rounded">
+              DEV
+            </span>
+            <h1 className="text-lg font-semibold text-gray-900">Funnel Explorer</h1>
+          </div>
+          <p className="text-gray-500 text-sm">
+            Walk a booking funnel in headless Chrome. The fixture sites have known funnels.
+          </p>
+        </div>
+
+        {/* Targets */}
+        <div className="mb-8 p-4 bg-gray-50 rounded-xl space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {FIXTURE_SITES.map((site) => (
+              <button
+                key={site}
+                disabled={running}
+                onClick={() => explore(`${window.location.origin}/dev/funnel/fixtures/${site}`)}
+                className="px-3 py-1.5 text-xs font-medium rounded-lg bg-white border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {site}
+              </button>
+            ))}
+          </div>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              explore(url)
+            }}
+          >
+            <input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example-rental.com"
+              className="flex-1 px-3 py-1.5 text-sm rounded-lg border border-gray-200"
+            />
+            <button
+              type="submit"
+              disabled={running || !url}
+              className="px-3 py-1.5 text-xs font-medium rounded-lg bg-purple-600 text-white disabled:opacity-50"
+            >
+              {running ? "Walking..." : "Explore"}
+            </button>
+          </form>
+        </div>
+
+        {error && <p className="mb-6 text-sm text-rose-600">{error}</p>}
+
+        {walk && (
+          <div className="space-y-4">
+            <div className="text-sm text-gray-700">
+              <span className="font-medium">{walk.outcome}</span> · {walk.clicks} clicks · {walk.steps.length} steps ·{" "}
+              {(walk.durationMs / 1000).toFixed(1)}s
+              {walk.crossDomain && <> · left for {walk.externalDomains.join(", ")}</>}
+              {walk.accountRequired && <> · sign-in required</>}
+              {walk.feesRevealedLate && <> · fees revealed late</>}
+              {walk.error && <span className="text-rose-600"> · {walk.error}</span>}
+            </div>
+            <ol className="flex gap-4 overflow-x-auto pb-2">
+              {walk.steps.map((step) => (
+                <li key={step.index} className="w-44 shrink-0 text-xs space-y-1">
+                  {step.screenshot && (
+                    // eslint-disable-next-line @next/next/no-img-element -- inline data URL, no optimization to do
+                    <img src={step.screenshot} alt={step.label} className="w-full rounded-md border border-gray-200" />
+                  )}
+                  <div className="font-medium text-gray-900">
+                    {step.index + 1}. {step.label}
+                  </div>
+                  <div className="text-gray-500 truncate">{step.url}</div>
+                  <div className="text-gray-500">
+                    {step.pageKind} · {step.durationMs}ms · {step.clicks} clicks
+                  </div>
+                  {step.notes.map((note) => (
+                    <div key={note} className="text-rose-600">
+                      {note}
+                    </div>
+                  ))}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -1,7 +1,7 @@
 "use client"
 
 import Link from "next/link"
-import { Activity, Gauge, Palette, FlaskConical, Loader } from "lucide-react"
+import { Activity, Gauge, Palette, FlaskConical, Loader, Route } from "lucide-react"
 
 const devTools = [
   {
@@ -16,6 +16,12 @@ const devTools = [
     name: "Scanner Preview",
     description: "Test and preview the multi-phase scanner animations",
   },
+  {
+    href: "/dev/funnel",
+    icon: <Route className="h-5 w-5" />,
+    name: "Funnel Explorer",
+    description: "Walk a booking funnel in headless Chrome against fixture sites",
+  },
   {
     href: "/admin",
     icon: <Gauge className="h-5 w-5" />,
@@ -3,10 +3,12 @@
 import { useState, useEffect, lazy, Suspense } from "react"
 import { ChevronLeft, ChevronRight } from "lucide-react"
 import { ThemePicker } from "@/components/theme-picker"
+import { AUDIT_SCHEMA_VERSION } from "@/lib/audit-schema"
 import type { AuditResult } from "@/types/audit"
 
 // Sample audit result for testing
 const SAMPLE_RESULT: AuditResult = {
+  schemaVersion: AUDIT_SCHEMA_VERSION,
   domain: "beachside-retreats.com",
   timestamp: new Date().toISOString(),
   overallScore: 64,
@@ -2,10 +2,12 @@
 
 import { useState } from "react"
 import { PublicReportView } from "@/components/report"
+import { AUDIT_SCHEMA_VERSION } from "@/lib/audit-schema"
 import type { AuditResult } from "@/types/audit"
 
 // Sample audit result for testing
 const SAMPLE_RESULT: AuditResult = {
+  schemaVersion: AUDIT_SCHEMA_VERSION,
   domain: "beachside-retreats.com",
   timestamp: new Date().toISOString(),
   overallScore: 62,
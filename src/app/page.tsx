@@ -1,18 +1,15 @@
 "use client";
 
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef } from "react";
 import { Header, HeroSection, FeaturesSection, PartnersSection, Footer } from "@/components/landing";
 import { MultiPhaseScanner, useScannerProgress, DEFAULT_PHASES } from "@/components/scanner";
 import { ReportDashboard } from "@/components/report-dashboard";
+import { AUDIT_SCHEMA_VERSION } from "@/lib/audit-schema";
 import type { AuditResult } from "@/types/audit";
 
-interface AuditProgress {
-  progress: number;
-  currentStep: string;
-}
-
 // Demo data for testing
 const DEMO_RESULT: AuditResult = {
+  schemaVersion: AUDIT_SCHEMA_VERSION,
   domain: "example-stays.com",
   timestamp: new Date().toISOString(),
   overallScore: 62,
@@ -51,70 +48,26 @@ export default function Home() {
   const [domain, setDomain] = useState("");
   const [error, setError] = useState("");
   const [result, setResult] = useState<AuditResult | null>(null);
-  const [pendingResult, setPendingResult] = useState<AuditResult | null>(null); // Holds result until animation completes
-  const [progress, setProgress] = useState<AuditProgress>({
-    progress: 0,
-    currentStep: "Starting audit...",
-  });
-  const pollingRef = useRef<NodeJS.Timeout | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+
+  const showResult = useCallback((auditResult: AuditResult) => {
+    jobIdRef.current = null;
+    setResult(auditResult);
+    setStatus("complete");
+  }, []);
 
-  // Scanner progress hook for the loading animation
-  // Runs at a steady, comfortable pace independent of actual API timing
-  // Equal time per phase: 10 seconds × 5 phases = 50 seconds
+  // Scanner progress hook for the loading animation, driven by the audit's
+  // event stream; the result is shown once the scanner finishes animating
   const scannerProgress = useScannerProgress({
     phases: DEFAULT_PHASES,
-    totalDuration: 50000,
-    autoStart: false,
-    onComplete: () => {
-      // Animation finished - show result if we have one
-      if (pendingResult) {
-        setResult(pendingResult);
-        setPendingResult(null);
-        setStatus("complete");
-      }
+    onComplete: showResult,
+    onError: (auditError) => {
+      console.error("Audit failed:", auditError);
+      // Show fallback result
+      showResult({ ...DEMO_RESULT, domain: domain.trim(), timestamp: new Date().toISOString() });
     },
   });
 
-  // When API completes but animation still running, wait for animation
-  useEffect(() => {
-    if (pendingResult && scannerProgress.progress.isComplete) {
-      setResult(pendingResult);
-      setPendingResult(null);
-      setStatus("complete");
-    }
-  }, [pendingResult, scannerProgress.progress.isComplete]);
-
-  const pollJobStatus = useCallback(async (jobId: string, auditDomain: string) => {
-    try {
-      const response = await fetch(`/api/audit/status/${jobId}`);
-      const data = await response.json();
-
-      if (data.status === "completed" && data.result) {
-        if (pollingRef.current) {
-          clearInterval(pollingRef.current);
-          pollingRef.current = null;
-        }
-        // Store result but wait for animation to complete
-        setPendingResult(data.result as AuditResult);
-      } else if (data.status === "failed") {
-        if (pollingRef.current) {
-          clearInterval(pollingRef.current);
-          pollingRef.current = null;
-        }
-        console.error("Audit failed:", data.error);
-        // Store fallback result but wait for animation
-        setPendingResult({ ...DEMO_RESULT, domain: auditDomain, timestamp: new Date().toISOString() });
-      } else {
-        setProgress({
-          progress: data.progress || 0,
-          currentStep: data.currentStep || "Processing...",
-        });
-      }
-    } catch (err) {
-      console.error("Polling error:", err);
-    }
-  }, []);
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -125,8 +78,6 @@ export default function Home() {
 
     setError("");
     setStatus("loading");
-    setProgress({ progress: 0, currentStep: "Starting audit..." });
-    scannerProgress.start();
 
     try {
       const response = await fetch("/api/audit/start", {
@@ -141,30 +92,26 @@ export default function Home() {
 
       const { jobId } = await response.json();
 
-      pollingRef.current = setInterval(() => {
-        pollJobStatus(jobId, domain.trim());
-      }, 1000);
-
-      pollJobStatus(jobId, domain.trim());
+      jobIdRef.current = jobId;
+      scannerProgress.start(jobId);
     } catch (err) {
       console.error("Audit failed:", err);
-      // Store fallback result but wait for animation
-      setPendingResult({ ...DEMO_RESULT, domain: domain.trim(), timestamp: new Date().toISOString() });
+      // Show fallback result
+      showResult({ ...DEMO_RESULT, domain: domain.trim(), timestamp: new Date().toISOString() });
     }
   };
 
   const handleReset = () => {
-    if (pollingRef.current) {
-      clearInterval(pollingRef.current);
-      pollingRef.current = null;
+    // Stop the server-side audit too when leaving mid-scan
+    if (jobIdRef.current) {
+      fetch(`/api/audit/cancel/${jobIdRef.current}`, { method: "POST" }).catch(() => {});
+      jobIdRef.current = null;
     }
     scannerProgress.reset();
     setStatus("idle");
     setResult(null);
-    setPendingResult(null);
     setDomain("");
     setError("");
-    setProgress({ progress: 0, currentStep: "Starting audit..." });
   };
 
   // Idle state - Landing page
@@ -194,6 +141,8 @@ export default function Home() {
           currentPhase={scannerProgress.progress.currentPhase}
           phaseProgress={scannerProgress.progress.phaseProgress}
           overallProgress={scannerProgress.progress.overallProgress}
+          statusMessage={scannerProgress.progress.statusMessage}
+          finalScore={scannerProgress.partial.overallScore}
           domain={domain}
         />
 
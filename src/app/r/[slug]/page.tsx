@@ -1,7 +1,11 @@
 import { notFound, redirect } from "next/navigation";
+import { headers } from "next/headers";
 import { getLinkBySlug, isLinkExpired } from "@/lib/link-storage";
+import { authorizeReportAccess } from "@/lib/report-access";
 import { loadAudit } from "@/lib/audit-storage";
+import { getReportBranding, isReportHostAllowed } from "@/lib/workspace-storage";
 import { ExpiredReport } from "@/components/report/expired-report";
+import { ReportAccessGate } from "@/components/report/report-access-gate";
 
 interface PageProps {
   params: Promise<{ slug: string }>;
@@ -22,6 +26,13 @@ export default async function SlugReportPage({
     notFound();
   }
 
+  // Short links on a workspace's custom domain only resolve that workspace's reports
+  const requestHeaders = await headers();
+  const host = requestHeaders.get("x-forwarded-host") ?? requestHeaders.get("host");
+  if (!(await isReportHostAllowed(link, host))) {
+    notFound();
+  }
+
   // Check expiration
   if (isLinkExpired(link)) {
     const audit = await loadAudit(link.auditId);
@@ -33,6 +44,21 @@ export default async function SlugReportPage({
     );
   }
 
+  // Check access before the redirect reveals the audit ID. The token stays
+  // in the query string, so the report page checks it again.
+  const token = typeof queryParams.token === "string" ? queryParams.token : null;
+  const access = await authorizeReportAccess(link.auditId, { route: "slug", token, link });
+  if (!access.granted) {
+    return (
+      <ReportAccessGate
+        auditId={link.auditId}
+        reason={access.reason ?? "token_required"}
+        tokenError={access.tokenError}
+        branding={await getReportBranding(link)}
+      />
+    );
+  }
+
   // Build redirect URL with query params
   const url = new URL(`/report/${link.auditId}`, "http://localhost");
 
@@ -73,8 +99,14 @@ export async function generateMetadata({ params }: PageProps) {
     return { title: "Report Not Found" };
   }
 
+  const { brandName } = await getReportBranding(link);
+
+  if (link.visibility !== "public") {
+    return { title: `Website Audit Report | ${brandName}` };
+  }
+
   return {
-    title: `${audit.domain} - Website Audit Report | GetHost.AI`,
+    title: `${audit.domain} - Website Audit Report | ${brandName}`,
     description: `Website audit report for ${audit.domain}`,
   };
 }
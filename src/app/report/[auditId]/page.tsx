@@ -1,33 +1,48 @@
 import { notFound } from "next/navigation";
+import { cookies, headers } from "next/headers";
 import { loadAudit } from "@/lib/audit-storage";
-import { getLinkByAuditId, isLinkExpired } from "@/lib/link-storage";
+import { getAuditChanges } from "@/lib/audit-history";
+import { getDefaultVisibility, getLinkByAuditId, isLinkExpired } from "@/lib/link-storage";
+import { authorizeReportAccess } from "@/lib/report-access";
+import { resolveReportVariant } from "@/lib/experiment-storage";
+import { generateVisitorId } from "@/lib/analytics";
+import { getReportBranding, isReportHostAllowed } from "@/lib/workspace-storage";
 import { PublicReportView } from "@/components/report";
 import { ReportVariantB } from "@/components/report/variants/report-variant-b";
 import { ReportVariantC } from "@/components/report/variants/report-variant-c";
 import { ExpiredReport } from "@/components/report/expired-report";
+import { ReportAccessGate } from "@/components/report/report-access-gate";
 import { GATracker } from "@/components/report/ga-tracker";
 import { AnalyticsTracker } from "@/components/report/analytics-tracker";
 import { EmailCaptureOverlay } from "@/components/report/email-capture";
-import type { AuditResult } from "@/types/audit";
 
 interface PageProps {
   params: Promise<{ auditId: string }>;
-  searchParams: Promise<{ v?: string }>;
+  searchParams: Promise<{ v?: string; token?: string }>;
 }
 
 // This page loads a saved audit from JSON - completely static, no regeneration
 export default async function ReportPage({ params, searchParams }: PageProps) {
   const { auditId } = await params;
-  const { v: variant } = await searchParams;
+  const { v: requestedVariant, token } = await searchParams;
 
   const audit = await loadAudit(auditId);
 
-  if (!audit) {
+  if (!audit?.result) {
     notFound();
   }
 
-  // Check if the report link has expired
   const linkSettings = await getLinkByAuditId(auditId);
+
+  // A workspace's custom domain only serves that workspace's reports
+  const requestHeaders = await headers();
+  const host = requestHeaders.get("x-forwarded-host") ?? requestHeaders.get("host");
+  if (!(await isReportHostAllowed(linkSettings, host))) {
+    notFound();
+  }
+  const branding = await getReportBranding(linkSettings);
+
+  // Check if the report link has expired
   if (linkSettings && isLinkExpired(linkSettings)) {
     return (
       <ExpiredReport
@@ -37,26 +52,66 @@ export default async function ReportPage({ params, searchParams }: PageProps) {
     );
   }
 
-  const result = audit.result as AuditResult;
+  // Private links need a valid access token (or a captured lead)
+  const access = await authorizeReportAccess(auditId, {
+    route: "report",
+    token,
+    link: linkSettings,
+  });
+  if (!access.granted) {
+    return (
+      <ReportAccessGate
+        auditId={auditId}
+        reason={access.reason ?? "token_required"}
+        tokenError={access.tokenError}
+        branding={branding}
+      />
+    );
+  }
+
+  const result = audit.result;
+
+  // "Since your last audit" section, if the link opts in to it
+  const changes = linkSettings?.showChanges
+    ? (await getAuditChanges(auditId))?.changes ?? null
+    : null;
+
+  // ?v= previews a variant, otherwise a running experiment picks one. New
+  // visitors get their ID here so the assignment sticks; the tracker stores it.
+  const visitorId = (await cookies()).get("ghai_vid")?.value ?? generateVisitorId();
+  const { variant, experimentId } = await resolveReportVariant(requestedVariant, visitorId);
+  const tracker = (
+    <AnalyticsTracker
+      auditId={auditId}
+      visitorId={visitorId}
+      variant={variant}
+      experimentId={experimentId}
+    />
+  );
+  // Workspace web font; React hoists the stylesheet into <head>
+  const fontStylesheet = branding.fontUrl ? (
+    <link rel="stylesheet" href={branding.fontUrl} precedence="default" />
+  ) : null;
 
-  // Select variant based on query param
   switch (variant) {
     case "b":
       return (
         <>
           <GATracker auditId={auditId} />
-          <AnalyticsTracker auditId={auditId} />
-          <EmailCaptureOverlay auditId={auditId} triggerPercent={80} />
-          <ReportVariantB result={result} auditId={auditId} />
+          {tracker}
+          {fontStylesheet}
+          <EmailCaptureOverlay auditId={auditId} triggerPercent={80} branding={branding} />
+          <ReportVariantB result={result} auditId={auditId} branding={branding} />
         </>
       );
     case "c":
       return (
         <>
           <GATracker auditId={auditId} />
-          <AnalyticsTracker auditId={auditId} />
-          <EmailCaptureOverlay auditId={auditId} triggerPercent={80} />
-          <ReportVariantC result={result} auditId={auditId} />
+          {tracker}
+          {fontStylesheet}
+          <EmailCaptureOverlay auditId={auditId} triggerPercent={80} branding={branding} />
+          <ReportVariantC result={result} auditId={auditId} branding={branding} />
         </>
       );
     case "a":
@@ -64,9 +119,16 @@ export default async function ReportPage({ params, searchParams }: PageProps) {
       return (
         <>
           <GATracker auditId={auditId} />
-          <AnalyticsTracker auditId={auditId} />
-          <EmailCaptureOverlay auditId={auditId} triggerPercent={80} />
-          <PublicReportView result={result} auditId={auditId} />
+          {tracker}
+          {fontStylesheet}
+          <EmailCaptureOverlay auditId={auditId} triggerPercent={80} branding={branding} />
+          <PublicReportView
+            result={result}
+            auditId={auditId}
+            changes={changes}
+            branding={branding}
+            accessToken={access.via === "token" ? token : null}
+          />
         </>
       );
   }
@@ -77,14 +139,22 @@ export async function generateMetadata({ params }: PageProps) {
   const { auditId } = await params;
   const audit = await loadAudit(auditId);
 
-  if (!audit) {
+  if (!audit?.result) {
     return { title: "Report Not Found" };
   }
 
-  const result = audit.result as AuditResult;
+  const link = await getLinkByAuditId(auditId);
+  const { brandName } = await getReportBranding(link);
+
+  // Don't leak a private report's score or summary into link previews
+  if ((link?.visibility ?? getDefaultVisibility()) !== "public") {
+    return { title: `Website Audit Report | ${brandName}` };
+  }
+
+  const result = audit.result;
 
   return {
-    title: `${audit.domain} - Website Audit Report | GetHost.AI`,
+    title: `${audit.domain} - Website Audit Report | ${brandName}`,
     description: `${result.summary} Overall score: ${result.overallScore}/100`,
     openGraph: {
       title: `${audit.domain} Website Audit`,
@@ -20,6 +20,7 @@ import {
   Eye,
   Link2,
   LinkIcon,
+  History,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -531,6 +532,16 @@ export function AuditTable({ onRerunAudit }: AuditTableProps) {
                                 }`}
                               />
                             </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                (window.location.href = `/admin/domains/${encodeURIComponent(audit.domain)}`)
+                              }
+                              title="Score history"
+                            >
+                              <History className="size-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -10,6 +10,8 @@ import {
   Loader2,
   Play,
   FileText,
+  RotateCcw,
+  History,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -23,24 +25,55 @@ interface BulkImportModalProps {
   onBatchStarted?: (batchId: string) => void;
 }
 
+type BatchState = "pending" | "processing" | "completed" | "failed" | "cancelled";
+
 interface BatchStatus {
   batchId: string;
-  status: "pending" | "processing" | "completed" | "failed" | "cancelled";
+  status: BatchState;
   progress: {
     total: number;
     completed: number;
     failed: number;
+    running: number;
     pending: number;
     percentComplete: number;
   };
-  audits: Array<{
-    auditId: string;
+  // No worker is on the batch but it still has unfinished domains
+  resumable: boolean;
+  items: Array<{
+    id: string;
     domain: string;
     position: number;
-    status: string;
+    status: "pending" | "running" | "completed" | "failed";
+    attempts: number;
+    lastError: string | null;
   }>;
 }
 
+interface RecentBatch {
+  id: string;
+  name: string | null;
+  status: BatchState;
+  totalDomains: number;
+  completedCount: number;
+  failedCount: number;
+  createdAt: string;
+}
+
+async function fetchBatchStatus(batchId: string): Promise<BatchStatus | null> {
+  const res = await fetch(`/api/batches/${batchId}`);
+  if (!res.ok) return null;
+
+  const data = await res.json();
+  return {
+    batchId: data.batch.id,
+    status: data.batch.status,
+    progress: data.progress,
+    resumable: data.resumable,
+    items: data.items || [],
+  };
+}
+
 export function BulkImportModal({
   isOpen,
   onClose,
@@ -48,10 +81,13 @@ export function BulkImportModal({
 }: BulkImportModalProps) {
   const [rawInput, setRawInput] = useState("");
   const [batchName, setBatchName] = useState("");
+  const [scoringProfile, setScoringProfile] = useState("");
+  const [scoringProfiles, setScoringProfiles] = useState<string[]>([]);
   const [step, setStep] = useState<"input" | "preview" | "processing">("input");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [activeBatch, setActiveBatch] = useState<BatchStatus | null>(null);
+  const [recentBatches, setRecentBatches] = useState<RecentBatch[]>([]);
   const [validDomains, setValidDomains] = useState<string[]>([]);
   const [invalidDomains, setInvalidDomains] = useState<
     { input: string; reason: string }[]
@@ -70,6 +106,7 @@ export function BulkImportModal({
     if (!isOpen) {
       setRawInput("");
       setBatchName("");
+      setScoringProfile("");
       setStep("input");
       setError(null);
       setActiveBatch(null);
@@ -78,38 +115,49 @@ export function BulkImportModal({
     }
   }, [isOpen]);
 
-  // Poll for batch status when processing
+  // Load scoring profiles when the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch("/api/admin/scoring-profiles")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setScoringProfiles(data.profiles.map((p: { name: string }) => p.name));
+      })
+      .catch((err) => console.error("Failed to load scoring profiles:", err));
+  }, [isOpen]);
+
+  // Load recent batches so unfinished ones can be reopened
+  useEffect(() => {
+    if (!isOpen || step !== "input") return;
+
+    fetch("/api/batches?limit=10")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setRecentBatches(data.batches);
+      })
+      .catch((err) => console.error("Failed to load recent batches:", err));
+  }, [isOpen, step]);
+
+  // Poll for batch status while processing; stops once the batch finishes
+  // or is cancelled, and restarts when it is resumed or retried
+  const isPolling = step === "processing" && activeBatch?.status === "processing";
   useEffect(() => {
-    if (step !== "processing" || !activeBatch) return;
+    if (!isPolling || !activeBatch) return;
 
     const interval = setInterval(async () => {
       try {
-        const res = await fetch(`/api/batches/${activeBatch.batchId}`);
-        if (!res.ok) return;
-
-        const data = await res.json();
-        setActiveBatch({
-          batchId: data.batch.id,
-          status: data.batch.status,
-          progress: data.progress,
-          audits: data.audits || [],
-        });
-
-        // Stop polling when completed or failed
-        if (
-          data.batch.status === "completed" ||
-          data.batch.status === "failed" ||
-          data.batch.status === "cancelled"
-        ) {
-          clearInterval(interval);
-        }
+        const status = await fetchBatchStatus(activeBatch.batchId);
+        if (status) setActiveBatch(status);
       } catch (err) {
         console.error("Failed to poll batch status:", err);
       }
     }, 2000);
 
     return () => clearInterval(interval);
-  }, [step, activeBatch?.batchId]);
+  }, [isPolling, activeBatch?.batchId]);
 
   const handlePreview = () => {
     setValidDomains(parsedResult.valid);
@@ -132,6 +180,7 @@ export function BulkImportModal({
           domains: validDomains,
           name: batchName || undefined,
           source: "paste",
+          scoringProfile: scoringProfile || undefined,
         }),
       });
 
@@ -142,11 +191,9 @@ export function BulkImportModal({
 
       const { batchId, domains } = await createRes.json();
 
-      // Start processing
+      // Start processing (the batch already holds its domains)
       const startRes = await fetch(`/api/batches/${batchId}/start`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ domains }),
       });
 
       if (!startRes.ok) {
@@ -162,10 +209,19 @@ export function BulkImportModal({
           total: domains.length,
           completed: 0,
           failed: 0,
+          running: 0,
           pending: domains.length,
           percentComplete: 0,
         },
-        audits: [],
+        resumable: false,
+        items: domains.map((domain: string, position: number) => ({
+          id: `${batchId}_${position}`,
+          domain,
+          position,
+          status: "pending",
+          attempts: 0,
+          lastError: null,
+        })),
       });
 
       setStep("processing");
@@ -177,6 +233,44 @@ export function BulkImportModal({
     }
   };
 
+  const handleOpenBatch = async (batchId: string) => {
+    setError(null);
+    try {
+      const status = await fetchBatchStatus(batchId);
+      if (!status) throw new Error("Failed to load batch");
+      setActiveBatch(status);
+      setStep("processing");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load batch");
+    }
+  };
+
+  // Resume an interrupted batch or retry its failed domains
+  const handleBatchAction = async (action: "resume" | "retry") => {
+    if (!activeBatch) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/batches/${activeBatch.batchId}/${action}`, {
+        method: "POST",
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || `Failed to ${action} batch`);
+      }
+
+      const status = await fetchBatchStatus(activeBatch.batchId);
+      if (status) setActiveBatch(status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} batch`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const handleClose = () => {
     // Warn if processing
     if (step === "processing" && activeBatch?.status === "processing") {
@@ -222,8 +316,13 @@ export function BulkImportModal({
               onRawInputChange={setRawInput}
               batchName={batchName}
               onBatchNameChange={setBatchName}
+              scoringProfile={scoringProfile}
+              scoringProfiles={scoringProfiles}
+              onScoringProfileChange={setScoringProfile}
               validCount={parsedResult.valid.length}
               invalidCount={parsedResult.invalid.length}
+              recentBatches={recentBatches}
+              onOpenBatch={handleOpenBatch}
             />
           )}
 
@@ -232,6 +331,7 @@ export function BulkImportModal({
               validDomains={validDomains}
               invalidDomains={invalidDomains}
               batchName={batchName}
+              scoringProfile={scoringProfile}
             />
           )}
 
@@ -288,6 +388,31 @@ export function BulkImportModal({
               </>
             )}
 
+            {step === "processing" && activeBatch?.resumable && (
+              <Button
+                variant="outline"
+                onClick={() => handleBatchAction("resume")}
+                disabled={isSubmitting}
+              >
+                <Play className="size-4" />
+                Resume
+              </Button>
+            )}
+
+            {step === "processing" &&
+              activeBatch &&
+              activeBatch.status !== "processing" &&
+              activeBatch.progress.failed > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleBatchAction("retry")}
+                  disabled={isSubmitting}
+                >
+                  <RotateCcw className="size-4" />
+                  Retry Failed ({activeBatch.progress.failed})
+                </Button>
+              )}
+
             {step === "processing" && (
               <Button onClick={handleClose}>
                 {activeBatch?.status === "processing" ? "Run in Background" : "Close"}
@@ -306,16 +431,34 @@ function InputStep({
   onRawInputChange,
   batchName,
   onBatchNameChange,
+  scoringProfile,
+  scoringProfiles,
+  onScoringProfileChange,
   validCount,
   invalidCount,
+  recentBatches,
+  onOpenBatch,
 }: {
   rawInput: string;
   onRawInputChange: (value: string) => void;
   batchName: string;
   onBatchNameChange: (value: string) => void;
+  scoringProfile: string;
+  scoringProfiles: string[];
+  onScoringProfileChange: (value: string) => void;
   validCount: number;
   invalidCount: number;
+  recentBatches: RecentBatch[];
+  onOpenBatch: (batchId: string) => void;
 }) {
+  // Batches that were interrupted, cancelled or have failures to retry
+  const unfinished = recentBatches.filter(
+    (b) =>
+      b.status === "processing" ||
+      b.status === "cancelled" ||
+      (b.status !== "pending" && b.failedCount > 0)
+  );
+
   return (
     <div className="space-y-4">
       <div>
@@ -329,6 +472,26 @@ function InputStep({
         />
       </div>
 
+      {scoringProfiles.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium mb-2">
+            Scoring Profile
+          </label>
+          <select
+            value={scoringProfile}
+            onChange={(e) => onScoringProfileChange(e.target.value)}
+            className="w-full h-10 px-3 rounded-md border border-border bg-background text-sm"
+          >
+            <option value="">Default</option>
+            {scoringProfiles.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <div>
         <label className="block text-sm font-medium mb-2">
           Domains
@@ -370,6 +533,37 @@ function InputStep({
           <li>Duplicates will be removed automatically</li>
         </ul>
       </div>
+
+      {unfinished.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium mb-2 flex items-center gap-2">
+            <History className="size-4" />
+            Recent Imports
+          </h4>
+          <div className="border border-border rounded-lg divide-y divide-border">
+            {unfinished.map((b) => (
+              <div key={b.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                <span className="font-medium truncate">{b.name || b.id}</span>
+                <Badge variant={b.status === "processing" ? "secondary" : "outline"}>
+                  {b.status}
+                </Badge>
+                <span className="text-muted-foreground">
+                  {b.completedCount + b.failedCount} / {b.totalDomains}
+                  {b.failedCount > 0 && `, ${b.failedCount} failed`}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto"
+                  onClick={() => onOpenBatch(b.id)}
+                >
+                  Open
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -379,10 +573,12 @@ function PreviewStep({
   validDomains,
   invalidDomains,
   batchName,
+  scoringProfile,
 }: {
   validDomains: string[];
   invalidDomains: { input: string; reason: string }[];
   batchName: string;
+  scoringProfile: string;
 }) {
   return (
     <div className="space-y-6">
@@ -394,6 +590,12 @@ function PreviewStep({
             <span className="font-medium">{batchName}</span>
           </div>
         )}
+        {scoringProfile && (
+          <div>
+            <span className="text-sm text-muted-foreground">Profile:</span>{" "}
+            <span className="font-medium">{scoringProfile}</span>
+          </div>
+        )}
         <div className="ml-auto flex items-center gap-4">
           <Badge variant="success" className="text-sm">
             {validDomains.length} valid
@@ -487,7 +689,7 @@ function PreviewStep({
 
 // Processing step component
 function ProcessingStep({ batch }: { batch: BatchStatus }) {
-  const { progress, audits, status } = batch;
+  const { progress, items, status } = batch;
   const isComplete = status === "completed" || status === "failed";
 
   return (
@@ -502,6 +704,10 @@ function ProcessingStep({ batch }: { batch: BatchStatus }) {
               ) : (
                 "Import Failed"
               )
+            ) : status === "cancelled" ? (
+              "Import Cancelled"
+            ) : batch.resumable ? (
+              "Import Interrupted"
             ) : (
               "Processing..."
             )}
@@ -534,16 +740,21 @@ function ProcessingStep({ batch }: { batch: BatchStatus }) {
               {progress.failed} failed
             </span>
           )}
-          {progress.pending > 0 && (
+          {progress.running > 0 && (
             <span className="flex items-center gap-1 text-muted-foreground">
               <Loader2 className="size-4 animate-spin" />
+              {progress.running} running
+            </span>
+          )}
+          {progress.pending > 0 && (
+            <span className="text-muted-foreground">
               {progress.pending} pending
             </span>
           )}
         </div>
       </div>
 
-      {/* Audit list */}
+      {/* Item list */}
       <div className="border border-border rounded-lg overflow-hidden max-h-80 overflow-y-auto">
         <table className="w-full text-sm">
           <thead className="bg-muted/50 sticky top-0">
@@ -551,39 +762,53 @@ function ProcessingStep({ batch }: { batch: BatchStatus }) {
               <th className="text-left px-4 py-2 font-medium">#</th>
               <th className="text-left px-4 py-2 font-medium">Domain</th>
               <th className="text-left px-4 py-2 font-medium">Status</th>
+              <th className="text-left px-4 py-2 font-medium">Attempts</th>
             </tr>
           </thead>
           <tbody>
-            {audits.map((audit, index) => (
+            {items.map((item, index) => (
               <tr
-                key={audit.auditId || index}
+                key={item.id}
                 className={cn(
                   "border-t border-border",
                   index % 2 === 0 ? "bg-background" : "bg-muted/20"
                 )}
               >
                 <td className="px-4 py-2 text-muted-foreground">
-                  {audit.position + 1}
+                  {item.position + 1}
                 </td>
-                <td className="px-4 py-2 font-mono">{audit.domain}</td>
+                <td className="px-4 py-2 font-mono">{item.domain}</td>
                 <td className="px-4 py-2">
-                  {audit.status === "completed" ? (
+                  {item.status === "completed" ? (
                     <span className="flex items-center gap-1 text-green-600">
                       <CheckCircle2 className="size-4" />
                       Done
                     </span>
-                  ) : audit.status === "failed" ? (
-                    <span className="flex items-center gap-1 text-destructive">
+                  ) : item.status === "failed" ? (
+                    <span
+                      className="flex items-center gap-1 text-destructive"
+                      title={item.lastError ?? undefined}
+                    >
                       <XCircle className="size-4" />
                       Failed
                     </span>
-                  ) : (
+                  ) : item.status === "running" ? (
                     <span className="flex items-center gap-1 text-muted-foreground">
                       <Loader2 className="size-4 animate-spin" />
                       Processing
                     </span>
+                  ) : (
+                    <span
+                      className="text-muted-foreground"
+                      title={item.lastError ?? undefined}
+                    >
+                      {item.attempts > 0 ? "Retrying" : "Queued"}
+                    </span>
                   )}
                 </td>
+                <td className="px-4 py-2 text-muted-foreground">
+                  {item.attempts}
+                </td>
               </tr>
             ))}
           </tbody>
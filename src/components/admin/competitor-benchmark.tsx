@@ -0,0 +1,257 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Plus, Trash2, Trophy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { benchmarkRows } from "@/lib/competitor-summary";
+import type { AuditCompetitor } from "@/lib/competitor-storage";
+import type { AuditResult, Competitor } from "@/types/audit";
+
+interface BatchOption {
+  id: string;
+  name: string | null;
+  totalDomains: number;
+}
+
+// Competitor audits take a few minutes; poll while any are pending
+const POLL_MS = 5000;
+
+const STATUS_VARIANT: Record<AuditCompetitor["status"], "secondary" | "success" | "error"> = {
+  pending: "secondary",
+  completed: "success",
+  failed: "error",
+};
+
+function scoreClass(score: number | undefined) {
+  if (score === undefined) return "text-muted-foreground";
+  if (score >= 80) return "text-success";
+  if (score >= 60) return "text-warning";
+  return "text-error";
+}
+
+function formatMs(ms: number | null | undefined) {
+  if (ms == null) return "—";
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+}
+
+/**
+ * Attach competitor domains to an audit (typed in, or from an import batch),
+ * follow their audits, and compare them side by side with the audited site.
+ */
+export function CompetitorBenchmark({ auditId, result }: { auditId: string; result: AuditResult }) {
+  const [competitors, setCompetitors] = useState<AuditCompetitor[]>([]);
+  const [benchmark, setBenchmark] = useState<Competitor[]>(result.competitors ?? []);
+  const [batches, setBatches] = useState<BatchOption[]>([]);
+  const [domains, setDomains] = useState("");
+  const [batchId, setBatchId] = useState("");
+  const [isAdding, setIsAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCompetitors = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/audit/${auditId}/competitors`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setCompetitors(data.competitors);
+      setBenchmark(data.benchmark);
+    } catch (err) {
+      console.error("Failed to fetch competitors:", err);
+    }
+  }, [auditId]);
+
+  useEffect(() => {
+    fetchCompetitors();
+    fetch("/api/batches?limit=50")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setBatches(data.batches))
+      .catch(() => {});
+  }, [fetchCompetitors]);
+
+  const hasPending = competitors.some((c) => c.status === "pending");
+  useEffect(() => {
+    if (!hasPending) return;
+    const timer = setInterval(fetchCompetitors, POLL_MS);
+    return () => clearInterval(timer);
+  }, [hasPending, fetchCompetitors]);
+
+  const addCompetitors = async () => {
+    setIsAdding(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/audit/${auditId}/competitors`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          domains: domains.trim() || undefined,
+          batchId: batchId || undefined,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to add competitors");
+        return;
+      }
+      setDomains("");
+      setBatchId("");
+      setCompetitors(data.competitors);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add competitors");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const removeCompetitor = async (domain: string) => {
+    try {
+      const res = await fetch(
+        `/api/audit/${auditId}/competitors?domain=${encodeURIComponent(domain)}`,
+        { method: "DELETE" }
+      );
+      if (!res.ok) throw new Error("Failed to remove competitor");
+      await fetchCompetitors();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to remove competitor");
+    }
+  };
+
+  const rows = benchmarkRows({ ...result, competitors: benchmark });
+  const categoryNames = result.categories.map((c) => c.name);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="flex-1 min-w-[16rem]">
+          <label className="block text-xs text-muted-foreground mb-1">Competitor domains</label>
+          <Input
+            placeholder="rival.com, other-rentals.com"
+            value={domains}
+            onChange={(e) => setDomains(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-muted-foreground mb-1">or from a batch</label>
+          <select
+            value={batchId}
+            onChange={(e) => setBatchId(e.target.value)}
+            className="h-10 px-3 rounded-md border border-border bg-background text-sm max-w-[14rem]"
+          >
+            <option value="">—</option>
+            {batches.map((batch) => (
+              <option key={batch.id} value={batch.id}>
+                {batch.name || batch.id} ({batch.totalDomains})
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button onClick={addCompetitors} disabled={isAdding || (!domains.trim() && !batchId)}>
+          {isAdding ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+          Audit Competitors
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-error">{error}</p>}
+
+      {competitors.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {competitors.map((c) => (
+            <div
+              key={c.id}
+              className="flex items-center gap-1.5 pl-2 pr-1 py-1 rounded-md border border-border/50 bg-background/50 text-xs"
+              title={c.error || undefined}
+            >
+              <span className="font-mono">{c.domain}</span>
+              <Badge variant={STATUS_VARIANT[c.status]} className="text-[10px]">
+                {c.status === "pending" && <Loader2 className="size-3 animate-spin mr-1" />}
+                {c.status}
+              </Badge>
+              <button
+                onClick={() => removeCompetitor(c.domain)}
+                className="p-0.5 text-muted-foreground hover:text-error"
+              >
+                <Trash2 className="size-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {hasPending
+            ? "Competitor audits are running; the comparison appears as they finish."
+            : "No competitors benchmarked yet."}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-muted-foreground">
+                <th className="py-2 pr-3 font-medium">Site</th>
+                <th className="py-2 px-2 font-medium text-right">Score</th>
+                {categoryNames.map((name) => (
+                  <th key={name} className="py-2 px-2 font-medium text-right whitespace-nowrap">
+                    {name}
+                  </th>
+                ))}
+                <th className="py-2 px-2 font-medium">Booking Engine</th>
+                <th className="py-2 px-2 font-medium text-right">Reviews</th>
+                <th className="py-2 px-2 font-medium text-right">LCP</th>
+                <th className="py-2 px-2 font-medium text-right">CLS</th>
+                <th className="py-2 px-2 font-medium text-right">INP</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr
+                  key={row.domain ?? row.name}
+                  className={cn("border-t border-border/30", row.isSubject && "bg-primary/5")}
+                >
+                  <td className="py-2 pr-3 whitespace-nowrap">
+                    <span className="text-muted-foreground mr-2">#{row.rank}</span>
+                    {row.isSubject || !row.auditId ? (
+                      <span className="font-mono">{row.domain}</span>
+                    ) : (
+                      <button
+                        onClick={() => (window.location.href = `/admin/${row.auditId}`)}
+                        className="font-mono hover:underline"
+                      >
+                        {row.domain}
+                      </button>
+                    )}
+                    {row.isSubject && <Trophy className="inline size-3 ml-1.5 text-warning" />}
+                  </td>
+                  <td className={cn("py-2 px-2 text-right font-mono font-semibold", scoreClass(row.overallScore))}>
+                    {row.overallScore ?? "—"}
+                  </td>
+                  {categoryNames.map((name) => {
+                    const score = row.categories?.find((c) => c.name === name)?.score;
+                    return (
+                      <td key={name} className={cn("py-2 px-2 text-right font-mono", scoreClass(score))}>
+                        {score ?? "—"}
+                      </td>
+                    );
+                  })}
+                  <td className="py-2 px-2 whitespace-nowrap">{row.bookingEngine ?? "None"}</td>
+                  <td className="py-2 px-2 text-right font-mono whitespace-nowrap">
+                    {row.reviewCount ?? "—"}
+                    {row.rating > 0 && (
+                      <span className="text-muted-foreground"> ★{row.rating.toFixed(1)}</span>
+                    )}
+                  </td>
+                  <td className="py-2 px-2 text-right font-mono">{formatMs(row.coreWebVitals?.lcpMs)}</td>
+                  <td className="py-2 px-2 text-right font-mono">
+                    {row.coreWebVitals?.cls != null ? row.coreWebVitals.cls.toFixed(2) : "—"}
+                  </td>
+                  <td className="py-2 px-2 text-right font-mono">{formatMs(row.coreWebVitals?.inpMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
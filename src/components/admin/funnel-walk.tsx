@@ -0,0 +1,118 @@
+"use client";
+
+import Image from "next/image";
+import { AlertTriangle, ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { AuditFunnel, AuditResult } from "@/types/audit";
+
+const OUTCOME_LABELS: Record<AuditFunnel["outcome"], string> = {
+  checkout: "Reached checkout",
+  account_wall: "Stopped at a sign-in wall",
+  captcha: "Stopped at a CAPTCHA",
+  dead_end: "Ran out of booking buttons to follow",
+  step_limit: "Hit the step or time limit",
+  error: "Failed",
+};
+
+function screenshotUrl(auditId: string, screenshotId: string) {
+  return `/api/audit/${encodeURIComponent(auditId)}/screenshots/${encodeURIComponent(screenshotId)}`;
+}
+
+function formatDuration(ms: number) {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/**
+ * The funnel explorer's walk from the homepage towards checkout: each step
+ * with where it landed, how long it took, the clicks counted so far, a
+ * screenshot and the friction noted on the way.
+ */
+export function FunnelWalk({ auditId, result }: { auditId: string; result: AuditResult }) {
+  const funnel = result.funnel;
+
+  if (!funnel) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        The booking funnel wasn&apos;t walked for this audit. It ran with FUNNEL_EXPLORER off, or it
+        predates the funnel explorer.
+      </p>
+    );
+  }
+
+  const friction = [
+    funnel.accountRequired && "Sign-in required",
+    funnel.crossDomain && `Left the site for ${funnel.externalDomains.join(", ")}`,
+    funnel.feesRevealedLate && "Fees first shown at checkout",
+  ].filter((item): item is string => !!item);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <Badge
+          variant="secondary"
+          className={cn(funnel.reachedCheckout ? "text-success" : "text-warning")}
+        >
+          {OUTCOME_LABELS[funnel.outcome]}
+        </Badge>
+        <span className="text-muted-foreground">
+          {funnel.clicks} {funnel.clicks === 1 ? "click" : "clicks"} · {funnel.steps.length} steps ·{" "}
+          {formatDuration(funnel.durationMs)}
+        </span>
+        {friction.map((item) => (
+          <span key={item} className="inline-flex items-center gap-1 text-xs text-error">
+            <AlertTriangle className="size-3" />
+            {item}
+          </span>
+        ))}
+      </div>
+      {funnel.error && <p className="text-xs text-error font-mono">{funnel.error}</p>}
+
+      <ol className="flex gap-4 overflow-x-auto pb-2">
+        {funnel.steps.map((step) => (
+          <li key={step.index} className="w-44 shrink-0 space-y-2">
+            <div className="aspect-[390/844] overflow-hidden rounded-md border border-border/50 bg-muted/20">
+              {step.screenshotId && (
+                <a href={screenshotUrl(auditId, step.screenshotId)} target="_blank" rel="noopener noreferrer">
+                  <Image
+                    src={screenshotUrl(auditId, step.screenshotId)}
+                    alt={step.label}
+                    width={390}
+                    height={844}
+                    unoptimized
+                    className="block w-full h-auto"
+                  />
+                </a>
+              )}
+            </div>
+            <div className="space-y-1 text-xs">
+              <div className="font-medium">
+                {step.index + 1}. {step.label}
+              </div>
+              <div className="flex items-center justify-between text-muted-foreground">
+                <span>
+                  {step.pageKind} · {formatDuration(step.durationMs)}
+                </span>
+                <span>{step.clicks} clicks</span>
+              </div>
+              <a
+                href={step.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+              >
+                <span className="truncate">{step.url}</span>
+                <ExternalLink className="size-3 shrink-0" />
+              </a>
+              {step.notes.map((note) => (
+                <div key={note} className="text-error">
+                  {note}
+                </div>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
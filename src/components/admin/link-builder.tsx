@@ -12,11 +12,15 @@ import {
   Tag,
   Loader2,
   AlertCircle,
+  History,
+  Lock,
+  Palette,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { ReportAccess } from "@/components/admin/report-access";
 
 interface LinkBuilderProps {
   baseUrl: string;
@@ -36,10 +40,27 @@ interface LinkSettings {
   defaultUtmSource: string | null;
   defaultUtmMedium: string | null;
   defaultUtmCampaign: string | null;
+  showChanges: boolean;
+  visibility: Visibility;
+  workspaceId: string | null;
   linkCopies: number;
   qrDownloads: number;
 }
 
+type Visibility = "public" | "token" | "lead";
+
+interface WorkspaceOption {
+  id: string;
+  name: string;
+  customDomain: string | null;
+}
+
+const VISIBILITY_OPTIONS: { value: Visibility; label: string; description: string }[] = [
+  { value: "public", label: "Public", description: "Anyone with the link can view the report" },
+  { value: "token", label: "Private link", description: "Only links with a valid access token open the report" },
+  { value: "lead", label: "Email required", description: "Visitors enter their email first (private links skip this)" },
+];
+
 // Preset options for common UTM values
 const UTM_PRESETS = {
   source: [
@@ -77,6 +98,10 @@ export function LinkBuilder({ baseUrl, auditId, domain }: LinkBuilderProps) {
   // Enhanced link settings
   const [customSlug, setCustomSlug] = useState("");
   const [expiresAt, setExpiresAt] = useState("");
+  const [showChanges, setShowChanges] = useState(false);
+  const [visibility, setVisibility] = useState<Visibility>("public");
+  const [workspaceId, setWorkspaceId] = useState("");
+  const [workspaces, setWorkspaces] = useState<WorkspaceOption[]>([]);
   const [slugError, setSlugError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -85,6 +110,9 @@ export function LinkBuilder({ baseUrl, auditId, domain }: LinkBuilderProps) {
   // QR code state
   const [qrCode, setQrCode] = useState<string | null>(null);
   const [isGeneratingQr, setIsGeneratingQr] = useState(false);
+  // Private reports need an access token in the QR code's link
+  const [qrToken, setQrToken] = useState("");
+  const [qrError, setQrError] = useState<string | null>(null);
 
   // Link stats
   const [linkStats, setLinkStats] = useState<{
@@ -108,6 +136,9 @@ export function LinkBuilder({ baseUrl, auditId, domain }: LinkBuilderProps) {
             const date = new Date(data.expiresAt);
             setExpiresAt(date.toISOString().split("T")[0]);
           }
+          setShowChanges(!!data.showChanges);
+          setVisibility(data.visibility || "public");
+          setWorkspaceId(data.workspaceId || "");
           if (data.defaultUtmSource || data.defaultUtmMedium || data.defaultUtmCampaign) {
             setUtmParams({
               utm_source: data.defaultUtmSource || "",
@@ -130,13 +161,29 @@ export function LinkBuilder({ baseUrl, auditId, domain }: LinkBuilderProps) {
     loadSettings();
   }, [auditId]);
 
+  // White-label workspaces a report can be branded for
+  useEffect(() => {
+    if (!auditId) return;
+
+    fetch("/api/admin/workspaces")
+      .then((res) => (res.ok ? res.json() : { workspaces: [] }))
+      .then((data) => setWorkspaces(data.workspaces))
+      .catch((error) => console.error("Failed to load workspaces:", error));
+  }, [auditId]);
+
+  const customDomain = workspaces.find((w) => w.id === workspaceId)?.customDomain ?? null;
+
   // Build the full URL with UTM params
   const fullUrl = useMemo(() => {
-    // Use custom slug URL if available
+    // Use custom slug URL if available, on the workspace's custom domain if it has one
     let urlBase = baseUrl;
+    if (customDomain) {
+      const { pathname } = new URL(baseUrl);
+      urlBase = `https://${customDomain}${pathname}`;
+    }
     if (customSlug && auditId) {
       // Replace /report/[auditId] with /r/[slug]
-      const baseOrigin = new URL(baseUrl).origin;
+      const baseOrigin = new URL(urlBase).origin;
       urlBase = `${baseOrigin}/r/${customSlug}`;
     }
 
@@ -153,7 +200,7 @@ export function LinkBuilder({ baseUrl, auditId, domain }: LinkBuilderProps) {
     }
 
     return url.toString();
-  }, [baseUrl, customSlug, auditId, utmParams]);
+  }, [baseUrl, customDomain, customSlug, auditId, utmParams]);
 
   // Check if any UTM params are set
   const hasUtmParams =
@@ -229,6 +276,9 @@ export function LinkBuilder({ baseUrl, auditId, domain }: LinkBuilderProps) {
           defaultUtmSource: utmParams.utm_source || null,
           defaultUtmMedium: utmParams.utm_medium || null,
           defaultUtmCampaign: utmParams.utm_campaign || null,
+          showChanges,
+          visibility,
+          workspaceId: workspaceId || null,
         }),
       });
 
@@ -256,6 +306,7 @@ export function LinkBuilder({ baseUrl, auditId, domain }: LinkBuilderProps) {
     if (!auditId) return;
 
     setIsGeneratingQr(true);
+    setQrError(null);
     try {
       const response = await fetch(`/api/audit/${auditId}/qr`, {
         method: "POST",
@@ -266,12 +317,16 @@ export function LinkBuilder({ baseUrl, auditId, domain }: LinkBuilderProps) {
           utmMedium: utmParams.utm_medium || undefined,
           utmCampaign: utmParams.utm_campaign || undefined,
           trackDownload: false,
+          token: visibility === "token" && qrToken.trim() ? qrToken.trim() : undefined,
         }),
       });
 
+      const data = await response.json();
       if (response.ok) {
-        const data = await response.json();
         setQrCode(data.qrCode);
+      } else {
+        setQrCode(null);
+        setQrError(data.error || "Failed to generate QR code");
       }
     } catch (error) {
       console.error("Failed to generate QR code:", error);
@@ -455,6 +510,74 @@ export function LinkBuilder({ baseUrl, auditId, domain }: LinkBuilderProps) {
               </p>
             </div>
 
+            {/* Changes Since Last Audit */}
+            <label className="flex items-start gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showChanges}
+                onChange={(e) => setShowChanges(e.target.checked)}
+                className="rounded mt-0.5"
+              />
+              <span>
+                <span className="font-medium flex items-center gap-1.5">
+                  <History className="size-3.5" />
+                  Show changes since last audit
+                </span>
+                <span className="block text-xs text-muted-foreground">
+                  Adds score changes and fixed issues to the standard report layout
+                </span>
+              </span>
+            </label>
+
+            {/* Visibility */}
+            <div className="space-y-1.5">
+              <label className="text-sm font-medium flex items-center gap-1.5">
+                <Lock className="size-3.5" />
+                Who Can View
+              </label>
+              <select
+                value={visibility}
+                onChange={(e) => setVisibility(e.target.value as Visibility)}
+                className="w-full h-10 px-3 rounded-md border border-border bg-background text-sm"
+              >
+                {VISIBILITY_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                {VISIBILITY_OPTIONS.find((o) => o.value === visibility)?.description}
+              </p>
+            </div>
+
+            {/* White-label Branding */}
+            {workspaces.length > 0 && (
+              <div className="space-y-1.5">
+                <label className="text-sm font-medium flex items-center gap-1.5">
+                  <Palette className="size-3.5" />
+                  Branding
+                </label>
+                <select
+                  value={workspaceId}
+                  onChange={(e) => setWorkspaceId(e.target.value)}
+                  className="w-full h-10 px-3 rounded-md border border-border bg-background text-sm"
+                >
+                  <option value="">GetHost.AI (default)</option>
+                  {workspaces.map((workspace) => (
+                    <option key={workspace.id} value={workspace.id}>
+                      {workspace.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  {customDomain
+                    ? `Report, QR code and exports use this workspace's brand; links use ${customDomain}`
+                    : "Report, QR code, exports and email capture use this workspace's brand"}
+                </p>
+              </div>
+            )}
+
             {/* Save Settings Button */}
             <Button
               onClick={saveSettings}
@@ -472,6 +595,11 @@ export function LinkBuilder({ baseUrl, auditId, domain }: LinkBuilderProps) {
               )}
             </Button>
 
+            {/* Private Links */}
+            <div className="pt-2 border-t">
+              <ReportAccess auditId={auditId} shareUrl={fullUrl} />
+            </div>
+
             {/* QR Code Section */}
             <div className="space-y-3 pt-2 border-t">
               <div className="flex items-center justify-between">
@@ -496,6 +624,17 @@ export function LinkBuilder({ baseUrl, auditId, domain }: LinkBuilderProps) {
                 </Button>
               </div>
 
+              {visibility === "token" && (
+                <Input
+                  value={qrToken}
+                  onChange={(e) => setQrToken(e.target.value)}
+                  placeholder="Access token to include (issue one under Private Links)"
+                  className="font-mono text-xs"
+                />
+              )}
+
+              {qrError && <p className="text-xs text-destructive">{qrError}</p>}
+
               {qrCode && (
                 <div className="flex flex-col items-center gap-3 p-4 bg-white rounded-lg border">
                   <img
@@ -0,0 +1,244 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Check, Copy, KeyRound, Loader2, RotateCw, ScrollText, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import type { AccessToken } from "@/lib/link-storage";
+import type { AccessLogEntry } from "@/lib/report-access";
+
+interface ReportAccessProps {
+  auditId: string;
+  // Share URL (with UTM params) the token is appended to
+  shareUrl: string;
+}
+
+const DEFAULT_TOKEN_DAYS = 30;
+
+function defaultExpiry() {
+  const date = new Date(Date.now() + DEFAULT_TOKEN_DAYS * 24 * 60 * 60 * 1000);
+  return date.toISOString().split("T")[0];
+}
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+function tokenStatus(token: AccessToken): { label: string; variant: "success" | "secondary" | "error" } {
+  if (token.revokedAt) return { label: "revoked", variant: "error" };
+  if (new Date(token.expiresAt) < new Date()) return { label: "expired", variant: "secondary" };
+  return { label: "active", variant: "success" };
+}
+
+/**
+ * Access tokens for a private report link (issue, rotate, revoke) and the
+ * log of who opened the report with what
+ */
+export function ReportAccess({ auditId, shareUrl }: ReportAccessProps) {
+  const [tokens, setTokens] = useState<AccessToken[]>([]);
+  const [log, setLog] = useState<AccessLogEntry[]>([]);
+  const [label, setLabel] = useState("");
+  const [expiresAt, setExpiresAt] = useState(defaultExpiry);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [issuedUrl, setIssuedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [showLog, setShowLog] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const tokenLabels = new Map(tokens.map((t) => [t.id, t.label || t.id.slice(0, 6)]));
+
+  const fetchAccess = useCallback(async () => {
+    try {
+      const [tokensRes, logRes] = await Promise.all([
+        fetch(`/api/audit/${auditId}/link/tokens`),
+        fetch(`/api/audit/${auditId}/link/access-log?limit=20`),
+      ]);
+      if (tokensRes.ok) setTokens((await tokensRes.json()).tokens);
+      if (logRes.ok) setLog((await logRes.json()).entries);
+    } catch (err) {
+      console.error("Failed to load report access:", err);
+    }
+  }, [auditId]);
+
+  useEffect(() => {
+    fetchAccess();
+  }, [fetchAccess]);
+
+  const issueToken = async (rotate: boolean) => {
+    if (rotate && !window.confirm("Revoke every existing link for this report and issue a new one?")) {
+      return;
+    }
+
+    setIsIssuing(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/audit/${auditId}/link/tokens`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          label: label || undefined,
+          expiresAt: new Date(`${expiresAt}T23:59:59`).toISOString(),
+          rotate,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to issue token");
+        return;
+      }
+      const url = new URL(shareUrl);
+      url.searchParams.set("token", data.token);
+      setIssuedUrl(url.toString());
+      setLabel("");
+      await fetchAccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to issue token");
+    } finally {
+      setIsIssuing(false);
+    }
+  };
+
+  const revokeToken = async (tokenId: string) => {
+    try {
+      const res = await fetch(`/api/audit/${auditId}/link/tokens/${tokenId}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to revoke token");
+      await fetchAccess();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to revoke token");
+    }
+  };
+
+  const copyIssuedUrl = async () => {
+    if (!issuedUrl) return;
+    await navigator.clipboard.writeText(issuedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-sm font-medium flex items-center gap-1.5">
+        <KeyRound className="size-3.5" />
+        Private Links
+      </label>
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Recipient (optional)"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <Input
+          type="date"
+          value={expiresAt}
+          onChange={(e) => setExpiresAt(e.target.value)}
+          min={new Date().toISOString().split("T")[0]}
+          className="w-40"
+        />
+      </div>
+      <div className="flex gap-2">
+        <Button
+          onClick={() => issueToken(false)}
+          disabled={isIssuing || !expiresAt}
+          variant="outline"
+          size="sm"
+          className="flex-1"
+        >
+          {isIssuing ? <Loader2 className="size-4 animate-spin" /> : <KeyRound className="size-4" />}
+          Create Link
+        </Button>
+        <Button
+          onClick={() => issueToken(true)}
+          disabled={isIssuing || !expiresAt || tokens.length === 0}
+          variant="ghost"
+          size="sm"
+        >
+          <RotateCw className="size-4" />
+          Rotate
+        </Button>
+      </div>
+
+      {issuedUrl && (
+        <div className="p-2 rounded-md bg-muted/50 space-y-1.5">
+          <p className="text-xs text-muted-foreground">
+            Copy this link now; the token isn&apos;t shown again.
+          </p>
+          <div className="flex gap-2">
+            <code className="flex-1 text-xs break-all">{issuedUrl}</code>
+            <Button onClick={copyIssuedUrl} variant="ghost" size="icon">
+              {copied ? <Check className="size-4" /> : <Copy className="size-4" />}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {tokens.length > 0 && (
+        <div className="space-y-1">
+          {tokens.map((token) => {
+            const status = tokenStatus(token);
+            return (
+              <div key={token.id} className="flex items-center gap-2 text-xs">
+                <Badge variant={status.variant} className="text-[10px]">
+                  {status.label}
+                </Badge>
+                <span className="flex-1 truncate">{token.label || token.id.slice(0, 6)}</span>
+                <span className="text-muted-foreground">
+                  {token.useCount} open{token.useCount === 1 ? "" : "s"}
+                </span>
+                {!token.revokedAt && (
+                  <button
+                    onClick={() => revokeToken(token.id)}
+                    className="p-0.5 text-muted-foreground hover:text-destructive"
+                    title="Revoke"
+                  >
+                    <Trash2 className="size-3" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {log.length > 0 && (
+        <div>
+          <button
+            type="button"
+            onClick={() => setShowLog(!showLog)}
+            className="text-xs text-muted-foreground hover:text-foreground flex items-center gap-1"
+          >
+            <ScrollText className="size-3" />
+            {showLog ? "Hide" : "Show"} access log
+          </button>
+          {showLog && (
+            <div className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+              {log.map((entry) => (
+                <div key={entry.id} className="flex items-center gap-2 text-xs">
+                  <span className="text-muted-foreground w-28 shrink-0">
+                    {formatDateTime(entry.createdAt)}
+                  </span>
+                  <Badge variant={entry.granted ? "success" : "error"} className="text-[10px]">
+                    {entry.granted ? entry.via : "denied"}
+                  </Badge>
+                  <span className="truncate text-muted-foreground">
+                    {entry.tokenId
+                      ? `token ${tokenLabels.get(entry.tokenId) ?? entry.tokenId.slice(0, 6)}`
+                      : entry.reason?.replace(/_/g, " ") ?? entry.route}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { ExternalLink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { AuditResult, AuditScreenshot } from "@/types/audit";
+
+const PAGE_LABELS: Record<string, string> = {
+  home: "Homepage",
+  listing: "Listings",
+  property: "Property page",
+  checkout: "Checkout",
+};
+
+function screenshotUrl(auditId: string, screenshot: AuditScreenshot) {
+  return `/api/audit/${encodeURIComponent(auditId)}/screenshots/${encodeURIComponent(screenshot.id)}`;
+}
+
+/**
+ * Every screenshot the scanner took for an audit, with the elements it
+ * annotated and the rules each annotation is tied to. Full-page shots
+ * scroll inside a fixed-height frame.
+ */
+export function ScannerScreenshots({ auditId, result }: { auditId: string; result: AuditResult }) {
+  // Funnel walk screenshots are shown with the walk
+  const screenshots = (result.screenshots ?? []).filter((s) => s.funnelStep === undefined);
+  const [variant, setVariant] = useState<AuditScreenshot["variant"]>("fold");
+
+  if (screenshots.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No screenshots for this audit. It ran with SCREENSHOT_MODE=off, Chrome wasn&apos;t available,
+        or it predates screenshots.
+      </p>
+    );
+  }
+
+  const pages = [...new Set(screenshots.map((s) => s.pageUrl))];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-1">
+        {(["fold", "full"] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => setVariant(option)}
+            className={cn(
+              "px-3 py-1 text-xs rounded-md transition-colors",
+              variant === option
+                ? "bg-primary text-primary-foreground"
+                : "text-muted-foreground hover:bg-muted/40"
+            )}
+          >
+            {option === "fold" ? "First screen" : "Full page"}
+          </button>
+        ))}
+      </div>
+
+      {pages.map((pageUrl) => {
+        const shots = screenshots.filter((s) => s.pageUrl === pageUrl && s.variant === variant);
+        if (shots.length === 0) return null;
+
+        return (
+          <div key={pageUrl} className="space-y-3">
+            <div className="flex items-baseline gap-3">
+              <span className="text-sm font-medium">{PAGE_LABELS[shots[0].pageKind] ?? shots[0].pageKind}</span>
+              <a
+                href={pageUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-muted-foreground hover:text-foreground truncate"
+              >
+                {pageUrl}
+              </a>
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-4 items-start">
+              {shots.map((shot) => (
+                <figure
+                  key={shot.id}
+                  className={shot.viewport === "mobile" ? "w-full md:w-64 shrink-0" : "flex-1 min-w-0"}
+                >
+                  <div
+                    className={cn(
+                      "rounded-md border border-border/50 bg-muted/20",
+                      variant === "full" && "max-h-[600px] overflow-y-auto"
+                    )}
+                  >
+                    <div className="relative">
+                      <Image
+                        src={screenshotUrl(auditId, shot)}
+                        alt={`${shot.pageKind} on ${shot.viewport}`}
+                        width={shot.width}
+                        height={shot.height}
+                        unoptimized
+                        className="block w-full h-auto"
+                      />
+                      {shot.annotations.map((annotation, idx) => (
+                        <div
+                          key={idx}
+                          title={annotation.label}
+                          className="absolute border-2 border-error/80 bg-error/10 rounded-sm"
+                          style={{
+                            top: `${(annotation.rect.top / shot.height) * 100}%`,
+                            left: `${(annotation.rect.left / shot.width) * 100}%`,
+                            width: `${(annotation.rect.width / shot.width) * 100}%`,
+                            height: `${(annotation.rect.height / shot.height) * 100}%`,
+                          }}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                  <figcaption className="mt-2 space-y-1.5">
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>
+                        {shot.viewport} · {shot.width}×{shot.height}
+                      </span>
+                      <a
+                        href={screenshotUrl(auditId, shot)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 hover:text-foreground"
+                      >
+                        Open <ExternalLink className="size-3" />
+                      </a>
+                    </div>
+                    {shot.annotations.map((annotation, idx) => (
+                      <div key={idx} className="text-xs">
+                        <span className="font-medium">{annotation.label}</span>
+                        <div className="flex flex-wrap gap-1 mt-0.5">
+                          {annotation.ruleIds.map((ruleId) => (
+                            <Badge key={ruleId} variant="secondary" className="font-mono text-[10px]">
+                              {ruleId}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </figcaption>
+                </figure>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  ArrowDownRight,
+  ArrowUpRight,
+  CheckCircle2,
+  AlertTriangle,
+  XCircle,
+  Minus,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type {
+  AuditChanges,
+  RecommendationChange,
+  RecommendationChangeKind,
+  ScoreHistory,
+} from "@/lib/audit-history";
+
+// -----------------------------------------------------------------------------
+// Score Trend Chart
+// -----------------------------------------------------------------------------
+
+const OVERALL = "Overall";
+
+// Line colors for categories, in the order categories appear
+const SERIES_COLORS = [
+  "#3b82f6",
+  "#10b981",
+  "#f59e0b",
+  "#ef4444",
+  "#8b5cf6",
+  "#06b6d4",
+  "#ec4899",
+  "#84cc16",
+];
+
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 200;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 32 };
+
+interface ScoreTrendChartProps {
+  history: ScoreHistory;
+  // Audit to highlight on the chart
+  currentAuditId?: string;
+  className?: string;
+}
+
+/**
+ * Line chart of the overall score across audit runs, with any categories
+ * toggled on from the legend
+ */
+export function ScoreTrendChart({ history, currentAuditId, className }: ScoreTrendChartProps) {
+  const [visible, setVisible] = useState<Set<string>>(new Set([OVERALL]));
+  const { points, categories } = history;
+
+  const series = useMemo(
+    () => [
+      { name: OVERALL, color: "currentColor", values: points.map((p) => p.overallScore) },
+      ...categories.map((name, i) => ({
+        name,
+        color: SERIES_COLORS[i % SERIES_COLORS.length],
+        values: points.map((p) => p.categories[name] ?? null),
+      })),
+    ],
+    [points, categories]
+  );
+
+  if (points.length === 0) {
+    return <p className="text-sm text-muted-foreground">No completed audits yet.</p>;
+  }
+
+  const innerWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (i: number) =>
+    PADDING.left + (points.length === 1 ? innerWidth / 2 : (i / (points.length - 1)) * innerWidth);
+  const y = (score: number) => PADDING.top + innerHeight - (score / 100) * innerHeight;
+
+  const toggle = (name: string) => {
+    setVisible((prev) => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="w-full h-auto text-foreground"
+        role="img"
+        aria-label="Score history"
+      >
+        {[0, 25, 50, 75, 100].map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={CHART_WIDTH - PADDING.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              className="stroke-border"
+              strokeDasharray={tick === 0 ? undefined : "2 4"}
+            />
+            <text
+              x={PADDING.left - 6}
+              y={y(tick) + 3}
+              textAnchor="end"
+              className="fill-muted-foreground text-[10px]"
+            >
+              {tick}
+            </text>
+          </g>
+        ))}
+
+        {points.map((point, i) => (
+          <text
+            key={point.auditId}
+            x={x(i)}
+            y={CHART_HEIGHT - 6}
+            textAnchor="middle"
+            className={cn(
+              "text-[10px]",
+              point.auditId === currentAuditId ? "fill-foreground font-medium" : "fill-muted-foreground"
+            )}
+          >
+            {new Date(point.createdAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })}
+          </text>
+        ))}
+
+        {series
+          .filter((s) => visible.has(s.name))
+          .map((s) => {
+            const path = s.values
+              .map((value, i) => (value === null ? null : `${x(i)},${y(value)}`))
+              .filter(Boolean)
+              .join(" ");
+            return (
+              <g key={s.name} style={{ color: s.color }}>
+                <polyline
+                  points={path}
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth={s.name === OVERALL ? 2 : 1.5}
+                  strokeLinejoin="round"
+                />
+                {s.values.map((value, i) =>
+                  value === null ? null : (
+                    <circle
+                      key={i}
+                      cx={x(i)}
+                      cy={y(value)}
+                      r={points[i].auditId === currentAuditId ? 4 : 2.5}
+                      fill="currentColor"
+                    >
+                      <title>{`${s.name}: ${value}`}</title>
+                    </circle>
+                  )
+                )}
+              </g>
+            );
+          })}
+      </svg>
+
+      <div className="flex flex-wrap gap-2">
+        {series.map((s) => (
+          <button
+            key={s.name}
+            onClick={() => toggle(s.name)}
+            className={cn(
+              "flex items-center gap-1.5 px-2 py-1 rounded-md text-xs border transition-colors",
+              visible.has(s.name)
+                ? "border-border bg-muted/50 text-foreground"
+                : "border-transparent text-muted-foreground hover:text-foreground"
+            )}
+          >
+            <span
+              className="size-2 rounded-full"
+              style={{ backgroundColor: s.name === OVERALL ? "var(--foreground)" : s.color }}
+            />
+            {s.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Audit Changes Summary
+// -----------------------------------------------------------------------------
+
+const CHANGE_GROUPS: Array<{
+  kind: RecommendationChangeKind;
+  label: string;
+  icon: typeof CheckCircle2;
+  color: string;
+}> = [
+  { kind: "regressed", label: "Regressed", icon: XCircle, color: "text-error" },
+  { kind: "new", label: "New issues", icon: AlertTriangle, color: "text-warning" },
+  { kind: "improved", label: "Improved", icon: ArrowUpRight, color: "text-success" },
+  { kind: "fixed", label: "Fixed", icon: CheckCircle2, color: "text-success" },
+];
+
+export function ScoreDelta({ diff, className }: { diff: number | null; className?: string }) {
+  if (diff === null) {
+    return <span className={cn("text-muted-foreground", className)}>—</span>;
+  }
+  const Icon = diff > 0 ? ArrowUpRight : diff < 0 ? ArrowDownRight : Minus;
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-0.5 font-mono tabular-nums",
+        diff > 0 ? "text-success" : diff < 0 ? "text-error" : "text-muted-foreground",
+        className
+      )}
+    >
+      <Icon className="size-3" />
+      {diff > 0 ? `+${diff}` : diff}
+    </span>
+  );
+}
+
+/**
+ * Score deltas and recommendation changes between two audits
+ */
+export function AuditChangesSummary({ changes }: { changes: AuditChanges }) {
+  const total = CHANGE_GROUPS.reduce(
+    (sum, group) => sum + changes.recommendations[group.kind].length,
+    0
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-baseline gap-x-6 gap-y-2">
+        <div>
+          <div className="text-xs text-muted-foreground">Overall</div>
+          <div className="flex items-baseline gap-2">
+            <span className="text-2xl font-mono tabular-nums">
+              {changes.overall.oldScore} → {changes.overall.newScore}
+            </span>
+            <ScoreDelta diff={changes.overall.diff} className="text-sm" />
+          </div>
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Compared with the audit from{" "}
+          {new Date(changes.previousCreatedAt).toLocaleDateString()}
+        </div>
+        {changes.profileChanged && (
+          <Badge variant="warning" className="text-[10px]">
+            Different scoring profile
+          </Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2">
+        {changes.categories.map((cat) => (
+          <div key={cat.name} className="p-2 rounded-md bg-background/50 border border-border/30">
+            <div className="text-xs text-muted-foreground truncate">{cat.name}</div>
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="font-mono text-sm tabular-nums">{cat.newScore ?? "—"}</span>
+              <ScoreDelta diff={cat.diff} className="text-xs" />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {total === 0 ? (
+        <p className="text-xs text-muted-foreground">No recommendations changed status.</p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          {CHANGE_GROUPS.filter((group) => changes.recommendations[group.kind].length > 0).map(
+            (group) => (
+              <div key={group.kind}>
+                <h4 className={cn("text-xs font-medium mb-2 flex items-center gap-1.5", group.color)}>
+                  <group.icon className="size-3" />
+                  {group.label} ({changes.recommendations[group.kind].length})
+                </h4>
+                <div className="space-y-1">
+                  {changes.recommendations[group.kind].map((change) => (
+                    <RecommendationChangeRow key={change.key} change={change} />
+                  ))}
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RecommendationChangeRow({ change }: { change: RecommendationChange }) {
+  return (
+    <div className="flex items-center gap-2 text-xs p-1.5 rounded bg-background/30">
+      <span className="font-medium flex-1 min-w-0 truncate" title={change.title}>
+        {change.title}
+      </span>
+      <Badge variant="outline" className="text-[10px] px-1.5 py-0 shrink-0">
+        {change.category}
+      </Badge>
+      <span className="text-muted-foreground shrink-0">
+        {change.from ? `${change.from} → ${change.to}` : change.to}
+      </span>
+    </div>
+  );
+}
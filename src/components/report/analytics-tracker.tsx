@@ -8,6 +8,12 @@ const VISITOR_ID_EXPIRY_DAYS = 30;
 
 interface AnalyticsTrackerProps {
   auditId: string;
+  // Visitor ID the server assigned an experiment variant to, used when the
+  // visitor has no cookie yet
+  visitorId?: string;
+  // Report variant rendered, and the experiment that picked it
+  variant?: string;
+  experimentId?: string | null;
 }
 
 /**
@@ -16,13 +22,18 @@ interface AnalyticsTrackerProps {
  * This component handles:
  * - Generating/persisting visitor ID in a first-party cookie (30-day expiry)
  * - Generating a session ID per page load
- * - Firing a view event on mount
+ * - Firing a view event on mount, tagged with the report variant shown
  * - Tracking scroll depth
  * - Beaconing time-on-page via visibilitychange event
  *
  * This is ADDITIONAL tracking to GA - it stores data in our own database.
  */
-export function AnalyticsTracker({ auditId }: AnalyticsTrackerProps) {
+export function AnalyticsTracker({
+  auditId,
+  visitorId: assignedVisitorId,
+  variant,
+  experimentId,
+}: AnalyticsTrackerProps) {
   const viewIdRef = useRef<string | null>(null);
   const sessionIdRef = useRef<string>(generateSessionId());
   const startTimeRef = useRef<number>(Date.now());
@@ -33,11 +44,11 @@ export function AnalyticsTracker({ auditId }: AnalyticsTrackerProps) {
   const getVisitorId = useCallback((): string => {
     let visitorId = getCookie(VISITOR_ID_COOKIE);
     if (!visitorId) {
-      visitorId = generateVisitorId();
+      visitorId = assignedVisitorId || generateVisitorId();
       setCookie(VISITOR_ID_COOKIE, visitorId, VISITOR_ID_EXPIRY_DAYS);
     }
     return visitorId;
-  }, []);
+  }, [assignedVisitorId]);
 
   // Get device info
   const getDeviceInfo = useCallback(() => {
@@ -97,6 +108,8 @@ export function AnalyticsTracker({ auditId }: AnalyticsTrackerProps) {
         visitorId,
         sessionId,
         referrer: document.referrer || undefined,
+        variant,
+        experimentId: experimentId || undefined,
         ...utmParams,
         ...deviceInfo,
       }),
@@ -110,7 +123,7 @@ export function AnalyticsTracker({ auditId }: AnalyticsTrackerProps) {
       .catch((err) => {
         console.warn("[Analytics] Failed to record view:", err);
       });
-  }, [auditId, getVisitorId, getDeviceInfo, getUtmParams]);
+  }, [auditId, variant, experimentId, getVisitorId, getDeviceInfo, getUtmParams]);
 
   // Track scroll depth
   useEffect(() => {
@@ -5,6 +5,8 @@ import { X, Mail, Loader2, CheckCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ReportBranding } from "@/lib/workspace-storage";
+import { brandColor, brandFont } from "./report-branding";
 
 // Cookie name for lead tracking
 const LEAD_COOKIE = "ghai_lead";
@@ -23,6 +25,9 @@ interface EmailCaptureFormProps {
   showName?: boolean;
   showCompany?: boolean;
   compact?: boolean;
+  // White-label branding: button color, font, and whose marketing the
+  // visitor consents to
+  branding?: ReportBranding;
 }
 
 export function EmailCaptureForm({
@@ -35,6 +40,7 @@ export function EmailCaptureForm({
   showName = true,
   showCompany = false,
   compact = false,
+  branding,
 }: EmailCaptureFormProps) {
   const [email, setEmail] = useState("");
   const [name, setName] = useState("");
@@ -113,7 +119,7 @@ export function EmailCaptureForm({
   }
 
   return (
-    <form onSubmit={handleSubmit} className="space-y-4">
+    <form onSubmit={handleSubmit} className="space-y-4" style={brandFont(branding)}>
       {!compact && (
         <div className="text-center mb-6">
           <h3 className="text-xl font-semibold">{title}</h3>
@@ -160,9 +166,10 @@ export function EmailCaptureForm({
           required
         />
         <span className="text-xs text-muted-foreground">
-          I agree to receive marketing communications and understand my data will
+          I agree to receive marketing communications
+          {branding?.workspaceId ? ` from ${branding.brandName}` : ""} and understand my data will
           be processed according to the{" "}
-          <a href="/privacy" className="underline hover:text-foreground">
+          <a href={branding?.privacyUrl ?? "/privacy"} className="underline hover:text-foreground">
             Privacy Policy
           </a>
           . You can unsubscribe at any time.
@@ -174,6 +181,7 @@ export function EmailCaptureForm({
       <Button
         type="submit"
         className="w-full"
+        style={brandColor(branding?.primaryColor)}
         disabled={isSubmitting || !email || !consent}
       >
         {isSubmitting ? (
@@ -197,12 +205,14 @@ interface EmailCaptureOverlayProps {
   auditId: string;
   triggerPercent?: number; // Scroll percentage to trigger (default 80%)
   delay?: number; // Delay after trigger in ms (default 500)
+  branding?: ReportBranding;
 }
 
 export function EmailCaptureOverlay({
   auditId,
   triggerPercent = 80,
   delay = 500,
+  branding,
 }: EmailCaptureOverlayProps) {
   const [isVisible, setIsVisible] = useState(false);
   const [isDismissed, setIsDismissed] = useState(false);
@@ -299,7 +309,7 @@ export function EmailCaptureOverlay({
 
           <CardHeader className="pb-2">
             <div className="mx-auto w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mb-2">
-              <Mail className="size-6 text-primary" />
+              <Mail className="size-6 text-primary" style={brandColor(branding?.primaryColor, "color")} />
             </div>
             <CardTitle className="text-center text-xl">
               Enjoying the insights?
@@ -317,6 +327,7 @@ export function EmailCaptureOverlay({
               showName={false}
               showCompany={false}
               compact
+              branding={branding}
             />
           </CardContent>
         </Card>
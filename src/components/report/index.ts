@@ -3,3 +3,6 @@ export { PublicReportView } from "./public-report-view"
 export { GATracker, useCTATracking } from "./ga-tracker"
 export { AnalyticsTracker, useAnalyticsClick } from "./analytics-tracker"
 export { EmailCaptureForm, EmailCaptureOverlay, useLeadStatus } from "./email-capture"
+export { ReportChanges } from "./report-changes"
+export { ReportBenchmark } from "./report-benchmark"
+export { ReportScreenshots, ScreenshotCalloutView, findScreenshotCallout } from "./report-screenshots"
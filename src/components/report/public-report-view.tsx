@@ -2,9 +2,20 @@
 
 import { useState } from "react"
 import { cn } from "@/lib/utils"
-import { HostAILogo } from "@/components/icons/hostai-logo"
 import { trackCTAClick } from "@/lib/ga"
+import { useAnalyticsClick } from "./analytics-tracker"
 import type { AuditResult, AuditRecommendation } from "@/types/audit"
+import type { AuditChanges } from "@/lib/audit-history"
+import type { ReportBranding } from "@/lib/workspace-storage"
+import { ReportChanges } from "./report-changes"
+import { ReportBenchmark } from "./report-benchmark"
+import {
+  ReportScreenshots,
+  ScreenshotCalloutView,
+  findScreenshotCallout,
+  type ScreenshotCallout,
+} from "./report-screenshots"
+import { BrandFooter, BrandLogo, brandColor, brandFont, getBrandCta, getBrandHomeUrl } from "./report-branding"
 import {
   Zap,
   Search,
@@ -25,6 +36,12 @@ import {
 interface PublicReportViewProps {
   result: AuditResult
   auditId?: string
+  // Changes since the previous audit, when the report link opts in to them
+  changes?: AuditChanges | null
+  // White-label branding from the report's workspace
+  branding?: ReportBranding
+  // Access token the report was opened with, passed on to its screenshots
+  accessToken?: string | null
   onReset?: () => void
   className?: string
 }
@@ -142,8 +159,18 @@ function QuickWinCard({ issue }: { issue: AuditRecommendation }) {
   )
 }
 
-// Detailed Issue Row
-function IssueRow({ issue }: { issue: AuditRecommendation }) {
+// Detailed Issue Row, with the annotated screenshot that shows the issue
+function IssueRow({
+  issue,
+  callout,
+  auditId,
+  accessToken,
+}: {
+  issue: AuditRecommendation
+  callout?: ScreenshotCallout | null
+  auditId?: string
+  accessToken?: string | null
+}) {
   const severityConfig = {
     fail: {
       bg: "bg-red-50/60",
@@ -177,6 +204,9 @@ function IssueRow({ issue }: { issue: AuditRecommendation }) {
           </span>
         </div>
         <p className="text-sm text-gray-500">{issue.description}</p>
+        {callout && auditId && (
+          <ScreenshotCalloutView callout={callout} auditId={auditId} accessToken={accessToken} className="mt-3" />
+        )}
       </div>
       <span className="text-xs font-medium text-gray-400 uppercase shrink-0 hidden sm:block">
         {issue.category}
@@ -185,19 +215,25 @@ function IssueRow({ issue }: { issue: AuditRecommendation }) {
   )
 }
 
-export function PublicReportView({ result, auditId, onReset, className }: PublicReportViewProps) {
+export function PublicReportView({ result, auditId, changes, branding, accessToken, onReset, className }: PublicReportViewProps) {
   const [showAllIssues, setShowAllIssues] = useState(false)
 
-  // CTA click handler with GA tracking
+  // CTA click handler with GA and built-in tracking
+  const trackClick = useAnalyticsClick(auditId ?? "")
   const handleCTAClick = (ctaType: string, ctaLocation: string) => {
     if (auditId) {
       trackCTAClick(auditId, ctaType, ctaLocation)
+      trackClick(ctaType, ctaLocation)
     }
   }
 
   const criticalCount = result.recommendations.filter(r => r.status === "fail").length
   const warningCount = result.recommendations.filter(r => r.status === "warning").length
   const scoreInfo = getScoreLabel(result.overallScore)
+  const cta = getBrandCta(branding, {
+    heading: "Ready to increase your bookings?",
+    description: "HostAI can help fix these issues automatically.",
+  })
 
   // Get quick wins (high impact failures)
   const quickWins = result.recommendations
@@ -217,23 +253,25 @@ export function PublicReportView({ result, auditId, onReset, className }: Public
   const visibleIssues = showAllIssues ? allIssues : allIssues.slice(0, 5)
 
   return (
-    <div className={cn("min-h-screen bg-gradient-to-b from-gray-50 to-gray-100/50", className)}>
+    <div className={cn("min-h-screen bg-gradient-to-b from-gray-50 to-gray-100/50", className)} style={brandFont(branding)}>
       {/* Header */}
       <header className="bg-white/70 backdrop-blur-md sticky top-0 z-50">
         <div className="max-w-5xl mx-auto px-6 h-14 flex items-center justify-between">
           <div className="flex items-center gap-3">
-            <a href="/" className="hover:opacity-80 transition-opacity">
-              <HostAILogo className="h-5" />
+            <a href={getBrandHomeUrl(branding)} className="hover:opacity-80 transition-opacity">
+              <BrandLogo branding={branding} className="h-5" />
             </a>
             <span className="text-gray-300">/</span>
             <span className="text-sm text-gray-500">{result.domain}</span>
           </div>
-          <a
-            href="/"
-            className="text-sm text-gray-500 hover:text-gray-900 transition-colors"
-          >
-            New Audit
-          </a>
+          {!branding?.workspaceId && (
+            <a
+              href="/"
+              className="text-sm text-gray-500 hover:text-gray-900 transition-colors"
+            >
+              New Audit
+            </a>
+          )}
         </div>
       </header>
 
@@ -286,6 +324,12 @@ export function PublicReportView({ result, auditId, onReset, className }: Public
           </div>
         </div>
 
+        {/* Changes Since Last Audit */}
+        {changes && <ReportChanges changes={changes} />}
+
+        {/* Competitor Benchmark */}
+        <ReportBenchmark result={result} />
+
         {/* Categories Grid */}
         <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3 mb-10">
           {categoryIssueCounts.map(cat => (
@@ -321,6 +365,9 @@ export function PublicReportView({ result, auditId, onReset, className }: Public
           </section>
         )}
 
+        {/* What the scanner saw */}
+        {auditId && <ReportScreenshots result={result} auditId={auditId} accessToken={accessToken} />}
+
         {/* Detailed Analysis */}
         <section className="mb-10">
           <div className="flex items-center gap-3 mb-4">
@@ -337,7 +384,13 @@ export function PublicReportView({ result, auditId, onReset, className }: Public
 
           <div className="space-y-2">
             {visibleIssues.map((issue, idx) => (
-              <IssueRow key={idx} issue={issue} />
+              <IssueRow
+                key={idx}
+                issue={issue}
+                callout={findScreenshotCallout(result, issue.id)}
+                auditId={auditId}
+                accessToken={accessToken}
+              />
             ))}
           </div>
 
@@ -359,24 +412,32 @@ export function PublicReportView({ result, auditId, onReset, className }: Public
           )}
         </section>
 
+        <BrandFooter branding={branding} className="px-0" />
+
         {/* Sticky CTA Footer */}
-        <div className="fixed bottom-5 left-1/2 -translate-x-1/2 w-[90%] max-w-3xl bg-gray-900/95 backdrop-blur-sm text-white p-4 rounded-xl shadow-xl shadow-gray-900/20 flex flex-col sm:flex-row items-center justify-between gap-4 z-50">
+        <div
+          className="fixed bottom-5 left-1/2 -translate-x-1/2 w-[90%] max-w-3xl bg-gray-900/95 backdrop-blur-sm text-white p-4 rounded-xl shadow-xl shadow-gray-900/20 flex flex-col sm:flex-row items-center justify-between gap-4 z-50"
+          style={brandColor(branding?.accentColor)}
+        >
           <div className="text-center sm:text-left">
-            <p className="font-semibold">Ready to increase your bookings?</p>
+            <p className="font-semibold">{cta.heading}</p>
             <p className="text-gray-400 text-sm">
-              HostAI can help fix these issues automatically.
+              {cta.description}
             </p>
           </div>
-          <a
-            href="https://hostai.app"
-            target="_blank"
-            rel="noopener noreferrer"
-            onClick={() => handleCTAClick("get_started", "sticky_footer")}
-            className="bg-blue-600 hover:bg-blue-500 text-white font-medium py-2.5 px-5 rounded-lg transition-colors flex items-center gap-2 whitespace-nowrap"
-          >
-            Get Started
-            <ArrowRight className="w-4 h-4" />
-          </a>
+          {cta.url && (
+            <a
+              href={cta.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={() => handleCTAClick("get_started", "sticky_footer")}
+              className="bg-blue-600 hover:bg-blue-500 text-white font-medium py-2.5 px-5 rounded-lg transition-colors flex items-center gap-2 whitespace-nowrap"
+              style={brandColor(branding?.primaryColor)}
+            >
+              {cta.text}
+              <ArrowRight className="w-4 h-4" />
+            </a>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,75 @@
+"use client";
+
+import { Lock, Home } from "lucide-react";
+import Link from "next/link";
+import { buttonVariants } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import type { ReportBranding } from "@/lib/workspace-storage";
+import { EmailCaptureForm } from "./email-capture";
+import { BrandLogo } from "./report-branding";
+
+interface ReportAccessGateProps {
+  auditId: string;
+  reason: "token_required" | "token_invalid" | "lead_required";
+  // Why a presented token was rejected, e.g. "Token has expired"
+  tokenError?: string | null;
+  branding?: ReportBranding;
+}
+
+// Shown instead of a private report: the lead form for lead-gated reports,
+// otherwise a note that the link needs a valid access token
+export function ReportAccessGate({ auditId, reason, tokenError, branding }: ReportAccessGateProps) {
+  if (reason === "lead_required") {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-background to-muted/30 p-4">
+        <div className="max-w-md w-full">
+          {branding?.workspaceId && (
+            <div className="flex justify-center mb-6">
+              <BrandLogo branding={branding} className="h-8" />
+            </div>
+          )}
+          <EmailCaptureForm
+            auditId={auditId}
+            capturePoint="report_gate"
+            title="View Your Website Audit"
+            subtitle="Enter your email to open the full report."
+            onSuccess={() => window.location.reload()}
+            branding={branding}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-b from-background to-muted/30 p-4">
+      <Card className="max-w-md w-full">
+        <CardContent className="pt-8 pb-6 px-6 text-center">
+          <div className="mb-6">
+            <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
+              <Lock className="w-8 h-8 text-muted-foreground" />
+            </div>
+            <h1 className="text-2xl font-bold mb-2">Private Report</h1>
+            <p className="text-muted-foreground">
+              {reason === "token_invalid"
+                ? `This link can't be used to open the report${tokenError ? ` (${tokenError.toLowerCase()})` : ""}.`
+                : "This report can only be opened with the private link it was shared with."}
+            </p>
+          </div>
+
+          <p className="text-sm text-muted-foreground mb-4">
+            Contact the report sender for a new link.
+          </p>
+
+          <Link href="/" className={cn(buttonVariants({ variant: "outline" }))}>
+            <Home className="w-4 h-4" />
+            Go Home
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ReportAccessGate;
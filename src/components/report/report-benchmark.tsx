@@ -0,0 +1,138 @@
+import { cn } from "@/lib/utils"
+import { benchmarkRows } from "@/lib/competitor-summary"
+import type { AuditResult } from "@/types/audit"
+import { Star, Trophy } from "lucide-react"
+
+interface ReportBenchmarkProps {
+  result: AuditResult
+  className?: string
+}
+
+function scoreClass(score: number | undefined) {
+  if (score === undefined) return "text-gray-300"
+  if (score >= 80) return "text-emerald-600"
+  if (score >= 60) return "text-amber-600"
+  return "text-rose-500"
+}
+
+// Core Web Vitals "good" thresholds
+function vitalClass(value: number | null, good: number, poor: number) {
+  if (value === null) return "text-gray-300"
+  if (value <= good) return "text-emerald-600"
+  if (value <= poor) return "text-amber-600"
+  return "text-rose-500"
+}
+
+function formatMs(ms: number | null) {
+  if (ms === null) return "—"
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`
+}
+
+// Side-by-side comparison of the audited site and its benchmarked
+// competitors: category scores, booking engine, reviews and Core Web Vitals.
+// Renders nothing until at least one competitor has been audited.
+export function ReportBenchmark({ result, className }: ReportBenchmarkProps) {
+  const rows = benchmarkRows(result)
+  if (rows.length === 0) return null
+
+  const subject = rows.find((r) => r.isSubject)
+  const categoryNames = result.categories.map((c) => c.name)
+
+  return (
+    <section
+      className={cn(
+        "bg-white/70 backdrop-blur-sm rounded-xl shadow-sm shadow-gray-200/50 p-6 mb-8",
+        className
+      )}
+    >
+      <div className="flex items-center gap-3 mb-5">
+        <div className="p-2 bg-amber-50/80 rounded-md">
+          <Trophy className="w-4 h-4 text-amber-500" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">How You Compare</h2>
+          <p className="text-gray-400 text-sm">
+            Ranked #{subject?.rank} of {rows.length} against {rows.length - 1} competitor
+            {rows.length === 2 ? "" : "s"}
+          </p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto -mx-2">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-400 uppercase tracking-wide">
+              <th className="px-2 py-2 font-medium">Site</th>
+              <th className="px-2 py-2 font-medium text-right">Score</th>
+              {categoryNames.map((name) => (
+                <th key={name} className="px-2 py-2 font-medium text-right whitespace-nowrap">
+                  {name}
+                </th>
+              ))}
+              <th className="px-2 py-2 font-medium">Booking</th>
+              <th className="px-2 py-2 font-medium text-right">Reviews</th>
+              <th className="px-2 py-2 font-medium text-right">LCP</th>
+              <th className="px-2 py-2 font-medium text-right">CLS</th>
+              <th className="px-2 py-2 font-medium text-right">INP</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const vitals = row.coreWebVitals
+              return (
+                <tr
+                  key={row.domain ?? row.name}
+                  className={cn("border-t border-gray-100", row.isSubject && "bg-blue-50/50 font-medium")}
+                >
+                  <td className="px-2 py-2.5 whitespace-nowrap">
+                    <span className="text-gray-400 mr-2">#{row.rank}</span>
+                    <span className="text-gray-900">{row.domain ?? row.name}</span>
+                    {row.isSubject && <span className="ml-2 text-xs text-blue-500">You</span>}
+                  </td>
+                  <td className={cn("px-2 py-2.5 text-right font-semibold", scoreClass(row.overallScore))}>
+                    {row.overallScore ?? "—"}
+                  </td>
+                  {categoryNames.map((name) => {
+                    const score = row.categories?.find((c) => c.name === name)?.score
+                    return (
+                      <td key={name} className={cn("px-2 py-2.5 text-right", scoreClass(score))}>
+                        {score ?? "—"}
+                      </td>
+                    )
+                  })}
+                  <td className="px-2 py-2.5 whitespace-nowrap text-gray-600">
+                    {row.bookingEngine ?? <span className="text-gray-300">None found</span>}
+                  </td>
+                  <td className="px-2 py-2.5 text-right whitespace-nowrap text-gray-600">
+                    {row.reviewCount ? (
+                      <>
+                        {row.reviewCount.toLocaleString()}
+                        {row.rating > 0 && (
+                          <span className="inline-flex items-center gap-0.5 ml-1.5 text-gray-400">
+                            <Star className="w-3 h-3 fill-amber-400 text-amber-400" />
+                            {row.rating.toFixed(1)}
+                          </span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-gray-300">—</span>
+                    )}
+                  </td>
+                  <td className={cn("px-2 py-2.5 text-right", vitalClass(vitals?.lcpMs ?? null, 2500, 4000))}>
+                    {formatMs(vitals?.lcpMs ?? null)}
+                  </td>
+                  <td className={cn("px-2 py-2.5 text-right", vitalClass(vitals?.cls ?? null, 0.1, 0.25))}>
+                    {vitals?.cls != null ? vitals.cls.toFixed(2) : "—"}
+                  </td>
+                  <td className={cn("px-2 py-2.5 text-right", vitalClass(vitals?.inpMs ?? null, 200, 500))}>
+                    {formatMs(vitals?.inpMs ?? null)}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,78 @@
+import type { CSSProperties, ReactNode } from "react"
+import { cn } from "@/lib/utils"
+import { HostAILogo } from "@/components/icons/hostai-logo"
+import type { ReportBranding } from "@/lib/workspace-storage"
+
+// Helpers the report variants share to render under a workspace's brand.
+// Without branding (or with the house brand) everything falls back to the
+// variant's own logo, colors and copy.
+
+const HOUSE_CTA_URL = "https://hostai.app"
+
+export interface BrandCta {
+  heading: string
+  description: string
+  text: string
+  // Null for a white-label report with no CTA link - hide the button
+  url: string | null
+}
+
+export function getBrandCta(
+  branding: ReportBranding | undefined,
+  house: { heading: string; description: string }
+): BrandCta {
+  return {
+    heading: branding?.ctaHeading ?? house.heading,
+    description: branding?.ctaDescription ?? house.description,
+    text: branding?.ctaText ?? "Get Started",
+    url: branding?.workspaceId ? branding.ctaUrl : branding?.ctaUrl ?? HOUSE_CTA_URL,
+  }
+}
+
+export function getBrandHomeUrl(branding: ReportBranding | undefined): string {
+  return branding?.websiteUrl ?? "/"
+}
+
+// Inline style for a brand color, or nothing so the variant's classes apply
+export function brandColor(
+  color: string | null | undefined,
+  property: "backgroundColor" | "color" | "borderColor" = "backgroundColor"
+): CSSProperties | undefined {
+  return color ? { [property]: color } : undefined
+}
+
+export function brandFont(branding: ReportBranding | undefined): CSSProperties | undefined {
+  return branding?.fontFamily ? { fontFamily: branding.fontFamily } : undefined
+}
+
+interface BrandLogoProps {
+  branding?: ReportBranding
+  className?: string
+  // Variant-specific house logo, instead of the HostAI wordmark
+  houseLogo?: ReactNode
+}
+
+export function BrandLogo({ branding, className, houseLogo }: BrandLogoProps) {
+  if (branding?.logoUrl) {
+    // eslint-disable-next-line @next/next/no-img-element -- agency logos are external or data URLs
+    return <img src={branding.logoUrl} alt={branding.brandName} className={cn("w-auto", className)} />
+  }
+  if (branding?.workspaceId) {
+    return (
+      <span className={cn("inline-flex items-center text-sm font-semibold text-gray-900", className)}>
+        {branding.brandName}
+      </span>
+    )
+  }
+  return houseLogo ?? <HostAILogo className={className} />
+}
+
+export function BrandFooter({ branding, className }: { branding?: ReportBranding; className?: string }) {
+  if (!branding?.footerText) return null
+
+  return (
+    <footer className={cn("max-w-5xl mx-auto px-6 py-6 text-center text-xs text-gray-400 whitespace-pre-line", className)}>
+      {branding.footerText}
+    </footer>
+  )
+}
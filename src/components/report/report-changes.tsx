@@ -0,0 +1,108 @@
+import { cn } from "@/lib/utils"
+import type { AuditChanges } from "@/lib/audit-history"
+import { ArrowDownRight, ArrowUpRight, CheckCircle2, History, XCircle } from "lucide-react"
+
+interface ReportChangesProps {
+  changes: AuditChanges
+  className?: string
+}
+
+// How many fixed/new items to list before summarizing the rest
+const MAX_LISTED = 4
+
+// "Since your last audit" card for the public report: score change and the
+// issues fixed or newly found since the previous audit of the site
+export function ReportChanges({ changes, className }: ReportChangesProps) {
+  const { overall, recommendations } = changes
+  const fixed = [...recommendations.fixed, ...recommendations.improved]
+  const newIssues = [...recommendations.regressed, ...recommendations.new]
+  const since = new Date(changes.previousCreatedAt).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  })
+
+  return (
+    <section
+      className={cn(
+        "bg-white/70 backdrop-blur-sm rounded-xl shadow-sm shadow-gray-200/50 p-6 mb-8",
+        className
+      )}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-5">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-50/80 rounded-md">
+            <History className="w-4 h-4 text-blue-500" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Since Your Last Audit</h2>
+            <p className="text-gray-400 text-sm">Compared with the audit from {since}</p>
+          </div>
+        </div>
+        <div className="flex items-baseline gap-2">
+          <span className="text-gray-400 text-sm">{overall.oldScore} →</span>
+          <span className="text-3xl font-bold text-gray-900">{overall.newScore}</span>
+          <span
+            className={cn(
+              "inline-flex items-center text-sm font-semibold",
+              overall.diff > 0 ? "text-emerald-600" : overall.diff < 0 ? "text-rose-500" : "text-gray-400"
+            )}
+          >
+            {overall.diff > 0 ? (
+              <ArrowUpRight className="w-4 h-4" />
+            ) : overall.diff < 0 ? (
+              <ArrowDownRight className="w-4 h-4" />
+            ) : null}
+            {overall.diff > 0 ? `+${overall.diff}` : overall.diff}
+          </span>
+        </div>
+      </div>
+
+      {fixed.length === 0 && newIssues.length === 0 ? (
+        <p className="text-sm text-gray-500">No checks changed since the last audit.</p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-6">
+          <ChangeList
+            title={`${fixed.length} Improved`}
+            items={fixed.map((c) => c.title)}
+            icon={<CheckCircle2 className="w-4 h-4 text-green-500 shrink-0" />}
+          />
+          <ChangeList
+            title={`${newIssues.length} New or Worse`}
+            items={newIssues.map((c) => c.title)}
+            icon={<XCircle className="w-4 h-4 text-red-400 shrink-0" />}
+          />
+        </div>
+      )}
+    </section>
+  )
+}
+
+function ChangeList({
+  title,
+  items,
+  icon,
+}: {
+  title: string
+  items: string[]
+  icon: React.ReactNode
+}) {
+  if (items.length === 0) return null
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-600 mb-2">{title}</h3>
+      <ul className="space-y-1.5">
+        {items.slice(0, MAX_LISTED).map((item, i) => (
+          <li key={`${item}-${i}`} className="flex items-center gap-2 text-sm text-gray-700">
+            {icon}
+            <span className="truncate">{item}</span>
+          </li>
+        ))}
+        {items.length > MAX_LISTED && (
+          <li className="text-xs text-gray-400 pl-6">and {items.length - MAX_LISTED} more</li>
+        )}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+import Image from "next/image"
+import { cn } from "@/lib/utils"
+import type { AuditResult, AuditScreenshot } from "@/types/audit"
+import { Camera, ExternalLink } from "lucide-react"
+
+type Annotation = AuditScreenshot["annotations"][number]
+
+export interface ScreenshotCallout {
+  screenshot: AuditScreenshot
+  annotation: Annotation
+}
+
+const PAGE_LABELS: Record<string, string> = {
+  home: "Homepage",
+  listing: "Listings",
+  property: "Property page",
+  checkout: "Checkout",
+}
+
+// Space kept around a callout's highlight when cropping (CSS pixels)
+const CROP_PADDING = 80
+
+// Path the screenshot is served from; private reports pass their token on
+export function screenshotUrl(auditId: string, screenshot: AuditScreenshot, accessToken?: string | null) {
+  const url = `/api/audit/${encodeURIComponent(auditId)}/screenshots/${encodeURIComponent(screenshot.id)}`
+  return accessToken ? `${url}?token=${encodeURIComponent(accessToken)}` : url
+}
+
+/**
+ * The annotated screenshot that explains a recommendation, if the scanner
+ * took one: mobile before desktop, the first screen before the full page
+ */
+export function findScreenshotCallout(result: AuditResult, ruleId: string | undefined): ScreenshotCallout | null {
+  if (!ruleId) return null
+
+  const order = (s: AuditScreenshot) => (s.viewport === "mobile" ? 0 : 2) + (s.variant === "fold" ? 0 : 1)
+  const screenshots = [...(result.screenshots ?? [])].sort(
+    (a, b) => Number(a.pageKind !== "home") - Number(b.pageKind !== "home") || order(a) - order(b)
+  )
+
+  for (const screenshot of screenshots) {
+    const annotation = screenshot.annotations.find((a) => a.ruleIds.includes(ruleId))
+    if (annotation) return { screenshot, annotation }
+  }
+  return null
+}
+
+// Box drawn over an annotated element, positioned in percent of the image
+function Highlight({
+  annotation,
+  top,
+  height,
+  width,
+}: {
+  annotation: Annotation
+  top: number
+  height: number
+  width: number
+}) {
+  return (
+    <div
+      className="absolute rounded-md border-2 border-rose-500 bg-rose-500/10 pointer-events-none"
+      style={{
+        top: `${((annotation.rect.top - top) / height) * 100}%`,
+        left: `${(annotation.rect.left / width) * 100}%`,
+        width: `${(annotation.rect.width / width) * 100}%`,
+        height: `${(annotation.rect.height / height) * 100}%`,
+      }}
+    />
+  )
+}
+
+// The part of a screenshot around one annotation, with the element highlighted
+export function ScreenshotCalloutView({
+  callout,
+  auditId,
+  accessToken,
+  className,
+}: {
+  callout: ScreenshotCallout
+  auditId: string
+  accessToken?: string | null
+  className?: string
+}) {
+  const { screenshot, annotation } = callout
+  const cropTop = Math.max(0, annotation.rect.top - CROP_PADDING)
+  const cropHeight = Math.min(
+    screenshot.height - cropTop,
+    Math.max(annotation.rect.height + CROP_PADDING * 2, Math.round(screenshot.width * 0.6))
+  )
+
+  return (
+    <figure className={cn("max-w-sm", className)}>
+      <div
+        className="relative overflow-hidden rounded-md bg-gray-100 shadow-sm"
+        style={{ aspectRatio: `${screenshot.width} / ${cropHeight}` }}
+      >
+        {/* Margin percentages are of the width, so this shifts the image by cropTop */}
+        <Image
+          src={screenshotUrl(auditId, screenshot, accessToken)}
+          alt={`${annotation.label} on the ${screenshot.viewport} ${PAGE_LABELS[screenshot.pageKind]?.toLowerCase() ?? "page"}`}
+          width={screenshot.width}
+          height={screenshot.height}
+          unoptimized
+          className="block w-full h-auto max-w-none"
+          style={{ marginTop: `-${(cropTop / screenshot.width) * 100}%` }}
+        />
+        <Highlight annotation={annotation} top={cropTop} height={cropHeight} width={screenshot.width} />
+      </div>
+      <figcaption className="mt-1.5 text-xs text-gray-400">
+        {annotation.label} · {screenshot.viewport === "mobile" ? "Mobile" : "Desktop"}
+      </figcaption>
+    </figure>
+  )
+}
+
+function AnnotatedScreenshot({
+  screenshot,
+  full,
+  auditId,
+  accessToken,
+}: {
+  screenshot: AuditScreenshot
+  full?: AuditScreenshot
+  auditId: string
+  accessToken?: string | null
+}) {
+  return (
+    <figure className={screenshot.viewport === "mobile" ? "w-full sm:w-48 shrink-0" : "flex-1 min-w-0"}>
+      <div className="relative overflow-hidden rounded-md bg-gray-100 shadow-sm">
+        <Image
+          src={screenshotUrl(auditId, screenshot, accessToken)}
+          alt={`${PAGE_LABELS[screenshot.pageKind] ?? "Page"} on ${screenshot.viewport}`}
+          width={screenshot.width}
+          height={screenshot.height}
+          unoptimized
+          className="block w-full h-auto"
+        />
+        {screenshot.annotations.map((annotation, idx) => (
+          <Highlight key={idx} annotation={annotation} top={0} height={screenshot.height} width={screenshot.width} />
+        ))}
+      </div>
+      <figcaption className="mt-1.5 flex items-center justify-between gap-2 text-xs text-gray-400">
+        <span>{screenshot.viewport === "mobile" ? "Mobile" : "Desktop"}, first screen</span>
+        {full && (
+          <a
+            href={screenshotUrl(auditId, full, accessToken)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700"
+          >
+            Full page <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </figcaption>
+    </figure>
+  )
+}
+
+// "What we saw" section: the first screen of each page the scanner
+// screenshotted, at mobile and desktop size, with what it looked at marked
+export function ReportScreenshots({
+  result,
+  auditId,
+  accessToken,
+  className,
+}: {
+  result: AuditResult
+  auditId: string
+  accessToken?: string | null
+  className?: string
+}) {
+  // Funnel walk screenshots are shown with the walk
+  const screenshots = (result.screenshots ?? []).filter((s) => s.funnelStep === undefined)
+  const pages = [...new Set(screenshots.map((s) => s.pageUrl))]
+  if (pages.length === 0) return null
+
+  return (
+    <section className={cn("mb-10", className)}>
+      <div className="flex items-center gap-3 mb-4">
+        <div className="p-2 bg-blue-50/80 rounded-md">
+          <Camera className="w-4 h-4 text-blue-500" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">What We Saw</h2>
+          <p className="text-gray-400 text-sm">
+            Your site as a guest first sees it, with the elements we checked marked.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        {pages.map((pageUrl) => {
+          const shots = screenshots.filter((s) => s.pageUrl === pageUrl)
+          const folds = shots.filter((s) => s.variant === "fold")
+          const labels = [...new Set(folds.flatMap((s) => s.annotations.map((a) => a.label)))]
+
+          return (
+            <div key={pageUrl} className="bg-white/70 backdrop-blur-sm rounded-xl shadow-sm shadow-gray-200/50 p-5">
+              <div className="flex items-baseline justify-between gap-3 mb-4">
+                <h3 className="font-medium text-gray-900">{PAGE_LABELS[shots[0].pageKind] ?? "Page"}</h3>
+                <span className="text-xs text-gray-400 truncate">{pageUrl}</span>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-4 items-start">
+                {folds.map((fold) => (
+                  <AnnotatedScreenshot
+                    key={fold.id}
+                    screenshot={fold}
+                    full={shots.find((s) => s.viewport === fold.viewport && s.variant === "full")}
+                    auditId={auditId}
+                    accessToken={accessToken}
+                  />
+                ))}
+              </div>
+              {labels.length > 0 && (
+                <ul className="mt-4 flex flex-wrap gap-2">
+                  {labels.map((label) => (
+                    <li key={label} className="text-xs px-2 py-1 rounded-md bg-rose-50/80 text-rose-600">
+                      {label}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,54 @@
+import { cn } from "@/lib/utils"
+import type { ReportBranding } from "@/lib/workspace-storage"
+import { BrandLogo, brandColor } from "./report-branding"
+
+interface ReportShareCardProps {
+  domain: string
+  shareUrl: string
+  qrDataUrl: string
+  generatedAt: string
+  branding?: ReportBranding
+  className?: string
+}
+
+// Closing card for exported (HTML/PDF) reports: the QR code and short link
+// back to the live report, since an attachment can't be kept up to date
+export function ReportShareCard({ domain, shareUrl, qrDataUrl, generatedAt, branding, className }: ReportShareCardProps) {
+  const generated = new Date(generatedAt).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+  })
+  const displayUrl = shareUrl.replace(/^https?:\/\//, "").split("?")[0]
+
+  return (
+    <section
+      className={cn(
+        "max-w-5xl mx-auto px-6 pb-12 break-inside-avoid",
+        className
+      )}
+    >
+      <div className="bg-white rounded-xl shadow-sm shadow-gray-200/50 p-6 flex flex-col sm:flex-row items-center gap-6">
+        {/* eslint-disable-next-line @next/next/no-img-element -- inline data URL, no optimization to do */}
+        <img src={qrDataUrl} alt={`QR code for the live ${domain} report`} className="w-28 h-28 shrink-0" />
+        <div className="flex-1 text-center sm:text-left">
+          <h2 className="text-lg font-semibold text-gray-900">See the live report</h2>
+          <p className="text-gray-500 text-sm mt-1">
+            Scan the code or open the link for the latest results, fixes and next steps for {domain}.
+          </p>
+          <a
+            href={shareUrl}
+            className="inline-block mt-3 text-sm font-medium text-indigo-600 break-all"
+            style={brandColor(branding?.primaryColor, "color")}
+          >
+            {displayUrl}
+          </a>
+        </div>
+        <div className="text-center sm:text-right shrink-0">
+          <BrandLogo branding={branding} className="h-5 inline-block" />
+          <p className="text-xs text-gray-400 mt-2">Exported {generated}</p>
+        </div>
+      </div>
+    </section>
+  )
+}
@@ -3,7 +3,11 @@
 import { useState } from "react"
 import { cn } from "@/lib/utils"
 import { trackCTAClick } from "@/lib/ga"
+import { useAnalyticsClick } from "../analytics-tracker"
+import { ReportBenchmark } from "../report-benchmark"
+import { BrandFooter, BrandLogo, brandColor, brandFont, getBrandCta, getBrandHomeUrl } from "../report-branding"
 import type { AuditResult, AuditRecommendation } from "@/types/audit"
+import type { ReportBranding } from "@/lib/workspace-storage"
 import {
   Zap,
   Search,
@@ -25,6 +29,7 @@ import {
 interface ReportVariantBProps {
   result: AuditResult
   auditId?: string
+  branding?: ReportBranding
   className?: string
 }
 
@@ -207,13 +212,15 @@ function RecommendationRow({ recommendation }: { recommendation: AuditRecommenda
   )
 }
 
-export function ReportVariantB({ result, auditId, className }: ReportVariantBProps) {
+export function ReportVariantB({ result, auditId, branding, className }: ReportVariantBProps) {
   const [activeTab, setActiveTab] = useState<"overview" | "issues">("overview")
 
-  // CTA click handler with GA tracking
+  // CTA click handler with GA and built-in tracking
+  const trackClick = useAnalyticsClick(auditId ?? "")
   const handleCTAClick = (ctaType: string, ctaLocation: string) => {
     if (auditId) {
       trackCTAClick(auditId, ctaType, ctaLocation)
+      trackClick(ctaType, ctaLocation)
     }
   }
 
@@ -228,6 +235,11 @@ export function ReportVariantB({ result, auditId, className }: ReportVariantBPro
     return acc
   }, {} as Record<string, number>)
 
+  const cta = getBrandCta(branding, {
+    heading: "Ready to fix these issues?",
+    description: "HostAI can help optimize your website and improve your booking flow.",
+  })
+
   const formattedDate = new Date(result.timestamp).toLocaleDateString("en-US", {
     month: "short",
     day: "numeric",
@@ -235,18 +247,22 @@ export function ReportVariantB({ result, auditId, className }: ReportVariantBPro
   })
 
   return (
-    <div className={cn("min-h-screen bg-gradient-to-b from-gray-50 to-gray-100/30", className)}>
+    <div className={cn("min-h-screen bg-gradient-to-b from-gray-50 to-gray-100/30", className)} style={brandFont(branding)}>
       {/* Header */}
       <header className="sticky top-0 z-50 bg-white/70 backdrop-blur-md border-b border-gray-100/50">
         <div className="max-w-5xl mx-auto px-6 py-3">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
               <a
-                href="/"
+                href={getBrandHomeUrl(branding)}
                 className="flex items-center gap-2 text-gray-400 hover:text-gray-600 transition-colors"
-                title="Back to GetHost.AI"
+                title={`Back to ${branding?.brandName ?? "GetHost.AI"}`}
               >
-                <Home className="w-4 h-4" />
+                {branding?.workspaceId ? (
+                  <BrandLogo branding={branding} className="h-5" />
+                ) : (
+                  <Home className="w-4 h-4" />
+                )}
               </a>
               <div className="h-4 w-px bg-gray-200" />
               <div>
@@ -358,6 +374,9 @@ export function ReportVariantB({ result, auditId, className }: ReportVariantBPro
               </div>
             </section>
 
+            {/* Competitor Benchmark */}
+            <ReportBenchmark result={result} className="mb-10" />
+
             {/* Top Issues */}
             {criticalIssues.length > 0 && (
               <section className="mb-10">
@@ -432,25 +451,36 @@ export function ReportVariantB({ result, auditId, className }: ReportVariantBPro
 
         {/* CTA Section */}
         <section className="mt-12">
-          <div className="bg-gray-900/95 backdrop-blur-sm rounded-xl p-8 text-center shadow-lg shadow-gray-900/10">
+          <div
+            className="bg-gray-900/95 backdrop-blur-sm rounded-xl p-8 text-center shadow-lg shadow-gray-900/10"
+            style={brandColor(branding?.accentColor)}
+          >
             <h3 className="text-xl font-medium text-white mb-2">
-              Ready to fix these issues?
+              {cta.heading}
             </h3>
             <p className="text-gray-400 text-sm mb-6 max-w-lg mx-auto">
-              HostAI can help optimize your website and improve your booking flow.
+              {cta.description}
             </p>
-            <a
-              href="https://hostai.app"
-              target="_blank"
-              rel="noopener noreferrer"
-              onClick={() => handleCTAClick("get_started", "cta_section")}
-              className="inline-flex items-center gap-2 bg-white text-gray-900 font-medium px-6 py-3 rounded-lg hover:bg-gray-100 transition-colors"
-            >
-              Get Started
-              <ArrowUpRight className="w-4 h-4" />
-            </a>
+            {cta.url && (
+              <a
+                href={cta.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={() => handleCTAClick("get_started", "cta_section")}
+                className={cn(
+                  "inline-flex items-center gap-2 bg-white text-gray-900 font-medium px-6 py-3 rounded-lg hover:bg-gray-100 transition-colors",
+                  branding?.primaryColor && "text-white"
+                )}
+                style={brandColor(branding?.primaryColor)}
+              >
+                {cta.text}
+                <ArrowUpRight className="w-4 h-4" />
+              </a>
+            )}
           </div>
         </section>
+
+        <BrandFooter branding={branding} className="px-0 pt-10 pb-0" />
       </main>
     </div>
   )
@@ -3,7 +3,11 @@
 import { useState, useEffect, useId } from "react"
 import { cn } from "@/lib/utils"
 import { trackCTAClick } from "@/lib/ga"
+import { useAnalyticsClick } from "../analytics-tracker"
+import { ReportBenchmark } from "../report-benchmark"
+import { BrandFooter, BrandLogo, brandColor, brandFont, getBrandCta, getBrandHomeUrl } from "../report-branding"
 import type { AuditResult, AuditRecommendation } from "@/types/audit"
+import type { ReportBranding } from "@/lib/workspace-storage"
 import {
   Zap,
   Search,
@@ -30,6 +34,7 @@ import {
 interface ReportVariantCProps {
   result: AuditResult
   auditId?: string
+  branding?: ReportBranding
   className?: string
 }
 
@@ -342,16 +347,23 @@ function StatsTicker({ result }: { result: AuditResult }) {
   )
 }
 
-export function ReportVariantC({ result, auditId, className }: ReportVariantCProps) {
+export function ReportVariantC({ result, auditId, branding, className }: ReportVariantCProps) {
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
 
-  // CTA click handler with GA tracking
+  // CTA click handler with GA and built-in tracking
+  const trackClick = useAnalyticsClick(auditId ?? "")
   const handleCTAClick = (ctaType: string, ctaLocation: string) => {
     if (auditId) {
       trackCTAClick(auditId, ctaType, ctaLocation)
+      trackClick(ctaType, ctaLocation)
     }
   }
 
+  const cta = getBrandCta(branding, {
+    heading: "Ready to improve your score?",
+    description: "HostAI can automate these fixes and boost conversions.",
+  })
+
   // Filter recommendations by category
   const filteredRecs = selectedCategory
     ? result.recommendations.filter(r => r.category === selectedCategory)
@@ -364,26 +376,35 @@ export function ReportVariantC({ result, auditId, className }: ReportVariantCPro
   })
 
   return (
-    <div className={cn("min-h-screen bg-gradient-to-b from-slate-50 to-slate-100/50 text-slate-800", className)}>
+    <div
+      className={cn("min-h-screen bg-gradient-to-b from-slate-50 to-slate-100/50 text-slate-800", className)}
+      style={brandFont(branding)}
+    >
       {/* Top bar */}
       <header className="bg-white/70 backdrop-blur-md sticky top-0 z-50">
         <div className="max-w-[1600px] mx-auto flex items-center justify-between px-4 py-3">
           <div className="flex items-center gap-3">
             <a
-              href="/"
+              href={getBrandHomeUrl(branding)}
               className="p-1.5 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-colors"
-              title="Back to GetHost.AI"
+              title={`Back to ${branding?.brandName ?? "GetHost.AI"}`}
             >
               <Home className="w-4 h-4" />
             </a>
             <div className="h-4 w-px bg-slate-200" />
-            <div className="flex items-center gap-2">
-              <div className="w-6 h-6 bg-cyan-600 rounded-md flex items-center justify-center">
-                <BarChart3 className="w-3.5 h-3.5 text-white" />
-              </div>
-              <span className="text-sm font-mono font-bold text-slate-800">GETHOST</span>
-              <span className="text-sm font-mono text-cyan-600">.AI</span>
-            </div>
+            <BrandLogo
+              branding={branding}
+              className="h-5"
+              houseLogo={
+                <div className="flex items-center gap-2">
+                  <div className="w-6 h-6 bg-cyan-600 rounded-md flex items-center justify-center">
+                    <BarChart3 className="w-3.5 h-3.5 text-white" />
+                  </div>
+                  <span className="text-sm font-mono font-bold text-slate-800">GETHOST</span>
+                  <span className="text-sm font-mono text-cyan-600">.AI</span>
+                </div>
+              }
+            />
             <span className="text-slate-300">/</span>
             <span className="text-sm font-mono text-slate-500">{result.domain}</span>
           </div>
@@ -494,6 +515,9 @@ export function ReportVariantC({ result, auditId, className }: ReportVariantCPro
                 ))}
               </div>
             </div>
+
+            {/* Competitor benchmark */}
+            <ReportBenchmark result={result} className="mb-0 rounded-lg shadow-slate-100/80" />
           </div>
 
           {/* Right column: Summary + Stats */}
@@ -561,6 +585,7 @@ export function ReportVariantC({ result, auditId, className }: ReportVariantCPro
           </div>
         </div>
 
+        <BrandFooter branding={branding} className="max-w-none px-0" />
       </main>
 
       {/* Footer CTA - Full width at bottom */}
@@ -569,23 +594,26 @@ export function ReportVariantC({ result, auditId, className }: ReportVariantCPro
           <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
             <div className="flex items-center gap-3">
               <div className="p-2 bg-cyan-50/70 rounded-md">
-                <TrendingUp className="w-5 h-5 text-cyan-600" />
+                <TrendingUp className="w-5 h-5 text-cyan-600" style={brandColor(branding?.accentColor, "color")} />
               </div>
               <div>
-                <p className="text-sm font-medium text-slate-800">Ready to improve your score?</p>
-                <p className="text-xs text-slate-500">HostAI can automate these fixes and boost conversions.</p>
+                <p className="text-sm font-medium text-slate-800">{cta.heading}</p>
+                <p className="text-xs text-slate-500">{cta.description}</p>
               </div>
             </div>
-            <a
-              href="https://hostai.app"
-              target="_blank"
-              rel="noopener noreferrer"
-              onClick={() => handleCTAClick("get_started", "sticky_footer")}
-              className="flex items-center gap-2 px-5 py-2.5 bg-cyan-600 hover:bg-cyan-500 text-white font-medium text-sm rounded-lg transition-colors shadow-sm"
-            >
-              Get Started
-              <ArrowUpRight className="w-4 h-4" />
-            </a>
+            {cta.url && (
+              <a
+                href={cta.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={() => handleCTAClick("get_started", "sticky_footer")}
+                className="flex items-center gap-2 px-5 py-2.5 bg-cyan-600 hover:bg-cyan-500 text-white font-medium text-sm rounded-lg transition-colors shadow-sm"
+                style={brandColor(branding?.primaryColor)}
+              >
+                {cta.text}
+                <ArrowUpRight className="w-4 h-4" />
+              </a>
+            )}
           </div>
         </div>
       </footer>
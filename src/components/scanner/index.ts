@@ -5,9 +5,9 @@
 export type { AuditPhase, ScannerProgress, ScannerConfig } from "./types"
 
 // Phase definitions
-export { DEFAULT_PHASES, getPhase, getPhaseTimings } from "./phases"
+export { DEFAULT_PHASES, getPhase } from "./phases"
 
-// Hook for managing scanner progress
+// Hook driving scanner progress from the audit event stream
 export { useScannerProgress } from "./use-scanner-progress"
 
 // Main multi-phase scanner (full-page experience)
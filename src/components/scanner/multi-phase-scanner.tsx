@@ -24,6 +24,8 @@ interface MultiPhaseScannerProps {
   phases?: AuditPhase[]
   /** Domain being scanned */
   domain?: string
+  /** Live step reported by the audit (e.g. "Crawling website (3 of up to 12 pages)...") */
+  statusMessage?: string
   /** Callback when View Report is clicked */
   onViewReport?: () => void
   /** Final score to display on completion (optional) */
@@ -82,6 +84,7 @@ export function MultiPhaseScanner({
   overallProgress,
   phases = DEFAULT_PHASES,
   domain,
+  statusMessage,
   onViewReport,
   finalScore,
   topIssues,
@@ -185,6 +188,10 @@ export function MultiPhaseScanner({
           <PhaseAnimation phase={phase} progress={phaseProgress} />
         )}
       </div>
+
+      {statusMessage && !isComplete && (
+        <p className="mt-4 text-center text-sm text-muted-foreground">{statusMessage}</p>
+      )}
     </div>
   )
 }
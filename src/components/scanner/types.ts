@@ -8,8 +8,6 @@ export interface AuditPhase {
   color: string
   /** Simulated file names shown during this phase */
   items: string[]
-  /** Weight as percentage of total duration (should sum to 100 across all phases) */
-  weight?: number
 }
 
 export interface ScannerProgress {
@@ -26,8 +24,8 @@ export interface ScannerProgress {
 }
 
 export interface ScannerConfig {
-  /** Total duration in milliseconds */
-  totalDuration: number
+  /** Audit job whose event stream drives the scanner */
+  jobId: string
   /** Phases to run through */
   phases: AuditPhase[]
   /** Called when scan completes */
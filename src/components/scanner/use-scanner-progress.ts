@@ -2,145 +2,302 @@
 
 import { useState, useEffect, useCallback, useRef } from "react"
 import type { AuditPhase, ScannerProgress } from "./types"
-import { getPhaseTimings } from "./phases"
+import {
+  AUDIT_PHASE_RANGES,
+  phaseForProgress,
+  phaseProgress as progressWithinPhase,
+} from "@/lib/audit-progress"
+import type { AuditResult, AuditStreamEvent } from "@/types/audit"
 
 interface UseScannerProgressOptions {
-  /** Total duration in milliseconds (default: 60000 = 60s) */
-  totalDuration?: number
   /** Phases to run through */
   phases: AuditPhase[]
-  /** Auto-start on mount */
-  autoStart?: boolean
-  /** Called when scan completes */
-  onComplete?: () => void
-  /** Update interval in ms (default: 100) */
+  /** Called once the scanner has animated through the last phase */
+  onComplete?: (result: AuditResult) => void
+  /** Called when the audit fails or is cancelled */
+  onError?: (error: string) => void
+  /** Animation frame interval in ms (default: 100) */
   updateInterval?: number
   /** Hold time at 100% before transitioning to next phase, in ms (default: 800) */
   phaseHoldMs?: number
 }
 
+// Phase progress gained per frame while catching up to the server
+const CATCH_UP_STEP = 4
+// While waiting on a slow stage, creep forward this much per frame...
+const CREEP_STEP = 0.15
+// ...but never past this point of the phase
+const CREEP_LIMIT = 90
+
+// Stream errors in a row before giving up on it and polling the job status
+const MAX_STREAM_ERRORS = 3
+const STATUS_POLL_MS = 2000
+
+interface Position {
+  phase: number
+  phaseProgress: number
+}
+
+const INITIAL_POSITION: Position = { phase: 0, phaseProgress: 0 }
+
+/**
+ * Drives the scanner from the audit job's event stream
+ * (GET /api/audit/stream/[jobId]). The displayed position eases toward the
+ * last position the server reported, finishing each phase before moving on.
+ */
 export function useScannerProgress({
-  totalDuration = 60000,
   phases,
-  autoStart = false,
   onComplete,
+  onError,
   updateInterval = 100,
   phaseHoldMs = 800,
 }: UseScannerProgressOptions) {
-  const [isRunning, setIsRunning] = useState(autoStart)
-  const [progress, setProgress] = useState<ScannerProgress>({
-    currentPhase: 0,
-    phaseProgress: 0,
-    overallProgress: 0,
-    isComplete: false,
-    statusMessage: phases[0]?.description || "Initializing...",
-  })
-
-  const startTimeRef = useRef<number | null>(null)
-  const phaseTimings = getPhaseTimings(phases, totalDuration)
-
-  // Calculate progress based on elapsed time
-  const updateProgress = useCallback(() => {
-    if (!startTimeRef.current) return
-
-    const elapsed = Date.now() - startTimeRef.current
-    const overallProgress = Math.min(100, (elapsed / totalDuration) * 100)
-
-    // Find current phase
-    let currentPhaseIndex = 0
-    let phaseProgress = 0
-
-    for (let i = 0; i < phaseTimings.length; i++) {
-      const timing = phaseTimings[i]
-      if (elapsed >= timing.startMs && elapsed < timing.endMs) {
-        currentPhaseIndex = i
-
-        // Calculate progress with hold period at the end
-        const phaseElapsed = elapsed - timing.startMs
-        const workDuration = timing.durationMs - phaseHoldMs // Time for 0-100%
-        const holdStart = workDuration // When hold begins
-
-        if (phaseElapsed >= holdStart) {
-          // In hold period - stay at 100%
-          phaseProgress = 100
-        } else {
-          // Still working - scale to fill 0-100% in workDuration
-          phaseProgress = (phaseElapsed / workDuration) * 100
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [partial, setPartial] = useState<Partial<AuditResult>>({})
+  const [progress, setProgress] = useState<ScannerProgress>(initialProgress(phases))
+
+  const targetRef = useRef<Position>(INITIAL_POSITION)
+  const displayedRef = useRef<Position>(INITIAL_POSITION)
+  const holdUntilRef = useRef(0)
+  const stepRef = useRef<string | null>(null)
+  const resultRef = useRef<AuditResult | null>(null)
+  const onCompleteRef = useRef(onComplete)
+  const onErrorRef = useRef(onError)
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete
+    onErrorRef.current = onError
+  }, [onComplete, onError])
+
+  const phaseIndex = useCallback(
+    (phaseId: string, overall: number) => {
+      const index = phases.findIndex((p) => p.id === phaseId)
+      return index >= 0
+        ? index
+        : Math.min(phases.length - 1, Math.floor((overall / 100) * phases.length))
+    },
+    [phases]
+  )
+
+  // Subscribe to the job's events
+  useEffect(() => {
+    if (!jobId) return
+
+    const source = new EventSource(`/api/audit/stream/${jobId}`)
+    let streamErrors = 0
+    let stopped = false
+    let pollTimer: ReturnType<typeof setTimeout> | undefined
+
+    const moveTo = (phaseId: string, overall: number, step: string) => {
+      const index = phaseIndex(phaseId, overall)
+      const target = {
+        phase: index,
+        phaseProgress: progressWithinPhase(phases[index].id, overall),
+      }
+      // Events can arrive out of order across reconnects; never move backwards
+      const current = targetRef.current
+      if (
+        target.phase > current.phase ||
+        (target.phase === current.phase && target.phaseProgress > current.phaseProgress)
+      ) {
+        targetRef.current = target
+      }
+      stepRef.current = step
+    }
+
+    const apply = (event: AuditStreamEvent) => {
+      switch (event.type) {
+        case "progress":
+          moveTo(event.phase, event.progress, event.step)
+          break
+        case "stage":
+          moveTo(event.phase, event.progress, event.step)
+          setPartial((prev) => ({ ...prev, ...event.partial }))
+          break
+        case "retrying":
+          stepRef.current = `Retrying (attempt ${event.attempt + 1} of ${event.maxAttempts})...`
+          break
+        case "completed":
+          resultRef.current = event.result
+          targetRef.current = { phase: phases.length - 1, phaseProgress: 100 }
+          stepRef.current = "Complete"
+          source.close()
+          break
+        case "failed":
+          source.close()
+          setJobId(null)
+          onErrorRef.current?.(event.error)
+          break
+        case "cancelled":
+          source.close()
+          setJobId(null)
+          onErrorRef.current?.("Audit was cancelled")
+          break
+      }
+    }
+
+    const handle = (message: MessageEvent<string>) => {
+      streamErrors = 0
+      apply(JSON.parse(message.data) as AuditStreamEvent)
+    }
+
+    // The stream route's 404 (unknown or expired job) or a connection that
+    // keeps dropping: fall back to polling the job status, which reports
+    // those as errors
+    const pollStatus = async () => {
+      try {
+        const response = await fetch(`/api/audit/status/${jobId}`)
+        const data = await response.json()
+        if (stopped) return
+
+        if (!response.ok) {
+          setJobId(null)
+          onErrorRef.current?.(data.error || "Failed to get audit status")
+          return
         }
-        break
-      } else if (elapsed >= timing.endMs) {
-        currentPhaseIndex = i
-        phaseProgress = 100
+
+        switch (data.status) {
+          case "completed":
+            apply({ type: "completed", result: data.result })
+            return
+          case "failed":
+            apply({ type: "failed", error: data.error || "Audit failed" })
+            return
+          case "cancelled":
+            apply({ type: "cancelled" })
+            return
+          default:
+            apply({
+              type: "progress",
+              phase: phaseForProgress(data.progress),
+              progress: data.progress,
+              step: data.currentStep,
+            })
+        }
+      } catch (err) {
+        if (stopped) return
+        setJobId(null)
+        onErrorRef.current?.(err instanceof Error ? err.message : "Failed to get audit status")
+        return
       }
+      pollTimer = setTimeout(pollStatus, STATUS_POLL_MS)
     }
 
-    const isComplete = elapsed >= totalDuration
+    source.onerror = () => {
+      streamErrors += 1
+      if (source.readyState !== EventSource.CLOSED && streamErrors < MAX_STREAM_ERRORS) return
+      source.close()
+      void pollStatus()
+    }
 
-    setProgress({
-      currentPhase: currentPhaseIndex,
-      phaseProgress: Math.min(100, Math.round(phaseProgress)),
-      overallProgress: Math.round(overallProgress),
-      isComplete,
-      statusMessage: phases[currentPhaseIndex]?.description || "Processing...",
-    })
+    for (const type of ["progress", "stage", "retrying", "completed", "failed", "cancelled"]) {
+      source.addEventListener(type, handle as EventListener)
+    }
 
-    if (isComplete) {
-      setIsRunning(false)
-      onComplete?.()
+    return () => {
+      stopped = true
+      clearTimeout(pollTimer)
+      source.close()
     }
-  }, [phases, phaseTimings, totalDuration, onComplete, phaseHoldMs])
+  }, [jobId, phases, phaseIndex])
 
-  // Run the timer
+  // Animate the displayed position toward the target
   useEffect(() => {
-    if (!isRunning) return
+    if (!jobId) return
 
-    if (!startTimeRef.current) {
-      startTimeRef.current = Date.now()
-    }
+    const interval = setInterval(() => {
+      const target = targetRef.current
+      const shown = { ...displayedRef.current }
+      const now = Date.now()
+
+      if (shown.phase < target.phase) {
+        if (shown.phaseProgress < 100) {
+          shown.phaseProgress = Math.min(100, shown.phaseProgress + CATCH_UP_STEP)
+          if (shown.phaseProgress === 100) holdUntilRef.current = now + phaseHoldMs
+        } else if (now >= holdUntilRef.current) {
+          shown.phase += 1
+          shown.phaseProgress = 0
+        }
+      } else if (shown.phaseProgress < target.phaseProgress) {
+        shown.phaseProgress = Math.min(target.phaseProgress, shown.phaseProgress + CATCH_UP_STEP)
+      } else if (!resultRef.current && shown.phaseProgress < CREEP_LIMIT) {
+        shown.phaseProgress = Math.min(CREEP_LIMIT, shown.phaseProgress + CREEP_STEP)
+      }
+
+      displayedRef.current = shown
+
+      const isComplete =
+        !!resultRef.current && shown.phase === phases.length - 1 && shown.phaseProgress >= 100
+
+      setProgress({
+        currentPhase: shown.phase,
+        phaseProgress: Math.round(shown.phaseProgress),
+        overallProgress: overallProgress(phases, shown),
+        isComplete,
+        statusMessage:
+          (shown.phase === target.phase && stepRef.current) ||
+          phases[shown.phase]?.description ||
+          "Processing...",
+      })
+
+      if (isComplete && resultRef.current) {
+        const result = resultRef.current
+        setJobId(null)
+        onCompleteRef.current?.(result)
+      }
+    }, updateInterval)
 
-    const interval = setInterval(updateProgress, updateInterval)
     return () => clearInterval(interval)
-  }, [isRunning, updateProgress, updateInterval])
+  }, [jobId, phases, updateInterval, phaseHoldMs])
 
-  // Control functions
-  const start = useCallback(() => {
-    startTimeRef.current = Date.now()
-    setProgress({
-      currentPhase: 0,
-      phaseProgress: 0,
-      overallProgress: 0,
-      isComplete: false,
-      statusMessage: phases[0]?.description || "Initializing...",
-    })
-    setIsRunning(true)
+  const resetState = useCallback(() => {
+    targetRef.current = INITIAL_POSITION
+    displayedRef.current = INITIAL_POSITION
+    holdUntilRef.current = 0
+    stepRef.current = null
+    resultRef.current = null
+    setPartial({})
+    setProgress(initialProgress(phases))
   }, [phases])
 
-  const pause = useCallback(() => {
-    setIsRunning(false)
-  }, [])
-
-  const resume = useCallback(() => {
-    setIsRunning(true)
-  }, [])
+  // Control functions
+  const start = useCallback((id: string) => {
+    resetState()
+    setJobId(id)
+  }, [resetState])
 
   const reset = useCallback(() => {
-    startTimeRef.current = null
-    setIsRunning(false)
-    setProgress({
-      currentPhase: 0,
-      phaseProgress: 0,
-      overallProgress: 0,
-      isComplete: false,
-      statusMessage: phases[0]?.description || "Initializing...",
-    })
-  }, [phases])
+    setJobId(null)
+    resetState()
+  }, [resetState])
 
   return {
     progress,
-    isRunning,
+    /** Result fields from the stages finished so far */
+    partial,
+    isRunning: jobId !== null,
     start,
-    pause,
-    resume,
     reset,
   }
 }
+
+function initialProgress(phases: AuditPhase[]): ScannerProgress {
+  return {
+    currentPhase: 0,
+    phaseProgress: 0,
+    overallProgress: 0,
+    isComplete: false,
+    statusMessage: phases[0]?.description || "Initializing...",
+  }
+}
+
+// Overall progress using the server's phase ranges, or equal shares for
+// phases the server doesn't know
+function overallProgress(phases: AuditPhase[], position: Position): number {
+  const phase = phases[position.phase]
+  const range = AUDIT_PHASE_RANGES.find((r) => r.id === phase?.id)
+  if (range) {
+    return Math.round(range.start + ((range.end - range.start) * position.phaseProgress) / 100)
+  }
+  return Math.round(((position.phase + position.phaseProgress / 100) / phases.length) * 100)
+}
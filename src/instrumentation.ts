@@ -0,0 +1,21 @@
+// Runs once when the server starts
+
+export async function register() {
+  // The scheduler, webhook dispatcher and CRM sync need Node APIs and a long-lived process
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  if (process.env.WEBHOOKS_ENABLED !== "false") {
+    const { startWebhookDispatcher } = await import("./lib/webhooks");
+    startWebhookDispatcher();
+  }
+
+  if (process.env.CRM_SYNC_ENABLED !== "false") {
+    const { startCrmSync } = await import("./lib/crm-sync");
+    startCrmSync();
+  }
+
+  if (process.env.SCHEDULER_ENABLED === "false") return;
+
+  const { startScheduler } = await import("./lib/scheduler");
+  startScheduler();
+}
@@ -0,0 +1,234 @@
+/**
+ * Admin Audit Log
+ *
+ * Append-only trail of admin actions - who deleted audits, edited a lead,
+ * changed a report link or ran migrations - with the entity as it was before
+ * and after. Mutating admin routes call recordAdminAction() once the change
+ * has been made. Nothing here updates or deletes entries.
+ */
+
+import { headers } from "next/headers";
+import { db, initializeDatabase } from "./db";
+import type { AdminUser } from "./admin-users";
+
+export type AdminEntityType =
+  | "audit"
+  | "batch"
+  | "lead"
+  | "report_link"
+  | "access_token"
+  | "competitor"
+  | "experiment"
+  | "schedule"
+  | "scoring_profile"
+  | "workspace"
+  | "admin_user"
+  | "admin_session"
+  | "api_key"
+  | "webhook"
+  | "crm_connection"
+  | "migrations";
+
+export interface AdminAuditEntry {
+  id: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;
+  entityType: AdminEntityType;
+  entityId: string | null;
+  before: unknown;
+  after: unknown;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface AdminActionInput {
+  // "<entity>.<verb>", e.g. "lead.update"
+  action: string;
+  entityType: AdminEntityType;
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AdminAuditFilters {
+  actor?: string; // User ID or email
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  since?: string; // ISO date, inclusive
+  until?: string; // ISO date, exclusive
+  limit?: number;
+  offset?: number;
+}
+
+// Values never written to the log, e.g. webhook secrets in schedule notifiers
+const REDACTED_KEYS = /^(secret|password|passwordHash|password_hash|token|accessToken|apiToken|apiKey|api_key)$/i;
+
+// Track if schema has been ensured
+let schemaEnsured = false;
+
+// Schema lives in migrations/016_admin_audit_log.sql
+async function ensureSchema() {
+  if (schemaEnsured) return;
+  await initializeDatabase();
+  schemaEnsured = true;
+}
+
+/**
+ * Append an entry for an action `actor` just made. Failing to write the
+ * entry is logged rather than thrown, since the change itself has already
+ * happened.
+ */
+export async function recordAdminAction(
+  actor: AdminUser | null,
+  input: AdminActionInput
+): Promise<void> {
+  try {
+    await ensureSchema();
+
+    const requestHeaders = await headers();
+    const ip =
+      requestHeaders.get("x-forwarded-for")?.split(",")[0].trim() ||
+      requestHeaders.get("x-real-ip") ||
+      null;
+
+    await db.execute({
+      sql: `INSERT INTO admin_audit_log
+            (id, actor_id, actor_email, action, entity_type, entity_id, before_json, after_json, ip, user_agent, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        `act_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        actor?.id ?? null,
+        actor?.email ?? null,
+        input.action,
+        input.entityType,
+        input.entityId ?? null,
+        input.before === undefined ? null : JSON.stringify(redact(input.before)),
+        input.after === undefined ? null : JSON.stringify(redact(input.after)),
+        ip,
+        requestHeaders.get("user-agent")?.slice(0, 500) ?? null,
+        new Date().toISOString(),
+      ],
+    });
+  } catch (error) {
+    console.error(`[Admin Audit Log] Failed to record ${input.action}:`, error);
+  }
+}
+
+/**
+ * Entries matching the filters, newest first
+ */
+export async function listAdminAuditLog(
+  filters: AdminAuditFilters = {}
+): Promise<{ entries: AdminAuditEntry[]; total: number }> {
+  await ensureSchema();
+
+  const conditions: string[] = [];
+  const args: (string | number)[] = [];
+
+  if (filters.actor) {
+    conditions.push("(actor_id = ? OR actor_email = ?)");
+    args.push(filters.actor, filters.actor.toLowerCase());
+  }
+  if (filters.action) {
+    conditions.push("action = ?");
+    args.push(filters.action);
+  }
+  if (filters.entityType) {
+    conditions.push("entity_type = ?");
+    args.push(filters.entityType);
+  }
+  if (filters.entityId) {
+    conditions.push("entity_id = ?");
+    args.push(filters.entityId);
+  }
+  if (filters.since) {
+    conditions.push("created_at >= ?");
+    args.push(filters.since);
+  }
+  if (filters.until) {
+    conditions.push("created_at < ?");
+    args.push(filters.until);
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const limit = Math.min(Math.max(filters.limit ?? 50, 1), 10000);
+  const offset = Math.max(filters.offset ?? 0, 0);
+
+  const countResult = await db.execute({
+    sql: `SELECT COUNT(*) as count FROM admin_audit_log ${whereClause}`,
+    args,
+  });
+
+  const result = await db.execute({
+    sql: `SELECT * FROM admin_audit_log ${whereClause}
+          ORDER BY created_at DESC, id DESC
+          LIMIT ? OFFSET ?`,
+    args: [...args, limit, offset],
+  });
+
+  return {
+    entries: result.rows.map(mapRowToEntry),
+    total: (countResult.rows[0]?.count as number) || 0,
+  };
+}
+
+/**
+ * Distinct actions and entity types, for filter dropdowns
+ */
+export async function getAdminAuditFacets(): Promise<{ actions: string[]; entityTypes: string[] }> {
+  await ensureSchema();
+
+  const [actions, entityTypes] = await Promise.all([
+    db.execute(`SELECT DISTINCT action FROM admin_audit_log ORDER BY action`),
+    db.execute(`SELECT DISTINCT entity_type FROM admin_audit_log ORDER BY entity_type`),
+  ]);
+
+  return {
+    actions: actions.rows.map((row) => row.action as string),
+    entityTypes: entityTypes.rows.map((row) => row.entity_type as string),
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (!value || typeof value !== "object" || value instanceof Date) return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      REDACTED_KEYS.test(key) && item ? "[redacted]" : redact(item),
+    ])
+  );
+}
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== "string") return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function mapRowToEntry(row: Record<string, unknown>): AdminAuditEntry {
+  return {
+    id: row.id as string,
+    actorId: row.actor_id as string | null,
+    actorEmail: row.actor_email as string | null,
+    action: row.action as string,
+    entityType: row.entity_type as AdminEntityType,
+    entityId: row.entity_id as string | null,
+    before: parseJson(row.before_json),
+    after: parseJson(row.after_json),
+    ip: row.ip as string | null,
+    userAgent: row.user_agent as string | null,
+    createdAt: row.created_at as string,
+  };
+}
@@ -1,4 +1,19 @@
 import { cookies } from "next/headers";
+import { NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import {
+  authenticateAdminUser,
+  countAdminUsers,
+  createAdminSession,
+  createAdminUser,
+  getRolePermissions,
+  getSessionUser,
+  hasPermission,
+  normalizeEmail,
+  revokeSessionByToken,
+  type AdminPermission,
+  type AdminUser,
+} from "./admin-users";
 
 // Cookie name for admin auth
 const ADMIN_AUTH_COOKIE = "gethostai_admin_auth";
@@ -7,8 +22,9 @@ const ADMIN_AUTH_COOKIE = "gethostai_admin_auth";
 const COOKIE_MAX_AGE = 60 * 60 * 24 * 7;
 
 /**
- * Gets the admin password from environment
- * Returns null if not configured (auth disabled)
+ * Gets the bootstrap admin password from environment
+ * Only used to create the first owner account - once any admin user exists
+ * it no longer signs anyone in. Returns null if not configured.
  */
 export function getAdminPassword(): string | null {
   return process.env.ADMIN_PASSWORD || null;
@@ -16,42 +32,37 @@ export function getAdminPassword(): string | null {
 
 /**
  * Checks if admin auth is enabled
+ * Enabled once any admin user exists, or while ADMIN_PASSWORD is set to
+ * bootstrap the first one. Otherwise (local dev) everyone acts as an owner.
  */
-export function isAdminAuthEnabled(): boolean {
-  return !!getAdminPassword();
+export async function isAdminAuthEnabled(): Promise<boolean> {
+  return !!getAdminPassword() || (await countAdminUsers()) > 0;
 }
 
 /**
- * Generates a simple auth token from the password
- * In production, consider using a proper JWT or signed token
+ * Resolves an admin cookie value to its signed-in user
+ * Null for a missing, expired or revoked session or a disabled user
  */
-function generateAuthToken(password: string): string {
-  // Simple hash - for MVP this is sufficient
-  // The token is just base64(timestamp:hash)
-  const timestamp = Date.now();
-  const hash = Buffer.from(`${password}:${timestamp}`).toString("base64");
-  return `${timestamp}:${hash}`;
+export async function getAdminUserForToken(value: string | undefined): Promise<AdminUser | null> {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return (await getSessionUser(value))?.user ?? null;
+  } catch (error) {
+    console.error("[Admin Auth] Session lookup failed:", error);
+    return null;
+  }
 }
 
 /**
- * Validates an auth token
+ * The signed-in admin user for the current request
+ * For use in Server Components and route handlers
  */
-function validateAuthToken(token: string, password: string): boolean {
-  try {
-    const [timestampStr, hash] = token.split(":");
-    const timestamp = parseInt(timestampStr, 10);
-
-    // Token expires after COOKIE_MAX_AGE
-    if (Date.now() - timestamp > COOKIE_MAX_AGE * 1000) {
-      return false;
-    }
-
-    // Verify hash matches
-    const expectedHash = Buffer.from(`${password}:${timestamp}`).toString("base64");
-    return hash === expectedHash;
-  } catch {
-    return false;
-  }
+export async function getCurrentAdminUser(): Promise<AdminUser | null> {
+  const cookieStore = await cookies();
+  return getAdminUserForToken(cookieStore.get(ADMIN_AUTH_COOKIE)?.value);
 }
 
 /**
@@ -59,44 +70,111 @@ function validateAuthToken(token: string, password: string): boolean {
  * For use in Server Components
  */
 export async function isAdminAuthenticated(): Promise<boolean> {
-  const password = getAdminPassword();
-
-  // If no password configured, auth is disabled (allow access)
-  if (!password) {
+  // If auth is disabled, allow access
+  if (!(await isAdminAuthEnabled())) {
     return true;
   }
 
-  const cookieStore = await cookies();
-  const authCookie = cookieStore.get(ADMIN_AUTH_COOKIE);
+  return (await getCurrentAdminUser()) !== null;
+}
 
-  if (!authCookie?.value) {
-    return false;
+/**
+ * Checks an admin auth cookie value
+ * For Pages Router API routes, which can't use next/headers
+ */
+export async function isValidAdminCookie(value: string | undefined): Promise<boolean> {
+  // If auth is disabled, allow access
+  if (!(await isAdminAuthEnabled())) {
+    return true;
   }
 
-  return validateAuthToken(authCookie.value, password);
+  return (await getAdminUserForToken(value)) !== null;
 }
 
+export type AdminAuthResult =
+  // user is null when auth is disabled
+  | { ok: true; user: AdminUser | null }
+  | { ok: false; response: NextResponse };
+
 /**
- * Verifies a password attempt and returns auth result
+ * Authorizes a route handler: the request needs a signed-in user whose role
+ * grants `permission`.
+ *
+ *   const auth = await requireAdmin("leads:write");
+ *   if (!auth.ok) return auth.response;
  */
-export function verifyAdminPassword(attempt: string): {
-  success: boolean;
-  token?: string;
-} {
-  const password = getAdminPassword();
-
-  if (!password) {
-    return { success: true };
+export async function requireAdmin(
+  permission: AdminPermission = "read"
+): Promise<AdminAuthResult> {
+  if (!(await isAdminAuthEnabled())) {
+    return { ok: true, user: null };
   }
 
-  if (attempt === password) {
+  const user = await getCurrentAdminUser();
+  if (!user) {
     return {
-      success: true,
-      token: generateAuthToken(password),
+      ok: false,
+      response: NextResponse.json({ error: "Authentication required" }, { status: 401 }),
     };
   }
 
-  return { success: false };
+  if (!hasPermission(user.role, permission)) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: `The ${user.role} role does not have the ${permission} permission` },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ok: true, user };
+}
+
+/**
+ * Permissions of a user, or of everyone when auth is disabled
+ */
+export function getAdminPermissions(user: AdminUser | null): AdminPermission[] {
+  return getRolePermissions(user?.role ?? "owner");
+}
+
+/**
+ * Verifies an email and password and starts a session
+ * While no admin user exists, ADMIN_PASSWORD signs in once and creates the
+ * first owner account with the given email.
+ */
+export async function loginAdmin(
+  email: string,
+  password: string,
+  meta: { ip?: string | null; userAgent?: string | null } = {}
+): Promise<{ success: boolean; user?: AdminUser; token?: string }> {
+  let user = await authenticateAdminUser(email, password);
+
+  if (!user && (await countAdminUsers()) === 0) {
+    const bootstrap = getAdminPassword();
+    if (bootstrap && safeEqual(password, bootstrap)) {
+      user = await createAdminUser({ email: normalizeEmail(email), role: "owner", password });
+      console.log(`[Admin Auth] Bootstrapped owner account ${user.email}`);
+    }
+  }
+
+  if (!user) {
+    return { success: false };
+  }
+
+  const { token } = await createAdminSession(user.id, {
+    maxAgeSeconds: COOKIE_MAX_AGE,
+    ip: meta.ip,
+    userAgent: meta.userAgent,
+  });
+
+  return { success: true, user, token };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
 }
 
 /**
@@ -114,10 +192,14 @@ export async function setAdminAuthCookie(token: string): Promise<void> {
 }
 
 /**
- * Clears the admin auth cookie (logout)
+ * Revokes the current session and clears the admin auth cookie (logout)
  */
 export async function clearAdminAuthCookie(): Promise<void> {
   const cookieStore = await cookies();
+  const token = cookieStore.get(ADMIN_AUTH_COOKIE)?.value;
+  if (token) {
+    await revokeSessionByToken(token);
+  }
   cookieStore.delete(ADMIN_AUTH_COOKIE);
 }
 
@@ -0,0 +1,547 @@
+/**
+ * Admin Users
+ *
+ * Admin accounts, their roles and their sessions. Passwords are stored as
+ * scrypt hashes. A session is a random token held in the admin cookie - only
+ * its SHA-256 is stored, so a leaked database row can't be replayed - and can
+ * be revoked on its own or with every other session of its user.
+ * Request-level checks live in admin-auth.ts.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { db, initializeDatabase } from "./db";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+// -----------------------------------------------------------------------------
+// Roles
+// -----------------------------------------------------------------------------
+
+export type AdminRole = "owner" | "analyst" | "sales" | "viewer";
+
+export type AdminPermission =
+  | "read" // View audits, batches, leads and admin settings
+  | "audits:write" // Run, re-run and delete audits and batches
+  | "leads:write" // Edit and delete leads
+  | "config:write" // Schedules, experiments, scoring profiles, workspaces
+  | "admin:manage"; // Users, sessions and migrations
+
+export const ADMIN_ROLES: AdminRole[] = ["owner", "analyst", "sales", "viewer"];
+
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  owner: ["read", "audits:write", "leads:write", "config:write", "admin:manage"],
+  analyst: ["read", "audits:write", "config:write"],
+  sales: ["read", "leads:write"],
+  viewer: ["read"],
+};
+
+export function getRolePermissions(role: AdminRole): AdminPermission[] {
+  return ROLE_PERMISSIONS[role] ?? [];
+}
+
+export function hasPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return getRolePermissions(role).includes(permission);
+}
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface AdminUser {
+  id: string;
+  email: string;
+  name: string | null;
+  role: AdminRole;
+  disabledAt: string | null;
+  lastLoginAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AdminUserFields {
+  email?: string;
+  name?: string | null;
+  role?: AdminRole;
+  password?: string;
+  disabled?: boolean;
+}
+
+export interface AdminSession {
+  id: string;
+  userId: string;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  expiresAt: string;
+  lastSeenAt: string | null;
+  revokedAt: string | null;
+}
+
+const MIN_PASSWORD_LENGTH = 10;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Sessions are only touched this often, not on every request
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Track if schema has been ensured
+let schemaEnsured = false;
+
+// Schema lives in migrations/015_admin_users.sql
+async function ensureSchema() {
+  if (schemaEnsured) return;
+  await initializeDatabase();
+  schemaEnsured = true;
+}
+
+function generateUserId(): string {
+  return `user_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function generateSessionId(): string {
+  return `sess_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// -----------------------------------------------------------------------------
+// Passwords
+// -----------------------------------------------------------------------------
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltB64, hashB64] = stored.split("$");
+  if (scheme !== "scrypt" || !saltB64 || !hashB64) return false;
+
+  const expected = Buffer.from(hashB64, "base64");
+  const actual = await scryptAsync(password, Buffer.from(saltB64, "base64"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Validate a create/update body. Returns the fields, or an error message.
+ * `creating` requires email, role and password.
+ */
+export function parseAdminUserFields(
+  body: Record<string, unknown>,
+  creating: boolean
+): AdminUserFields | string {
+  const fields: AdminUserFields = {};
+
+  if (body.email !== undefined || creating) {
+    if (typeof body.email !== "string" || !EMAIL_PATTERN.test(body.email.trim())) {
+      return "A valid email is required";
+    }
+    fields.email = normalizeEmail(body.email);
+  }
+
+  if (body.name !== undefined) {
+    if (body.name !== null && typeof body.name !== "string") return "name must be a string";
+    const name = typeof body.name === "string" ? body.name.trim().slice(0, 100) : "";
+    fields.name = name || null;
+  }
+
+  if (body.role !== undefined || creating) {
+    if (!ADMIN_ROLES.includes(body.role as AdminRole)) {
+      return `role must be one of: ${ADMIN_ROLES.join(", ")}`;
+    }
+    fields.role = body.role as AdminRole;
+  }
+
+  if (body.password !== undefined || creating) {
+    if (typeof body.password !== "string" || body.password.length < MIN_PASSWORD_LENGTH) {
+      return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+    fields.password = body.password;
+  }
+
+  if (body.disabled !== undefined) {
+    if (typeof body.disabled !== "boolean") return "disabled must be a boolean";
+    fields.disabled = body.disabled;
+  }
+
+  return fields;
+}
+
+// -----------------------------------------------------------------------------
+// Users
+// -----------------------------------------------------------------------------
+
+export async function countAdminUsers(): Promise<number> {
+  await ensureSchema();
+  const result = await db.execute(`SELECT COUNT(*) as count FROM admin_users`);
+  return (result.rows[0]?.count as number) || 0;
+}
+
+export async function createAdminUser(input: {
+  email: string;
+  name?: string | null;
+  role: AdminRole;
+  password: string;
+}): Promise<AdminUser> {
+  await ensureSchema();
+
+  const id = generateUserId();
+  const now = new Date().toISOString();
+
+  await db.execute({
+    sql: `INSERT INTO admin_users (id, email, name, role, password_hash, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      id,
+      normalizeEmail(input.email),
+      input.name ?? null,
+      input.role,
+      await hashPassword(input.password),
+      now,
+      now,
+    ],
+  });
+
+  console.log(`[Admin Users] Created ${id} (${input.role})`);
+
+  const user = await getAdminUser(id);
+  if (!user) {
+    throw new Error("Failed to create admin user");
+  }
+  return user;
+}
+
+export async function getAdminUser(id: string): Promise<AdminUser | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM admin_users WHERE id = ?`,
+    args: [id],
+  });
+
+  return result.rows.length > 0 ? mapRowToUser(result.rows[0]) : null;
+}
+
+export async function getAdminUserByEmail(email: string): Promise<AdminUser | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM admin_users WHERE email = ?`,
+    args: [normalizeEmail(email)],
+  });
+
+  return result.rows.length > 0 ? mapRowToUser(result.rows[0]) : null;
+}
+
+export async function listAdminUsers(): Promise<(AdminUser & { activeSessions: number })[]> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT u.*,
+            (SELECT COUNT(*) FROM admin_sessions s
+             WHERE s.user_id = u.id AND s.revoked_at IS NULL AND s.expires_at > ?) as active_sessions
+          FROM admin_users u
+          ORDER BY u.created_at ASC`,
+    args: [new Date().toISOString()],
+  });
+
+  return result.rows.map((row) => ({
+    ...mapRowToUser(row),
+    activeSessions: (row.active_sessions as number) || 0,
+  }));
+}
+
+/**
+ * Check an email and password. Returns the user when they match an enabled
+ * account.
+ */
+export async function authenticateAdminUser(
+  email: string,
+  password: string
+): Promise<AdminUser | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM admin_users WHERE email = ?`,
+    args: [normalizeEmail(email)],
+  });
+  const row = result.rows[0];
+  if (!row || row.disabled_at) return null;
+
+  if (!(await verifyPassword(password, row.password_hash as string))) return null;
+
+  const now = new Date().toISOString();
+  await db.execute({
+    sql: `UPDATE admin_users SET last_login_at = ? WHERE id = ?`,
+    args: [now, row.id as string],
+  });
+
+  return { ...mapRowToUser(row), lastLoginAt: now };
+}
+
+/**
+ * Update a user. Disabling a user or changing their password signs them out
+ * everywhere.
+ */
+export async function updateAdminUser(
+  id: string,
+  updates: AdminUserFields
+): Promise<AdminUser | null> {
+  await ensureSchema();
+
+  const existing = await getAdminUser(id);
+  if (!existing) return null;
+
+  const setClauses: string[] = [];
+  const args: (string | null)[] = [];
+
+  if (updates.email !== undefined) {
+    setClauses.push("email = ?");
+    args.push(normalizeEmail(updates.email));
+  }
+  if (updates.name !== undefined) {
+    setClauses.push("name = ?");
+    args.push(updates.name);
+  }
+  if (updates.role !== undefined) {
+    setClauses.push("role = ?");
+    args.push(updates.role);
+  }
+  if (updates.password !== undefined) {
+    setClauses.push("password_hash = ?");
+    args.push(await hashPassword(updates.password));
+  }
+  if (updates.disabled !== undefined) {
+    setClauses.push("disabled_at = ?");
+    args.push(updates.disabled ? existing.disabledAt ?? new Date().toISOString() : null);
+  }
+
+  setClauses.push("updated_at = ?");
+  args.push(new Date().toISOString());
+  args.push(id);
+
+  await db.execute({
+    sql: `UPDATE admin_users SET ${setClauses.join(", ")} WHERE id = ?`,
+    args,
+  });
+
+  if (updates.password !== undefined || updates.disabled) {
+    await revokeUserSessions(id);
+  }
+
+  return getAdminUser(id);
+}
+
+export async function deleteAdminUser(id: string): Promise<boolean> {
+  await ensureSchema();
+
+  const results = await db.batch(
+    [
+      { sql: `DELETE FROM admin_sessions WHERE user_id = ?`, args: [id] },
+      { sql: `DELETE FROM admin_users WHERE id = ?`, args: [id] },
+    ],
+    "write"
+  );
+
+  return results[1].rowsAffected > 0;
+}
+
+/**
+ * Number of enabled owners, so the last one can't be removed or demoted
+ */
+export async function countActiveOwners(): Promise<number> {
+  await ensureSchema();
+
+  const result = await db.execute(
+    `SELECT COUNT(*) as count FROM admin_users WHERE role = 'owner' AND disabled_at IS NULL`
+  );
+  return (result.rows[0]?.count as number) || 0;
+}
+
+// -----------------------------------------------------------------------------
+// Sessions
+// -----------------------------------------------------------------------------
+
+function hashSessionToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Start a session. Returns the token to set as the admin cookie - it is not
+ * stored and can't be recovered later.
+ */
+export async function createAdminSession(
+  userId: string,
+  options: { maxAgeSeconds: number; ip?: string | null; userAgent?: string | null }
+): Promise<{ session: AdminSession; token: string }> {
+  await ensureSchema();
+
+  const token = randomBytes(32).toString("base64url");
+  const now = new Date();
+  const session: AdminSession = {
+    id: generateSessionId(),
+    userId,
+    ip: options.ip ?? null,
+    userAgent: options.userAgent?.slice(0, 500) ?? null,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + options.maxAgeSeconds * 1000).toISOString(),
+    lastSeenAt: now.toISOString(),
+    revokedAt: null,
+  };
+
+  await db.execute({
+    sql: `INSERT INTO admin_sessions
+          (id, user_id, token_hash, ip, user_agent, created_at, expires_at, last_seen_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      session.id,
+      userId,
+      hashSessionToken(token),
+      session.ip,
+      session.userAgent,
+      session.createdAt,
+      session.expiresAt,
+      session.lastSeenAt,
+    ],
+  });
+
+  return { session, token };
+}
+
+/**
+ * Resolve a session token to its live session and enabled user
+ */
+export async function getSessionUser(
+  token: string
+): Promise<{ user: AdminUser; session: AdminSession } | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT s.id as session_id, s.user_id, s.ip, s.user_agent, s.created_at as session_created_at,
+                 s.expires_at, s.last_seen_at, s.revoked_at, u.*
+          FROM admin_sessions s
+          JOIN admin_users u ON u.id = s.user_id
+          WHERE s.token_hash = ?`,
+    args: [hashSessionToken(token)],
+  });
+  const row = result.rows[0];
+  if (!row || row.revoked_at || row.disabled_at) return null;
+
+  const now = Date.now();
+  if (new Date(row.expires_at as string).getTime() <= now) return null;
+
+  const session: AdminSession = {
+    id: row.session_id as string,
+    userId: row.user_id as string,
+    ip: row.ip as string | null,
+    userAgent: row.user_agent as string | null,
+    createdAt: row.session_created_at as string,
+    expiresAt: row.expires_at as string,
+    lastSeenAt: row.last_seen_at as string | null,
+    revokedAt: null,
+  };
+
+  const lastSeen = session.lastSeenAt ? new Date(session.lastSeenAt).getTime() : 0;
+  if (now - lastSeen > SESSION_TOUCH_INTERVAL_MS) {
+    session.lastSeenAt = new Date(now).toISOString();
+    await db.execute({
+      sql: `UPDATE admin_sessions SET last_seen_at = ? WHERE id = ?`,
+      args: [session.lastSeenAt, session.id],
+    });
+  }
+
+  return { user: mapRowToUser(row), session };
+}
+
+/**
+ * A user's sessions that are neither revoked nor expired, newest first
+ */
+export async function listUserSessions(userId: string): Promise<AdminSession[]> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM admin_sessions
+          WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+          ORDER BY created_at DESC`,
+    args: [userId, new Date().toISOString()],
+  });
+
+  return result.rows.map(mapRowToSession);
+}
+
+export async function revokeSessionByToken(token: string): Promise<boolean> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `UPDATE admin_sessions SET revoked_at = ? WHERE token_hash = ? AND revoked_at IS NULL`,
+    args: [new Date().toISOString(), hashSessionToken(token)],
+  });
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Revoke one of a user's sessions
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `UPDATE admin_sessions SET revoked_at = ?
+          WHERE id = ? AND user_id = ? AND revoked_at IS NULL`,
+    args: [new Date().toISOString(), sessionId, userId],
+  });
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Revoke every session of a user. Returns how many were revoked.
+ */
+export async function revokeUserSessions(userId: string): Promise<number> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `UPDATE admin_sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL`,
+    args: [new Date().toISOString(), userId],
+  });
+  if (result.rowsAffected > 0) {
+    console.log(`[Admin Users] Revoked ${result.rowsAffected} session(s) for ${userId}`);
+  }
+  return result.rowsAffected;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function mapRowToUser(row: Record<string, unknown>): AdminUser {
+  return {
+    id: row.id as string,
+    email: row.email as string,
+    name: row.name as string | null,
+    role: row.role as AdminRole,
+    disabledAt: row.disabled_at as string | null,
+    lastLoginAt: row.last_login_at as string | null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function mapRowToSession(row: Record<string, unknown>): AdminSession {
+  return {
+    id: row.id as string,
+    userId: row.user_id as string,
+    ip: row.ip as string | null,
+    userAgent: row.user_agent as string | null,
+    createdAt: row.created_at as string,
+    expiresAt: row.expires_at as string,
+    lastSeenAt: row.last_seen_at as string | null,
+    revokedAt: row.revoked_at as string | null,
+  };
+}
@@ -0,0 +1,121 @@
+// Regression alert rules for scheduled re-audits
+// Each rule compares a fresh audit with the previous audit of the same
+// domain and returns a message when it fires:
+//
+//   score_drop          - overall score fell by at least `threshold` points
+//   high_impact_fail    - a High-impact check that wasn't failing now fails
+//   booking_engine_lost - a booking engine was detected before and isn't now
+
+import { compareAudits } from "./audit-history";
+import type { AuditResult } from "@/types/audit";
+
+export type AlertRule =
+  | { type: "score_drop"; threshold: number }
+  | { type: "high_impact_fail" }
+  | { type: "booking_engine_lost" };
+
+export type AlertRuleType = AlertRule["type"];
+
+export interface TriggeredAlert {
+  rule: AlertRuleType;
+  message: string;
+}
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = [
+  "score_drop",
+  "high_impact_fail",
+  "booking_engine_lost",
+];
+
+// Rules a new schedule starts with
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { type: "score_drop", threshold: 5 },
+  { type: "high_impact_fail" },
+  { type: "booking_engine_lost" },
+];
+
+/**
+ * Validate alert rules from a request body. Returns the rules, or an error
+ * message.
+ */
+export function parseAlertRules(input: unknown): AlertRule[] | string {
+  if (!Array.isArray(input)) return "alertRules must be an array";
+
+  const rules: AlertRule[] = [];
+  for (const rule of input) {
+    const type = (rule as { type?: unknown })?.type;
+    switch (type) {
+      case "score_drop": {
+        const threshold = Number((rule as { threshold?: unknown }).threshold);
+        if (!Number.isFinite(threshold) || threshold <= 0) {
+          return "score_drop needs a positive threshold";
+        }
+        rules.push({ type, threshold });
+        break;
+      }
+      case "high_impact_fail":
+      case "booking_engine_lost":
+        rules.push({ type });
+        break;
+      default:
+        return `Unknown alert rule type: ${String(type)}`;
+    }
+  }
+  return rules;
+}
+
+/**
+ * Run the rules against a fresh audit and the one before it
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  previous: AuditResult,
+  current: AuditResult
+): TriggeredAlert[] {
+  const changes = compareAudits(previous, current);
+  const alerts: TriggeredAlert[] = [];
+
+  for (const rule of rules) {
+    switch (rule.type) {
+      case "score_drop": {
+        const drop = -changes.overall.diff;
+        if (drop >= rule.threshold) {
+          alerts.push({
+            rule: rule.type,
+            message: `Score dropped ${drop} points (${changes.overall.oldScore} → ${changes.overall.newScore})${
+              changes.profileChanged ? " after a scoring profile change" : ""
+            }`,
+          });
+        }
+        break;
+      }
+      case "high_impact_fail": {
+        const flipped = changes.recommendations.regressed.filter(
+          (c) => c.impact === "High" && c.to === "fail"
+        );
+        if (flipped.length > 0) {
+          alerts.push({
+            rule: rule.type,
+            message: `High-impact check${flipped.length > 1 ? "s" : ""} now failing: ${flipped
+              .map((c) => c.title)
+              .join(", ")}`,
+          });
+        }
+        break;
+      }
+      case "booking_engine_lost": {
+        const before = previous.bookingFlow?.bookingEngine;
+        // No booking flow data at all means the analysis didn't run, not that the engine went away
+        if (before && current.bookingFlow && !current.bookingFlow.bookingEngine) {
+          alerts.push({
+            rule: rule.type,
+            message: `Booking engine no longer detected (was ${before.name})`,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return alerts;
+}
@@ -23,6 +23,8 @@ export interface ViewData {
   deviceType?: string;
   browser?: string;
   os?: string;
+  variant?: string;
+  experimentId?: string | null;
 }
 
 export interface EngagementData {
@@ -39,6 +41,12 @@ export interface ClickData {
   ctaLocation?: string;
 }
 
+// The report variant a visitor was shown, and the experiment that picked it
+export interface VariantAttribution {
+  variant: string;
+  experimentId: string | null;
+}
+
 export interface ReportStats {
   totalViews: number;
   uniqueVisitors: number;
@@ -101,8 +109,8 @@ export async function recordView(data: ViewData): Promise<string> {
       INSERT INTO report_views (
         id, audit_id, visitor_id, session_id, viewed_at,
         referrer, utm_source, utm_medium, utm_campaign,
-        country, device_type, browser, os, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        country, device_type, browser, os, variant, experiment_id, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
     args: [
       viewId,
@@ -118,6 +126,8 @@ export async function recordView(data: ViewData): Promise<string> {
       data.deviceType || null,
       data.browser || null,
       data.os || null,
+      data.variant || null,
+      data.experimentId || null,
       now,
     ],
   });
@@ -163,17 +173,20 @@ export async function updateEngagement(data: EngagementData): Promise<void> {
 
 /**
  * Record a CTA click event
+ * The click is attributed to the variant of the visitor's latest view
  */
 export async function recordClick(data: ClickData): Promise<string> {
   const db = await getDb();
   const clickId = generateClickId();
   const now = new Date().toISOString();
+  const attribution = await getViewedVariant(data.auditId, data.visitorId);
 
   await db.execute({
     sql: `
       INSERT INTO report_clicks (
-        id, audit_id, visitor_id, session_id, clicked_at, cta_type, cta_location
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        id, audit_id, visitor_id, session_id, clicked_at, cta_type, cta_location,
+        variant, experiment_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
     args: [
       clickId,
@@ -183,12 +196,41 @@ export async function recordClick(data: ClickData): Promise<string> {
       now,
       data.ctaType,
       data.ctaLocation || null,
+      attribution?.variant ?? null,
+      attribution?.experimentId ?? null,
     ],
   });
 
   return clickId;
 }
 
+/**
+ * The variant a visitor was shown on their latest view of a report
+ */
+export async function getViewedVariant(
+  auditId: string,
+  visitorId: string
+): Promise<VariantAttribution | null> {
+  const db = await getDb();
+
+  const result = await db.execute({
+    sql: `
+      SELECT variant, experiment_id
+      FROM report_views
+      WHERE audit_id = ? AND visitor_id = ? AND variant IS NOT NULL
+      ORDER BY viewed_at DESC
+      LIMIT 1
+    `,
+    args: [auditId, visitorId],
+  });
+
+  if (result.rows.length === 0) return null;
+  return {
+    variant: result.rows[0].variant as string,
+    experimentId: (result.rows[0].experiment_id as string | null) ?? null,
+  };
+}
+
 /**
  * Get analytics stats for a specific report
  */
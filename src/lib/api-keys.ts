@@ -0,0 +1,322 @@
+/**
+ * API Keys
+ *
+ * Keys for the public /api/v1 surface. A key is shown once when created -
+ * only its SHA-256 is stored - carries a set of scopes, and has its own
+ * per-minute rate limit and daily audit quota (or the defaults from
+ * API_RATE_LIMIT_PER_MINUTE and API_DAILY_AUDIT_QUOTA). Revoking a key is
+ * permanent. Request-level checks live in api-v1.ts.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { db, initializeDatabase } from "./db";
+import { getRateLimitUsage } from "./rate-limit";
+
+// -----------------------------------------------------------------------------
+// Scopes
+// -----------------------------------------------------------------------------
+
+export type ApiKeyScope = "audits:read" | "audits:write" | "batches:read" | "batches:write";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = [
+  "audits:read",
+  "audits:write",
+  "batches:read",
+  "batches:write",
+];
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  // Null uses the default from the environment
+  rateLimitPerMinute: number | null;
+  dailyAuditQuota: number | null;
+  createdBy: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+export interface ApiKeyFields {
+  name?: string;
+  scopes?: ApiKeyScope[];
+  rateLimitPerMinute?: number | null;
+  dailyAuditQuota?: number | null;
+}
+
+const KEY_PREFIX = "ghai_";
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+const DEFAULT_DAILY_AUDIT_QUOTA = 100;
+
+export const MINUTE_MS = 60 * 1000;
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keys are only touched this often, not on every request
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+// Track if schema has been ensured
+let schemaEnsured = false;
+
+// Schema lives in migrations/017_api_keys.sql
+async function ensureSchema() {
+  if (schemaEnsured) return;
+  await initializeDatabase();
+  schemaEnsured = true;
+}
+
+function generateApiKeyId(): string {
+  return `apikey_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function getRateLimitPerMinute(key: ApiKey): number {
+  if (key.rateLimitPerMinute !== null) return key.rateLimitPerMinute;
+  const value = parseInt(process.env.API_RATE_LIMIT_PER_MINUTE || "", 10);
+  return value > 0 ? value : DEFAULT_RATE_LIMIT_PER_MINUTE;
+}
+
+export function getDailyAuditQuota(key: ApiKey): number {
+  if (key.dailyAuditQuota !== null) return key.dailyAuditQuota;
+  const value = parseInt(process.env.API_DAILY_AUDIT_QUOTA || "", 10);
+  return value >= 0 && !isNaN(value) ? value : DEFAULT_DAILY_AUDIT_QUOTA;
+}
+
+// Rate limit subjects, shared with api-v1.ts
+export function rateLimitSubject(keyId: string): string {
+  return `key:${keyId}:requests`;
+}
+
+export function auditQuotaSubject(keyId: string): string {
+  return `key:${keyId}:audits`;
+}
+
+/**
+ * Validate a create/update body. Returns the fields, or an error message.
+ * `creating` requires a name and at least one scope.
+ */
+export function parseApiKeyFields(
+  body: Record<string, unknown>,
+  creating: boolean
+): ApiKeyFields | string {
+  const fields: ApiKeyFields = {};
+
+  if (body.name !== undefined || creating) {
+    const name = typeof body.name === "string" ? body.name.trim().slice(0, 100) : "";
+    if (!name) return "name is required";
+    fields.name = name;
+  }
+
+  if (body.scopes !== undefined || creating) {
+    if (
+      !Array.isArray(body.scopes) ||
+      body.scopes.length === 0 ||
+      body.scopes.some((scope) => !API_KEY_SCOPES.includes(scope as ApiKeyScope))
+    ) {
+      return `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(", ")}`;
+    }
+    fields.scopes = [...new Set(body.scopes as ApiKeyScope[])];
+  }
+
+  for (const field of ["rateLimitPerMinute", "dailyAuditQuota"] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value !== null && (typeof value !== "number" || !Number.isInteger(value) || value < 0)) {
+      return `${field} must be a non-negative integer or null`;
+    }
+    fields[field] = value;
+  }
+
+  return fields;
+}
+
+// -----------------------------------------------------------------------------
+// Keys
+// -----------------------------------------------------------------------------
+
+/**
+ * Create a key. Returns the key itself along with its record - it is not
+ * stored and can't be recovered later.
+ */
+export async function createApiKey(
+  input: Required<Pick<ApiKeyFields, "name" | "scopes">> & ApiKeyFields,
+  createdBy: string | null = null
+): Promise<{ apiKey: ApiKey; key: string }> {
+  await ensureSchema();
+
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const apiKey: ApiKey = {
+    id: generateApiKeyId(),
+    name: input.name,
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes: input.scopes,
+    rateLimitPerMinute: input.rateLimitPerMinute ?? null,
+    dailyAuditQuota: input.dailyAuditQuota ?? null,
+    createdBy,
+    createdAt: new Date().toISOString(),
+    lastUsedAt: null,
+    revokedAt: null,
+  };
+
+  await db.execute({
+    sql: `INSERT INTO api_keys
+          (id, name, key_prefix, key_hash, scopes, rate_limit_per_minute, daily_audit_quota, created_by, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      apiKey.id,
+      apiKey.name,
+      apiKey.keyPrefix,
+      hashApiKey(key),
+      JSON.stringify(apiKey.scopes),
+      apiKey.rateLimitPerMinute,
+      apiKey.dailyAuditQuota,
+      createdBy,
+      apiKey.createdAt,
+    ],
+  });
+
+  console.log(`[API Keys] Created key ${apiKey.id} (${apiKey.name})`);
+
+  return { apiKey, key };
+}
+
+export async function getApiKey(id: string): Promise<ApiKey | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM api_keys WHERE id = ?`,
+    args: [id],
+  });
+  return result.rows[0] ? mapRowToApiKey(result.rows[0]) : null;
+}
+
+/**
+ * Every key, newest first, with how much of its current windows it has used
+ */
+export async function listApiKeys(): Promise<
+  (ApiKey & { usage: { requestsThisMinute: number; auditsToday: number } })[]
+> {
+  await ensureSchema();
+
+  const result = await db.execute(`SELECT * FROM api_keys ORDER BY created_at DESC`);
+  const keys = result.rows.map(mapRowToApiKey);
+
+  return Promise.all(
+    keys.map(async (key) => ({
+      ...key,
+      usage: {
+        requestsThisMinute: await getRateLimitUsage(rateLimitSubject(key.id), MINUTE_MS),
+        auditsToday: await getRateLimitUsage(auditQuotaSubject(key.id), DAY_MS),
+      },
+    }))
+  );
+}
+
+/**
+ * Resolve a presented key to its live record, or null for an unknown or
+ * revoked key
+ */
+export async function authenticateApiKey(key: string): Promise<ApiKey | null> {
+  if (!key.startsWith(KEY_PREFIX)) return null;
+
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM api_keys WHERE key_hash = ?`,
+    args: [hashApiKey(key)],
+  });
+  const row = result.rows[0];
+  if (!row || row.revoked_at) return null;
+
+  const apiKey = mapRowToApiKey(row);
+
+  const now = Date.now();
+  const lastUsed = apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).getTime() : 0;
+  if (now - lastUsed > LAST_USED_INTERVAL_MS) {
+    apiKey.lastUsedAt = new Date(now).toISOString();
+    await db.execute({
+      sql: `UPDATE api_keys SET last_used_at = ? WHERE id = ?`,
+      args: [apiKey.lastUsedAt, apiKey.id],
+    });
+  }
+
+  return apiKey;
+}
+
+export async function updateApiKey(id: string, updates: ApiKeyFields): Promise<ApiKey | null> {
+  await ensureSchema();
+
+  const sets: string[] = [];
+  const args: (string | number | null)[] = [];
+
+  if (updates.name !== undefined) {
+    sets.push("name = ?");
+    args.push(updates.name);
+  }
+  if (updates.scopes !== undefined) {
+    sets.push("scopes = ?");
+    args.push(JSON.stringify(updates.scopes));
+  }
+  if (updates.rateLimitPerMinute !== undefined) {
+    sets.push("rate_limit_per_minute = ?");
+    args.push(updates.rateLimitPerMinute);
+  }
+  if (updates.dailyAuditQuota !== undefined) {
+    sets.push("daily_audit_quota = ?");
+    args.push(updates.dailyAuditQuota);
+  }
+
+  if (sets.length > 0) {
+    await db.execute({
+      sql: `UPDATE api_keys SET ${sets.join(", ")} WHERE id = ? AND revoked_at IS NULL`,
+      args: [...args, id],
+    });
+  }
+
+  return getApiKey(id);
+}
+
+/**
+ * Revoke a key for good. False if it doesn't exist or was already revoked.
+ */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL`,
+    args: [new Date().toISOString(), id],
+  });
+  if (result.rowsAffected > 0) {
+    console.log(`[API Keys] Revoked key ${id}`);
+  }
+  return result.rowsAffected > 0;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function mapRowToApiKey(row: Record<string, unknown>): ApiKey {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    keyPrefix: row.key_prefix as string,
+    scopes: JSON.parse(row.scopes as string) as ApiKeyScope[],
+    rateLimitPerMinute: (row.rate_limit_per_minute as number | null) ?? null,
+    dailyAuditQuota: (row.daily_audit_quota as number | null) ?? null,
+    createdBy: row.created_by as string | null,
+    createdAt: row.created_at as string,
+    lastUsedAt: row.last_used_at as string | null,
+    revokedAt: row.revoked_at as string | null,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Public API (v1)
+ *
+ * Shared pieces of the /api/v1 route handlers: API key authentication, the
+ * per-key rate limit and daily audit quota, and one error shape for every
+ * failure:
+ *
+ *   { "error": { "code": "rate_limited", "message": "...", "details": {...} } }
+ *
+ * Keys are managed from /admin/api-keys (see api-keys.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  auditQuotaSubject,
+  authenticateApiKey,
+  DAY_MS,
+  getDailyAuditQuota,
+  getRateLimitPerMinute,
+  MINUTE_MS,
+  rateLimitSubject,
+  type ApiKey,
+  type ApiKeyScope,
+} from "./api-keys";
+import { consumeRateLimit, rateLimitHeaders } from "./rate-limit";
+import type { AuditJob } from "./audit-queue";
+
+export type ApiErrorCode =
+  | "invalid_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "rate_limited"
+  | "quota_exceeded"
+  | "internal_error";
+
+const ERROR_STATUS: Record<ApiErrorCode, number> = {
+  invalid_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  not_found: 404,
+  rate_limited: 429,
+  quota_exceeded: 429,
+  internal_error: 500,
+};
+
+export function apiError(
+  code: ApiErrorCode,
+  message: string,
+  options: { details?: unknown; headers?: Record<string, string> } = {}
+): NextResponse {
+  return NextResponse.json(
+    {
+      error: {
+        code,
+        message,
+        ...(options.details !== undefined && { details: options.details }),
+      },
+    },
+    { status: ERROR_STATUS[code], headers: options.headers }
+  );
+}
+
+export type ApiKeyAuthResult =
+  // headers carry the rate limit state and belong on the response
+  | { ok: true; key: ApiKey; headers: Record<string, string> }
+  | { ok: false; response: NextResponse };
+
+/**
+ * Authenticates a v1 request and counts it against the key's rate limit.
+ * The key goes in `Authorization: Bearer <key>` or `X-API-Key: <key>`.
+ *
+ *   const auth = await requireApiKey(request, "audits:write");
+ *   if (!auth.ok) return auth.response;
+ */
+export async function requireApiKey(
+  request: NextRequest,
+  scope: ApiKeyScope
+): Promise<ApiKeyAuthResult> {
+  const presented =
+    request.headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1] ||
+    request.headers.get("x-api-key")?.trim();
+
+  if (!presented) {
+    return {
+      ok: false,
+      response: apiError("unauthorized", "An API key is required", {
+        headers: { "WWW-Authenticate": "Bearer" },
+      }),
+    };
+  }
+
+  const key = await authenticateApiKey(presented);
+  if (!key) {
+    return {
+      ok: false,
+      response: apiError("unauthorized", "The API key is invalid or has been revoked", {
+        headers: { "WWW-Authenticate": "Bearer" },
+      }),
+    };
+  }
+
+  if (!key.scopes.includes(scope)) {
+    return {
+      ok: false,
+      response: apiError("forbidden", `The API key does not have the ${scope} scope`),
+    };
+  }
+
+  const limit = await consumeRateLimit(rateLimitSubject(key.id), {
+    windowMs: MINUTE_MS,
+    limit: getRateLimitPerMinute(key),
+  });
+  const headers = rateLimitHeaders(limit);
+
+  if (!limit.allowed) {
+    return {
+      ok: false,
+      response: apiError("rate_limited", `Rate limit of ${limit.limit} requests per minute exceeded`, {
+        details: { limit: limit.limit, resetAt: limit.resetAt.toISOString() },
+        headers,
+      }),
+    };
+  }
+
+  return { ok: true, key, headers };
+}
+
+/**
+ * Counts `domains` audits against the key's daily quota. Returns the error
+ * response when the quota would be exceeded, otherwise null. Quota headers
+ * are added to `headers`.
+ */
+export async function consumeAuditQuota(
+  key: ApiKey,
+  domains: number,
+  headers: Record<string, string>
+): Promise<NextResponse | null> {
+  const quota = await consumeRateLimit(
+    auditQuotaSubject(key.id),
+    { windowMs: DAY_MS, limit: getDailyAuditQuota(key) },
+    domains
+  );
+
+  headers["X-Quota-Limit"] = String(quota.limit);
+  headers["X-Quota-Remaining"] = String(quota.remaining);
+  headers["X-Quota-Reset"] = String(Math.ceil(quota.resetAt.getTime() / 1000));
+
+  if (quota.allowed) return null;
+
+  return apiError(
+    "quota_exceeded",
+    `Daily audit quota of ${quota.limit} exceeded (${quota.remaining} remaining, ${domains} requested)`,
+    {
+      details: { limit: quota.limit, remaining: quota.remaining, resetAt: quota.resetAt.toISOString() },
+      headers,
+    }
+  );
+}
+
+/**
+ * An audit job as v1 returns it. The full result is only included when
+ * `includeResult` is set and the job has completed.
+ */
+export function serializeJob(job: AuditJob, includeResult = false) {
+  const result = job.result as { auditId?: string } | null;
+  return {
+    id: job.id,
+    domain: job.domain,
+    status: job.status,
+    progress: job.progress,
+    currentStep: job.currentStep,
+    scoringProfile: job.scoringProfile,
+    auditId: job.status === "completed" ? result?.auditId ?? null : null,
+    error: job.error,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    createdAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt?.toISOString() ?? null,
+    ...(includeResult && { result: job.status === "completed" ? job.result : null }),
+  };
+}
@@ -0,0 +1,46 @@
+// Artifact storage
+// Binary files an audit produces (screenshots) are stored outside the
+// database, in the store picked by ARTIFACT_STORAGE:
+//
+//   local (default) - files under ARTIFACT_DIR (see local.ts)
+//   s3              - an S3-compatible bucket (see s3.ts)
+//
+// Audit results keep only the keys.
+
+import { localArtifactStore } from "./local";
+import { s3ArtifactStore } from "./s3";
+import type { Artifact, ArtifactStore } from "./types";
+
+export type { Artifact, ArtifactStore } from "./types";
+
+export function getArtifactStore(): ArtifactStore {
+  const setting = (process.env.ARTIFACT_STORAGE || "local").toLowerCase();
+  if (setting === "s3") return s3ArtifactStore;
+  if (setting !== "local") {
+    console.warn(`[Artifacts] Unknown ARTIFACT_STORAGE "${setting}", using local`);
+  }
+  return localArtifactStore;
+}
+
+export async function putArtifact(key: string, data: Buffer, contentType: string): Promise<void> {
+  await getArtifactStore().put(key, data, contentType);
+}
+
+export async function getArtifact(key: string): Promise<Artifact | null> {
+  return getArtifactStore().get(key);
+}
+
+/**
+ * Delete artifacts by key. Never throws - a leftover file mustn't block
+ * deleting the audit that referenced it.
+ */
+export async function deleteArtifacts(keys: string[]): Promise<void> {
+  const store = getArtifactStore();
+  for (const key of keys) {
+    try {
+      await store.delete(key);
+    } catch (error) {
+      console.error(`[Artifacts] Failed to delete ${key}:`, error);
+    }
+  }
+}
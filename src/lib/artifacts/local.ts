@@ -0,0 +1,59 @@
+// Local filesystem artifact store
+// Files live under ARTIFACT_DIR (default data/artifacts). The content type
+// is derived from the key's extension, so keys must carry one.
+
+import { mkdir, readFile, rm, rmdir, writeFile } from "fs/promises";
+import path from "path";
+import type { ArtifactStore } from "./types";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".html": "text/html; charset=utf-8",
+  ".json": "application/json",
+};
+
+function getRoot(): string {
+  return path.resolve(process.env.ARTIFACT_DIR || path.join("data", "artifacts"));
+}
+
+// Keeps keys like "../../etc/passwd" inside the artifact directory
+function resolveKey(key: string): string {
+  const root = getRoot();
+  const file = path.resolve(root, key);
+  if (!file.startsWith(root + path.sep)) {
+    throw new Error(`Invalid artifact key: ${key}`);
+  }
+  return file;
+}
+
+export const localArtifactStore: ArtifactStore = {
+  name: "local",
+
+  async put(key, data) {
+    const file = resolveKey(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  },
+
+  async get(key) {
+    try {
+      const data = await readFile(resolveKey(key));
+      const contentType =
+        CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream";
+      return { data, contentType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    const file = resolveKey(key);
+    await rm(file, { force: true });
+    // Drop the audit's directory once its last file is gone (fails while it isn't)
+    await rmdir(path.dirname(file)).catch(() => {});
+  },
+};
@@ -0,0 +1,131 @@
+// S3-compatible artifact store
+// Works with AWS S3 and anything speaking its API (R2, MinIO, Spaces) via
+// path-style requests signed with Signature V4. No SDK - three verbs is all
+// we need.
+//
+//   ARTIFACT_S3_BUCKET            - required
+//   ARTIFACT_S3_REGION            - default us-east-1 (R2 uses "auto")
+//   ARTIFACT_S3_ENDPOINT          - default https://s3.<region>.amazonaws.com
+//   ARTIFACT_S3_ACCESS_KEY_ID
+//   ARTIFACT_S3_SECRET_ACCESS_KEY
+
+import { createHash, createHmac } from "crypto";
+import type { ArtifactStore } from "./types";
+
+const TIMEOUT_MS = 30000;
+
+interface S3Config {
+  bucket: string;
+  region: string;
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function getConfig(): S3Config {
+  const bucket = process.env.ARTIFACT_S3_BUCKET;
+  const accessKeyId = process.env.ARTIFACT_S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.ARTIFACT_S3_SECRET_ACCESS_KEY;
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error(
+      "ARTIFACT_STORAGE=s3 needs ARTIFACT_S3_BUCKET, ARTIFACT_S3_ACCESS_KEY_ID and ARTIFACT_S3_SECRET_ACCESS_KEY"
+    );
+  }
+
+  const region = process.env.ARTIFACT_S3_REGION || "us-east-1";
+  const endpoint = (process.env.ARTIFACT_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(
+    /\/+$/,
+    ""
+  );
+  return { bucket, region, endpoint, accessKeyId, secretAccessKey };
+}
+
+async function s3Request(
+  method: "GET" | "PUT" | "DELETE",
+  key: string,
+  body?: Buffer,
+  contentType?: string
+): Promise<Response> {
+  const config = getConfig();
+  const path = `/${config.bucket}/${key.split("/").map(encodeURIComponent).join("/")}`;
+  const url = new URL(config.endpoint + path);
+
+  const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, "");
+  const date = amzDate.slice(0, 8);
+  const payloadHash = sha256(body ?? "");
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+    ...(contentType ? { "content-type": contentType } : {}),
+  };
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    "",
+    names.map((name) => `${name}:${headers[name]}\n`).join(""),
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${date}/${config.region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256(canonicalRequest)].join("\n");
+  let signingKey = hmac(`AWS4${config.secretAccessKey}`, date);
+  for (const part of [config.region, "s3", "aws4_request"]) {
+    signingKey = hmac(signingKey, part);
+  }
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  return fetch(url, {
+    method,
+    headers: {
+      // fetch sets Host itself
+      ...Object.fromEntries(Object.entries(headers).filter(([name]) => name !== "host")),
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+    body: body ? new Uint8Array(body) : undefined,
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+}
+
+async function s3Error(action: string, key: string, response: Response): Promise<Error> {
+  const text = await response.text().catch(() => "");
+  const code = text.match(/<Code>([^<]+)<\/Code>/)?.[1];
+  return new Error(`S3 ${action} ${key} failed with HTTP ${response.status}${code ? ` (${code})` : ""}`);
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+export const s3ArtifactStore: ArtifactStore = {
+  name: "s3",
+
+  async put(key, data, contentType) {
+    const response = await s3Request("PUT", key, data, contentType);
+    if (!response.ok) throw await s3Error("upload of", key, response);
+  },
+
+  async get(key) {
+    const response = await s3Request("GET", key);
+    if (response.status === 404) return null;
+    if (!response.ok) throw await s3Error("download of", key, response);
+
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get("content-type") ?? "application/octet-stream",
+    };
+  },
+
+  async delete(key) {
+    const response = await s3Request("DELETE", key);
+    if (!response.ok && response.status !== 404) throw await s3Error("delete of", key, response);
+  },
+};
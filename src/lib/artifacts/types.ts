@@ -0,0 +1,17 @@
+// Artifact store types
+// An artifact store keeps binary files produced by an audit (screenshots)
+// under slash-separated keys like "audits/<runId>/home-mobile-fold.jpg".
+
+export interface Artifact {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface ArtifactStore {
+  name: "local" | "s3";
+  put: (key: string, data: Buffer, contentType: string) => Promise<void>;
+  // Null when there is no artifact under the key
+  get: (key: string) => Promise<Artifact | null>;
+  // Missing keys are ignored
+  delete: (key: string) => Promise<void>;
+}
@@ -0,0 +1,81 @@
+// In-process event bus for audit job progress
+// Workers publish as runAudit moves through its stages; the SSE route
+// subscribes. Events are buffered per job so a client that connects late
+// gets everything so far. Jobs running in another process aren't seen here;
+// the stream route falls back to the job row for those.
+
+import type { AuditStreamEvent } from "@/types/audit";
+
+type Listener = (event: AuditStreamEvent) => void;
+
+interface Channel {
+  events: AuditStreamEvent[];
+  listeners: Set<Listener>;
+  cleanup?: ReturnType<typeof setTimeout>;
+}
+
+// Buffers are dropped this long after the job finishes
+const RETAIN_MS = 5 * 60 * 1000;
+
+// Kept on globalThis so route bundles and dev reloads share one bus
+const globalForEvents = globalThis as unknown as {
+  auditEventChannels?: Map<string, Channel>;
+};
+const channels = (globalForEvents.auditEventChannels ??= new Map<string, Channel>());
+
+function getChannel(jobId: string): Channel {
+  let channel = channels.get(jobId);
+  if (!channel) {
+    channel = { events: [], listeners: new Set() };
+    channels.set(jobId, channel);
+  }
+  return channel;
+}
+
+export function isTerminalEvent(event: AuditStreamEvent): boolean {
+  return event.type === "completed" || event.type === "failed" || event.type === "cancelled";
+}
+
+export function publishAuditEvent(jobId: string, event: AuditStreamEvent): void {
+  const channel = getChannel(jobId);
+
+  // Only the latest progress event is worth replaying
+  const last = channel.events[channel.events.length - 1];
+  if (event.type === "progress" && last?.type === "progress") {
+    channel.events[channel.events.length - 1] = event;
+  } else {
+    channel.events.push(event);
+  }
+
+  for (const listener of channel.listeners) {
+    listener(event);
+  }
+
+  if (isTerminalEvent(event)) {
+    clearTimeout(channel.cleanup);
+    channel.cleanup = setTimeout(() => channels.delete(jobId), RETAIN_MS);
+  }
+}
+
+/**
+ * Listen for a job's events. Returns the events published so far and an
+ * unsubscribe function.
+ */
+export function subscribeAuditEvents(
+  jobId: string,
+  listener: Listener
+): { replay: AuditStreamEvent[]; unsubscribe: () => void } {
+  const channel = getChannel(jobId);
+  channel.listeners.add(listener);
+
+  return {
+    replay: [...channel.events],
+    unsubscribe: () => {
+      channel.listeners.delete(listener);
+      // Nothing was ever published (job in another process): don't keep it
+      if (channel.events.length === 0 && channel.listeners.size === 0) {
+        channels.delete(jobId);
+      }
+    },
+  };
+}
@@ -0,0 +1,307 @@
+/**
+ * Audit History
+ *
+ * Domain-centric view over the audits table: a score timeline per category
+ * and what changed between two audits (scores, recommendations fixed or
+ * regressed). Re-scoring an audit (POST /api/audit/recalculate) saves a new
+ * row pointing back at its source; those rows are folded into the run they
+ * came from rather than counted as new audits of the site.
+ */
+
+import { db, initializeDatabase } from "./db";
+import { loadAudit } from "./audit-storage";
+import { upgradeAuditResult } from "./audit-schema";
+import type { AuditRecommendation, AuditResult } from "@/types/audit";
+
+// Audits of one domain read when building its history
+const DEFAULT_HISTORY_LIMIT = 50;
+
+export interface ScoreHistoryPoint {
+  auditId: string; // Latest version of the run (after any re-scoring)
+  runAuditId: string; // The audit the run was first saved as
+  createdAt: string; // When the site was audited
+  overallScore: number;
+  categories: Record<string, number>;
+  scoringProfile: string | null;
+  recalculated: boolean;
+  issues: { fail: number; warning: number; pass: number };
+}
+
+export interface ScoreHistory {
+  domain: string;
+  points: ScoreHistoryPoint[]; // Oldest first
+  categories: string[]; // Every category seen, in first-seen order
+}
+
+export type RecommendationChangeKind = "fixed" | "improved" | "regressed" | "new";
+
+export interface RecommendationChange {
+  key: string; // Rule ID, or category + title for older audits
+  title: string;
+  category: string;
+  impact: AuditRecommendation["impact"];
+  kind: RecommendationChangeKind;
+  from: AuditRecommendation["status"] | null;
+  to: AuditRecommendation["status"];
+}
+
+export interface AuditChanges {
+  previousAuditId: string;
+  previousCreatedAt: string;
+  currentAuditId: string;
+  currentCreatedAt: string;
+  overall: { oldScore: number; newScore: number; diff: number };
+  categories: Array<{
+    name: string;
+    oldScore: number | null;
+    newScore: number | null;
+    diff: number | null;
+  }>;
+  recommendations: Record<RecommendationChangeKind, RecommendationChange[]>;
+  // Profile differs between the two, so score changes aren't all the site's doing
+  profileChanged: boolean;
+}
+
+interface HistoryRow {
+  id: string;
+  createdAt: string;
+  result: AuditResult;
+}
+
+interface Run {
+  root: HistoryRow;
+  latest: HistoryRow;
+  members: Set<string>;
+}
+
+const STATUS_RANK: Record<AuditRecommendation["status"], number> = {
+  pass: 0,
+  warning: 1,
+  fail: 2,
+};
+
+/**
+ * Score timeline for a domain, one point per audit run
+ */
+export async function getScoreHistory(
+  domain: string,
+  limit = DEFAULT_HISTORY_LIMIT
+): Promise<ScoreHistory> {
+  const runs = groupRuns(await loadHistoryRows(domain, limit));
+
+  const categories: string[] = [];
+  const points = runs.map(({ root, latest }) => {
+    const result = latest.result;
+    for (const cat of result.categories ?? []) {
+      if (!categories.includes(cat.name)) categories.push(cat.name);
+    }
+    return {
+      auditId: latest.id,
+      runAuditId: root.id,
+      createdAt: root.createdAt,
+      overallScore: result.overallScore,
+      categories: Object.fromEntries(
+        (result.categories ?? []).map((cat) => [cat.name, cat.score])
+      ),
+      scoringProfile: result.meta?.scoringProfile ?? null,
+      recalculated: latest.id !== root.id,
+      issues: countStatuses(result.recommendations ?? []),
+    };
+  });
+
+  return { domain, points, categories };
+}
+
+/**
+ * What changed between an audit and the previous audit run of its domain,
+ * or a given audit. Returns null when the audit doesn't exist; changes is
+ * null when there is nothing earlier to compare with.
+ */
+export async function getAuditChanges(
+  auditId: string,
+  againstAuditId?: string
+): Promise<{ domain: string; changes: AuditChanges | null } | null> {
+  const audit = await loadAudit(auditId);
+  if (!audit?.result) return null;
+
+  const current: HistoryRow = {
+    id: audit.id,
+    createdAt: audit.createdAt,
+    result: audit.result,
+  };
+
+  if (againstAuditId) {
+    const against = await loadAudit(againstAuditId);
+    if (!against?.result) return { domain: audit.domain, changes: null };
+    const previous: HistoryRow = {
+      id: against.id,
+      createdAt: against.createdAt,
+      result: against.result,
+    };
+    return { domain: audit.domain, changes: compareRows(previous, current) };
+  }
+
+  const runs = groupRuns(await loadHistoryRows(audit.domain, DEFAULT_HISTORY_LIMIT));
+  const index = runs.findIndex((run) => run.members.has(auditId));
+  const previous = index > 0 ? runs[index - 1] : null;
+  if (!previous) return { domain: audit.domain, changes: null };
+
+  // Compare like with like: the run's own timestamp rather than the re-score's
+  const run = runs[index];
+  return {
+    domain: audit.domain,
+    changes: compareRows(
+      { ...previous.latest, createdAt: previous.root.createdAt },
+      { ...current, createdAt: run.root.createdAt }
+    ),
+  };
+}
+
+/**
+ * Compare two audit results of the same site
+ */
+export function compareAudits(
+  previous: AuditResult,
+  current: AuditResult
+): Omit<AuditChanges, "previousAuditId" | "previousCreatedAt" | "currentAuditId" | "currentCreatedAt"> {
+  const oldCategories = new Map((previous.categories ?? []).map((c) => [c.name, c.score]));
+  const newCategories = new Map((current.categories ?? []).map((c) => [c.name, c.score]));
+  const names = [...new Set([...newCategories.keys(), ...oldCategories.keys()])];
+
+  const oldRecs = new Map((previous.recommendations ?? []).map((r) => [recommendationKey(r), r]));
+  const recommendations: AuditChanges["recommendations"] = {
+    fixed: [],
+    improved: [],
+    regressed: [],
+    new: [],
+  };
+
+  for (const rec of current.recommendations ?? []) {
+    const key = recommendationKey(rec);
+    const old = oldRecs.get(key);
+    const kind = changeKind(old?.status ?? null, rec.status);
+    if (!kind) continue;
+    recommendations[kind].push({
+      key,
+      title: rec.title,
+      category: rec.category,
+      impact: rec.impact,
+      kind,
+      from: old?.status ?? null,
+      to: rec.status,
+    });
+  }
+
+  return {
+    overall: {
+      oldScore: previous.overallScore,
+      newScore: current.overallScore,
+      diff: current.overallScore - previous.overallScore,
+    },
+    categories: names.map((name) => {
+      const oldScore = oldCategories.get(name) ?? null;
+      const newScore = newCategories.get(name) ?? null;
+      return {
+        name,
+        oldScore,
+        newScore,
+        diff: oldScore !== null && newScore !== null ? newScore - oldScore : null,
+      };
+    }),
+    recommendations,
+    profileChanged:
+      (previous.meta?.scoringProfile ?? null) !== (current.meta?.scoringProfile ?? null),
+  };
+}
+
+function compareRows(previous: HistoryRow, current: HistoryRow): AuditChanges {
+  return {
+    previousAuditId: previous.id,
+    previousCreatedAt: previous.createdAt,
+    currentAuditId: current.id,
+    currentCreatedAt: current.createdAt,
+    ...compareAudits(previous.result, current.result),
+  };
+}
+
+// Recommendations that pass now and didn't show up before aren't news
+function changeKind(
+  from: AuditRecommendation["status"] | null,
+  to: AuditRecommendation["status"]
+): RecommendationChangeKind | null {
+  if (from === null) return to === "pass" ? null : "new";
+  if (from === to) return null;
+  if (to === "pass") return "fixed";
+  return STATUS_RANK[to] > STATUS_RANK[from] ? "regressed" : "improved";
+}
+
+function recommendationKey(rec: AuditRecommendation): string {
+  return rec.id ?? `${rec.category}:${rec.title}`;
+}
+
+function countStatuses(recommendations: AuditRecommendation[]) {
+  return {
+    fail: recommendations.filter((r) => r.status === "fail").length,
+    warning: recommendations.filter((r) => r.status === "warning").length,
+    pass: recommendations.filter((r) => r.status === "pass").length,
+  };
+}
+
+// Completed audits of a domain, oldest first
+async function loadHistoryRows(domain: string, limit: number): Promise<HistoryRow[]> {
+  await initializeDatabase();
+
+  const result = await db.execute({
+    sql: `SELECT id, created_at, result FROM (
+            SELECT id, created_at, result
+            FROM audits
+            WHERE LOWER(domain) = LOWER(?) AND status = 'completed' AND result IS NOT NULL
+            ORDER BY created_at DESC
+            LIMIT ?
+          ) ORDER BY created_at ASC`,
+    args: [domain, limit],
+  });
+
+  const rows: HistoryRow[] = [];
+  for (const row of result.rows) {
+    try {
+      const parsed = upgradeAuditResult(JSON.parse(row.result as string));
+      if (!parsed) continue;
+      rows.push({ id: row.id as string, createdAt: row.created_at as string, result: parsed });
+    } catch {
+      console.warn(`[History] Skipping audit ${row.id} with unreadable result`);
+    }
+  }
+  return rows;
+}
+
+// Group re-scored audits with the audit they were re-scored from
+function groupRuns(rows: HistoryRow[]): Run[] {
+  const byId = new Map(rows.map((row) => [row.id, row]));
+
+  const rootOf = (row: HistoryRow): HistoryRow => {
+    let current = row;
+    const seen = new Set<string>();
+    while (current.result.meta?.recalculatedFrom && !seen.has(current.id)) {
+      seen.add(current.id);
+      const source = byId.get(current.result.meta.recalculatedFrom);
+      if (!source) break;
+      current = source;
+    }
+    return current;
+  };
+
+  const runs = new Map<string, Run>();
+  for (const row of rows) {
+    const root = rootOf(row);
+    const run = runs.get(root.id);
+    if (run) {
+      run.members.add(row.id);
+      if (row.createdAt >= run.latest.createdAt) run.latest = row;
+    } else {
+      runs.set(root.id, { root, latest: row, members: new Set([row.id]) });
+    }
+  }
+
+  return [...runs.values()].sort((a, b) => a.root.createdAt.localeCompare(b.root.createdAt));
+}
@@ -0,0 +1,177 @@
+/**
+ * Audit Job Worker
+ *
+ * Runs single-domain audit jobs from the audit_jobs queue. A job is claimed
+ * under a lease that a heartbeat renews while the audit runs; a failed
+ * attempt is retried in this process after its backoff. Jobs left behind by
+ * another process (stalled, or a retry that was never picked up) are found
+ * by sweepAuditJobs(). Progress is also published to the in-process event
+ * bus for the SSE stream.
+ */
+
+import {
+  claimJob,
+  heartbeatJob,
+  updateJobProgress,
+  completeJob,
+  failJob,
+  markStalledJobs,
+  listDueJobs,
+  cleanupOldJobs,
+  type AuditJob,
+} from "./audit-queue";
+import { saveAudit } from "./audit-storage";
+import { auditCompletedData, emitWebhookEvent } from "./webhooks";
+import { publishAuditEvent } from "./audit-events";
+import { phaseForProgress } from "./audit-progress";
+import { deleteArtifacts } from "./artifacts";
+import { runAudit } from "@/app/api/audit/runner";
+
+// A job that stops renewing its lease for this long is considered stalled
+export const JOB_LEASE_MS = 2 * 60 * 1000;
+export const JOB_HEARTBEAT_MS = 30 * 1000;
+
+// Sweeps run at most this often per process
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Identifies this process as the lease owner
+export const JOB_WORKER_ID = `jobs_${process.pid}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Jobs running or waiting out a retry backoff in this process
+const activeJobs = new Set<string>();
+
+let lastSweepAt = 0;
+
+/**
+ * Run a job in the background, retrying failed attempts after their backoff.
+ * Returns false if this process is already handling it.
+ */
+export function startAuditJob(jobId: string): boolean {
+  if (activeJobs.has(jobId)) return false;
+
+  activeJobs.add(jobId);
+  runJob(jobId)
+    .catch((error) => {
+      console.error(`[Job Worker] Job ${jobId} stopped with an error:`, error);
+    })
+    .finally(() => {
+      activeJobs.delete(jobId);
+    });
+
+  return true;
+}
+
+/**
+ * Recover jobs other workers dropped and delete expired ones. Cheap to call
+ * often; it only does work once per SWEEP_INTERVAL_MS.
+ */
+export async function sweepAuditJobs(): Promise<void> {
+  if (Date.now() - lastSweepAt < SWEEP_INTERVAL_MS) return;
+  lastSweepAt = Date.now();
+
+  try {
+    await markStalledJobs();
+
+    for (const job of await listDueJobs()) {
+      startAuditJob(job.id);
+    }
+
+    await cleanupOldJobs();
+  } catch (error) {
+    console.error("[Job Worker] Sweep failed:", error);
+  }
+}
+
+async function runJob(jobId: string) {
+  while (true) {
+    const job = await claimJob(jobId, JOB_WORKER_ID, JOB_LEASE_MS);
+    if (!job) return;
+
+    const outcome = await runAttempt(job);
+    if (!outcome?.nextAttemptAt) return;
+
+    const delay = Math.max(outcome.nextAttemptAt.getTime() - Date.now(), 0);
+    console.log(`[Job Worker] Retrying ${job.domain} in ${Math.round(delay / 1000)}s`);
+    await new Promise((r) => setTimeout(r, delay));
+  }
+}
+
+/**
+ * Run one attempt. Returns the job as left by a failed attempt (pending with
+ * a retry time, or failed), or null when there is nothing more to do.
+ */
+async function runAttempt(job: AuditJob): Promise<AuditJob | null> {
+  const { id, domain } = job;
+  const url = `https://${domain}`;
+
+  console.log(`[Job Worker] Starting audit for ${domain} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  const heartbeat = setInterval(() => {
+    heartbeatJob(id, JOB_WORKER_ID, JOB_LEASE_MS).catch((error) => {
+      console.error(`[Job Worker] Heartbeat failed for ${id}:`, error);
+    });
+  }, JOB_HEARTBEAT_MS);
+
+  const reportProgress = async (progress: number, step: string) => {
+    publishAuditEvent(id, { type: "progress", phase: phaseForProgress(progress), progress, step });
+    await updateJobProgress(id, JOB_WORKER_ID, progress, step);
+  };
+
+  try {
+    await reportProgress(10, "Fetching website...");
+
+    const result = await runAudit(url, domain, reportProgress, {
+      scoringProfile: job.scoringProfile,
+      onStage: (stage) => publishAuditEvent(id, { type: "stage", ...stage }),
+    });
+
+    // Cancelled or stalled while running: another worker may own it now
+    if (!(await heartbeatJob(id, JOB_WORKER_ID, JOB_LEASE_MS))) {
+      console.log(`[Job Worker] Job ${id} was cancelled or lost, discarding result`);
+      await deleteArtifacts([
+        ...(result.screenshots ?? []).map((s) => s.key),
+        ...(result.snapshot ? [result.snapshot.key] : []),
+      ]);
+      return null;
+    }
+
+    const auditId = await saveAudit(domain, result, {
+      createdBy: job.createdBy,
+      apiKeyId: job.apiKeyId,
+    });
+    console.log(`[Job Worker] Audit saved with ID: ${auditId}`);
+
+    const completed = { ...result, auditId };
+    if (await completeJob(id, JOB_WORKER_ID, completed)) {
+      // Same object the status endpoint returns
+      publishAuditEvent(id, { type: "completed", result: completed });
+      await emitWebhookEvent("audit.completed", auditCompletedData({ jobId: id, auditId, domain, result }));
+    }
+    return null;
+  } catch (error) {
+    console.error(`[Job Worker] Audit failed for ${domain}:`, error);
+
+    const failed = await failJob(id, JOB_WORKER_ID, String(error));
+    if (failed?.status === "pending") {
+      publishAuditEvent(id, {
+        type: "retrying",
+        error: String(error),
+        attempt: failed.attempts,
+        maxAttempts: failed.maxAttempts,
+        nextAttemptAt: failed.nextAttemptAt?.toISOString() ?? null,
+      });
+    } else if (failed?.status === "failed") {
+      publishAuditEvent(id, { type: "failed", error: String(error) });
+      await emitWebhookEvent("audit.failed", {
+        jobId: id,
+        domain,
+        error: String(error),
+        attempts: failed.attempts,
+        batchId: null,
+      });
+    }
+    return failed;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
@@ -0,0 +1,34 @@
+// Maps runAudit's overall progress (0-100) onto the scanner phases.
+// Shared by the runner, which tags its events with a phase, and the
+// scanner hook, which turns overall progress into per-phase progress.
+
+import type { AuditPhaseId } from "@/types/audit";
+
+export interface AuditPhaseRange {
+  id: AuditPhaseId;
+  // Overall progress at which the phase starts and ends
+  start: number;
+  end: number;
+}
+
+export const AUDIT_PHASE_RANGES: AuditPhaseRange[] = [
+  { id: "domain", start: 0, end: 40 }, // crawl
+  { id: "performance", start: 40, end: 45 }, // PageSpeed / Lighthouse
+  { id: "seo", start: 45, end: 50 }, // DataForSEO / SEMrush
+  { id: "ui", start: 50, end: 85 }, // page content, booking flow, trust signals
+  { id: "scoring", start: 85, end: 100 }, // rules, scores, recommendations
+];
+
+export function phaseForProgress(progress: number): AuditPhaseId {
+  const range = AUDIT_PHASE_RANGES.find((r) => progress < r.end);
+  return range?.id ?? "scoring";
+}
+
+// Progress within a phase (0-100) for an overall progress value; 0 for
+// phases that aren't one of the audit's
+export function phaseProgress(phase: string, progress: number): number {
+  const range = AUDIT_PHASE_RANGES.find((r) => r.id === phase);
+  if (!range) return 0;
+  const fraction = (progress - range.start) / (range.end - range.start);
+  return Math.round(Math.min(1, Math.max(0, fraction)) * 100);
+}
@@ -1,51 +1,123 @@
 // Job queue backed by Turso for serverless compatibility
-import { db } from "./db";
+//
+// Lifecycle: pending -> running -> completed | failed | cancelled
+// A worker claims a job under a lease and renews it with a heartbeat. A
+// failed attempt goes back to pending with exponential backoff until
+// max_attempts is reached; a running job whose heartbeat stops is marked
+// stalled and claimed again. Finished jobs are kept for AUDIT_JOB_TTL_HOURS.
+import { db, initializeDatabase } from "./db";
+
+export type AuditJobStatus =
+  | "pending"
+  | "running"
+  | "stalled"
+  | "completed"
+  | "failed"
+  | "cancelled";
 
 export interface AuditJob {
   id: string;
   domain: string;
-  status: "pending" | "running" | "completed" | "failed";
+  status: AuditJobStatus;
   progress: number;
   currentStep: string;
   result: unknown | null;
   error: string | null;
+  scoringProfile: string | null;
+  // Admin user who started the audit
+  createdBy: string | null;
+  // API key that started the audit through /api/v1
+  apiKeyId: string | null;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date | null;
+  leaseOwner: string | null;
+  leaseExpiresAt: Date | null;
+  heartbeatAt: Date | null;
   createdAt: Date;
+  startedAt: Date | null;
   completedAt: Date | null;
 }
 
-// Ensure jobs table exists
-let tableInitialized = false;
-async function ensureJobsTable() {
-  if (tableInitialized) return;
+export interface CreateJobOptions {
+  scoringProfile?: string | null;
+  createdBy?: string | null;
+  apiKeyId?: string | null;
+  maxAttempts?: number;
+  // Create the job already claimed by this worker, so no other worker can
+  // pick it up between creation and claiming
+  claim?: { owner: string; leaseMs: number };
+}
+
+// Statuses a job never leaves
+export const FINISHED_JOB_STATUSES: AuditJobStatus[] = ["completed", "failed", "cancelled"];
+
+// Set by POST /api/audit/start to the job it created, so the anonymous
+// visitor who started an audit can cancel it
+export const AUDIT_JOB_COOKIE = "ghai_audit_job";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_TTL_HOURS = 24;
+
+// Backoff between attempts: 30s, 60s, 120s, ... capped at 10 minutes
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+export function getJobMaxAttempts(): number {
+  const value = parseInt(process.env.AUDIT_JOB_MAX_ATTEMPTS || "", 10);
+  return value > 0 ? value : DEFAULT_MAX_ATTEMPTS;
+}
+
+export function getJobTtlHours(): number {
+  const value = parseFloat(process.env.AUDIT_JOB_TTL_HOURS || "");
+  return value > 0 ? value : DEFAULT_TTL_HOURS;
+}
 
-  await db.execute(`
-    CREATE TABLE IF NOT EXISTS audit_jobs (
-      id TEXT PRIMARY KEY,
-      domain TEXT NOT NULL,
-      status TEXT NOT NULL DEFAULT 'pending',
-      progress INTEGER NOT NULL DEFAULT 0,
-      current_step TEXT NOT NULL DEFAULT 'Initializing...',
-      result TEXT,
-      error TEXT,
-      created_at TEXT NOT NULL,
-      completed_at TEXT
-    )
-  `);
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
 
-  tableInitialized = true;
-  console.log("[Queue] Jobs table initialized");
+// Schema lives in migrations/008_audit_jobs.sql
+let schemaEnsured = false;
+async function ensureSchema() {
+  if (schemaEnsured) return;
+  await initializeDatabase();
+  schemaEnsured = true;
 }
 
-export async function createJob(domain: string): Promise<AuditJob> {
-  await ensureJobsTable();
+export async function createJob(
+  domain: string,
+  options: CreateJobOptions = {}
+): Promise<AuditJob> {
+  await ensureSchema();
 
   const id = `audit_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
   const now = new Date();
+  const maxAttempts = options.maxAttempts ?? getJobMaxAttempts();
+  const claim = options.claim;
+  const leaseExpiresAt = claim ? new Date(now.getTime() + claim.leaseMs) : null;
 
   await db.execute({
-    sql: `INSERT INTO audit_jobs (id, domain, status, progress, current_step, created_at)
-          VALUES (?, ?, 'pending', 0, 'Initializing...', ?)`,
-    args: [id, domain, now.toISOString()],
+    sql: `INSERT INTO audit_jobs
+          (id, domain, status, progress, current_step, scoring_profile, created_by, api_key_id, attempts, max_attempts,
+           lease_owner, lease_expires_at, heartbeat_at, created_at, started_at, updated_at)
+          VALUES (?, ?, ?, 0, 'Initializing...', ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      id,
+      domain,
+      claim ? "running" : "pending",
+      options.scoringProfile || null,
+      options.createdBy ?? null,
+      options.apiKeyId ?? null,
+      claim ? 1 : 0,
+      maxAttempts,
+      claim?.owner ?? null,
+      leaseExpiresAt?.toISOString() ?? null,
+      claim ? now.toISOString() : null,
+      now.toISOString(),
+      claim ? now.toISOString() : null,
+      now.toISOString(),
+    ],
   });
 
   console.log(`[Queue] Job created: ${id}`);
@@ -53,18 +125,28 @@ export async function createJob(domain: string): Promise<AuditJob> {
   return {
     id,
     domain,
-    status: "pending",
+    status: claim ? "running" : "pending",
     progress: 0,
     currentStep: "Initializing...",
     result: null,
     error: null,
+    scoringProfile: options.scoringProfile || null,
+    createdBy: options.createdBy ?? null,
+    apiKeyId: options.apiKeyId ?? null,
+    attempts: claim ? 1 : 0,
+    maxAttempts,
+    nextAttemptAt: null,
+    leaseOwner: claim?.owner ?? null,
+    leaseExpiresAt,
+    heartbeatAt: claim ? now : null,
     createdAt: now,
+    startedAt: claim ? now : null,
     completedAt: null,
   };
 }
 
 export async function getJob(id: string): Promise<AuditJob | null> {
-  await ensureJobsTable();
+  await ensureSchema();
 
   const result = await db.execute({
     sql: `SELECT * FROM audit_jobs WHERE id = ?`,
@@ -75,22 +157,11 @@ export async function getJob(id: string): Promise<AuditJob | null> {
     return null;
   }
 
-  const row = result.rows[0];
-  return {
-    id: row.id as string,
-    domain: row.domain as string,
-    status: row.status as AuditJob["status"],
-    progress: row.progress as number,
-    currentStep: row.current_step as string,
-    result: row.result ? JSON.parse(row.result as string) : null,
-    error: row.error as string | null,
-    createdAt: new Date(row.created_at as string),
-    completedAt: row.completed_at ? new Date(row.completed_at as string) : null,
-  };
+  return mapRowToJob(result.rows[0]);
 }
 
 export async function updateJob(id: string, updates: Partial<AuditJob>): Promise<AuditJob | null> {
-  await ensureJobsTable();
+  await ensureSchema();
 
   const setClauses: string[] = [];
   const args: (string | number | null)[] = [];
@@ -124,6 +195,8 @@ export async function updateJob(id: string, updates: Partial<AuditJob>): Promise
     return getJob(id);
   }
 
+  setClauses.push("updated_at = ?");
+  args.push(new Date().toISOString());
   args.push(id);
 
   await db.execute({
@@ -134,14 +207,245 @@ export async function updateJob(id: string, updates: Partial<AuditJob>): Promise
   return getJob(id);
 }
 
-// Clean up old jobs (older than 1 hour)
-export async function cleanupOldJobs(): Promise<void> {
-  await ensureJobsTable();
+// Claim a pending or stalled job whose backoff has passed. Single statement,
+// so only one worker can win; returns null if the job isn't claimable.
+export async function claimJob(
+  id: string,
+  owner: string,
+  leaseMs: number
+): Promise<AuditJob | null> {
+  await ensureSchema();
 
-  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const now = new Date();
+  const result = await db.execute({
+    sql: `UPDATE audit_jobs
+          SET status = 'running', attempts = attempts + 1, next_attempt_at = NULL,
+              lease_owner = ?, lease_expires_at = ?, heartbeat_at = ?,
+              started_at = COALESCE(started_at, ?), updated_at = ?
+          WHERE id = ?
+            AND status IN ('pending', 'stalled')
+            AND attempts < max_attempts
+            AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+          RETURNING *`,
+    args: [
+      owner,
+      new Date(now.getTime() + leaseMs).toISOString(),
+      now.toISOString(),
+      now.toISOString(),
+      now.toISOString(),
+      id,
+      now.toISOString(),
+    ],
+  });
 
-  await db.execute({
-    sql: `DELETE FROM audit_jobs WHERE created_at < ?`,
-    args: [oneHourAgo],
+  return result.rows.length > 0 ? mapRowToJob(result.rows[0]) : null;
+}
+
+// Renew the lease. False means the worker lost the job (cancelled or stalled).
+export async function heartbeatJob(id: string, owner: string, leaseMs: number): Promise<boolean> {
+  await ensureSchema();
+
+  const now = new Date();
+  const result = await db.execute({
+    sql: `UPDATE audit_jobs SET lease_expires_at = ?, heartbeat_at = ?, updated_at = ?
+          WHERE id = ? AND lease_owner = ? AND status = 'running'`,
+    args: [
+      new Date(now.getTime() + leaseMs).toISOString(),
+      now.toISOString(),
+      now.toISOString(),
+      id,
+      owner,
+    ],
+  });
+
+  return result.rowsAffected > 0;
+}
+
+// Progress from the worker holding the job; ignored once it has lost it
+export async function updateJobProgress(
+  id: string,
+  owner: string,
+  progress: number,
+  currentStep: string
+): Promise<boolean> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `UPDATE audit_jobs SET progress = ?, current_step = ?, updated_at = ?
+          WHERE id = ? AND lease_owner = ? AND status = 'running'`,
+    args: [progress, currentStep, new Date().toISOString(), id, owner],
+  });
+
+  return result.rowsAffected > 0;
+}
+
+export async function completeJob(id: string, owner: string, result: unknown): Promise<boolean> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const update = await db.execute({
+    sql: `UPDATE audit_jobs
+          SET status = 'completed', progress = 100, current_step = 'Complete',
+              result = ?, error = NULL, lease_owner = NULL, lease_expires_at = NULL,
+              completed_at = ?, updated_at = ?
+          WHERE id = ? AND lease_owner = ? AND status = 'running'`,
+    args: [JSON.stringify(result), now, now, id, owner],
   });
+
+  return update.rowsAffected > 0;
+}
+
+// Record a failed attempt: back to pending with backoff while attempts
+// remain, failed otherwise. Returns null if the worker had lost the job.
+export async function failJob(id: string, owner: string, error: string): Promise<AuditJob | null> {
+  await ensureSchema();
+
+  const job = await getJob(id);
+  if (!job || job.leaseOwner !== owner || job.status !== "running") return null;
+
+  const now = new Date();
+  const retry = job.attempts < job.maxAttempts;
+  const nextAttemptAt = retry ? new Date(now.getTime() + getRetryDelayMs(job.attempts)) : null;
+
+  const result = await db.execute({
+    sql: `UPDATE audit_jobs
+          SET status = ?, error = ?, current_step = ?, next_attempt_at = ?,
+              lease_owner = NULL, lease_expires_at = NULL,
+              completed_at = ?, updated_at = ?
+          WHERE id = ? AND lease_owner = ? AND status = 'running'
+          RETURNING *`,
+    args: [
+      retry ? "pending" : "failed",
+      error,
+      retry ? `Retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})...` : "Failed",
+      nextAttemptAt?.toISOString() ?? null,
+      retry ? null : now.toISOString(),
+      now.toISOString(),
+      id,
+      owner,
+    ],
+  });
+
+  return result.rows.length > 0 ? mapRowToJob(result.rows[0]) : null;
+}
+
+// Cancel a job that hasn't finished. A worker still running it notices on
+// its next heartbeat and drops the result.
+export async function cancelJob(id: string): Promise<AuditJob | null> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const result = await db.execute({
+    sql: `UPDATE audit_jobs
+          SET status = 'cancelled', current_step = 'Cancelled', next_attempt_at = NULL,
+              lease_owner = NULL, lease_expires_at = NULL,
+              completed_at = ?, updated_at = ?
+          WHERE id = ? AND status IN ('pending', 'running', 'stalled')
+          RETURNING *`,
+    args: [now, now, id],
+  });
+
+  if (result.rows.length === 0) return null;
+
+  console.log(`[Queue] Job cancelled: ${id}`);
+  return mapRowToJob(result.rows[0]);
+}
+
+// Mark running jobs whose lease expired as stalled (claimable again), or
+// failed when they have no attempts left. Returns the number of jobs touched.
+export async function markStalledJobs(): Promise<number> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const [stalled, exhausted] = await db.batch(
+    [
+      {
+        sql: `UPDATE audit_jobs
+              SET status = 'stalled', current_step = 'Stalled, waiting to retry...',
+                  error = 'Worker heartbeat stopped', lease_owner = NULL, lease_expires_at = NULL,
+                  updated_at = ?
+              WHERE status = 'running' AND lease_expires_at <= ? AND attempts < max_attempts`,
+        args: [now, now],
+      },
+      {
+        sql: `UPDATE audit_jobs
+              SET status = 'failed', current_step = 'Failed',
+                  error = 'Worker heartbeat stopped', lease_owner = NULL, lease_expires_at = NULL,
+                  completed_at = ?, updated_at = ?
+              WHERE status = 'running' AND lease_expires_at <= ? AND attempts >= max_attempts`,
+        args: [now, now, now],
+      },
+    ],
+    "write"
+  );
+
+  const count = stalled.rowsAffected + exhausted.rowsAffected;
+  if (count > 0) {
+    console.log(`[Queue] Marked ${stalled.rowsAffected} jobs stalled, ${exhausted.rowsAffected} failed`);
+  }
+  return count;
+}
+
+// Pending or stalled jobs whose backoff has passed, oldest first
+export async function listDueJobs(limit: number = 20): Promise<AuditJob[]> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM audit_jobs
+          WHERE status IN ('pending', 'stalled')
+            AND attempts < max_attempts
+            AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+          ORDER BY created_at ASC
+          LIMIT ?`,
+    args: [new Date().toISOString(), limit],
+  });
+
+  return result.rows.map(mapRowToJob);
+}
+
+// Delete finished jobs older than the retention window
+export async function cleanupOldJobs(ttlHours: number = getJobTtlHours()): Promise<number> {
+  await ensureSchema();
+
+  const cutoff = new Date(Date.now() - ttlHours * 60 * 60 * 1000).toISOString();
+
+  const result = await db.execute({
+    sql: `DELETE FROM audit_jobs
+          WHERE status IN ('completed', 'failed', 'cancelled')
+            AND COALESCE(completed_at, created_at) < ?`,
+    args: [cutoff],
+  });
+
+  if (result.rowsAffected > 0) {
+    console.log(`[Queue] Removed ${result.rowsAffected} jobs older than ${ttlHours}h`);
+  }
+  return result.rowsAffected;
+}
+
+function toDate(value: unknown): Date | null {
+  return value ? new Date(value as string) : null;
+}
+
+function mapRowToJob(row: Record<string, unknown>): AuditJob {
+  return {
+    id: row.id as string,
+    domain: row.domain as string,
+    status: row.status as AuditJobStatus,
+    progress: row.progress as number,
+    currentStep: row.current_step as string,
+    result: row.result ? JSON.parse(row.result as string) : null,
+    error: row.error as string | null,
+    scoringProfile: (row.scoring_profile as string | null) ?? null,
+    createdBy: (row.created_by as string | null) ?? null,
+    apiKeyId: (row.api_key_id as string | null) ?? null,
+    attempts: Number(row.attempts ?? 0),
+    maxAttempts: Number(row.max_attempts ?? DEFAULT_MAX_ATTEMPTS),
+    nextAttemptAt: toDate(row.next_attempt_at),
+    leaseOwner: (row.lease_owner as string | null) ?? null,
+    leaseExpiresAt: toDate(row.lease_expires_at),
+    heartbeatAt: toDate(row.heartbeat_at),
+    createdAt: new Date(row.created_at as string),
+    startedAt: toDate(row.started_at),
+    completedAt: toDate(row.completed_at),
+  };
 }
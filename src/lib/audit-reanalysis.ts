@@ -0,0 +1,75 @@
+/**
+ * Audit Re-analysis
+ *
+ * Re-runs the current detectors and rules against the snapshot stored with
+ * an audit (see services/audit/snapshot.ts), without fetching anything, and
+ * saves the outcome as a new audit pointing back at its source - the way
+ * re-scoring does, so score history folds it into the original run.
+ */
+
+import { ANALYZER_VERSION, reanalyzeAudit } from "@/app/api/audit/runner";
+import type { ScoreDiff } from "@/rules";
+import { withAuditMeta } from "./audit-schema";
+import { saveAudit, type StoredAudit } from "./audit-storage";
+import { resolveScoringProfile } from "./scoring-profile-storage";
+
+export interface ReanalysisOutcome {
+  oldAuditId: string;
+  newAuditId: string | null; // Null for a dry run
+  profile: string;
+  oldScore: number;
+  newScore: number;
+  // Analyzer that produced the old result (null before versions were
+  // recorded) and the one that produced the new one
+  analyzerVersion: { old: number | null; new: number };
+  changes: ScoreDiff;
+}
+
+/**
+ * Re-analyze an audit under `profile`, or the profile it was scored with.
+ * Returns an error message when the audit can't be re-analyzed.
+ */
+export async function reanalyzeStoredAudit(
+  audit: StoredAudit,
+  options: { profile?: string | null; dryRun?: boolean; createdBy?: string | null } = {}
+): Promise<ReanalysisOutcome | string> {
+  const previous = audit.result;
+  if (!previous?.snapshot) {
+    return "Audit has no snapshot to re-analyze (it predates snapshots or AUDIT_SNAPSHOTS was off)";
+  }
+
+  let profile;
+  try {
+    profile = await resolveScoringProfile(options.profile ?? previous.meta?.scoringProfile);
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  const reanalyzed = await reanalyzeAudit(previous, profile);
+  if (!reanalyzed) {
+    return "Audit snapshot is missing from artifact storage";
+  }
+  const { result, diff } = reanalyzed;
+
+  const newAuditId = options.dryRun
+    ? null
+    : await saveAudit(
+        audit.domain,
+        {
+          ...result,
+          auditId: undefined, // Will get a new ID
+          meta: withAuditMeta(result, { recalculatedFrom: audit.id }),
+        },
+        { createdBy: options.createdBy }
+      );
+
+  return {
+    oldAuditId: audit.id,
+    newAuditId,
+    profile: profile.name,
+    oldScore: previous.overallScore,
+    newScore: result.overallScore,
+    analyzerVersion: { old: previous.meta?.analyzerVersion ?? null, new: ANALYZER_VERSION },
+    changes: diff,
+  };
+}
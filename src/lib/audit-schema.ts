@@ -0,0 +1,177 @@
+// Audit Result Schema
+// Every AuditResult is stored with the schemaVersion it was written with.
+// Results are validated before they are saved, and stored results are
+// upgraded to the current version when they are loaded - one upgrader per
+// version, applied in turn - so report components only ever see the current
+// shape. Pure, so client components can use it too.
+//
+// To change the shape: bump AUDIT_SCHEMA_VERSION, add the upgrader from the
+// previous version to UPGRADERS and update validateAuditResult.
+
+import type { AuditMeta, AuditResult } from "@/types/audit";
+
+export const AUDIT_SCHEMA_VERSION = 1;
+
+type StoredResult = Record<string, unknown>;
+
+// UPGRADERS[n] takes a result from version n to n + 1
+const UPGRADERS: Array<(result: StoredResult) => StoredResult> = [
+  // 0: results saved before schemaVersion existed. Fill in what the report
+  // reads without checking, fix the case of recommendation statuses and
+  // impacts, and drop recommendation rows it still can't show.
+  (result) => {
+    const meta = isObject(result.meta) ? result.meta : undefined;
+    return {
+      ...result,
+      projectedScore: isNumber(result.projectedScore) ? result.projectedScore : result.overallScore,
+      monthlyRevenueLoss: isNumber(result.monthlyRevenueLoss) ? result.monthlyRevenueLoss : 0,
+      summary: typeof result.summary === "string" ? result.summary : "",
+      categories: Array.isArray(result.categories) ? result.categories : [],
+      recommendations: Array.isArray(result.recommendations)
+        ? result.recommendations.flatMap((rec) => {
+            if (!isObject(rec) || typeof rec.title !== "string") return [];
+            const status = matchValue(STATUSES, rec.status);
+            const impact = matchValue(IMPACTS, rec.impact);
+            return status && impact ? [{ ...rec, status, impact }] : [];
+          })
+        : [],
+      competitors: Array.isArray(result.competitors) ? result.competitors : [],
+      meta: meta && {
+        ...meta,
+        notes: Array.isArray(meta.notes) ? meta.notes : [],
+      },
+    };
+  },
+];
+
+const STATUSES = ["pass", "fail", "warning"];
+const IMPACTS = ["High", "Medium", "Low"];
+
+/**
+ * What is wrong with a result, as a list of problems (empty when it is a
+ * valid current-version AuditResult). Checks the fields the report and
+ * scoring code rely on, not every nested detail.
+ */
+export function validateAuditResult(value: unknown): string[] {
+  if (!isObject(value)) return ["result is not an object"];
+
+  const problems: string[] = [];
+  const expect = (ok: boolean, problem: string) => {
+    if (!ok) problems.push(problem);
+  };
+
+  expect(
+    value.schemaVersion === AUDIT_SCHEMA_VERSION,
+    `schemaVersion is ${String(value.schemaVersion)}, expected ${AUDIT_SCHEMA_VERSION}`
+  );
+  for (const key of ["domain", "timestamp", "summary"]) {
+    expect(typeof value[key] === "string", `${key} is not a string`);
+  }
+  for (const key of ["overallScore", "projectedScore", "monthlyRevenueLoss"]) {
+    expect(isNumber(value[key]), `${key} is not a number`);
+  }
+
+  if (Array.isArray(value.categories)) {
+    value.categories.forEach((cat, i) => {
+      expect(
+        isObject(cat) && typeof cat.name === "string" && isNumber(cat.score) && isNumber(cat.weight),
+        `categories[${i}] needs a name, score and weight`
+      );
+    });
+  } else {
+    problems.push("categories is not an array");
+  }
+
+  if (Array.isArray(value.recommendations)) {
+    value.recommendations.forEach((rec, i) => {
+      expect(
+        isObject(rec) &&
+          typeof rec.title === "string" &&
+          STATUSES.includes(rec.status as string) &&
+          IMPACTS.includes(rec.impact as string),
+        `recommendations[${i}] needs a title, status and impact`
+      );
+    });
+  } else {
+    problems.push("recommendations is not an array");
+  }
+
+  if (Array.isArray(value.competitors)) {
+    value.competitors.forEach((competitor, i) => {
+      expect(isObject(competitor) && typeof competitor.name === "string", `competitors[${i}] has no name`);
+    });
+  } else {
+    problems.push("competitors is not an array");
+  }
+
+  for (const key of ["findings", "pages", "screenshots"]) {
+    expect(value[key] === undefined || Array.isArray(value[key]), `${key} is not an array`);
+  }
+  for (const key of ["bookingFlow", "trustSignals", "normalized"]) {
+    expect(value[key] === undefined || isObject(value[key]), `${key} is not an object`);
+  }
+
+  if (value.meta !== undefined) {
+    if (isObject(value.meta)) {
+      expect(
+        value.meta.notes === undefined ||
+          (Array.isArray(value.meta.notes) && value.meta.notes.every((note) => typeof note === "string")),
+        "meta.notes is not a list of strings"
+      );
+    } else {
+      problems.push("meta is not an object");
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * A result's meta with some fields changed. Results saved without meta get
+ * the domain as their url and no fetch time (0, which reports hide).
+ */
+export function withAuditMeta(result: AuditResult, changes: Partial<AuditMeta>): AuditMeta {
+  return { fetchTimeMs: 0, url: result.domain, ...result.meta, ...changes };
+}
+
+/**
+ * Upgrade a stored result to the current schema version. Null when it isn't
+ * an audit result or is still invalid once upgraded (logged), so callers can
+ * treat it like a missing result instead of rendering a broken one.
+ */
+export function upgradeAuditResult(value: unknown): AuditResult | null {
+  if (!isObject(value)) return null;
+
+  const from = isNumber(value.schemaVersion) ? value.schemaVersion : 0;
+  if (from > AUDIT_SCHEMA_VERSION) {
+    console.warn(`[Audit Schema] Result has schemaVersion ${from}, newer than ${AUDIT_SCHEMA_VERSION}`);
+    return null;
+  }
+
+  let result = value;
+  for (let version = from; version < AUDIT_SCHEMA_VERSION; version++) {
+    result = { ...UPGRADERS[version](result), schemaVersion: version + 1 };
+  }
+
+  const problems = validateAuditResult(result);
+  if (problems.length > 0) {
+    console.warn(`[Audit Schema] Invalid ${String(result.domain ?? "audit")} result: ${problems.join("; ")}`);
+    return null;
+  }
+  return result as unknown as AuditResult;
+}
+
+// The allowed value equal to `value` ignoring case and whitespace
+function matchValue(allowed: string[], value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const normalized = value.trim().toLowerCase();
+  return allowed.find((option) => option.toLowerCase() === normalized);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
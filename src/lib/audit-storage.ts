@@ -1,4 +1,7 @@
+import type { AuditResult } from "@/types/audit";
 import { db, initializeDatabase } from "./db";
+import { deleteArtifacts } from "./artifacts";
+import { upgradeAuditResult, validateAuditResult } from "./audit-schema";
 
 // Track if schema has been initialized
 let schemaInitialized = false;
@@ -55,7 +58,9 @@ export interface StoredAudit {
   domain: string;
   createdAt: string;
   completedAt: string;
-  result: unknown;
+  // Upgraded to the current schema; null for a failed audit or a stored
+  // result that can't be read
+  result: AuditResult | null;
 }
 
 // Generate a slug-friendly ID from domain
@@ -65,25 +70,53 @@ function generateAuditId(domain: string): string {
   return `${slug}-${timestamp}`;
 }
 
+// Refuse to store a result the report couldn't show
+export function assertValidAuditResult(result: unknown): void {
+  const problems = validateAuditResult(result);
+  if (problems.length > 0) {
+    throw new Error(`Invalid audit result: ${problems.join("; ")}`);
+  }
+}
+
+// A stored result, upgraded to the current schema. The row's domain and
+// completion time stand in for fields the oldest results may lack.
+function parseStoredResult(row: Record<string, unknown>): AuditResult | null {
+  if (row.status !== "completed" || !row.result) return null;
+
+  try {
+    return upgradeAuditResult({
+      domain: row.domain,
+      timestamp: row.completed_at,
+      ...JSON.parse(row.result as string),
+    });
+  } catch (error) {
+    console.error(`[Storage] Failed to parse result of audit ${row.id}:`, error);
+    return null;
+  }
+}
+
 // Save an audit result
 export async function saveAudit(
   domain: string,
-  result: unknown
+  result: AuditResult,
+  options: { createdBy?: string | null; apiKeyId?: string | null } = {}
 ): Promise<string> {
   console.log(`[Storage] saveAudit called for domain: ${domain}`);
 
   try {
+    assertValidAuditResult(result);
     await ensureSchema();
     const id = generateAuditId(domain);
     const now = new Date().toISOString();
     const resultJson = JSON.stringify(result);
+    const score = result.overallScore;
 
     console.log(`[Storage] Inserting audit ${id}, result size: ${resultJson.length} bytes`);
 
     await db.execute({
-      sql: `INSERT INTO audits (id, domain, status, created_at, completed_at, result)
-            VALUES (?, ?, 'completed', ?, ?, ?)`,
-      args: [id, domain, now, now, resultJson],
+      sql: `INSERT INTO audits (id, domain, status, created_at, completed_at, result, score, created_by, api_key_id)
+            VALUES (?, ?, 'completed', ?, ?, ?, ?, ?, ?)`,
+      args: [id, domain, now, now, resultJson, score, options.createdBy ?? null, options.apiKeyId ?? null],
     });
 
     console.log(`[Storage] Audit saved successfully: ${id}`);
@@ -98,7 +131,7 @@ export async function saveAudit(
 export async function loadAudit(id: string): Promise<StoredAudit | null> {
   await ensureSchema();
   const result = await db.execute({
-    sql: `SELECT id, domain, created_at, completed_at, result FROM audits WHERE id = ?`,
+    sql: `SELECT id, domain, status, created_at, completed_at, result FROM audits WHERE id = ?`,
     args: [id],
   });
 
@@ -112,10 +145,34 @@ export async function loadAudit(id: string): Promise<StoredAudit | null> {
     domain: row.domain as string,
     createdAt: row.created_at as string,
     completedAt: row.completed_at as string,
-    result: JSON.parse(row.result as string),
+    result: parseStoredResult(row),
   };
 }
 
+// Whether an API key started the audit, directly or as part of one of its batches
+export async function isAuditOwnedByApiKey(id: string, apiKeyId: string): Promise<boolean> {
+  await ensureSchema();
+  const result = await db.execute({
+    sql: `SELECT 1 FROM audits a
+          LEFT JOIN import_batches b ON b.id = a.batch_id
+          WHERE a.id = ? AND (a.api_key_id = ? OR b.api_key_id = ?)`,
+    args: [id, apiKeyId, apiKeyId],
+  });
+  return result.rows.length > 0;
+}
+
+// Replace a saved audit's result in place (e.g. to attach competitor benchmarks)
+export async function updateAuditResult(id: string, result: AuditResult): Promise<boolean> {
+  assertValidAuditResult(result);
+  await ensureSchema();
+  const score = result.overallScore;
+  const updated = await db.execute({
+    sql: `UPDATE audits SET result = ?, score = ? WHERE id = ?`,
+    args: [JSON.stringify(result), score, id],
+  });
+  return updated.rowsAffected > 0;
+}
+
 // List recent audits for a domain
 export async function listAuditsForDomain(
   domain: string,
@@ -123,7 +180,7 @@ export async function listAuditsForDomain(
 ): Promise<StoredAudit[]> {
   await ensureSchema();
   const result = await db.execute({
-    sql: `SELECT id, domain, created_at, completed_at, result
+    sql: `SELECT id, domain, status, created_at, completed_at, result
           FROM audits
           WHERE domain = ?
           ORDER BY created_at DESC
@@ -136,7 +193,7 @@ export async function listAuditsForDomain(
     domain: row.domain as string,
     createdAt: row.created_at as string,
     completedAt: row.completed_at as string,
-    result: JSON.parse(row.result as string),
+    result: parseStoredResult(row),
   }));
 }
 
@@ -144,7 +201,7 @@ export async function listAuditsForDomain(
 export async function listRecentAudits(limit = 20): Promise<StoredAudit[]> {
   await ensureSchema();
   const result = await db.execute({
-    sql: `SELECT id, domain, created_at, completed_at, result
+    sql: `SELECT id, domain, status, created_at, completed_at, result
           FROM audits
           ORDER BY created_at DESC
           LIMIT ?`,
@@ -156,7 +213,7 @@ export async function listRecentAudits(limit = 20): Promise<StoredAudit[]> {
     domain: row.domain as string,
     createdAt: row.created_at as string,
     completedAt: row.completed_at as string,
-    result: JSON.parse(row.result as string),
+    result: parseStoredResult(row),
   }));
 }
 
@@ -185,6 +242,8 @@ export interface AuditListItem {
   completedAt: string | null;
   batchId: string | null;
   viewCount: number;
+  // Email of the admin user who started the audit
+  createdBy: string | null;
 }
 
 export interface AuditListResult {
@@ -284,6 +343,7 @@ export async function listAuditsAdvanced(
         a.created_at,
         a.completed_at,
         a.batch_id,
+        u.email as created_by,
         COALESCE(v.view_count, 0) as view_count
       FROM audits a
       LEFT JOIN (
@@ -291,6 +351,7 @@ export async function listAuditsAdvanced(
         FROM report_views
         GROUP BY audit_id
       ) v ON a.id = v.audit_id
+      LEFT JOIN admin_users u ON u.id = a.created_by
       ${whereClause}
       ${orderClause}
       LIMIT ? OFFSET ?
@@ -307,11 +368,38 @@ export async function listAuditsAdvanced(
     completedAt: row.completed_at as string | null,
     batchId: row.batch_id as string | null,
     viewCount: (row.view_count as number) || 0,
+    createdBy: (row.created_by as string | null) ?? null,
   }));
 
   return { audits, total, page, totalPages };
 }
 
+/**
+ * Summary rows (no result JSON) for the given audit IDs
+ */
+export async function getAuditSummaries(
+  auditIds: string[]
+): Promise<Array<{ id: string; domain: string; status: string; score: number | null; createdAt: string; batchId: string | null }>> {
+  await ensureSchema();
+
+  if (auditIds.length === 0) return [];
+
+  const placeholders = auditIds.map(() => "?").join(",");
+  const result = await db.execute({
+    sql: `SELECT id, domain, status, score, created_at, batch_id FROM audits WHERE id IN (${placeholders})`,
+    args: auditIds,
+  });
+
+  return result.rows.map((row) => ({
+    id: row.id as string,
+    domain: row.domain as string,
+    status: (row.status as string) || "completed",
+    score: row.score as number | null,
+    createdAt: row.created_at as string,
+    batchId: row.batch_id as string | null,
+  }));
+}
+
 /**
  * Delete multiple audits by ID
  */
@@ -322,6 +410,19 @@ export async function deleteAudits(auditIds: string[]): Promise<number> {
 
   const placeholders = auditIds.map(() => "?").join(",");
 
+  // Screenshot and snapshot keys, read before the results are gone
+  const artifacts = await db.execute({
+    sql: `SELECT json_extract(result, '$.screenshots') AS screenshots, json_extract(result, '$.snapshot.key') AS snapshot
+          FROM audits WHERE id IN (${placeholders})`,
+    args: auditIds,
+  });
+  const artifactKeys = artifacts.rows.flatMap((row) => [
+    ...(row.screenshots
+      ? (JSON.parse(row.screenshots as string) as Array<{ key: string }>).map((s) => s.key)
+      : []),
+    ...(row.snapshot ? [row.snapshot as string] : []),
+  ]);
+
   // Delete related records first
   await db.execute({
     sql: `DELETE FROM report_views WHERE audit_id IN (${placeholders})`,
@@ -344,6 +445,17 @@ export async function deleteAudits(auditIds: string[]): Promise<number> {
     args: auditIds,
   });
 
+  // Re-scored and re-analyzed copies of an audit share its screenshots and snapshot
+  const unused: string[] = [];
+  for (const key of artifactKeys) {
+    const stillUsed = await db.execute({
+      sql: `SELECT 1 FROM audits WHERE result LIKE ? LIMIT 1`,
+      args: [`%"${key}"%`],
+    });
+    if (stillUsed.rows.length === 0) unused.push(key);
+  }
+  await deleteArtifacts(unused);
+
   return result.rowsAffected;
 }
 
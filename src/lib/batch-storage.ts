@@ -1,10 +1,13 @@
 /**
  * Batch Storage for Bulk Import
  *
- * Manages import batches in the database.
+ * Manages import batches and their per-domain items in the database. Items
+ * are claimed by workers under a lease (see batch-worker.ts); a lease that
+ * expires without the item finishing makes it claimable again.
  */
 
 import { db, initializeDatabase } from "./db";
+import { emitWebhookEvent } from "./webhooks";
 
 export interface ImportBatch {
   id: string;
@@ -19,14 +22,45 @@ export interface ImportBatch {
   updatedAt: string;
   completedAt: string | null;
   createdBy: string | null;
+  // API key that created the batch through /api/v1
+  apiKeyId: string | null;
+  scoringProfile: string | null;
+}
+
+export interface BatchItem {
+  id: string;
+  batchId: string;
+  position: number;
+  domain: string;
+  status: "pending" | "running" | "completed" | "failed";
+  attempts: number;
+  lastError: string | null;
+  auditId: string | null;
+  leaseOwner: string | null;
+  leaseExpiresAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+export interface BatchItemCounts {
+  pending: number;
+  running: number;
+  completed: number;
+  failed: number;
+  // Running items whose lease hasn't expired, i.e. a worker is on them
+  leased: number;
 }
 
 export interface CreateBatchInput {
   name?: string;
   source: "paste" | "file" | "api";
   filename?: string;
-  totalDomains: number;
+  // Stored as batch items, in order
+  domains: string[];
   createdBy?: string;
+  apiKeyId?: string;
+  scoringProfile?: string;
 }
 
 export interface UpdateBatchInput {
@@ -34,7 +68,7 @@ export interface UpdateBatchInput {
   status?: ImportBatch["status"];
   completedCount?: number;
   failedCount?: number;
-  completedAt?: string;
+  completedAt?: string | null;
 }
 
 export interface ListBatchesOptions {
@@ -71,31 +105,40 @@ export async function createBatch(input: CreateBatchInput): Promise<ImportBatch>
 
   const id = generateBatchId();
   const now = new Date().toISOString();
-
-  await db.execute({
-    sql: `INSERT INTO import_batches
-          (id, name, source, filename, total_domains, completed_count, failed_count, status, created_at, updated_at, created_by)
-          VALUES (?, ?, ?, ?, ?, 0, 0, 'pending', ?, ?, ?)`,
-    args: [
-      id,
-      input.name || null,
-      input.source,
-      input.filename || null,
-      input.totalDomains,
-      now,
-      now,
-      input.createdBy || null,
+  const totalDomains = input.domains.length;
+
+  await db.batch(
+    [
+      {
+        sql: `INSERT INTO import_batches
+              (id, name, source, filename, total_domains, completed_count, failed_count, status, created_at, updated_at, created_by, api_key_id, scoring_profile)
+              VALUES (?, ?, ?, ?, ?, 0, 0, 'pending', ?, ?, ?, ?, ?)`,
+        args: [
+          id,
+          input.name || null,
+          input.source,
+          input.filename || null,
+          totalDomains,
+          now,
+          now,
+          input.createdBy || null,
+          input.apiKeyId || null,
+          input.scoringProfile || null,
+        ],
+      },
+      ...batchItemInserts(id, input.domains, now),
     ],
-  });
+    "write"
+  );
 
-  console.log(`[BatchStorage] Created batch ${id} with ${input.totalDomains} domains`);
+  console.log(`[BatchStorage] Created batch ${id} with ${totalDomains} domains`);
 
   return {
     id,
     name: input.name || null,
     source: input.source,
     filename: input.filename || null,
-    totalDomains: input.totalDomains,
+    totalDomains,
     completedCount: 0,
     failedCount: 0,
     status: "pending",
@@ -103,6 +146,8 @@ export async function createBatch(input: CreateBatchInput): Promise<ImportBatch>
     updatedAt: now,
     completedAt: null,
     createdBy: input.createdBy || null,
+    apiKeyId: input.apiKeyId || null,
+    scoringProfile: input.scoringProfile || null,
   };
 }
 
@@ -178,22 +223,18 @@ export async function updateBatch(
 }
 
 /**
- * Increment completed or failed count atomically
+ * Recalculate completed and failed counts from the batch's items
  */
-export async function incrementBatchCount(
-  id: string,
-  field: "completed" | "failed"
-): Promise<void> {
+export async function syncBatchCounts(id: string): Promise<void> {
   await ensureSchema();
 
-  const column = field === "completed" ? "completed_count" : "failed_count";
-  const now = new Date().toISOString();
-
   await db.execute({
     sql: `UPDATE import_batches
-          SET ${column} = ${column} + 1, updated_at = ?
+          SET completed_count = (SELECT COUNT(*) FROM batch_items WHERE batch_id = ? AND status = 'completed'),
+              failed_count = (SELECT COUNT(*) FROM batch_items WHERE batch_id = ? AND status = 'failed'),
+              updated_at = ?
           WHERE id = ?`,
-    args: [now, id],
+    args: [id, id, new Date().toISOString(), id],
   });
 }
 
@@ -211,10 +252,22 @@ export async function checkAndCompleteBatch(id: string): Promise<ImportBatch | n
     const now = new Date().toISOString();
     const newStatus = batch.failedCount === batch.totalDomains ? "failed" : "completed";
 
-    return updateBatch(id, {
+    const completed = await updateBatch(id, {
       status: newStatus,
       completedAt: now,
     });
+
+    await emitWebhookEvent("batch.completed", {
+      batchId: id,
+      name: batch.name,
+      status: newStatus,
+      totalDomains: batch.totalDomains,
+      completedCount: batch.completedCount,
+      failedCount: batch.failedCount,
+      completedAt: now,
+    });
+
+    return completed;
   }
 
   return batch;
@@ -288,6 +341,214 @@ export async function getAuditsForBatch(
   }));
 }
 
+/**
+ * Add items to a batch that has none (batches created before items were stored)
+ */
+export async function addBatchItems(batchId: string, domains: string[]): Promise<void> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  await db.batch(batchItemInserts(batchId, domains, now), "write");
+}
+
+/**
+ * Get all items for a batch, in order
+ */
+export async function listBatchItems(batchId: string): Promise<BatchItem[]> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM batch_items WHERE batch_id = ? ORDER BY position ASC`,
+    args: [batchId],
+  });
+
+  return result.rows.map(mapRowToBatchItem);
+}
+
+/**
+ * Count a batch's items by status
+ */
+export async function getBatchItemCounts(batchId: string): Promise<BatchItemCounts> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT
+            SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending,
+            SUM(CASE WHEN status = 'running' THEN 1 ELSE 0 END) as running,
+            SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed,
+            SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
+            SUM(CASE WHEN status = 'running' AND lease_expires_at > ? THEN 1 ELSE 0 END) as leased
+          FROM batch_items
+          WHERE batch_id = ?`,
+    args: [new Date().toISOString(), batchId],
+  });
+
+  const row = result.rows[0];
+  return {
+    pending: Number(row?.pending ?? 0),
+    running: Number(row?.running ?? 0),
+    completed: Number(row?.completed ?? 0),
+    failed: Number(row?.failed ?? 0),
+    leased: Number(row?.leased ?? 0),
+  };
+}
+
+/**
+ * Claim the next item for a worker: the first pending item, or a running
+ * item whose lease expired. Items that already used up their attempts are
+ * failed instead of reclaimed. Returns null when nothing is claimable.
+ */
+export async function claimBatchItem(
+  batchId: string,
+  owner: string,
+  leaseMs: number,
+  maxAttempts: number
+): Promise<BatchItem | null> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+
+  await db.execute({
+    sql: `UPDATE batch_items
+          SET status = 'failed',
+              last_error = COALESCE(last_error, 'Worker stopped responding'),
+              lease_owner = NULL, lease_expires_at = NULL, updated_at = ?
+          WHERE batch_id = ? AND status = 'running' AND lease_expires_at <= ? AND attempts >= ?`,
+    args: [now, batchId, now, maxAttempts],
+  });
+
+  // Single statement, so two workers can't claim the same item
+  const result = await db.execute({
+    sql: `UPDATE batch_items
+          SET status = 'running', attempts = attempts + 1,
+              lease_owner = ?, lease_expires_at = ?, updated_at = ?
+          WHERE id = (
+            SELECT id FROM batch_items
+            WHERE batch_id = ?
+              AND (status = 'pending' OR (status = 'running' AND lease_expires_at <= ?))
+            ORDER BY position ASC
+            LIMIT 1
+          )
+          RETURNING *`,
+    args: [owner, new Date(Date.now() + leaseMs).toISOString(), now, batchId, now],
+  });
+
+  return result.rows.length > 0 ? mapRowToBatchItem(result.rows[0]) : null;
+}
+
+/**
+ * Extend a worker's lease on an item. Returns false if the worker no longer
+ * holds it (the lease expired and another worker claimed the item).
+ */
+export async function renewBatchItemLease(
+  id: string,
+  owner: string,
+  leaseMs: number
+): Promise<boolean> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `UPDATE batch_items SET lease_expires_at = ?, updated_at = ?
+          WHERE id = ? AND lease_owner = ? AND status = 'running'`,
+    args: [new Date(Date.now() + leaseMs).toISOString(), new Date().toISOString(), id, owner],
+  });
+
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Mark an item completed. Returns false if the worker no longer held it.
+ */
+export async function completeBatchItem(
+  id: string,
+  owner: string,
+  auditId: string
+): Promise<boolean> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const result = await db.execute({
+    sql: `UPDATE batch_items
+          SET status = 'completed', audit_id = ?, last_error = NULL,
+              lease_owner = NULL, lease_expires_at = NULL, updated_at = ?, completed_at = ?
+          WHERE id = ? AND lease_owner = ? AND status = 'running'`,
+    args: [auditId, now, now, id, owner],
+  });
+
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Record a failed attempt. With retry the item goes back to pending;
+ * otherwise it is failed for good, optionally pointing at the audit record
+ * written for the failure.
+ */
+export async function failBatchItem(
+  id: string,
+  owner: string,
+  failure: { error: string; retry: boolean; auditId?: string }
+): Promise<boolean> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const result = await db.execute({
+    sql: `UPDATE batch_items
+          SET status = ?, last_error = ?, audit_id = ?,
+              lease_owner = NULL, lease_expires_at = NULL, updated_at = ?, completed_at = ?
+          WHERE id = ? AND lease_owner = ? AND status = 'running'`,
+    args: [
+      failure.retry ? "pending" : "failed",
+      failure.error,
+      failure.auditId ?? null,
+      now,
+      failure.retry ? null : now,
+      id,
+      owner,
+    ],
+  });
+
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Put a batch's failed items back in the queue with fresh attempts. The
+ * audit records written for the failures are deleted.
+ */
+export async function retryFailedBatchItems(batchId: string): Promise<number> {
+  await ensureSchema();
+
+  const failed = await db.execute({
+    sql: `SELECT audit_id FROM batch_items WHERE batch_id = ? AND status = 'failed'`,
+    args: [batchId],
+  });
+  if (failed.rows.length === 0) return 0;
+
+  const auditIds = failed.rows
+    .map((row) => row.audit_id as string | null)
+    .filter((auditId): auditId is string => !!auditId);
+
+  await db.batch(
+    [
+      ...auditIds.map((auditId) => ({
+        sql: `DELETE FROM audits WHERE id = ? AND status = 'failed'`,
+        args: [auditId],
+      })),
+      {
+        sql: `UPDATE batch_items
+              SET status = 'pending', attempts = 0, last_error = NULL, audit_id = NULL,
+                  completed_at = NULL, updated_at = ?
+              WHERE batch_id = ? AND status = 'failed'`,
+        args: [new Date().toISOString(), batchId],
+      },
+    ],
+    "write"
+  );
+
+  console.log(`[BatchStorage] Re-queued ${failed.rows.length} failed items for batch ${batchId}`);
+
+  return failed.rows.length;
+}
+
 /**
  * Delete a batch (and optionally its audits)
  */
@@ -310,6 +571,11 @@ export async function deleteBatch(
     });
   }
 
+  await db.execute({
+    sql: `DELETE FROM batch_items WHERE batch_id = ?`,
+    args: [id],
+  });
+
   const result = await db.execute({
     sql: `DELETE FROM import_batches WHERE id = ?`,
     args: [id],
@@ -333,5 +599,34 @@ function mapRowToBatch(row: Record<string, unknown>): ImportBatch {
     updatedAt: row.updated_at as string,
     completedAt: row.completed_at as string | null,
     createdBy: row.created_by as string | null,
+    apiKeyId: (row.api_key_id as string | null) ?? null,
+    scoringProfile: (row.scoring_profile as string | null) ?? null,
+  };
+}
+
+function batchItemInserts(batchId: string, domains: string[], now: string) {
+  return domains.map((domain, position) => ({
+    sql: `INSERT INTO batch_items (id, batch_id, position, domain, status, attempts, created_at, updated_at)
+          VALUES (?, ?, ?, ?, 'pending', 0, ?, ?)`,
+    args: [`${batchId}_${position}`, batchId, position, domain, now, now],
+  }));
+}
+
+// Helper function to map database row to BatchItem
+function mapRowToBatchItem(row: Record<string, unknown>): BatchItem {
+  return {
+    id: row.id as string,
+    batchId: row.batch_id as string,
+    position: row.position as number,
+    domain: row.domain as string,
+    status: row.status as BatchItem["status"],
+    attempts: row.attempts as number,
+    lastError: row.last_error as string | null,
+    auditId: row.audit_id as string | null,
+    leaseOwner: row.lease_owner as string | null,
+    leaseExpiresAt: row.lease_expires_at as string | null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+    completedAt: row.completed_at as string | null,
   };
 }
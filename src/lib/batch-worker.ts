@@ -0,0 +1,248 @@
+/**
+ * Batch Worker
+ *
+ * Processes a batch's items from the batch_items table. Each lane claims one
+ * item at a time under a lease and renews it while the audit runs, so an item
+ * left behind by a crashed or redeployed server becomes claimable again once
+ * its lease expires. Progress lives entirely in the database: a batch can be
+ * resumed by starting a worker for it again.
+ */
+
+import {
+  getBatch,
+  claimBatchItem,
+  renewBatchItemLease,
+  completeBatchItem,
+  failBatchItem,
+  getBatchItemCounts,
+  syncBatchCounts,
+  checkAndCompleteBatch,
+  type BatchItem,
+} from "./batch-storage";
+import {
+  createJob,
+  heartbeatJob,
+  updateJobProgress,
+  completeJob,
+  failJob,
+} from "./audit-queue";
+import { assertValidAuditResult } from "./audit-storage";
+import { db } from "./db";
+import { auditCompletedData, emitWebhookEvent } from "./webhooks";
+import { runAudit } from "@/app/api/audit/runner";
+
+// Maximum concurrent audits per batch
+const MAX_CONCURRENT = 3;
+
+// Attempts per item before it is marked failed
+export const MAX_ATTEMPTS = 3;
+
+// An audit that stops renewing its lease for this long is considered dead
+const LEASE_MS = 5 * 60 * 1000;
+const HEARTBEAT_MS = 60 * 1000;
+
+// How often an idle lane checks whether items held by other workers were released
+const IDLE_POLL_MS = 15 * 1000;
+
+// Identifies this process as the lease owner
+const WORKER_ID = `worker_${process.pid}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Batches with a worker running in this process
+const activeBatches = new Set<string>();
+
+export function isBatchActive(batchId: string): boolean {
+  return activeBatches.has(batchId);
+}
+
+/**
+ * Start a worker for a batch in the background. Returns false if this
+ * process is already working on it.
+ */
+export function startBatchWorker(batchId: string): boolean {
+  if (activeBatches.has(batchId)) return false;
+
+  activeBatches.add(batchId);
+  runBatch(batchId)
+    .catch((error) => {
+      console.error(`[Batch Worker] Batch ${batchId} stopped with an error:`, error);
+    })
+    .finally(() => {
+      activeBatches.delete(batchId);
+    });
+
+  return true;
+}
+
+async function runBatch(batchId: string) {
+  const batch = await getBatch(batchId);
+  if (!batch) return;
+
+  console.log(`[Batch Worker] ${WORKER_ID} processing batch ${batchId}`);
+
+  const lanes = Array.from({ length: MAX_CONCURRENT }, () =>
+    runLane(batchId, batch.scoringProfile)
+  );
+  await Promise.all(lanes);
+
+  await syncBatchCounts(batchId);
+  await checkAndCompleteBatch(batchId);
+
+  console.log(`[Batch Worker] Batch ${batchId} processing finished`);
+}
+
+async function runLane(batchId: string, scoringProfile: string | null) {
+  while (true) {
+    // Check if batch was cancelled
+    const batch = await getBatch(batchId);
+    if (batch?.status !== "processing") {
+      console.log(`[Batch Worker] Batch ${batchId} is ${batch?.status ?? "gone"}, stopping`);
+      return;
+    }
+
+    const item = await claimBatchItem(batchId, WORKER_ID, LEASE_MS, MAX_ATTEMPTS);
+    if (item) {
+      await processItem(item, scoringProfile);
+      await syncBatchCounts(batchId);
+      continue;
+    }
+
+    // Nothing claimable; wait if other workers still hold items whose
+    // leases may expire, otherwise the batch is done
+    const counts = await getBatchItemCounts(batchId);
+    if (counts.pending === 0 && counts.running === 0) return;
+
+    await new Promise((r) => setTimeout(r, IDLE_POLL_MS));
+  }
+}
+
+/**
+ * Run the audit for one claimed item
+ */
+async function processItem(item: BatchItem, scoringProfile: string | null): Promise<void> {
+  const { domain, batchId, position } = item;
+  const url = `https://${domain}`;
+
+  console.log(
+    `[Batch Worker] Starting audit for ${domain} (position ${position}, attempt ${item.attempts}/${MAX_ATTEMPTS})`
+  );
+
+  let jobId: string | null = null;
+
+  const heartbeat = setInterval(() => {
+    renewBatchItemLease(item.id, WORKER_ID, LEASE_MS).catch((error) => {
+      console.error(`[Batch Worker] Failed to renew lease for ${domain}:`, error);
+    });
+    if (jobId) {
+      heartbeatJob(jobId, WORKER_ID, LEASE_MS).catch(() => {});
+    }
+  }, HEARTBEAT_MS);
+
+  try {
+    // Retries are handled per item, so the job itself gets a single attempt
+    const job = await createJob(domain, {
+      scoringProfile,
+      maxAttempts: 1,
+      claim: { owner: WORKER_ID, leaseMs: LEASE_MS },
+    });
+    jobId = job.id;
+
+    await updateJobProgress(job.id, WORKER_ID, 10, "Fetching website...");
+
+    const result = await runAudit(
+      url,
+      domain,
+      async (progress, step) => {
+        await updateJobProgress(job.id, WORKER_ID, progress, step);
+      },
+      { scoringProfile }
+    );
+
+    const auditId = await saveAuditWithBatch(domain, result, batchId, position);
+
+    console.log(`[Batch Worker] Audit saved with ID: ${auditId}`);
+
+    await completeJob(job.id, WORKER_ID, { ...result, auditId });
+
+    const stillOwned = await completeBatchItem(item.id, WORKER_ID, auditId);
+    if (!stillOwned) {
+      console.warn(`[Batch Worker] Lease on ${domain} was lost before it completed`);
+    }
+
+    await emitWebhookEvent(
+      "audit.completed",
+      auditCompletedData({ jobId: job.id, auditId, domain, result, batchId })
+    );
+  } catch (error) {
+    const message = String(error);
+    const retry = item.attempts < MAX_ATTEMPTS;
+
+    console.error(
+      `[Batch Worker] Audit failed for ${domain} (attempt ${item.attempts}/${MAX_ATTEMPTS}):`,
+      error
+    );
+
+    if (jobId) {
+      await failJob(jobId, WORKER_ID, message).catch(() => {});
+    }
+
+    // Out of attempts: still create an audit record to track the failure
+    const auditId = retry
+      ? undefined
+      : await saveAuditWithBatch(domain, { error: message }, batchId, position, "failed");
+
+    await failBatchItem(item.id, WORKER_ID, { error: message, retry, auditId });
+
+    if (!retry) {
+      await emitWebhookEvent("audit.failed", {
+        jobId,
+        domain,
+        error: message,
+        attempts: item.attempts,
+        batchId,
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Save audit with batch association
+ */
+async function saveAuditWithBatch(
+  domain: string,
+  result: unknown,
+  batchId: string,
+  position: number,
+  status: string = "completed"
+): Promise<string> {
+  // Failed audits store { error } instead of a result
+  if (status === "completed") assertValidAuditResult(result);
+
+  const id = generateAuditId(domain);
+  const now = new Date().toISOString();
+  const resultJson = JSON.stringify(result);
+
+  // Extract score if available
+  let score: number | null = null;
+  if (typeof result === "object" && result !== null && "overallScore" in result) {
+    score = (result as { overallScore?: number }).overallScore || null;
+  }
+
+  await db.execute({
+    sql: `INSERT INTO audits (id, domain, status, created_at, completed_at, result, score, batch_id, batch_position)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [id, domain, status, now, now, resultJson, score, batchId, position],
+  });
+
+  return id;
+}
+
+/**
+ * Generate audit ID (same pattern as audit-storage.ts)
+ */
+function generateAuditId(domain: string): string {
+  const slug = domain.replace(/[^a-z0-9]/gi, "-").toLowerCase();
+  const timestamp = Date.now();
+  return `${slug}-${timestamp}`;
+}
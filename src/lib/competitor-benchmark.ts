@@ -0,0 +1,168 @@
+/**
+ * Competitor Benchmarking
+ *
+ * Audits an audit's competitor domains through the audit job queue, with the
+ * same pipeline and scoring profile as the audit itself, and writes a summary
+ * of each finished one into the audit's AuditResult.competitors, ranked
+ * against the audited site. Progress is kept in audit_competitors, so a
+ * restart only loses the in-process watcher: refreshCompetitors() picks up
+ * from the stored job IDs, and runs whenever the competitors are read.
+ */
+
+import {
+  addCompetitors,
+  listCompetitors,
+  removeCompetitor,
+  updateCompetitor,
+  type AddCompetitorInput,
+  type AuditCompetitor,
+} from "./competitor-storage";
+import { createJob, getJob, FINISHED_JOB_STATUSES } from "./audit-queue";
+import { startAuditJob } from "./audit-job-worker";
+import { loadAudit, updateAuditResult } from "./audit-storage";
+import { rankByScore, summarizeAudit } from "./competitor-summary";
+import type { Competitor } from "@/types/audit";
+
+// Per audit, so reports stay readable and one request can't queue a batch's worth of audits
+export const MAX_COMPETITORS = 10;
+
+// How often the watcher checks on competitor audit jobs, and for how long
+const WATCH_POLL_MS = 5 * 1000;
+const WATCH_TIMEOUT_MS = 60 * 60 * 1000;
+
+// Audits this process is watching competitor jobs for
+const watching = new Set<string>();
+
+/**
+ * Attach competitors to an audit and start auditing them. Domains already
+ * attached, and the audited domain itself, are skipped. Returns the rows
+ * added, or null if the audit doesn't exist.
+ */
+export async function benchmarkCompetitors(
+  auditId: string,
+  inputs: AddCompetitorInput[]
+): Promise<AuditCompetitor[] | null> {
+  const audit = await loadAudit(auditId);
+  if (!audit) return null;
+
+  const existing = await listCompetitors(auditId);
+  const room = MAX_COMPETITORS - existing.length;
+  const candidates = inputs.filter((c) => c.domain !== audit.domain);
+  if (candidates.length > room) {
+    throw new Error(`An audit can have at most ${MAX_COMPETITORS} competitors`);
+  }
+
+  const added = await addCompetitors(auditId, candidates);
+  const scoringProfile = audit.result?.meta?.scoringProfile;
+
+  for (const competitor of added) {
+    await startCompetitorJob(competitor, scoringProfile);
+  }
+
+  if (added.length > 0) watchCompetitors(auditId);
+  return added;
+}
+
+/**
+ * Check on pending competitor audits and rewrite the audit's competitor
+ * summaries from the finished ones. Returns the competitor rows.
+ */
+export async function refreshCompetitors(auditId: string): Promise<AuditCompetitor[]> {
+  const competitors = await listCompetitors(auditId);
+  let changed = false;
+
+  for (const competitor of competitors) {
+    if (competitor.status !== "pending") continue;
+
+    if (!competitor.jobId) {
+      // Added, but the process stopped before its job was created
+      const audit = await loadAudit(auditId);
+      await startCompetitorJob(competitor, audit?.result?.meta?.scoringProfile);
+      continue;
+    }
+
+    const job = await getJob(competitor.jobId);
+    if (job && !FINISHED_JOB_STATUSES.includes(job.status)) continue;
+
+    const competitorAuditId = (job?.result as { auditId?: string } | null)?.auditId ?? null;
+    const update =
+      job?.status === "completed" && competitorAuditId
+        ? { status: "completed" as const, competitorAuditId, error: null }
+        : { status: "failed" as const, error: job?.error || (job ? `Audit ${job.status}` : "Audit job expired") };
+
+    await updateCompetitor(competitor.id, update);
+    Object.assign(competitor, update);
+    changed = true;
+  }
+
+  if (changed) {
+    await writeCompetitorSummaries(auditId, competitors);
+  }
+  return competitors;
+}
+
+/**
+ * Detach a competitor and drop it from the audit's benchmark
+ */
+export async function removeCompetitorFromAudit(auditId: string, domain: string): Promise<boolean> {
+  const removed = await removeCompetitor(auditId, domain);
+  if (removed) {
+    await writeCompetitorSummaries(auditId, await listCompetitors(auditId));
+  }
+  return removed;
+}
+
+async function startCompetitorJob(competitor: AuditCompetitor, scoringProfile: string | undefined) {
+  const job = await createJob(competitor.domain, { scoringProfile });
+  await updateCompetitor(competitor.id, { jobId: job.id });
+  competitor.jobId = job.id;
+  startAuditJob(job.id);
+}
+
+/**
+ * Poll an audit's competitor jobs in the background until none are pending
+ */
+function watchCompetitors(auditId: string) {
+  if (watching.has(auditId)) return;
+  watching.add(auditId);
+
+  (async () => {
+    const deadline = Date.now() + WATCH_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await new Promise((r) => setTimeout(r, WATCH_POLL_MS));
+      const competitors = await refreshCompetitors(auditId);
+      if (!competitors.some((c) => c.status === "pending")) return;
+    }
+  })()
+    .catch((error) => {
+      console.error(`[Competitors] Watching ${auditId} failed:`, error);
+    })
+    .finally(() => {
+      watching.delete(auditId);
+    });
+}
+
+async function writeCompetitorSummaries(auditId: string, competitors: AuditCompetitor[]) {
+  const audit = await loadAudit(auditId);
+  if (!audit?.result) return;
+
+  const summaries: Competitor[] = [];
+  for (const competitor of competitors) {
+    if (competitor.status !== "completed" || !competitor.competitorAuditId) continue;
+    const competitorAudit = await loadAudit(competitor.competitorAuditId);
+    if (!competitorAudit?.result) continue;
+    summaries.push(
+      summarizeAudit(competitorAudit.result, {
+        auditId: competitorAudit.id,
+        auditedAt: competitorAudit.createdAt,
+      })
+    );
+  }
+
+  const result = audit.result;
+  await updateAuditResult(auditId, {
+    ...result,
+    competitors: rankByScore(result.overallScore, summaries),
+  });
+  console.log(`[Competitors] Benchmarked ${auditId} against ${summaries.length} competitor(s)`);
+}
@@ -0,0 +1,190 @@
+/**
+ * Competitor Storage
+ *
+ * Competitor domains attached to an audit for benchmarking. Each row tracks
+ * the audit job that audits the competitor and, once it finishes, the saved
+ * audit it produced (see competitor-benchmark.ts).
+ */
+
+import { db, initializeDatabase } from "./db";
+
+export interface AuditCompetitor {
+  id: string;
+  auditId: string;
+  domain: string;
+  source: "manual" | "batch";
+  batchId: string | null;
+  jobId: string | null;
+  competitorAuditId: string | null;
+  status: "pending" | "completed" | "failed";
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AddCompetitorInput {
+  domain: string;
+  source: AuditCompetitor["source"];
+  batchId?: string | null;
+}
+
+export interface UpdateCompetitorInput {
+  jobId?: string | null;
+  competitorAuditId?: string | null;
+  status?: AuditCompetitor["status"];
+  error?: string | null;
+}
+
+// Track if schema has been ensured
+let schemaEnsured = false;
+
+async function ensureSchema() {
+  if (schemaEnsured) return;
+  await initializeDatabase();
+  schemaEnsured = true;
+}
+
+function generateCompetitorId(): string {
+  const timestamp = Date.now();
+  const random = Math.random().toString(36).slice(2, 8);
+  return `comp_${timestamp}_${random}`;
+}
+
+/**
+ * Attach competitor domains to an audit. Domains already attached are
+ * skipped. Returns the rows that were added.
+ */
+export async function addCompetitors(
+  auditId: string,
+  competitors: AddCompetitorInput[]
+): Promise<AuditCompetitor[]> {
+  await ensureSchema();
+
+  const existing = new Set((await listCompetitors(auditId)).map((c) => c.domain));
+  const now = new Date().toISOString();
+  const added: AuditCompetitor[] = [];
+
+  for (const competitor of competitors) {
+    if (existing.has(competitor.domain)) continue;
+    existing.add(competitor.domain);
+
+    added.push({
+      id: generateCompetitorId(),
+      auditId,
+      domain: competitor.domain,
+      source: competitor.source,
+      batchId: competitor.batchId ?? null,
+      jobId: null,
+      competitorAuditId: null,
+      status: "pending",
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  if (added.length > 0) {
+    await db.batch(
+      added.map((c) => ({
+        sql: `INSERT INTO audit_competitors
+              (id, audit_id, domain, source, batch_id, status, created_at, updated_at)
+              VALUES (?, ?, ?, ?, ?, 'pending', ?, ?)`,
+        args: [c.id, c.auditId, c.domain, c.source, c.batchId, now, now],
+      })),
+      "write"
+    );
+    console.log(`[Competitors] Added ${added.length} competitor(s) to ${auditId}`);
+  }
+
+  return added;
+}
+
+/**
+ * Competitors attached to an audit, in the order they were added
+ */
+export async function listCompetitors(auditId: string): Promise<AuditCompetitor[]> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM audit_competitors WHERE audit_id = ? ORDER BY created_at ASC, id ASC`,
+    args: [auditId],
+  });
+
+  return result.rows.map(mapRowToCompetitor);
+}
+
+/**
+ * IDs of audits that still have competitors waiting on an audit job
+ */
+export async function listAuditsWithPendingCompetitors(): Promise<string[]> {
+  await ensureSchema();
+
+  const result = await db.execute(
+    `SELECT DISTINCT audit_id FROM audit_competitors WHERE status = 'pending'`
+  );
+
+  return result.rows.map((row) => row.audit_id as string);
+}
+
+export async function updateCompetitor(
+  id: string,
+  updates: UpdateCompetitorInput
+): Promise<void> {
+  await ensureSchema();
+
+  const setClauses: string[] = ["updated_at = ?"];
+  const args: (string | null)[] = [new Date().toISOString()];
+
+  if (updates.jobId !== undefined) {
+    setClauses.push("job_id = ?");
+    args.push(updates.jobId);
+  }
+  if (updates.competitorAuditId !== undefined) {
+    setClauses.push("competitor_audit_id = ?");
+    args.push(updates.competitorAuditId);
+  }
+  if (updates.status !== undefined) {
+    setClauses.push("status = ?");
+    args.push(updates.status);
+  }
+  if (updates.error !== undefined) {
+    setClauses.push("error = ?");
+    args.push(updates.error);
+  }
+
+  args.push(id);
+  await db.execute({
+    sql: `UPDATE audit_competitors SET ${setClauses.join(", ")} WHERE id = ?`,
+    args,
+  });
+}
+
+/**
+ * Detach a competitor from an audit. Its own audit is kept.
+ */
+export async function removeCompetitor(auditId: string, domain: string): Promise<boolean> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `DELETE FROM audit_competitors WHERE audit_id = ? AND domain = ?`,
+    args: [auditId, domain],
+  });
+
+  return result.rowsAffected > 0;
+}
+
+function mapRowToCompetitor(row: Record<string, unknown>): AuditCompetitor {
+  return {
+    id: row.id as string,
+    auditId: row.audit_id as string,
+    domain: row.domain as string,
+    source: row.source as AuditCompetitor["source"],
+    batchId: (row.batch_id as string) || null,
+    jobId: (row.job_id as string) || null,
+    competitorAuditId: (row.competitor_audit_id as string) || null,
+    status: row.status as AuditCompetitor["status"],
+    error: (row.error as string) || null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
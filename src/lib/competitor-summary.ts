@@ -0,0 +1,74 @@
+// Competitor benchmark summaries
+// The numbers the side-by-side comparison shows for a site, taken from its
+// AuditResult. Pure, so the report and admin components can build the
+// audited site's own row the same way the server builds competitor rows.
+
+import type { AuditResult, Competitor } from "@/types/audit";
+
+export interface BenchmarkRow extends Competitor {
+  // The audited site itself, rather than one of its competitors
+  isSubject: boolean;
+}
+
+/**
+ * Summarize an audit for the benchmark. Rank is left at 0; see rankByScore.
+ */
+export function summarizeAudit(
+  result: AuditResult,
+  audit: { auditId?: string; auditedAt?: string } = {}
+): Competitor {
+  const perf = result.normalized?.perf.mobile ?? result.normalized?.perf.desktop ?? null;
+  const vitals = result.coreWebVitals;
+
+  return {
+    name: result.domain,
+    domain: result.domain,
+    rating: result.trustSignals?.averageRating ?? 0,
+    rank: 0,
+    auditId: audit.auditId ?? result.auditId,
+    auditedAt: audit.auditedAt ?? result.timestamp,
+    overallScore: result.overallScore,
+    categories: result.categories.map((c) => ({ name: c.name, score: c.score })),
+    bookingEngine: result.bookingFlow?.bookingEngine?.name ?? null,
+    reviewCount: result.trustSignals?.reviewCount ?? null,
+    coreWebVitals: perf
+      ? { lcpMs: perf.lcpMs, cls: perf.cls, inpMs: perf.inpMs, source: perf.source }
+      : {
+          // Older audits without normalized inputs; CrUX reports CLS × 100
+          lcpMs: vitals?.LCP.value ?? null,
+          cls: vitals ? (vitals.CLS.source === "field" ? vitals.CLS.value / 100 : vitals.CLS.value) : null,
+          inpMs: null,
+          source: vitals?.LCP.source ?? null,
+        },
+  };
+}
+
+/**
+ * Rank competitors by overall score against the audited site's score,
+ * 1 being the best of them all. Ties share a rank.
+ */
+export function rankByScore(subjectScore: number, competitors: Competitor[]): Competitor[] {
+  const scores = [subjectScore, ...competitors.map((c) => c.overallScore ?? 0)];
+  return competitors
+    .map((c) => ({ ...c, rank: 1 + scores.filter((s) => s > (c.overallScore ?? 0)).length }))
+    .sort((a, b) => a.rank - b.rank);
+}
+
+/**
+ * The audited site and its benchmarked competitors, best score first.
+ * Competitors without audit data (e.g. sample fixtures) are left out.
+ */
+export function benchmarkRows(result: AuditResult): BenchmarkRow[] {
+  const competitors = (result.competitors ?? []).filter((c) => c.overallScore !== undefined);
+  if (competitors.length === 0) return [];
+
+  const subject: BenchmarkRow = {
+    ...summarizeAudit(result),
+    rank: 1 + competitors.filter((c) => (c.overallScore ?? 0) > result.overallScore).length,
+    isSubject: true,
+  };
+
+  return [subject, ...competitors.map((c) => ({ ...c, isSubject: false }))].sort(
+    (a, b) => a.rank - b.rank || Number(b.isSubject) - Number(a.isSubject)
+  );
+}
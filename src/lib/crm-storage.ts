@@ -0,0 +1,527 @@
+/**
+ * CRM Storage
+ *
+ * CRM connections (which adapter, its credentials, how our lead statuses
+ * map to the CRM's) and the sync state of every lead in every connection.
+ * A sync row is queued whenever a lead needs pushing, claimed under a lease
+ * by the worker in crm-sync.ts, and ends up synced (with the lead's ID in
+ * the CRM) or failed with the last error.
+ */
+
+import { db, initializeDatabase } from "./db";
+import {
+  getCrmAdapter,
+  maskCrmConfig,
+  parseCrmConfig,
+  parseStatusMap,
+  type CrmConfig,
+  type CrmStatusMap,
+  type CrmType,
+} from "./crm";
+
+export type LeadSyncState = "pending" | "syncing" | "synced" | "failed";
+
+export interface CrmConnection {
+  id: string;
+  name: string;
+  type: CrmType;
+  config: CrmConfig;
+  statusMap: CrmStatusMap;
+  enabled: boolean;
+  // Copy status changes made in the CRM back to our leads
+  pullStatus: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lastPulledAt: string | null;
+}
+
+export interface CrmConnectionFields {
+  name?: string;
+  config?: CrmConfig;
+  statusMap?: CrmStatusMap;
+  enabled?: boolean;
+  pullStatus?: boolean;
+}
+
+export interface LeadCrmSync {
+  leadId: string;
+  connectionId: string;
+  externalId: string | null;
+  state: LeadSyncState;
+  attempts: number;
+  nextAttemptAt: string | null;
+  remoteStatus: string | null;
+  lastError: string | null;
+  lastSyncedAt: string | null;
+  lastPulledAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SyncAttemptResult {
+  ok: boolean;
+  externalId?: string;
+  // CRM status value that was pushed, if the lead's status is mapped
+  remoteStatus?: string | null;
+  error?: string;
+  // Don't retry, e.g. because the connection was disabled
+  final?: boolean;
+}
+
+const MAX_ATTEMPTS = 5;
+
+// Backoff between attempts: 1m, 2m, 4m, ... capped at 1 hour
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+export function getCrmRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
+
+// Track if schema has been ensured
+let schemaEnsured = false;
+
+// Schema lives in migrations/019_crm_sync.sql
+async function ensureSchema() {
+  if (schemaEnsured) return;
+  await initializeDatabase();
+  schemaEnsured = true;
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Validate connection fields from a request body. `existing` is the
+ * connection being edited, or null when creating one. Returns the fields,
+ * or an error message.
+ */
+export function parseCrmConnectionFields(
+  body: Record<string, unknown>,
+  existing: CrmConnection | null
+): CrmConnectionFields | string {
+  const fields: CrmConnectionFields = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string") return "name must be a string";
+    fields.name = body.name.trim().slice(0, 100);
+  }
+
+  // Synced leads' IDs belong to one CRM, so the type is fixed once created
+  if (existing && body.type !== undefined && body.type !== existing.type) {
+    return "A connection's type can't be changed";
+  }
+
+  if (!existing || body.config !== undefined) {
+    const config = parseCrmConfig(existing?.type ?? body.type, body.config, existing?.config);
+    if (typeof config === "string") return config;
+    fields.config = config;
+  }
+
+  if (body.statusMap !== undefined) {
+    const statusMap = parseStatusMap(body.statusMap);
+    if (typeof statusMap === "string") return statusMap;
+    fields.statusMap = statusMap;
+  }
+
+  if (body.enabled !== undefined) {
+    fields.enabled = Boolean(body.enabled);
+  }
+
+  if (body.pullStatus !== undefined) {
+    fields.pullStatus = Boolean(body.pullStatus);
+  }
+
+  return fields;
+}
+
+/**
+ * A connection with its credentials masked, for API responses
+ */
+export function maskCrmConnection(connection: CrmConnection): CrmConnection {
+  return { ...connection, config: maskCrmConfig(connection.config) };
+}
+
+// -----------------------------------------------------------------------------
+// Connections
+// -----------------------------------------------------------------------------
+
+export async function createCrmConnection(
+  input: Required<Pick<CrmConnectionFields, "config">> &
+    CrmConnectionFields & { createdBy?: string | null }
+): Promise<CrmConnection> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const adapter = getCrmAdapter(input.config.type);
+  const connection: CrmConnection = {
+    id: generateId("crm"),
+    name: input.name || adapter.label,
+    type: input.config.type,
+    config: input.config,
+    statusMap: input.statusMap ?? { ...adapter.defaultStatusMap },
+    enabled: input.enabled ?? true,
+    pullStatus: input.pullStatus ?? true,
+    createdBy: input.createdBy ?? null,
+    createdAt: now,
+    updatedAt: now,
+    lastPulledAt: null,
+  };
+
+  await db.execute({
+    sql: `INSERT INTO crm_connections
+          (id, name, type, config, status_map, enabled, pull_status, created_by, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      connection.id,
+      connection.name,
+      connection.type,
+      JSON.stringify(connection.config),
+      JSON.stringify(connection.statusMap),
+      connection.enabled ? 1 : 0,
+      connection.pullStatus ? 1 : 0,
+      connection.createdBy,
+      now,
+      now,
+    ],
+  });
+
+  return connection;
+}
+
+export async function getCrmConnection(id: string): Promise<CrmConnection | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM crm_connections WHERE id = ?`,
+    args: [id],
+  });
+  return result.rows[0] ? mapRowToConnection(result.rows[0]) : null;
+}
+
+export async function listCrmConnections(options: { enabledOnly?: boolean } = {}): Promise<CrmConnection[]> {
+  await ensureSchema();
+
+  const result = await db.execute(
+    `SELECT * FROM crm_connections ${options.enabledOnly ? "WHERE enabled = 1" : ""} ORDER BY created_at ASC`
+  );
+  return result.rows.map(mapRowToConnection);
+}
+
+export async function updateCrmConnection(
+  id: string,
+  updates: CrmConnectionFields
+): Promise<CrmConnection | null> {
+  await ensureSchema();
+
+  const sets: string[] = [];
+  const args: (string | number)[] = [];
+
+  if (updates.name !== undefined) {
+    sets.push("name = ?");
+    args.push(updates.name);
+  }
+  if (updates.config !== undefined) {
+    sets.push("config = ?");
+    args.push(JSON.stringify(updates.config));
+  }
+  if (updates.statusMap !== undefined) {
+    sets.push("status_map = ?");
+    args.push(JSON.stringify(updates.statusMap));
+  }
+  if (updates.enabled !== undefined) {
+    sets.push("enabled = ?");
+    args.push(updates.enabled ? 1 : 0);
+  }
+  if (updates.pullStatus !== undefined) {
+    sets.push("pull_status = ?");
+    args.push(updates.pullStatus ? 1 : 0);
+  }
+
+  if (sets.length > 0) {
+    sets.push("updated_at = ?");
+    args.push(new Date().toISOString());
+    await db.execute({
+      sql: `UPDATE crm_connections SET ${sets.join(", ")} WHERE id = ?`,
+      args: [...args, id],
+    });
+  }
+
+  return getCrmConnection(id);
+}
+
+/**
+ * Delete a connection and its leads' sync state. Nothing is removed from
+ * the CRM itself.
+ */
+export async function deleteCrmConnection(id: string): Promise<boolean> {
+  await ensureSchema();
+
+  const results = await db.batch(
+    [
+      { sql: `DELETE FROM lead_crm_sync WHERE connection_id = ?`, args: [id] },
+      { sql: `DELETE FROM crm_connections WHERE id = ?`, args: [id] },
+    ],
+    "write"
+  );
+  return results[1].rowsAffected > 0;
+}
+
+export async function markCrmConnectionPulled(id: string): Promise<void> {
+  await ensureSchema();
+
+  await db.execute({
+    sql: `UPDATE crm_connections SET last_pulled_at = ? WHERE id = ?`,
+    args: [new Date().toISOString(), id],
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Lead sync state
+// -----------------------------------------------------------------------------
+
+/**
+ * Queue a lead for pushing to each connection, due immediately. A lead
+ * that's already synced keeps its CRM ID, so the push updates it there.
+ */
+export async function enqueueLeadSync(leadId: string, connectionIds: string[]): Promise<void> {
+  await ensureSchema();
+  if (connectionIds.length === 0) return;
+
+  const now = new Date().toISOString();
+  await db.batch(
+    connectionIds.map((connectionId) => ({
+      sql: `INSERT INTO lead_crm_sync
+            (lead_id, connection_id, state, attempts, next_attempt_at, created_at, updated_at)
+            VALUES (?, ?, 'pending', 0, ?, ?, ?)
+            ON CONFLICT (lead_id, connection_id) DO UPDATE SET
+              state = 'pending', attempts = 0, next_attempt_at = excluded.next_attempt_at,
+              last_error = NULL, updated_at = excluded.updated_at`,
+      args: [leadId, connectionId, now, now, now],
+    })),
+    "write"
+  );
+}
+
+/**
+ * Queue every lead not yet pushed to a connection, e.g. right after it's
+ * added. Returns how many were queued.
+ */
+export async function enqueueUnsyncedLeads(connectionId: string): Promise<number> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const result = await db.execute({
+    sql: `INSERT INTO lead_crm_sync
+          (lead_id, connection_id, state, attempts, next_attempt_at, created_at, updated_at)
+          SELECT id, ?, 'pending', 0, ?, ?, ? FROM leads
+          WHERE id NOT IN (SELECT lead_id FROM lead_crm_sync WHERE connection_id = ?)`,
+    args: [connectionId, now, now, now, connectionId],
+  });
+  return result.rowsAffected;
+}
+
+/**
+ * Claim the next due sync: a pending one whose retry time has come, or one
+ * whose previous worker's lease expired mid-push. A lead re-queued while
+ * it's being pushed waits for that push to finish.
+ */
+export async function claimDueLeadSync(owner: string, leaseMs: number): Promise<LeadCrmSync | null> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const result = await db.execute({
+    sql: `UPDATE lead_crm_sync
+          SET state = 'syncing', attempts = attempts + 1, lease_owner = ?, lease_expires_at = ?, updated_at = ?
+          WHERE rowid = (
+            SELECT rowid FROM lead_crm_sync
+            WHERE ((state = 'pending' AND next_attempt_at <= ?) OR state = 'syncing')
+              AND (lease_expires_at IS NULL OR lease_expires_at <= ?)
+            ORDER BY next_attempt_at ASC
+            LIMIT 1
+          )
+          RETURNING *`,
+    args: [owner, new Date(Date.now() + leaseMs).toISOString(), now, now, now],
+  });
+
+  return result.rows.length > 0 ? mapRowToSync(result.rows[0]) : null;
+}
+
+/**
+ * Record the outcome of a push. A failed push goes back to pending with
+ * backoff until MAX_ATTEMPTS, then the sync is failed. If the lead was
+ * re-queued during the push it stays pending for another one.
+ */
+export async function recordLeadSyncAttempt(
+  sync: LeadCrmSync,
+  owner: string,
+  attempt: SyncAttemptResult
+): Promise<LeadCrmSync | null> {
+  await ensureSchema();
+
+  const now = new Date();
+  const retry = !attempt.ok && !attempt.final && sync.attempts < MAX_ATTEMPTS;
+  const state: LeadSyncState = attempt.ok ? "synced" : retry ? "pending" : "failed";
+  const nextAttemptAt = retry
+    ? new Date(now.getTime() + getCrmRetryDelayMs(sync.attempts)).toISOString()
+    : null;
+
+  const result = await db.execute({
+    sql: `UPDATE lead_crm_sync
+          SET external_id = COALESCE(?, external_id),
+              remote_status = COALESCE(?, remote_status),
+              state = CASE WHEN state = 'syncing' THEN ? ELSE state END,
+              next_attempt_at = CASE WHEN state = 'syncing' THEN ? ELSE next_attempt_at END,
+              last_error = ?,
+              last_synced_at = COALESCE(?, last_synced_at),
+              lease_owner = NULL, lease_expires_at = NULL, updated_at = ?
+          WHERE lead_id = ? AND connection_id = ? AND lease_owner = ?
+          RETURNING *`,
+    args: [
+      attempt.externalId ?? null,
+      attempt.remoteStatus ?? null,
+      state,
+      nextAttemptAt,
+      attempt.ok ? null : attempt.error ?? "Sync failed",
+      attempt.ok ? now.toISOString() : null,
+      now.toISOString(),
+      sync.leadId,
+      sync.connectionId,
+      owner,
+    ],
+  });
+
+  return result.rows.length > 0 ? mapRowToSync(result.rows[0]) : null;
+}
+
+/**
+ * Synced leads of a connection to check for status changes in the CRM,
+ * least recently checked first
+ */
+export async function listLeadSyncsToPull(connectionId: string, limit: number): Promise<LeadCrmSync[]> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM lead_crm_sync
+          WHERE connection_id = ? AND state = 'synced' AND external_id IS NOT NULL
+          ORDER BY COALESCE(last_pulled_at, '') ASC
+          LIMIT ?`,
+    args: [connectionId, limit],
+  });
+  return result.rows.map(mapRowToSync);
+}
+
+/**
+ * Record a status check. remoteStatus is only stored when it was read.
+ */
+export async function recordLeadSyncPull(
+  sync: LeadCrmSync,
+  outcome: { remoteStatus?: string | null; error?: string | null }
+): Promise<void> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const read = outcome.remoteStatus !== undefined;
+  await db.execute({
+    sql: `UPDATE lead_crm_sync
+          SET remote_status = CASE WHEN ? THEN ? ELSE remote_status END,
+              last_error = ?, last_pulled_at = ?, updated_at = ?
+          WHERE lead_id = ? AND connection_id = ?`,
+    args: [read ? 1 : 0, outcome.remoteStatus ?? null, outcome.error ?? null, now, now, sync.leadId, sync.connectionId],
+  });
+}
+
+/**
+ * A lead's sync state in every connection it has been queued for
+ */
+export async function listLeadSyncs(
+  leadId: string
+): Promise<Array<LeadCrmSync & { connectionName: string; connectionType: CrmType }>> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT s.*, c.name AS connection_name, c.type AS connection_type
+          FROM lead_crm_sync s
+          JOIN crm_connections c ON c.id = s.connection_id
+          WHERE s.lead_id = ?
+          ORDER BY c.created_at ASC`,
+    args: [leadId],
+  });
+
+  return result.rows.map((row) => ({
+    ...mapRowToSync(row),
+    connectionName: row.connection_name as string,
+    connectionType: row.connection_type as CrmType,
+  }));
+}
+
+/**
+ * Lead counts per sync state for each connection
+ */
+export async function getLeadSyncStats(): Promise<
+  Record<string, Partial<Record<LeadSyncState, number>>>
+> {
+  await ensureSchema();
+
+  const result = await db.execute(
+    `SELECT connection_id, state, COUNT(*) as count FROM lead_crm_sync GROUP BY connection_id, state`
+  );
+
+  const stats: Record<string, Partial<Record<LeadSyncState, number>>> = {};
+  for (const row of result.rows) {
+    const id = row.connection_id as string;
+    stats[id] = { ...stats[id], [row.state as LeadSyncState]: Number(row.count) };
+  }
+  return stats;
+}
+
+/**
+ * Forget a deleted lead's sync state
+ */
+export async function deleteLeadSyncs(leadId: string): Promise<void> {
+  await ensureSchema();
+
+  await db.execute({
+    sql: `DELETE FROM lead_crm_sync WHERE lead_id = ?`,
+    args: [leadId],
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function mapRowToConnection(row: Record<string, unknown>): CrmConnection {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    type: row.type as CrmType,
+    config: JSON.parse(row.config as string) as CrmConfig,
+    statusMap: JSON.parse((row.status_map as string) || "{}") as CrmStatusMap,
+    enabled: Boolean(row.enabled),
+    pullStatus: Boolean(row.pull_status),
+    createdBy: row.created_by as string | null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+    lastPulledAt: row.last_pulled_at as string | null,
+  };
+}
+
+function mapRowToSync(row: Record<string, unknown>): LeadCrmSync {
+  return {
+    leadId: row.lead_id as string,
+    connectionId: row.connection_id as string,
+    externalId: row.external_id as string | null,
+    state: row.state as LeadSyncState,
+    attempts: Number(row.attempts ?? 0),
+    nextAttemptAt: row.next_attempt_at as string | null,
+    remoteStatus: row.remote_status as string | null,
+    lastError: row.last_error as string | null,
+    lastSyncedAt: row.last_synced_at as string | null,
+    lastPulledAt: row.last_pulled_at as string | null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
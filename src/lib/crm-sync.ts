@@ -0,0 +1,253 @@
+/**
+ * CRM Sync
+ *
+ * Pushes leads to every enabled CRM connection and copies status changes
+ * made in the CRM back to our leads.
+ *
+ * Push: a new lead, or a status change made on /admin/leads, queues the
+ * lead for each connection and sends it right away. Failures are retried
+ * with backoff (see crm-storage.ts) and the last error is kept per lead.
+ *
+ * Pull: every CRM_PULL_INTERVAL_MINUTES each connection with pullStatus on
+ * reads the status of its synced leads back. When the CRM's value changed
+ * since we last saw it and maps to one of our statuses, the lead is updated
+ * (and pushed to the other connections).
+ *
+ * Started from src/instrumentation.ts unless CRM_SYNC_ENABLED=false;
+ * POST /api/admin/schedules/tick also runs both.
+ */
+
+import { getCrmAdapter, fromRemoteStatus, toRemoteStatus, type CrmLead } from "./crm";
+import {
+  claimDueLeadSync,
+  enqueueLeadSync,
+  getCrmConnection,
+  listCrmConnections,
+  listLeadSyncsToPull,
+  markCrmConnectionPulled,
+  recordLeadSyncAttempt,
+  recordLeadSyncPull,
+  type CrmConnection,
+  type LeadCrmSync,
+  type SyncAttemptResult,
+} from "./crm-storage";
+import { getLead, updateLead, type Lead } from "./lead-storage";
+import { loadAudit } from "./audit-storage";
+
+const CRM_POLL_MS = 30 * 1000;
+const DEFAULT_PULL_INTERVAL_MINUTES = 15;
+
+// Long enough for one push; an expired lease means the worker died
+const SYNC_LEASE_MS = 2 * 60 * 1000;
+
+// Pushes per drain and leads checked per connection per pull
+const MAX_SYNCS_PER_DRAIN = 100;
+const MAX_PULLS_PER_CONNECTION = 100;
+
+// Identifies this process as the lease owner
+const WORKER_ID = `crm_${process.pid}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Kept on globalThis so dev reloads don't start a second timer
+const globalForCrm = globalThis as unknown as {
+  crmSync?: { timer: ReturnType<typeof setInterval> };
+  crmDraining?: Promise<number> | null;
+  crmPulling?: Promise<number> | null;
+};
+
+function getPullIntervalMs(): number {
+  const value = parseInt(process.env.CRM_PULL_INTERVAL_MINUTES ?? "", 10);
+  return (Number.isNaN(value) ? DEFAULT_PULL_INTERVAL_MINUTES : Math.max(value, 0)) * 60 * 1000;
+}
+
+/**
+ * Start the sync timer. Safe to call more than once.
+ */
+export function startCrmSync(): void {
+  if (globalForCrm.crmSync) return;
+
+  const timer = setInterval(() => {
+    void syncDueLeads();
+    void pullCrmStatuses();
+  }, CRM_POLL_MS);
+  // Don't keep the process alive just for the sync
+  timer.unref?.();
+  globalForCrm.crmSync = { timer };
+
+  console.log(`[CRM] Sync started (${WORKER_ID}), checking every ${CRM_POLL_MS / 1000}s`);
+}
+
+/**
+ * Queue a lead for every enabled connection (or just `connectionIds`) and
+ * start pushing. Never throws - a CRM outage mustn't fail lead capture.
+ */
+export async function queueLeadSync(leadId: string, connectionIds?: string[]): Promise<void> {
+  try {
+    const ids =
+      connectionIds ?? (await listCrmConnections({ enabledOnly: true })).map((connection) => connection.id);
+    if (ids.length === 0) return;
+
+    await enqueueLeadSync(leadId, ids);
+    void syncDueLeads();
+  } catch (error) {
+    console.error(`[CRM] Failed to queue lead ${leadId}:`, error);
+  }
+}
+
+/**
+ * Push every due lead. Concurrent calls in one process share a single
+ * pass. Returns how many pushes were attempted.
+ */
+export function syncDueLeads(): Promise<number> {
+  if (!globalForCrm.crmDraining) {
+    globalForCrm.crmDraining = drain().finally(() => {
+      globalForCrm.crmDraining = null;
+    });
+  }
+  return globalForCrm.crmDraining;
+}
+
+async function drain(): Promise<number> {
+  let attempted = 0;
+  try {
+    while (attempted < MAX_SYNCS_PER_DRAIN) {
+      const sync = await claimDueLeadSync(WORKER_ID, SYNC_LEASE_MS);
+      if (!sync) break;
+      await pushLead(sync);
+      attempted++;
+    }
+  } catch (error) {
+    console.error("[CRM] Sync pass failed:", error);
+  }
+  return attempted;
+}
+
+/**
+ * Read lead statuses back from every connection that's due for it (never,
+ * with CRM_PULL_INTERVAL_MINUTES=0), or from one connection right away. Returns how many leads changed status.
+ */
+export function pullCrmStatuses(connectionId?: string): Promise<number> {
+  if (connectionId) return pullOne(connectionId);
+
+  if (!globalForCrm.crmPulling) {
+    globalForCrm.crmPulling = pullDue().finally(() => {
+      globalForCrm.crmPulling = null;
+    });
+  }
+  return globalForCrm.crmPulling;
+}
+
+async function pullDue(): Promise<number> {
+  const interval = getPullIntervalMs();
+  if (interval === 0) return 0;
+
+  let changed = 0;
+  try {
+    const connections = await listCrmConnections({ enabledOnly: true });
+    for (const connection of connections) {
+      if (!connection.pullStatus) continue;
+      if (connection.lastPulledAt && Date.now() - Date.parse(connection.lastPulledAt) < interval) continue;
+      changed += await pullConnection(connection);
+    }
+  } catch (error) {
+    console.error("[CRM] Status pull failed:", error);
+  }
+  return changed;
+}
+
+async function pullOne(connectionId: string): Promise<number> {
+  const connection = await getCrmConnection(connectionId);
+  return connection?.enabled ? pullConnection(connection) : 0;
+}
+
+async function pullConnection(connection: CrmConnection): Promise<number> {
+  const adapter = getCrmAdapter(connection.type);
+  await markCrmConnectionPulled(connection.id);
+
+  let changed = 0;
+  for (const sync of await listLeadSyncsToPull(connection.id, MAX_PULLS_PER_CONNECTION)) {
+    let remoteStatus: string | null;
+    try {
+      remoteStatus = await adapter.fetchStatus(connection.config, sync.externalId!);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await recordLeadSyncPull(sync, { error: message });
+      continue;
+    }
+
+    await recordLeadSyncPull(sync, { remoteStatus });
+    // Only act on changes made in the CRM, not on what we pushed ourselves
+    if (remoteStatus === sync.remoteStatus) continue;
+
+    const status = fromRemoteStatus(connection.statusMap, remoteStatus);
+    const lead = status ? await getLead(sync.leadId) : null;
+    if (!lead || lead.status === status) continue;
+
+    await updateLead(lead.id, { status: status! });
+    changed++;
+    console.log(`[CRM] ${connection.name} moved lead ${lead.id} from ${lead.status} to ${status}`);
+
+    const others = (await listCrmConnections({ enabledOnly: true }))
+      .map((other) => other.id)
+      .filter((id) => id !== connection.id);
+    await queueLeadSync(lead.id, others);
+  }
+  return changed;
+}
+
+async function pushLead(sync: LeadCrmSync): Promise<void> {
+  const [connection, lead] = await Promise.all([
+    getCrmConnection(sync.connectionId),
+    getLead(sync.leadId),
+  ]);
+
+  let result: SyncAttemptResult;
+  if (!connection || !connection.enabled) {
+    result = { ok: false, error: connection ? "Connection is disabled" : "Connection was deleted", final: true };
+  } else if (!lead) {
+    result = { ok: false, error: "Lead was deleted", final: true };
+  } else {
+    const remoteStatus = toRemoteStatus(connection.statusMap, lead.status);
+    try {
+      const { externalId } = await getCrmAdapter(connection.type).push(
+        connection.config,
+        await toCrmLead(lead),
+        sync.externalId,
+        remoteStatus
+      );
+      result = { ok: true, externalId, remoteStatus };
+    } catch (error) {
+      result = { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  const updated = await recordLeadSyncAttempt(sync, WORKER_ID, result);
+  if (updated?.state === "failed") {
+    console.warn(
+      `[CRM] Gave up pushing lead ${sync.leadId} to ${connection?.name ?? sync.connectionId} after ${sync.attempts} attempt(s): ${result.error}`
+    );
+  }
+}
+
+async function toCrmLead(lead: Lead): Promise<CrmLead> {
+  const audit = lead.firstAuditId ? await loadAudit(lead.firstAuditId) : null;
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000";
+  const score = audit?.result?.overallScore;
+
+  return {
+    id: lead.id,
+    email: lead.email,
+    name: lead.name,
+    company: lead.company,
+    phone: lead.phone,
+    status: lead.status,
+    capturedAt: lead.capturedAt,
+    capturePoint: lead.capturePoint,
+    utmSource: lead.utmSource,
+    utmMedium: lead.utmMedium,
+    utmCampaign: lead.utmCampaign,
+    auditId: audit?.id ?? null,
+    domain: audit?.domain ?? null,
+    score: typeof score === "number" ? score : null,
+    reportUrl: audit ? `${baseUrl}/report/${audit.id}` : null,
+  };
+}
@@ -0,0 +1,89 @@
+// Generic JSON/HTTP adapter, for CRMs without a built-in adapter or an
+// in-house service in front of one:
+//
+//   POST <url>                  { "lead": {...}, "status": "..." } -> { "id": "..." }
+//   PUT  <url>/<id>             { "lead": {...}, "status": "..." }
+//   GET  <url>/<id>             -> { "status": "..." }
+//
+// "status" is the lead's status run through the connection's status map.
+
+import { createHmac } from "crypto";
+import { crmError, crmRequest, trimBaseUrl } from "./request";
+import type { CrmAdapter, HttpCrmConfig } from "./types";
+
+function headers(config: HttpCrmConfig, body?: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (config.token) result.Authorization = `Bearer ${config.token}`;
+  if (config.secret && body !== undefined) {
+    const signature = createHmac("sha256", config.secret).update(body).digest("hex");
+    result["X-HostAI-Signature"] = `sha256=${signature}`;
+  }
+  return result;
+}
+
+function recordUrl(config: HttpCrmConfig, externalId: string): string {
+  return `${trimBaseUrl(config.url)}/${encodeURIComponent(externalId)}`;
+}
+
+export const httpAdapter: CrmAdapter<HttpCrmConfig> = {
+  type: "http",
+  label: "JSON/HTTP",
+
+  defaultStatusMap: {
+    new: "new",
+    contacted: "contacted",
+    qualified: "qualified",
+    converted: "converted",
+  },
+
+  validate(config) {
+    try {
+      const url = new URL(config.url);
+      if (url.protocol !== "https:" && url.protocol !== "http:") {
+        return "CRM URL must be http(s)";
+      }
+      return null;
+    } catch {
+      return "CRM URL is not a valid URL";
+    }
+  },
+
+  async push(config, lead, externalId, remoteStatus) {
+    const body = JSON.stringify({ lead, status: remoteStatus });
+
+    if (externalId) {
+      const response = await crmRequest(recordUrl(config, externalId), {
+        method: "PUT",
+        headers: headers(config, body),
+        body,
+      });
+      if (response.ok) return { externalId };
+      // Gone on the other side - fall through and create it again
+      if (response.status !== 404) throw crmError("CRM", response);
+    }
+
+    const response = await crmRequest(trimBaseUrl(config.url), {
+      method: "POST",
+      headers: headers(config, body),
+      body,
+    });
+    if (!response.ok) throw crmError("CRM", response);
+
+    const id = response.data?.id ?? response.data?.externalId;
+    if (typeof id !== "string" && typeof id !== "number") {
+      throw new Error("CRM response is missing an id");
+    }
+    return { externalId: String(id) };
+  },
+
+  async fetchStatus(config, externalId) {
+    const response = await crmRequest(recordUrl(config, externalId), {
+      method: "GET",
+      headers: headers(config),
+    });
+    if (!response.ok) throw crmError("CRM", response);
+
+    const status = response.data?.status;
+    return typeof status === "string" && status ? status : null;
+  },
+};
@@ -0,0 +1,103 @@
+// HubSpot adapter: one contact per lead (CRM v3 objects API)
+// The score and report link go into the custom contact properties
+// hostai_audit_score (number) and hostai_report_url (text), which need to
+// exist in the portal. Status maps to the built-in hs_lead_status.
+
+import { crmError, crmRequest, trimBaseUrl } from "./request";
+import type { CrmAdapter, CrmLead, HubSpotCrmConfig } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.hubapi.com";
+
+function contactsUrl(config: HubSpotCrmConfig, contactId?: string): string {
+  const base = `${trimBaseUrl(config.baseUrl || DEFAULT_BASE_URL)}/crm/v3/objects/contacts`;
+  return contactId ? `${base}/${encodeURIComponent(contactId)}` : base;
+}
+
+function headers(config: HubSpotCrmConfig): Record<string, string> {
+  return { Authorization: `Bearer ${config.accessToken}` };
+}
+
+function contactProperties(lead: CrmLead, remoteStatus: string | null): Record<string, string> {
+  const [firstname, ...rest] = (lead.name || "").trim().split(/\s+/);
+  const properties: Record<string, string> = { email: lead.email };
+  if (firstname) properties.firstname = firstname;
+  if (rest.length > 0) properties.lastname = rest.join(" ");
+  if (lead.company) properties.company = lead.company;
+  if (lead.phone) properties.phone = lead.phone;
+  if (lead.domain) properties.website = lead.domain;
+  if (lead.score !== null) properties.hostai_audit_score = String(lead.score);
+  if (lead.reportUrl) properties.hostai_report_url = lead.reportUrl;
+  if (remoteStatus) properties.hs_lead_status = remoteStatus;
+  return properties;
+}
+
+export const hubspotAdapter: CrmAdapter<HubSpotCrmConfig> = {
+  type: "hubspot",
+  label: "HubSpot",
+
+  defaultStatusMap: {
+    new: "NEW",
+    contacted: "ATTEMPTED_TO_CONTACT",
+    qualified: "IN_PROGRESS",
+    converted: "OPEN_DEAL",
+  },
+
+  validate(config) {
+    if (!config.accessToken) return "HubSpot needs an access token";
+    return null;
+  },
+
+  async push(config, lead, externalId, remoteStatus) {
+    const body = JSON.stringify({ properties: contactProperties(lead, remoteStatus) });
+
+    if (externalId) {
+      const response = await crmRequest(contactsUrl(config, externalId), {
+        method: "PATCH",
+        headers: headers(config),
+        body,
+      });
+      if (response.ok) return { externalId };
+      // Deleted in HubSpot - fall through and create it again
+      if (response.status !== 404) throw crmError("HubSpot", response);
+    }
+
+    const response = await crmRequest(contactsUrl(config), {
+      method: "POST",
+      headers: headers(config),
+      body,
+    });
+    if (response.ok && response.data?.id) {
+      return { externalId: String(response.data.id) };
+    }
+
+    // The email is already a contact: adopt it and update it instead
+    const existingId =
+      response.status === 409 && typeof response.data?.message === "string"
+        ? response.data.message.match(/Existing ID:\s*(\d+)/)?.[1]
+        : undefined;
+    if (existingId) {
+      const update = await crmRequest(contactsUrl(config, existingId), {
+        method: "PATCH",
+        headers: headers(config),
+        body,
+      });
+      if (!update.ok) throw crmError("HubSpot", update);
+      return { externalId: existingId };
+    }
+
+    throw crmError("HubSpot", response);
+  },
+
+  async fetchStatus(config, externalId) {
+    const response = await crmRequest(`${contactsUrl(config, externalId)}?properties=hs_lead_status`, {
+      method: "GET",
+      headers: headers(config),
+    });
+    if (!response.ok) throw crmError("HubSpot", response);
+
+    const properties = response.data?.properties as Record<string, unknown> | undefined;
+    return typeof properties?.hs_lead_status === "string" && properties.hs_lead_status
+      ? properties.hs_lead_status
+      : null;
+  },
+};
@@ -0,0 +1,141 @@
+// CRM adapters
+// Each CRM connection names an adapter and holds its config. The sync
+// worker (crm-sync.ts) only talks to adapters through this module.
+
+import { hubspotAdapter } from "./hubspot";
+import { httpAdapter } from "./http";
+import { pipedriveAdapter } from "./pipedrive";
+import type {
+  CrmAdapter,
+  CrmConfig,
+  CrmStatusMap,
+  CrmType,
+  LeadStatus,
+} from "./types";
+
+export type {
+  CrmConfig,
+  CrmLead,
+  CrmStatusMap,
+  CrmType,
+  HttpCrmConfig,
+  HubSpotCrmConfig,
+  LeadStatus,
+  PipedriveCrmConfig,
+} from "./types";
+
+export const LEAD_STATUSES: LeadStatus[] = ["new", "contacted", "qualified", "converted"];
+
+const ADAPTERS: { [T in CrmType]: CrmAdapter<Extract<CrmConfig, { type: T }>> } = {
+  hubspot: hubspotAdapter,
+  pipedrive: pipedriveAdapter,
+  http: httpAdapter,
+};
+
+export const CRM_TYPES = Object.keys(ADAPTERS) as CrmType[];
+
+// Config fields that are credentials: write-only, masked when read back
+const SECRET_FIELDS = ["accessToken", "apiToken", "secret", "token"] as const;
+
+export function getCrmAdapter(type: CrmType): CrmAdapter {
+  return ADAPTERS[type] as CrmAdapter;
+}
+
+/**
+ * Validate an adapter config from a request body. Credentials left out (or
+ * sent back masked) keep their value from `existing`. Returns the config,
+ * or an error message.
+ */
+export function parseCrmConfig(
+  type: unknown,
+  input: unknown,
+  existing?: CrmConfig
+): CrmConfig | string {
+  if (typeof type !== "string" || !(CRM_TYPES as string[]).includes(type)) {
+    return `type must be one of: ${CRM_TYPES.join(", ")}`;
+  }
+  if (input !== undefined && (typeof input !== "object" || input === null || Array.isArray(input))) {
+    return "config must be an object";
+  }
+
+  const raw = (input ?? {}) as Record<string, unknown>;
+  const previous = existing?.type === type ? (existing as unknown as Record<string, unknown>) : {};
+  const field = (name: string): string | undefined => {
+    const value = typeof raw[name] === "string" ? (raw[name] as string).trim() : "";
+    const isSecret = (SECRET_FIELDS as readonly string[]).includes(name);
+    if (value && !(isSecret && value.endsWith("…"))) return value;
+    return isSecret && typeof previous[name] === "string" ? (previous[name] as string) : undefined;
+  };
+
+  let config: CrmConfig;
+  if (type === "hubspot") {
+    config = { type, accessToken: field("accessToken") ?? "", baseUrl: field("baseUrl") };
+  } else if (type === "pipedrive") {
+    config = { type, apiToken: field("apiToken") ?? "", baseUrl: field("baseUrl") };
+  } else {
+    config = { type: "http", url: field("url") ?? "", secret: field("secret"), token: field("token") };
+  }
+
+  // Drop unset optional fields so stored configs stay tidy
+  config = Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  ) as unknown as CrmConfig;
+
+  const baseUrl = (config as { baseUrl?: string }).baseUrl;
+  if (baseUrl) {
+    try {
+      new URL(baseUrl);
+    } catch {
+      return "baseUrl is not a valid URL";
+    }
+  }
+
+  const error = getCrmAdapter(config.type).validate(config);
+  return error ?? config;
+}
+
+/**
+ * Validate a status map from a request body. Empty values are dropped.
+ */
+export function parseStatusMap(input: unknown): CrmStatusMap | string {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return "statusMap must be an object";
+  }
+
+  const map: CrmStatusMap = {};
+  for (const [status, value] of Object.entries(input)) {
+    if (!(LEAD_STATUSES as string[]).includes(status)) {
+      return `statusMap keys must be lead statuses: ${LEAD_STATUSES.join(", ")}`;
+    }
+    if (value === null || value === "") continue;
+    if (typeof value !== "string") return `statusMap.${status} must be a string`;
+    map[status as LeadStatus] = value.trim();
+  }
+  return map;
+}
+
+/**
+ * A config with its credentials masked, for API responses
+ */
+export function maskCrmConfig(config: CrmConfig): CrmConfig {
+  const masked = { ...config } as Record<string, unknown>;
+  for (const name of SECRET_FIELDS) {
+    const value = masked[name];
+    if (typeof value === "string" && value) {
+      masked[name] = `${value.slice(0, 4)}…`;
+    }
+  }
+  return masked as unknown as CrmConfig;
+}
+
+// The CRM value for one of our statuses
+export function toRemoteStatus(map: CrmStatusMap, status: string): string | null {
+  return map[status as LeadStatus] ?? null;
+}
+
+// Our status for a CRM value, or null when it isn't mapped
+export function fromRemoteStatus(map: CrmStatusMap, remoteStatus: string | null): LeadStatus | null {
+  if (!remoteStatus) return null;
+  const match = LEAD_STATUSES.find((status) => map[status] === remoteStatus);
+  return match ?? null;
+}
@@ -0,0 +1,106 @@
+// Pipedrive adapter: a person plus a lead in the Leads Inbox (API v1)
+// The lead gets a note with the audit score, domain and report link.
+// Status maps to a lead label - label IDs differ per account, so there is
+// no default mapping.
+
+import { crmError, crmRequest, trimBaseUrl } from "./request";
+import type { CrmAdapter, CrmLead, PipedriveCrmConfig } from "./types";
+
+const DEFAULT_BASE_URL = "https://api.pipedrive.com";
+
+function apiUrl(config: PipedriveCrmConfig, path: string): string {
+  const base = trimBaseUrl(config.baseUrl || DEFAULT_BASE_URL);
+  return `${base}/v1${path}?api_token=${encodeURIComponent(config.apiToken)}`;
+}
+
+function leadTitle(lead: CrmLead): string {
+  return lead.company || lead.domain || lead.name || lead.email;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function auditNote(lead: CrmLead): string | null {
+  if (!lead.auditId) return null;
+
+  const lines = [
+    lead.domain ? `<b>Domain:</b> ${escapeHtml(lead.domain)}` : null,
+    lead.score !== null ? `<b>Audit score:</b> ${lead.score}/100` : null,
+    lead.reportUrl
+      ? `<b>Report:</b> <a href="${escapeHtml(lead.reportUrl)}">${escapeHtml(lead.reportUrl)}</a>`
+      : null,
+  ].filter(Boolean);
+  return lines.length > 0 ? lines.join("<br>") : null;
+}
+
+export const pipedriveAdapter: CrmAdapter<PipedriveCrmConfig> = {
+  type: "pipedrive",
+  label: "Pipedrive",
+
+  defaultStatusMap: {},
+
+  validate(config) {
+    if (!config.apiToken) return "Pipedrive needs an API token";
+    return null;
+  },
+
+  async push(config, lead, externalId, remoteStatus) {
+    const leadFields = {
+      title: leadTitle(lead),
+      ...(remoteStatus ? { label_ids: [remoteStatus] } : {}),
+    };
+
+    if (externalId) {
+      const response = await crmRequest(apiUrl(config, `/leads/${encodeURIComponent(externalId)}`), {
+        method: "PATCH",
+        body: JSON.stringify(leadFields),
+      });
+      if (response.ok) return { externalId };
+      // Deleted in Pipedrive - fall through and create it again
+      if (response.status !== 404) throw crmError("Pipedrive", response);
+    }
+
+    const person = await crmRequest(apiUrl(config, "/persons"), {
+      method: "POST",
+      body: JSON.stringify({
+        name: lead.name || lead.email,
+        email: [{ value: lead.email, primary: true, label: "work" }],
+        ...(lead.phone ? { phone: [{ value: lead.phone, primary: true, label: "work" }] } : {}),
+      }),
+    });
+    const personId = (person.data?.data as { id?: unknown } | undefined)?.id;
+    if (!person.ok || personId === undefined) throw crmError("Pipedrive", person);
+
+    const created = await crmRequest(apiUrl(config, "/leads"), {
+      method: "POST",
+      body: JSON.stringify({ ...leadFields, person_id: personId }),
+    });
+    const leadId = (created.data?.data as { id?: unknown } | undefined)?.id;
+    if (!created.ok || !leadId) throw crmError("Pipedrive", created);
+
+    const content = auditNote(lead);
+    if (content) {
+      const note = await crmRequest(apiUrl(config, "/notes"), {
+        method: "POST",
+        body: JSON.stringify({ lead_id: leadId, content }),
+      });
+      // The lead exists either way; a missing note isn't worth a retry
+      if (!note.ok) {
+        console.warn(`[CRM] Pipedrive note for lead ${lead.id} failed: HTTP ${note.status}`);
+      }
+    }
+
+    return { externalId: String(leadId) };
+  },
+
+  async fetchStatus(config, externalId) {
+    const response = await crmRequest(apiUrl(config, `/leads/${encodeURIComponent(externalId)}`), {
+      method: "GET",
+    });
+    if (!response.ok) throw crmError("Pipedrive", response);
+
+    const labelIds = (response.data?.data as { label_ids?: unknown } | undefined)?.label_ids;
+    return Array.isArray(labelIds) && typeof labelIds[0] === "string" ? labelIds[0] : null;
+  },
+};
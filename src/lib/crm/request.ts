@@ -0,0 +1,54 @@
+// JSON over HTTP for the CRM adapters
+
+const TIMEOUT_MS = 15000;
+
+export interface CrmResponse {
+  status: number;
+  ok: boolean;
+  // Parsed JSON body, or null when the body isn't JSON
+  data: Record<string, unknown> | null;
+  text: string;
+}
+
+export async function crmRequest(
+  url: string,
+  init: { method: string; headers?: Record<string, string>; body?: string }
+): Promise<CrmResponse> {
+  const response = await fetch(url, {
+    method: init.method,
+    headers: {
+      Accept: "application/json",
+      "User-Agent": "HostAI-Scan-CRM/1.0",
+      ...(init.body !== undefined ? { "Content-Type": "application/json" } : {}),
+      ...init.headers,
+    },
+    body: init.body,
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+
+  const text = await response.text().catch(() => "");
+  let data: Record<string, unknown> | null = null;
+  try {
+    const parsed = text ? JSON.parse(text) : null;
+    data = parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    // Not JSON - callers fall back to text
+  }
+
+  return { status: response.status, ok: response.ok, data, text };
+}
+
+/**
+ * Error for a failed CRM call, with the CRM's own message when it sent one
+ */
+export function crmError(label: string, response: CrmResponse): Error {
+  const message =
+    (typeof response.data?.message === "string" && response.data.message) ||
+    (typeof response.data?.error === "string" && response.data.error) ||
+    response.text.slice(0, 200);
+  return new Error(`${label} responded with HTTP ${response.status}${message ? `: ${message}` : ""}`);
+}
+
+export function trimBaseUrl(url: string): string {
+  return url.replace(/\/+$/, "");
+}
@@ -0,0 +1,77 @@
+// CRM adapter types
+// An adapter pushes one lead into a CRM (creating it there the first time,
+// updating it afterwards) and reads back the status the sales team set.
+
+export interface HubSpotCrmConfig {
+  type: "hubspot";
+  // Private app access token with crm.objects.contacts read/write scopes
+  accessToken: string;
+  // Defaults to https://api.hubapi.com
+  baseUrl?: string;
+}
+
+export interface PipedriveCrmConfig {
+  type: "pipedrive";
+  apiToken: string;
+  // Defaults to https://api.pipedrive.com
+  baseUrl?: string;
+}
+
+export interface HttpCrmConfig {
+  type: "http";
+  // Leads are POSTed here, then PUT to and fetched from <url>/<externalId>
+  url: string;
+  // Signs bodies: X-HostAI-Signature: sha256=<hex HMAC of the body>
+  secret?: string;
+  // Sent as "Authorization: Bearer <token>"
+  token?: string;
+}
+
+export type CrmConfig = HubSpotCrmConfig | PipedriveCrmConfig | HttpCrmConfig;
+
+export type CrmType = CrmConfig["type"];
+
+// Our lead statuses, as set on /admin/leads
+export type LeadStatus = "new" | "contacted" | "qualified" | "converted";
+
+// Our status -> the CRM's value for it (HubSpot lead status, Pipedrive label
+// ID, ...). Statuses without an entry aren't synced either way.
+export type CrmStatusMap = Partial<Record<LeadStatus, string>>;
+
+// What gets pushed for a lead
+export interface CrmLead {
+  id: string;
+  email: string;
+  name: string | null;
+  company: string | null;
+  phone: string | null;
+  status: string;
+  capturedAt: string;
+  capturePoint: string;
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  // From the audit the lead was captured on, when there is one
+  auditId: string | null;
+  domain: string | null;
+  score: number | null;
+  reportUrl: string | null;
+}
+
+export interface CrmAdapter<C extends CrmConfig = CrmConfig> {
+  type: C["type"];
+  label: string;
+  defaultStatusMap: CrmStatusMap;
+  // Returns an error message for an unusable config, or null
+  validate: (config: C) => string | null;
+  // Create the lead in the CRM, or update it when externalId is set.
+  // remoteStatus is the CRM value for the lead's status, if mapped.
+  push: (
+    config: C,
+    lead: CrmLead,
+    externalId: string | null,
+    remoteStatus: string | null
+  ) => Promise<{ externalId: string }>;
+  // The lead's status value in the CRM, or null when it has none
+  fetchStatus: (config: C, externalId: string) => Promise<string | null>;
+}
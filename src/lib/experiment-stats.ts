@@ -0,0 +1,111 @@
+// Conversion rates and significance for report variant experiments
+// Pure functions over the counts from experiment-storage.ts, so they work
+// the same on the server and in the admin UI.
+//
+// Each variant is compared to the control (the experiment's first variant)
+// with a two-sided two-proportion z-test. Conversions are visitors who
+// clicked a CTA, or new leads captured, depending on the experiment's goal.
+
+import type {
+  ExperimentGoal,
+  ReportExperiment,
+  ReportVariantKey,
+  VariantCounts,
+} from "./experiment-storage";
+
+// Below this many visitors per arm the normal approximation isn't worth quoting
+export const MIN_VISITORS_FOR_SIGNIFICANCE = 30;
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+export interface VariantResult extends VariantCounts {
+  isControl: boolean;
+  conversions: number;
+  conversionRate: number;
+  // Relative change in conversion rate vs the control, e.g. 0.12 = +12%
+  lift: number | null;
+  pValue: number | null;
+  significant: boolean;
+}
+
+export interface ExperimentResults {
+  goal: ExperimentGoal;
+  control: ReportVariantKey | null;
+  variants: VariantResult[];
+  totalVisitors: number;
+}
+
+/**
+ * Conversion rate, lift and p-value for each variant of an experiment
+ */
+export function summarizeExperiment(
+  experiment: Pick<ReportExperiment, "goal">,
+  counts: VariantCounts[]
+): ExperimentResults {
+  const conversionsFor = (c: VariantCounts) =>
+    Math.min(experiment.goal === "lead_capture" ? c.leads : c.clickers, c.visitors);
+
+  const control = counts[0];
+  const controlConversions = control ? conversionsFor(control) : 0;
+  const controlRate = control && control.visitors > 0 ? controlConversions / control.visitors : 0;
+
+  const variants = counts.map((c, i): VariantResult => {
+    const conversions = conversionsFor(c);
+    const conversionRate = c.visitors > 0 ? conversions / c.visitors : 0;
+
+    if (i === 0) {
+      return { ...c, isControl: true, conversions, conversionRate, lift: null, pValue: null, significant: false };
+    }
+
+    const pValue = twoProportionPValue(controlConversions, control.visitors, conversions, c.visitors);
+    return {
+      ...c,
+      isControl: false,
+      conversions,
+      conversionRate,
+      lift: controlRate > 0 ? (conversionRate - controlRate) / controlRate : null,
+      pValue,
+      significant: pValue !== null && pValue < SIGNIFICANCE_LEVEL,
+    };
+  });
+
+  return {
+    goal: experiment.goal,
+    control: control?.variant ?? null,
+    variants,
+    totalVisitors: counts.reduce((sum, c) => sum + c.visitors, 0),
+  };
+}
+
+/**
+ * Two-sided p-value for the difference between two conversion rates, or
+ * null when either arm is too small to say
+ */
+export function twoProportionPValue(
+  conversionsA: number,
+  visitorsA: number,
+  conversionsB: number,
+  visitorsB: number
+): number | null {
+  if (visitorsA < MIN_VISITORS_FOR_SIGNIFICANCE || visitorsB < MIN_VISITORS_FOR_SIGNIFICANCE) {
+    return null;
+  }
+
+  const pooled = (conversionsA + conversionsB) / (visitorsA + visitorsB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / visitorsA + 1 / visitorsB));
+  // Nobody (or everybody) converted in either arm - no difference to test
+  if (standardError === 0) return 1;
+
+  const z = (conversionsB / visitorsB - conversionsA / visitorsA) / standardError;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+// Abramowitz & Stegun 26.2.17, accurate to about 1e-7
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const density = Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI);
+  const tail =
+    density *
+    t *
+    (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
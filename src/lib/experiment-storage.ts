@@ -0,0 +1,461 @@
+/**
+ * Experiment Storage
+ *
+ * A/B/C experiments over the public report variants. A running experiment
+ * splits report visitors between variants by traffic weight, and a visitor
+ * keeps the variant they were first assigned (keyed by the ghai_vid visitor
+ * ID). Views, clicks and lead captures record the variant they happened on,
+ * so per-variant counts come straight from the analytics tables.
+ *
+ * Only one experiment runs at a time.
+ */
+
+import { db, initializeDatabase } from "./db";
+
+export type ReportVariantKey = "a" | "b" | "c";
+export type ExperimentStatus = "draft" | "running" | "paused" | "completed";
+export type ExperimentGoal = "cta_click" | "lead_capture";
+
+export interface ExperimentVariant {
+  key: ReportVariantKey;
+  weight: number;
+}
+
+export interface ReportExperiment {
+  id: string;
+  name: string;
+  status: ExperimentStatus;
+  goal: ExperimentGoal;
+  variants: ExperimentVariant[];
+  startedAt: string | null;
+  endedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExperimentFields {
+  name?: string;
+  goal?: ExperimentGoal;
+  variants?: ExperimentVariant[];
+}
+
+// Raw per-variant counts; see experiment-stats.ts for rates and significance
+export interface VariantCounts {
+  variant: ReportVariantKey;
+  assigned: number;
+  visitors: number;
+  views: number;
+  clicks: number;
+  clickers: number;
+  leads: number;
+}
+
+export const REPORT_VARIANTS: ReportVariantKey[] = ["a", "b", "c"];
+export const EXPERIMENT_GOALS: ExperimentGoal[] = ["cta_click", "lead_capture"];
+export const EXPERIMENT_STATUSES: ExperimentStatus[] = ["draft", "running", "paused", "completed"];
+
+// Statuses an experiment can move to from each status
+const STATUS_TRANSITIONS: Record<ExperimentStatus, ExperimentStatus[]> = {
+  draft: ["running"],
+  running: ["paused", "completed"],
+  paused: ["running", "completed"],
+  completed: [],
+};
+
+// Track if schema has been ensured
+let schemaEnsured = false;
+
+async function ensureSchema() {
+  if (schemaEnsured) return;
+  await initializeDatabase();
+  schemaEnsured = true;
+}
+
+function generateExperimentId(): string {
+  const timestamp = Date.now();
+  const random = Math.random().toString(36).slice(2, 8);
+  return `exp_${timestamp}_${random}`;
+}
+
+/**
+ * Validate experiment fields from a request body. Returns the fields, or an
+ * error message.
+ */
+export function parseExperimentFields(body: Record<string, unknown>): ExperimentFields | string {
+  const fields: ExperimentFields = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string" || !body.name.trim()) return "name must be a non-empty string";
+    fields.name = body.name.trim();
+  }
+  if (body.goal !== undefined) {
+    if (!EXPERIMENT_GOALS.includes(body.goal as ExperimentGoal)) {
+      return `goal must be one of: ${EXPERIMENT_GOALS.join(", ")}`;
+    }
+    fields.goal = body.goal as ExperimentGoal;
+  }
+  if (body.variants !== undefined) {
+    if (!Array.isArray(body.variants)) return "variants must be an array";
+
+    const variants: ExperimentVariant[] = [];
+    for (const variant of body.variants) {
+      const key = (variant as { key?: unknown })?.key as ReportVariantKey;
+      const weight = Number((variant as { weight?: unknown })?.weight);
+      if (!REPORT_VARIANTS.includes(key)) {
+        return `variant key must be one of: ${REPORT_VARIANTS.join(", ")}`;
+      }
+      if (variants.some((v) => v.key === key)) return `variant "${key}" is listed twice`;
+      if (!Number.isFinite(weight) || weight < 0) return `variant "${key}" needs a weight of 0 or more`;
+      variants.push({ key, weight });
+    }
+
+    if (variants.length < 2) return "an experiment needs at least two variants";
+    if (!variants.some((v) => v.weight > 0)) return "at least one variant needs a weight above 0";
+    fields.variants = variants;
+  }
+
+  return fields;
+}
+
+// -----------------------------------------------------------------------------
+// Experiments
+// -----------------------------------------------------------------------------
+
+/**
+ * Create an experiment as a draft. The first variant is the control.
+ */
+export async function createExperiment(
+  input: Required<Pick<ExperimentFields, "name" | "variants">> & ExperimentFields
+): Promise<ReportExperiment> {
+  await ensureSchema();
+
+  const id = generateExperimentId();
+  const now = new Date().toISOString();
+
+  await db.execute({
+    sql: `INSERT INTO report_experiments (id, name, status, goal, variants, created_at, updated_at)
+          VALUES (?, ?, 'draft', ?, ?, ?, ?)`,
+    args: [id, input.name, input.goal ?? "cta_click", JSON.stringify(input.variants), now, now],
+  });
+
+  console.log(`[Experiments] Created experiment ${id} (${input.variants.map((v) => v.key).join("/")})`);
+
+  const experiment = await getExperiment(id);
+  if (!experiment) {
+    throw new Error("Failed to create experiment");
+  }
+  return experiment;
+}
+
+/**
+ * Get an experiment by ID
+ */
+export async function getExperiment(id: string): Promise<ReportExperiment | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM report_experiments WHERE id = ?`,
+    args: [id],
+  });
+
+  return result.rows.length > 0 ? mapRowToExperiment(result.rows[0]) : null;
+}
+
+/**
+ * List experiments, running first, then newest first
+ */
+export async function listExperiments(): Promise<ReportExperiment[]> {
+  await ensureSchema();
+
+  const result = await db.execute(
+    `SELECT * FROM report_experiments
+     ORDER BY status = 'running' DESC, created_at DESC`
+  );
+
+  return result.rows.map(mapRowToExperiment);
+}
+
+/**
+ * The experiment currently splitting report traffic, if any
+ */
+export async function getRunningExperiment(): Promise<ReportExperiment | null> {
+  await ensureSchema();
+
+  const result = await db.execute(
+    `SELECT * FROM report_experiments WHERE status = 'running' ORDER BY started_at DESC LIMIT 1`
+  );
+
+  return result.rows.length > 0 ? mapRowToExperiment(result.rows[0]) : null;
+}
+
+/**
+ * Update an experiment's name, goal or variants. Variants can only change
+ * while it's a draft; weights can change any time and only affect visitors
+ * not yet assigned.
+ */
+export async function updateExperiment(
+  id: string,
+  updates: ExperimentFields
+): Promise<ReportExperiment | null> {
+  await ensureSchema();
+
+  const existing = await getExperiment(id);
+  if (!existing) return null;
+
+  if (updates.variants && existing.status !== "draft") {
+    // Same variants in the same order, so the control stays the control
+    const keys = (variants: ExperimentVariant[]) => variants.map((v) => v.key).join();
+    if (keys(updates.variants) !== keys(existing.variants)) {
+      throw new Error("Only weights can change once an experiment has started");
+    }
+  }
+
+  const setClauses: string[] = [];
+  const args: (string | number | null)[] = [];
+
+  if (updates.name !== undefined) {
+    setClauses.push("name = ?");
+    args.push(updates.name);
+  }
+  if (updates.goal !== undefined) {
+    setClauses.push("goal = ?");
+    args.push(updates.goal);
+  }
+  if (updates.variants !== undefined) {
+    setClauses.push("variants = ?");
+    args.push(JSON.stringify(updates.variants));
+  }
+
+  setClauses.push("updated_at = ?");
+  args.push(new Date().toISOString());
+  args.push(id);
+
+  await db.execute({
+    sql: `UPDATE report_experiments SET ${setClauses.join(", ")} WHERE id = ?`,
+    args,
+  });
+
+  return getExperiment(id);
+}
+
+/**
+ * Move an experiment to a new status. Throws if the transition isn't
+ * allowed, or if it would start a second running experiment.
+ */
+export async function setExperimentStatus(
+  id: string,
+  status: ExperimentStatus
+): Promise<ReportExperiment | null> {
+  await ensureSchema();
+
+  const existing = await getExperiment(id);
+  if (!existing) return null;
+  if (existing.status === status) return existing;
+
+  if (!STATUS_TRANSITIONS[existing.status].includes(status)) {
+    throw new Error(`Can't move a ${existing.status} experiment to ${status}`);
+  }
+
+  const now = new Date().toISOString();
+
+  if (status === "running") {
+    // Guarded in the statement, so two admins can't start two experiments at once
+    const started = await db.execute({
+      sql: `UPDATE report_experiments
+            SET status = 'running', started_at = COALESCE(started_at, ?), updated_at = ?
+            WHERE id = ?
+              AND NOT EXISTS (SELECT 1 FROM report_experiments WHERE status = 'running')`,
+      args: [now, now, id],
+    });
+    if (started.rowsAffected === 0) {
+      throw new Error("Another experiment is already running - pause or complete it first");
+    }
+  } else {
+    await db.execute({
+      sql: `UPDATE report_experiments
+            SET status = ?, ended_at = ?, updated_at = ?
+            WHERE id = ?`,
+      args: [status, status === "completed" ? now : null, now, id],
+    });
+  }
+
+  console.log(`[Experiments] ${id}: ${existing.status} -> ${status}`);
+  return getExperiment(id);
+}
+
+/**
+ * Delete an experiment and its assignments. Views, clicks and leads keep
+ * the variant they recorded.
+ */
+export async function deleteExperiment(id: string): Promise<boolean> {
+  await ensureSchema();
+
+  const results = await db.batch(
+    [
+      { sql: `DELETE FROM experiment_assignments WHERE experiment_id = ?`, args: [id] },
+      { sql: `DELETE FROM report_experiments WHERE id = ?`, args: [id] },
+    ],
+    "write"
+  );
+
+  return results[1].rowsAffected > 0;
+}
+
+// -----------------------------------------------------------------------------
+// Assignment
+// -----------------------------------------------------------------------------
+
+/**
+ * Get the visitor's variant for an experiment, assigning one by traffic
+ * weight the first time they're seen
+ */
+export async function assignVariant(
+  experiment: ReportExperiment,
+  visitorId: string
+): Promise<ReportVariantKey> {
+  await ensureSchema();
+
+  const existing = await getAssignment(experiment.id, visitorId);
+  if (existing) return existing;
+
+  // Two first requests from the same visitor can race here; whichever
+  // insert lands first wins and both read it back
+  await db.execute({
+    sql: `INSERT INTO experiment_assignments (experiment_id, visitor_id, variant, assigned_at)
+          VALUES (?, ?, ?, ?)
+          ON CONFLICT (experiment_id, visitor_id) DO NOTHING`,
+    args: [experiment.id, visitorId, pickVariant(experiment.variants), new Date().toISOString()],
+  });
+
+  return (await getAssignment(experiment.id, visitorId)) ?? experiment.variants[0].key;
+}
+
+/**
+ * The variant a visitor was assigned in an experiment, if any
+ */
+export async function getAssignment(
+  experimentId: string,
+  visitorId: string
+): Promise<ReportVariantKey | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT variant FROM experiment_assignments WHERE experiment_id = ? AND visitor_id = ?`,
+    args: [experimentId, visitorId],
+  });
+
+  return result.rows.length > 0 ? (result.rows[0].variant as ReportVariantKey) : null;
+}
+
+/**
+ * Pick the variant to render for a report view. An explicit ?v= preview
+ * wins and isn't credited to any experiment. Otherwise the running
+ * experiment assigns one, falling back to variant "a" when none is running.
+ */
+export async function resolveReportVariant(
+  requested: string | undefined,
+  visitorId: string
+): Promise<{ variant: ReportVariantKey; experimentId: string | null }> {
+  if (REPORT_VARIANTS.includes(requested as ReportVariantKey)) {
+    return { variant: requested as ReportVariantKey, experimentId: null };
+  }
+
+  try {
+    const experiment = await getRunningExperiment();
+    if (experiment) {
+      return { variant: await assignVariant(experiment, visitorId), experimentId: experiment.id };
+    }
+  } catch (error) {
+    // Never fail a report view over an experiment
+    console.error("[Experiments] Variant assignment failed:", error);
+  }
+
+  return { variant: "a", experimentId: null };
+}
+
+function pickVariant(variants: ExperimentVariant[]): ReportVariantKey {
+  const total = variants.reduce((sum, v) => sum + v.weight, 0);
+  let roll = Math.random() * total;
+  for (const variant of variants) {
+    roll -= variant.weight;
+    if (roll < 0) return variant.key;
+  }
+  return variants.find((v) => v.weight > 0)?.key ?? variants[0].key;
+}
+
+// -----------------------------------------------------------------------------
+// Results
+// -----------------------------------------------------------------------------
+
+/**
+ * Per-variant counts for an experiment, in the experiment's variant order
+ */
+export async function getVariantCounts(experiment: ReportExperiment): Promise<VariantCounts[]> {
+  await ensureSchema();
+
+  const [assigned, views, clicks, leads] = await Promise.all([
+    db.execute({
+      sql: `SELECT variant, COUNT(*) as assigned
+            FROM experiment_assignments WHERE experiment_id = ? GROUP BY variant`,
+      args: [experiment.id],
+    }),
+    db.execute({
+      sql: `SELECT variant, COUNT(*) as views, COUNT(DISTINCT visitor_id) as visitors
+            FROM report_views WHERE experiment_id = ? GROUP BY variant`,
+      args: [experiment.id],
+    }),
+    db.execute({
+      sql: `SELECT variant, COUNT(*) as clicks, COUNT(DISTINCT visitor_id) as clickers
+            FROM report_clicks WHERE experiment_id = ? GROUP BY variant`,
+      args: [experiment.id],
+    }),
+    db.execute({
+      sql: `SELECT variant, COUNT(*) as leads
+            FROM leads WHERE experiment_id = ? GROUP BY variant`,
+      args: [experiment.id],
+    }),
+  ]);
+
+  const byVariant = (rows: Record<string, unknown>[], key: ReportVariantKey) =>
+    rows.find((row) => row.variant === key) ?? {};
+
+  return experiment.variants.map(({ key }) => {
+    const viewRow = byVariant(views.rows, key);
+    const clickRow = byVariant(clicks.rows, key);
+    return {
+      variant: key,
+      assigned: (byVariant(assigned.rows, key).assigned as number) || 0,
+      visitors: (viewRow.visitors as number) || 0,
+      views: (viewRow.views as number) || 0,
+      clicks: (clickRow.clicks as number) || 0,
+      clickers: (clickRow.clickers as number) || 0,
+      leads: (byVariant(leads.rows, key).leads as number) || 0,
+    };
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Row mapping
+// -----------------------------------------------------------------------------
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  try {
+    return value ? (JSON.parse(value as string) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function mapRowToExperiment(row: Record<string, unknown>): ReportExperiment {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    status: row.status as ExperimentStatus,
+    goal: row.goal as ExperimentGoal,
+    variants: parseJson<ExperimentVariant[]>(row.variants, []),
+    startedAt: row.started_at as string | null,
+    endedAt: row.ended_at as string | null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
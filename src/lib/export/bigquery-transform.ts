@@ -148,16 +148,22 @@ function transformAuditRow(
     content_score: getCategoryScore(audit.categories, "Content"),
 
     // Core Web Vitals
-    lcp_ms: coreWebVitals?.LARGEST_CONTENTFUL_PAINT_MS?.percentile ?? null,
-    lcp_category: coreWebVitals?.LARGEST_CONTENTFUL_PAINT_MS?.category ?? null,
-    fid_ms: coreWebVitals?.FIRST_INPUT_DELAY_MS?.percentile ?? null,
-    fid_category: coreWebVitals?.FIRST_INPUT_DELAY_MS?.category ?? null,
-    inp_ms: (coreWebVitals as Record<string, { percentile?: number; category?: string } | undefined>)?.INTERACTION_TO_NEXT_PAINT_MS?.percentile ?? null,
-    inp_category: (coreWebVitals as Record<string, { percentile?: number; category?: string } | undefined>)?.INTERACTION_TO_NEXT_PAINT_MS?.category ?? null,
-    cls_score: coreWebVitals?.CUMULATIVE_LAYOUT_SHIFT_SCORE?.percentile ?? null,
-    cls_category: coreWebVitals?.CUMULATIVE_LAYOUT_SHIFT_SCORE?.category ?? null,
-    fcp_ms: coreWebVitals?.FIRST_CONTENTFUL_PAINT_MS?.percentile ?? null,
-    fcp_category: coreWebVitals?.FIRST_CONTENTFUL_PAINT_MS?.category ?? null,
+    lcp_ms: coreWebVitals?.LCP.value ?? null,
+    lcp_category: coreWebVitals?.LCP.rating ?? null,
+    fid_ms: coreWebVitals?.FID?.value ?? null,
+    fid_category: coreWebVitals?.FID?.rating ?? null,
+    // Not part of coreWebVitals; the rule inputs have it
+    inp_ms: audit.normalized?.perf.mobile?.inpMs ?? null,
+    inp_category: null,
+    // Field CLS comes as CrUX's percentile (CLS × 100)
+    cls_score: coreWebVitals
+      ? coreWebVitals.CLS.source === "field"
+        ? coreWebVitals.CLS.value / 100
+        : coreWebVitals.CLS.value
+      : null,
+    cls_category: coreWebVitals?.CLS.rating ?? null,
+    fcp_ms: coreWebVitals?.FCP.value ?? null,
+    fcp_category: coreWebVitals?.FCP.rating ?? null,
 
     // Lighthouse
     lighthouse_performance: lighthouseScores?.performance?.score ?? null,
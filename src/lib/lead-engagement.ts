@@ -0,0 +1,453 @@
+/**
+ * Lead Engagement for GetHost.AI
+ *
+ * Ties cookie-keyed analytics (report_views, report_clicks) to email-keyed
+ * leads, builds each lead's activity timeline and computes a lead score so
+ * sales can work the hottest leads first.
+ *
+ * Score (0-100) = engagement (up to 60) + opportunity (up to 40):
+ * - Engagement: report views, total time on page, deepest scroll, CTA
+ *   clicks and how recently the lead was active
+ * - Opportunity: how poorly the lead's audited site scored and how much
+ *   monthly revenue the audit estimates it is losing
+ */
+
+import { getDb } from "./db";
+import { loadAudit } from "./audit-storage";
+
+// -----------------------------------------------------------------------------
+// Types
+// -----------------------------------------------------------------------------
+
+export type LeadTimelineEvent =
+  | { type: "captured"; at: string; capturePoint: string; auditId: string | null }
+  | {
+      type: "view";
+      at: string;
+      auditId: string;
+      timeOnPageMs: number | null;
+      maxScrollPercent: number | null;
+      deviceType: string | null;
+      variant: string | null;
+    }
+  | { type: "click"; at: string; auditId: string; ctaType: string; ctaLocation: string | null }
+  | { type: "report_access"; at: string; auditId: string; accessCount: number };
+
+export interface LeadScoreInputs {
+  views: number;
+  totalTimeOnPageMs: number;
+  maxScrollPercent: number;
+  ctaClicks: number;
+  lastActiveAt: string | null;
+  // From the lead's audit, when there is one
+  siteScore: number | null;
+  monthlyRevenueLoss: number | null;
+}
+
+export interface LeadScoreBreakdown {
+  score: number;
+  grade: LeadGrade;
+  engagement: {
+    views: number;
+    timeOnPage: number;
+    scroll: number;
+    ctaClicks: number;
+    recency: number;
+  };
+  opportunity: {
+    siteScore: number;
+    revenueLoss: number;
+  };
+  inputs: LeadScoreInputs;
+}
+
+export type LeadGrade = "hot" | "warm" | "cold";
+
+// Points per component and what earns them
+const POINTS = {
+  perView: 3,
+  maxViews: 15,
+  perMinuteOnPage: 1,
+  maxTimeOnPage: 10,
+  maxScroll: 10, // 1 per 10% of the report scrolled
+  perCtaClick: 5,
+  maxCtaClicks: 15,
+  maxRecency: 10,
+  maxSiteScore: 20, // 0 for a site scoring 100, 20 for one scoring 0
+  maxRevenueLoss: 20,
+  revenueLossForMax: 5000, // $/month
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Scores older than this are recalculated by refreshStaleLeadScores, so
+// recency decays even for leads that went quiet
+const SCORE_MAX_AGE_MS = DAY_MS;
+
+// -----------------------------------------------------------------------------
+// Identity stitching
+// -----------------------------------------------------------------------------
+
+/**
+ * Link an analytics visitor to a lead. Views and clicks the visitor made
+ * before and after being captured count as the lead's engagement.
+ * Returns false when the lead doesn't exist.
+ */
+export async function linkVisitorToLead(leadId: string, visitorId: string): Promise<boolean> {
+  const db = await getDb();
+
+  const result = await db.execute({
+    sql: `
+      INSERT INTO lead_visitors (lead_id, visitor_id, linked_at)
+      SELECT id, ?, ? FROM leads WHERE id = ?
+      ON CONFLICT (lead_id, visitor_id) DO NOTHING
+    `,
+    args: [visitorId, new Date().toISOString(), leadId],
+  });
+
+  if (result.rowsAffected > 0) return true;
+  const existing = await db.execute({
+    sql: `SELECT 1 FROM leads WHERE id = ?`,
+    args: [leadId],
+  });
+  return existing.rows.length > 0;
+}
+
+/**
+ * Link the visitor who was just captured (if known) and refresh the lead's
+ * score. Returns the new score, or null. Never throws - lead capture
+ * mustn't fail because of scoring.
+ */
+export async function identifyLeadVisitor(
+  leadId: string,
+  visitorId: string | undefined
+): Promise<number | null> {
+  try {
+    if (visitorId) await linkVisitorToLead(leadId, visitorId);
+    return (await refreshLeadScore(leadId))?.score ?? null;
+  } catch (error) {
+    console.error(`[Leads] Failed to score lead ${leadId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Visitor IDs linked to a lead
+ */
+export async function getLeadVisitorIds(leadId: string): Promise<string[]> {
+  const db = await getDb();
+
+  const result = await db.execute({
+    sql: `SELECT visitor_id FROM lead_visitors WHERE lead_id = ? ORDER BY linked_at ASC`,
+    args: [leadId],
+  });
+  return result.rows.map((row) => row.visitor_id as string);
+}
+
+/**
+ * Record activity by a visitor: bumps last_active_at of any lead they're
+ * linked to and refreshes its score. Never throws - analytics endpoints
+ * mustn't fail because of lead bookkeeping.
+ */
+export async function recordVisitorActivity(
+  visitor: { visitorId: string } | { viewId: string },
+  options: { touch?: boolean } = {}
+): Promise<void> {
+  try {
+    const db = await getDb();
+
+    const result =
+      "visitorId" in visitor
+        ? await db.execute({
+            sql: `SELECT lead_id FROM lead_visitors WHERE visitor_id = ?`,
+            args: [visitor.visitorId],
+          })
+        : await db.execute({
+            sql: `
+              SELECT lead_id FROM lead_visitors
+              WHERE visitor_id = (SELECT visitor_id FROM report_views WHERE id = ?)
+            `,
+            args: [visitor.viewId],
+          });
+
+    for (const row of result.rows) {
+      const leadId = row.lead_id as string;
+      if (options.touch) {
+        await db.execute({
+          sql: `UPDATE leads SET last_active_at = ? WHERE id = ?`,
+          args: [new Date().toISOString(), leadId],
+        });
+      }
+      await refreshLeadScore(leadId);
+    }
+  } catch (error) {
+    console.error("[Leads] Failed to record visitor activity:", error);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Timeline
+// -----------------------------------------------------------------------------
+
+/**
+ * A lead's activity, newest first: capture, report views with engagement,
+ * CTA clicks and reports accessed through the email gate
+ */
+export async function getLeadTimeline(leadId: string, limit = 200): Promise<LeadTimelineEvent[]> {
+  const db = await getDb();
+
+  const leadResult = await db.execute({
+    sql: `SELECT captured_at, capture_point, first_audit_id FROM leads WHERE id = ?`,
+    args: [leadId],
+  });
+  if (leadResult.rows.length === 0) return [];
+  const lead = leadResult.rows[0];
+
+  const visitors = `SELECT visitor_id FROM lead_visitors WHERE lead_id = ?`;
+  const [views, clicks, access] = await Promise.all([
+    db.execute({
+      sql: `
+        SELECT audit_id, viewed_at, time_on_page_ms, max_scroll_percent, device_type, variant
+        FROM report_views
+        WHERE visitor_id IN (${visitors})
+        ORDER BY viewed_at DESC
+        LIMIT ?
+      `,
+      args: [leadId, limit],
+    }),
+    db.execute({
+      sql: `
+        SELECT audit_id, clicked_at, cta_type, cta_location
+        FROM report_clicks
+        WHERE visitor_id IN (${visitors})
+        ORDER BY clicked_at DESC
+        LIMIT ?
+      `,
+      args: [leadId, limit],
+    }),
+    db.execute({
+      sql: `
+        SELECT audit_id, first_accessed_at, access_count
+        FROM lead_report_access
+        WHERE lead_id = ?
+      `,
+      args: [leadId],
+    }),
+  ]);
+
+  const events: LeadTimelineEvent[] = [
+    {
+      type: "captured",
+      at: lead.captured_at as string,
+      capturePoint: lead.capture_point as string,
+      auditId: (lead.first_audit_id as string | null) ?? null,
+    },
+    ...views.rows.map((row) => ({
+      type: "view" as const,
+      at: row.viewed_at as string,
+      auditId: row.audit_id as string,
+      timeOnPageMs: (row.time_on_page_ms as number | null) ?? null,
+      maxScrollPercent: (row.max_scroll_percent as number | null) ?? null,
+      deviceType: (row.device_type as string | null) ?? null,
+      variant: (row.variant as string | null) ?? null,
+    })),
+    ...clicks.rows.map((row) => ({
+      type: "click" as const,
+      at: row.clicked_at as string,
+      auditId: row.audit_id as string,
+      ctaType: row.cta_type as string,
+      ctaLocation: (row.cta_location as string | null) ?? null,
+    })),
+    ...access.rows.map((row) => ({
+      type: "report_access" as const,
+      at: row.first_accessed_at as string,
+      auditId: row.audit_id as string,
+      accessCount: (row.access_count as number) || 1,
+    })),
+  ];
+
+  return events.sort((a, b) => b.at.localeCompare(a.at)).slice(0, limit);
+}
+
+// -----------------------------------------------------------------------------
+// Scoring
+// -----------------------------------------------------------------------------
+
+/**
+ * Score a lead from its inputs
+ */
+export function scoreLead(inputs: LeadScoreInputs, now = Date.now()): LeadScoreBreakdown {
+  const minutesOnPage = inputs.totalTimeOnPageMs / 60000;
+  const engagement = {
+    views: Math.min(inputs.views * POINTS.perView, POINTS.maxViews),
+    timeOnPage: Math.min(Math.floor(minutesOnPage * POINTS.perMinuteOnPage), POINTS.maxTimeOnPage),
+    scroll: Math.min(Math.floor(inputs.maxScrollPercent / 10), POINTS.maxScroll),
+    ctaClicks: Math.min(inputs.ctaClicks * POINTS.perCtaClick, POINTS.maxCtaClicks),
+    recency: recencyPoints(inputs.lastActiveAt, now),
+  };
+
+  const opportunity = {
+    siteScore:
+      inputs.siteScore === null
+        ? 0
+        : Math.round(((100 - clamp(inputs.siteScore, 0, 100)) / 100) * POINTS.maxSiteScore),
+    revenueLoss:
+      inputs.monthlyRevenueLoss === null
+        ? 0
+        : Math.round(
+            Math.min(Math.max(inputs.monthlyRevenueLoss, 0) / POINTS.revenueLossForMax, 1) *
+              POINTS.maxRevenueLoss
+          ),
+  };
+
+  const score = clamp(
+    Object.values(engagement).reduce((sum, points) => sum + points, 0) +
+      opportunity.siteScore +
+      opportunity.revenueLoss,
+    0,
+    100
+  );
+
+  return { score, grade: leadGrade(score), engagement, opportunity, inputs };
+}
+
+export function leadGrade(score: number): LeadGrade {
+  if (score >= 70) return "hot";
+  if (score >= 40) return "warm";
+  return "cold";
+}
+
+/**
+ * Recalculate and store a lead's score. Returns null when the lead doesn't
+ * exist.
+ */
+export async function refreshLeadScore(leadId: string): Promise<LeadScoreBreakdown | null> {
+  const db = await getDb();
+
+  const leadResult = await db.execute({
+    sql: `SELECT reports_viewed, last_active_at, first_audit_id FROM leads WHERE id = ?`,
+    args: [leadId],
+  });
+  if (leadResult.rows.length === 0) return null;
+  const lead = leadResult.rows[0];
+
+  const visitors = `SELECT visitor_id FROM lead_visitors WHERE lead_id = ?`;
+  const [views, clicks, latestAccess] = await Promise.all([
+    db.execute({
+      sql: `
+        SELECT
+          COUNT(*) as views,
+          COALESCE(SUM(time_on_page_ms), 0) as total_time,
+          COALESCE(MAX(max_scroll_percent), 0) as max_scroll,
+          MAX(viewed_at) as last_view
+        FROM report_views
+        WHERE visitor_id IN (${visitors})
+      `,
+      args: [leadId],
+    }),
+    db.execute({
+      sql: `
+        SELECT COUNT(*) as clicks, MAX(clicked_at) as last_click
+        FROM report_clicks
+        WHERE visitor_id IN (${visitors})
+      `,
+      args: [leadId],
+    }),
+    db.execute({
+      sql: `
+        SELECT audit_id FROM lead_report_access
+        WHERE lead_id = ?
+        ORDER BY last_accessed_at DESC
+        LIMIT 1
+      `,
+      args: [leadId],
+    }),
+  ]);
+
+  // The audit the lead was captured on is normally their own site
+  const auditId =
+    (lead.first_audit_id as string | null) ?? (latestAccess.rows[0]?.audit_id as string | undefined) ?? null;
+  const audit = auditId ? await loadAudit(auditId) : null;
+  const result = audit?.result;
+
+  const viewRow = views.rows[0];
+  const clickRow = clicks.rows[0];
+  const breakdown = scoreLead({
+    // The email gate counts report accesses even without analytics
+    views: Math.max(Number(viewRow?.views ?? 0), Number(lead.reports_viewed ?? 0)),
+    totalTimeOnPageMs: Number(viewRow?.total_time ?? 0),
+    maxScrollPercent: Number(viewRow?.max_scroll ?? 0),
+    ctaClicks: Number(clickRow?.clicks ?? 0),
+    lastActiveAt: latest(
+      lead.last_active_at as string | null,
+      viewRow?.last_view as string | null,
+      clickRow?.last_click as string | null
+    ),
+    siteScore: result?.overallScore ?? null,
+    monthlyRevenueLoss: result?.monthlyRevenueLoss ?? null,
+  });
+
+  await db.execute({
+    sql: `UPDATE leads SET score = ?, score_breakdown = ?, score_updated_at = ? WHERE id = ?`,
+    args: [breakdown.score, JSON.stringify(breakdown), new Date().toISOString(), leadId],
+  });
+
+  return breakdown;
+}
+
+/**
+ * Recalculate scores that are missing or older than a day, oldest first.
+ * Returns how many were recalculated.
+ */
+export async function refreshStaleLeadScores(limit = 500): Promise<number> {
+  const db = await getDb();
+
+  const result = await db.execute({
+    sql: `
+      SELECT id FROM leads
+      WHERE score_updated_at IS NULL OR score_updated_at < ?
+      ORDER BY COALESCE(score_updated_at, '') ASC
+      LIMIT ?
+    `,
+    args: [new Date(Date.now() - SCORE_MAX_AGE_MS).toISOString(), limit],
+  });
+
+  for (const row of result.rows) {
+    await refreshLeadScore(row.id as string);
+  }
+  return result.rows.length;
+}
+
+/**
+ * Recalculate every lead's score. Returns how many were recalculated.
+ */
+export async function recalculateAllLeadScores(): Promise<number> {
+  const db = await getDb();
+
+  const result = await db.execute(`SELECT id FROM leads`);
+  for (const row of result.rows) {
+    await refreshLeadScore(row.id as string);
+  }
+  return result.rows.length;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function recencyPoints(lastActiveAt: string | null, now: number): number {
+  if (!lastActiveAt) return 0;
+  const age = now - Date.parse(lastActiveAt);
+  if (age <= DAY_MS) return POINTS.maxRecency;
+  if (age <= 7 * DAY_MS) return 6;
+  if (age <= 30 * DAY_MS) return 2;
+  return 0;
+}
+
+function latest(...dates: (string | null | undefined)[]): string | null {
+  return dates.filter((date): date is string => Boolean(date)).sort().pop() ?? null;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
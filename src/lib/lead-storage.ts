@@ -6,6 +6,9 @@
  */
 
 import { getDb } from "./db";
+import { emitWebhookEvent } from "./webhooks";
+import { identifyLeadVisitor } from "./lead-engagement";
+import { signValue, verifySignedValue } from "./link-storage";
 
 // -----------------------------------------------------------------------------
 // Types
@@ -23,6 +26,11 @@ export interface LeadData {
   utmCampaign?: string;
   referrer?: string;
   consentGiven: boolean;
+  // Report variant the lead was captured on, for experiment results
+  variant?: string | null;
+  experimentId?: string | null;
+  // Analytics visitor (ghai_vid cookie) being captured, for engagement history
+  visitorId?: string;
 }
 
 export interface Lead {
@@ -43,6 +51,11 @@ export interface Lead {
   status: string;
   notes: string | null;
   consentRecordedAt: string | null;
+  // Admin user who last edited the lead
+  updatedBy: string | null;
+  // 0-100 from engagement and the audited site, see lead-engagement.ts
+  score: number | null;
+  scoreUpdatedAt: string | null;
 }
 
 export interface LeadListParams {
@@ -51,7 +64,7 @@ export interface LeadListParams {
   search?: string;
   limit?: number;
   offset?: number;
-  sortBy?: "captured_at" | "email" | "reports_viewed" | "last_active_at";
+  sortBy?: "captured_at" | "email" | "reports_viewed" | "last_active_at" | "score";
   sortOrder?: "asc" | "desc";
 }
 
@@ -60,6 +73,25 @@ export interface LeadListResult {
   total: number;
 }
 
+// Set by POST /api/leads. Signed, so it can't be made up or pointed at
+// another lead.
+export const LEAD_COOKIE = "ghai_lead";
+
+// Lead-gated reports this browser unlocked, most recent first, capped to keep
+// the cookie small
+const MAX_LEAD_COOKIE_AUDITS = 20;
+
+export interface LeadCookie {
+  leadId: string;
+  // Reports the lead was captured on in this browser; lead access is
+  // limited to these
+  auditIds: string[];
+  // The lead was created in this browser, so its visitor history is the
+  // lead's. False when an existing email was submitted again, which anyone
+  // can do.
+  owner: boolean;
+}
+
 // -----------------------------------------------------------------------------
 // ID Generation
 // -----------------------------------------------------------------------------
@@ -120,6 +152,10 @@ export async function captureLead(
       await recordReportAccess(leadId, data.auditId);
     }
 
+    // Anyone can submit a known email, so only the browser that created
+    // the lead gets its visitor history stitched to it
+    await identifyLeadVisitor(leadId, undefined);
+
     return { leadId, isNew: false };
   }
 
@@ -133,8 +169,8 @@ export async function captureLead(
         captured_at, capture_point, first_audit_id,
         utm_source, utm_medium, utm_campaign, referrer,
         reports_viewed, last_active_at, status,
-        consent_recorded_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        consent_recorded_at, variant, experiment_id, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `,
     args: [
       leadId,
@@ -153,6 +189,8 @@ export async function captureLead(
       now,
       "new",
       data.consentGiven ? now : null,
+      data.variant || null,
+      data.experimentId || null,
       now,
     ],
   });
@@ -162,9 +200,69 @@ export async function captureLead(
     await recordReportAccess(leadId, data.auditId);
   }
 
+  const score = await identifyLeadVisitor(leadId, data.visitorId);
+
+  await emitWebhookEvent("lead.created", {
+    leadId,
+    email: data.email.toLowerCase().trim(),
+    name: data.name || null,
+    company: data.company || null,
+    phone: data.phone || null,
+    capturePoint: data.capturePoint,
+    auditId: data.auditId || null,
+    utmSource: data.utmSource || null,
+    utmMedium: data.utmMedium || null,
+    utmCampaign: data.utmCampaign || null,
+    score,
+    capturedAt: now,
+  });
+
   return { leadId, isNew: true };
 }
 
+/**
+ * Lead cookie after a capture: the new lead, or the same lead with this
+ * report added to the reports it has unlocked
+ */
+export function buildLeadCookie(
+  previous: LeadCookie | null,
+  capture: { leadId: string; isNew: boolean; auditId?: string }
+): string {
+  const same = previous?.leadId === capture.leadId ? previous : null;
+  const auditIds = [
+    ...(capture.auditId ? [capture.auditId] : []),
+    ...(same?.auditIds ?? []).filter((id) => id !== capture.auditId),
+  ].slice(0, MAX_LEAD_COOKIE_AUDITS);
+
+  const cookie: LeadCookie = {
+    leadId: capture.leadId,
+    auditIds,
+    owner: capture.isNew || (same?.owner ?? false),
+  };
+  return signValue(Buffer.from(JSON.stringify(cookie)).toString("base64url"));
+}
+
+/**
+ * The lead cookie's contents, or null when it's missing, tampered with or
+ * from before the cookie was signed
+ */
+export function parseLeadCookie(value: string | undefined): LeadCookie | null {
+  const payload = value ? verifySignedValue(value) : null;
+  if (!payload) return null;
+
+  try {
+    const cookie = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    if (typeof cookie?.leadId !== "string" || !Array.isArray(cookie.auditIds)) return null;
+    return {
+      leadId: cookie.leadId,
+      auditIds: cookie.auditIds.filter((id: unknown): id is string => typeof id === "string"),
+      owner: cookie.owner === true,
+    };
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Record that a lead accessed a report
  */
@@ -266,7 +364,7 @@ export async function listLeads(params: LeadListParams): Promise<LeadListResult>
     conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
 
   // Validate sort column to prevent SQL injection
-  const validSortColumns = ["captured_at", "email", "reports_viewed", "last_active_at"];
+  const validSortColumns = ["captured_at", "email", "reports_viewed", "last_active_at", "score"];
   const safeSort = validSortColumns.includes(sortBy) ? sortBy : "captured_at";
   const safeOrder = sortOrder === "asc" ? "ASC" : "DESC";
 
@@ -299,13 +397,15 @@ export async function listLeads(params: LeadListParams): Promise<LeadListResult>
  */
 export async function updateLead(
   leadId: string,
-  updates: { status?: string; notes?: string }
+  updates: { status?: string; notes?: string },
+  // Admin user making the change
+  updatedBy: string | null = null
 ): Promise<void> {
   const db = await getDb();
   const now = new Date().toISOString();
 
-  const setClauses: string[] = ["updated_at = ?"];
-  const args: (string | null)[] = [now];
+  const setClauses: string[] = ["updated_at = ?", "updated_by = ?"];
+  const args: (string | null)[] = [now, updatedBy];
 
   if (updates.status !== undefined) {
     setClauses.push("status = ?");
@@ -356,11 +456,20 @@ export async function getLeadReportAccess(
 export async function deleteLead(leadId: string): Promise<void> {
   const db = await getDb();
 
-  // Delete access records first (foreign key)
+  // Delete access records first (foreign key), then CRM sync state and
+  // linked visitors
   await db.execute({
     sql: `DELETE FROM lead_report_access WHERE lead_id = ?`,
     args: [leadId],
   });
+  await db.execute({
+    sql: `DELETE FROM lead_visitors WHERE lead_id = ?`,
+    args: [leadId],
+  });
+  await db.execute({
+    sql: `DELETE FROM lead_crm_sync WHERE lead_id = ?`,
+    args: [leadId],
+  });
 
   // Delete lead
   await db.execute({
@@ -392,5 +501,8 @@ function mapRowToLead(row: Record<string, unknown>): Lead {
     status: (row.status as string) || "new",
     notes: row.notes as string | null,
     consentRecordedAt: row.consent_recorded_at as string | null,
+    updatedBy: (row.updated_by as string | null) ?? null,
+    score: (row.score as number | null) ?? null,
+    scoreUpdatedAt: (row.score_updated_at as string | null) ?? null,
   };
 }
@@ -1,5 +1,5 @@
 import { db, initializeDatabase } from "./db";
-import { createHmac, randomBytes } from "crypto";
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
 
 // Track if schema has been initialized
 let linkSchemaInitialized = false;
@@ -14,14 +14,23 @@ async function ensureLinkSchema() {
   linkSchemaInitialized = true;
 }
 
+// Who can open a report: anyone, holders of a valid access token, or
+// captured leads (a token also works)
+export type ReportVisibility = "public" | "token" | "lead";
+
+export const REPORT_VISIBILITIES: ReportVisibility[] = ["public", "token", "lead"];
+
 export interface ReportLink {
   auditId: string;
   customSlug: string | null;
   expiresAt: string | null;
-  accessToken: string | null;
+  accessToken: string | null; // Legacy single token, from before report_access_tokens
+  visibility: ReportVisibility;
   defaultUtmSource: string | null;
   defaultUtmMedium: string | null;
   defaultUtmCampaign: string | null;
+  showChanges: boolean; // Show changes since the previous audit on the report
+  workspaceId: string | null; // White-label workspace the report is branded for
   linkCopies: number;
   qrDownloads: number;
   updatedAt: string;
@@ -33,6 +42,20 @@ export interface LinkSettings {
   defaultUtmSource?: string | null;
   defaultUtmMedium?: string | null;
   defaultUtmCampaign?: string | null;
+  showChanges?: boolean;
+  visibility?: ReportVisibility;
+  workspaceId?: string | null;
+}
+
+export interface AccessToken {
+  id: string;
+  auditId: string;
+  label: string | null;
+  expiresAt: string;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  useCount: number;
+  createdAt: string;
 }
 
 // Secret for signing tokens - should be in environment variable
@@ -54,7 +77,7 @@ export async function createOrUpdateLink(
   if (existing) {
     // Update existing link
     const updates: string[] = [];
-    const args: (string | null)[] = [];
+    const args: (string | number | null)[] = [];
 
     if (data.customSlug !== undefined) {
       updates.push("custom_slug = ?");
@@ -76,6 +99,18 @@ export async function createOrUpdateLink(
       updates.push("default_utm_campaign = ?");
       args.push(data.defaultUtmCampaign);
     }
+    if (data.showChanges !== undefined) {
+      updates.push("show_changes = ?");
+      args.push(data.showChanges ? 1 : 0);
+    }
+    if (data.visibility !== undefined) {
+      updates.push("visibility = ?");
+      args.push(data.visibility);
+    }
+    if (data.workspaceId !== undefined) {
+      updates.push("workspace_id = ?");
+      args.push(data.workspaceId);
+    }
 
     updates.push("updated_at = ?");
     args.push(now);
@@ -91,8 +126,8 @@ export async function createOrUpdateLink(
       sql: `INSERT INTO report_links (
         audit_id, custom_slug, expires_at,
         default_utm_source, default_utm_medium, default_utm_campaign,
-        updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        show_changes, visibility, workspace_id, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       args: [
         auditId,
         data.customSlug ?? null,
@@ -100,6 +135,9 @@ export async function createOrUpdateLink(
         data.defaultUtmSource ?? null,
         data.defaultUtmMedium ?? null,
         data.defaultUtmCampaign ?? null,
+        data.showChanges ? 1 : 0,
+        data.visibility ?? getDefaultVisibility(),
+        data.workspaceId ?? null,
         now,
       ],
     });
@@ -130,19 +168,7 @@ export async function getLinkByAuditId(
     return null;
   }
 
-  const row = result.rows[0];
-  return {
-    auditId: row.audit_id as string,
-    customSlug: row.custom_slug as string | null,
-    expiresAt: row.expires_at as string | null,
-    accessToken: row.access_token as string | null,
-    defaultUtmSource: row.default_utm_source as string | null,
-    defaultUtmMedium: row.default_utm_medium as string | null,
-    defaultUtmCampaign: row.default_utm_campaign as string | null,
-    linkCopies: (row.link_copies as number) || 0,
-    qrDownloads: (row.qr_downloads as number) || 0,
-    updatedAt: row.updated_at as string,
-  };
+  return mapRowToLink(result.rows[0]);
 }
 
 /**
@@ -162,19 +188,7 @@ export async function getLinkBySlug(
     return null;
   }
 
-  const row = result.rows[0];
-  return {
-    auditId: row.audit_id as string,
-    customSlug: row.custom_slug as string | null,
-    expiresAt: row.expires_at as string | null,
-    accessToken: row.access_token as string | null,
-    defaultUtmSource: row.default_utm_source as string | null,
-    defaultUtmMedium: row.default_utm_medium as string | null,
-    defaultUtmCampaign: row.default_utm_campaign as string | null,
-    linkCopies: (row.link_copies as number) || 0,
-    qrDownloads: (row.qr_downloads as number) || 0,
-    updatedAt: row.updated_at as string,
-  };
+  return mapRowToLink(result.rows[0]);
 }
 
 /**
@@ -191,8 +205,8 @@ export async function incrementLinkStat(
   if (!existing) {
     // Create a minimal link record
     await db.execute({
-      sql: `INSERT INTO report_links (audit_id, updated_at) VALUES (?, ?)`,
-      args: [auditId, new Date().toISOString()],
+      sql: `INSERT INTO report_links (audit_id, visibility, updated_at) VALUES (?, ?, ?)`,
+      args: [auditId, getDefaultVisibility(), new Date().toISOString()],
     });
   }
 
@@ -245,6 +259,46 @@ export function isLinkExpired(link: ReportLink): boolean {
   return expiresAt < new Date();
 }
 
+/**
+ * Visibility for reports without link settings, from REPORT_DEFAULT_VISIBILITY
+ */
+export function getDefaultVisibility(): ReportVisibility {
+  const value = process.env.REPORT_DEFAULT_VISIBILITY as ReportVisibility | undefined;
+  return value && REPORT_VISIBILITIES.includes(value) ? value : "public";
+}
+
+/**
+ * A report's share URL on `baseUrl`: its short link when it has a custom
+ * slug, otherwise the full report path
+ */
+export function buildReportUrl(
+  auditId: string,
+  link: Pick<ReportLink, "customSlug"> | null,
+  baseUrl: string
+): URL {
+  const reportPath = link?.customSlug ? `/r/${link.customSlug}` : `/report/${auditId}`;
+  return new URL(reportPath, baseUrl);
+}
+
+function mapRowToLink(row: Record<string, unknown>): ReportLink {
+  const visibility = row.visibility as ReportVisibility | null;
+  return {
+    auditId: row.audit_id as string,
+    customSlug: row.custom_slug as string | null,
+    expiresAt: row.expires_at as string | null,
+    accessToken: row.access_token as string | null,
+    visibility: visibility && REPORT_VISIBILITIES.includes(visibility) ? visibility : "public",
+    defaultUtmSource: row.default_utm_source as string | null,
+    defaultUtmMedium: row.default_utm_medium as string | null,
+    defaultUtmCampaign: row.default_utm_campaign as string | null,
+    showChanges: Boolean(row.show_changes),
+    workspaceId: (row.workspace_id as string) || null,
+    linkCopies: (row.link_copies as number) || 0,
+    qrDownloads: (row.qr_downloads as number) || 0,
+    updatedAt: row.updated_at as string,
+  };
+}
+
 // ============================================================================
 // Token Generation and Validation (Simple JWT-like signed tokens)
 // ============================================================================
@@ -253,7 +307,7 @@ interface TokenPayload {
   auditId: string;
   expiresAt: string;
   issuedAt: string;
-  nonce: string;
+  nonce: string; // ID of the token's report_access_tokens row
 }
 
 /**
@@ -261,21 +315,17 @@ interface TokenPayload {
  */
 export function generateSignedToken(
   auditId: string,
-  expiresAt: string
+  expiresAt: string,
+  nonce: string = randomBytes(8).toString("hex")
 ): string {
   const payload: TokenPayload = {
     auditId,
     expiresAt,
     issuedAt: new Date().toISOString(),
-    nonce: randomBytes(8).toString("hex"),
+    nonce,
   };
 
-  const payloadBase64 = Buffer.from(JSON.stringify(payload)).toString("base64url");
-  const signature = createHmac("sha256", TOKEN_SECRET)
-    .update(payloadBase64)
-    .digest("base64url");
-
-  return `${payloadBase64}.${signature}`;
+  return signValue(Buffer.from(JSON.stringify(payload)).toString("base64url"));
 }
 
 /**
@@ -293,11 +343,7 @@ export function validateToken(
     const [payloadBase64, providedSignature] = parts;
 
     // Verify signature
-    const expectedSignature = createHmac("sha256", TOKEN_SECRET)
-      .update(payloadBase64)
-      .digest("base64url");
-
-    if (providedSignature !== expectedSignature) {
+    if (!isValidSignature(payloadBase64, providedSignature)) {
       return { valid: false, error: "Invalid token signature" };
     }
 
@@ -319,26 +365,177 @@ export function validateToken(
 }
 
 /**
- * Store a generated token for a report link
+ * `value` with an HMAC appended, for values handed to clients that must come
+ * back unchanged (access tokens, the lead cookie). `value` can't contain "."
+ */
+export function signValue(value: string): string {
+  return `${value}.${createHmac("sha256", TOKEN_SECRET).update(value).digest("base64url")}`;
+}
+
+/**
+ * The value signed by signValue, or null when the signature doesn't match
+ */
+export function verifySignedValue(signed: string): string | null {
+  const parts = signed.split(".");
+  if (parts.length !== 2) return null;
+  return isValidSignature(parts[0], parts[1]) ? parts[0] : null;
+}
+
+function isValidSignature(value: string, signature: string): boolean {
+  const provided = Buffer.from(signature);
+  const expected = Buffer.from(signValue(value).slice(value.length + 1));
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Issue a signed access token for a report and record it so it can be
+ * listed and revoked. The token itself isn't stored; it's only returned here.
  */
-export async function storeAccessToken(
+export async function issueAccessToken(
   auditId: string,
-  token: string
-): Promise<void> {
+  expiresAt: string,
+  label?: string | null
+): Promise<{ token: string; accessToken: AccessToken }> {
   await ensureLinkSchema();
 
-  const existing = await getLinkByAuditId(auditId);
+  const id = randomBytes(8).toString("hex");
   const now = new Date().toISOString();
+  const token = generateSignedToken(auditId, expiresAt, id);
 
-  if (existing) {
-    await db.execute({
-      sql: `UPDATE report_links SET access_token = ?, updated_at = ? WHERE audit_id = ?`,
-      args: [token, now, auditId],
-    });
-  } else {
+  await db.execute({
+    sql: `INSERT INTO report_access_tokens (id, audit_id, label, expires_at, created_at)
+          VALUES (?, ?, ?, ?, ?)`,
+    args: [id, auditId, label || null, expiresAt, now],
+  });
+
+  return {
+    token,
+    accessToken: {
+      id,
+      auditId,
+      label: label || null,
+      expiresAt,
+      revokedAt: null,
+      lastUsedAt: null,
+      useCount: 0,
+      createdAt: now,
+    },
+  };
+}
+
+/**
+ * Tokens issued for a report, newest first
+ */
+export async function listAccessTokens(auditId: string): Promise<AccessToken[]> {
+  await ensureLinkSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM report_access_tokens WHERE audit_id = ? ORDER BY created_at DESC`,
+    args: [auditId],
+  });
+
+  return result.rows.map(mapRowToAccessToken);
+}
+
+/**
+ * Revoke one token. Returns false if it doesn't exist or was already revoked.
+ */
+export async function revokeAccessToken(auditId: string, tokenId: string): Promise<boolean> {
+  await ensureLinkSchema();
+
+  const result = await db.execute({
+    sql: `UPDATE report_access_tokens SET revoked_at = ?
+          WHERE id = ? AND audit_id = ? AND revoked_at IS NULL`,
+    args: [new Date().toISOString(), tokenId, auditId],
+  });
+
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Revoke every token for a report, including the legacy link token.
+ * Returns the number revoked.
+ */
+export async function revokeAllAccessTokens(auditId: string): Promise<number> {
+  await ensureLinkSchema();
+
+  const now = new Date().toISOString();
+  const [revoked] = await db.batch(
+    [
+      {
+        sql: `UPDATE report_access_tokens SET revoked_at = ? WHERE audit_id = ? AND revoked_at IS NULL`,
+        args: [now, auditId],
+      },
+      {
+        sql: `UPDATE report_links SET access_token = NULL, updated_at = ? WHERE audit_id = ?`,
+        args: [now, auditId],
+      },
+    ],
+    "write"
+  );
+
+  return revoked.rowsAffected;
+}
+
+/**
+ * Check a token presented for a report: signature, expiry, that it was
+ * issued for this report, and that it hasn't been revoked. Records the use
+ * when it's valid, unless `recordUse` is false.
+ */
+export async function verifyAccessToken(
+  auditId: string,
+  token: string,
+  options: { recordUse?: boolean } = {}
+): Promise<{ valid: boolean; tokenId?: string; error?: string }> {
+  const validation = validateToken(token);
+  if (!validation.valid || !validation.payload) {
+    return { valid: false, error: validation.error };
+  }
+
+  const { payload } = validation;
+  if (payload.auditId !== auditId) {
+    return { valid: false, error: "Token is for a different report" };
+  }
+
+  await ensureLinkSchema();
+
+  const result = await db.execute({
+    sql: `SELECT revoked_at FROM report_access_tokens WHERE id = ? AND audit_id = ?`,
+    args: [payload.nonce, auditId],
+  });
+
+  if (result.rows.length === 0) {
+    // Tokens minted before the registry only live on the link itself
+    const link = await getLinkByAuditId(auditId);
+    if (link?.accessToken !== token) {
+      return { valid: false, error: "Token has been revoked" };
+    }
+    return { valid: true, tokenId: payload.nonce };
+  }
+
+  if (result.rows[0].revoked_at) {
+    return { valid: false, tokenId: payload.nonce, error: "Token has been revoked" };
+  }
+
+  if (options.recordUse ?? true) {
     await db.execute({
-      sql: `INSERT INTO report_links (audit_id, access_token, updated_at) VALUES (?, ?, ?)`,
-      args: [auditId, token, now],
+      sql: `UPDATE report_access_tokens SET last_used_at = ?, use_count = use_count + 1 WHERE id = ?`,
+      args: [new Date().toISOString(), payload.nonce],
     });
   }
+
+  return { valid: true, tokenId: payload.nonce };
+}
+
+function mapRowToAccessToken(row: Record<string, unknown>): AccessToken {
+  return {
+    id: row.id as string,
+    auditId: row.audit_id as string,
+    label: (row.label as string) || null,
+    expiresAt: row.expires_at as string,
+    revokedAt: (row.revoked_at as string) || null,
+    lastUsedAt: (row.last_used_at as string) || null,
+    useCount: (row.use_count as number) || 0,
+    createdAt: row.created_at as string,
+  };
 }
@@ -0,0 +1,14 @@
+-- Migration: 000_audits.sql
+-- Base audits table, so later migrations can alter it on a fresh database
+-- (audit-storage.ts also creates it, for databases that predate migrations)
+
+CREATE TABLE IF NOT EXISTS audits (
+  id TEXT PRIMARY KEY,
+  domain TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'completed',
+  created_at TEXT NOT NULL,
+  completed_at TEXT,
+  result TEXT,
+  error TEXT,
+  score INTEGER
+);
@@ -0,0 +1,15 @@
+-- Migration: 006_scoring_profiles.sql
+-- Named scoring profiles (YAML/JSON rule + weight overrides), selectable per audit or batch
+
+CREATE TABLE IF NOT EXISTS scoring_profiles (
+  name TEXT PRIMARY KEY,
+  description TEXT,
+  format TEXT NOT NULL DEFAULT 'yaml',
+  source TEXT NOT NULL,
+  is_default INTEGER DEFAULT 0,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Profile every audit in a batch is scored under (NULL = default profile)
+ALTER TABLE import_batches ADD COLUMN scoring_profile TEXT;
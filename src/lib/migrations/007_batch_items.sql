@@ -0,0 +1,21 @@
+-- Migration: 007_batch_items.sql
+-- Per-domain batch items, claimed by workers under a lease so an interrupted batch can resume
+
+CREATE TABLE IF NOT EXISTS batch_items (
+  id TEXT PRIMARY KEY,
+  batch_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  domain TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  audit_id TEXT,
+  lease_owner TEXT,
+  lease_expires_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  completed_at TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_batch_items_position ON batch_items(batch_id, position);
+CREATE INDEX IF NOT EXISTS idx_batch_items_status ON batch_items(batch_id, status);
@@ -0,0 +1,34 @@
+-- Migration: 008_audit_jobs.sql
+-- Audit job queue: retries with backoff, leases with heartbeats, cancellation and retention
+
+-- Same shape the queue used to create on demand, so existing tables are upgraded below
+CREATE TABLE IF NOT EXISTS audit_jobs (
+  id TEXT PRIMARY KEY,
+  domain TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending',
+  progress INTEGER NOT NULL DEFAULT 0,
+  current_step TEXT NOT NULL DEFAULT 'Initializing...',
+  result TEXT,
+  error TEXT,
+  created_at TEXT NOT NULL,
+  completed_at TEXT
+);
+
+-- Options the job was started with
+ALTER TABLE audit_jobs ADD COLUMN scoring_profile TEXT;
+
+-- Retries
+ALTER TABLE audit_jobs ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE audit_jobs ADD COLUMN max_attempts INTEGER NOT NULL DEFAULT 3;
+ALTER TABLE audit_jobs ADD COLUMN next_attempt_at TEXT;
+
+-- Lease held by the worker running the job, renewed by its heartbeat
+ALTER TABLE audit_jobs ADD COLUMN lease_owner TEXT;
+ALTER TABLE audit_jobs ADD COLUMN lease_expires_at TEXT;
+ALTER TABLE audit_jobs ADD COLUMN heartbeat_at TEXT;
+
+ALTER TABLE audit_jobs ADD COLUMN started_at TEXT;
+ALTER TABLE audit_jobs ADD COLUMN updated_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_audit_jobs_status ON audit_jobs(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_audit_jobs_completed ON audit_jobs(completed_at);
@@ -0,0 +1,13 @@
+-- Migration: 009_score_history.sql
+-- Per-domain score history: timeline lookups, backfilled scores, and an
+-- opt-in "since your last audit" section on shared reports
+
+CREATE INDEX IF NOT EXISTS idx_audits_domain_created ON audits(domain, created_at);
+
+-- saveAudit() didn't fill the denormalized score column before now
+UPDATE audits
+SET score = CAST(json_extract(result, '$.overallScore') AS INTEGER)
+WHERE score IS NULL AND result IS NOT NULL AND json_valid(result);
+
+-- Show what changed since the previous audit of the domain on the public report
+ALTER TABLE report_links ADD COLUMN show_changes INTEGER DEFAULT 0;
@@ -0,0 +1,54 @@
+-- Migration: 010_audit_schedules.sql
+-- Recurring re-audits of a domain or import batch, with regression alert rules and notifiers
+
+CREATE TABLE IF NOT EXISTS audit_schedules (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  target_type TEXT NOT NULL,              -- 'domain' | 'batch'
+  target TEXT NOT NULL,                   -- Domain, or import batch ID
+  frequency TEXT NOT NULL,                -- 'daily' | 'weekly' | 'monthly'
+  run_hour INTEGER NOT NULL DEFAULT 6,    -- Hour of day (UTC) runs are due
+  scoring_profile TEXT,
+  alert_rules TEXT NOT NULL DEFAULT '[]', -- JSON AlertRule[]
+  notifiers TEXT NOT NULL DEFAULT '[]',   -- JSON NotifierConfig[]
+  enabled INTEGER NOT NULL DEFAULT 1,
+  next_run_at TEXT NOT NULL,
+  last_run_at TEXT,
+  lease_owner TEXT,
+  lease_expires_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedules_due ON audit_schedules(enabled, next_run_at);
+
+CREATE TABLE IF NOT EXISTS schedule_runs (
+  id TEXT PRIMARY KEY,
+  schedule_id TEXT NOT NULL REFERENCES audit_schedules(id),
+  status TEXT NOT NULL DEFAULT 'running', -- running, completed, failed, interrupted
+  triggered_by TEXT NOT NULL DEFAULT 'schedule', -- 'schedule' | 'manual'
+  domains_total INTEGER DEFAULT 0,
+  domains_completed INTEGER DEFAULT 0,
+  domains_failed INTEGER DEFAULT 0,
+  alerts_triggered INTEGER DEFAULT 0,
+  error TEXT,
+  started_at TEXT NOT NULL,
+  completed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_runs_schedule ON schedule_runs(schedule_id, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS schedule_alerts (
+  id TEXT PRIMARY KEY,
+  schedule_id TEXT NOT NULL REFERENCES audit_schedules(id),
+  run_id TEXT NOT NULL REFERENCES schedule_runs(id),
+  domain TEXT NOT NULL,
+  audit_id TEXT NOT NULL,
+  previous_audit_id TEXT,
+  rule TEXT NOT NULL,                     -- AlertRule type that fired
+  message TEXT NOT NULL,
+  deliveries TEXT NOT NULL DEFAULT '[]',  -- JSON [{ notifier, ok, error }]
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_alerts_schedule ON schedule_alerts(schedule_id, created_at DESC);
@@ -0,0 +1,20 @@
+-- Migration: 011_audit_competitors.sql
+-- Competitor domains benchmarked against an audit, each audited with the same pipeline
+
+CREATE TABLE IF NOT EXISTS audit_competitors (
+  id TEXT PRIMARY KEY,
+  audit_id TEXT NOT NULL,                 -- Audit being benchmarked
+  domain TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual',  -- 'manual' | 'batch'
+  batch_id TEXT,                          -- Import batch the domain came from
+  job_id TEXT,                            -- audit_jobs row auditing the competitor
+  competitor_audit_id TEXT,               -- Saved audit of the competitor
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, completed, failed
+  error TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  UNIQUE(audit_id, domain)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_competitors_audit ON audit_competitors(audit_id);
+CREATE INDEX IF NOT EXISTS idx_audit_competitors_status ON audit_competitors(status);
@@ -0,0 +1,36 @@
+-- Migration: 012_report_access.sql
+-- Private report links: per-link visibility, revocable signed access tokens,
+-- and a log of who opened which report
+
+-- 'public' | 'token' (a valid access token is required) | 'lead' (a captured lead, or a token)
+ALTER TABLE report_links ADD COLUMN visibility TEXT DEFAULT 'public';
+
+-- One row per issued token, whose ID the signed token carries
+CREATE TABLE IF NOT EXISTS report_access_tokens (
+  id TEXT PRIMARY KEY,
+  audit_id TEXT NOT NULL,
+  label TEXT,                       -- Who the token was issued to, e.g. a recipient
+  expires_at TEXT NOT NULL,
+  revoked_at TEXT,
+  last_used_at TEXT,
+  use_count INTEGER DEFAULT 0,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_tokens_audit ON report_access_tokens(audit_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS report_access_log (
+  id TEXT PRIMARY KEY,
+  audit_id TEXT NOT NULL,
+  route TEXT NOT NULL,              -- 'report' | 'slug' | 'api' | 'export'
+  granted INTEGER NOT NULL,
+  via TEXT,                         -- 'public' | 'token' | 'lead' | 'admin' when granted
+  reason TEXT,                      -- Why access was denied
+  token_id TEXT,
+  lead_id TEXT,
+  ip TEXT,
+  user_agent TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_access_log_audit ON report_access_log(audit_id, created_at DESC);
@@ -0,0 +1,40 @@
+-- Migration: 013_report_experiments.sql
+-- Report variant experiments: traffic weights, sticky visitor assignment and
+-- the variant shown recorded on views, clicks and lead captures
+
+CREATE TABLE IF NOT EXISTS report_experiments (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft',   -- draft, running, paused, completed
+  goal TEXT NOT NULL DEFAULT 'cta_click', -- 'cta_click' | 'lead_capture'
+  variants TEXT NOT NULL,                 -- JSON [{ key, weight }]
+  started_at TEXT,
+  ended_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiments_status ON report_experiments(status);
+
+-- A visitor keeps the variant they were first given for the whole experiment
+CREATE TABLE IF NOT EXISTS experiment_assignments (
+  experiment_id TEXT NOT NULL REFERENCES report_experiments(id),
+  visitor_id TEXT NOT NULL,
+  variant TEXT NOT NULL,
+  assigned_at TEXT NOT NULL,
+  PRIMARY KEY (experiment_id, visitor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignments_variant ON experiment_assignments(experiment_id, variant);
+
+-- Variant shown, and the experiment that picked it (NULL for ?v= previews)
+ALTER TABLE report_views ADD COLUMN variant TEXT;
+ALTER TABLE report_views ADD COLUMN experiment_id TEXT;
+ALTER TABLE report_clicks ADD COLUMN variant TEXT;
+ALTER TABLE report_clicks ADD COLUMN experiment_id TEXT;
+ALTER TABLE leads ADD COLUMN variant TEXT;
+ALTER TABLE leads ADD COLUMN experiment_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_views_experiment ON report_views(experiment_id, variant);
+CREATE INDEX IF NOT EXISTS idx_clicks_experiment ON report_clicks(experiment_id, variant);
+CREATE INDEX IF NOT EXISTS idx_leads_experiment ON leads(experiment_id, variant);
@@ -0,0 +1,17 @@
+-- Migration: 014_workspaces.sql
+-- White-label workspaces: an agency's report branding and custom short link
+-- domain, applied to the reports whose links are assigned to the workspace
+
+CREATE TABLE IF NOT EXISTS workspaces (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  custom_domain TEXT UNIQUE,   -- Hostname short links are shared on, e.g. reports.agency.com
+  branding TEXT NOT NULL,      -- JSON: brand name, logo, colors, font, CTA, footer
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- NULL keeps the house GetHost.AI branding
+ALTER TABLE report_links ADD COLUMN workspace_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_links_workspace ON report_links(workspace_id);
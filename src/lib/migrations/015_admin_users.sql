@@ -0,0 +1,34 @@
+-- Migration: 015_admin_users.sql
+-- Admin accounts with roles, revocable sessions, and attribution of admin
+-- actions (who started an audit, created a batch or edited a lead)
+
+CREATE TABLE IF NOT EXISTS admin_users (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,       -- Stored lowercased
+  name TEXT,
+  role TEXT NOT NULL,               -- 'owner' | 'analyst' | 'sales' | 'viewer'
+  password_hash TEXT NOT NULL,      -- scrypt$salt$hash
+  disabled_at TEXT,
+  last_login_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+-- The cookie carries a random token. Only its SHA-256 is stored.
+CREATE TABLE IF NOT EXISTS admin_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  ip TEXT,
+  user_agent TEXT,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  last_seen_at TEXT,
+  revoked_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_sessions_user ON admin_sessions(user_id, created_at DESC);
+
+ALTER TABLE audits ADD COLUMN created_by TEXT;
+ALTER TABLE audit_jobs ADD COLUMN created_by TEXT;
+ALTER TABLE leads ADD COLUMN updated_by TEXT;
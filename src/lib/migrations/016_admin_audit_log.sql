@@ -0,0 +1,21 @@
+-- Migration: 016_admin_audit_log.sql
+-- Append-only trail of admin actions: who changed what, with the entity
+-- before and after the change. Rows are only ever inserted (see admin-audit-log.ts).
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id TEXT PRIMARY KEY,
+  actor_id TEXT,                    -- admin_users.id, null when auth is disabled
+  actor_email TEXT,                 -- Kept so entries survive the user being deleted
+  action TEXT NOT NULL,             -- e.g. 'lead.update', 'audit.delete', 'migrations.run'
+  entity_type TEXT NOT NULL,        -- e.g. 'lead', 'audit', 'report_link'
+  entity_id TEXT,
+  before_json TEXT,
+  after_json TEXT,
+  ip TEXT,
+  user_agent TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_entity ON admin_audit_log(entity_type, entity_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON admin_audit_log(actor_id, created_at DESC);
@@ -0,0 +1,33 @@
+-- Migration: 017_api_keys.sql
+-- API keys for the public /api/v1 surface, fixed-window usage counters for
+-- rate limits and quotas, and which key created a job, batch or audit
+
+-- Keys are shown once when created. Only their SHA-256 is stored.
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,         -- First characters of the key, for display
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT NOT NULL,             -- JSON array, e.g. ["audits:read","audits:write"]
+  rate_limit_per_minute INTEGER,    -- NULL = API_RATE_LIMIT_PER_MINUTE
+  daily_audit_quota INTEGER,        -- Domains audited per UTC day. NULL = API_DAILY_AUDIT_QUOTA
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  last_used_at TEXT,
+  revoked_at TEXT
+);
+
+-- One row per subject and window, e.g. ('key:apikey_1:minute', '2026-01-01T12:00')
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  subject TEXT NOT NULL,
+  window_start TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  expires_at TEXT NOT NULL,
+  PRIMARY KEY (subject, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires ON rate_limit_counters(expires_at);
+
+ALTER TABLE audit_jobs ADD COLUMN api_key_id TEXT;
+ALTER TABLE import_batches ADD COLUMN api_key_id TEXT;
+ALTER TABLE audits ADD COLUMN api_key_id TEXT;
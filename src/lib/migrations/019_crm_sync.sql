@@ -0,0 +1,39 @@
+-- Migration: 019_crm_sync.sql
+-- CRM connections and the sync state of each lead in each of them
+
+CREATE TABLE IF NOT EXISTS crm_connections (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,               -- hubspot, pipedrive, http
+  config TEXT NOT NULL,             -- JSON adapter config, including credentials
+  status_map TEXT NOT NULL,         -- JSON: our lead status -> CRM status value
+  enabled INTEGER NOT NULL DEFAULT 1,
+  pull_status INTEGER NOT NULL DEFAULT 1, -- Copy status changes made in the CRM back
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  last_pulled_at TEXT
+);
+
+-- One row per lead per connection. Pending rows are claimed under a lease
+-- and pushed, with retries, the same way as webhook deliveries.
+CREATE TABLE IF NOT EXISTS lead_crm_sync (
+  lead_id TEXT NOT NULL,
+  connection_id TEXT NOT NULL REFERENCES crm_connections(id),
+  external_id TEXT,                 -- The lead's ID in the CRM once pushed
+  state TEXT NOT NULL DEFAULT 'pending', -- pending, syncing, synced, failed
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT,
+  lease_owner TEXT,
+  lease_expires_at TEXT,
+  remote_status TEXT,               -- CRM status value as last pushed or pulled
+  last_error TEXT,
+  last_synced_at TEXT,
+  last_pulled_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (lead_id, connection_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_crm_sync_due ON lead_crm_sync(state, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_lead_crm_sync_pull ON lead_crm_sync(connection_id, state, last_pulled_at);
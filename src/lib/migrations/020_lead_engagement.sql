@@ -0,0 +1,22 @@
+-- Migration: 020_lead_engagement.sql
+-- Visitor <-> lead identity stitching and a computed lead score
+
+-- Analytics are keyed by the ghai_vid cookie, leads by email. A visitor is
+-- linked to a lead when they are captured (or view a report with the
+-- ghai_lead cookie set), so their report views and clicks become the
+-- lead's engagement history.
+CREATE TABLE IF NOT EXISTS lead_visitors (
+  lead_id TEXT NOT NULL,
+  visitor_id TEXT NOT NULL,
+  linked_at TEXT NOT NULL,
+  PRIMARY KEY (lead_id, visitor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_visitors_visitor ON lead_visitors(visitor_id);
+CREATE INDEX IF NOT EXISTS idx_clicks_visitor ON report_clicks(visitor_id);
+
+ALTER TABLE leads ADD COLUMN score INTEGER;
+ALTER TABLE leads ADD COLUMN score_breakdown TEXT;   -- JSON, see lead-engagement.ts
+ALTER TABLE leads ADD COLUMN score_updated_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_leads_score ON leads(score);
@@ -59,10 +59,18 @@ async function runMigrationSql(
   name: string,
   sql: string
 ): Promise<{ success: boolean; error?: string }> {
+  // Strip comment lines rather than dropping chunks that start with one -
+  // every migration file opens with a comment header
   const statements = sql
     .split(";")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0 && !s.startsWith("--"));
+    .map((s) =>
+      s
+        .split("\n")
+        .filter((line) => !line.trim().startsWith("--"))
+        .join("\n")
+        .trim()
+    )
+    .filter((s) => s.length > 0);
 
   for (const statement of statements) {
     try {
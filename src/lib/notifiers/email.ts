@@ -0,0 +1,65 @@
+// Email notifier: sends through the SMTP server in SMTP_* env vars
+//
+//   SMTP_HOST, SMTP_PORT (default 587), SMTP_SECURE (true for port 465),
+//   SMTP_USER, SMTP_PASS, SMTP_FROM
+
+import nodemailer, { type Transporter } from "nodemailer";
+import type { AlertNotification, EmailNotifierConfig, Notifier } from "./types";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+let transporter: Transporter | null = null;
+
+function getTransporter(): Transporter {
+  if (!process.env.SMTP_HOST) {
+    throw new Error("SMTP_HOST is not configured");
+  }
+  if (!transporter) {
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+  return transporter;
+}
+
+export const emailNotifier: Notifier<EmailNotifierConfig> = {
+  type: "email",
+
+  validate(config) {
+    if (!Array.isArray(config.to) || config.to.length === 0) {
+      return "Email notifier needs at least one recipient";
+    }
+    const invalid = config.to.find((address) => !EMAIL_PATTERN.test(address));
+    return invalid ? `Invalid email address: ${invalid}` : null;
+  },
+
+  async send(config, notification: AlertNotification) {
+    const { domain, score, alerts } = notification;
+    const scoreLine =
+      score.previous === null
+        ? `Score: ${score.current}`
+        : `Score: ${score.previous} → ${score.current}`;
+
+    await getTransporter().sendMail({
+      from: process.env.SMTP_FROM || process.env.SMTP_USER,
+      to: config.to,
+      subject: `[Audit alert] ${domain}: ${alerts.length} regression${alerts.length !== 1 ? "s" : ""}`,
+      text: [
+        `Scheduled audit "${notification.schedule.name}" found regressions on ${domain}.`,
+        "",
+        scoreLine,
+        "",
+        ...alerts.map((alert) => `- ${alert.message}`),
+        "",
+        `Audit: ${notification.adminUrl}`,
+        `Report: ${notification.reportUrl}`,
+      ].join("\n"),
+    });
+  },
+};
@@ -0,0 +1,96 @@
+// Alert notifiers
+// Each schedule lists the notifiers its alerts go to. Delivery failures are
+// recorded with the alert rather than thrown, so one broken destination
+// doesn't keep the others from hearing about a regression.
+
+import { emailNotifier } from "./email";
+import { webhookNotifier } from "./webhook";
+import type {
+  AlertNotification,
+  DeliveryResult,
+  Notifier,
+  NotifierConfig,
+  NotifierType,
+} from "./types";
+
+export type {
+  AlertNotification,
+  DeliveryResult,
+  EmailNotifierConfig,
+  NotifierConfig,
+  NotifierType,
+  WebhookNotifierConfig,
+} from "./types";
+
+const NOTIFIERS: { [T in NotifierType]: Notifier<Extract<NotifierConfig, { type: T }>> } = {
+  webhook: webhookNotifier,
+  email: emailNotifier,
+};
+
+function getNotifier(type: NotifierType): Notifier {
+  return NOTIFIERS[type] as Notifier;
+}
+
+// Where a notifier delivers to, for logs and the admin UI
+export function describeNotifier(config: NotifierConfig): string {
+  return config.type === "webhook" ? config.url : config.to.join(", ");
+}
+
+/**
+ * Validate notifier configs from a request body. Returns the configs, or an
+ * error message.
+ */
+export function parseNotifierConfigs(input: unknown): NotifierConfig[] | string {
+  if (!Array.isArray(input)) return "notifiers must be an array";
+
+  const configs: NotifierConfig[] = [];
+  for (const item of input) {
+    const type = (item as { type?: unknown })?.type;
+    let config: NotifierConfig;
+    if (type === "webhook") {
+      const { url, secret } = item as { url?: unknown; secret?: unknown };
+      config = {
+        type,
+        url: String(url ?? ""),
+        ...(typeof secret === "string" && secret ? { secret } : {}),
+      };
+    } else if (type === "email") {
+      const to = (item as { to?: unknown }).to;
+      config = {
+        type,
+        to: (Array.isArray(to) ? to : String(to ?? "").split(","))
+          .map((address) => String(address).trim())
+          .filter(Boolean),
+      };
+    } else {
+      return `Unknown notifier type: ${String(type)}`;
+    }
+
+    const error = getNotifier(config.type).validate(config);
+    if (error) return error;
+    configs.push(config);
+  }
+  return configs;
+}
+
+/**
+ * Send a notification to every notifier
+ */
+export async function deliverNotification(
+  configs: NotifierConfig[],
+  notification: AlertNotification
+): Promise<DeliveryResult[]> {
+  return Promise.all(
+    configs.map(async (config) => {
+      const target = describeNotifier(config);
+      try {
+        await getNotifier(config.type).send(config, notification);
+        return { notifier: config.type, target, ok: true };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[Notifiers] ${config.type} delivery to ${target} failed:`, message);
+        return { notifier: config.type, target, ok: false, error: message };
+      }
+    })
+  );
+}
@@ -0,0 +1,45 @@
+// Notifier types
+// A notifier delivers one alert notification (every alert that fired for a
+// domain in a scheduled run) to one destination.
+
+export interface WebhookNotifierConfig {
+  type: "webhook";
+  url: string;
+  // Signs the body: X-HostAI-Signature: sha256=<hex HMAC of the body>
+  secret?: string;
+}
+
+export interface EmailNotifierConfig {
+  type: "email";
+  to: string[];
+}
+
+export type NotifierConfig = WebhookNotifierConfig | EmailNotifierConfig;
+
+export type NotifierType = NotifierConfig["type"];
+
+export interface AlertNotification {
+  schedule: { id: string; name: string };
+  runId: string;
+  domain: string;
+  auditId: string;
+  previousAuditId: string | null;
+  score: { previous: number | null; current: number };
+  alerts: Array<{ rule: string; message: string }>;
+  reportUrl: string;
+  adminUrl: string;
+}
+
+export interface Notifier<C extends NotifierConfig = NotifierConfig> {
+  type: C["type"];
+  // Returns an error message for an unusable config, or null
+  validate: (config: C) => string | null;
+  send: (config: C, notification: AlertNotification) => Promise<void>;
+}
+
+export interface DeliveryResult {
+  notifier: NotifierType;
+  target: string;
+  ok: boolean;
+  error?: string;
+}
@@ -0,0 +1,45 @@
+// Webhook notifier: POSTs the notification as JSON
+
+import { createHmac } from "crypto";
+import type { AlertNotification, Notifier, WebhookNotifierConfig } from "./types";
+
+const TIMEOUT_MS = 10000;
+
+export const webhookNotifier: Notifier<WebhookNotifierConfig> = {
+  type: "webhook",
+
+  validate(config) {
+    try {
+      const url = new URL(config.url);
+      if (url.protocol !== "https:" && url.protocol !== "http:") {
+        return "Webhook URL must be http(s)";
+      }
+      return null;
+    } catch {
+      return "Webhook URL is not a valid URL";
+    }
+  },
+
+  async send(config, notification: AlertNotification) {
+    const body = JSON.stringify({ event: "audit.regression", ...notification });
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "User-Agent": "HostAI-Scan-Alerts/1.0",
+    };
+    if (config.secret) {
+      const signature = createHmac("sha256", config.secret).update(body).digest("hex");
+      headers["X-HostAI-Signature"] = `sha256=${signature}`;
+    }
+
+    const response = await fetch(config.url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with HTTP ${response.status}`);
+    }
+  },
+};
@@ -0,0 +1,147 @@
+/**
+ * Rate Limits
+ *
+ * Fixed-window counters kept in the database, so limits hold across
+ * serverless instances. A subject is whatever is being limited - an API key,
+ * a key's daily audit quota, an IP starting public audits - and each window
+ * is one row that expires once the window has passed.
+ */
+
+import { db, initializeDatabase } from "./db";
+
+export interface RateLimitWindow {
+  // Length of the window in ms. Windows are aligned to the epoch, so a day
+  // window starts at 00:00 UTC.
+  windowMs: number;
+  limit: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+// Expired windows are deleted at most this often per instance
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+let lastPrunedAt = 0;
+
+// Track if schema has been ensured
+let schemaEnsured = false;
+
+// Schema lives in migrations/017_api_keys.sql
+async function ensureSchema() {
+  if (schemaEnsured) return;
+  await initializeDatabase();
+  schemaEnsured = true;
+}
+
+/**
+ * Count `cost` against the subject's current window. When that would go over
+ * the limit nothing is counted and `allowed` is false.
+ */
+export async function consumeRateLimit(
+  subject: string,
+  window: RateLimitWindow,
+  cost = 1
+): Promise<RateLimitResult> {
+  await ensureSchema();
+
+  const now = Date.now();
+  const start = Math.floor(now / window.windowMs) * window.windowMs;
+  const resetAt = new Date(start + window.windowMs);
+  const windowStart = new Date(start).toISOString();
+
+  const result = await db.execute({
+    sql: `INSERT INTO rate_limit_counters (subject, window_start, count, expires_at)
+          VALUES (?, ?, ?, ?)
+          ON CONFLICT (subject, window_start) DO UPDATE SET count = count + excluded.count
+          RETURNING count`,
+    args: [subject, windowStart, cost, resetAt.toISOString()],
+  });
+  let count = Number(result.rows[0]?.count ?? cost);
+
+  if (count > window.limit) {
+    // Give it back - a rejected request doesn't use up the window
+    await db.execute({
+      sql: `UPDATE rate_limit_counters SET count = count - ? WHERE subject = ? AND window_start = ?`,
+      args: [cost, subject, windowStart],
+    });
+    count -= cost;
+    return { allowed: false, limit: window.limit, remaining: Math.max(window.limit - count, 0), resetAt };
+  }
+
+  if (now - lastPrunedAt > PRUNE_INTERVAL_MS) {
+    lastPrunedAt = now;
+    void pruneExpiredWindows();
+  }
+
+  return { allowed: true, limit: window.limit, remaining: window.limit - count, resetAt };
+}
+
+/**
+ * How much of the subject's current window is used, without counting anything
+ */
+export async function getRateLimitUsage(subject: string, windowMs: number): Promise<number> {
+  await ensureSchema();
+
+  const start = Math.floor(Date.now() / windowMs) * windowMs;
+  const result = await db.execute({
+    sql: `SELECT count FROM rate_limit_counters WHERE subject = ? AND window_start = ?`,
+    args: [subject, new Date(start).toISOString()],
+  });
+  return Number(result.rows[0]?.count ?? 0);
+}
+
+/**
+ * Headers describing a limit, plus Retry-After when it was hit
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(result.resetAt.getTime() / 1000)),
+  };
+  if (!result.allowed) {
+    headers["Retry-After"] = String(Math.max(Math.ceil((result.resetAt.getTime() - Date.now()) / 1000), 1));
+  }
+  return headers;
+}
+
+/**
+ * The client address to limit by. Each proxy appends the address it got the
+ * request from to X-Forwarded-For, so entries before the ones our own proxies
+ * added are whatever the client sent. TRUSTED_PROXY_HOPS (default 1, e.g.
+ * Vercel or a single load balancer) is how many proxies sit in front of the
+ * app; the entry the outermost of them added is the client. Null when there
+ * is no proxy to trust.
+ */
+export function getClientIp(requestHeaders: Headers): string | null {
+  const hops = getTrustedProxyHops();
+  if (hops === 0) return null;
+
+  const forwarded = (requestHeaders.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+  if (forwarded.length === 0) return requestHeaders.get("x-real-ip");
+
+  return forwarded[Math.max(forwarded.length - hops, 0)];
+}
+
+function getTrustedProxyHops(): number {
+  const value = parseInt(process.env.TRUSTED_PROXY_HOPS || "", 10);
+  return value >= 0 ? value : 1;
+}
+
+async function pruneExpiredWindows(): Promise<void> {
+  try {
+    await db.execute({
+      sql: `DELETE FROM rate_limit_counters WHERE expires_at < ?`,
+      args: [new Date().toISOString()],
+    });
+  } catch (error) {
+    console.error("[Rate Limit] Failed to prune expired windows:", error);
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Report Access Control
+ *
+ * Decides whether a request may open a report, from the report link's
+ * visibility (public, token or lead), the access token presented with
+ * ?token=, the lead cookie and the admin session, and logs each decision to
+ * report_access_log. Used by the report pages, the short-link redirect,
+ * the APIs that return report data and the export download.
+ */
+
+import { cookies, headers } from "next/headers";
+import { db, initializeDatabase } from "./db";
+import {
+  getDefaultVisibility,
+  getLinkByAuditId,
+  verifyAccessToken,
+  type ReportLink,
+  type ReportVisibility,
+} from "./link-storage";
+import { getLead, LEAD_COOKIE, parseLeadCookie } from "./lead-storage";
+import { ADMIN_COOKIE_NAME, isAdminAuthEnabled, isValidAdminCookie } from "./admin-auth";
+
+export type AccessRoute = "report" | "slug" | "api" | "export";
+export type AccessVia = "public" | "token" | "lead" | "admin";
+export type AccessDeniedReason = "token_required" | "token_invalid" | "lead_required";
+
+export interface AccessDecision {
+  granted: boolean;
+  visibility: ReportVisibility;
+  via: AccessVia | null;
+  reason: AccessDeniedReason | null;
+  // Why a presented token was rejected, e.g. "Token has expired"
+  tokenError: string | null;
+  tokenId: string | null;
+  leadId: string | null;
+}
+
+// The parts of a request access depends on, for callers without next/headers
+export interface ReportAccessRequest {
+  adminCookie?: string;
+  leadCookie?: string;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+export interface ReportAccessOptions {
+  route: AccessRoute;
+  token?: string | null;
+  link?: ReportLink | null;
+  adminBypass?: "signed-in" | "always";
+  log?: boolean;
+}
+
+export interface AccessLogEntry {
+  id: string;
+  auditId: string;
+  route: AccessRoute;
+  granted: boolean;
+  via: AccessVia | null;
+  reason: AccessDeniedReason | null;
+  tokenId: string | null;
+  leadId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+// Track if schema has been ensured
+let schemaEnsured = false;
+
+async function ensureSchema() {
+  if (schemaEnsured) return;
+  await initializeDatabase();
+  schemaEnsured = true;
+}
+
+/**
+ * Decide whether the current request may open a report, and log it.
+ * `log: false` skips the log and the token's use count, for requests made
+ * from a report already opened (e.g. its screenshots).
+ *
+ * Admins always get in. With ADMIN_PASSWORD unset every visitor counts as
+ * an admin, which would make private links pointless on the public pages,
+ * so `adminBypass: "signed-in"` (the default) only lets in an admin who
+ * actually signed in; the admin dashboard's own APIs pass "always".
+ */
+export async function authorizeReportAccess(
+  auditId: string,
+  options: ReportAccessOptions
+): Promise<AccessDecision> {
+  const requestCookies = await cookies();
+  const requestHeaders = await headers();
+
+  return authorizeReportRequest(
+    auditId,
+    {
+      adminCookie: requestCookies.get(ADMIN_COOKIE_NAME)?.value,
+      leadCookie: requestCookies.get(LEAD_COOKIE)?.value,
+      ip:
+        requestHeaders.get("x-forwarded-for")?.split(",")[0].trim() ||
+        requestHeaders.get("x-real-ip") ||
+        null,
+      userAgent: requestHeaders.get("user-agent"),
+    },
+    options
+  );
+}
+
+/**
+ * authorizeReportAccess for a request described by its cookie and header
+ * values, for Pages Router API routes, which can't use next/headers
+ */
+export async function authorizeReportRequest(
+  auditId: string,
+  request: ReportAccessRequest,
+  options: ReportAccessOptions
+): Promise<AccessDecision> {
+  const log = options.log ?? true;
+  const link = options.link !== undefined ? options.link : await getLinkByAuditId(auditId);
+  const visibility = link?.visibility ?? getDefaultVisibility();
+
+  const decision: AccessDecision = {
+    granted: false,
+    visibility,
+    via: null,
+    reason: null,
+    tokenError: null,
+    tokenId: null,
+    leadId: null,
+  };
+
+  if (options.token) {
+    const verified = await verifyAccessToken(auditId, options.token, { recordUse: log });
+    decision.tokenId = verified.tokenId ?? null;
+    if (verified.valid) {
+      decision.granted = true;
+      decision.via = "token";
+    } else {
+      decision.tokenError = verified.error ?? "Invalid token";
+    }
+  }
+
+  if (!decision.granted && visibility === "public") {
+    decision.granted = true;
+    decision.via = "public";
+  }
+
+  if (!decision.granted) {
+    const isAdmin =
+      options.adminBypass === "always"
+        ? await isValidAdminCookie(request.adminCookie)
+        : (await isAdminAuthEnabled()) && (await isValidAdminCookie(request.adminCookie));
+    if (isAdmin) {
+      decision.granted = true;
+      decision.via = "admin";
+    }
+  }
+
+  if (!decision.granted && visibility === "lead") {
+    // Only the reports the lead was captured on in this browser
+    const lead = parseLeadCookie(request.leadCookie);
+    if (lead?.auditIds.includes(auditId) && (await getLead(lead.leadId))) {
+      decision.granted = true;
+      decision.via = "lead";
+      decision.leadId = lead.leadId;
+    }
+  }
+
+  if (!decision.granted) {
+    // Lead-gated reports offer the lead form even after a bad token
+    decision.reason =
+      visibility === "lead" ? "lead_required" : decision.tokenError ? "token_invalid" : "token_required";
+  }
+
+  if (log) {
+    await logReportAccess(auditId, options.route, decision, request).catch((error) => {
+      console.error("[Report Access] Failed to log access:", error);
+    });
+  }
+
+  return decision;
+}
+
+/**
+ * Record an access decision with the request's IP and user agent
+ */
+async function logReportAccess(
+  auditId: string,
+  route: AccessRoute,
+  decision: AccessDecision,
+  request: ReportAccessRequest
+): Promise<void> {
+  await ensureSchema();
+
+  await db.execute({
+    sql: `INSERT INTO report_access_log
+          (id, audit_id, route, granted, via, reason, token_id, lead_id, ip, user_agent, created_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      `acc_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      auditId,
+      route,
+      decision.granted ? 1 : 0,
+      decision.via,
+      decision.reason,
+      decision.tokenId,
+      decision.leadId,
+      request.ip,
+      request.userAgent,
+      new Date().toISOString(),
+    ],
+  });
+}
+
+/**
+ * Recent access decisions for a report, newest first
+ */
+export async function listAccessLog(auditId: string, limit = 50): Promise<AccessLogEntry[]> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM report_access_log WHERE audit_id = ? ORDER BY created_at DESC LIMIT ?`,
+    args: [auditId, limit],
+  });
+
+  return result.rows.map((row) => ({
+    id: row.id as string,
+    auditId: row.audit_id as string,
+    route: row.route as AccessRoute,
+    granted: Boolean(row.granted),
+    via: (row.via as AccessVia) || null,
+    reason: (row.reason as AccessDeniedReason) || null,
+    tokenId: (row.token_id as string) || null,
+    leadId: (row.lead_id as string) || null,
+    ip: (row.ip as string) || null,
+    userAgent: (row.user_agent as string) || null,
+    createdAt: row.created_at as string,
+  }));
+}
@@ -0,0 +1,264 @@
+/**
+ * Report Export
+ *
+ * Renders a saved audit to a self-contained HTML document: the same report
+ * components the live /report page uses (variant A, B or C), a closing card
+ * with the QR code and short link, and only the Tailwind CSS those components
+ * use, compiled here from globals.css and inlined. The workspace font is
+ * inlined as data: URLs, so the file opens offline and report-pdf.ts prints
+ * it without network access; it is fetched on the first export that uses it
+ * and kept in memory for a day. A font that can't be fetched is left out and
+ * the report falls back to its font stack.
+ *
+ * Uses react-dom/server, which isn't available in the App Router's server
+ * layer, so this is only imported from the Pages Router export endpoint.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { createElement, type ReactElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import QRCode from "qrcode";
+import { compile } from "tailwindcss";
+import { PublicReportView } from "@/components/report/public-report-view";
+import { ReportVariantB } from "@/components/report/variants/report-variant-b";
+import { ReportVariantC } from "@/components/report/variants/report-variant-c";
+import { ReportShareCard } from "@/components/report/report-share-card";
+import type { AuditChanges } from "./audit-history";
+import type { ReportVariantKey } from "./experiment-storage";
+import type { ReportBranding } from "./workspace-storage";
+import type { AuditResult } from "@/types/audit";
+
+export type ExportFormat = "html" | "pdf";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["html", "pdf"];
+
+export interface ReportExportInput {
+  auditId: string;
+  domain: string;
+  result: AuditResult;
+  variant: ReportVariantKey;
+  // Live report link embedded as the QR code and short link
+  shareUrl: string;
+  changes?: AuditChanges | null;
+  branding: ReportBranding;
+}
+
+// Overrides for a static page: no sticky header or blur over printed pages,
+// backgrounds kept when printing, and cards not split across page breaks
+const EXPORT_CSS = `
+body { background: #f9fafb; font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; }
+.sticky, .fixed { position: static !important; }
+[class*="backdrop-blur"] { backdrop-filter: none !important; }
+@page { size: A4; margin: 18mm 0 16mm; }
+@media print {
+  html, body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  .min-h-screen { min-height: 0 !important; }
+  section, .rounded-xl { break-inside: avoid; }
+}
+`;
+
+/**
+ * Render an audit to a complete, self-contained HTML document
+ */
+export async function renderReportHtml(input: ReportExportInput): Promise<string> {
+  const qrDataUrl = await QRCode.toDataURL(input.shareUrl, {
+    width: 300,
+    margin: 1,
+    errorCorrectionLevel: "M",
+  });
+
+  const markup = renderToStaticMarkup(
+    createElement(
+      "main",
+      null,
+      reportElement(input),
+      createElement(ReportShareCard, {
+        domain: input.domain,
+        shareUrl: input.shareUrl,
+        qrDataUrl,
+        generatedAt: new Date().toISOString(),
+        branding: input.branding,
+      })
+    )
+  );
+
+  const [css, fontCss] = await Promise.all([
+    compileCss(extractClassCandidates(markup)),
+    input.branding.fontUrl ? getInlinedFont(input.branding.fontUrl) : "",
+  ]);
+  const title = `${input.domain} - Website Audit Report | ${input.branding.brandName}`;
+  // Relative links in the report (logo, CTAs) resolve against the live site
+  const baseUrl = new URL("/", input.shareUrl).toString();
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<base href="${escapeHtml(baseUrl)}">`,
+    fontCss ? `<style>${fontCss}</style>` : "",
+    `<style>${css}\n${EXPORT_CSS}</style>`,
+    "</head>",
+    `<body class="antialiased">${markup}</body>`,
+    "</html>",
+  ].join("\n");
+}
+
+// Font stylesheets can list many subsets; past this the export skips the font
+const MAX_FONT_BYTES = 2 * 1024 * 1024;
+const FONT_FETCH_TIMEOUT_MS = 10000;
+const FONT_URL_PATTERN = /url\(\s*['"]?([^'")]+)['"]?\s*\)/g;
+
+// Inlined font CSS by stylesheet URL. A font that failed is tried again
+// sooner, so a brief outage doesn't drop it from exports for a day.
+const FONT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const FONT_RETRY_MS = 5 * 60 * 1000;
+const fontCache = new Map<string, { css: Promise<string>; expiresAt: number }>();
+
+// Google Fonts picks the font format by user agent; this one gets woff2
+const FONT_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36";
+
+function getInlinedFont(stylesheetUrl: string): Promise<string> {
+  const cached = fontCache.get(stylesheetUrl);
+  if (cached && cached.expiresAt > Date.now()) return cached.css;
+
+  const entry = {
+    css: inlineFontStylesheet(stylesheetUrl).then((css) => {
+      entry.expiresAt = Date.now() + (css ? FONT_CACHE_TTL_MS : FONT_RETRY_MS);
+      return css;
+    }),
+    // Concurrent exports share the fetch in flight
+    expiresAt: Infinity,
+  };
+  fontCache.set(stylesheetUrl, entry);
+  return entry.css;
+}
+
+/**
+ * Fetch a font stylesheet (e.g. Google Fonts) and replace its font file
+ * url()s with data: URLs. Empty, with a warning, when anything fails.
+ */
+async function inlineFontStylesheet(stylesheetUrl: string): Promise<string> {
+  try {
+    const stylesheet = await fetchFontResource(stylesheetUrl);
+    const css = Buffer.from(stylesheet.body).toString("utf8");
+
+    const urls = new Set([...css.matchAll(FONT_URL_PATTERN)].map((match) => match[1]));
+    const dataUrls = new Map<string, string>();
+    let totalBytes = 0;
+
+    for (const fontUrl of urls) {
+      if (fontUrl.startsWith("data:")) continue;
+      const font = await fetchFontResource(new URL(fontUrl, stylesheetUrl).toString());
+      totalBytes += font.body.byteLength;
+      if (totalBytes > MAX_FONT_BYTES) {
+        throw new Error(`font files are over ${MAX_FONT_BYTES / 1024 / 1024}MB`);
+      }
+      dataUrls.set(fontUrl, `data:${font.contentType};base64,${Buffer.from(font.body).toString("base64")}`);
+    }
+
+    const inlined = css.replace(FONT_URL_PATTERN, (match, fontUrl: string) =>
+      dataUrls.has(fontUrl) ? `url("${dataUrls.get(fontUrl)}")` : match
+    );
+
+    // Inside a <style> element
+    return inlined.replace(/<\/style/gi, "<\\/style");
+  } catch (error) {
+    console.warn(`[Export] Leaving out font ${stylesheetUrl}:`, error);
+    return "";
+  }
+}
+
+async function fetchFontResource(url: string): Promise<{ body: ArrayBuffer; contentType: string }> {
+  const response = await fetch(url, {
+    headers: { "User-Agent": FONT_USER_AGENT },
+    signal: AbortSignal.timeout(FONT_FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status}`);
+  }
+  return {
+    body: await response.arrayBuffer(),
+    contentType: response.headers.get("content-type")?.split(";")[0] || "application/octet-stream",
+  };
+}
+
+function reportElement({ auditId, result, variant, changes, branding }: ReportExportInput): ReactElement {
+  switch (variant) {
+    case "b":
+      return createElement(ReportVariantB, { result, auditId, branding });
+    case "c":
+      return createElement(ReportVariantC, { result, auditId, branding });
+    default:
+      return createElement(PublicReportView, { result, auditId, changes, branding });
+  }
+}
+
+// -----------------------------------------------------------------------------
+// CSS
+// -----------------------------------------------------------------------------
+
+// Compiled once per process; build() is cheap after that
+let compilerPromise: ReturnType<typeof compile> | null = null;
+
+function getCompiler() {
+  if (!compilerPromise) {
+    compilerPromise = (async () => {
+      const root = process.cwd();
+      const globals = await fs.readFile(path.join(root, "src/app/globals.css"), "utf8");
+      return compile(globals, {
+        base: path.join(root, "src/app"),
+        // globals.css only imports Tailwind itself, whose index.css has no imports
+        loadStylesheet: async (id) => {
+          if (id !== "tailwindcss") {
+            throw new Error(`Unexpected stylesheet import in globals.css: ${id}`);
+          }
+          const base = path.join(root, "node_modules/tailwindcss");
+          const filePath = path.join(base, "index.css");
+          return { path: filePath, base, content: await fs.readFile(filePath, "utf8") };
+        },
+      });
+    })().catch((error) => {
+      compilerPromise = null;
+      throw error;
+    });
+  }
+  return compilerPromise;
+}
+
+async function compileCss(candidates: string[]): Promise<string> {
+  const compiler = await getCompiler();
+  return compiler.build(candidates);
+}
+
+// Every class name used in the rendered markup
+function extractClassCandidates(markup: string): string[] {
+  const candidates = new Set<string>();
+  for (const match of markup.matchAll(/class="([^"]*)"/g)) {
+    for (const name of match[1].split(/\s+/)) {
+      if (name) candidates.add(unescapeHtml(name));
+    }
+  }
+  return [...candidates];
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function unescapeHtml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;/g, "'")
+    .replace(/&gt;/g, ">")
+    .replace(/&lt;/g, "<")
+    .replace(/&amp;/g, "&");
+}
@@ -0,0 +1,86 @@
+// Print an exported report (see report-export.ts) to a paginated PDF with
+// headless Chrome. The HTML is loaded straight into the page and every
+// network request is refused, so printing never leaves this machine.
+// Chrome is launched with the audit renderer's openChrome.
+
+import { openChrome, type ChromeSession } from "@/services/audit/renderer";
+import { escapeHtml } from "./report-export";
+import type { ReportBranding } from "./workspace-storage";
+
+// Upper bound for one export, including Chrome startup
+const PDF_TIMEOUT_MS = 60000;
+
+export interface ReportPdfOptions {
+  domain: string;
+  shareUrl: string;
+  branding: ReportBranding;
+}
+
+/**
+ * Print a self-contained report HTML document to an A4 PDF with a branded
+ * header and page numbers in the footer
+ */
+export async function renderReportPdf(html: string, options: ReportPdfOptions): Promise<Buffer> {
+  let session: ChromeSession | null = null;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    session = await openChrome();
+    const { browser } = session;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () => reject(new Error(`PDF export timed out after ${PDF_TIMEOUT_MS / 1000}s`)),
+        PDF_TIMEOUT_MS
+      );
+    });
+
+    const print = async () => {
+      const page = await browser.newPage();
+      await page.setRequestInterception(true);
+      page.on("request", (request) => {
+        // Inline data: images are all a report needs
+        if (request.url().startsWith("data:")) request.continue();
+        else request.abort();
+      });
+
+      await page.setContent(html, { waitUntil: "load" });
+      await page.emulateMediaType("print");
+
+      const pdf = await page.pdf({
+        format: "A4",
+        printBackground: true,
+        preferCSSPageSize: true,
+        displayHeaderFooter: true,
+        headerTemplate: headerTemplate(options),
+        footerTemplate: footerTemplate(options),
+      });
+      return Buffer.from(pdf);
+    };
+
+    return await Promise.race([print(), timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+    await session?.close();
+  }
+}
+
+// Chrome renders these outside the page, so they need their own inline styles
+const TEMPLATE_STYLE =
+  "width:100%;font-family:system-ui,sans-serif;font-size:8px;color:#9ca3af;padding:0 12mm;display:flex;justify-content:space-between;";
+
+function headerTemplate({ domain, branding }: ReportPdfOptions): string {
+  // primaryColor is validated as a hex color, so it's safe in the style attribute
+  return `<div style="${TEMPLATE_STYLE}">
+    <span style="font-weight:600;color:${branding.primaryColor ?? "#4f46e5"};">${escapeHtml(branding.brandName)}</span>
+    <span>Website Audit · ${escapeHtml(domain)}</span>
+  </div>`;
+}
+
+function footerTemplate({ shareUrl }: ReportPdfOptions): string {
+  const displayUrl = shareUrl.replace(/^https?:\/\//, "").split("?")[0];
+  return `<div style="${TEMPLATE_STYLE}">
+    <span>${escapeHtml(displayUrl)}</span>
+    <span>Page <span class="pageNumber"></span> of <span class="totalPages"></span></span>
+  </div>`;
+}
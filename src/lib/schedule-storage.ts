@@ -0,0 +1,679 @@
+/**
+ * Schedule Storage
+ *
+ * Recurring re-audit schedules for a domain or an import batch, the runs
+ * they produce and the regression alerts those runs raise. A schedule is
+ * claimed under a lease while it runs, so only one scheduler process runs
+ * it at a time.
+ */
+
+import { db, initializeDatabase } from "./db";
+import { parseAlertRules, type AlertRule, type AlertRuleType } from "./alert-rules";
+import { parseNotifierConfigs, type DeliveryResult, type NotifierConfig } from "./notifiers";
+
+export type ScheduleFrequency = "daily" | "weekly" | "monthly";
+export type ScheduleTargetType = "domain" | "batch";
+
+export interface AuditSchedule {
+  id: string;
+  name: string;
+  targetType: ScheduleTargetType;
+  target: string; // Domain, or import batch ID
+  frequency: ScheduleFrequency;
+  runHour: number; // Hour of day (UTC) runs are due
+  scoringProfile: string | null;
+  alertRules: AlertRule[];
+  notifiers: NotifierConfig[];
+  enabled: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  leaseOwner: string | null;
+  leaseExpiresAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  status: "running" | "completed" | "failed" | "interrupted";
+  triggeredBy: "schedule" | "manual";
+  domainsTotal: number;
+  domainsCompleted: number;
+  domainsFailed: number;
+  alertsTriggered: number;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+}
+
+export interface ScheduleAlert {
+  id: string;
+  scheduleId: string;
+  runId: string;
+  domain: string;
+  auditId: string;
+  previousAuditId: string | null;
+  rule: AlertRuleType;
+  message: string;
+  deliveries: DeliveryResult[];
+  createdAt: string;
+}
+
+export interface CreateScheduleInput {
+  name: string;
+  targetType: ScheduleTargetType;
+  target: string;
+  frequency: ScheduleFrequency;
+  runHour?: number;
+  scoringProfile?: string | null;
+  alertRules: AlertRule[];
+  notifiers: NotifierConfig[];
+  enabled?: boolean;
+}
+
+export interface UpdateScheduleInput {
+  name?: string;
+  frequency?: ScheduleFrequency;
+  runHour?: number;
+  scoringProfile?: string | null;
+  alertRules?: AlertRule[];
+  notifiers?: NotifierConfig[];
+  enabled?: boolean;
+}
+
+export interface UpdateRunInput {
+  status?: ScheduleRun["status"];
+  domainsTotal?: number;
+  domainsCompleted?: number;
+  domainsFailed?: number;
+  alertsTriggered?: number;
+  error?: string | null;
+  completedAt?: string | null;
+}
+
+export const SCHEDULE_FREQUENCIES: ScheduleFrequency[] = ["daily", "weekly", "monthly"];
+
+const DEFAULT_RUN_HOUR = 6;
+
+// Track if schema has been ensured
+let schemaEnsured = false;
+
+async function ensureSchema() {
+  if (schemaEnsured) return;
+
+  // Run migrations which will create the audit_schedules tables
+  await initializeDatabase();
+  schemaEnsured = true;
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Validate the editable fields of a schedule from a request body. Returns
+ * the fields present, or an error message.
+ */
+export function parseScheduleFields(body: Record<string, unknown>): UpdateScheduleInput | string {
+  const fields: UpdateScheduleInput = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string" || !body.name.trim()) return "name must be a non-empty string";
+    fields.name = body.name.trim();
+  }
+  if (body.frequency !== undefined) {
+    if (!SCHEDULE_FREQUENCIES.includes(body.frequency as ScheduleFrequency)) {
+      return `frequency must be one of: ${SCHEDULE_FREQUENCIES.join(", ")}`;
+    }
+    fields.frequency = body.frequency as ScheduleFrequency;
+  }
+  if (body.runHour !== undefined) {
+    const runHour = Number(body.runHour);
+    if (!Number.isInteger(runHour) || runHour < 0 || runHour > 23) {
+      return "runHour must be an hour from 0 to 23 (UTC)";
+    }
+    fields.runHour = runHour;
+  }
+  if (body.scoringProfile !== undefined) {
+    fields.scoringProfile = (body.scoringProfile as string | null) || null;
+  }
+  if (body.alertRules !== undefined) {
+    const rules = parseAlertRules(body.alertRules);
+    if (typeof rules === "string") return rules;
+    fields.alertRules = rules;
+  }
+  if (body.notifiers !== undefined) {
+    const notifiers = parseNotifierConfigs(body.notifiers);
+    if (typeof notifiers === "string") return notifiers;
+    fields.notifiers = notifiers;
+  }
+  if (body.enabled !== undefined) {
+    fields.enabled = Boolean(body.enabled);
+  }
+
+  return fields;
+}
+
+// -----------------------------------------------------------------------------
+// Run times
+// -----------------------------------------------------------------------------
+
+/**
+ * First time a new schedule is due: the next runHour (UTC) after now
+ */
+export function firstRunAt(runHour: number, now = new Date()): Date {
+  const next = new Date(now);
+  next.setUTCHours(runHour, 0, 0, 0);
+  if (next <= now) next.setUTCDate(next.getUTCDate() + 1);
+  return next;
+}
+
+/**
+ * Next time a schedule is due after a run that was due at `dueAt`. Steps
+ * from the due time rather than now, so runs stay on the same weekday or day
+ * of the month; periods missed while nothing was running are skipped.
+ */
+export function nextRunAfter(
+  dueAt: Date,
+  frequency: ScheduleFrequency,
+  runHour: number,
+  now = new Date()
+): Date {
+  let next = new Date(dueAt);
+  next.setUTCHours(runHour, 0, 0, 0);
+  for (let step = 1; next <= now; step++) {
+    if (frequency === "monthly") {
+      // Clamp to the end of shorter months (Jan 31 -> Feb 28 -> Mar 31)
+      const year = dueAt.getUTCFullYear();
+      const month = dueAt.getUTCMonth() + step;
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      next = new Date(Date.UTC(year, month, Math.min(dueAt.getUTCDate(), lastDay), runHour));
+    } else {
+      next.setUTCDate(next.getUTCDate() + (frequency === "daily" ? 1 : 7));
+    }
+  }
+  return next;
+}
+
+// -----------------------------------------------------------------------------
+// Schedules
+// -----------------------------------------------------------------------------
+
+/**
+ * Create a schedule, first due at the next runHour
+ */
+export async function createSchedule(input: CreateScheduleInput): Promise<AuditSchedule> {
+  await ensureSchema();
+
+  const id = generateId("sched");
+  const now = new Date().toISOString();
+  const runHour = input.runHour ?? DEFAULT_RUN_HOUR;
+
+  await db.execute({
+    sql: `INSERT INTO audit_schedules
+          (id, name, target_type, target, frequency, run_hour, scoring_profile,
+           alert_rules, notifiers, enabled, next_run_at, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      id,
+      input.name,
+      input.targetType,
+      input.target,
+      input.frequency,
+      runHour,
+      input.scoringProfile || null,
+      JSON.stringify(input.alertRules),
+      JSON.stringify(input.notifiers),
+      input.enabled === false ? 0 : 1,
+      firstRunAt(runHour).toISOString(),
+      now,
+      now,
+    ],
+  });
+
+  console.log(`[Schedules] Created ${input.frequency} schedule ${id} for ${input.targetType} ${input.target}`);
+
+  const schedule = await getSchedule(id);
+  if (!schedule) {
+    throw new Error("Failed to create schedule");
+  }
+  return schedule;
+}
+
+/**
+ * Get a schedule by ID
+ */
+export async function getSchedule(id: string): Promise<AuditSchedule | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM audit_schedules WHERE id = ?`,
+    args: [id],
+  });
+
+  return result.rows.length > 0 ? mapRowToSchedule(result.rows[0]) : null;
+}
+
+/**
+ * List all schedules, soonest due first
+ */
+export async function listSchedules(): Promise<AuditSchedule[]> {
+  await ensureSchema();
+
+  const result = await db.execute(
+    `SELECT * FROM audit_schedules ORDER BY enabled DESC, next_run_at ASC`
+  );
+
+  return result.rows.map(mapRowToSchedule);
+}
+
+/**
+ * Update a schedule. Changing the frequency or hour moves the next run.
+ */
+export async function updateSchedule(
+  id: string,
+  updates: UpdateScheduleInput
+): Promise<AuditSchedule | null> {
+  await ensureSchema();
+
+  const existing = await getSchedule(id);
+  if (!existing) return null;
+
+  const setClauses: string[] = [];
+  const args: (string | number | null)[] = [];
+
+  if (updates.name !== undefined) {
+    setClauses.push("name = ?");
+    args.push(updates.name);
+  }
+  if (updates.frequency !== undefined) {
+    setClauses.push("frequency = ?");
+    args.push(updates.frequency);
+  }
+  if (updates.runHour !== undefined) {
+    setClauses.push("run_hour = ?");
+    args.push(updates.runHour);
+  }
+  if (updates.scoringProfile !== undefined) {
+    setClauses.push("scoring_profile = ?");
+    args.push(updates.scoringProfile || null);
+  }
+  if (updates.alertRules !== undefined) {
+    setClauses.push("alert_rules = ?");
+    args.push(JSON.stringify(updates.alertRules));
+  }
+  if (updates.notifiers !== undefined) {
+    setClauses.push("notifiers = ?");
+    args.push(JSON.stringify(updates.notifiers));
+  }
+  if (updates.enabled !== undefined) {
+    setClauses.push("enabled = ?");
+    args.push(updates.enabled ? 1 : 0);
+  }
+
+  const timingChanged =
+    (updates.frequency !== undefined && updates.frequency !== existing.frequency) ||
+    (updates.runHour !== undefined && updates.runHour !== existing.runHour) ||
+    (updates.enabled === true && !existing.enabled);
+  if (timingChanged) {
+    setClauses.push("next_run_at = ?");
+    args.push(firstRunAt(updates.runHour ?? existing.runHour).toISOString());
+  }
+
+  setClauses.push("updated_at = ?");
+  args.push(new Date().toISOString());
+  args.push(id);
+
+  await db.execute({
+    sql: `UPDATE audit_schedules SET ${setClauses.join(", ")} WHERE id = ?`,
+    args,
+  });
+
+  return getSchedule(id);
+}
+
+/**
+ * Delete a schedule with its runs and alerts
+ */
+export async function deleteSchedule(id: string): Promise<boolean> {
+  await ensureSchema();
+
+  const results = await db.batch(
+    [
+      { sql: `DELETE FROM schedule_alerts WHERE schedule_id = ?`, args: [id] },
+      { sql: `DELETE FROM schedule_runs WHERE schedule_id = ?`, args: [id] },
+      { sql: `DELETE FROM audit_schedules WHERE id = ?`, args: [id] },
+    ],
+    "write"
+  );
+
+  return results[2].rowsAffected > 0;
+}
+
+// -----------------------------------------------------------------------------
+// Leases
+// -----------------------------------------------------------------------------
+
+/**
+ * Claim the enabled schedule that has been due longest and isn't leased.
+ * Single statement, so two schedulers can't claim the same schedule.
+ */
+export async function claimDueSchedule(
+  owner: string,
+  leaseMs: number
+): Promise<AuditSchedule | null> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const result = await db.execute({
+    sql: `UPDATE audit_schedules
+          SET lease_owner = ?, lease_expires_at = ?
+          WHERE id = (
+            SELECT id FROM audit_schedules
+            WHERE enabled = 1 AND next_run_at <= ?
+              AND (lease_owner IS NULL OR lease_expires_at <= ?)
+            ORDER BY next_run_at ASC
+            LIMIT 1
+          )
+          RETURNING *`,
+    args: [owner, new Date(Date.now() + leaseMs).toISOString(), now, now],
+  });
+
+  return result.rows.length > 0 ? mapRowToSchedule(result.rows[0]) : null;
+}
+
+/**
+ * Claim a schedule to run it now, whether or not it's due or enabled.
+ * Returns null if it doesn't exist or is already running.
+ */
+export async function claimSchedule(
+  id: string,
+  owner: string,
+  leaseMs: number
+): Promise<AuditSchedule | null> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const result = await db.execute({
+    sql: `UPDATE audit_schedules
+          SET lease_owner = ?, lease_expires_at = ?
+          WHERE id = ? AND (lease_owner IS NULL OR lease_expires_at <= ?)
+          RETURNING *`,
+    args: [owner, new Date(Date.now() + leaseMs).toISOString(), id, now],
+  });
+
+  return result.rows.length > 0 ? mapRowToSchedule(result.rows[0]) : null;
+}
+
+/**
+ * Extend a scheduler's lease. Returns false if it no longer holds it.
+ */
+export async function renewScheduleLease(
+  id: string,
+  owner: string,
+  leaseMs: number
+): Promise<boolean> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `UPDATE audit_schedules SET lease_expires_at = ?
+          WHERE id = ? AND lease_owner = ?`,
+    args: [new Date(Date.now() + leaseMs).toISOString(), id, owner],
+  });
+
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Move a claimed schedule's next run on, so it isn't due again while this
+ * run is in progress
+ */
+export async function setScheduleNextRun(
+  id: string,
+  owner: string,
+  nextRunAt: Date
+): Promise<void> {
+  await ensureSchema();
+
+  await db.execute({
+    sql: `UPDATE audit_schedules SET next_run_at = ?, updated_at = ?
+          WHERE id = ? AND lease_owner = ?`,
+    args: [nextRunAt.toISOString(), new Date().toISOString(), id, owner],
+  });
+}
+
+/**
+ * Release a schedule after a run
+ */
+export async function releaseSchedule(id: string, owner: string): Promise<void> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  await db.execute({
+    sql: `UPDATE audit_schedules
+          SET lease_owner = NULL, lease_expires_at = NULL, last_run_at = ?, updated_at = ?
+          WHERE id = ? AND lease_owner = ?`,
+    args: [now, now, id, owner],
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Runs
+// -----------------------------------------------------------------------------
+
+export async function createRun(
+  scheduleId: string,
+  triggeredBy: ScheduleRun["triggeredBy"]
+): Promise<ScheduleRun> {
+  await ensureSchema();
+
+  const id = generateId("run");
+  const now = new Date().toISOString();
+
+  await db.execute({
+    sql: `INSERT INTO schedule_runs (id, schedule_id, status, triggered_by, started_at)
+          VALUES (?, ?, 'running', ?, ?)`,
+    args: [id, scheduleId, triggeredBy, now],
+  });
+
+  return {
+    id,
+    scheduleId,
+    status: "running",
+    triggeredBy,
+    domainsTotal: 0,
+    domainsCompleted: 0,
+    domainsFailed: 0,
+    alertsTriggered: 0,
+    error: null,
+    startedAt: now,
+    completedAt: null,
+  };
+}
+
+export async function updateRun(id: string, updates: UpdateRunInput): Promise<void> {
+  await ensureSchema();
+
+  const columns: Record<keyof UpdateRunInput, string> = {
+    status: "status",
+    domainsTotal: "domains_total",
+    domainsCompleted: "domains_completed",
+    domainsFailed: "domains_failed",
+    alertsTriggered: "alerts_triggered",
+    error: "error",
+    completedAt: "completed_at",
+  };
+
+  const setClauses: string[] = [];
+  const args: (string | number | null)[] = [];
+  for (const [key, column] of Object.entries(columns)) {
+    const value = updates[key as keyof UpdateRunInput];
+    if (value !== undefined) {
+      setClauses.push(`${column} = ?`);
+      args.push(value);
+    }
+  }
+  if (setClauses.length === 0) return;
+
+  args.push(id);
+  await db.execute({
+    sql: `UPDATE schedule_runs SET ${setClauses.join(", ")} WHERE id = ?`,
+    args,
+  });
+}
+
+/**
+ * Recent runs of a schedule, newest first
+ */
+export async function listRuns(scheduleId: string, limit = 20): Promise<ScheduleRun[]> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM schedule_runs WHERE schedule_id = ? ORDER BY started_at DESC LIMIT ?`,
+    args: [scheduleId, limit],
+  });
+
+  return result.rows.map(mapRowToRun);
+}
+
+/**
+ * Mark runs whose scheduler went away (lease expired or released without
+ * finishing the run) as interrupted
+ */
+export async function markInterruptedRuns(): Promise<number> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const result = await db.execute({
+    sql: `UPDATE schedule_runs
+          SET status = 'interrupted', completed_at = ?
+          WHERE status = 'running' AND schedule_id IN (
+            SELECT id FROM audit_schedules
+            WHERE lease_owner IS NULL OR lease_expires_at <= ?
+          )`,
+    args: [now, now],
+  });
+
+  if (result.rowsAffected > 0) {
+    console.log(`[Schedules] Marked ${result.rowsAffected} run(s) as interrupted`);
+  }
+  return result.rowsAffected;
+}
+
+// -----------------------------------------------------------------------------
+// Alerts
+// -----------------------------------------------------------------------------
+
+export async function recordAlerts(
+  alerts: Array<Omit<ScheduleAlert, "id" | "createdAt">>
+): Promise<void> {
+  await ensureSchema();
+  if (alerts.length === 0) return;
+
+  const now = new Date().toISOString();
+  await db.batch(
+    alerts.map((alert) => ({
+      sql: `INSERT INTO schedule_alerts
+            (id, schedule_id, run_id, domain, audit_id, previous_audit_id, rule, message, deliveries, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      args: [
+        generateId("alert"),
+        alert.scheduleId,
+        alert.runId,
+        alert.domain,
+        alert.auditId,
+        alert.previousAuditId,
+        alert.rule,
+        alert.message,
+        JSON.stringify(alert.deliveries),
+        now,
+      ],
+    })),
+    "write"
+  );
+}
+
+/**
+ * Recent alerts, newest first, optionally for one schedule
+ */
+export async function listAlerts(
+  options: { scheduleId?: string; limit?: number } = {}
+): Promise<ScheduleAlert[]> {
+  await ensureSchema();
+
+  const { scheduleId, limit = 50 } = options;
+  const result = await db.execute({
+    sql: `SELECT * FROM schedule_alerts
+          ${scheduleId ? "WHERE schedule_id = ?" : ""}
+          ORDER BY created_at DESC
+          LIMIT ?`,
+    args: scheduleId ? [scheduleId, limit] : [limit],
+  });
+
+  return result.rows.map(mapRowToAlert);
+}
+
+// -----------------------------------------------------------------------------
+// Row mapping
+// -----------------------------------------------------------------------------
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  try {
+    return value ? (JSON.parse(value as string) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function mapRowToSchedule(row: Record<string, unknown>): AuditSchedule {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    targetType: row.target_type as ScheduleTargetType,
+    target: row.target as string,
+    frequency: row.frequency as ScheduleFrequency,
+    runHour: row.run_hour as number,
+    scoringProfile: (row.scoring_profile as string | null) ?? null,
+    alertRules: parseJson<AlertRule[]>(row.alert_rules, []),
+    notifiers: parseJson<NotifierConfig[]>(row.notifiers, []),
+    enabled: Boolean(row.enabled),
+    nextRunAt: row.next_run_at as string,
+    lastRunAt: row.last_run_at as string | null,
+    leaseOwner: row.lease_owner as string | null,
+    leaseExpiresAt: row.lease_expires_at as string | null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function mapRowToRun(row: Record<string, unknown>): ScheduleRun {
+  return {
+    id: row.id as string,
+    scheduleId: row.schedule_id as string,
+    status: row.status as ScheduleRun["status"],
+    triggeredBy: row.triggered_by as ScheduleRun["triggeredBy"],
+    domainsTotal: (row.domains_total as number) || 0,
+    domainsCompleted: (row.domains_completed as number) || 0,
+    domainsFailed: (row.domains_failed as number) || 0,
+    alertsTriggered: (row.alerts_triggered as number) || 0,
+    error: row.error as string | null,
+    startedAt: row.started_at as string,
+    completedAt: row.completed_at as string | null,
+  };
+}
+
+function mapRowToAlert(row: Record<string, unknown>): ScheduleAlert {
+  return {
+    id: row.id as string,
+    scheduleId: row.schedule_id as string,
+    runId: row.run_id as string,
+    domain: row.domain as string,
+    auditId: row.audit_id as string,
+    previousAuditId: row.previous_audit_id as string | null,
+    rule: row.rule as AlertRuleType,
+    message: row.message as string,
+    deliveries: parseJson<DeliveryResult[]>(row.deliveries, []),
+    createdAt: row.created_at as string,
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * Audit Scheduler
+ *
+ * Cron-style runner for recurring re-audits. Every SCHEDULER_POLL_MS it
+ * claims due schedules (under a lease, so several processes can run the
+ * scheduler safely), re-audits the schedule's domains through the audit job
+ * queue, and checks each fresh audit against the previous one with the
+ * schedule's alert rules. Alerts that fire are stored and sent to the
+ * schedule's notifiers.
+ *
+ * Started from src/instrumentation.ts unless SCHEDULER_ENABLED=false;
+ * POST /api/admin/schedules/tick runs one pass for an external cron.
+ */
+
+import {
+  claimDueSchedule,
+  claimSchedule,
+  createRun,
+  markInterruptedRuns,
+  nextRunAfter,
+  recordAlerts,
+  releaseSchedule,
+  renewScheduleLease,
+  setScheduleNextRun,
+  updateRun,
+  type AuditSchedule,
+  type ScheduleRun,
+} from "./schedule-storage";
+import { cancelJob, createJob, getJob, FINISHED_JOB_STATUSES, type AuditJob } from "./audit-queue";
+import { startAuditJob } from "./audit-job-worker";
+import { getAuditChanges } from "./audit-history";
+import { loadAudit } from "./audit-storage";
+import { getBatch, listBatchItems } from "./batch-storage";
+import { evaluateAlertRules } from "./alert-rules";
+import { deliverNotification } from "./notifiers";
+
+const SCHEDULER_POLL_MS = 60 * 1000;
+
+// A run renews its lease on the schedule while it works through domains
+const SCHEDULE_LEASE_MS = 10 * 60 * 1000;
+const SCHEDULE_HEARTBEAT_MS = 2 * 60 * 1000;
+
+// How often a run checks on the audit job it's waiting for, and how long
+// it waits (retries included) before giving up on a domain
+const JOB_POLL_MS = 5 * 1000;
+const JOB_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Identifies this process as the lease owner
+const SCHEDULER_ID = `scheduler_${process.pid}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Kept on globalThis so dev reloads don't start a second timer
+const globalForScheduler = globalThis as unknown as {
+  auditScheduler?: { timer: ReturnType<typeof setInterval>; ticking: boolean };
+};
+
+/**
+ * Start the scheduler's timer. Safe to call more than once.
+ */
+export function startScheduler(): void {
+  if (globalForScheduler.auditScheduler) return;
+
+  const state = {
+    ticking: false,
+    timer: setInterval(async () => {
+      if (state.ticking) return;
+      state.ticking = true;
+      try {
+        await runDueSchedules();
+      } finally {
+        state.ticking = false;
+      }
+    }, SCHEDULER_POLL_MS),
+  };
+  // Don't keep the process alive just for the scheduler
+  state.timer.unref?.();
+  globalForScheduler.auditScheduler = state;
+
+  console.log(`[Scheduler] Started (${SCHEDULER_ID}), checking every ${SCHEDULER_POLL_MS / 1000}s`);
+}
+
+/**
+ * Start every due schedule in the background. Returns the runs started.
+ */
+export async function runDueSchedules(): Promise<ScheduleRun[]> {
+  const started: ScheduleRun[] = [];
+
+  try {
+    await markInterruptedRuns();
+
+    let schedule: AuditSchedule | null;
+    while ((schedule = await claimDueSchedule(SCHEDULER_ID, SCHEDULE_LEASE_MS))) {
+      // Move the next run on straight away, so a crash mid-run doesn't re-run it every tick
+      await setScheduleNextRun(
+        schedule.id,
+        SCHEDULER_ID,
+        nextRunAfter(new Date(schedule.nextRunAt), schedule.frequency, schedule.runHour)
+      );
+      started.push(await startRun(schedule, "schedule"));
+    }
+  } catch (error) {
+    console.error("[Scheduler] Failed to start due schedules:", error);
+  }
+
+  return started;
+}
+
+/**
+ * Run a schedule now, outside its timetable. Returns null if it doesn't
+ * exist or is already running.
+ */
+export async function runScheduleNow(scheduleId: string): Promise<ScheduleRun | null> {
+  const schedule = await claimSchedule(scheduleId, SCHEDULER_ID, SCHEDULE_LEASE_MS);
+  if (!schedule) return null;
+  return startRun(schedule, "manual");
+}
+
+async function startRun(
+  schedule: AuditSchedule,
+  triggeredBy: ScheduleRun["triggeredBy"]
+): Promise<ScheduleRun> {
+  const run = await createRun(schedule.id, triggeredBy);
+  console.log(`[Scheduler] Running "${schedule.name}" (${run.id}, ${triggeredBy})`);
+
+  executeRun(schedule, run)
+    .catch(async (error) => {
+      console.error(`[Scheduler] Run ${run.id} failed:`, error);
+      await updateRun(run.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date().toISOString(),
+      });
+    })
+    .finally(() =>
+      releaseSchedule(schedule.id, SCHEDULER_ID).catch((error) => {
+        console.error(`[Scheduler] Failed to release ${schedule.id}:`, error);
+      })
+    );
+
+  return run;
+}
+
+async function executeRun(schedule: AuditSchedule, run: ScheduleRun) {
+  const heartbeat = setInterval(() => {
+    renewScheduleLease(schedule.id, SCHEDULER_ID, SCHEDULE_LEASE_MS).catch((error) => {
+      console.error(`[Scheduler] Heartbeat failed for ${schedule.id}:`, error);
+    });
+  }, SCHEDULE_HEARTBEAT_MS);
+
+  try {
+    const domains = await resolveDomains(schedule);
+    const counts = { domainsCompleted: 0, domainsFailed: 0, alertsTriggered: 0 };
+    await updateRun(run.id, { domainsTotal: domains.length });
+
+    // One domain at a time: scheduled runs aren't urgent, and this keeps them
+    // from crowding out audits someone is waiting on
+    for (const domain of domains) {
+      try {
+        counts.alertsTriggered += await auditDomain(schedule, run, domain);
+        counts.domainsCompleted++;
+      } catch (error) {
+        console.error(`[Scheduler] ${domain} failed in run ${run.id}:`, error);
+        counts.domainsFailed++;
+      }
+      await updateRun(run.id, counts);
+    }
+
+    await updateRun(run.id, {
+      status: "completed",
+      completedAt: new Date().toISOString(),
+    });
+    console.log(
+      `[Scheduler] Run ${run.id} done: ${counts.domainsCompleted}/${domains.length} audited, ${counts.alertsTriggered} alert(s)`
+    );
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function resolveDomains(schedule: AuditSchedule): Promise<string[]> {
+  if (schedule.targetType === "domain") {
+    return [schedule.target];
+  }
+
+  const batch = await getBatch(schedule.target);
+  if (!batch) {
+    throw new Error(`Import batch ${schedule.target} no longer exists`);
+  }
+  const items = await listBatchItems(batch.id);
+  return [...new Set(items.map((item) => item.domain))];
+}
+
+/**
+ * Re-audit one domain and raise alerts against its previous audit.
+ * Returns the number of alerts raised.
+ */
+async function auditDomain(
+  schedule: AuditSchedule,
+  run: ScheduleRun,
+  domain: string
+): Promise<number> {
+  const job = await createJob(domain, { scoringProfile: schedule.scoringProfile });
+  startAuditJob(job.id);
+
+  const finished = await waitForJob(job.id);
+  if (finished.status !== "completed") {
+    throw new Error(finished.error || `Audit ${finished.status}`);
+  }
+
+  const auditId = (finished.result as { auditId?: string } | null)?.auditId;
+  if (!auditId) {
+    throw new Error("Audit finished without a saved audit ID");
+  }
+
+  const comparison = await getAuditChanges(auditId);
+  const previousAuditId = comparison?.changes?.previousAuditId ?? null;
+  if (!previousAuditId) return 0;
+
+  const [current, previous] = await Promise.all([loadAudit(auditId), loadAudit(previousAuditId)]);
+  if (!current?.result || !previous?.result) return 0;
+
+  const alerts = evaluateAlertRules(schedule.alertRules, previous.result, current.result);
+  if (alerts.length === 0) return 0;
+
+  console.log(`[Scheduler] ${alerts.length} alert(s) for ${domain}`);
+
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000";
+  const deliveries = await deliverNotification(schedule.notifiers, {
+    schedule: { id: schedule.id, name: schedule.name },
+    runId: run.id,
+    domain,
+    auditId,
+    previousAuditId,
+    score: { previous: previous.result.overallScore, current: current.result.overallScore },
+    alerts,
+    reportUrl: `${baseUrl}/report/${auditId}`,
+    adminUrl: `${baseUrl}/admin/${auditId}`,
+  });
+
+  await recordAlerts(
+    alerts.map((alert) => ({
+      scheduleId: schedule.id,
+      runId: run.id,
+      domain,
+      auditId,
+      previousAuditId,
+      rule: alert.rule,
+      message: alert.message,
+      deliveries,
+    }))
+  );
+
+  return alerts.length;
+}
+
+async function waitForJob(jobId: string): Promise<AuditJob> {
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+
+  while (true) {
+    const job = await getJob(jobId);
+    if (!job) {
+      throw new Error(`Audit job ${jobId} disappeared`);
+    }
+    if (FINISHED_JOB_STATUSES.includes(job.status)) {
+      return job;
+    }
+    if (Date.now() > deadline) {
+      await cancelJob(jobId);
+      throw new Error(`Audit timed out after ${JOB_TIMEOUT_MS / 60000} minutes`);
+    }
+    await new Promise((r) => setTimeout(r, JOB_POLL_MS));
+  }
+}
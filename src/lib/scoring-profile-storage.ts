@@ -0,0 +1,194 @@
+/**
+ * Scoring Profile Storage
+ *
+ * Named YAML/JSON scoring profiles (weights, rule overrides, DSL rules).
+ * Profiles are compiled on save so a broken profile can never be selected
+ * for an audit.
+ */
+
+import { db, initializeDatabase } from "./db";
+import {
+  compileProfile,
+  DEFAULT_PROFILE,
+  DEFAULT_PROFILE_NAME,
+  type ProfileFormat,
+  type ResolvedProfile,
+} from "@/rules";
+
+export interface ScoringProfile {
+  name: string;
+  description: string | null;
+  format: ProfileFormat;
+  source: string;
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveScoringProfileInput {
+  name: string;
+  format: ProfileFormat;
+  source: string;
+  isDefault?: boolean;
+}
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+// Track if schema has been ensured
+let schemaEnsured = false;
+
+async function ensureSchema() {
+  if (schemaEnsured) return;
+
+  // Run migrations which will create the scoring_profiles table
+  await initializeDatabase();
+  schemaEnsured = true;
+}
+
+/**
+ * Validate a profile name. Returns an error message, or null when valid.
+ */
+export function validateProfileName(name: unknown): string | null {
+  if (typeof name !== "string" || !PROFILE_NAME_PATTERN.test(name)) {
+    return "Profile name must be lowercase letters, numbers, dashes or underscores";
+  }
+  if (name === DEFAULT_PROFILE_NAME) {
+    return `"${DEFAULT_PROFILE_NAME}" is reserved for the built-in profile`;
+  }
+  return null;
+}
+
+/**
+ * List all stored profiles
+ */
+export async function listScoringProfiles(): Promise<ScoringProfile[]> {
+  await ensureSchema();
+
+  const result = await db.execute(
+    `SELECT * FROM scoring_profiles ORDER BY is_default DESC, name ASC`
+  );
+
+  return result.rows.map(mapRowToProfile);
+}
+
+/**
+ * Get a stored profile by name
+ */
+export async function getScoringProfile(name: string): Promise<ScoringProfile | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM scoring_profiles WHERE name = ?`,
+    args: [name],
+  });
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  return mapRowToProfile(result.rows[0]);
+}
+
+/**
+ * Create or replace a profile. Throws if the source doesn't compile.
+ */
+export async function saveScoringProfile(
+  input: SaveScoringProfileInput
+): Promise<ScoringProfile> {
+  await ensureSchema();
+
+  const compiled = compileProfile(input.name, input.source, input.format);
+  const now = new Date().toISOString();
+
+  if (input.isDefault) {
+    await db.execute(`UPDATE scoring_profiles SET is_default = 0 WHERE is_default = 1`);
+  }
+
+  await db.execute({
+    sql: `INSERT INTO scoring_profiles (name, description, format, source, is_default, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?)
+          ON CONFLICT(name) DO UPDATE SET
+            description = excluded.description,
+            format = excluded.format,
+            source = excluded.source,
+            is_default = excluded.is_default,
+            updated_at = excluded.updated_at`,
+    args: [
+      input.name,
+      compiled.description,
+      input.format,
+      input.source,
+      input.isDefault ? 1 : 0,
+      now,
+      now,
+    ],
+  });
+
+  console.log(`[ScoringProfiles] Saved profile ${input.name}`);
+
+  return (await getScoringProfile(input.name))!;
+}
+
+/**
+ * Delete a profile
+ */
+export async function deleteScoringProfile(name: string): Promise<boolean> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `DELETE FROM scoring_profiles WHERE name = ?`,
+    args: [name],
+  });
+
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Resolve the profile an audit should be scored under.
+ *
+ * - a name selects that stored profile ("default" is the built-in one)
+ * - no name falls back to the profile marked default, then the built-in one
+ *
+ * Throws if a named profile doesn't exist.
+ */
+export async function resolveScoringProfile(
+  name?: string | null
+): Promise<ResolvedProfile> {
+  if (name === DEFAULT_PROFILE_NAME) {
+    return DEFAULT_PROFILE;
+  }
+
+  await ensureSchema();
+
+  let profile: ScoringProfile | null;
+  if (name) {
+    profile = await getScoringProfile(name);
+    if (!profile) {
+      throw new Error(`Scoring profile "${name}" not found`);
+    }
+  } else {
+    const result = await db.execute(
+      `SELECT * FROM scoring_profiles WHERE is_default = 1 LIMIT 1`
+    );
+    profile = result.rows.length > 0 ? mapRowToProfile(result.rows[0]) : null;
+  }
+
+  if (!profile) {
+    return DEFAULT_PROFILE;
+  }
+
+  return compileProfile(profile.name, profile.source, profile.format);
+}
+
+// Helper function to map database row to ScoringProfile
+function mapRowToProfile(row: Record<string, unknown>): ScoringProfile {
+  return {
+    name: row.name as string,
+    description: row.description as string | null,
+    format: row.format as ProfileFormat,
+    source: row.source as string,
+    isDefault: Boolean(row.is_default),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
@@ -0,0 +1,556 @@
+/**
+ * Webhook Storage
+ *
+ * Outbound webhook subscriptions and the delivery queue behind them. Every
+ * event a subscription listens to becomes one delivery row, which the
+ * dispatcher in webhooks.ts claims under a lease, sends, and either marks
+ * succeeded or schedules for another attempt. Rows are kept afterwards as
+ * the subscription's delivery log.
+ */
+
+import { randomBytes } from "crypto";
+import { db, initializeDatabase } from "./db";
+
+export type WebhookEventType =
+  | "audit.completed"
+  | "audit.failed"
+  | "batch.completed"
+  | "lead.created"
+  | "webhook.test";
+
+// Events a subscription can listen to. webhook.test is only ever sent to
+// the subscription being tested.
+export const WEBHOOK_EVENT_TYPES: Exclude<WebhookEventType, "webhook.test">[] = [
+  "audit.completed",
+  "audit.failed",
+  "batch.completed",
+  "lead.created",
+];
+
+export type WebhookDeliveryStatus = "pending" | "delivering" | "succeeded" | "failed";
+
+export interface WebhookSubscription {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt: string | null;
+}
+
+export interface WebhookSubscriptionFields {
+  name?: string;
+  url?: string;
+  events?: WebhookEventType[];
+  enabled?: boolean;
+}
+
+export interface DeliveryAttemptResult {
+  ok: boolean;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number;
+  // Don't retry, e.g. because the subscription was disabled
+  final?: boolean;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 6;
+
+// Backoff between attempts: 30s, 60s, 120s, ... capped at 1 hour
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+export function getWebhookMaxAttempts(): number {
+  const value = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "", 10);
+  return value > 0 ? value : DEFAULT_MAX_ATTEMPTS;
+}
+
+export function getWebhookRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
+
+// Track if schema has been ensured
+let schemaEnsured = false;
+
+// Schema lives in migrations/018_webhooks.sql
+async function ensureSchema() {
+  if (schemaEnsured) return;
+  await initializeDatabase();
+  schemaEnsured = true;
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * A subscription as listed in the admin: the secret is only shown in full
+ * when it is created or rotated
+ */
+export function maskWebhookSecret(subscription: WebhookSubscription): WebhookSubscription {
+  return { ...subscription, secret: `${subscription.secret.slice(0, 10)}…` };
+}
+
+/**
+ * Validate a create/update body. Returns the fields, or an error message.
+ * `creating` requires a URL and at least one event.
+ */
+export function parseWebhookFields(
+  body: Record<string, unknown>,
+  creating: boolean
+): WebhookSubscriptionFields | string {
+  const fields: WebhookSubscriptionFields = {};
+
+  if (body.url !== undefined || creating) {
+    try {
+      const url = new URL(String(body.url ?? ""));
+      if (url.protocol !== "https:" && url.protocol !== "http:") {
+        return "Webhook URL must be http(s)";
+      }
+      fields.url = url.toString();
+    } catch {
+      return "Webhook URL is not a valid URL";
+    }
+  }
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string") return "name must be a string";
+    fields.name = body.name.trim().slice(0, 100);
+  }
+
+  if (body.events !== undefined || creating) {
+    if (
+      !Array.isArray(body.events) ||
+      body.events.length === 0 ||
+      body.events.some((event) => !WEBHOOK_EVENT_TYPES.includes(event))
+    ) {
+      return `events must be a non-empty list of: ${WEBHOOK_EVENT_TYPES.join(", ")}`;
+    }
+    fields.events = [...new Set(body.events as WebhookEventType[])];
+  }
+
+  if (body.enabled !== undefined) {
+    fields.enabled = Boolean(body.enabled);
+  }
+
+  return fields;
+}
+
+// -----------------------------------------------------------------------------
+// Subscriptions
+// -----------------------------------------------------------------------------
+
+export async function createWebhookSubscription(
+  input: Required<Pick<WebhookSubscriptionFields, "url" | "events">> &
+    WebhookSubscriptionFields & { secret?: string; createdBy?: string | null }
+): Promise<WebhookSubscription> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const subscription: WebhookSubscription = {
+    id: generateId("whk"),
+    name: input.name || new URL(input.url).host,
+    url: input.url,
+    secret: input.secret || generateWebhookSecret(),
+    events: input.events,
+    enabled: input.enabled ?? true,
+    createdBy: input.createdBy ?? null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await db.execute({
+    sql: `INSERT INTO webhook_subscriptions
+          (id, name, url, secret, events, enabled, created_by, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    args: [
+      subscription.id,
+      subscription.name,
+      subscription.url,
+      subscription.secret,
+      JSON.stringify(subscription.events),
+      subscription.enabled ? 1 : 0,
+      subscription.createdBy,
+      now,
+      now,
+    ],
+  });
+
+  return subscription;
+}
+
+export async function getWebhookSubscription(id: string): Promise<WebhookSubscription | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM webhook_subscriptions WHERE id = ?`,
+    args: [id],
+  });
+  return result.rows[0] ? mapRowToSubscription(result.rows[0]) : null;
+}
+
+export async function listWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+  await ensureSchema();
+
+  const result = await db.execute(`SELECT * FROM webhook_subscriptions ORDER BY created_at DESC`);
+  return result.rows.map(mapRowToSubscription);
+}
+
+/**
+ * Enabled subscriptions listening to an event type
+ */
+export async function listSubscribersForEvent(
+  type: WebhookEventType
+): Promise<WebhookSubscription[]> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM webhook_subscriptions
+          WHERE enabled = 1 AND EXISTS (SELECT 1 FROM json_each(events) WHERE value = ?)`,
+    args: [type],
+  });
+  return result.rows.map(mapRowToSubscription);
+}
+
+export async function updateWebhookSubscription(
+  id: string,
+  updates: WebhookSubscriptionFields & { secret?: string }
+): Promise<WebhookSubscription | null> {
+  await ensureSchema();
+
+  const sets: string[] = [];
+  const args: (string | number)[] = [];
+
+  if (updates.name !== undefined) {
+    sets.push("name = ?");
+    args.push(updates.name);
+  }
+  if (updates.url !== undefined) {
+    sets.push("url = ?");
+    args.push(updates.url);
+  }
+  if (updates.secret !== undefined) {
+    sets.push("secret = ?");
+    args.push(updates.secret);
+  }
+  if (updates.events !== undefined) {
+    sets.push("events = ?");
+    args.push(JSON.stringify(updates.events));
+  }
+  if (updates.enabled !== undefined) {
+    sets.push("enabled = ?");
+    args.push(updates.enabled ? 1 : 0);
+  }
+
+  if (sets.length > 0) {
+    sets.push("updated_at = ?");
+    args.push(new Date().toISOString());
+    await db.execute({
+      sql: `UPDATE webhook_subscriptions SET ${sets.join(", ")} WHERE id = ?`,
+      args: [...args, id],
+    });
+  }
+
+  return getWebhookSubscription(id);
+}
+
+/**
+ * Delete a subscription and its delivery log
+ */
+export async function deleteWebhookSubscription(id: string): Promise<boolean> {
+  await ensureSchema();
+
+  const results = await db.batch(
+    [
+      { sql: `DELETE FROM webhook_deliveries WHERE subscription_id = ?`, args: [id] },
+      { sql: `DELETE FROM webhook_subscriptions WHERE id = ?`, args: [id] },
+    ],
+    "write"
+  );
+  return results[1].rowsAffected > 0;
+}
+
+// -----------------------------------------------------------------------------
+// Deliveries
+// -----------------------------------------------------------------------------
+
+/**
+ * Queue an event for each subscription. Deliveries are due immediately.
+ */
+export async function enqueueDeliveries(
+  subscriptionIds: string[],
+  event: { id: string; type: WebhookEventType; payload: string }
+): Promise<WebhookDelivery[]> {
+  await ensureSchema();
+  if (subscriptionIds.length === 0) return [];
+
+  const now = new Date().toISOString();
+  const maxAttempts = getWebhookMaxAttempts();
+  const deliveries: WebhookDelivery[] = subscriptionIds.map((subscriptionId) => ({
+    id: generateId("whd"),
+    subscriptionId,
+    eventId: event.id,
+    eventType: event.type,
+    payload: event.payload,
+    status: "pending",
+    attempts: 0,
+    maxAttempts,
+    nextAttemptAt: now,
+    responseStatus: null,
+    responseBody: null,
+    error: null,
+    durationMs: null,
+    createdAt: now,
+    updatedAt: now,
+    deliveredAt: null,
+  }));
+
+  await db.batch(
+    deliveries.map((delivery) => ({
+      sql: `INSERT INTO webhook_deliveries
+            (id, subscription_id, event_id, event_type, payload, status, attempts, max_attempts,
+             next_attempt_at, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?, ?)`,
+      args: [
+        delivery.id,
+        delivery.subscriptionId,
+        delivery.eventId,
+        delivery.eventType,
+        delivery.payload,
+        maxAttempts,
+        now,
+        now,
+        now,
+      ],
+    })),
+    "write"
+  );
+
+  return deliveries;
+}
+
+/**
+ * Claim the next due delivery: a pending one whose retry time has come, or
+ * one whose previous sender's lease expired mid-attempt
+ */
+export async function claimDueDelivery(
+  owner: string,
+  leaseMs: number
+): Promise<WebhookDelivery | null> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const result = await db.execute({
+    sql: `UPDATE webhook_deliveries
+          SET status = 'delivering', attempts = attempts + 1, lease_owner = ?, lease_expires_at = ?, updated_at = ?
+          WHERE id = (
+            SELECT id FROM webhook_deliveries
+            WHERE (status = 'pending' AND next_attempt_at <= ?)
+               OR (status = 'delivering' AND lease_expires_at <= ?)
+            ORDER BY next_attempt_at ASC
+            LIMIT 1
+          )
+          RETURNING *`,
+    args: [owner, new Date(Date.now() + leaseMs).toISOString(), now, now, now],
+  });
+
+  return result.rows.length > 0 ? mapRowToDelivery(result.rows[0]) : null;
+}
+
+/**
+ * Claim a specific pending delivery, e.g. a test event to send right away
+ */
+export async function claimDelivery(
+  id: string,
+  owner: string,
+  leaseMs: number
+): Promise<WebhookDelivery | null> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const result = await db.execute({
+    sql: `UPDATE webhook_deliveries
+          SET status = 'delivering', attempts = attempts + 1, lease_owner = ?, lease_expires_at = ?, updated_at = ?
+          WHERE id = ? AND status = 'pending'
+          RETURNING *`,
+    args: [owner, new Date(Date.now() + leaseMs).toISOString(), now, id],
+  });
+
+  return result.rows.length > 0 ? mapRowToDelivery(result.rows[0]) : null;
+}
+
+/**
+ * Record the outcome of an attempt. A failed attempt goes back to pending
+ * with backoff until max_attempts is reached, then the delivery is failed.
+ */
+export async function recordDeliveryAttempt(
+  delivery: WebhookDelivery,
+  owner: string,
+  attempt: DeliveryAttemptResult
+): Promise<WebhookDelivery | null> {
+  await ensureSchema();
+
+  const now = new Date();
+  const retry = !attempt.ok && !attempt.final && delivery.attempts < delivery.maxAttempts;
+  const status: WebhookDeliveryStatus = attempt.ok ? "succeeded" : retry ? "pending" : "failed";
+  const nextAttemptAt = retry
+    ? new Date(now.getTime() + getWebhookRetryDelayMs(delivery.attempts)).toISOString()
+    : null;
+
+  const result = await db.execute({
+    sql: `UPDATE webhook_deliveries
+          SET status = ?, next_attempt_at = ?, lease_owner = NULL, lease_expires_at = NULL,
+              response_status = ?, response_body = ?, error = ?, duration_ms = ?,
+              updated_at = ?, delivered_at = ?
+          WHERE id = ? AND lease_owner = ?
+          RETURNING *`,
+    args: [
+      status,
+      nextAttemptAt,
+      attempt.responseStatus,
+      attempt.responseBody?.slice(0, 1000) ?? null,
+      attempt.error,
+      attempt.durationMs,
+      now.toISOString(),
+      attempt.ok ? now.toISOString() : null,
+      delivery.id,
+      owner,
+    ],
+  });
+
+  return result.rows.length > 0 ? mapRowToDelivery(result.rows[0]) : null;
+}
+
+/**
+ * A subscription's deliveries, newest first
+ */
+export async function listDeliveries(
+  subscriptionId: string,
+  options: { limit?: number; offset?: number; status?: WebhookDeliveryStatus } = {}
+): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+  await ensureSchema();
+
+  const where = options.status
+    ? `WHERE subscription_id = ? AND status = ?`
+    : `WHERE subscription_id = ?`;
+  const args = options.status ? [subscriptionId, options.status] : [subscriptionId];
+  const limit = Math.min(Math.max(options.limit ?? 20, 1), 100);
+  const offset = Math.max(options.offset ?? 0, 0);
+
+  const [countResult, result] = await Promise.all([
+    db.execute({ sql: `SELECT COUNT(*) as count FROM webhook_deliveries ${where}`, args }),
+    db.execute({
+      sql: `SELECT * FROM webhook_deliveries ${where}
+            ORDER BY created_at DESC, id DESC
+            LIMIT ? OFFSET ?`,
+      args: [...args, limit, offset],
+    }),
+  ]);
+
+  return {
+    deliveries: result.rows.map(mapRowToDelivery),
+    total: (countResult.rows[0]?.count as number) || 0,
+  };
+}
+
+/**
+ * Delivery counts per status for each subscription
+ */
+export async function getDeliveryStats(): Promise<
+  Record<string, Partial<Record<WebhookDeliveryStatus, number>>>
+> {
+  await ensureSchema();
+
+  const result = await db.execute(
+    `SELECT subscription_id, status, COUNT(*) as count FROM webhook_deliveries GROUP BY subscription_id, status`
+  );
+
+  const stats: Record<string, Partial<Record<WebhookDeliveryStatus, number>>> = {};
+  for (const row of result.rows) {
+    const id = row.subscription_id as string;
+    stats[id] = { ...stats[id], [row.status as WebhookDeliveryStatus]: Number(row.count) };
+  }
+  return stats;
+}
+
+/**
+ * Send a failed delivery again from scratch
+ */
+export async function redeliver(subscriptionId: string, deliveryId: string): Promise<boolean> {
+  await ensureSchema();
+
+  const now = new Date().toISOString();
+  const result = await db.execute({
+    sql: `UPDATE webhook_deliveries
+          SET status = 'pending', attempts = 0, next_attempt_at = ?, updated_at = ?
+          WHERE id = ? AND subscription_id = ? AND status = 'failed'`,
+    args: [now, now, deliveryId, subscriptionId],
+  });
+  return result.rowsAffected > 0;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function mapRowToSubscription(row: Record<string, unknown>): WebhookSubscription {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    url: row.url as string,
+    secret: row.secret as string,
+    events: JSON.parse(row.events as string) as WebhookEventType[],
+    enabled: Boolean(row.enabled),
+    createdBy: row.created_by as string | null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function mapRowToDelivery(row: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: row.id as string,
+    subscriptionId: row.subscription_id as string,
+    eventId: row.event_id as string,
+    eventType: row.event_type as WebhookEventType,
+    payload: row.payload as string,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: Number(row.attempts ?? 0),
+    maxAttempts: Number(row.max_attempts ?? DEFAULT_MAX_ATTEMPTS),
+    nextAttemptAt: row.next_attempt_at as string | null,
+    responseStatus: (row.response_status as number | null) ?? null,
+    responseBody: row.response_body as string | null,
+    error: row.error as string | null,
+    durationMs: (row.duration_ms as number | null) ?? null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+    deliveredAt: row.delivered_at as string | null,
+  };
+}
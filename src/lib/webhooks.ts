@@ -0,0 +1,329 @@
+/**
+ * Outbound Webhooks
+ *
+ * Events (an audit completing or failing, a batch finishing, a new lead)
+ * are queued as one delivery per listening subscription and POSTed as JSON:
+ *
+ *   { "id": "evt_...", "type": "audit.completed", "createdAt": "...", "data": { ... } }
+ *
+ * Each request is signed with the subscription's secret:
+ *
+ *   X-HostAI-Timestamp: <unix seconds>
+ *   X-HostAI-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *
+ * A non-2xx response or a timeout is retried with exponential backoff (see
+ * webhook-storage.ts). Deliveries are sent as soon as they are queued, and
+ * every WEBHOOK_POLL_MS the dispatcher picks up retries that have come due.
+ * Started from src/instrumentation.ts unless WEBHOOKS_ENABLED=false;
+ * POST /api/admin/schedules/tick also delivers due webhooks.
+ *
+ * Webhook URLs must resolve to public addresses - checked when a webhook is
+ * saved and again before each delivery - and redirects aren't followed, so a
+ * webhook can't reach the server's own network or cloud metadata endpoints.
+ * WEBHOOK_ALLOW_PRIVATE_URLS=true lifts this for local development.
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import {
+  claimDelivery,
+  claimDueDelivery,
+  enqueueDeliveries,
+  getWebhookSubscription,
+  listSubscribersForEvent,
+  recordDeliveryAttempt,
+  type DeliveryAttemptResult,
+  type WebhookDelivery,
+  type WebhookEventType,
+  type WebhookSubscription,
+} from "./webhook-storage";
+
+export interface WebhookEvent<T = Record<string, unknown>> {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: T;
+}
+
+const WEBHOOK_POLL_MS = 15 * 1000;
+const TIMEOUT_MS = 10 * 1000;
+
+// Long enough for one attempt; an expired lease means the sender died
+const DELIVERY_LEASE_MS = 60 * 1000;
+
+// Deliveries sent per drain, so one pass can't run forever
+const MAX_DELIVERIES_PER_DRAIN = 100;
+
+// Loopback, private, link-local (incl. 169.254.169.254), shared, multicast
+// and reserved ranges. IPv4-mapped IPv6 addresses are checked against the
+// IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// Identifies this process as the lease owner
+const DISPATCHER_ID = `webhooks_${process.pid}_${Math.random().toString(36).slice(2, 8)}`;
+
+// Kept on globalThis so dev reloads don't start a second timer
+const globalForWebhooks = globalThis as unknown as {
+  webhookDispatcher?: { timer: ReturnType<typeof setInterval> };
+  webhookDraining?: Promise<number> | null;
+};
+
+/**
+ * Start the dispatcher's timer. Safe to call more than once.
+ */
+export function startWebhookDispatcher(): void {
+  if (globalForWebhooks.webhookDispatcher) return;
+
+  const timer = setInterval(() => {
+    void deliverDueWebhooks();
+  }, WEBHOOK_POLL_MS);
+  // Don't keep the process alive just for the dispatcher
+  timer.unref?.();
+  globalForWebhooks.webhookDispatcher = { timer };
+
+  console.log(`[Webhooks] Dispatcher started (${DISPATCHER_ID}), checking every ${WEBHOOK_POLL_MS / 1000}s`);
+}
+
+/**
+ * Queue an event for every subscription listening to it and start sending.
+ * Never throws - a broken webhook setup mustn't fail the audit, batch or
+ * lead capture that raised the event.
+ */
+export async function emitWebhookEvent(
+  type: Exclude<WebhookEventType, "webhook.test">,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const subscriptions = await listSubscribersForEvent(type);
+    if (subscriptions.length === 0) return;
+
+    const event = createEvent(type, data);
+    await enqueueDeliveries(
+      subscriptions.map((subscription) => subscription.id),
+      { id: event.id, type, payload: JSON.stringify(event) }
+    );
+
+    void deliverDueWebhooks();
+  } catch (error) {
+    console.error(`[Webhooks] Failed to queue ${type}:`, error);
+  }
+}
+
+/**
+ * Send a webhook.test event to one subscription right away and return the
+ * logged delivery. It is retried like any other delivery if it fails.
+ */
+export async function sendTestEvent(subscription: WebhookSubscription): Promise<WebhookDelivery | null> {
+  const event = createEvent("webhook.test", {
+    subscriptionId: subscription.id,
+    message: "Test event from HostAI Scan",
+  });
+  const [queued] = await enqueueDeliveries([subscription.id], {
+    id: event.id,
+    type: event.type,
+    payload: JSON.stringify(event),
+  });
+
+  const delivery = await claimDelivery(queued.id, DISPATCHER_ID, DELIVERY_LEASE_MS);
+  return delivery ? attemptDelivery(delivery) : null;
+}
+
+/**
+ * Send every delivery that is due. Concurrent calls in one process share a
+ * single pass. Returns how many deliveries were attempted.
+ */
+export function deliverDueWebhooks(): Promise<number> {
+  if (!globalForWebhooks.webhookDraining) {
+    globalForWebhooks.webhookDraining = drain().finally(() => {
+      globalForWebhooks.webhookDraining = null;
+    });
+  }
+  return globalForWebhooks.webhookDraining;
+}
+
+async function drain(): Promise<number> {
+  let attempted = 0;
+  try {
+    while (attempted < MAX_DELIVERIES_PER_DRAIN) {
+      const delivery = await claimDueDelivery(DISPATCHER_ID, DELIVERY_LEASE_MS);
+      if (!delivery) break;
+      await attemptDelivery(delivery);
+      attempted++;
+    }
+  } catch (error) {
+    console.error("[Webhooks] Delivery pass failed:", error);
+  }
+  return attempted;
+}
+
+/**
+ * Payload of audit.completed, shared by the job and batch workers
+ */
+export function auditCompletedData(input: {
+  jobId: string | null;
+  auditId: string;
+  domain: string;
+  result: unknown;
+  batchId?: string | null;
+}): Record<string, unknown> {
+  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000";
+  return {
+    jobId: input.jobId,
+    auditId: input.auditId,
+    domain: input.domain,
+    overallScore: (input.result as { overallScore?: number } | null)?.overallScore ?? null,
+    batchId: input.batchId ?? null,
+    reportUrl: `${baseUrl}/report/${input.auditId}`,
+    adminUrl: `${baseUrl}/admin/${input.auditId}`,
+  };
+}
+
+/**
+ * Why a webhook URL can't be used, or null when it can: it must be http(s)
+ * and every address its host resolves to must be public
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Webhook URL is not a valid URL";
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return "Webhook URL must be http(s)";
+  }
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true") return null;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, "");
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((entry) => entry.address);
+  } catch {
+    return `Webhook host ${host} could not be resolved`;
+  }
+
+  const blocked = addresses.find((address) =>
+    PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4")
+  );
+  return blocked ? `Webhook URL resolves to a private address (${blocked})` : null;
+}
+
+/**
+ * Signature of a payload as sent in X-HostAI-Signature
+ */
+export function signWebhookPayload(secret: string, timestamp: number, payload: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex")}`;
+}
+
+async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+  const subscription = await getWebhookSubscription(delivery.subscriptionId);
+
+  let result: DeliveryAttemptResult;
+  if (!subscription || (!subscription.enabled && delivery.eventType !== "webhook.test")) {
+    result = {
+      ok: false,
+      responseStatus: null,
+      responseBody: null,
+      error: subscription ? "Subscription is disabled" : "Subscription was deleted",
+      durationMs: 0,
+      final: true,
+    };
+  } else {
+    result = await send(subscription, delivery);
+  }
+
+  const updated = await recordDeliveryAttempt(delivery, DISPATCHER_ID, result);
+  if (updated?.status === "failed") {
+    console.warn(
+      `[Webhooks] Gave up on ${delivery.eventType} to ${subscription?.url ?? delivery.subscriptionId} after ${delivery.attempts} attempt(s): ${result.error}`
+    );
+  }
+  return updated;
+}
+
+async function send(
+  subscription: WebhookSubscription,
+  delivery: WebhookDelivery
+): Promise<DeliveryAttemptResult> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  // Again at send time: DNS can change after the webhook was saved
+  const urlError = await checkWebhookUrl(subscription.url);
+  if (urlError) {
+    return {
+      ok: false,
+      responseStatus: null,
+      responseBody: null,
+      error: urlError,
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "HostAI-Scan-Webhooks/1.0",
+        "X-HostAI-Event": delivery.eventType,
+        "X-HostAI-Delivery": delivery.id,
+        "X-HostAI-Timestamp": String(timestamp),
+        "X-HostAI-Signature": signWebhookPayload(subscription.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      // A redirect could point anywhere, so it counts as a failed delivery
+      redirect: "manual",
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    });
+    const responseBody = await response.text().catch(() => null);
+
+    return {
+      ok: response.ok,
+      responseStatus: response.status,
+      responseBody,
+      error: response.ok ? null : `Webhook responded with HTTP ${response.status}`,
+      durationMs: Date.now() - startedAt,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      responseStatus: null,
+      responseBody: null,
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt,
+    };
+  }
+}
+
+function createEvent(type: WebhookEventType, data: Record<string, unknown>): WebhookEvent {
+  return {
+    id: `evt_${Date.now()}_${randomBytes(4).toString("hex")}`,
+    type,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+}
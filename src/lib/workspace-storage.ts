@@ -0,0 +1,445 @@
+/**
+ * Workspace Storage
+ *
+ * White-label workspaces for partner agencies. A workspace holds the brand a
+ * report is sent under - name, logo, colors, font, CTA, footer and privacy
+ * link - and optionally a custom domain its short links are shared on.
+ * Reports pick up a workspace's branding through their link settings
+ * (report_links.workspace_id); reports without one keep the house brand.
+ */
+
+import { db, initializeDatabase } from "./db";
+
+export interface WorkspaceBranding {
+  brandName: string;
+  logoUrl: string | null;
+  websiteUrl: string | null; // Where the report header logo links to
+  primaryColor: string | null; // CTA buttons and highlights, #rrggbb
+  accentColor: string | null; // CTA panel background, #rrggbb
+  fontFamily: string | null; // CSS font-family stack
+  fontUrl: string | null; // Stylesheet that loads the font, e.g. Google Fonts
+  ctaHeading: string | null;
+  ctaDescription: string | null;
+  ctaText: string | null;
+  ctaUrl: string | null;
+  footerText: string | null;
+  privacyUrl: string | null; // Linked from email capture consent
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  customDomain: string | null;
+  branding: WorkspaceBranding;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceFields {
+  name?: string;
+  customDomain?: string | null;
+  branding?: Partial<WorkspaceBranding>;
+}
+
+// What a report renders with: a workspace's branding, or the house brand
+// (workspaceId null). Null copy and colors mean the report's own defaults.
+export interface ReportBranding extends WorkspaceBranding {
+  workspaceId: string | null;
+  customDomain: string | null;
+}
+
+// House brand, used for reports without a workspace
+const HOUSE_BRANDING: WorkspaceBranding = {
+  brandName: "GetHost.AI",
+  logoUrl: null,
+  websiteUrl: null,
+  primaryColor: null,
+  accentColor: null,
+  fontFamily: null,
+  fontUrl: null,
+  ctaHeading: null,
+  ctaDescription: null,
+  ctaText: null,
+  ctaUrl: null,
+  footerText: null,
+  privacyUrl: null,
+};
+
+export const DEFAULT_REPORT_BRANDING: ReportBranding = {
+  ...HOUSE_BRANDING,
+  workspaceId: null,
+  customDomain: null,
+};
+
+// Length limits for free-text branding fields
+const TEXT_LIMITS: Partial<Record<keyof WorkspaceBranding, number>> = {
+  brandName: 60,
+  ctaHeading: 120,
+  ctaDescription: 300,
+  ctaText: 40,
+  footerText: 500,
+};
+
+const URL_FIELDS: (keyof WorkspaceBranding)[] = ["logoUrl", "websiteUrl", "fontUrl", "ctaUrl", "privacyUrl"];
+const COLOR_FIELDS: (keyof WorkspaceBranding)[] = ["primaryColor", "accentColor"];
+
+const COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+// Font names, quotes, commas and spaces - nothing that can end the CSS declaration
+const FONT_FAMILY_PATTERN = /^[\w\s,'"-]{1,200}$/;
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+// Track if schema has been ensured
+let schemaEnsured = false;
+
+async function ensureSchema() {
+  if (schemaEnsured) return;
+  await initializeDatabase();
+  schemaEnsured = true;
+}
+
+function generateWorkspaceId(): string {
+  const timestamp = Date.now();
+  const random = Math.random().toString(36).slice(2, 8);
+  return `ws_${timestamp}_${random}`;
+}
+
+/**
+ * Lowercase a hostname and drop any scheme, port or path, so
+ * "https://Reports.Agency.com:443/r/x" and "reports.agency.com" match
+ */
+export function normalizeHost(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .split(/[/?#]/)[0]
+    .replace(/:\d+$/, "");
+}
+
+/**
+ * Validate workspace fields from a request body. Returns the fields, or an
+ * error message. Branding fields set to null or "" are cleared.
+ */
+export function parseWorkspaceFields(body: Record<string, unknown>): WorkspaceFields | string {
+  const fields: WorkspaceFields = {};
+
+  if (body.name !== undefined) {
+    if (typeof body.name !== "string" || !body.name.trim()) return "name must be a non-empty string";
+    fields.name = body.name.trim();
+  }
+
+  if (body.customDomain !== undefined) {
+    if (body.customDomain === null || body.customDomain === "") {
+      fields.customDomain = null;
+    } else {
+      if (typeof body.customDomain !== "string") return "customDomain must be a hostname";
+      const host = normalizeHost(body.customDomain);
+      if (!HOSTNAME_PATTERN.test(host)) return `"${body.customDomain}" is not a valid hostname`;
+      fields.customDomain = host;
+    }
+  }
+
+  if (body.branding !== undefined) {
+    if (!body.branding || typeof body.branding !== "object") return "branding must be an object";
+
+    const branding: Partial<WorkspaceBranding> = {};
+    for (const [key, raw] of Object.entries(body.branding as Record<string, unknown>)) {
+      const field = key as keyof WorkspaceBranding;
+      if (!(field in HOUSE_BRANDING) || field === "brandName") continue;
+      if (raw === null || raw === "") {
+        (branding as Record<string, string | null>)[field] = null;
+        continue;
+      }
+      if (typeof raw !== "string") return `branding.${field} must be a string`;
+
+      const value = raw.trim();
+      const error = validateBrandingValue(field, value);
+      if (error) return error;
+      (branding as Record<string, string | null>)[field] = value;
+    }
+
+    const brandName = (body.branding as Record<string, unknown>).brandName;
+    if (brandName !== undefined) {
+      if (typeof brandName !== "string" || !brandName.trim()) {
+        return "branding.brandName must be a non-empty string";
+      }
+      const error = validateBrandingValue("brandName", brandName.trim());
+      if (error) return error;
+      branding.brandName = brandName.trim();
+    }
+
+    fields.branding = branding;
+  }
+
+  return fields;
+}
+
+function validateBrandingValue(field: keyof WorkspaceBranding, value: string): string | null {
+  const limit = TEXT_LIMITS[field];
+  if (limit && value.length > limit) return `branding.${field} must be ${limit} characters or fewer`;
+
+  if (COLOR_FIELDS.includes(field) && !COLOR_PATTERN.test(value)) {
+    return `branding.${field} must be a hex color like #4f46e5`;
+  }
+  if (field === "fontFamily" && !FONT_FAMILY_PATTERN.test(value)) {
+    return "branding.fontFamily may only contain font names, quotes, commas and spaces";
+  }
+  if (URL_FIELDS.includes(field)) {
+    // Logos can also be inlined, which keeps exports self-contained
+    if (field === "logoUrl" && /^data:image\/(?:png|jpeg|gif|webp|svg\+xml);base64,/.test(value)) {
+      return null;
+    }
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return `branding.${field} must be an absolute URL`;
+    }
+    const allowed = field === "fontUrl" ? ["https:"] : ["https:", "http:"];
+    if (!allowed.includes(url.protocol)) {
+      return `branding.${field} must be an ${allowed.join(" or ").replace(/:/g, "")} URL`;
+    }
+  }
+  return null;
+}
+
+// -----------------------------------------------------------------------------
+// Workspaces
+// -----------------------------------------------------------------------------
+
+/**
+ * Create a workspace. Branding fields not given are left unset.
+ */
+export async function createWorkspace(
+  input: Required<Pick<WorkspaceFields, "name">> & WorkspaceFields
+): Promise<Workspace> {
+  await ensureSchema();
+
+  const id = generateWorkspaceId();
+  const now = new Date().toISOString();
+  const branding: WorkspaceBranding = {
+    ...workspaceBrandingDefaults(input.name),
+    ...input.branding,
+  };
+
+  await db.execute({
+    sql: `INSERT INTO workspaces (id, name, custom_domain, branding, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+    args: [id, input.name, input.customDomain ?? null, JSON.stringify(branding), now, now],
+  });
+
+  console.log(`[Workspaces] Created ${id} (${input.name})`);
+
+  const workspace = await getWorkspace(id);
+  if (!workspace) {
+    throw new Error("Failed to create workspace");
+  }
+  return workspace;
+}
+
+export async function getWorkspace(id: string): Promise<Workspace | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM workspaces WHERE id = ?`,
+    args: [id],
+  });
+
+  return result.rows.length > 0 ? mapRowToWorkspace(result.rows[0]) : null;
+}
+
+/**
+ * The workspace whose custom domain is `host`, if any
+ */
+export async function getWorkspaceByDomain(host: string): Promise<Workspace | null> {
+  await ensureSchema();
+
+  const result = await db.execute({
+    sql: `SELECT * FROM workspaces WHERE custom_domain = ?`,
+    args: [normalizeHost(host)],
+  });
+
+  return result.rows.length > 0 ? mapRowToWorkspace(result.rows[0]) : null;
+}
+
+/**
+ * All workspaces with the number of reports assigned to each, by name
+ */
+export async function listWorkspaces(): Promise<(Workspace & { reportCount: number })[]> {
+  await ensureSchema();
+
+  const result = await db.execute(`
+    SELECT w.*, (SELECT COUNT(*) FROM report_links l WHERE l.workspace_id = w.id) as report_count
+    FROM workspaces w
+    ORDER BY w.name COLLATE NOCASE
+  `);
+
+  return result.rows.map((row) => ({
+    ...mapRowToWorkspace(row),
+    reportCount: (row.report_count as number) || 0,
+  }));
+}
+
+/**
+ * Check that no other workspace uses a custom domain
+ */
+export async function isCustomDomainAvailable(
+  host: string,
+  excludeWorkspaceId?: string
+): Promise<boolean> {
+  const existing = await getWorkspaceByDomain(host);
+  return !existing || existing.id === excludeWorkspaceId;
+}
+
+/**
+ * Update a workspace's name, custom domain or branding. Branding fields are
+ * merged into the existing branding.
+ */
+export async function updateWorkspace(
+  id: string,
+  updates: WorkspaceFields
+): Promise<Workspace | null> {
+  await ensureSchema();
+
+  const existing = await getWorkspace(id);
+  if (!existing) return null;
+
+  const setClauses: string[] = [];
+  const args: (string | number | null)[] = [];
+
+  if (updates.name !== undefined) {
+    setClauses.push("name = ?");
+    args.push(updates.name);
+  }
+  if (updates.customDomain !== undefined) {
+    setClauses.push("custom_domain = ?");
+    args.push(updates.customDomain);
+  }
+  if (updates.branding !== undefined) {
+    setClauses.push("branding = ?");
+    args.push(JSON.stringify({ ...existing.branding, ...updates.branding }));
+  }
+
+  setClauses.push("updated_at = ?");
+  args.push(new Date().toISOString());
+  args.push(id);
+
+  await db.execute({
+    sql: `UPDATE workspaces SET ${setClauses.join(", ")} WHERE id = ?`,
+    args,
+  });
+
+  return getWorkspace(id);
+}
+
+/**
+ * Delete a workspace. Its reports go back to the house brand.
+ */
+export async function deleteWorkspace(id: string): Promise<boolean> {
+  await ensureSchema();
+
+  const results = await db.batch(
+    [
+      { sql: `UPDATE report_links SET workspace_id = NULL WHERE workspace_id = ?`, args: [id] },
+      { sql: `DELETE FROM workspaces WHERE id = ?`, args: [id] },
+    ],
+    "write"
+  );
+
+  return results[1].rowsAffected > 0;
+}
+
+// -----------------------------------------------------------------------------
+// Report branding
+// -----------------------------------------------------------------------------
+
+/**
+ * Branding for a report, from the workspace its link is assigned to
+ */
+export async function getReportBranding(
+  link: { workspaceId: string | null } | null
+): Promise<ReportBranding> {
+  const workspace = link?.workspaceId ? await getWorkspace(link.workspaceId) : null;
+  return toReportBranding(workspace);
+}
+
+/**
+ * Check that a report can be served on the request's host. A workspace's
+ * custom domain only serves that workspace's reports, so an agency's domain
+ * can't be used to open anyone else's.
+ */
+export async function isReportHostAllowed(
+  link: { workspaceId: string | null } | null,
+  host: string | null
+): Promise<boolean> {
+  if (!host) return true;
+  const hostWorkspace = await getWorkspaceByDomain(host);
+  return !hostWorkspace || hostWorkspace.id === link?.workspaceId;
+}
+
+export function toReportBranding(workspace: Workspace | null): ReportBranding {
+  if (!workspace) return DEFAULT_REPORT_BRANDING;
+
+  const { branding } = workspace;
+  return {
+    ...branding,
+    workspaceId: workspace.id,
+    customDomain: workspace.customDomain,
+    // The house CTA copy promotes HostAI, so white-label reports always get their own
+    ...ctaDefaults(branding),
+  };
+}
+
+/**
+ * Origin report links are shared on: the workspace's custom domain, or the
+ * app's own base URL
+ */
+export function getReportBaseUrl(branding: Pick<ReportBranding, "customDomain">): string {
+  if (branding.customDomain) {
+    return `https://${branding.customDomain}`;
+  }
+  return process.env.NEXT_PUBLIC_BASE_URL || "https://gethost.ai";
+}
+
+function workspaceBrandingDefaults(name: string): WorkspaceBranding {
+  return { ...HOUSE_BRANDING, brandName: name };
+}
+
+function ctaDefaults(branding: WorkspaceBranding) {
+  return {
+    ctaHeading: branding.ctaHeading ?? "Ready to fix these issues?",
+    ctaDescription:
+      branding.ctaDescription ??
+      `${branding.brandName} can help fix these issues and turn more visitors into bookings.`,
+    ctaText: branding.ctaText ?? "Get Started",
+    // Without a CTA link the button goes to the agency's own site, or is hidden
+    ctaUrl: branding.ctaUrl ?? branding.websiteUrl,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Row mapping
+// -----------------------------------------------------------------------------
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  try {
+    return value ? (JSON.parse(value as string) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function mapRowToWorkspace(row: Record<string, unknown>): Workspace {
+  const name = row.name as string;
+  return {
+    id: row.id as string,
+    name,
+    customDomain: (row.custom_domain as string) || null,
+    branding: {
+      ...workspaceBrandingDefaults(name),
+      ...parseJson<Partial<WorkspaceBranding>>(row.branding, {}),
+    },
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
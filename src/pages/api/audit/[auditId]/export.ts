@@ -0,0 +1,140 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { loadAudit } from "@/lib/audit-storage";
+import { getAuditChanges } from "@/lib/audit-history";
+import { buildReportUrl, getLinkByAuditId, isLinkExpired, type ReportLink } from "@/lib/link-storage";
+import { ADMIN_COOKIE_NAME } from "@/lib/admin-auth";
+import { authorizeReportRequest } from "@/lib/report-access";
+import { LEAD_COOKIE } from "@/lib/lead-storage";
+import { REPORT_VARIANTS, type ReportVariantKey } from "@/lib/experiment-storage";
+import { EXPORT_FORMATS, renderReportHtml, type ExportFormat } from "@/lib/report-export";
+import { renderReportPdf } from "@/lib/report-pdf";
+import { getReportBaseUrl, getReportBranding, type ReportBranding } from "@/lib/workspace-storage";
+
+// Pages Router, not app/api: report-export.ts renders the report components
+// with react-dom/server, which the App Router's server layer doesn't allow.
+
+/**
+ * GET /api/audit/[auditId]/export
+ * Download a report as a self-contained HTML file or a paginated PDF, with
+ * the QR code and short link to the live report embedded.
+ *
+ * Query:
+ * - format?: "pdf" | "html" - Default pdf
+ * - v?: "a" | "b" | "c" - Report variant, default a
+ * - token?: string - Access token for a private report; also carried into
+ *   the embedded link so recipients can open it
+ * - download?: "false" - Show inline instead of as an attachment
+ *
+ * Same access rules as the report page: a public link, a token, a signed-in
+ * admin or, for lead-gated reports, the lead cookie. Logged as "export".
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const auditId = queryParam(req, "auditId");
+  const format = (queryParam(req, "format") ?? "pdf") as ExportFormat;
+  const variant = (queryParam(req, "v") ?? "a") as ReportVariantKey;
+  const token = queryParam(req, "token");
+
+  if (!auditId) {
+    return res.status(400).json({ error: "Audit ID required" });
+  }
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` });
+  }
+  if (!REPORT_VARIANTS.includes(variant)) {
+    return res.status(400).json({ error: `v must be one of: ${REPORT_VARIANTS.join(", ")}` });
+  }
+
+  try {
+    const audit = await loadAudit(auditId);
+    if (!audit?.result) {
+      return res.status(404).json({ error: "Audit not found" });
+    }
+
+    const link = await getLinkByAuditId(auditId);
+    if (link && isLinkExpired(link)) {
+      return res.status(410).json({ error: "This report link has expired" });
+    }
+
+    const access = await authorizeReportRequest(
+      auditId,
+      {
+        adminCookie: req.cookies[ADMIN_COOKIE_NAME],
+        leadCookie: req.cookies[LEAD_COOKIE],
+        ip: headerValue(req, "x-forwarded-for")?.split(",")[0].trim() || headerValue(req, "x-real-ip") || null,
+        userAgent: headerValue(req, "user-agent") ?? null,
+      },
+      { route: "export", token, link }
+    );
+    if (!access.granted) {
+      return res.status(403).json({
+        error: "This report is private",
+        reason: access.reason,
+        tokenError: access.tokenError,
+      });
+    }
+
+    const branding = await getReportBranding(link);
+    const shareUrl = buildShareUrl(auditId, link, branding, format, access.via === "token" ? token : undefined);
+    const changes = link?.showChanges ? (await getAuditChanges(auditId))?.changes ?? null : null;
+
+    const html = await renderReportHtml({
+      auditId,
+      domain: audit.domain,
+      result: audit.result,
+      variant,
+      shareUrl,
+      changes,
+      branding,
+    });
+
+    const filename = `${audit.domain.replace(/[^a-z0-9.-]/gi, "-")}-audit-report.${format}`;
+    const disposition = queryParam(req, "download") === "false" ? "inline" : "attachment";
+    res.setHeader("Content-Disposition", `${disposition}; filename="${filename}"`);
+    res.setHeader("Cache-Control", "private, no-store");
+
+    if (format === "html") {
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      return res.status(200).send(html);
+    }
+
+    const pdf = await renderReportPdf(html, { domain: audit.domain, shareUrl, branding });
+    res.setHeader("Content-Type", "application/pdf");
+    return res.status(200).send(pdf);
+  } catch (error) {
+    console.error(`[Export] Failed to export ${auditId} as ${format}:`, error);
+    return res.status(500).json({ error: "Failed to export report" });
+  }
+}
+
+function queryParam(req: NextApiRequest, name: string): string | undefined {
+  const value = req.query[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function headerValue(req: NextApiRequest, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Same link the QR code route builds, tagged as coming from an export
+function buildShareUrl(
+  auditId: string,
+  link: ReportLink | null,
+  branding: ReportBranding,
+  format: ExportFormat,
+  token?: string
+): string {
+  const url = buildReportUrl(auditId, link, getReportBaseUrl(branding));
+
+  url.searchParams.set("utm_source", link?.defaultUtmSource || "export");
+  url.searchParams.set("utm_medium", link?.defaultUtmMedium || format);
+  if (link?.defaultUtmCampaign) url.searchParams.set("utm_campaign", link.defaultUtmCampaign);
+  if (token) url.searchParams.set("token", token);
+
+  return url.toString();
+}
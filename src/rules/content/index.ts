@@ -0,0 +1,16 @@
+import type { RuleModule } from "@/types/rules";
+import * as lowImageCount from "./low-image-count";
+import * as missingLocalContent from "./missing-local-content";
+import * as noDirectBookingBenefits from "./no-direct-booking-benefits";
+import * as noVideo from "./no-video";
+import * as smallHeroImage from "./small-hero-image";
+import * as thinDescription from "./thin-description";
+
+export const contentRules: RuleModule[] = [
+  lowImageCount,
+  noDirectBookingBenefits,
+  thinDescription,
+  smallHeroImage,
+  missingLocalContent,
+  noVideo,
+];
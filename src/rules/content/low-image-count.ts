@@ -0,0 +1,39 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "content.low_image_count";
+
+const MIN_IMAGES = 10;
+
+export const meta: RuleModule["meta"] = {
+  category: "content",
+  label: "Property Images",
+  pageKinds: ["property"],
+  requires: (audit) => audit.content !== null,
+  passMessage: (audit) => `Found ${audit.content?.imageCount} images - good visual content`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.content) return null;
+
+  const count = audit.content.imageCount;
+  if (count >= MIN_IMAGES) return null;
+
+  const impact = 0.6;
+  // Galleries are often lazy-loaded, so a low count from raw HTML is less certain
+  const confidence = count === 0 ? 0.85 : 0.65;
+
+  return {
+    id: RULE_ID,
+    title: "Property has fewer than 10 images",
+    category: "content",
+    severity: "major",
+    impact,
+    confidence,
+    penalty: calculatePenalty("major", impact, confidence),
+    evidence: [`Images on page: ${count} (threshold: ${MIN_IMAGES})`],
+    fix: "Add photos covering all rooms, outdoor spaces, and amenities.",
+    effort: "medium",
+    tags: ["photos"],
+  };
+}
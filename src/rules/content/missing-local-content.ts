@@ -0,0 +1,34 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "content.missing_local_content";
+
+export const meta: RuleModule["meta"] = {
+  category: "content",
+  label: "Local Area Content",
+  requires: (audit) => audit.content !== null,
+  passMessage: () => "Local area information found",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.content) return null;
+
+  if (audit.content.hasLocalContent) return null;
+
+  const impact = 0.3;
+  const confidence = 0.7;
+
+  return {
+    id: RULE_ID,
+    title: "No local area information",
+    category: "content",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: ["No things-to-do, restaurants, attractions or neighborhood content found"],
+    fix: "Add local content: things to do, restaurants, getting there.",
+    effort: "medium",
+    tags: ["copy"],
+  };
+}
@@ -0,0 +1,34 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "content.no_direct_booking_benefits";
+
+export const meta: RuleModule["meta"] = {
+  category: "content",
+  label: "Book Direct Messaging",
+  requires: (audit) => audit.content !== null,
+  passMessage: () => "\"Why book direct\" benefits are communicated",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.content) return null;
+
+  if (audit.content.hasDirectBookingBenefits) return null;
+
+  const impact = 0.45;
+  const confidence = 0.75;
+
+  return {
+    id: RULE_ID,
+    title: "No \"why book direct\" messaging",
+    category: "content",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: ["No mention of direct booking perks (best rate, no service fees, book direct)"],
+    fix: "Add messaging about direct booking benefits: better rates, no service fees.",
+    effort: "low",
+    tags: ["copy"],
+  };
+}
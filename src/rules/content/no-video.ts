@@ -0,0 +1,34 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "content.no_video";
+
+export const meta: RuleModule["meta"] = {
+  category: "content",
+  label: "Video Content",
+  requires: (audit) => audit.content !== null,
+  passMessage: () => "Video or 3D walkthrough found",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.content) return null;
+
+  if (audit.content.hasVideo) return null;
+
+  const impact = 0.2;
+  const confidence = 0.8;
+
+  return {
+    id: RULE_ID,
+    title: "No video content for property",
+    category: "content",
+    severity: "trivial",
+    impact,
+    confidence,
+    penalty: calculatePenalty("trivial", impact, confidence),
+    evidence: ["No <video>, YouTube, Vimeo or Matterport embed found"],
+    fix: "Add a property walkthrough video.",
+    effort: "medium",
+    tags: ["media"],
+  };
+}
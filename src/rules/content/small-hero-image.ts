@@ -0,0 +1,37 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "content.small_hero_image";
+
+const MIN_WIDTH = 1200;
+
+export const meta: RuleModule["meta"] = {
+  category: "content",
+  label: "Hero Image Resolution",
+  requires: (audit) => audit.content?.heroImage?.width != null,
+  passMessage: (audit) => `Hero image is ${audit.content?.heroImage?.width}px wide`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const hero = audit.content?.heroImage;
+  if (hero?.width == null) return null;
+
+  if (hero.width >= MIN_WIDTH) return null;
+
+  const impact = 0.35;
+  const confidence = 0.6; // Declared width, not the intrinsic image size
+
+  return {
+    id: RULE_ID,
+    title: "Hero image resolution too low",
+    category: "content",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: [`Hero image width: ${hero.width}px (threshold: ${MIN_WIDTH}px)`, `Image: ${hero.src}`],
+    fix: "Replace with high-resolution photography.",
+    effort: "low",
+    tags: ["photos"],
+  };
+}
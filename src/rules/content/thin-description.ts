@@ -0,0 +1,39 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "content.thin_description";
+
+const MIN_WORDS = 100;
+
+export const meta: RuleModule["meta"] = {
+  category: "content",
+  label: "Property Description",
+  pageKinds: ["property"],
+  requires: (audit) => audit.content !== null,
+  passMessage: (audit) => `${audit.content?.wordCount} words of descriptive copy`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.content) return null;
+
+  const words = audit.content.wordCount;
+  if (words >= MIN_WORDS) return null;
+
+  const impact = 0.4;
+  // Client-rendered sites ship little text in the initial HTML
+  const confidence = 0.6;
+
+  return {
+    id: RULE_ID,
+    title: "Property description too short",
+    category: "content",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: [`Visible words on page: ${words} (threshold: ${MIN_WORDS})`],
+    fix: "Expand to cover unique features, layout, amenities, and neighborhood.",
+    effort: "low",
+    tags: ["copy"],
+  };
+}
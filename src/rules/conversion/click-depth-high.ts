@@ -0,0 +1,48 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "conversion.click_depth_high";
+
+const MAX_CLICKS = 3;
+const BLOCKER_CLICKS = 5;
+
+export const meta: RuleModule["meta"] = {
+  category: "conversion",
+  label: "Booking Friction",
+  requires: (audit) => audit.crawl.booking !== null,
+  passMessage: (audit) =>
+    `${audit.crawl.booking?.clickDepthMeasured ? "" : "~"}${audit.crawl.booking?.clickDepth} clicks to book (threshold: ${MAX_CLICKS})`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const booking = audit.crawl.booking;
+  if (!booking) return null;
+
+  const clicks = booking.clickDepth;
+  if (clicks <= MAX_CLICKS) return null;
+
+  const isBlocker = clicks >= BLOCKER_CLICKS;
+  const severity = isBlocker ? "blocker" : "major";
+  const impact = isBlocker ? 0.9 : 0.75;
+  // Estimated from the HTML unless the funnel explorer walked it
+  const confidence = booking.clickDepthMeasured ? 0.9 : 0.6;
+
+  return {
+    id: RULE_ID,
+    title: "Booking requires too many clicks from home",
+    category: "conversion",
+    severity,
+    impact,
+    confidence,
+    penalty: calculatePenalty(severity, impact, confidence),
+    evidence: [
+      booking.clickDepthMeasured
+        ? `Measured clicks to reach checkout: ${clicks} (threshold: ${MAX_CLICKS})`
+        : `Estimated clicks to book: ${clicks} (threshold: ${MAX_CLICKS})`,
+      `Friction score: ${booking.frictionScore}/100`,
+    ],
+    fix: "Streamline navigation. Add direct booking links to property cards and consider booking widgets directly on listing pages.",
+    effort: "medium",
+    tags: ["funnel"],
+  };
+}
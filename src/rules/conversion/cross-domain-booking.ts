@@ -0,0 +1,36 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "conversion.cross_domain_booking";
+
+export const meta: RuleModule["meta"] = {
+  category: "conversion",
+  label: "On-Site Booking",
+  requires: (audit) => !!audit.crawl.booking?.engine,
+  passMessage: (audit) =>
+    `${audit.crawl.booking?.engine?.name} keeps guests on your site`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const booking = audit.crawl.booking;
+  if (!booking?.engine) return null;
+
+  if (!booking.crossDomain) return null;
+
+  const impact = 0.35;
+  const confidence = 0.8;
+
+  return {
+    id: RULE_ID,
+    title: "Booking hands off to third-party domain",
+    category: "conversion",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: [`${booking.engine.name} detected - redirects guests off your site`],
+    fix: "If using a third-party booking engine, embed it on your domain or use a subdomain.",
+    effort: "high",
+    tags: ["funnel"],
+  };
+}
@@ -0,0 +1,38 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "conversion.fees_not_visible_early";
+
+export const meta: RuleModule["meta"] = {
+  category: "conversion",
+  label: "Pricing Display",
+  requires: (audit) => audit.crawl.booking !== null,
+  passMessage: () => "Rates and fees shown before checkout",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const booking = audit.crawl.booking;
+  if (!booking) return null;
+
+  if (booking.hasPricing && booking.showsFeesUpfront) return null;
+
+  const impact = 0.65;
+  // Missing prices entirely is a clearer signal than missing fee wording
+  const confidence = booking.hasPricing ? 0.55 : 0.8;
+
+  return {
+    id: RULE_ID,
+    title: "Fees and taxes hidden until checkout",
+    category: "conversion",
+    severity: "major",
+    impact,
+    confidence,
+    penalty: calculatePenalty("major", impact, confidence),
+    evidence: booking.hasPricing
+      ? ["Nightly pricing shown, but no cleaning fee, service fee or tax breakdown"]
+      : ["No pricing found on page"],
+    fix: "Show the full price breakdown early—ideally on the property page or at the start of booking.",
+    effort: "medium",
+    tags: ["pricing"],
+  };
+}
@@ -0,0 +1,24 @@
+import type { RuleModule } from "@/types/rules";
+import * as clickDepthHigh from "./click-depth-high";
+import * as crossDomainBooking from "./cross-domain-booking";
+import * as feesNotVisibleEarly from "./fees-not-visible-early";
+import * as missingCancellation from "./missing-cancellation";
+import * as missingPrimaryCta from "./missing-primary-cta";
+import * as noBookingEngine from "./no-booking-engine";
+import * as noDatePicker from "./no-date-picker";
+import * as noInstantBooking from "./no-instant-booking";
+import * as noStickyCtaMobile from "./no-sticky-cta-mobile";
+import * as requiresAccount from "./requires-account";
+
+export const conversionRules: RuleModule[] = [
+  missingPrimaryCta,
+  noStickyCtaMobile,
+  clickDepthHigh,
+  missingCancellation,
+  feesNotVisibleEarly,
+  requiresAccount,
+  noInstantBooking,
+  crossDomainBooking,
+  noBookingEngine,
+  noDatePicker,
+];
@@ -0,0 +1,35 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "conversion.missing_cancellation";
+
+export const meta: RuleModule["meta"] = {
+  category: "conversion",
+  label: "Cancellation Policy",
+  requires: (audit) => audit.crawl.booking !== null,
+  passMessage: () => "Cancellation terms are visible",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const booking = audit.crawl.booking;
+  if (!booking) return null;
+
+  if (booking.hasCancellationPolicy) return null;
+
+  const impact = 0.7;
+  const confidence = 0.7;
+
+  return {
+    id: RULE_ID,
+    title: "Cancellation policy not visible near booking CTA",
+    category: "conversion",
+    severity: "major",
+    impact,
+    confidence,
+    penalty: calculatePenalty("major", impact, confidence),
+    evidence: ["No mention of cancellation or refund policy on the page"],
+    fix: "Display a brief cancellation summary near booking buttons.",
+    effort: "low",
+    tags: ["policy"],
+  };
+}
@@ -0,0 +1,40 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "conversion.missing_primary_cta";
+
+export const meta: RuleModule["meta"] = {
+  category: "conversion",
+  label: "Booking Call-to-Action",
+  pageKinds: ["property"],
+  requires: (audit) => audit.crawl.booking !== null,
+  passMessage: (audit) =>
+    `"${audit.crawl.booking?.ctaText}" button found above the fold`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const booking = audit.crawl.booking;
+  if (!booking) return null;
+
+  if (booking.hasBookingCTA && booking.ctaLocation === "above-fold") return null;
+
+  const impact = 0.95;
+  // Fold position is estimated from HTML order, so a below-fold CTA is less certain
+  const confidence = booking.hasBookingCTA ? 0.6 : 0.85;
+
+  return {
+    id: RULE_ID,
+    title: "Primary booking CTA not visible above fold (mobile)",
+    category: "conversion",
+    severity: "blocker",
+    impact,
+    confidence,
+    penalty: calculatePenalty("blocker", impact, confidence),
+    evidence: booking.hasBookingCTA
+      ? [`"${booking.ctaText}" found, but below the fold`]
+      : ["No booking CTA found (looked for Book Now, Reserve, Check Availability…)"],
+    fix: "Add a prominent \"Book Now\" or \"Check Availability\" button in the hero section, visible without scrolling on mobile.",
+    effort: "medium",
+    tags: ["mobile", "cta"],
+  };
+}
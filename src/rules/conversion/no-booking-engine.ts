@@ -0,0 +1,35 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "conversion.no_booking_engine";
+
+export const meta: RuleModule["meta"] = {
+  category: "conversion",
+  label: "Booking System",
+  requires: (audit) => audit.crawl.booking !== null,
+  passMessage: (audit) => `${audit.crawl.booking?.engine?.name} detected`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const booking = audit.crawl.booking;
+  if (!booking) return null;
+
+  if (booking.engine) return null;
+
+  const impact = 0.7;
+  const confidence = 0.7; // Unknown engines and iframes can slip past detection
+
+  return {
+    id: RULE_ID,
+    title: "No booking system detected",
+    category: "conversion",
+    severity: "major",
+    impact,
+    confidence,
+    penalty: calculatePenalty("major", impact, confidence),
+    evidence: ["No known booking engine or booking form found on the page"],
+    fix: "Add an integrated booking widget so guests can check availability and book directly.",
+    effort: "high",
+    tags: ["funnel"],
+  };
+}
@@ -0,0 +1,35 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "conversion.no_date_picker";
+
+export const meta: RuleModule["meta"] = {
+  category: "conversion",
+  label: "Date Selection",
+  requires: (audit) => audit.crawl.booking !== null,
+  passMessage: () => "Date picker found - guests can easily select dates",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const booking = audit.crawl.booking;
+  if (!booking) return null;
+
+  if (booking.hasDatePicker) return null;
+
+  const impact = 0.6;
+  const confidence = 0.65;
+
+  return {
+    id: RULE_ID,
+    title: "No date picker for checking availability",
+    category: "conversion",
+    severity: "major",
+    impact,
+    confidence,
+    penalty: calculatePenalty("major", impact, confidence),
+    evidence: ["No date input or calendar widget detected"],
+    fix: "Add visible check-in/check-out date selection so guests can check availability immediately.",
+    effort: "medium",
+    tags: ["funnel"],
+  };
+}
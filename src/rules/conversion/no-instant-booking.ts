@@ -0,0 +1,39 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "conversion.no_instant_booking";
+
+export const meta: RuleModule["meta"] = {
+  category: "conversion",
+  label: "Instant Booking",
+  requires: (audit) => audit.crawl.booking !== null,
+  passMessage: () => "Instant book enabled - reduces booking friction",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const booking = audit.crawl.booking;
+  if (!booking) return null;
+
+  if (booking.hasInstantBook) return null;
+
+  const impact = 0.4;
+  const confidence = 0.7;
+
+  return {
+    id: RULE_ID,
+    title: "No instant booking option (inquiry only)",
+    category: "conversion",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: [
+      booking.engine
+        ? `${booking.engine.name} detected, but no instant booking wording found`
+        : "No instant booking wording or booking engine found",
+    ],
+    fix: "Enable instant booking with real-time availability.",
+    effort: "high",
+    tags: ["funnel"],
+  };
+}
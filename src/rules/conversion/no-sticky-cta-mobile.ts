@@ -0,0 +1,36 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "conversion.no_sticky_cta_mobile";
+
+export const meta: RuleModule["meta"] = {
+  category: "conversion",
+  label: "Persistent Booking CTA",
+  requires: (audit) => !!audit.crawl.booking?.hasBookingCTA,
+  passMessage: () => "Sticky booking button keeps the CTA in reach while scrolling",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const booking = audit.crawl.booking;
+  // Only meaningful once there is a CTA to make sticky
+  if (!booking?.hasBookingCTA) return null;
+
+  if (booking.hasStickyCTA) return null;
+
+  const impact = 0.75;
+  const confidence = 0.5; // Sticky positioning often lives in external CSS
+
+  return {
+    id: RULE_ID,
+    title: "No persistent booking CTA on mobile",
+    category: "conversion",
+    severity: "major",
+    impact,
+    confidence,
+    penalty: calculatePenalty("major", impact, confidence),
+    evidence: [`"${booking.ctaText}" CTA found, but no sticky or floating booking bar detected`],
+    fix: "Add a persistent \"Book Now\" bar that stays visible as users scroll through property pages.",
+    effort: "medium",
+    tags: ["mobile", "cta"],
+  };
+}
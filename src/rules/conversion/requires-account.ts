@@ -0,0 +1,35 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "conversion.requires_account";
+
+export const meta: RuleModule["meta"] = {
+  category: "conversion",
+  label: "Guest Checkout",
+  requires: (audit) => audit.crawl.booking !== null,
+  passMessage: () => "No account required to book",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const booking = audit.crawl.booking;
+  if (!booking) return null;
+
+  if (!booking.requiresAccount) return null;
+
+  const impact = 0.6;
+  const confidence = 0.7;
+
+  return {
+    id: RULE_ID,
+    title: "Account creation required to book",
+    category: "conversion",
+    severity: "major",
+    impact,
+    confidence,
+    penalty: calculatePenalty("major", impact, confidence),
+    evidence: ["Page asks guests to log in or create an account before booking"],
+    fix: "Allow guest checkout. Offer account creation as optional after booking is complete.",
+    effort: "medium",
+    tags: ["funnel"],
+  };
+}
@@ -0,0 +1,125 @@
+// Compiles DSL rule definitions into the same RuleModule shape the
+// TypeScript rules export, so the runner can't tell them apart.
+
+import { calculatePenalty } from "../scoring";
+import type {
+  DslRuleDefinition,
+  Effort,
+  Finding,
+  NormalizedAudit,
+  RuleCategory,
+  RuleModule,
+  ScoringProfileDefinition,
+} from "@/types/rules";
+import { conditionFields, evaluateCondition, getField, parseCondition } from "./condition";
+
+const DEFAULT_CONFIDENCE = 0.8;
+const DEFAULT_EFFORT: Effort = "medium";
+
+export function compileRule(
+  def: DslRuleDefinition,
+  defaults: ScoringProfileDefinition["defaults"] = {}
+): RuleModule {
+  const category = (def.category ??
+    defaults.category ??
+    def.id.split(".")[0]) as RuleCategory;
+
+  const when = withContext(def.id, "when", () => parseCondition(def.when));
+  const escalation = def.escalate
+    ? withContext(def.id, "escalate.when", () => parseCondition(def.escalate!.when))
+    : null;
+
+  // By default a rule "had its data" when every field it reads is present
+  const requiredFields = conditionFields(when);
+  const requires = def.requires
+    ? withContext(def.id, "requires", () => parseCondition(def.requires!))
+    : null;
+
+  const label = def.label ?? def.then.title;
+
+  return {
+    RULE_ID: def.id,
+    meta: {
+      category,
+      label,
+      requires: (audit) =>
+        requires
+          ? evaluateCondition(requires, audit)
+          : requiredFields.every((f) => getField(audit, f) != null),
+      passMessage: (audit) =>
+        def.passMessage ? interpolate(def.passMessage, audit) : `${label}: no issues found`,
+      pageKinds: def.pageKinds,
+    },
+    evaluate: (audit): Finding | null => {
+      if (!evaluateCondition(when, audit)) return null;
+
+      const template =
+        escalation && evaluateCondition(escalation, audit)
+          ? { ...def.then, ...def.escalate!.to }
+          : def.then;
+      const confidence = template.confidence ?? defaults.confidence ?? DEFAULT_CONFIDENCE;
+      const evidence =
+        typeof template.evidence === "string" ? [template.evidence] : template.evidence ?? [];
+
+      return {
+        id: def.id,
+        title: interpolate(template.title, audit),
+        category,
+        severity: template.severity,
+        impact: template.impact,
+        confidence,
+        penalty: calculatePenalty(template.severity, template.impact, confidence),
+        evidence: evidence.map((e) => interpolate(e, audit)),
+        fix: template.fix ? interpolate(template.fix, audit) : "",
+        effort: template.effort ?? defaults.effort ?? DEFAULT_EFFORT,
+        tags: def.tags ?? [],
+      };
+    },
+  };
+}
+
+function withContext<T>(ruleId: string, key: string, fn: () => T): T {
+  try {
+    return fn();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${ruleId}: invalid ${key} (${message})`);
+  }
+}
+
+/**
+ * Fills "{path | filter}" placeholders from the audit. Supported filters:
+ * round(n), join, default('text').
+ */
+export function interpolate(template: string, audit: NormalizedAudit): string {
+  return template.replace(/\{([^}]+)\}/g, (_, expr: string) => {
+    const [path, ...filters] = expr.split("|").map((s) => s.trim());
+    let value = getField(audit, path);
+
+    for (const filter of filters) {
+      value = applyFilter(value, filter);
+    }
+
+    return value === null || value === undefined ? "N/A" : String(value);
+  });
+}
+
+function applyFilter(value: unknown, filter: string): unknown {
+  const round = filter.match(/^round\((\d+)\)$/);
+  if (round) {
+    return typeof value === "number" ? value.toFixed(parseInt(round[1], 10)) : value;
+  }
+  if (filter === "join") {
+    return Array.isArray(value) ? value.join(", ") : value;
+  }
+  const fallback = filter.match(/^default\(["'](.*)["']\)$/);
+  if (fallback) {
+    const empty =
+      value === null ||
+      value === undefined ||
+      value === "" ||
+      (Array.isArray(value) && value.length === 0);
+    return empty ? fallback[1] : value;
+  }
+  return value;
+}
@@ -0,0 +1,424 @@
+// Condition expressions for DSL rules, e.g.
+//
+//   perf.mobile.lcpMs > 3000
+//   crawl.booking.clickDepth between 3 and 5 and not crawl.booking.hasInstantBook
+//   crawl.booking.engine.type in ["redirect", "embedded"]
+//   seo.metaDescription missing
+//
+// Fields use dot notation over NormalizedAudit. Conditions are parsed once
+// when a profile is compiled and evaluated per audit.
+
+type Literal = string | number | boolean | null;
+
+type Operand =
+  | { kind: "field"; path: string }
+  | { kind: "literal"; value: Literal };
+
+type ComparisonOperator = "<" | ">" | "<=" | ">=" | "==" | "!=";
+
+export type Condition =
+  | { type: "logical"; op: "and" | "or"; conditions: Condition[] }
+  | { type: "not"; condition: Condition }
+  | { type: "comparison"; left: Operand; operator: ComparisonOperator; right: Operand }
+  | { type: "exists"; field: string; negate: boolean }
+  | { type: "in"; left: Operand; values: Operand[]; negate: boolean }
+  | { type: "between"; left: Operand; low: Operand; high: Operand }
+  | { type: "matches"; left: Operand; pattern: RegExp }
+  | { type: "truthy"; operand: Operand };
+
+type Token =
+  | { type: "number"; value: number; pos: number }
+  | { type: "string"; value: string; pos: number }
+  | { type: "word"; value: string; pos: number }
+  | { type: "op"; value: string; pos: number };
+
+// "matches" patterns are written by admins but run against page text, so
+// they are kept short, can't nest repeats like (a+)+ and only see the first
+// MAX_MATCH_INPUT characters of a value
+const MAX_PATTERN_LENGTH = 200;
+const MAX_MATCH_INPUT = 10000;
+const NESTED_QUANTIFIER = /\([^()]*[+*}][^()]*\)\s*[+*{]/;
+
+const KEYWORDS = new Set([
+  "and",
+  "or",
+  "not",
+  "in",
+  "exists",
+  "missing",
+  "between",
+  "matches",
+  "true",
+  "false",
+  "null",
+]);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const number = source.slice(i).match(/^-?\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ type: "number", value: parseFloat(number[0]), pos: i });
+      i += number[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, i + 1);
+      if (end === -1) {
+        throw new Error(`unterminated string at position ${i}`);
+      }
+      tokens.push({ type: "string", value: source.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    const word = source.slice(i).match(/^[A-Za-z_][\w.]*/);
+    if (word) {
+      tokens.push({ type: "word", value: word[0], pos: i });
+      i += word[0].length;
+      continue;
+    }
+
+    const op = source.slice(i).match(/^(<=|>=|==|!=|<|>|\(|\)|\[|\]|,)/);
+    if (op) {
+      tokens.push({ type: "op", value: op[0], pos: i });
+      i += op[0].length;
+      continue;
+    }
+
+    throw new Error(`unexpected character "${ch}" at position ${i}`);
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): Condition {
+    const condition = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new Error(`unexpected "${extra.value}" at position ${extra.pos}`);
+    }
+    return condition;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) throw new Error("unexpected end of condition");
+    return token;
+  }
+
+  private isWord(value: string, offset = 0): boolean {
+    const token = this.tokens[this.index + offset];
+    return token?.type === "word" && token.value === value;
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token?.type === "op" && token.value === value;
+  }
+
+  private expectOp(value: string): void {
+    const token = this.next();
+    if (token.type !== "op" || token.value !== value) {
+      throw new Error(`expected "${value}" at position ${token.pos}`);
+    }
+  }
+
+  private parseOr(): Condition {
+    const conditions = [this.parseAnd()];
+    while (this.isWord("or")) {
+      this.index++;
+      conditions.push(this.parseAnd());
+    }
+    return conditions.length === 1 ? conditions[0] : { type: "logical", op: "or", conditions };
+  }
+
+  private parseAnd(): Condition {
+    const conditions = [this.parseNot()];
+    while (this.isWord("and")) {
+      this.index++;
+      conditions.push(this.parseNot());
+    }
+    return conditions.length === 1 ? conditions[0] : { type: "logical", op: "and", conditions };
+  }
+
+  private parseNot(): Condition {
+    if (this.isWord("not")) {
+      this.index++;
+      return { type: "not", condition: this.parseNot() };
+    }
+    if (this.isOp("(")) {
+      this.index++;
+      const condition = this.parseOr();
+      this.expectOp(")");
+      return condition;
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Condition {
+    const left = this.parseOperand();
+    const token = this.peek();
+
+    if (token?.type === "op" && ["<", ">", "<=", ">=", "==", "!="].includes(token.value)) {
+      this.index++;
+      return {
+        type: "comparison",
+        left,
+        operator: token.value as ComparisonOperator,
+        right: this.parseOperand(),
+      };
+    }
+
+    if (this.isWord("exists") || this.isWord("missing")) {
+      const keyword = this.next().value;
+      if (left.kind !== "field") {
+        throw new Error(`"${keyword}" needs a field at position ${token!.pos}`);
+      }
+      return { type: "exists", field: left.path, negate: keyword === "missing" };
+    }
+
+    if (this.isWord("in") || (this.isWord("not") && this.isWord("in", 1))) {
+      const negate = this.next().value === "not";
+      if (negate) this.index++;
+      return { type: "in", left, values: this.parseList(), negate };
+    }
+
+    if (this.isWord("between")) {
+      this.index++;
+      const low = this.parseOperand();
+      if (!this.isWord("and")) {
+        throw new Error(`expected "and" in between expression`);
+      }
+      this.index++;
+      return { type: "between", left, low, high: this.parseOperand() };
+    }
+
+    if (this.isWord("matches")) {
+      this.index++;
+      const pattern = this.next();
+      if (pattern.type !== "string") {
+        throw new Error(`"matches" needs a quoted pattern at position ${pattern.pos}`);
+      }
+      if (pattern.value.length > MAX_PATTERN_LENGTH) {
+        throw new Error(`pattern is longer than ${MAX_PATTERN_LENGTH} characters`);
+      }
+      if (NESTED_QUANTIFIER.test(pattern.value)) {
+        throw new Error(`pattern "${pattern.value}" repeats a repeated group, which can take forever to match`);
+      }
+      try {
+        return { type: "matches", left, pattern: new RegExp(pattern.value, "i") };
+      } catch {
+        throw new Error(`invalid pattern "${pattern.value}"`);
+      }
+    }
+
+    return { type: "truthy", operand: left };
+  }
+
+  private parseList(): Operand[] {
+    this.expectOp("[");
+    const values: Operand[] = [];
+    while (!this.isOp("]")) {
+      values.push(this.parseOperand());
+      if (!this.isOp("]")) this.expectOp(",");
+    }
+    this.index++;
+    return values;
+  }
+
+  private parseOperand(): Operand {
+    const token = this.next();
+    switch (token.type) {
+      case "number":
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "word":
+        if (token.value === "true") return { kind: "literal", value: true };
+        if (token.value === "false") return { kind: "literal", value: false };
+        if (token.value === "null") return { kind: "literal", value: null };
+        if (KEYWORDS.has(token.value)) {
+          throw new Error(`unexpected "${token.value}" at position ${token.pos}`);
+        }
+        return { kind: "field", path: token.value };
+      default:
+        throw new Error(`unexpected "${token.value}" at position ${token.pos}`);
+    }
+  }
+}
+
+/**
+ * Parses a condition string. Throws with a message naming the position of
+ * the first problem.
+ */
+export function parseCondition(source: string): Condition {
+  if (!source.trim()) {
+    throw new Error("condition is empty");
+  }
+  return new Parser(tokenize(source)).parse();
+}
+
+/** Reads a dot-notation path; missing intermediate objects yield undefined */
+export function getField(target: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => {
+    if (value === null || value === undefined) return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, target);
+}
+
+function resolve(operand: Operand, target: unknown): unknown {
+  return operand.kind === "field" ? getField(target, operand.path) : operand.value;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && !Number.isNaN(value);
+}
+
+function compare(left: unknown, operator: ComparisonOperator, right: unknown): boolean {
+  if (operator === "==") return looseEquals(left, right);
+  if (operator === "!=") return !looseEquals(left, right);
+
+  // Ordering comparisons against missing data never match
+  if (isNumber(left) && isNumber(right)) {
+    switch (operator) {
+      case "<":
+        return left < right;
+      case ">":
+        return left > right;
+      case "<=":
+        return left <= right;
+      case ">=":
+        return left >= right;
+    }
+  }
+  if (typeof left === "string" && typeof right === "string") {
+    switch (operator) {
+      case "<":
+        return left < right;
+      case ">":
+        return left > right;
+      case "<=":
+        return left <= right;
+      case ">=":
+        return left >= right;
+    }
+  }
+  return false;
+}
+
+// null and undefined are the same thing to a rule author
+function looseEquals(left: unknown, right: unknown): boolean {
+  if (left === undefined) left = null;
+  if (right === undefined) right = null;
+  return left === right;
+}
+
+export function evaluateCondition(condition: Condition, target: unknown): boolean {
+  switch (condition.type) {
+    case "logical":
+      return condition.op === "and"
+        ? condition.conditions.every((c) => evaluateCondition(c, target))
+        : condition.conditions.some((c) => evaluateCondition(c, target));
+    case "not":
+      return !evaluateCondition(condition.condition, target);
+    case "comparison":
+      return compare(
+        resolve(condition.left, target),
+        condition.operator,
+        resolve(condition.right, target)
+      );
+    case "exists": {
+      const value = getField(target, condition.field);
+      const exists = value !== null && value !== undefined;
+      return condition.negate ? !exists : exists;
+    }
+    case "in": {
+      const value = resolve(condition.left, target);
+      const found = condition.values.some((v) => looseEquals(value, resolve(v, target)));
+      return condition.negate ? !found : found;
+    }
+    case "between": {
+      const value = resolve(condition.left, target);
+      return (
+        compare(value, ">=", resolve(condition.low, target)) &&
+        compare(value, "<=", resolve(condition.high, target))
+      );
+    }
+    case "matches": {
+      const value = resolve(condition.left, target);
+      if (Array.isArray(value)) {
+        return value.some((v) => typeof v === "string" && condition.pattern.test(v.slice(0, MAX_MATCH_INPUT)));
+      }
+      return typeof value === "string" && condition.pattern.test(value.slice(0, MAX_MATCH_INPUT));
+    }
+    case "truthy": {
+      const value = resolve(condition.operand, target);
+      return Array.isArray(value) ? value.length > 0 : Boolean(value);
+    }
+  }
+}
+
+/** Every field path a condition reads, in order of appearance */
+export function conditionFields(condition: Condition): string[] {
+  const fields: string[] = [];
+  const add = (operand: Operand) => {
+    if (operand.kind === "field" && !fields.includes(operand.path)) {
+      fields.push(operand.path);
+    }
+  };
+
+  const walk = (c: Condition) => {
+    switch (c.type) {
+      case "logical":
+        c.conditions.forEach(walk);
+        break;
+      case "not":
+        walk(c.condition);
+        break;
+      case "comparison":
+        add(c.left);
+        add(c.right);
+        break;
+      case "exists":
+        add({ kind: "field", path: c.field });
+        break;
+      case "in":
+        add(c.left);
+        c.values.forEach(add);
+        break;
+      case "between":
+        add(c.left);
+        add(c.low);
+        add(c.high);
+        break;
+      case "matches":
+        add(c.left);
+        break;
+      case "truthy":
+        add(c.operand);
+        break;
+    }
+  };
+
+  walk(condition);
+  return fields;
+}
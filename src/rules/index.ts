@@ -0,0 +1,18 @@
+export { pageRules, RULES, runRules } from "./registry";
+export { normalizeAudit, withoutPageHtml, type NormalizeInput } from "./normalize";
+export {
+  compileProfile,
+  DEFAULT_PROFILE,
+  DEFAULT_PROFILE_NAME,
+  type ProfileFormat,
+  type ResolvedProfile,
+} from "./profile";
+export {
+  buildRecommendations,
+  calculatePenalty,
+  CATEGORIES,
+  DEFAULT_SCORING_CONFIG,
+  scoreFindings,
+  SEVERITY_BASE,
+} from "./scoring";
+export { diffScores, rescoreAudit, type ScoreDiff } from "./rescore";
@@ -0,0 +1,199 @@
+// Normalizes raw provider output (HTML fetch, PageSpeed, SEO APIs, STR checks)
+// into the single NormalizedAudit shape that rules read.
+
+import type { BookingFlowAnalysis } from "@/services/audit/checks/booking-flow";
+import type { PageContentAnalysis } from "@/services/audit/checks/page-content";
+import type { TrustSignalAnalysis } from "@/services/audit/checks/trust-signals";
+import type { PageSpeedResult, SEOMetrics } from "@/types/audit";
+import type {
+  CrawledPageSummary,
+  NormalizedAudit,
+  NormalizedPage,
+  PerfMetrics,
+} from "@/types/rules";
+
+export interface NormalizeInput {
+  domain: string;
+  url: string;
+  auditedAt?: string;
+  page: NormalizedPage;
+  // Every page crawled, homepage included; defaults to just `page`
+  crawled?: CrawledPageSummary[];
+  sitemap: { found: boolean; url: string } | null;
+  pageSpeed: PageSpeedResult | null;
+  pageSpeedDesktop?: PageSpeedResult | null;
+  seo: (SEOMetrics & { source?: string }) | null;
+  bookingFlow: BookingFlowAnalysis;
+  trustSignals: TrustSignalAnalysis;
+  pageContent: PageContentAnalysis;
+}
+
+export function normalizeAudit(input: NormalizeInput): NormalizedAudit {
+  const { page, pageSpeed, seo, bookingFlow, trustSignals, pageContent } = input;
+  const reachable = !page.error && page.status > 0 && page.status < 400;
+  const categories = pageSpeed?.lighthouseResult?.categories;
+
+  return {
+    inputs: {
+      domain: input.domain,
+      url: input.url,
+      auditedAt: input.auditedAt ?? new Date().toISOString(),
+    },
+    crawl: {
+      pages: {
+        home: reachable ? page : null,
+        crawled: input.crawled ?? [
+          { url: page.finalUrl, kind: "home", depth: 0, status: page.status },
+        ],
+      },
+      sitemap: input.sitemap,
+      booking: reachable
+        ? {
+            hasBookingCTA: bookingFlow.hasBookingCTA,
+            ctaText: bookingFlow.ctaText,
+            ctaLocation: bookingFlow.ctaLocation,
+            hasStickyCTA: bookingFlow.hasStickyCTA,
+            engine: bookingFlow.bookingEngine
+              ? { name: bookingFlow.bookingEngine.name, type: bookingFlow.bookingEngine.type }
+              : null,
+            crossDomain: bookingFlow.bookingEngine?.type === "redirect",
+            clickDepth: bookingFlow.estimatedClicksToBook,
+            clickDepthMeasured: bookingFlow.clicksMeasured,
+            frictionScore: bookingFlow.frictionScore,
+            hasDatePicker: bookingFlow.hasDatePicker,
+            hasInstantBook: bookingFlow.hasInstantBook,
+            hasPricing: bookingFlow.hasPricing,
+            showsFeesUpfront: bookingFlow.showsFeesUpfront,
+            hasCancellationPolicy: bookingFlow.hasCancellationPolicy,
+            requiresAccount: bookingFlow.requiresAccount,
+          }
+        : null,
+    },
+    perf: {
+      mobile: extractPerfMetrics(pageSpeed),
+      desktop: extractPerfMetrics(input.pageSpeedDesktop ?? null),
+      lighthouse: categories
+        ? {
+            performance: toPercent(categories.performance?.score),
+            accessibility: toPercent(categories.accessibility?.score),
+            seo: toPercent(categories.seo?.score),
+            bestPractices: toPercent(categories["best-practices"]?.score),
+          }
+        : null,
+      loadTimeMs: page.loadTimeMs,
+      pageSizeBytes: pageContent.pageSizeBytes,
+      hasMobileViewport: pageContent.hasMobileViewport,
+    },
+    trust: reachable
+      ? {
+          reviews: {
+            onSite: {
+              present: trustSignals.hasReviews,
+              source: trustSignals.reviewSource?.name ?? null,
+              verified: trustSignals.reviewSource?.isVerified ?? false,
+            },
+            count: trustSignals.reviewCount,
+            averageRating: trustSignals.averageRating,
+            latestAt: trustSignals.latestReviewDate,
+          },
+          identity: {
+            hasPhone: trustSignals.hasPhoneNumber,
+            hasEmail: trustSignals.hasEmailAddress,
+            hasAddress: trustSignals.hasPhysicalAddress,
+            hasAboutPage: trustSignals.hasAboutPage,
+          },
+          badges: trustSignals.trustBadges,
+          socialProfiles: trustSignals.hasSocialProfiles
+            .filter((p) => p.detected)
+            .map((p) => p.platform),
+          hasPrivacyPolicy: trustSignals.hasPrivacyPolicy,
+          hasTestimonials: trustSignals.hasTestimonials,
+          score: trustSignals.overallTrustScore,
+        }
+      : null,
+    content: reachable
+      ? {
+          imageCount: pageContent.imageCount,
+          heroImage: pageContent.heroImage,
+          hasVideo: pageContent.hasVideo,
+          wordCount: pageContent.wordCount,
+          hasDirectBookingBenefits: pageContent.hasDirectBookingBenefits,
+          hasLocalContent: pageContent.hasLocalContent,
+        }
+      : null,
+    seo: reachable
+      ? {
+          title: pageContent.title,
+          metaDescription: pageContent.metaDescription,
+          noindex:
+            pageContent.robotsNoindex ||
+            /noindex/i.test(page.headers["x-robots-tag"] || ""),
+          schemaTypes: pageContent.schemaTypes,
+          organic: seo
+            ? {
+                traffic: seo.organic_traffic ?? null,
+                keywords: seo.organic_keywords ?? null,
+                backlinks: seo.backlinks ?? null,
+                authorityScore: seo.authority_score ?? null,
+                source: seo.source ?? null,
+              }
+            : null,
+        }
+      : null,
+    security: {
+      reachable,
+      tls: { hasHttps: reachable && page.finalUrl.startsWith("https://") },
+      mixedContentUrls: pageContent.mixedContentUrls,
+    },
+  };
+}
+
+/** Drops fetched HTML so the audit is small enough to store with the result */
+export function withoutPageHtml(audit: NormalizedAudit): NormalizedAudit {
+  const home = audit.crawl.pages.home;
+  return {
+    ...audit,
+    crawl: {
+      ...audit.crawl,
+      pages: { ...audit.crawl.pages, home: home ? { ...home, html: "" } : null },
+    },
+  };
+}
+
+function toPercent(score: number | undefined): number | null {
+  return typeof score === "number" ? Math.round(score * 100) : null;
+}
+
+// CrUX field data first, Lighthouse lab data as fallback
+export function extractPerfMetrics(data: PageSpeedResult | null): PerfMetrics | null {
+  if (!data) return null;
+
+  const crux = data.loadingExperience?.metrics;
+  if (crux?.LARGEST_CONTENTFUL_PAINT_MS) {
+    return {
+      lcpMs: crux.LARGEST_CONTENTFUL_PAINT_MS.percentile,
+      // CrUX reports CLS × 100
+      cls: crux.CUMULATIVE_LAYOUT_SHIFT_SCORE
+        ? crux.CUMULATIVE_LAYOUT_SHIFT_SCORE.percentile / 100
+        : null,
+      inpMs: crux.INTERACTION_TO_NEXT_PAINT?.percentile ?? null,
+      tbtMs: data.lighthouseResult?.audits["total-blocking-time"]?.numericValue ?? null,
+      fcpMs: crux.FIRST_CONTENTFUL_PAINT_MS?.percentile ?? null,
+      source: "field",
+    };
+  }
+
+  const audits = data.lighthouseResult?.audits;
+  if (audits) {
+    return {
+      lcpMs: audits["largest-contentful-paint"]?.numericValue ?? null,
+      cls: audits["cumulative-layout-shift"]?.numericValue ?? null,
+      inpMs: null, // INP is field-only
+      tbtMs: audits["total-blocking-time"]?.numericValue ?? null,
+      fcpMs: audits["first-contentful-paint"]?.numericValue ?? null,
+      source: "lab",
+    };
+  }
+
+  return null;
+}
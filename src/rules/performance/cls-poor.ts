@@ -0,0 +1,41 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "performance.cls_poor";
+
+const THRESHOLD = 0.1;
+const BLOCKER = 0.25;
+
+export const meta: RuleModule["meta"] = {
+  category: "performance",
+  label: "Cumulative Layout Shift (CLS)",
+  requires: (audit) => audit.perf.mobile?.cls != null,
+  passMessage: (audit) =>
+    `Mobile CLS: ${(audit.perf.mobile?.cls ?? 0).toFixed(2)} (threshold: ${THRESHOLD})`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const cls = audit.perf.mobile?.cls;
+  if (cls == null) return null;
+
+  if (cls <= THRESHOLD) return null;
+
+  const isBlocker = cls > BLOCKER;
+  const severity = isBlocker ? "blocker" : "major";
+  const impact = isBlocker ? 0.75 : 0.55;
+  const confidence = 0.85;
+
+  return {
+    id: RULE_ID,
+    title: "Cumulative Layout Shift too high",
+    category: "performance",
+    severity,
+    impact,
+    confidence,
+    penalty: calculatePenalty(severity, impact, confidence),
+    evidence: [`Mobile CLS: ${cls.toFixed(2)} (threshold: ${THRESHOLD})`],
+    fix: "Set explicit width/height on images, reserve space for dynamic content and avoid inserting content above existing content.",
+    effort: "medium",
+    tags: ["mobile", "core_web_vitals"],
+  };
+}
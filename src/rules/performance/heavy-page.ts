@@ -0,0 +1,40 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "performance.heavy_page";
+
+const THRESHOLD_BYTES = 500_000;
+
+export const meta: RuleModule["meta"] = {
+  category: "performance",
+  label: "Page Size",
+  requires: (audit) => audit.crawl.pages.home !== null,
+  passMessage: (audit) =>
+    `Page is ${(audit.perf.pageSizeBytes / 1024).toFixed(0)}KB - acceptable size`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.crawl.pages.home) return null;
+
+  const size = audit.perf.pageSizeBytes;
+  if (size < THRESHOLD_BYTES) return null;
+
+  const impact = 0.4;
+  const confidence = 0.8;
+
+  return {
+    id: RULE_ID,
+    title: "HTML document is heavy",
+    category: "performance",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: [
+      `HTML size: ${(size / 1024).toFixed(0)}KB (threshold: ${(THRESHOLD_BYTES / 1024).toFixed(0)}KB)`,
+    ],
+    fix: "Remove inlined assets and unused markup, and reduce page weight.",
+    effort: "medium",
+    tags: ["speed"],
+  };
+}
@@ -0,0 +1,18 @@
+import type { RuleModule } from "@/types/rules";
+import * as clsPoor from "./cls-poor";
+import * as heavyPage from "./heavy-page";
+import * as inpHigh from "./inp-high";
+import * as missingViewport from "./missing-viewport";
+import * as mobileLcpSlow from "./mobile-lcp-slow";
+import * as slowResponse from "./slow-response";
+import * as tbtHigh from "./tbt-high";
+
+export const performanceRules: RuleModule[] = [
+  mobileLcpSlow,
+  clsPoor,
+  inpHigh,
+  tbtHigh,
+  missingViewport,
+  slowResponse,
+  heavyPage,
+];
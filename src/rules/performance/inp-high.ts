@@ -0,0 +1,42 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "performance.inp_high";
+
+const THRESHOLD_MS = 200;
+const BLOCKER_MS = 500;
+
+export const meta: RuleModule["meta"] = {
+  category: "performance",
+  label: "Interaction to Next Paint (INP)",
+  requires: (audit) => audit.perf.mobile?.inpMs != null,
+  passMessage: (audit) =>
+    `Mobile INP: ${audit.perf.mobile?.inpMs}ms (threshold: ${THRESHOLD_MS}ms)`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  // INP only exists in field data
+  const inp = audit.perf.mobile?.inpMs;
+  if (inp == null) return null;
+
+  if (inp <= THRESHOLD_MS) return null;
+
+  const isBlocker = inp > BLOCKER_MS;
+  const severity = isBlocker ? "blocker" : "major";
+  const impact = isBlocker ? 0.8 : 0.6;
+  const confidence = 0.9;
+
+  return {
+    id: RULE_ID,
+    title: "Interaction to Next Paint too slow",
+    category: "performance",
+    severity,
+    impact,
+    confidence,
+    penalty: calculatePenalty(severity, impact, confidence),
+    evidence: [`Mobile INP: ${inp}ms (threshold: ${THRESHOLD_MS}ms)`],
+    fix: "Break up long JavaScript tasks, defer non-critical scripts and optimize event handlers.",
+    effort: "high",
+    tags: ["mobile", "core_web_vitals"],
+  };
+}
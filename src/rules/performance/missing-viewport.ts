@@ -0,0 +1,36 @@
+import { calculatePenalty } from "../scoring";
+import { PAGE_KINDS } from "@/services/audit/crawler";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "performance.missing_viewport";
+
+export const meta: RuleModule["meta"] = {
+  category: "performance",
+  label: "Mobile Viewport",
+  pageKinds: PAGE_KINDS,
+  requires: (audit) => audit.crawl.pages.home !== null,
+  passMessage: () => "Mobile viewport configured correctly",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.crawl.pages.home) return null;
+
+  if (audit.perf.hasMobileViewport) return null;
+
+  const impact = 0.7;
+  const confidence = 0.9;
+
+  return {
+    id: RULE_ID,
+    title: "Missing mobile viewport meta tag",
+    category: "performance",
+    severity: "major",
+    impact,
+    confidence,
+    penalty: calculatePenalty("major", impact, confidence),
+    evidence: ['No <meta name="viewport" content="width=device-width"> found'],
+    fix: 'Add <meta name="viewport" content="width=device-width, initial-scale=1"> so the site renders properly on phones.',
+    effort: "low",
+    tags: ["mobile"],
+  };
+}
@@ -0,0 +1,48 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "performance.mobile_lcp_slow";
+
+const THRESHOLD_MS = 3000;
+const BLOCKER_MS = 5000;
+
+export const meta: RuleModule["meta"] = {
+  category: "performance",
+  label: "Largest Contentful Paint (LCP)",
+  requires: (audit) => audit.perf.mobile?.lcpMs != null,
+  passMessage: (audit) =>
+    `Mobile LCP: ${formatSeconds(audit.perf.mobile?.lcpMs ?? 0)} (threshold: ${formatSeconds(THRESHOLD_MS)})`,
+};
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const lcp = audit.perf.mobile?.lcpMs;
+  if (lcp == null) return null;
+
+  if (lcp <= THRESHOLD_MS) return null;
+
+  const isBlocker = lcp > BLOCKER_MS;
+  const severity = isBlocker ? "blocker" : "major";
+  const impact = isBlocker ? 0.9 : 0.7;
+  const confidence = audit.perf.mobile?.source === "field" ? 0.95 : 0.85;
+
+  return {
+    id: RULE_ID,
+    title: "Mobile Largest Contentful Paint too slow",
+    category: "performance",
+    severity,
+    impact,
+    confidence,
+    penalty: calculatePenalty(severity, impact, confidence),
+    evidence: [
+      `Mobile LCP: ${formatSeconds(lcp)} (threshold: ${formatSeconds(THRESHOLD_MS)})`,
+      `Source: ${audit.perf.mobile?.source === "field" ? "Chrome UX Report (field)" : "Lighthouse (lab)"}`,
+    ],
+    fix: "Optimize images (compress, use WebP), lazy-load below-the-fold media, use a CDN and reduce server response time.",
+    effort: "medium",
+    tags: ["mobile", "core_web_vitals"],
+  };
+}
@@ -0,0 +1,40 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "performance.slow_response";
+
+const THRESHOLD_MS = 2000;
+const MAJOR_MS = 4000;
+
+export const meta: RuleModule["meta"] = {
+  category: "performance",
+  label: "Page Load Time",
+  requires: (audit) => audit.crawl.pages.home !== null,
+  passMessage: (audit) => `Page loaded in ${audit.perf.loadTimeMs}ms - good performance`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.crawl.pages.home) return null;
+
+  const loadTime = audit.perf.loadTimeMs;
+  if (loadTime < THRESHOLD_MS) return null;
+
+  const isMajor = loadTime >= MAJOR_MS;
+  const severity = isMajor ? "major" : "minor";
+  const impact = isMajor ? 0.6 : 0.45;
+  const confidence = 0.6; // Single fetch from our server, not a real device
+
+  return {
+    id: RULE_ID,
+    title: "Server response too slow",
+    category: "performance",
+    severity,
+    impact,
+    confidence,
+    penalty: calculatePenalty(severity, impact, confidence),
+    evidence: [`HTML fetched in ${loadTime}ms (threshold: ${THRESHOLD_MS}ms)`],
+    fix: "Enable server-side caching, use a CDN and upgrade slow hosting.",
+    effort: "medium",
+    tags: ["speed"],
+  };
+}
@@ -0,0 +1,41 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "performance.tbt_high";
+
+const THRESHOLD_MS = 300;
+const BLOCKER_MS = 600;
+
+export const meta: RuleModule["meta"] = {
+  category: "performance",
+  label: "Total Blocking Time (TBT)",
+  requires: (audit) => audit.perf.mobile?.tbtMs != null,
+  passMessage: (audit) =>
+    `Mobile TBT: ${Math.round(audit.perf.mobile?.tbtMs ?? 0)}ms (threshold: ${THRESHOLD_MS}ms)`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const tbt = audit.perf.mobile?.tbtMs;
+  if (tbt == null) return null;
+
+  if (tbt <= THRESHOLD_MS) return null;
+
+  const isBlocker = tbt > BLOCKER_MS;
+  const severity = isBlocker ? "blocker" : "major";
+  const impact = isBlocker ? 0.75 : 0.55;
+  const confidence = 0.8; // Lab metric
+
+  return {
+    id: RULE_ID,
+    title: "Total Blocking Time too high",
+    category: "performance",
+    severity,
+    impact,
+    confidence,
+    penalty: calculatePenalty(severity, impact, confidence),
+    evidence: [`Mobile TBT: ${Math.round(tbt)}ms (threshold: ${THRESHOLD_MS}ms)`],
+    fix: "Defer non-critical JavaScript, remove unused code and code-split large bundles.",
+    effort: "high",
+    tags: ["mobile", "core_web_vitals"],
+  };
+}
@@ -0,0 +1,393 @@
+// Scoring profiles: YAML/JSON documents that re-weight categories, adjust
+// penalties and clamps, disable or modify built-in rules and add DSL rules.
+// The format is described in docs/plans/scoring-dsl.md; a minimal profile:
+//
+//   description: Q1 outbound - conversion heavy
+//   weights: { conversion: 50, performance: 15 }
+//   overrides:
+//     - ruleId: trust.no_social_profiles
+//       action: disable
+//   rules:
+//     - id: performance.mobile_lcp_slow
+//       when: perf.mobile.lcpMs > 4000
+//       then: { severity: major, impact: 0.5, title: "Mobile LCP over 4s" }
+
+import yaml from "js-yaml";
+import { PAGE_KINDS } from "@/services/audit/crawler";
+import type {
+  Effort,
+  PageKind,
+  RuleCategory,
+  RuleModule,
+  RuleOverride,
+  ScoringConfig,
+  ScoringProfileDefinition,
+  Severity,
+} from "@/types/rules";
+import { compileRule } from "./dsl/compile";
+import { RULES } from "./registry";
+import { calculatePenalty, CATEGORIES, DEFAULT_SCORING_CONFIG, SEVERITY_BASE } from "./scoring";
+
+export type ProfileFormat = "yaml" | "json";
+
+export interface ResolvedProfile {
+  name: string;
+  description: string | null;
+  rules: RuleModule[];
+  config: ScoringConfig;
+}
+
+// Name the built-in rules and weights are reported under
+export const DEFAULT_PROFILE_NAME = "default";
+
+export const DEFAULT_PROFILE: ResolvedProfile = {
+  name: DEFAULT_PROFILE_NAME,
+  description: "Built-in rules and weights",
+  rules: RULES,
+  config: DEFAULT_SCORING_CONFIG,
+};
+
+const CATEGORY_IDS = CATEGORIES.map((c) => c.id);
+const SEVERITIES = Object.keys(SEVERITY_BASE) as Severity[];
+const EFFORTS: Effort[] = ["low", "medium", "high"];
+const RULE_ID_PATTERN = /^[a-z]+\.[a-z0-9_]+$/;
+// Finding fields an override may change; the rest (id, category, penalty...)
+// belong to the rule
+const MODIFIABLE_FIELDS = ["severity", "impact", "confidence"] as const;
+
+/**
+ * Parses, validates and compiles a profile document. Throws an Error listing
+ * every problem found, so the admin UI can show them all at once.
+ */
+export function compileProfile(
+  name: string,
+  source: string,
+  format: ProfileFormat
+): ResolvedProfile {
+  let raw: unknown;
+  try {
+    raw = format === "json" ? JSON.parse(source) : yaml.load(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split("\n")[0] : String(error);
+    throw new Error(`Invalid ${format.toUpperCase()}: ${message}`);
+  }
+
+  const errors = validateDefinition(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid scoring profile: ${errors.join("; ")}`);
+  }
+
+  const definition = (raw ?? {}) as ScoringProfileDefinition;
+  const dslRules: RuleModule[] = [];
+  for (const def of definition.rules ?? []) {
+    try {
+      dslRules.push(compileRule(def, definition.defaults));
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const knownIds = new Set([...RULES, ...dslRules].map((r) => r.RULE_ID));
+  for (const override of definition.overrides ?? []) {
+    if (!knownIds.has(override.ruleId)) {
+      errors.push(`override references unknown rule "${override.ruleId}"`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid scoring profile: ${errors.join("; ")}`);
+  }
+
+  const config: ScoringConfig = {
+    weights: { ...DEFAULT_SCORING_CONFIG.weights, ...definition.weights },
+    severityBase: { ...DEFAULT_SCORING_CONFIG.severityBase, ...definition.severityBase },
+    clamps: { ...DEFAULT_SCORING_CONFIG.clamps, ...definition.clamps },
+  };
+
+  return {
+    name,
+    description: definition.description ?? null,
+    rules: applyOverrides(
+      mergeRules(RULES, dslRules),
+      definition.overrides ?? [],
+      definition.severityBase ? config.severityBase : null
+    ),
+    config,
+  };
+}
+
+// DSL rules replace built-in rules with the same id, in place; new ids go last
+function mergeRules(builtIn: RuleModule[], dslRules: RuleModule[]): RuleModule[] {
+  const byId = new Map(dslRules.map((r) => [r.RULE_ID, r]));
+  const builtInIds = new Set(builtIn.map((r) => r.RULE_ID));
+
+  return [
+    ...builtIn.map((r) => byId.get(r.RULE_ID) ?? r),
+    ...dslRules.filter((r) => !builtInIds.has(r.RULE_ID)),
+  ];
+}
+
+function applyOverrides(
+  rules: RuleModule[],
+  overrides: RuleOverride[],
+  severityBase: Record<Severity, number> | null
+): RuleModule[] {
+  const disabled = new Set(
+    overrides.filter((o) => o.action === "disable").map((o) => o.ruleId)
+  );
+  const modifications = new Map(
+    overrides
+      .filter((o) => o.action === "modify")
+      .map((o) => [o.ruleId, pickModifications(o.modifications ?? {})])
+  );
+
+  return rules
+    .filter((rule) => !disabled.has(rule.RULE_ID))
+    .map((rule) => {
+      const mods = modifications.get(rule.RULE_ID);
+      if (!mods && !severityBase) return rule;
+
+      return {
+        ...rule,
+        evaluate: (audit) => {
+          const finding = rule.evaluate(audit);
+          if (!finding) return null;
+
+          const adjusted = { ...finding, ...mods };
+          return {
+            ...adjusted,
+            penalty: calculatePenalty(
+              adjusted.severity,
+              adjusted.impact,
+              adjusted.confidence,
+              severityBase ?? SEVERITY_BASE
+            ),
+          };
+        },
+      };
+    });
+}
+
+function pickModifications(
+  modifications: NonNullable<RuleOverride["modifications"]>
+): NonNullable<RuleOverride["modifications"]> {
+  return Object.fromEntries(
+    MODIFIABLE_FIELDS.filter((field) => modifications[field] !== undefined).map((field) => [
+      field,
+      modifications[field],
+    ])
+  );
+}
+
+function validateDefinition(raw: unknown): string[] {
+  // An empty document is a valid profile: the built-in defaults
+  if (raw === null || raw === undefined) return [];
+  if (!isObject(raw)) return ["profile must be a mapping/object"];
+
+  const errors: string[] = [];
+  const def = raw as Record<string, unknown>;
+
+  if (def.weights !== undefined) {
+    if (!isObject(def.weights)) {
+      errors.push("weights must be a mapping of category to number");
+    } else {
+      for (const [key, value] of Object.entries(def.weights)) {
+        if (!CATEGORY_IDS.includes(key as RuleCategory)) {
+          errors.push(`weights.${key}: unknown category (expected ${CATEGORY_IDS.join(", ")})`);
+        } else if (!isNumberInRange(value, 0, Infinity)) {
+          errors.push(`weights.${key} must be a non-negative number`);
+        }
+      }
+      const total = CATEGORY_IDS.reduce((sum, id) => {
+        const value = (def.weights as Record<string, unknown>)[id];
+        return sum + (typeof value === "number" ? value : DEFAULT_SCORING_CONFIG.weights[id]);
+      }, 0);
+      if (total <= 0) errors.push("weights must not all be zero");
+    }
+  }
+
+  if (def.severityBase !== undefined) {
+    if (!isObject(def.severityBase)) {
+      errors.push("severityBase must be a mapping of severity to number");
+    } else {
+      for (const [key, value] of Object.entries(def.severityBase)) {
+        if (!SEVERITIES.includes(key as Severity)) {
+          errors.push(`severityBase.${key}: unknown severity`);
+        } else if (!isNumberInRange(value, 0, 100)) {
+          errors.push(`severityBase.${key} must be between 0 and 100`);
+        }
+      }
+    }
+  }
+
+  if (def.clamps !== undefined) {
+    if (!isObject(def.clamps)) {
+      errors.push("clamps must be a mapping");
+    } else {
+      for (const [key, value] of Object.entries(def.clamps)) {
+        if (key !== "conversionBlocker" && key !== "noHttps") {
+          errors.push(`clamps.${key}: unknown clamp`);
+        } else if (value !== null && !isNumberInRange(value, 0, 100)) {
+          errors.push(`clamps.${key} must be between 0 and 100, or null to disable`);
+        }
+      }
+    }
+  }
+
+  if (def.defaults !== undefined) {
+    if (!isObject(def.defaults)) {
+      errors.push("defaults must be a mapping");
+    } else {
+      errors.push(...validateFindingFields("defaults", def.defaults));
+      const category = def.defaults.category;
+      if (category !== undefined && !CATEGORY_IDS.includes(category as RuleCategory)) {
+        errors.push(`defaults.category: unknown category "${category}"`);
+      }
+    }
+  }
+
+  if (def.rules !== undefined) {
+    if (!Array.isArray(def.rules)) {
+      errors.push("rules must be a list");
+    } else {
+      const seen = new Set<string>();
+      def.rules.forEach((rule, index) => {
+        const ruleErrors = validateRule(rule, index, def.defaults);
+        errors.push(...ruleErrors);
+        const id = isObject(rule) ? rule.id : undefined;
+        if (typeof id === "string") {
+          if (seen.has(id)) errors.push(`rules: duplicate id "${id}"`);
+          seen.add(id);
+        }
+      });
+    }
+  }
+
+  if (def.overrides !== undefined) {
+    if (!Array.isArray(def.overrides)) {
+      errors.push("overrides must be a list");
+    } else {
+      def.overrides.forEach((override, index) => {
+        const at = `overrides[${index}]`;
+        if (!isObject(override)) {
+          errors.push(`${at} must be a mapping`);
+          return;
+        }
+        if (typeof override.ruleId !== "string") {
+          errors.push(`${at}.ruleId is required`);
+        }
+        if (override.action !== "disable" && override.action !== "modify") {
+          errors.push(`${at}.action must be "disable" or "modify"`);
+        }
+        if (override.modifications !== undefined) {
+          if (!isObject(override.modifications)) {
+            errors.push(`${at}.modifications must be a mapping`);
+          } else {
+            for (const key of Object.keys(override.modifications)) {
+              if (!(MODIFIABLE_FIELDS as readonly string[]).includes(key)) {
+                errors.push(
+                  `${at}.modifications.${key}: can't be overridden (expected ${MODIFIABLE_FIELDS.join(", ")})`
+                );
+              }
+            }
+            errors.push(...validateFindingFields(`${at}.modifications`, override.modifications));
+          }
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+function validateRule(
+  rule: unknown,
+  index: number,
+  defaults: unknown
+): string[] {
+  if (!isObject(rule)) return [`rules[${index}] must be a mapping`];
+
+  const errors: string[] = [];
+  const at = typeof rule.id === "string" ? rule.id : `rules[${index}]`;
+
+  if (typeof rule.id !== "string" || !RULE_ID_PATTERN.test(rule.id)) {
+    errors.push(`${at}: id must look like "category.rule_name"`);
+  }
+  if (typeof rule.when !== "string") {
+    errors.push(`${at}: when is required`);
+  }
+  if (rule.requires !== undefined && typeof rule.requires !== "string") {
+    errors.push(`${at}: requires must be a condition string`);
+  }
+
+  const category =
+    rule.category ??
+    (isObject(defaults) ? defaults.category : undefined) ??
+    (typeof rule.id === "string" ? rule.id.split(".")[0] : undefined);
+  if (!CATEGORY_IDS.includes(category as RuleCategory)) {
+    errors.push(`${at}: unknown category "${category}"`);
+  }
+
+  if (!isObject(rule.then)) {
+    errors.push(`${at}: then is required`);
+  } else {
+    if (rule.then.severity === undefined) {
+      errors.push(`${at}: then.severity is required`);
+    }
+    if (rule.then.impact === undefined) {
+      errors.push(`${at}: then.impact is required`);
+    }
+    if (typeof rule.then.title !== "string") {
+      errors.push(`${at}: then.title is required`);
+    }
+    errors.push(...validateFindingFields(`${at}: then`, rule.then));
+  }
+
+  if (rule.escalate !== undefined) {
+    if (!isObject(rule.escalate) || typeof rule.escalate.when !== "string" || !isObject(rule.escalate.to)) {
+      errors.push(`${at}: escalate needs "when" and "to"`);
+    } else {
+      errors.push(...validateFindingFields(`${at}: escalate.to`, rule.escalate.to));
+    }
+  }
+
+  if (rule.tags !== undefined && !Array.isArray(rule.tags)) {
+    errors.push(`${at}: tags must be a list`);
+  }
+  if (
+    rule.pageKinds !== undefined &&
+    (!Array.isArray(rule.pageKinds) ||
+      rule.pageKinds.some((k) => !PAGE_KINDS.includes(k as PageKind)))
+  ) {
+    errors.push(`${at}: pageKinds must be a list of ${PAGE_KINDS.join(", ")}`);
+  }
+
+  return errors;
+}
+
+// Checks the optional severity/impact/confidence/effort fields shared by
+// finding templates, escalations, overrides and defaults
+function validateFindingFields(at: string, fields: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  if (fields.severity !== undefined && !SEVERITIES.includes(fields.severity as Severity)) {
+    errors.push(`${at}.severity must be one of ${SEVERITIES.join(", ")}`);
+  }
+  if (fields.impact !== undefined && !isNumberInRange(fields.impact, 0, 1)) {
+    errors.push(`${at}.impact must be between 0 and 1`);
+  }
+  if (fields.confidence !== undefined && !isNumberInRange(fields.confidence, 0, 1)) {
+    errors.push(`${at}.confidence must be between 0 and 1`);
+  }
+  if (fields.effort !== undefined && !EFFORTS.includes(fields.effort as Effort)) {
+    errors.push(`${at}.effort must be one of ${EFFORTS.join(", ")}`);
+  }
+  return errors;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumberInRange(value: unknown, min: number, max: number): boolean {
+  return typeof value === "number" && !Number.isNaN(value) && value >= min && value <= max;
+}
@@ -0,0 +1,44 @@
+// Rule registry
+// Every rule module under src/rules/{category}/ is registered here via its
+// category index. See content/docs/scoring/extending.mdx for adding rules.
+
+import type { Finding, NormalizedAudit, PageKind, RuleModule } from "@/types/rules";
+import { contentRules } from "./content";
+import { conversionRules } from "./conversion";
+import { performanceRules } from "./performance";
+import { securityRules } from "./security";
+import { seoRules } from "./seo";
+import { trustRules } from "./trust";
+
+export const RULES: RuleModule[] = [
+  ...conversionRules,
+  ...performanceRules,
+  ...trustRules,
+  ...contentRules,
+  ...seoRules,
+  ...securityRules,
+];
+
+export function runRules(
+  audit: NormalizedAudit,
+  rules: RuleModule[] = RULES
+): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const rule of rules) {
+    try {
+      const finding = rule.evaluate(audit);
+      if (finding) findings.push(finding);
+    } catch (error) {
+      // A broken rule should never take down the whole audit
+      console.error(`[Rules] ${rule.RULE_ID} threw:`, error);
+    }
+  }
+
+  return findings;
+}
+
+// Rules that are also evaluated against individual crawled pages of this kind
+export function pageRules(kind: PageKind, rules: RuleModule[] = RULES): RuleModule[] {
+  return rules.filter((rule) => rule.meta.pageKinds?.includes(kind));
+}
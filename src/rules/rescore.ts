@@ -0,0 +1,140 @@
+// Re-scores a stored audit under a (possibly different) scoring profile and
+// reports what changed. Audits saved with their rule inputs are re-run
+// through the rules; older audits only get their category scores re-weighted.
+
+import { withAuditMeta } from "@/lib/audit-schema";
+import type { AuditCategory, AuditResult } from "@/types/audit";
+import type { Finding } from "@/types/rules";
+import type { ResolvedProfile } from "./profile";
+import { runRules } from "./registry";
+import { buildRecommendations, CATEGORIES, scoreFindings, weightedScore } from "./scoring";
+
+export interface ScoreDiff {
+  // reanalysis: detectors re-run on the audit's snapshot (see reanalyzeAudit)
+  mode: "rules" | "reweight" | "reanalysis";
+  overall: { oldScore: number; newScore: number; diff: number };
+  projected: { oldScore: number; newScore: number; diff: number };
+  categories: Array<{
+    name: string;
+    oldScore: number;
+    newScore: number;
+    diff: number;
+    oldWeight: number;
+    newWeight: number;
+  }>;
+  findings: {
+    added: Array<{ id: string; title: string; severity: Finding["severity"] }>;
+    removed: Array<{ id: string; title: string; severity: Finding["severity"] }>;
+    changed: Array<{
+      id: string;
+      title: string;
+      oldSeverity: Finding["severity"];
+      newSeverity: Finding["severity"];
+      oldPenalty: number;
+      newPenalty: number;
+    }>;
+  };
+}
+
+export function rescoreAudit(
+  result: AuditResult,
+  profile: ResolvedProfile
+): { result: AuditResult; diff: ScoreDiff } {
+  const rescored = result.normalized
+    ? rescoreFromRules(result, profile)
+    : reweightCategories(result, profile);
+
+  return {
+    result: {
+      ...rescored,
+      meta: withAuditMeta(result, {
+        scoringProfile: profile.name,
+        recalculatedAt: new Date().toISOString(),
+      }),
+    },
+    diff: diffScores(result, rescored, result.normalized ? "rules" : "reweight"),
+  };
+}
+
+function rescoreFromRules(result: AuditResult, profile: ResolvedProfile): AuditResult {
+  const audit = result.normalized!;
+  const findings = runRules(audit, profile.rules);
+  const scores = scoreFindings(findings, audit, profile.config);
+
+  return {
+    ...result,
+    overallScore: scores.overall,
+    projectedScore: scores.projected,
+    categories: scores.categories,
+    recommendations: buildRecommendations(profile.rules, findings, audit),
+    findings,
+  };
+}
+
+// Without rule inputs we can only apply the profile's weights to the
+// category scores we already have
+function reweightCategories(result: AuditResult, profile: ResolvedProfile): AuditResult {
+  const categories: AuditCategory[] = result.categories.map((cat) => {
+    const id = CATEGORIES.find((c) => c.name === cat.name)?.id;
+    return id ? { ...cat, weight: profile.config.weights[id] } : cat;
+  });
+  const overall = weightedScore(categories);
+
+  return {
+    ...result,
+    overallScore: overall,
+    projectedScore: Math.max(overall, result.projectedScore),
+    categories,
+  };
+}
+
+export function diffScores(
+  before: AuditResult,
+  after: AuditResult,
+  mode: ScoreDiff["mode"]
+): ScoreDiff {
+  const oldFindings = new Map((before.findings ?? []).map((f) => [f.id, f]));
+  const newFindings = new Map((after.findings ?? []).map((f) => [f.id, f]));
+  const summary = (f: Finding) => ({ id: f.id, title: f.title, severity: f.severity });
+
+  return {
+    mode,
+    overall: change(before.overallScore, after.overallScore),
+    projected: change(before.projectedScore, after.projectedScore),
+    categories: after.categories.map((cat) => {
+      const old = before.categories.find((c) => c.name === cat.name);
+      return {
+        name: cat.name,
+        oldScore: old?.score ?? 0,
+        newScore: cat.score,
+        diff: cat.score - (old?.score ?? 0),
+        oldWeight: old?.weight ?? 0,
+        newWeight: cat.weight,
+      };
+    }),
+    findings: {
+      added: [...newFindings.values()].filter((f) => !oldFindings.has(f.id)).map(summary),
+      removed: [...oldFindings.values()].filter((f) => !newFindings.has(f.id)).map(summary),
+      changed: [...newFindings.values()]
+        .filter((f) => {
+          const old = oldFindings.get(f.id);
+          return old && (old.severity !== f.severity || old.penalty !== f.penalty);
+        })
+        .map((f) => {
+          const old = oldFindings.get(f.id)!;
+          return {
+            id: f.id,
+            title: f.title,
+            oldSeverity: old.severity,
+            newSeverity: f.severity,
+            oldPenalty: old.penalty,
+            newPenalty: f.penalty,
+          };
+        }),
+    },
+  };
+}
+
+function change(oldScore: number, newScore: number) {
+  return { oldScore, newScore, diff: newScore - oldScore };
+}
@@ -0,0 +1,207 @@
+// Scoring: turns rule findings into category scores, an overall score and
+// the recommendation rows the report components render.
+//
+//   Category Score = max(0, 100 - Σ penalties)
+//   Overall Score  = Σ (category_score × weight)
+//   Penalty        = severity_base × impact × confidence
+
+import type { AuditCategory, AuditRecommendation } from "@/types/audit";
+import type {
+  Finding,
+  NormalizedAudit,
+  RuleCategory,
+  RuleModule,
+  ScoringConfig,
+  Severity,
+} from "@/types/rules";
+
+export const SEVERITY_BASE: Record<Severity, number> = {
+  blocker: 35,
+  major: 18,
+  minor: 8,
+  trivial: 4,
+};
+
+export const CATEGORIES: Array<{
+  id: RuleCategory;
+  name: string;
+  weight: number;
+  description: string;
+}> = [
+  { id: "conversion", name: "Conversion", weight: 35, description: "Booking flow and calls-to-action" },
+  { id: "performance", name: "Performance", weight: 20, description: "Page speed and mobile experience" },
+  { id: "trust", name: "Trust", weight: 20, description: "Reviews, ratings, and credibility" },
+  { id: "content", name: "Content", weight: 15, description: "Images and property descriptions" },
+  { id: "seo", name: "SEO", weight: 7, description: "Search engine optimization" },
+  { id: "security", name: "Security", weight: 3, description: "SSL and data protection" },
+];
+
+// Used when no scoring profile is selected; profiles override any part of it.
+// Clamps are the safety caps described in content/docs/scoring.
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  weights: Object.fromEntries(CATEGORIES.map((c) => [c.id, c.weight])) as Record<
+    RuleCategory,
+    number
+  >,
+  severityBase: SEVERITY_BASE,
+  clamps: {
+    conversionBlocker: 69,
+    noHttps: 59,
+  },
+};
+
+export function calculatePenalty(
+  severity: Severity,
+  impact: number,
+  confidence: number,
+  severityBase: Record<Severity, number> = SEVERITY_BASE
+): number {
+  return Math.round(severityBase[severity] * impact * confidence * 100) / 100;
+}
+
+export function categoryName(id: RuleCategory): string {
+  return CATEGORIES.find((c) => c.id === id)?.name ?? id;
+}
+
+export interface ScoringOutput {
+  overall: number;
+  projected: number;
+  categories: AuditCategory[];
+}
+
+export function scoreFindings(
+  findings: Finding[],
+  audit: NormalizedAudit,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): ScoringOutput {
+  const categories = CATEGORIES.map((cat) => {
+    const penalties = findings
+      .filter((f) => f.category === cat.id)
+      .reduce((sum, f) => sum + f.penalty, 0);
+
+    return {
+      name: cat.name,
+      score: Math.max(0, Math.round(100 - penalties)),
+      weight: config.weights[cat.id],
+      description: cat.description,
+      source: categorySource(cat.id, audit),
+    };
+  });
+
+  const overall = applyClamps(weightedScore(categories), findings, config);
+
+  // Projected score: what the site would score with every blocker fixed
+  const withoutBlockers = findings.filter((f) => f.severity !== "blocker");
+  const projectedCategories = CATEGORIES.map((cat) => ({
+    score: Math.max(
+      0,
+      Math.round(
+        100 -
+          withoutBlockers
+            .filter((f) => f.category === cat.id)
+            .reduce((sum, f) => sum + f.penalty, 0)
+      )
+    ),
+    weight: config.weights[cat.id],
+  }));
+  const projected = Math.max(
+    overall,
+    applyClamps(weightedScore(projectedCategories), withoutBlockers, config)
+  );
+
+  return { overall, projected, categories };
+}
+
+export function weightedScore(categories: Array<{ score: number; weight: number }>): number {
+  const totalWeight = categories.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight === 0) return 0;
+  return Math.round(
+    categories.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight
+  );
+}
+
+function applyClamps(score: number, findings: Finding[], config: ScoringConfig): number {
+  const { conversionBlocker, noHttps } = config.clamps;
+  let clamped = score;
+  if (
+    conversionBlocker !== null &&
+    findings.some((f) => f.category === "conversion" && f.severity === "blocker")
+  ) {
+    clamped = Math.min(clamped, conversionBlocker);
+  }
+  if (noHttps !== null && findings.some((f) => f.id === "security.no_https")) {
+    clamped = Math.min(clamped, noHttps);
+  }
+  return clamped;
+}
+
+function categorySource(id: RuleCategory, audit: NormalizedAudit): string {
+  switch (id) {
+    case "conversion":
+      return audit.crawl.booking?.engine
+        ? `Detected: ${audit.crawl.booking.engine.name}`
+        : "HTML analysis";
+    case "performance":
+      return audit.perf.lighthouse ? "Lighthouse + HTML" : "HTML analysis";
+    case "trust":
+      return audit.trust?.reviews.onSite.source
+        ? `Reviews: ${audit.trust.reviews.onSite.source}`
+        : "HTML analysis";
+    case "seo":
+      return audit.seo?.organic?.source
+        ? `Lighthouse + ${audit.seo.organic.source}`
+        : "HTML analysis";
+    default:
+      return "HTML analysis";
+  }
+}
+
+/**
+ * Builds the recommendation list: one row per finding, plus a "pass" row for
+ * every rule that had the data it needed and found nothing.
+ */
+export function buildRecommendations(
+  rules: RuleModule[],
+  findings: Finding[],
+  audit: NormalizedAudit
+): AuditRecommendation[] {
+  const byId = new Map(findings.map((f) => [f.id, f]));
+  const recommendations: AuditRecommendation[] = [];
+
+  for (const rule of rules) {
+    const finding = byId.get(rule.RULE_ID);
+    if (finding) {
+      recommendations.push(findingToRecommendation(finding));
+    } else if (rule.meta.requires(audit)) {
+      recommendations.push({
+        id: rule.RULE_ID,
+        title: rule.meta.label,
+        description: rule.meta.passMessage(audit),
+        status: "pass",
+        impact: "Low",
+        category: categoryName(rule.meta.category),
+      });
+    }
+  }
+
+  return recommendations;
+}
+
+export function findingToRecommendation(finding: Finding): AuditRecommendation {
+  return {
+    id: finding.id,
+    title: finding.title,
+    description: [finding.evidence[0], finding.fix].filter(Boolean).join(" — "),
+    status:
+      finding.severity === "blocker" || finding.severity === "major"
+        ? "fail"
+        : "warning",
+    impact:
+      finding.impact >= 0.65 ? "High" : finding.impact >= 0.4 ? "Medium" : "Low",
+    category: categoryName(finding.category),
+    severity: finding.severity,
+    effort: finding.effort,
+    evidence: finding.evidence,
+    fix: finding.fix,
+  };
+}
@@ -0,0 +1,5 @@
+import type { RuleModule } from "@/types/rules";
+import * as mixedContent from "./mixed-content";
+import * as noHttps from "./no-https";
+
+export const securityRules: RuleModule[] = [noHttps, mixedContent];
@@ -0,0 +1,40 @@
+import { calculatePenalty } from "../scoring";
+import { PAGE_KINDS } from "@/services/audit/crawler";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "security.mixed_content";
+
+export const meta: RuleModule["meta"] = {
+  category: "security",
+  label: "Mixed Content",
+  pageKinds: PAGE_KINDS,
+  requires: (audit) => audit.security.tls.hasHttps,
+  passMessage: () => "All sub-resources load over HTTPS",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  // Mixed content only applies to pages served over HTTPS
+  if (!audit.security.tls.hasHttps) return null;
+
+  const urls = audit.security.mixedContentUrls;
+  if (urls.length === 0) return null;
+
+  const impact = 0.5;
+  const confidence = 0.9;
+
+  return {
+    id: RULE_ID,
+    title: "HTTP assets loaded on HTTPS pages",
+    category: "security",
+    severity: "major",
+    impact,
+    confidence,
+    penalty: calculatePenalty("major", impact, confidence),
+    evidence: [
+      `${urls.length} insecure resource${urls.length === 1 ? "" : "s"}: ${urls.slice(0, 3).join(", ")}`,
+    ],
+    fix: "Update all resource URLs to HTTPS.",
+    effort: "low",
+    tags: ["tls"],
+  };
+}
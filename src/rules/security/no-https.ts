@@ -0,0 +1,37 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "security.no_https";
+
+export const meta: RuleModule["meta"] = {
+  category: "security",
+  label: "SSL Certificate",
+  requires: () => true,
+  passMessage: () => "Site uses HTTPS correctly",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (audit.security.tls.hasHttps) return null;
+
+  const impact = 0.95;
+  // An unreachable site may be down rather than missing TLS
+  const confidence = audit.security.reachable ? 0.95 : 0.6;
+
+  return {
+    id: RULE_ID,
+    title: "Site not served over HTTPS",
+    category: "security",
+    severity: "blocker",
+    impact,
+    confidence,
+    penalty: calculatePenalty("blocker", impact, confidence),
+    evidence: [
+      audit.security.reachable
+        ? `${audit.crawl.pages.home?.finalUrl} is served over plain HTTP`
+        : `${audit.inputs.url} could not be loaded over HTTPS`,
+    ],
+    fix: "Enable HTTPS via Let's Encrypt or your hosting provider.",
+    effort: "medium",
+    tags: ["tls"],
+  };
+}
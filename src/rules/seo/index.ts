@@ -0,0 +1,16 @@
+import type { RuleModule } from "@/types/rules";
+import * as lowOrganicVisibility from "./low-organic-visibility";
+import * as missingMetaDescriptions from "./missing-meta-descriptions";
+import * as missingTitle from "./missing-title";
+import * as noindexMoneyPages from "./noindex-money-pages";
+import * as schemaMissing from "./schema-missing";
+import * as sitemapMissing from "./sitemap-missing";
+
+export const seoRules: RuleModule[] = [
+  noindexMoneyPages,
+  sitemapMissing,
+  missingTitle,
+  schemaMissing,
+  missingMetaDescriptions,
+  lowOrganicVisibility,
+];
@@ -0,0 +1,42 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "seo.low_organic_visibility";
+
+const MIN_TRAFFIC = 100;
+
+export const meta: RuleModule["meta"] = {
+  category: "seo",
+  label: "Organic Search Traffic",
+  requires: (audit) => audit.seo?.organic?.traffic != null,
+  passMessage: (audit) =>
+    `~${audit.seo?.organic?.traffic?.toLocaleString()} monthly organic visits`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const organic = audit.seo?.organic;
+  if (organic?.traffic == null) return null;
+
+  if (organic.traffic >= MIN_TRAFFIC) return null;
+
+  const impact = 0.35;
+  const confidence = 0.7; // Third-party traffic estimates
+
+  return {
+    id: RULE_ID,
+    title: "Low organic search visibility",
+    category: "seo",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: [
+      `Estimated organic traffic: ~${organic.traffic}/month (threshold: ${MIN_TRAFFIC})`,
+      ...(organic.keywords != null ? [`Ranking keywords: ${organic.keywords}`] : []),
+      ...(organic.source ? [`Source: ${organic.source}`] : []),
+    ],
+    fix: "Build location pages and local content, and earn links from local tourism sites.",
+    effort: "high",
+    tags: ["search"],
+  };
+}
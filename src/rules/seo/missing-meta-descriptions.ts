@@ -0,0 +1,35 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "seo.missing_meta_descriptions";
+
+export const meta: RuleModule["meta"] = {
+  category: "seo",
+  label: "Meta Description",
+  pageKinds: ["home", "listing", "property"],
+  requires: (audit) => audit.seo !== null,
+  passMessage: () => "Meta description found",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.seo) return null;
+
+  if (audit.seo.metaDescription) return null;
+
+  const impact = 0.25;
+  const confidence = 0.95;
+
+  return {
+    id: RULE_ID,
+    title: "Key pages missing meta descriptions",
+    category: "seo",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: [`No meta description on ${audit.inputs.url}`],
+    fix: "Add unique, compelling meta descriptions (150-160 characters).",
+    effort: "low",
+    tags: ["metadata"],
+  };
+}
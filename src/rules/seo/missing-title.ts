@@ -0,0 +1,36 @@
+import { calculatePenalty } from "../scoring";
+import { PAGE_KINDS } from "@/services/audit/crawler";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "seo.missing_title";
+
+export const meta: RuleModule["meta"] = {
+  category: "seo",
+  label: "Page Title",
+  pageKinds: PAGE_KINDS,
+  requires: (audit) => audit.seo !== null,
+  passMessage: (audit) => `Found title: "${audit.seo?.title?.substring(0, 50)}"`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.seo) return null;
+
+  if (audit.seo.title) return null;
+
+  const impact = 0.45;
+  const confidence = 0.95;
+
+  return {
+    id: RULE_ID,
+    title: "Missing or empty page title",
+    category: "seo",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: [`No <title> on ${audit.inputs.url}`],
+    fix: "Add a descriptive title with the property name and location.",
+    effort: "low",
+    tags: ["metadata"],
+  };
+}
@@ -0,0 +1,35 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "seo.noindex_money_pages";
+
+export const meta: RuleModule["meta"] = {
+  category: "seo",
+  label: "Indexability",
+  pageKinds: ["listing", "property"],
+  requires: (audit) => audit.seo !== null,
+  passMessage: () => "Page is indexable by search engines",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.seo) return null;
+
+  if (!audit.seo.noindex) return null;
+
+  const impact = 0.8;
+  const confidence = 0.95;
+
+  return {
+    id: RULE_ID,
+    title: "Property or booking pages blocked from indexing",
+    category: "seo",
+    severity: "blocker",
+    impact,
+    confidence,
+    penalty: calculatePenalty("blocker", impact, confidence),
+    evidence: [`${audit.inputs.url} has a noindex robots directive`],
+    fix: "Remove noindex from revenue-generating pages.",
+    effort: "low",
+    tags: ["indexing"],
+  };
+}
@@ -0,0 +1,44 @@
+import { calculatePenalty } from "../scoring";
+import { LODGING_SCHEMA_TYPES } from "@/services/audit/checks/page-content";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "seo.schema_missing";
+
+function lodgingTypes(audit: NormalizedAudit): string[] {
+  return (audit.seo?.schemaTypes ?? []).filter((t) => LODGING_SCHEMA_TYPES.includes(t));
+}
+
+export const meta: RuleModule["meta"] = {
+  category: "seo",
+  label: "Structured Data",
+  pageKinds: ["property"],
+  requires: (audit) => audit.seo !== null,
+  passMessage: (audit) => `Schema.org markup found: ${lodgingTypes(audit).join(", ")}`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.seo) return null;
+
+  if (lodgingTypes(audit).length > 0) return null;
+
+  const impact = 0.3;
+  const confidence = 0.85;
+
+  return {
+    id: RULE_ID,
+    title: "No LocalBusiness or LodgingBusiness schema",
+    category: "seo",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: [
+      audit.seo.schemaTypes.length > 0
+        ? `Schema types found: ${audit.seo.schemaTypes.join(", ")} - none describe a lodging business`
+        : "No JSON-LD or microdata found",
+    ],
+    fix: "Add LodgingBusiness or VacationRental schema markup.",
+    effort: "low",
+    tags: ["structured_data"],
+  };
+}
@@ -0,0 +1,35 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "seo.sitemap_missing";
+
+export const meta: RuleModule["meta"] = {
+  category: "seo",
+  label: "XML Sitemap",
+  requires: (audit) => audit.crawl.sitemap !== null,
+  passMessage: (audit) => `Sitemap found at ${audit.crawl.sitemap?.url}`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const sitemap = audit.crawl.sitemap;
+  if (!sitemap) return null;
+
+  if (sitemap.found) return null;
+
+  const impact = 0.45;
+  const confidence = 0.85;
+
+  return {
+    id: RULE_ID,
+    title: "No sitemap.xml found",
+    category: "seo",
+    severity: "major",
+    impact,
+    confidence,
+    penalty: calculatePenalty("major", impact, confidence),
+    evidence: [`${sitemap.url} did not return a sitemap`],
+    fix: "Generate and submit a sitemap to Google Search Console.",
+    effort: "low",
+    tags: ["indexing"],
+  };
+}
@@ -0,0 +1,18 @@
+import type { RuleModule } from "@/types/rules";
+import * as lowReviewCount from "./low-review-count";
+import * as missingIdentity from "./missing-identity";
+import * as missingPrivacyPolicy from "./missing-privacy-policy";
+import * as missingReviews from "./missing-reviews";
+import * as noSocialProfiles from "./no-social-profiles";
+import * as noThirdPartyBadges from "./no-third-party-badges";
+import * as staleReviews from "./stale-reviews";
+
+export const trustRules: RuleModule[] = [
+  missingReviews,
+  lowReviewCount,
+  staleReviews,
+  missingIdentity,
+  noThirdPartyBadges,
+  missingPrivacyPolicy,
+  noSocialProfiles,
+];
@@ -0,0 +1,37 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "trust.low_review_count";
+
+const MIN_REVIEWS = 5;
+
+export const meta: RuleModule["meta"] = {
+  category: "trust",
+  label: "Review Count",
+  requires: (audit) => audit.trust?.reviews.count != null,
+  passMessage: (audit) => `${audit.trust?.reviews.count} reviews displayed`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const count = audit.trust?.reviews.count;
+  if (count == null) return null;
+
+  if (count >= MIN_REVIEWS) return null;
+
+  const impact = 0.35;
+  const confidence = 0.7;
+
+  return {
+    id: RULE_ID,
+    title: "Fewer than 5 reviews displayed",
+    category: "trust",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: [`Review count: ${count} (threshold: ${MIN_REVIEWS})`],
+    fix: "Actively collect reviews from past guests.",
+    effort: "low",
+    tags: ["social_proof"],
+  };
+}
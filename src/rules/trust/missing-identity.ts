@@ -0,0 +1,47 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "trust.missing_identity";
+
+export const meta: RuleModule["meta"] = {
+  category: "trust",
+  label: "Contact Information",
+  requires: (audit) => audit.trust !== null,
+  passMessage: (audit) => {
+    const identity = audit.trust?.identity;
+    const details = [
+      identity?.hasPhone && "phone",
+      identity?.hasEmail && "email",
+      identity?.hasAddress && "address",
+    ].filter(Boolean);
+    return `Good transparency: ${details.join(", ")} visible`;
+  },
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.trust) return null;
+
+  const { hasPhone, hasEmail, hasAddress } = audit.trust.identity;
+  if (hasPhone || hasAddress) return null;
+
+  const impact = 0.65;
+  const confidence = hasEmail ? 0.6 : 0.8;
+
+  return {
+    id: RULE_ID,
+    title: "No business name, phone number, or address visible",
+    category: "trust",
+    severity: "major",
+    impact,
+    confidence,
+    penalty: calculatePenalty("major", impact, confidence),
+    evidence: [
+      hasEmail
+        ? "Only an email address found - no phone number or address"
+        : "No phone number, email or address found",
+    ],
+    fix: "Display contact information prominently: phone, address, about page.",
+    effort: "low",
+    tags: ["identity"],
+  };
+}
@@ -0,0 +1,34 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "trust.missing_privacy_policy";
+
+export const meta: RuleModule["meta"] = {
+  category: "trust",
+  label: "Privacy Policy",
+  requires: (audit) => audit.trust !== null,
+  passMessage: () => "Privacy policy found",
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.trust) return null;
+
+  if (audit.trust.hasPrivacyPolicy) return null;
+
+  const impact = 0.4;
+  const confidence = 0.8;
+
+  return {
+    id: RULE_ID,
+    title: "No privacy policy linked",
+    category: "trust",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: ["No privacy policy link found in page or footer"],
+    fix: "Add a privacy policy link - it's legally required when collecting guest data and builds trust.",
+    effort: "low",
+    tags: ["policy"],
+  };
+}
@@ -0,0 +1,39 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "trust.missing_reviews";
+
+export const meta: RuleModule["meta"] = {
+  category: "trust",
+  label: "Guest Reviews",
+  requires: (audit) => audit.trust !== null,
+  passMessage: (audit) => {
+    const reviews = audit.trust?.reviews;
+    const rating = reviews?.averageRating != null ? ` - ${reviews.averageRating}/5` : "";
+    const count = reviews?.count != null ? ` (${reviews.count} reviews)` : "";
+    return `${reviews?.onSite.source ?? "Site reviews"}${rating}${count}`;
+  },
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.trust) return null;
+
+  if (audit.trust.reviews.onSite.present) return null;
+
+  const impact = 0.7;
+  const confidence = 0.8;
+
+  return {
+    id: RULE_ID,
+    title: "No reviews visible on site",
+    category: "trust",
+    severity: "major",
+    impact,
+    confidence,
+    penalty: calculatePenalty("major", impact, confidence),
+    evidence: ["No review widgets, ratings or testimonials found - 93% of travelers read reviews before booking"],
+    fix: "Display reviews prominently—import from OTAs, add native reviews, or embed Google reviews.",
+    effort: "medium",
+    tags: ["social_proof"],
+  };
+}
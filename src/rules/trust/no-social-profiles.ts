@@ -0,0 +1,35 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "trust.no_social_profiles";
+
+export const meta: RuleModule["meta"] = {
+  category: "trust",
+  label: "Social Media Presence",
+  requires: (audit) => audit.trust !== null,
+  passMessage: (audit) =>
+    `Active on: ${audit.trust?.socialProfiles.slice(0, 3).join(", ")}`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.trust) return null;
+
+  if (audit.trust.socialProfiles.length > 0) return null;
+
+  const impact = 0.2;
+  const confidence = 0.8;
+
+  return {
+    id: RULE_ID,
+    title: "No social media profiles linked",
+    category: "trust",
+    severity: "trivial",
+    impact,
+    confidence,
+    penalty: calculatePenalty("trivial", impact, confidence),
+    evidence: ["No Facebook, Instagram, YouTube or other social links found"],
+    fix: "Link to your social profiles to show you're an active, real business.",
+    effort: "low",
+    tags: ["identity"],
+  };
+}
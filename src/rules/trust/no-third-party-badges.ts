@@ -0,0 +1,46 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "trust.no_third_party_badges";
+
+export const meta: RuleModule["meta"] = {
+  category: "trust",
+  label: "Trust Badges",
+  requires: (audit) => audit.trust !== null,
+  passMessage: (audit) => {
+    const badges = audit.trust?.badges ?? [];
+    return badges.length > 0
+      ? `Found: ${badges.slice(0, 3).map((b) => b.name).join(", ")}`
+      : `Verified reviews from ${audit.trust?.reviews.onSite.source}`;
+  },
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  if (!audit.trust) return null;
+
+  const hasPlatformBadge = audit.trust.badges.some(
+    (b) => b.category === "industry" || b.category === "verification"
+  );
+  if (hasPlatformBadge || audit.trust.reviews.onSite.verified) return null;
+
+  const impact = 0.3;
+  const confidence = 0.75;
+
+  return {
+    id: RULE_ID,
+    title: "No Airbnb/VRBO/Google review badges",
+    category: "trust",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: [
+      audit.trust.badges.length > 0
+        ? `Only generic badges found: ${audit.trust.badges.map((b) => b.name).join(", ")}`
+        : "No Superhost, Premier Host or verified review badges found",
+    ],
+    fix: "Add platform badges or ratings widgets.",
+    effort: "low",
+    tags: ["social_proof"],
+  };
+}
@@ -0,0 +1,47 @@
+import { calculatePenalty } from "../scoring";
+import type { Finding, NormalizedAudit, RuleModule } from "@/types/rules";
+
+export const RULE_ID = "trust.stale_reviews";
+
+const MAX_AGE_DAYS = 183; // ~6 months
+
+function ageInDays(audit: NormalizedAudit): number | null {
+  const latest = audit.trust?.reviews.latestAt;
+  if (!latest) return null;
+  // Measured against the audit time, not "now", so re-scoring is deterministic
+  const diff = Date.parse(audit.inputs.auditedAt) - Date.parse(latest);
+  return Math.floor(diff / (24 * 60 * 60 * 1000));
+}
+
+export const meta: RuleModule["meta"] = {
+  category: "trust",
+  label: "Review Freshness",
+  requires: (audit) => ageInDays(audit) !== null,
+  passMessage: (audit) => `Most recent review is ${ageInDays(audit)} days old`,
+};
+
+export function evaluate(audit: NormalizedAudit): Finding | null {
+  const age = ageInDays(audit);
+  if (age === null) return null;
+
+  if (age <= MAX_AGE_DAYS) return null;
+
+  const impact = 0.4;
+  const confidence = 0.65; // Dates are scraped from markup and copy
+
+  return {
+    id: RULE_ID,
+    title: "Most recent review older than 6 months",
+    category: "trust",
+    severity: "minor",
+    impact,
+    confidence,
+    penalty: calculatePenalty("minor", impact, confidence),
+    evidence: [
+      `Most recent review: ${audit.trust?.reviews.latestAt?.slice(0, 10)} (${age} days before audit, threshold: ${MAX_AGE_DAYS})`,
+    ],
+    fix: "Follow up with recent guests to request reviews.",
+    effort: "low",
+    tags: ["social_proof"],
+  };
+}
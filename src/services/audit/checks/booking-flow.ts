@@ -1,16 +1,37 @@
 // Booking Flow Analysis
 // Detects booking engines, CTAs, and estimates friction in the booking process
 
+import type { AuditFunnel } from "@/types/audit";
+import {
+  primaryViewport,
+  type PageRender,
+  type RenderedElement,
+  type RenderedViewport,
+  type RenderViewportName,
+} from "../renderer";
+
+export type CtaPosition = "above-fold" | "below-fold" | "hidden";
+
 export interface BookingFlowAnalysis {
   hasBookingCTA: boolean;
   ctaText: string | null;
   ctaLocation: "above-fold" | "below-fold" | "none";
+  // Where the CTA actually sits at each rendered viewport; null when the
+  // page wasn't rendered and ctaLocation is estimated from the HTML
+  ctaPositions: Partial<Record<RenderViewportName, CtaPosition>> | null;
   bookingEngine: BookingEngine | null;
   hasDatePicker: boolean;
   hasGuestSelector: boolean;
   hasPriceCalculator: boolean;
   hasInstantBook: boolean;
+  hasStickyCTA: boolean;
+  hasPricing: boolean;
+  showsFeesUpfront: boolean;
+  hasCancellationPolicy: boolean;
+  requiresAccount: boolean;
   estimatedClicksToBook: number;
+  // Counted by walking the funnel (see applyFunnelExploration), not estimated
+  clicksMeasured: boolean;
   frictionScore: number; // 0-100, higher = more friction
   recommendations: string[];
 }
@@ -105,7 +126,7 @@ const BOOKING_ENGINES: Array<{
 ];
 
 // CTA patterns with priority (higher = better)
-const CTA_PATTERNS: Array<{ pattern: RegExp; priority: number; text: string }> = [
+export const CTA_PATTERNS: Array<{ pattern: RegExp; priority: number; text: string }> = [
   { pattern: /book\s*now/i, priority: 100, text: "Book Now" },
   { pattern: /reserve\s*now/i, priority: 95, text: "Reserve Now" },
   { pattern: /book\s*your\s*stay/i, priority: 90, text: "Book Your Stay" },
@@ -120,15 +141,38 @@ const CTA_PATTERNS: Array<{ pattern: RegExp; priority: number; text: string }> =
   { pattern: /contact\s*us/i, priority: 30, text: "Contact Us" },
 ];
 
-export function analyzeBookingFlow(html: string): BookingFlowAnalysis {
-  const lowerHtml = html.toLowerCase();
-  const recommendations: string[] = [];
+const PRICING_PATTERNS = [/\$\d+/, /\d+\s*(per|\/)\s*night/i, /nightly\s*rate/i, /price/i];
+
+export const FEE_PATTERNS = [
+  /cleaning\s*fee/i,
+  /service\s*fee/i,
+  /(occupancy|lodging|sales)\s*tax/i,
+  /taxes\s*(and|&)\s*fees/i,
+  /price\s*breakdown/i,
+  /total\s*(price|cost)/i,
+];
+
+const ACCOUNT_REQUIRED_PATTERNS = [
+  /(log\s*in|sign\s*in|sign\s*up|register|create\s*an?\s*account)\s*to\s*(book|reserve|continue)/i,
+  /account\s*(is\s*)?required\s*to\s*book/i,
+  /must\s*(be\s*logged\s*in|have\s*an\s*account)/i,
+];
+
+/**
+ * Analyzes a page's booking flow. With a render (see renderer.ts) the
+ * detectors read the DOM after JavaScript ran, and CTA placement and sticky
+ * bars come from real element geometry instead of the HTML.
+ */
+export function analyzeBookingFlow(html: string, render?: PageRender | null): BookingFlowAnalysis {
+  const rendered = primaryViewport(render);
+  if (rendered) html = rendered.html;
 
   // Detect booking engine
   const bookingEngine = detectBookingEngine(html);
 
   // Find CTAs
-  const ctaAnalysis = analyzeCTAs(html);
+  const renderedCTAs = render && rendered ? analyzeRenderedCTAs(render) : null;
+  const ctaAnalysis = renderedCTAs ?? analyzeCTAs(html);
 
   // Detect booking UI elements
   const hasDatePicker = detectDatePicker(html);
@@ -136,6 +180,11 @@ export function analyzeBookingFlow(html: string): BookingFlowAnalysis {
   const hasPriceCalculator = detectPriceCalculator(html);
   const hasInstantBook =
     /instant\s*book/i.test(html) || /book\s*instantly/i.test(html);
+  const hasStickyCTA = renderedCTAs ? renderedCTAs.hasStickyCTA : detectStickyCTA(html);
+  const hasPricing = PRICING_PATTERNS.some((p) => p.test(html));
+  const showsFeesUpfront = FEE_PATTERNS.some((p) => p.test(html));
+  const hasCancellationPolicy = /cancell?ation/i.test(html) || /refund\s*policy/i.test(html);
+  const requiresAccount = ACCOUNT_REQUIRED_PATTERNS.some((p) => p.test(html));
 
   // Estimate clicks to book based on what's present
   let estimatedClicks = estimateClicksToBook({
@@ -157,61 +206,207 @@ export function analyzeBookingFlow(html: string): BookingFlowAnalysis {
     estimatedClicks,
   });
 
-  // Generate recommendations
-  if (!ctaAnalysis.hasBookingCTA) {
+  const analysis: Omit<BookingFlowAnalysis, "recommendations"> = {
+    hasBookingCTA: ctaAnalysis.hasBookingCTA,
+    ctaText: ctaAnalysis.ctaText,
+    ctaLocation: ctaAnalysis.ctaLocation,
+    ctaPositions: ctaAnalysis.ctaPositions,
+    bookingEngine,
+    hasDatePicker,
+    hasGuestSelector,
+    hasPriceCalculator,
+    hasInstantBook,
+    hasStickyCTA,
+    hasPricing,
+    showsFeesUpfront,
+    hasCancellationPolicy,
+    requiresAccount,
+    estimatedClicksToBook: estimatedClicks,
+    clicksMeasured: false,
+    frictionScore,
+  };
+
+  return { ...analysis, recommendations: generateRecommendations(analysis) };
+}
+
+/**
+ * Combines the homepage analysis with analyses of other crawled pages. A
+ * booking feature found on any page counts for the site; when the homepage
+ * has no booking CTA, the clicks needed to reach the page that does are added
+ * to the click estimate.
+ */
+export function mergeBookingFlow(
+  home: BookingFlowAnalysis,
+  pages: Array<{ analysis: BookingFlowAnalysis; depth: number }>
+): BookingFlowAnalysis {
+  if (pages.length === 0) return home;
+
+  const all = [home, ...pages.map((p) => p.analysis)];
+  const anyPage = (key: keyof BookingFlowAnalysis) => all.some((a) => a[key] === true);
+
+  // Shallowest page with a CTA when the homepage has none
+  const ctaPage = home.hasBookingCTA
+    ? null
+    : [...pages]
+        .filter((p) => p.analysis.hasBookingCTA)
+        .sort((a, b) => a.depth - b.depth)[0] ?? null;
+
+  const hasBookingCTA = home.hasBookingCTA || ctaPage !== null;
+  const ctaLocation: BookingFlowAnalysis["ctaLocation"] = home.hasBookingCTA
+    ? home.ctaLocation
+    : ctaPage
+      ? "below-fold" // Visitors have to leave the homepage to find it
+      : "none";
+
+  // Prefer the most confident engine detection across pages
+  const bookingEngine =
+    all
+      .map((a) => a.bookingEngine)
+      .filter((e): e is BookingEngine => e !== null)
+      .sort((a, b) => b.confidence - a.confidence)[0] ?? null;
+
+  const hasDatePicker = anyPage("hasDatePicker");
+  const hasGuestSelector = anyPage("hasGuestSelector");
+  const hasPriceCalculator = anyPage("hasPriceCalculator");
+  const hasInstantBook = anyPage("hasInstantBook");
+
+  const estimatedClicks = Math.min(
+    estimateClicksToBook({
+      hasBookingCTA,
+      bookingEngine,
+      hasDatePicker,
+      hasGuestSelector,
+      hasPriceCalculator,
+      hasInstantBook,
+    }) + (ctaPage?.depth ?? 0),
+    10
+  );
+
+  const analysis: Omit<BookingFlowAnalysis, "recommendations"> = {
+    hasBookingCTA,
+    ctaText: home.ctaText ?? ctaPage?.analysis.ctaText ?? null,
+    ctaLocation,
+    // Positions are only meaningful for a CTA on the homepage
+    ctaPositions: home.hasBookingCTA ? home.ctaPositions : null,
+    bookingEngine,
+    hasDatePicker,
+    hasGuestSelector,
+    hasPriceCalculator,
+    hasInstantBook,
+    hasStickyCTA: anyPage("hasStickyCTA"),
+    hasPricing: anyPage("hasPricing"),
+    showsFeesUpfront: anyPage("showsFeesUpfront"),
+    hasCancellationPolicy: anyPage("hasCancellationPolicy"),
+    requiresAccount: anyPage("requiresAccount"),
+    estimatedClicksToBook: estimatedClicks,
+    clicksMeasured: false,
+    frictionScore: calculateFrictionScore({
+      hasBookingCTA,
+      ctaLocation,
+      bookingEngine,
+      hasDatePicker,
+      hasInstantBook,
+      estimatedClicks,
+    }),
+  };
+
+  return { ...analysis, recommendations: generateRecommendations(analysis) };
+}
+
+/**
+ * Replaces what the HTML suggested with what walking the funnel showed (see
+ * funnel-explorer.ts): the clicks it took to reach checkout, an account wall,
+ * fees first shown at checkout, and whether booking left the site.
+ */
+export function applyFunnelExploration(
+  analysis: BookingFlowAnalysis,
+  funnel: Pick<
+    AuditFunnel,
+    "reachedCheckout" | "clicks" | "externalDomains" | "accountRequired" | "feesRevealedLate"
+  >
+): BookingFlowAnalysis {
+  let bookingEngine = analysis.bookingEngine;
+  if (funnel.externalDomains.length > 0) {
+    const engine = funnel.externalDomains.map((domain) => detectBookingEngine(domain)).find(Boolean);
+    bookingEngine = {
+      name: engine?.name ?? bookingEngine?.name ?? funnel.externalDomains[0],
+      type: "redirect",
+      confidence: 0.95,
+    };
+  } else if (funnel.reachedCheckout && bookingEngine?.type === "redirect") {
+    // Checkout was reached without leaving the site
+    bookingEngine = { ...bookingEngine, type: "embedded", confidence: 0.95 };
+  }
+
+  const estimatedClicks = funnel.reachedCheckout ? funnel.clicks : analysis.estimatedClicksToBook;
+
+  const updated: Omit<BookingFlowAnalysis, "recommendations"> = {
+    ...analysis,
+    bookingEngine,
+    requiresAccount: analysis.requiresAccount || funnel.accountRequired,
+    showsFeesUpfront: analysis.showsFeesUpfront && !funnel.feesRevealedLate,
+    estimatedClicksToBook: estimatedClicks,
+    clicksMeasured: funnel.reachedCheckout,
+    frictionScore: calculateFrictionScore({
+      hasBookingCTA: analysis.hasBookingCTA,
+      ctaLocation: analysis.ctaLocation,
+      bookingEngine,
+      hasDatePicker: analysis.hasDatePicker,
+      hasInstantBook: analysis.hasInstantBook,
+      estimatedClicks,
+    }),
+  };
+
+  return { ...updated, recommendations: generateRecommendations(updated) };
+}
+
+function generateRecommendations(
+  analysis: Omit<BookingFlowAnalysis, "recommendations">
+): string[] {
+  const recommendations: string[] = [];
+
+  if (!analysis.hasBookingCTA) {
     recommendations.push(
       "Add a prominent 'Book Now' button - visitors can't book if they can't find how"
     );
-  } else if (ctaAnalysis.ctaLocation === "below-fold") {
+  } else if (analysis.ctaLocation === "below-fold") {
     recommendations.push(
       "Move your booking CTA above the fold - don't make visitors scroll to book"
     );
   }
 
-  if (!bookingEngine) {
+  if (!analysis.bookingEngine) {
     recommendations.push(
       "Consider adding an integrated booking widget to capture direct bookings"
     );
-  } else if (bookingEngine.type === "redirect") {
+  } else if (analysis.bookingEngine.type === "redirect") {
     recommendations.push(
-      `Your booking redirects to ${bookingEngine.name} - consider an embedded widget to keep guests on your site`
+      `Your booking redirects to ${analysis.bookingEngine.name} - consider an embedded widget to keep guests on your site`
     );
   }
 
-  if (!hasDatePicker) {
+  if (!analysis.hasDatePicker) {
     recommendations.push(
       "Add a visible date picker - let guests check availability immediately"
     );
   }
 
-  if (!hasInstantBook && bookingEngine) {
+  if (!analysis.hasInstantBook && analysis.bookingEngine) {
     recommendations.push(
       "Enable instant booking if possible - inquiry-based bookings have higher abandonment"
     );
   }
 
-  if (estimatedClicks > 3) {
+  if (analysis.estimatedClicksToBook > 3) {
     recommendations.push(
-      `Reduce booking steps - currently ~${estimatedClicks} clicks, aim for 3 or fewer`
+      `Reduce booking steps - currently ${analysis.clicksMeasured ? "" : "~"}${analysis.estimatedClicksToBook} clicks, aim for 3 or fewer`
     );
   }
 
-  return {
-    hasBookingCTA: ctaAnalysis.hasBookingCTA,
-    ctaText: ctaAnalysis.ctaText,
-    ctaLocation: ctaAnalysis.ctaLocation,
-    bookingEngine,
-    hasDatePicker,
-    hasGuestSelector,
-    hasPriceCalculator,
-    hasInstantBook,
-    estimatedClicksToBook: estimatedClicks,
-    frictionScore,
-    recommendations,
-  };
+  return recommendations;
 }
 
-function detectBookingEngine(html: string): BookingEngine | null {
+export function detectBookingEngine(html: string): BookingEngine | null {
   for (const engine of BOOKING_ENGINES) {
     for (const pattern of engine.patterns) {
       if (pattern.test(html)) {
@@ -243,6 +438,7 @@ function analyzeCTAs(html: string): {
   hasBookingCTA: boolean;
   ctaText: string | null;
   ctaLocation: "above-fold" | "below-fold" | "none";
+  ctaPositions: null;
 } {
   let bestMatch: { text: string; priority: number; position: number } | null = null;
 
@@ -257,7 +453,7 @@ function analyzeCTAs(html: string): {
   }
 
   if (!bestMatch) {
-    return { hasBookingCTA: false, ctaText: null, ctaLocation: "none" };
+    return { hasBookingCTA: false, ctaText: null, ctaLocation: "none", ctaPositions: null };
   }
 
   // Estimate if CTA is above fold (roughly first 20% of HTML)
@@ -269,9 +465,99 @@ function analyzeCTAs(html: string): {
     hasBookingCTA: true,
     ctaText: bestMatch.text,
     ctaLocation,
+    ctaPositions: null,
   };
 }
 
+/**
+ * Visible booking links and buttons in a rendered viewport, best match first
+ * (used to point at the CTA in screenshots)
+ */
+export function findRenderedCTAs(viewport: RenderedViewport): RenderedElement[] {
+  const priority = (element: RenderedElement) =>
+    CTA_PATTERNS.find((c) => c.pattern.test(element.text))?.priority ?? 0;
+
+  return viewport.elements
+    .filter((e) => (e.kind === "link" || e.kind === "button") && e.visible && priority(e) > 0)
+    .sort((a, b) => priority(b) - priority(a) || a.rect.top - b.rect.top);
+}
+
+/**
+ * Picks the highest-priority CTA among the links and buttons a visitor can
+ * actually see at any viewport. ctaLocation follows the mobile viewport when
+ * it was rendered: a CTA only in the desktop header doesn't help a guest
+ * on a phone.
+ */
+function analyzeRenderedCTAs(render: PageRender): {
+  hasBookingCTA: boolean;
+  ctaText: string | null;
+  ctaLocation: "above-fold" | "below-fold" | "none";
+  ctaPositions: Partial<Record<RenderViewportName, CtaPosition>>;
+  hasStickyCTA: boolean;
+} {
+  const viewports = Object.values(render.viewports);
+  const isCta = (kind: string) => kind === "link" || kind === "button";
+
+  let best: (typeof CTA_PATTERNS)[number] | null = null;
+  for (const viewport of viewports) {
+    for (const element of viewport.elements) {
+      if (!isCta(element.kind) || !element.visible) continue;
+      const cta = CTA_PATTERNS.find((c) => c.pattern.test(element.text));
+      if (cta && (!best || cta.priority > best.priority)) best = cta;
+    }
+  }
+
+  if (!best) {
+    return {
+      hasBookingCTA: false,
+      ctaText: null,
+      ctaLocation: "none",
+      ctaPositions: {},
+      hasStickyCTA: false,
+    };
+  }
+
+  const ctaPositions: Partial<Record<RenderViewportName, CtaPosition>> = {};
+  let hasStickyCTA = false;
+  for (const viewport of viewports) {
+    const matches = viewport.elements.filter(
+      (e) => isCta(e.kind) && e.visible && CTA_PATTERNS.some((c) => c.pattern.test(e.text))
+    );
+    if (matches.some((e) => e.fixed)) hasStickyCTA = true;
+
+    const primary = matches.filter((e) => best.pattern.test(e.text));
+    ctaPositions[viewport.viewport] = primary.some((e) => e.aboveFold)
+      ? "above-fold"
+      : primary.length > 0
+        ? "below-fold"
+        : "hidden";
+  }
+
+  // Hidden at the main viewport (e.g. tucked in a closed menu) still takes
+  // scrolling or tapping to reach
+  const position = ctaPositions.mobile ?? ctaPositions.desktop;
+
+  return {
+    hasBookingCTA: true,
+    ctaText: best.text,
+    ctaLocation: position === "above-fold" ? "above-fold" : "below-fold",
+    ctaPositions,
+    hasStickyCTA,
+  };
+}
+
+function detectStickyCTA(html: string): boolean {
+  const patterns = [
+    /sticky[-_]?(book|cta|reserve|booking)/i,
+    /(book|cta|reserve|booking)[-_]?(bar|button)[^"']*sticky/i,
+    /floating[-_]?(book|cta|reserve)/i,
+    /mobile[-_]?(book|booking|cta)[-_]?bar/i,
+    /position:\s*(fixed|sticky)[^}]*}[^<]{0,200}(book|reserve)/i,
+  ];
+
+  return patterns.some((p) => p.test(html));
+}
+
 function detectDatePicker(html: string): boolean {
   const patterns = [
     /date-?picker/i,
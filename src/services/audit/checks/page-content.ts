@@ -0,0 +1,201 @@
+// Page Content Analysis
+// Extracts SEO metadata, imagery, copy, and security signals from raw HTML
+
+export interface PageContentAnalysis {
+  // SEO metadata
+  title: string | null;
+  metaDescription: string | null;
+  hasMobileViewport: boolean;
+  robotsNoindex: boolean;
+  schemaTypes: string[];
+
+  // Imagery & media
+  imageCount: number;
+  heroImage: { src: string; width: number | null } | null;
+  hasVideo: boolean;
+
+  // Copy
+  wordCount: number;
+  hasDirectBookingBenefits: boolean;
+  hasLocalContent: boolean;
+
+  // Security
+  mixedContentUrls: string[];
+
+  pageSizeBytes: number;
+}
+
+// Schema.org types that describe a lodging business
+export const LODGING_SCHEMA_TYPES = [
+  "LodgingBusiness",
+  "VacationRental",
+  "Hotel",
+  "Resort",
+  "BedAndBreakfast",
+  "Accommodation",
+  "House",
+  "Apartment",
+  "LocalBusiness",
+];
+
+const VIDEO_PATTERNS = [
+  /<video[\s>]/i,
+  /youtube\.com\/embed/i,
+  /youtube-nocookie\.com/i,
+  /player\.vimeo\.com/i,
+  /wistia\.(com|net)/i,
+  /matterport\.com/i, // 3D walkthroughs count as video content
+];
+
+const DIRECT_BOOKING_PATTERNS = [
+  /book\s*direct/i,
+  /best\s*(rate|price)\s*guarantee/i,
+  /lowest\s*(rate|price)/i,
+  /no\s*(booking|service)\s*fees?/i,
+  /save\s*(on\s*)?(booking|service)?\s*fees/i,
+  /why\s*book\s*(with\s*us|direct)/i,
+  /direct\s*booking\s*(discount|benefits?)/i,
+];
+
+const LOCAL_CONTENT_PATTERNS = [
+  /things\s*to\s*do/i,
+  /local\s*(area|guide|attractions|favorites)/i,
+  /nearby/i,
+  /restaurants/i,
+  /attractions/i,
+  /explore\s*the\s*area/i,
+  /getting\s*(here|there)/i,
+  /neighbou?rhood/i,
+];
+
+export function analyzePageContent(html: string): PageContentAnalysis {
+  const lowerHtml = html.toLowerCase();
+
+  // Title & meta description
+  const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
+  const title = titleMatch?.[1]?.trim() || null;
+
+  const metaDescription = extractMetaContent(html, "description");
+
+  const hasMobileViewport =
+    lowerHtml.includes("viewport") && lowerHtml.includes("width=device-width");
+
+  const robotsMeta = extractMetaContent(html, "robots");
+  const robotsNoindex = !!robotsMeta && /noindex/i.test(robotsMeta);
+
+  // Images
+  const imageTags = html.match(/<img[^>]+>/gi) || [];
+  const heroImage = extractHeroImage(imageTags);
+
+  return {
+    title,
+    metaDescription,
+    hasMobileViewport,
+    robotsNoindex,
+    schemaTypes: extractSchemaTypes(html),
+    imageCount: imageTags.length,
+    heroImage,
+    hasVideo: VIDEO_PATTERNS.some((p) => p.test(html)),
+    wordCount: countVisibleWords(html),
+    hasDirectBookingBenefits: DIRECT_BOOKING_PATTERNS.some((p) => p.test(html)),
+    hasLocalContent: LOCAL_CONTENT_PATTERNS.some((p) => p.test(html)),
+    mixedContentUrls: detectMixedContent(html),
+    pageSizeBytes: new Blob([html]).size,
+  };
+}
+
+function extractMetaContent(html: string, name: string): string | null {
+  const metaTags = html.match(/<meta[^>]+>/gi) || [];
+  for (const tag of metaTags) {
+    const nameMatch = tag.match(/name=["']([^"']+)["']/i);
+    if (nameMatch?.[1]?.toLowerCase() !== name) continue;
+
+    const contentMatch = tag.match(/content=["']([^"']*)["']/i);
+    return contentMatch?.[1]?.trim() || null;
+  }
+  return null;
+}
+
+function extractHeroImage(
+  imageTags: string[]
+): { src: string; width: number | null } | null {
+  // Skip tracking pixels, icons and logos - the first real image is the hero
+  for (const tag of imageTags) {
+    const src = tag.match(/\ssrc=["']([^"']+)["']/i)?.[1];
+    if (!src || /logo|icon|pixel|spacer|data:image/i.test(src)) continue;
+
+    const widthAttr = tag.match(/\swidth=["']?(\d+)/i)?.[1];
+    const srcsetWidths = [...tag.matchAll(/\s(\d+)w\b/g)].map((m) => parseInt(m[1]));
+    const width = srcsetWidths.length > 0
+      ? Math.max(...srcsetWidths)
+      : widthAttr
+      ? parseInt(widthAttr)
+      : null;
+
+    return { src, width };
+  }
+  return null;
+}
+
+function extractSchemaTypes(html: string): string[] {
+  const types = new Set<string>();
+  const blocks =
+    html.match(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi) || [];
+
+  const collect = (node: unknown) => {
+    if (!node || typeof node !== "object") return;
+    if (Array.isArray(node)) {
+      node.forEach(collect);
+      return;
+    }
+    const record = node as Record<string, unknown>;
+    const type = record["@type"];
+    if (typeof type === "string") types.add(type);
+    if (Array.isArray(type)) type.filter((t) => typeof t === "string").forEach((t) => types.add(t));
+    if (record["@graph"]) collect(record["@graph"]);
+  };
+
+  for (const block of blocks) {
+    try {
+      collect(JSON.parse(block.replace(/<script[^>]*>|<\/script>/gi, "")));
+    } catch {
+      // Invalid JSON, continue
+    }
+  }
+
+  // Microdata fallback
+  for (const match of html.matchAll(/itemtype=["']https?:\/\/schema\.org\/(\w+)["']/gi)) {
+    types.add(match[1]);
+  }
+
+  return [...types];
+}
+
+function countVisibleWords(html: string): number {
+  const text = html
+    .replace(/<script[\s\S]*?<\/script>/gi, " ")
+    .replace(/<style[\s\S]*?<\/style>/gi, " ")
+    .replace(/<noscript[\s\S]*?<\/noscript>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&[a-z#0-9]+;/gi, " ");
+
+  return text.split(/\s+/).filter((word) => /[a-z]{2,}/i.test(word)).length;
+}
+
+function detectMixedContent(html: string): string[] {
+  // Only sub-resources count - plain <a href="http://..."> links are fine
+  const urls = new Set<string>();
+  const patterns = [
+    /<(?:img|script|iframe|video|audio|source|embed)[^>]+src=["'](http:\/\/[^"']+)["']/gi,
+    /<link[^>]+rel=["']stylesheet["'][^>]+href=["'](http:\/\/[^"']+)["']/gi,
+    /<link[^>]+href=["'](http:\/\/[^"']+)["'][^>]+rel=["']stylesheet["']/gi,
+  ];
+
+  for (const pattern of patterns) {
+    for (const match of html.matchAll(pattern)) {
+      urls.add(match[1]);
+    }
+  }
+
+  return [...urls].slice(0, 20);
+}
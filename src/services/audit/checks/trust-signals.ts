@@ -1,6 +1,8 @@
 // Trust Signal Analysis
 // Detects reviews, ratings, badges, and credibility indicators
 
+import { primaryViewport, type PageRender } from "../renderer";
+
 export interface TrustSignalAnalysis {
   overallTrustScore: number; // 0-100
 
@@ -10,6 +12,10 @@ export interface TrustSignalAnalysis {
   reviewCount: number | null;
   averageRating: number | null;
   ratingOutOf: number; // Usually 5 or 10
+  latestReviewDate: string | null; // ISO date of the newest dated review
+  // Where the first review block shows on a phone; null when the page
+  // wasn't rendered or has no reviews
+  reviewPlacement: "above-fold" | "below-fold" | "hidden" | null;
 
   // Trust badges
   trustBadges: TrustBadge[];
@@ -129,11 +135,40 @@ const SOCIAL_PLATFORMS = [
   { platform: "TikTok", patterns: [/tiktok\.com/i] },
 ];
 
-export function analyzeTrustSignals(html: string): TrustSignalAnalysis {
-  const recommendations: string[] = [];
+// Visible text that shows reviews are on the page
+const VISIBLE_REVIEW_PATTERNS = [/\d+\.?\d*\s*(out of 5|\/5|stars?)/i, /★{3,5}/, /\d+\s*reviews?/i];
+
+/**
+ * Analyzes a page's trust signals. With a render (see renderer.ts) the
+ * detectors read the DOM after JavaScript ran, so client-side review widgets
+ * count, and text-only signals must be visible to count.
+ */
+export function analyzeTrustSignals(html: string, render?: PageRender | null): TrustSignalAnalysis {
+  const rendered = primaryViewport(render);
+  if (rendered) html = rendered.html;
+  // What a visitor can read; the markup when the page wasn't rendered
+  const visibleText = rendered ? rendered.text : html;
 
   // Analyze reviews
-  const reviewAnalysis = analyzeReviews(html);
+  let reviewAnalysis = analyzeReviews(html);
+  const reviewBlocks = rendered?.elements.filter((e) => e.kind === "review" && e.visible) ?? [];
+  // A "review" class name or script nobody sees isn't social proof
+  if (
+    rendered &&
+    reviewAnalysis.source?.type === "custom" &&
+    reviewBlocks.length === 0 &&
+    !VISIBLE_REVIEW_PATTERNS.some((p) => p.test(visibleText))
+  ) {
+    reviewAnalysis = { hasReviews: false, source: null, reviewCount: null, averageRating: null };
+  }
+  const reviewPlacement: TrustSignalAnalysis["reviewPlacement"] =
+    !rendered || !reviewAnalysis.hasReviews
+      ? null
+      : reviewBlocks.some((e) => e.aboveFold)
+        ? "above-fold"
+        : reviewBlocks.length > 0
+          ? "below-fold"
+          : "hidden";
 
   // Detect trust badges
   const trustBadges = detectTrustBadges(html);
@@ -147,9 +182,11 @@ export function analyzeTrustSignals(html: string): TrustSignalAnalysis {
   const socialProfiles = detectSocialProfiles(html);
 
   // Detect social proof elements
-  const hasTestimonials = /testimonial/i.test(html) || /guest\s*(said|says|wrote)/i.test(html);
-  const hasGuestPhotos = /guest\s*photo/i.test(html) || /photo.*review/i.test(html);
-  const hasPressLogos = /as\s*seen\s*(in|on)/i.test(html) || /featured\s*(in|on)/i.test(html);
+  const hasTestimonials =
+    /testimonial/i.test(visibleText) || /guest\s*(said|says|wrote)/i.test(visibleText);
+  const hasGuestPhotos = /guest\s*photo/i.test(visibleText) || /photo.*review/i.test(visibleText);
+  const hasPressLogos =
+    /as\s*seen\s*(in|on)/i.test(visibleText) || /featured\s*(in|on)/i.test(visibleText);
 
   // Check for legal pages (usually in footer links)
   const hasPrivacyPolicy = /privacy\s*policy/i.test(html) || /privacy-policy/i.test(html);
@@ -169,82 +206,179 @@ export function analyzeTrustSignals(html: string): TrustSignalAnalysis {
     hasTermsOfService,
   });
 
-  // Generate recommendations
-  if (!reviewAnalysis.hasReviews) {
+  const analysis: Omit<TrustSignalAnalysis, "recommendations"> = {
+    overallTrustScore,
+    hasReviews: reviewAnalysis.hasReviews,
+    reviewSource: reviewAnalysis.source,
+    reviewCount: reviewAnalysis.reviewCount,
+    averageRating: reviewAnalysis.averageRating,
+    ratingOutOf: 5,
+    latestReviewDate: extractLatestReviewDate(html),
+    reviewPlacement,
+    trustBadges,
+    hasSecurityBadges,
+    hasIndustryBadges,
+    hasPhoneNumber: contactAnalysis.hasPhoneNumber,
+    hasEmailAddress: contactAnalysis.hasEmailAddress,
+    hasPhysicalAddress: contactAnalysis.hasPhysicalAddress,
+    hasSocialProfiles: socialProfiles,
+    hasAboutPage,
+    hasPrivacyPolicy,
+    hasTermsOfService,
+    hasTestimonials,
+    hasGuestPhotos,
+    hasPressLogos,
+  };
+
+  return { ...analysis, recommendations: generateRecommendations(analysis) };
+}
+
+/**
+ * Combines the homepage analysis with analyses of other crawled pages. Trust
+ * signals usually live on about, contact and policy pages, so anything found
+ * on any page counts for the site.
+ */
+export function mergeTrustSignals(
+  home: TrustSignalAnalysis,
+  pages: TrustSignalAnalysis[]
+): TrustSignalAnalysis {
+  if (pages.length === 0) return home;
+
+  const all = [home, ...pages];
+  const anyPage = (key: keyof TrustSignalAnalysis) => all.some((a) => a[key] === true);
+
+  // Review numbers come from the page showing the most reviews
+  const reviewPage =
+    [...all]
+      .filter((a) => a.hasReviews)
+      .sort((a, b) => (b.reviewCount ?? 0) - (a.reviewCount ?? 0))[0] ?? home;
+  const reviewSource =
+    all.find((a) => a.reviewSource?.isVerified)?.reviewSource ??
+    reviewPage.reviewSource ??
+    all.find((a) => a.reviewSource)?.reviewSource ??
+    null;
+  const latestReviewDate =
+    all
+      .map((a) => a.latestReviewDate)
+      .filter((d): d is string => d !== null)
+      .sort()
+      .pop() ?? null;
+
+  const trustBadges = [
+    ...new Map(all.flatMap((a) => a.trustBadges).map((b) => [b.name, b])).values(),
+  ];
+  const socialProfiles = home.hasSocialProfiles.map((profile) => ({
+    platform: profile.platform,
+    detected: all.some((a) =>
+      a.hasSocialProfiles.some((p) => p.platform === profile.platform && p.detected)
+    ),
+  }));
+
+  const contactAnalysis = {
+    hasPhoneNumber: anyPage("hasPhoneNumber"),
+    hasEmailAddress: anyPage("hasEmailAddress"),
+    hasPhysicalAddress: anyPage("hasPhysicalAddress"),
+  };
+  const hasReviews = anyPage("hasReviews");
+  const hasTestimonials = anyPage("hasTestimonials");
+  const hasPrivacyPolicy = anyPage("hasPrivacyPolicy");
+  const hasTermsOfService = anyPage("hasTermsOfService");
+
+  const analysis: Omit<TrustSignalAnalysis, "recommendations"> = {
+    overallTrustScore: calculateTrustScore({
+      hasReviews,
+      averageRating: reviewPage.averageRating,
+      reviewCount: reviewPage.reviewCount,
+      trustBadges,
+      contactAnalysis,
+      socialProfiles,
+      hasTestimonials,
+      hasPrivacyPolicy,
+      hasTermsOfService,
+    }),
+    hasReviews,
+    reviewSource,
+    reviewCount: reviewPage.reviewCount,
+    averageRating: reviewPage.averageRating,
+    ratingOutOf: reviewPage.ratingOutOf,
+    latestReviewDate,
+    // Placement is about what a visitor sees when they land
+    reviewPlacement: home.reviewPlacement,
+    trustBadges,
+    hasSecurityBadges: trustBadges.some((b) => b.category === "security"),
+    hasIndustryBadges: trustBadges.some((b) => b.category === "industry"),
+    ...contactAnalysis,
+    hasSocialProfiles: socialProfiles,
+    hasAboutPage: anyPage("hasAboutPage"),
+    hasPrivacyPolicy,
+    hasTermsOfService,
+    hasTestimonials,
+    hasGuestPhotos: anyPage("hasGuestPhotos"),
+    hasPressLogos: anyPage("hasPressLogos"),
+  };
+
+  return { ...analysis, recommendations: generateRecommendations(analysis) };
+}
+
+function generateRecommendations(
+  analysis: Omit<TrustSignalAnalysis, "recommendations">
+): string[] {
+  const recommendations: string[] = [];
+
+  if (!analysis.hasReviews) {
     recommendations.push(
       "Add guest reviews to your site - 93% of travelers read reviews before booking"
     );
-  } else if (reviewAnalysis.reviewCount && reviewAnalysis.reviewCount < 10) {
+  } else if (analysis.reviewCount && analysis.reviewCount < 10) {
     recommendations.push(
-      `You have ${reviewAnalysis.reviewCount} reviews - encourage more guests to leave feedback`
+      `You have ${analysis.reviewCount} reviews - encourage more guests to leave feedback`
     );
   }
 
-  if (!reviewAnalysis.source?.isVerified) {
+  if (!analysis.reviewSource?.isVerified) {
     recommendations.push(
       "Display verified reviews from Google, Airbnb, or VRBO to build credibility"
     );
   }
 
-  if (!contactAnalysis.hasPhoneNumber) {
+  if (!analysis.hasPhoneNumber) {
     recommendations.push(
       "Add a visible phone number - guests want to know they can reach you"
     );
   }
 
-  if (!contactAnalysis.hasPhysicalAddress) {
+  if (!analysis.hasPhysicalAddress) {
     recommendations.push(
       "Show your general location or business address for transparency"
     );
   }
 
-  if (socialProfiles.filter((p) => p.detected).length === 0) {
+  if (analysis.hasSocialProfiles.filter((p) => p.detected).length === 0) {
     recommendations.push(
       "Link to your social media profiles to show you're an active, real business"
     );
   }
 
-  if (!hasSecurityBadges && !hasIndustryBadges) {
+  if (!analysis.hasSecurityBadges && !analysis.hasIndustryBadges) {
     recommendations.push(
       "Add trust badges (Superhost, verified host, secure payment) to reduce booking anxiety"
     );
   }
 
-  if (!hasPrivacyPolicy) {
+  if (!analysis.hasPrivacyPolicy) {
     recommendations.push(
       "Add a privacy policy link - it's legally required and builds trust"
     );
   }
 
-  if (reviewAnalysis.averageRating && reviewAnalysis.averageRating >= 4.5) {
+  if (analysis.averageRating && analysis.averageRating >= 4.5) {
     // This is actually good - highlight it
     recommendations.push(
-      `Great ${reviewAnalysis.averageRating} rating! Feature this prominently in your hero section`
+      `Great ${analysis.averageRating} rating! Feature this prominently in your hero section`
     );
   }
 
-  return {
-    overallTrustScore,
-    hasReviews: reviewAnalysis.hasReviews,
-    reviewSource: reviewAnalysis.source,
-    reviewCount: reviewAnalysis.reviewCount,
-    averageRating: reviewAnalysis.averageRating,
-    ratingOutOf: 5,
-    trustBadges,
-    hasSecurityBadges,
-    hasIndustryBadges,
-    hasPhoneNumber: contactAnalysis.hasPhoneNumber,
-    hasEmailAddress: contactAnalysis.hasEmailAddress,
-    hasPhysicalAddress: contactAnalysis.hasPhysicalAddress,
-    hasSocialProfiles: socialProfiles,
-    hasAboutPage,
-    hasPrivacyPolicy,
-    hasTermsOfService,
-    hasTestimonials,
-    hasGuestPhotos,
-    hasPressLogos,
-    recommendations,
-  };
+  return recommendations;
 }
 
 function analyzeReviews(html: string): {
@@ -343,6 +477,35 @@ function analyzeReviews(html: string): {
   };
 }
 
+const MONTHS =
+  "january|february|march|april|may|june|july|august|september|october|november|december|jan|feb|mar|apr|jun|jul|aug|sep|sept|oct|nov|dec";
+
+function extractLatestReviewDate(html: string): string | null {
+  const dates: number[] = [];
+
+  // Structured data: schema.org Review.datePublished (JSON-LD or microdata)
+  for (const match of html.matchAll(/"datePublished"\s*:\s*"([^"]+)"/gi)) {
+    dates.push(Date.parse(match[1]));
+  }
+  for (const match of html.matchAll(/itemprop=["']datePublished["'][^>]*content=["']([^"']+)["']/gi)) {
+    dates.push(Date.parse(match[1]));
+  }
+
+  // Visible text: "Stayed in June 2024", "Reviewed March 3, 2024"
+  const textPattern = new RegExp(
+    `(?:stayed|reviewed|posted|written)\\s*(?:in|on)?\\s*((?:${MONTHS})\\.?\\s*(?:\\d{1,2},?\\s*)?\\d{4})`,
+    "gi"
+  );
+  for (const match of html.matchAll(textPattern)) {
+    dates.push(Date.parse(match[1].replace(/\.|,/g, "")));
+  }
+
+  const valid = dates.filter((d) => !isNaN(d));
+  if (valid.length === 0) return null;
+
+  return new Date(Math.max(...valid)).toISOString();
+}
+
 function detectTrustBadges(html: string): TrustBadge[] {
   const badges: TrustBadge[] = [];
 
@@ -0,0 +1,474 @@
+// Site Crawler
+// Bounded same-origin crawl seeded from the homepage and sitemap. Respects
+// robots.txt, prefers pages that matter for booking (property, checkout,
+// policy) and classifies every page it fetches.
+
+import type { PageKind } from "@/types/rules";
+
+export const USER_AGENT = "Mozilla/5.0 (compatible; GetHostAI-Audit/1.0; +https://gethost.ai)";
+
+export const PAGE_KINDS: PageKind[] = [
+  "home",
+  "listing",
+  "property",
+  "checkout",
+  "policy",
+  "contact",
+  "other",
+];
+
+// Token matched against robots.txt User-agent lines
+const ROBOTS_AGENT = "gethostai-audit";
+
+export interface FetchedPage {
+  url: string;
+  finalUrl: string;
+  html: string;
+  status: number;
+  headers: Record<string, string>;
+  loadTimeMs: number;
+  error?: string;
+}
+
+export interface CrawledPage extends FetchedPage {
+  kind: PageKind;
+  depth: number;
+}
+
+export interface CrawlOptions {
+  maxPages?: number;
+  maxDepth?: number;
+  // Per-request timeout
+  timeoutMs?: number;
+  // Stop queueing new fetches once the crawl has run this long
+  budgetMs?: number;
+  onPage?: (page: CrawledPage, crawled: number, maxPages: number) => void;
+}
+
+export interface CrawlResult {
+  // Homepage first, then pages in the order they were fetched
+  pages: CrawledPage[];
+  sitemap: { found: boolean; url: string } | null;
+  robots: {
+    found: boolean;
+    url: string;
+    // Discovered URLs skipped because robots.txt disallows them
+    blockedCount: number;
+  } | null;
+  // Same-origin URLs discovered but not fetched (limits or budget)
+  skippedCount: number;
+}
+
+interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  sitemaps: string[];
+}
+
+interface QueuedUrl {
+  url: string;
+  depth: number;
+  kind: PageKind;
+}
+
+// Higher is fetched first
+const KIND_PRIORITY: Record<PageKind, number> = {
+  checkout: 6,
+  property: 5,
+  listing: 4,
+  policy: 3,
+  contact: 2,
+  other: 1,
+  home: 0,
+};
+
+// Keeps a site with hundreds of properties from spending the whole crawl on them
+const KIND_LIMITS: Partial<Record<PageKind, number>> = {
+  property: 3,
+  listing: 2,
+  checkout: 2,
+  policy: 3,
+  contact: 1,
+};
+
+const MAX_SITEMAP_URLS = 500;
+const MAX_CHILD_SITEMAPS = 3;
+
+const ASSET_EXTENSIONS =
+  /\.(jpe?g|png|gif|webp|avif|svg|ico|css|js|mjs|json|xml|txt|pdf|zip|mp4|mov|webm|mp3|woff2?|ttf|eot)$/i;
+
+export function getCrawlDefaults(): { maxPages: number; maxDepth: number } {
+  return {
+    maxPages: parseInt(process.env.CRAWL_MAX_PAGES || "12", 10),
+    maxDepth: parseInt(process.env.CRAWL_MAX_DEPTH || "2", 10),
+  };
+}
+
+export async function crawlSite(
+  startUrl: string,
+  options: CrawlOptions = {}
+): Promise<CrawlResult> {
+  const defaults = getCrawlDefaults();
+  const maxPages = Math.max(1, options.maxPages ?? defaults.maxPages);
+  const maxDepth = Math.max(0, options.maxDepth ?? defaults.maxDepth);
+  const timeoutMs = options.timeoutMs ?? 20000;
+  const budgetMs = options.budgetMs ?? 60000;
+  const started = Date.now();
+
+  // The homepage is always fetched - it's the page the audit was asked for
+  const home = await fetchPage(startUrl, timeoutMs);
+  const homePage: CrawledPage = { ...home, kind: "home", depth: 0 };
+  options.onPage?.(homePage, 1, maxPages);
+
+  const base = new URL(home.finalUrl || startUrl);
+  const [robots, robotsFound] = await fetchRobots(base);
+  const sitemapSeed = await fetchSitemapUrls(base, robots?.sitemaps ?? []);
+
+  const pages: CrawledPage[] = [homePage];
+  const seen = new Set<string>([urlKey(startUrl), urlKey(base.toString())]);
+  const kindCounts: Partial<Record<PageKind, number>> = {};
+  const queue: QueuedUrl[] = [];
+  let blockedCount = 0;
+
+  const enqueue = (url: string, depth: number) => {
+    const key = urlKey(url);
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    const { pathname, search } = new URL(url);
+    if (robots && !isAllowed(robots, pathname + search)) {
+      blockedCount++;
+      return;
+    }
+    queue.push({ url, depth, kind: classifyUrl(url) });
+  };
+
+  if (maxDepth > 0) {
+    if (homePage.html) {
+      for (const link of extractLinks(homePage.html, homePage.finalUrl, base)) {
+        enqueue(link, 1);
+      }
+    }
+    // Sitemap URLs are treated as one hop from the homepage
+    for (const url of sitemapSeed.urls) {
+      if (isSameSite(url, base)) enqueue(url, 1);
+    }
+  }
+
+  while (queue.length > 0 && pages.length < maxPages && Date.now() - started < budgetMs) {
+    queue.sort(
+      (a, b) => KIND_PRIORITY[b.kind] - KIND_PRIORITY[a.kind] || a.depth - b.depth
+    );
+    const index = queue.findIndex(
+      (q) => (kindCounts[q.kind] ?? 0) < (KIND_LIMITS[q.kind] ?? Infinity)
+    );
+    if (index === -1) break;
+    const [next] = queue.splice(index, 1);
+
+    const fetched = await fetchPage(next.url, timeoutMs);
+    // Redirects to another site (e.g. an external booking engine) are not ours to crawl
+    if (!isSameSite(fetched.finalUrl, base)) continue;
+
+    const kind = classifyPage(fetched.finalUrl, fetched.html);
+    const page: CrawledPage = { ...fetched, kind, depth: next.depth };
+    pages.push(page);
+    kindCounts[next.kind] = (kindCounts[next.kind] ?? 0) + 1;
+    options.onPage?.(page, pages.length, maxPages);
+
+    if (next.depth < maxDepth && fetched.html) {
+      for (const link of extractLinks(fetched.html, fetched.finalUrl, base)) {
+        enqueue(link, next.depth + 1);
+      }
+    }
+  }
+
+  return {
+    pages,
+    sitemap: sitemapSeed.sitemap,
+    robots: robotsFound === null
+      ? null
+      : { found: robotsFound, url: new URL("/robots.txt", base).toString(), blockedCount },
+    skippedCount: queue.length,
+  };
+}
+
+export async function fetchPage(url: string, timeoutMs?: number): Promise<FetchedPage> {
+  const start = Date.now();
+
+  try {
+    const response = await fetch(url, {
+      headers: { "User-Agent": USER_AGENT },
+      redirect: "follow",
+      signal: timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined,
+    });
+
+    const html = await response.text();
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    return {
+      url,
+      finalUrl: response.url || url,
+      html,
+      status: response.status,
+      headers,
+      loadTimeMs: Date.now() - start,
+    };
+  } catch (error) {
+    return {
+      url,
+      finalUrl: url,
+      html: "",
+      status: 0,
+      headers: {},
+      loadTimeMs: Date.now() - start,
+      error: String(error),
+    };
+  }
+}
+
+/**
+ * Classifies a page by URL first, then by content. URL conventions on STR
+ * sites are consistent enough that they beat guessing from the HTML.
+ */
+export function classifyPage(url: string, html: string): PageKind {
+  const { pathname } = new URL(url);
+  if (pathname === "/" || pathname === "") return "home";
+
+  const fromUrl = classifyUrl(url);
+  if (fromUrl !== "other") return fromUrl;
+
+  if (/"@type"\s*:\s*"(VacationRental|LodgingBusiness|Accommodation|House|Apartment)"/i.test(html)) {
+    return "property";
+  }
+  if (/\b\d+\s*(bedrooms?|beds?)\b/i.test(html) && /\bsleeps\s*\d+/i.test(html)) {
+    return "property";
+  }
+  if (/<form[^>]*(checkout|payment|reservation)/i.test(html)) {
+    return "checkout";
+  }
+
+  return "other";
+}
+
+function classifyUrl(url: string): PageKind {
+  const path = new URL(url).pathname.toLowerCase().replace(/\/+$/, "");
+  if (path === "") return "home";
+
+  if (/\/(book|booking|bookings|checkout|reserve|reservation|reservations|cart|payment)(\/|$|-)/.test(path)) {
+    return "checkout";
+  }
+  if (/(privacy|terms|cancellation|refund|polic(y|ies)|house-rules|rental-agreement)/.test(path)) {
+    return "policy";
+  }
+  if (/\/(contact|contact-us|get-in-touch)(\/|$)/.test(path)) {
+    return "contact";
+  }
+  if (/\/(propert(y|ies)|rentals?|listings?|homes?|villas?|cabins?|cottages?|condos?|units?|stays?|accommodations?)\/[^/]+/.test(path)) {
+    return "property";
+  }
+  if (/\/(propert(y|ies)|rentals|listings|homes|villas|cabins|cottages|condos|units|stays|accommodations|search)$/.test(path)) {
+    return "listing";
+  }
+
+  return "other";
+}
+
+function extractLinks(html: string, pageUrl: string, base: URL): string[] {
+  const links: string[] = [];
+  const pattern = /<a\b[^>]*?\bhref\s*=\s*["']([^"'#][^"']*)["']/gi;
+  let match;
+
+  while ((match = pattern.exec(html)) !== null) {
+    const href = match[1].trim();
+    if (/^(mailto|tel|javascript|data):/i.test(href)) continue;
+
+    let resolved: URL;
+    try {
+      resolved = new URL(href, pageUrl);
+    } catch {
+      continue;
+    }
+    if (!/^https?:$/.test(resolved.protocol)) continue;
+    if (ASSET_EXTENSIONS.test(resolved.pathname)) continue;
+    if (!isSameSite(resolved.toString(), base)) continue;
+
+    resolved.hash = "";
+    links.push(resolved.toString());
+  }
+
+  return links;
+}
+
+// www and non-www count as the same site
+function isSameSite(url: string, base: URL): boolean {
+  try {
+    const host = new URL(url).hostname.replace(/^www\./, "");
+    return host === base.hostname.replace(/^www\./, "");
+  } catch {
+    return false;
+  }
+}
+
+function urlKey(url: string): string {
+  const parsed = new URL(url);
+  const host = parsed.hostname.replace(/^www\./, "");
+  return `${host}${parsed.pathname.replace(/\/+$/, "")}${parsed.search}`;
+}
+
+// ---------------------------------------------------------------------------
+// robots.txt
+// ---------------------------------------------------------------------------
+
+// Returns [rules, found]; found is null when the request itself failed
+async function fetchRobots(base: URL): Promise<[RobotsRules | null, boolean | null]> {
+  try {
+    const response = await fetch(new URL("/robots.txt", base), {
+      headers: { "User-Agent": USER_AGENT },
+      redirect: "follow",
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) return [null, false];
+
+    const body = await response.text();
+    // Sites that serve their homepage for unknown paths
+    if (/<html/i.test(body)) return [null, false];
+
+    return [parseRobots(body), true];
+  } catch {
+    return [null, null];
+  }
+}
+
+function parseRobots(body: string): RobotsRules {
+  const groups: Array<{ agents: string[]; allow: string[]; disallow: string[] }> = [];
+  const sitemaps: string[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "user-agent") {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], allow: [], disallow: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+
+    if (key === "sitemap") {
+      if (value) sitemaps.push(value);
+    } else if (current && key === "allow" && value) {
+      current.allow.push(value);
+    } else if (current && key === "disallow" && value) {
+      current.disallow.push(value);
+    }
+  }
+
+  const group =
+    groups.find((g) => g.agents.includes(ROBOTS_AGENT)) ??
+    groups.find((g) => g.agents.includes("*"));
+
+  return {
+    allow: group?.allow ?? [],
+    disallow: group?.disallow ?? [],
+    sitemaps,
+  };
+}
+
+// Longest matching rule wins; Allow wins a tie
+function isAllowed(rules: RobotsRules, path: string): boolean {
+  const longest = (patterns: string[]) =>
+    patterns.reduce(
+      (max, pattern) => (robotsPatternMatches(pattern, path) ? Math.max(max, pattern.length) : max),
+      -1
+    );
+
+  const disallowed = longest(rules.disallow);
+  return disallowed === -1 || longest(rules.allow) >= disallowed;
+}
+
+function robotsPatternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path);
+}
+
+// ---------------------------------------------------------------------------
+// Sitemaps
+// ---------------------------------------------------------------------------
+
+// Sitemaps listed in robots.txt first, then the conventional location
+async function fetchSitemapUrls(
+  base: URL,
+  declared: string[]
+): Promise<{ sitemap: { found: boolean; url: string } | null; urls: string[] }> {
+  const candidates = declared.length > 0 ? declared : [new URL("/sitemap.xml", base).toString()];
+  let sitemap: { found: boolean; url: string } | null = null;
+
+  for (const candidate of candidates) {
+    const body = await fetchXml(candidate);
+    if (body === null) continue; // Network failure tells us nothing
+
+    if (!/<(urlset|sitemapindex)[\s>]/i.test(body)) {
+      sitemap ??= { found: false, url: candidate };
+      continue;
+    }
+
+    sitemap = { found: true, url: candidate };
+    let urls = extractLocs(body);
+
+    // Sitemap indexes point at child sitemaps; sample a few
+    if (/<sitemapindex[\s>]/i.test(body)) {
+      const children = urls.slice(0, MAX_CHILD_SITEMAPS);
+      urls = [];
+      for (const child of children) {
+        const childBody = await fetchXml(child);
+        if (childBody) urls.push(...extractLocs(childBody));
+      }
+    }
+
+    return { sitemap, urls: urls.slice(0, MAX_SITEMAP_URLS) };
+  }
+
+  return { sitemap, urls: [] };
+}
+
+async function fetchXml(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { "User-Agent": USER_AGENT },
+      redirect: "follow",
+      signal: AbortSignal.timeout(10000),
+    });
+    // A 404 still tells us the sitemap is missing
+    return response.ok ? await response.text() : "";
+  } catch {
+    return null;
+  }
+}
+
+function extractLocs(xml: string): string[] {
+  const locs: string[] = [];
+  const pattern = /<loc>\s*(?:<!\[CDATA\[)?\s*([^<\s\]]+)/gi;
+  let match;
+  while ((match = pattern.exec(xml)) !== null) {
+    locs.push(match[1].replace(/&amp;/g, "&"));
+  }
+  return locs;
+}
@@ -0,0 +1,608 @@
+// Booking Funnel Explorer
+// Walks a site's booking funnel in headless Chrome the way a guest on a
+// phone would: follows the booking CTA (or a property link when there is
+// none), picks dates and guests where a page asks for them, and stops at the
+// checkout form - it never types guest or payment details. Every step
+// records where it landed, how long it took, a screenshot and the friction
+// seen on the way: account walls, hops to another domain, fees that only
+// show up at checkout. When checkout is reached, the clicks it took replace
+// the estimate in booking-flow.ts.
+//
+// Off by default (FUNNEL_EXPLORER=on). Uses the local Chrome, like
+// RENDER_MODE. Plain http and localhost URLs work, so it can be pointed at
+// the fixture sites under /dev/funnel.
+
+import type { Browser, Page } from "puppeteer-core";
+import type { AuditFunnel, AuditFunnelStep, AuditScreenshot } from "@/types/audit";
+import { CTA_PATTERNS, FEE_PATTERNS } from "./checks/booking-flow";
+import { classifyPage, USER_AGENT } from "./crawler";
+import { openChrome, RENDER_VIEWPORTS, type ChromeSession } from "./renderer";
+
+export interface FunnelStep extends Omit<AuditFunnelStep, "screenshotId"> {
+  // JPEG of the first screen after the step
+  screenshot?: Buffer;
+}
+
+export interface FunnelExploration extends Omit<AuditFunnel, "steps"> {
+  steps: FunnelStep[];
+}
+
+export interface ExploreOptions {
+  maxSteps?: number;
+  // Per click or page load
+  stepTimeoutMs?: number;
+  // The whole walk
+  budgetMs?: number;
+}
+
+// What the page offers at the current step, read inside the page. Elements
+// worth acting on are tagged with data-funnel-id so they can be clicked.
+interface PageState {
+  checkout: boolean;
+  requiredFields: number;
+  accountWall: boolean;
+  guestCheckout: string | null;
+  captcha: boolean;
+  hasPrice: boolean;
+  hasFees: boolean;
+  checkIn: string | null;
+  checkOut: string | null;
+  datesFilled: boolean;
+  guests: { id: string; value: string } | null;
+  dismiss: string | null;
+  ctas: Array<{ id: string; text: string; href: string | null }>;
+  propertyLinks: Array<{ id: string; text: string; href: string }>;
+}
+
+// "Contact Us" and the like lead to a contact page, not a booking
+const MIN_CTA_PRIORITY = 50;
+
+// How long to wait for late widgets after a click or page load
+const SETTLE_MS = 3000;
+const MAX_DISMISSALS = 3;
+
+// A month out for three nights: far enough ahead that most calendars have
+// availability, near enough to be on the first page or two of the picker
+const CHECK_IN_DAYS_AHEAD = 30;
+const STAY_NIGHTS = 3;
+const GUESTS = 2;
+
+// Checkout forms asking for more than this are friction in themselves
+const MAX_REQUIRED_FIELDS = 10;
+
+export function isFunnelExplorerEnabled(): boolean {
+  const setting = (process.env.FUNNEL_EXPLORER || "off").toLowerCase();
+  if (setting === "on" || setting === "off") return setting === "on";
+
+  console.warn(`[Funnel] Unknown FUNNEL_EXPLORER "${setting}", explorer is off`);
+  return false;
+}
+
+/**
+ * Walk the booking funnel from `url`. Never throws: a Chrome failure comes
+ * back as outcome "error" with the steps taken so far.
+ */
+export async function exploreBookingFunnel(
+  url: string,
+  options: ExploreOptions = {}
+): Promise<FunnelExploration> {
+  const maxSteps = options.maxSteps ?? 10;
+  const stepTimeoutMs = options.stepTimeoutMs ?? 30000;
+  const budgetMs = options.budgetMs ?? 120000;
+  const started = Date.now();
+
+  const exploration: FunnelExploration = {
+    startUrl: url,
+    startedAt: new Date(started).toISOString(),
+    durationMs: 0,
+    outcome: "dead_end",
+    reachedCheckout: false,
+    clicks: 0,
+    crossDomain: false,
+    externalDomains: [],
+    accountRequired: false,
+    feesRevealedLate: false,
+    steps: [],
+  };
+
+  let session: ChromeSession | null = null;
+  try {
+    session = await openChrome();
+    await walk(session.browser, exploration, { maxSteps, stepTimeoutMs, deadline: started + budgetMs });
+  } catch (error) {
+    console.error(`[Funnel] Exploring ${url} failed:`, error);
+    exploration.outcome = "error";
+    exploration.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    await session?.close();
+  }
+
+  exploration.durationMs = Date.now() - started;
+  exploration.crossDomain = exploration.externalDomains.length > 0;
+  return exploration;
+}
+
+/**
+ * The exploration as stored on the audit result, with each step pointing at
+ * its stored screenshot
+ */
+export function toAuditFunnel(exploration: FunnelExploration, screenshots: AuditScreenshot[]): AuditFunnel {
+  return {
+    ...exploration,
+    steps: exploration.steps.map(({ screenshot, ...step }) => {
+      const stored = screenshot && screenshots.find((s) => s.funnelStep === step.index);
+      return stored ? { ...step, screenshotId: stored.id } : step;
+    }),
+  };
+}
+
+async function walk(
+  browser: Browser,
+  exploration: FunnelExploration,
+  limits: { maxSteps: number; stepTimeoutMs: number; deadline: number }
+): Promise<void> {
+  let page = await browser.newPage();
+  const viewport = RENDER_VIEWPORTS.mobile;
+  await page.setViewport({ ...viewport, hasTouch: true });
+  await page.setUserAgent(`${await browser.userAgent()} ${USER_AGENT}`);
+  page.setDefaultTimeout(limits.stepTimeoutMs);
+
+  const siteHost = new URL(exploration.startUrl).hostname.replace(/^www\./, "");
+  const tried = new Set<string>();
+  const datesPickedOn = new Set<string>();
+  const patterns = CTA_PATTERNS.filter((c) => c.priority >= MIN_CTA_PRIORITY).map(
+    (c) => [c.pattern.source, c.priority] as [string, number]
+  );
+  const feePatterns = FEE_PATTERNS.map((p) => p.source);
+  let dismissals = 0;
+  let priceWithoutFees = false;
+  let feesSeen = false;
+
+  const record = async (action: FunnelStep["action"], label: string, stepStarted: number, notes: string[] = []) => {
+    const stepUrl = page.url();
+    const host = safeHostname(stepUrl);
+    if (host && host !== siteHost && !host.endsWith(`.${siteHost}`) && !exploration.externalDomains.includes(host)) {
+      exploration.externalDomains.push(host);
+      notes.push(`Left ${siteHost} for ${host}`);
+    }
+
+    const [html, screenshot] = await Promise.all([
+      page.content().catch(() => ""),
+      page
+        .screenshot({ type: "jpeg", quality: 70 })
+        .then((data) => Buffer.from(data))
+        .catch(() => undefined),
+    ]);
+
+    exploration.steps.push({
+      index: exploration.steps.length,
+      action,
+      label,
+      url: stepUrl,
+      pageKind: classifyPage(stepUrl, html),
+      durationMs: Date.now() - stepStarted,
+      clicks: exploration.clicks,
+      notes,
+      screenshot,
+    });
+  };
+
+  // A click can start a navigation partway through reading the page
+  const inspect = async (): Promise<PageState> => {
+    try {
+      return await page.evaluate(inspectPage, patterns, feePatterns);
+    } catch {
+      await page.waitForNavigation({ waitUntil: "load" }).catch(() => {});
+      return page.evaluate(inspectPage, patterns, feePatterns);
+    }
+  };
+
+  const click = async (id: string): Promise<void> => {
+    // Keep the walk in this tab; window.open popups are followed below
+    await page.evaluate(
+      (funnelId) => document.querySelector(`[data-funnel-id="${funnelId}"]`)?.removeAttribute("target"),
+      id
+    );
+    const popup = new Promise<Page | null>((resolve) => {
+      page.once("popup", resolve);
+      setTimeout(() => resolve(null), 1000);
+    });
+    const navigation = page.waitForNavigation({ waitUntil: "load" }).catch(() => null);
+
+    await page.click(`[data-funnel-id="${id}"]`);
+    await Promise.race([navigation, page.waitForNetworkIdle({ idleTime: 500 }).catch(() => null)]);
+
+    const opened = await popup;
+    if (opened) {
+      await opened.waitForNetworkIdle({ idleTime: 500, timeout: limits.stepTimeoutMs }).catch(() => {});
+      await page.close().catch(() => {});
+      page = opened;
+      page.setDefaultTimeout(limits.stepTimeoutMs);
+    }
+    await page.waitForNetworkIdle({ idleTime: 500, timeout: SETTLE_MS }).catch(() => {});
+  };
+
+  let stepStarted = Date.now();
+  await page.goto(exploration.startUrl, { waitUntil: "load" });
+  await page.waitForNetworkIdle({ idleTime: 500, timeout: SETTLE_MS }).catch(() => {});
+  await record("open", "Opened the homepage", stepStarted);
+
+  while (true) {
+    if (exploration.steps.length >= limits.maxSteps || Date.now() >= limits.deadline) {
+      exploration.outcome = "step_limit";
+      return;
+    }
+
+    const state = await inspect();
+    const current = exploration.steps[exploration.steps.length - 1];
+
+    if (state.hasFees) {
+      if (!feesSeen && priceWithoutFees && state.checkout) {
+        exploration.feesRevealedLate = true;
+        current.notes.push("Fees first shown at checkout");
+      }
+      feesSeen = true;
+    } else if (state.hasPrice) {
+      priceWithoutFees = true;
+    }
+
+    if (state.captcha) {
+      current.notes.push("CAPTCHA shown - not attempted");
+      exploration.outcome = "captcha";
+      return;
+    }
+
+    if (state.checkout) {
+      if (state.requiredFields > MAX_REQUIRED_FIELDS) {
+        current.notes.push(`Checkout asks for ${state.requiredFields} required fields`);
+      }
+      exploration.outcome = "checkout";
+      exploration.reachedCheckout = true;
+      return;
+    }
+
+    if (state.accountWall) {
+      exploration.accountRequired = true;
+      if (!state.guestCheckout || tried.has(state.guestCheckout)) {
+        current.notes.push("Sign-in required to continue, with no guest option");
+        exploration.outcome = "account_wall";
+        return;
+      }
+      current.notes.push("Sign-in offered before checkout");
+      tried.add(state.guestCheckout);
+      stepStarted = Date.now();
+      exploration.clicks++;
+      await click(state.guestCheckout);
+      await record("click", "Continued as a guest", stepStarted);
+      continue;
+    }
+
+    if (state.dismiss && dismissals < MAX_DISMISSALS) {
+      dismissals++;
+      stepStarted = Date.now();
+      await click(state.dismiss).catch(() => {});
+      await record("dismiss", "Dismissed a popup", stepStarted, ["Popup covered the page"]);
+      continue;
+    }
+
+    const pageKey = page.url().split("#")[0];
+    if (state.checkIn && !state.datesFilled && !datesPickedOn.has(pageKey)) {
+      datesPickedOn.add(pageKey);
+      stepStarted = Date.now();
+      const method = await pickDates(page, state);
+      exploration.clicks += state.checkOut ? 2 : 1;
+      await record("dates", method === "calendar" ? "Picked dates in the calendar" : "Entered dates", stepStarted);
+
+      if (state.guests && parseInt(state.guests.value, 10) !== GUESTS) {
+        stepStarted = Date.now();
+        await page.evaluate(setGuests, state.guests.id, GUESTS);
+        exploration.clicks++;
+        await record("guests", `Set ${GUESTS} guests`, stepStarted);
+      }
+      continue;
+    }
+
+    const candidates = [
+      ...state.ctas.map((c) => ({ ...c, label: `Clicked "${c.text}"` })),
+      ...state.propertyLinks.map((l) => ({ ...l, label: `Opened "${l.text || l.href}"` })),
+    ];
+    const next = candidates.find((c) => !tried.has(`${pageKey}|${c.text}|${c.href}`));
+    if (!next) {
+      current.notes.push("No booking button or property link left to follow");
+      exploration.outcome = "dead_end";
+      return;
+    }
+    tried.add(`${pageKey}|${next.text}|${next.href}`);
+
+    stepStarted = Date.now();
+    try {
+      await click(next.id);
+    } catch (error) {
+      current.notes.push(`Couldn't click "${next.text}": ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    exploration.clicks++;
+    await record("click", next.label, stepStarted);
+  }
+}
+
+/**
+ * Pick check-in and check-out like a guest: open the picker and click the
+ * days, paging forward a few months if needed. Inputs without a clickable
+ * calendar get the dates typed in.
+ */
+async function pickDates(page: Page, state: PageState): Promise<"calendar" | "typed"> {
+  const checkIn = new Date(Date.now() + CHECK_IN_DAYS_AHEAD * 86400000);
+  const checkOut = new Date(checkIn.getTime() + STAY_NIGHTS * 86400000);
+
+  try {
+    await page.click(`[data-funnel-id="${state.checkIn}"]`);
+    await new Promise((resolve) => setTimeout(resolve, 400));
+
+    let picked = 0;
+    for (const date of [checkIn, checkOut]) {
+      for (let pages = 0; pages < 3; pages++) {
+        const cell = await page.evaluate(findDateCell, toIsoDate(date), toLongDate(date));
+        if (cell.day) {
+          await page.click(`[data-funnel-id="${cell.day}"]`);
+          await new Promise((resolve) => setTimeout(resolve, 300));
+          picked++;
+          break;
+        }
+        if (!cell.next) break;
+        await page.click(`[data-funnel-id="${cell.next}"]`);
+        await new Promise((resolve) => setTimeout(resolve, 300));
+      }
+    }
+    if (picked === 2 || (picked === 1 && !state.checkOut)) return "calendar";
+  } catch {
+    // Fall through to typing the dates
+  }
+
+  await page.evaluate(typeDates, state.checkIn, state.checkOut, toIsoDate(checkIn), toIsoDate(checkOut));
+  return "typed";
+}
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// "November 18, 2026", as date pickers put in aria-labels
+function toLongDate(date: Date): string {
+  return date.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
+function safeHostname(url: string): string | null {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === "http:" || protocol === "https:" ? hostname.replace(/^www\./, "") : null;
+  } catch {
+    return null;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// The functions below run inside the page, so they can only use what they're
+// passed and the DOM
+// ----------------------------------------------------------------------------
+
+function inspectPage(patterns: Array<[string, number]>, feePatterns: string[]): PageState {
+  const counter = window as unknown as { __funnelIds?: number };
+  const tag = (element: Element) => {
+    let id = element.getAttribute("data-funnel-id");
+    if (!id) {
+      counter.__funnelIds = (counter.__funnelIds ?? 0) + 1;
+      id = String(counter.__funnelIds);
+      element.setAttribute("data-funnel-id", id);
+    }
+    return id;
+  };
+  const isVisible = (element: Element) => {
+    const box = element.getBoundingClientRect();
+    const style = window.getComputedStyle(element);
+    return (
+      box.width > 0 &&
+      box.height > 0 &&
+      style.display !== "none" &&
+      style.visibility !== "hidden" &&
+      parseFloat(style.opacity || "1") > 0
+    );
+  };
+  const labelOf = (element: Element) =>
+    (
+      (element as HTMLElement).innerText ||
+      (element as HTMLInputElement).value ||
+      element.getAttribute("aria-label") ||
+      element.getAttribute("title") ||
+      ""
+    )
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 120);
+  const nameOf = (element: Element) =>
+    [
+      element.getAttribute("name"),
+      element.id,
+      element.getAttribute("placeholder"),
+      element.getAttribute("aria-label"),
+      element.getAttribute("autocomplete"),
+    ]
+      .filter(Boolean)
+      .join(" ");
+  const visibleAll = (selector: string) => Array.from(document.querySelectorAll(selector)).filter(isVisible);
+
+  const text = document.body?.innerText ?? "";
+  const clickables = visibleAll("a[href], button, input[type=submit], input[type=button], [role=button]");
+
+  // Booking CTAs, best first
+  const ctas = clickables
+    .map((element) => {
+      const label = labelOf(element);
+      const match = patterns.find(([source]) => new RegExp(source, "i").test(label));
+      const href = element.getAttribute("href");
+      return { element, label, href, priority: match ? match[1] : 0 };
+    })
+    .filter((c) => c.priority > 0 && !/^(mailto|tel):/i.test(c.href ?? ""))
+    .sort(
+      (a, b) =>
+        b.priority - a.priority ||
+        a.element.getBoundingClientRect().top - b.element.getBoundingClientRect().top
+    )
+    .map((c) => ({ id: tag(c.element), text: c.label, href: c.href }));
+
+  const propertyPath =
+    /\/(propert(y|ies)|listings?|rentals?|villas?|cabins?|cottages?|units?|rooms?|homes?|stays?|accommodations?)(\/|-|$)/i;
+  const propertyLinks = (clickables.filter((e) => e.tagName === "A") as HTMLAnchorElement[])
+    .filter(
+      (a) =>
+        a.origin === location.origin &&
+        a.pathname !== location.pathname &&
+        propertyPath.test(a.pathname)
+    )
+    .slice(0, 5)
+    .map((a) => ({ id: tag(a), text: labelOf(a), href: a.href }));
+
+  // Dates and guests
+  const inputs = visibleAll("input:not([type=hidden]), select") as Array<HTMLInputElement | HTMLSelectElement>;
+  const dateInputs = inputs.filter((i) => i.type === "date");
+  const checkIn =
+    inputs.find((i) => /check.?in|arriv|start.?date|from.?date|date.?from/i.test(nameOf(i))) ?? dateInputs[0] ?? null;
+  const checkOut =
+    inputs.find((i) => /check.?out|depart|end.?date|to.?date|date.?to/i.test(nameOf(i))) ??
+    dateInputs.find((i) => i !== checkIn) ??
+    null;
+  const guests = inputs.find((i) => /guest|adult|people|persons/i.test(nameOf(i))) ?? null;
+
+  // Checkout: a payment field, or a guest-details form
+  const cardField =
+    inputs.some((i) => /cc-|card/i.test(nameOf(i))) ||
+    visibleAll("iframe[src]").some((f) => /stripe|braintree|adyen|squareup|paypal/i.test(f.getAttribute("src") ?? ""));
+  const emailField = inputs.some((i) => i.type === "email" || /email/i.test(nameOf(i)));
+  const checkoutWording =
+    /(payment (details|information|method)|card number|confirm and pay|complete (your )?(booking|reservation)|guest (details|information)|billing (details|address))/i.test(
+      text
+    );
+  const checkoutPath = /(checkout|payment|\/book(ing)?\/(details|guest|confirm|pay))/i.test(location.pathname);
+  const checkout = cardField || (emailField && (checkoutWording || checkoutPath));
+
+  // Account walls and an escape hatch from them
+  const hasPassword = inputs.some((i) => i.type === "password");
+  const guestCheckout = clickables.find((e) =>
+    /(continue|check ?out|book) as (a )?guest|guest checkout/i.test(labelOf(e))
+  );
+
+  // Cookie banners and newsletter popups in the way
+  const popups = visibleAll(
+    "[class*=cookie i], [id*=cookie i], [class*=consent i], [id*=consent i], [class*=newsletter i], [role=dialog], [aria-modal=true]"
+  ).filter((p) => /cookie|consent|newsletter|subscribe|discount|sign up for/i.test((p as HTMLElement).innerText));
+  const dismiss =
+    popups
+      .flatMap((p) => Array.from(p.querySelectorAll("button, a, [role=button]")).filter(isVisible))
+      .find((b) =>
+        /^(accept( all)?( cookies)?|allow( all)?|agree|i agree|ok(ay)?|got it|close|dismiss|no,? thanks|×|✕|x)$/i.test(
+          labelOf(b)
+        ) || /close|dismiss/i.test(b.getAttribute("aria-label") ?? "")
+      ) ?? null;
+
+  return {
+    checkout,
+    requiredFields: checkout ? inputs.filter((i) => i.required || i.getAttribute("aria-required") === "true").length : 0,
+    accountWall: hasPassword && /(sign|log) ?in|create (an )?account|register/i.test(text),
+    guestCheckout: guestCheckout ? tag(guestCheckout) : null,
+    captcha:
+      visibleAll("iframe[src]").some((f) =>
+        /recaptcha|hcaptcha|turnstile|challenges\.cloudflare/i.test(f.getAttribute("src") ?? "")
+      ) || /verify you are (a )?human|are you a robot/i.test(text),
+    hasPrice: /[$€£]\s?\d|\d+\s*(per|\/)\s*night/i.test(text),
+    hasFees: feePatterns.some((source) => new RegExp(source, "i").test(text)),
+    checkIn: checkIn ? tag(checkIn) : null,
+    checkOut: checkOut ? tag(checkOut) : null,
+    datesFilled: !!checkIn?.value && (!checkOut || !!checkOut.value),
+    guests: guests ? { id: tag(guests), value: guests.value } : null,
+    dismiss: dismiss ? tag(dismiss) : null,
+    ctas,
+    propertyLinks,
+  };
+}
+
+// The open calendar's cell for a date, or its "next month" button
+function findDateCell(iso: string, longDate: string): { day: string | null; next: string | null } {
+  const counter = window as unknown as { __funnelIds?: number };
+  const tag = (element: Element) => {
+    let id = element.getAttribute("data-funnel-id");
+    if (!id) {
+      counter.__funnelIds = (counter.__funnelIds ?? 0) + 1;
+      id = String(counter.__funnelIds);
+      element.setAttribute("data-funnel-id", id);
+    }
+    return id;
+  };
+  const isVisible = (element: Element) => {
+    const box = element.getBoundingClientRect();
+    return box.width > 0 && box.height > 0 && window.getComputedStyle(element).visibility !== "hidden";
+  };
+  const disabled = (element: Element) =>
+    element.hasAttribute("disabled") ||
+    element.getAttribute("aria-disabled") === "true" ||
+    /disabled|unavailable|blocked|booked|past/i.test(element.className.toString());
+
+  const day = Array.from(
+    document.querySelectorAll(`[data-date="${iso}"], [data-day="${iso}"], [data-value="${iso}"], [aria-label*="${longDate}"]`)
+  ).find((e) => isVisible(e) && !disabled(e));
+  if (day) return { day: tag(day), next: null };
+
+  const next = Array.from(document.querySelectorAll("button, a, [role=button], span, div")).find(
+    (e) =>
+      isVisible(e) &&
+      (/next month|next/i.test(e.getAttribute("aria-label") ?? "") ||
+        /(^|[\s_-])next([\s_-]|$)/i.test(e.className.toString()) ||
+        /^(›|»|>|→|next)$/i.test((e as HTMLElement).innerText?.trim() ?? ""))
+  );
+  return { day: null, next: next ? tag(next) : null };
+}
+
+// Fill date inputs the way a typing guest would, in the format they ask for
+function typeDates(checkInId: string | null, checkOutId: string | null, checkIn: string, checkOut: string): void {
+  const setter = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, "value")?.set;
+  const fill = (id: string | null, iso: string) => {
+    const input = id ? (document.querySelector(`[data-funnel-id="${id}"]`) as HTMLInputElement | null) : null;
+    if (!input) return;
+
+    const [year, month, day] = iso.split("-");
+    const placeholder = input.getAttribute("placeholder") ?? "";
+    const value =
+      input.type === "date" || /yyyy-mm-dd/i.test(placeholder)
+        ? iso
+        : /dd[./-]mm/i.test(placeholder)
+          ? `${day}/${month}/${year}`
+          : `${month}/${day}/${year}`;
+
+    input.removeAttribute("readonly");
+    // Through the native setter so frameworks that track the value notice
+    if (setter) setter.call(input, value);
+    else input.value = value;
+    input.dispatchEvent(new Event("input", { bubbles: true }));
+    input.dispatchEvent(new Event("change", { bubbles: true }));
+    input.dispatchEvent(new Event("blur", { bubbles: true }));
+  };
+
+  fill(checkInId, checkIn);
+  fill(checkOutId, checkOut);
+}
+
+function setGuests(id: string, guests: number): void {
+  const field = document.querySelector(`[data-funnel-id="${id}"]`) as HTMLInputElement | HTMLSelectElement | null;
+  if (!field) return;
+
+  if (field instanceof HTMLSelectElement) {
+    const option =
+      Array.from(field.options).find((o) => parseInt(o.value || o.text, 10) === guests) ?? field.options[1];
+    if (option) field.value = option.value;
+  } else {
+    const setter = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, "value")?.set;
+    if (setter) setter.call(field, String(guests));
+    else field.value = String(guests);
+    field.dispatchEvent(new Event("input", { bubbles: true }));
+  }
+  field.dispatchEvent(new Event("change", { bubbles: true }));
+}
@@ -0,0 +1,110 @@
+// Performance providers
+// Picks the provider order from PERF_PROVIDER and falls back to the next
+// provider when one fails (no Chrome, quota exhausted, timeout):
+//
+//   auto (default) - PageSpeed API first when PAGESPEED_API_KEY is set,
+//                    local Lighthouse first when it isn't
+//   pagespeed      - PageSpeed Insights API only
+//   lighthouse     - local headless Lighthouse only
+
+import type { PageSpeedResult } from "@/types/audit";
+import { lighthouseProvider } from "./lighthouse";
+import { pageSpeedProvider } from "./pagespeed";
+import type { PerfProvider, PerfProviderName, PerfProviderResult, PerfStrategy } from "./types";
+
+export type {
+  PerfProvider,
+  PerfProviderName,
+  PerfProviderResult,
+  PerfRequestInfo,
+  PerfStrategy,
+} from "./types";
+
+const PROVIDERS: Record<PerfProviderName, PerfProvider> = {
+  pagespeed: pageSpeedProvider,
+  lighthouse: lighthouseProvider,
+};
+
+export interface PerformanceRun {
+  mobile: PageSpeedResult | null;
+  desktop: PageSpeedResult | null;
+  // Provider that produced each strategy's data
+  providers: Partial<Record<PerfStrategy, PerfProviderName>>;
+  // Raw response for the mobile run (the one shown in the admin raw data view)
+  raw: PerfProviderResult["raw"] | null;
+  // Every failed attempt, in order
+  failures: Array<{
+    provider: PerfProviderName;
+    strategy: PerfStrategy;
+    error: string;
+    rateLimited: boolean;
+  }>;
+}
+
+export function getPerfProviders(): PerfProvider[] {
+  const setting = (process.env.PERF_PROVIDER || "auto").toLowerCase();
+
+  if (setting === "pagespeed" || setting === "lighthouse") {
+    return [PROVIDERS[setting]];
+  }
+  if (setting !== "auto") {
+    console.warn(`[Performance] Unknown PERF_PROVIDER "${setting}", using auto`);
+  }
+
+  return process.env.PAGESPEED_API_KEY
+    ? [pageSpeedProvider, lighthouseProvider]
+    : [lighthouseProvider, pageSpeedProvider];
+}
+
+// PERF_STRATEGIES=mobile,desktop (default); mobile always runs first
+export function getPerfStrategies(): PerfStrategy[] {
+  const configured = (process.env.PERF_STRATEGIES || "mobile,desktop")
+    .split(",")
+    .map((s) => s.trim().toLowerCase());
+  const strategies = (["mobile", "desktop"] as const).filter((s) => configured.includes(s));
+  return strategies.length > 0 ? [...strategies] : ["mobile"];
+}
+
+export async function runPerformance(
+  url: string,
+  providers: PerfProvider[] = getPerfProviders(),
+  strategies: PerfStrategy[] = getPerfStrategies()
+): Promise<PerformanceRun> {
+  const run: PerformanceRun = {
+    mobile: null,
+    desktop: null,
+    providers: {},
+    raw: null,
+    failures: [],
+  };
+  // A provider that failed once (e.g. no Chrome installed) is skipped for later strategies
+  const failed = new Set<PerfProviderName>();
+
+  // Strategies run one after another so two local Chrome instances never compete
+  for (const strategy of strategies) {
+    for (const provider of providers) {
+      if (failed.has(provider.name)) continue;
+
+      const result = await provider.run(url, strategy);
+      if (strategy === "mobile" && (result.data || !run.raw)) {
+        run.raw = result.raw;
+      }
+
+      if (result.data) {
+        run[strategy] = result.data;
+        run.providers[strategy] = provider.name;
+        break;
+      }
+
+      failed.add(provider.name);
+      run.failures.push({
+        provider: provider.name,
+        strategy,
+        error: result.error ?? "No data returned",
+        rateLimited: result.rateLimited ?? false,
+      });
+    }
+  }
+
+  return run;
+}
@@ -0,0 +1,115 @@
+// Local Lighthouse provider
+// Runs Lighthouse against a headless Chrome on this machine. Lab data only -
+// there is no CrUX field data without the PageSpeed API. Chrome is found via
+// CHROME_PATH or the usual install locations.
+
+import type { LaunchedChrome } from "chrome-launcher";
+import type { PageSpeedResult } from "@/types/audit";
+import type { PerfProvider, PerfRequestInfo } from "./types";
+
+const CATEGORIES = ["performance", "accessibility", "best-practices", "seo"];
+
+// Upper bound for one run, including Chrome startup
+const RUN_TIMEOUT_MS = 90000;
+
+const CHROME_FLAGS = [
+  "--headless=new",
+  "--no-sandbox",
+  "--disable-gpu",
+  "--disable-dev-shm-usage",
+];
+
+export const lighthouseProvider: PerfProvider = {
+  name: "lighthouse",
+
+  async run(url, strategy) {
+    const requestInfo: PerfRequestInfo = {
+      method: "GET",
+      url,
+      headers: { "User-Agent": `Lighthouse (local, ${strategy})` },
+    };
+
+    let chrome: LaunchedChrome | null = null;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      // Loaded lazily so audits that never need Lighthouse don't pay for it
+      const [{ default: lighthouse, desktopConfig }, chromeLauncher] = await Promise.all([
+        import("lighthouse"),
+        import("chrome-launcher"),
+      ]);
+
+      console.log(`[Lighthouse] Running ${strategy} audit:`, url);
+      chrome = await chromeLauncher.launch({ chromeFlags: CHROME_FLAGS });
+
+      const timeout = new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(
+          () => reject(new Error(`Timed out after ${RUN_TIMEOUT_MS / 1000}s`)),
+          RUN_TIMEOUT_MS
+        );
+      });
+      const result = await Promise.race([
+        lighthouse(
+          url,
+          {
+            port: chrome.port,
+            output: "json",
+            logLevel: "error",
+            onlyCategories: CATEGORIES,
+          },
+          strategy === "desktop" ? desktopConfig : undefined
+        ),
+        timeout,
+      ]);
+
+      const lhr = result?.lhr;
+      if (!lhr || lhr.runtimeError) {
+        const message = lhr?.runtimeError?.message ?? "Lighthouse returned no result";
+        console.warn(`[Lighthouse] Run failed: ${message}`);
+        return {
+          data: null,
+          raw: { request: requestInfo, response: { error: message } },
+          error: message,
+        };
+      }
+
+      const data = toPageSpeedResult(lhr);
+      console.log("[Lighthouse] Success, performance score:", data.lighthouseResult?.categories.performance?.score);
+      // Only the summary is kept; the full report with traces runs to megabytes
+      return { data, raw: { request: requestInfo, response: data } };
+    } catch (error) {
+      console.error("[Lighthouse] Run failed:", error);
+      return {
+        data: null,
+        raw: { request: requestInfo, response: { error: String(error) } },
+        error: String(error),
+      };
+    } finally {
+      clearTimeout(timeoutId);
+      chrome?.kill();
+    }
+  },
+};
+
+// Reduce a Lighthouse report to the fields PageSpeed Insights responses carry
+function toPageSpeedResult(lhr: {
+  categories: Record<string, { score: number | null }>;
+  audits: Record<string, { score: number | null; displayValue?: string; numericValue?: number }>;
+}): PageSpeedResult {
+  const categories: Record<string, { score: number }> = {};
+  for (const id of CATEGORIES) {
+    const score = lhr.categories[id]?.score;
+    if (typeof score === "number") categories[id] = { score };
+  }
+
+  const audits: NonNullable<PageSpeedResult["lighthouseResult"]>["audits"] = {};
+  for (const [id, audit] of Object.entries(lhr.audits)) {
+    audits[id] = {
+      score: audit.score,
+      displayValue: audit.displayValue,
+      numericValue: audit.numericValue,
+    };
+  }
+
+  return { lighthouseResult: { categories, audits } };
+}
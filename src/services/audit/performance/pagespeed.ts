@@ -0,0 +1,77 @@
+// Google PageSpeed Insights provider
+// Works without PAGESPEED_API_KEY, but keyless requests hit the shared quota quickly
+
+import type { PageSpeedResult } from "@/types/audit";
+import type { PerfProvider, PerfRequestInfo } from "./types";
+
+export const pageSpeedProvider: PerfProvider = {
+  name: "pagespeed",
+
+  async run(url, strategy) {
+    const apiKey = process.env.PAGESPEED_API_KEY || "";
+    const apiUrl = new URL(
+      "https://www.googleapis.com/pagespeedonline/v5/runPagespeed"
+    );
+    apiUrl.searchParams.set("url", url);
+    apiUrl.searchParams.set("strategy", strategy);
+    // Add each category as a separate parameter
+    ["performance", "accessibility", "best-practices", "seo"].forEach((cat) => {
+      apiUrl.searchParams.append("category", cat);
+    });
+    if (apiKey) {
+      apiUrl.searchParams.set("key", apiKey);
+    }
+
+    const requestInfo: PerfRequestInfo = {
+      method: "GET",
+      url: apiUrl.toString(),
+      headers: { Accept: "application/json" },
+    };
+
+    try {
+      console.log("[PageSpeed] Fetching:", apiUrl.toString().replace(/key=[^&]+/, "key=***"));
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
+
+      const response = await fetch(apiUrl.toString(), {
+        headers: { Accept: "application/json" },
+        signal: controller.signal,
+      });
+      clearTimeout(timeoutId);
+
+      const data = await response.json();
+      const rateLimited = response.status === 429 || data.error?.code === 429;
+
+      if (data.error) {
+        console.warn(`[PageSpeed] API error: ${data.error.message}`);
+        return {
+          data: null,
+          raw: { request: requestInfo, response: data },
+          error: data.error.message,
+          rateLimited,
+        };
+      }
+
+      if (!response.ok) {
+        console.warn(`[PageSpeed] Response not ok: ${response.status}`);
+        return {
+          data: null,
+          raw: { request: requestInfo, response: data },
+          error: `HTTP ${response.status}`,
+          rateLimited,
+        };
+      }
+
+      console.log("[PageSpeed] Success, performance score:", data.lighthouseResult?.categories?.performance?.score);
+      return { data: data as PageSpeedResult, raw: { request: requestInfo, response: data } };
+    } catch (error) {
+      console.error("[PageSpeed] Fetch failed:", error);
+      return {
+        data: null,
+        raw: { request: requestInfo, response: { error: String(error) } },
+        error: String(error),
+      };
+    }
+  },
+};
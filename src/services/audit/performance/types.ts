@@ -0,0 +1,30 @@
+// Performance provider types
+// A provider measures one URL under one strategy and returns the PageSpeed
+// Insights shape, so everything downstream stays provider-agnostic.
+
+import type { PageSpeedResult } from "@/types/audit";
+
+export type PerfProviderName = "pagespeed" | "lighthouse";
+
+export type PerfStrategy = "mobile" | "desktop";
+
+// Request info for curl command generation in the admin raw data view
+export interface PerfRequestInfo {
+  method: "GET" | "POST";
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface PerfProviderResult {
+  data: PageSpeedResult | null;
+  raw: { request: PerfRequestInfo; response: unknown };
+  // Set when data is null
+  error?: string;
+  rateLimited?: boolean;
+}
+
+export interface PerfProvider {
+  name: PerfProviderName;
+  run: (url: string, strategy: PerfStrategy) => Promise<PerfProviderResult>;
+}
@@ -0,0 +1,356 @@
+// Rendered-DOM capture
+// Loads crawled pages in headless Chrome at a mobile and a desktop viewport
+// and returns the DOM after JavaScript ran, plus the on-screen position of
+// the links, buttons, iframes and review blocks the booking-flow and
+// trust-signal checks look at. Sites built on React, Wix or Squarespace
+// inject booking widgets, reviews and prices client-side, so the raw server
+// HTML alone misses them.
+//
+// Off by default (RENDER_MODE):
+//
+//   off  - analyze the fetched HTML only
+//   home - render the homepage
+//   all  - render every crawled page
+//
+// Screenshots (for the report and the admin audit view) are taken in the
+// same session; see screenshots.ts.
+//
+// Chrome is found via CHROME_PATH or the usual install locations.
+
+import type { LaunchedChrome } from "chrome-launcher";
+import type { Browser, Page } from "puppeteer-core";
+import { USER_AGENT } from "./crawler";
+
+export type RenderMode = "off" | "home" | "all";
+export type RenderViewportName = "mobile" | "desktop";
+
+export const RENDER_VIEWPORTS: Record<
+  RenderViewportName,
+  { width: number; height: number; isMobile: boolean; deviceScaleFactor: number }
+> = {
+  mobile: { width: 390, height: 844, isMobile: true, deviceScaleFactor: 2 },
+  desktop: { width: 1366, height: 768, isMobile: false, deviceScaleFactor: 1 },
+};
+
+export interface RenderedElement {
+  kind: "link" | "button" | "iframe" | "form" | "review";
+  tag: string;
+  // Visible text, or the value/aria-label/title when there is none
+  text: string;
+  href: string | null;
+  src: string | null;
+  // Page coordinates (relative to the top of the document) in CSS pixels
+  rect: { top: number; left: number; width: number; height: number };
+  // Has a size and isn't hidden with display, visibility or opacity
+  visible: boolean;
+  // Visible and starts within the first screen
+  aboveFold: boolean;
+  // It or an ancestor is position: fixed or sticky
+  fixed: boolean;
+}
+
+export interface RenderedViewport {
+  viewport: RenderViewportName;
+  width: number;
+  height: number;
+  // Serialized DOM after scripts ran
+  html: string;
+  // document.body.innerText - only text a visitor can see
+  text: string;
+  elements: RenderedElement[];
+  loadTimeMs: number;
+  // JPEGs of the first screen and the whole page (capped at
+  // MAX_SCREENSHOT_HEIGHT), when requested
+  screenshots?: {
+    fold: Buffer;
+    full: Buffer;
+    fullHeight: number;
+  };
+}
+
+export interface PageRender {
+  url: string;
+  finalUrl: string;
+  status: number;
+  viewports: Partial<Record<RenderViewportName, RenderedViewport>>;
+  error?: string;
+}
+
+export interface RenderOptions {
+  viewports?: RenderViewportName[];
+  // Per page load
+  timeoutMs?: number;
+  // Stop starting new renders once rendering has run this long
+  budgetMs?: number;
+  // Screenshot these URLs at every viewport as well (see screenshots.ts)
+  screenshotUrls?: string[];
+}
+
+const CHROME_FLAGS = [
+  "--headless=new",
+  "--no-sandbox",
+  "--disable-gpu",
+  "--disable-dev-shm-usage",
+];
+
+// How long to wait for late widgets after the load event
+const SETTLE_MS = 3000;
+
+// Keeps a page full of links from producing a huge payload
+const MAX_ELEMENTS = 1000;
+const MAX_TEXT_LENGTH = 200000;
+
+// Full-page screenshots of endless pages stop here (CSS pixels)
+export const MAX_SCREENSHOT_HEIGHT = 6000;
+
+export function getRenderMode(): RenderMode {
+  const setting = (process.env.RENDER_MODE || "off").toLowerCase();
+  if (setting === "off" || setting === "home" || setting === "all") return setting;
+
+  console.warn(`[Render] Unknown RENDER_MODE "${setting}", rendering is off`);
+  return "off";
+}
+
+/**
+ * Render each URL at every viewport in one Chrome. Failures are reported
+ * per page (and per viewport) rather than thrown, so the audit can fall
+ * back to the fetched HTML.
+ */
+export async function renderPages(
+  urls: string[],
+  options: RenderOptions = {}
+): Promise<Map<string, PageRender>> {
+  const viewports = options.viewports ?? (["mobile", "desktop"] as RenderViewportName[]);
+  const timeoutMs = options.timeoutMs ?? 20000;
+  const budgetMs = options.budgetMs ?? 90000;
+  const started = Date.now();
+  const renders = new Map<string, PageRender>();
+
+  let session: ChromeSession | null = null;
+
+  try {
+    session = await openChrome();
+    const { browser } = session;
+
+    for (const url of urls) {
+      if (Date.now() - started >= budgetMs) {
+        renders.set(url, failedRender(url, "Render budget exhausted"));
+        continue;
+      }
+      const screenshots = options.screenshotUrls?.includes(url) ?? false;
+      renders.set(url, await renderPage(browser, url, viewports, timeoutMs, screenshots));
+    }
+  } catch (error) {
+    console.error("[Render] Chrome failed:", error);
+    for (const url of urls) {
+      if (!renders.has(url)) renders.set(url, failedRender(url, String(error)));
+    }
+  } finally {
+    await session?.close();
+  }
+
+  return renders;
+}
+
+export interface ChromeSession {
+  browser: Browser;
+  close: () => Promise<void>;
+}
+
+/**
+ * Launch headless Chrome and connect to it. close() must be called, even
+ * after a failure.
+ */
+export async function openChrome(): Promise<ChromeSession> {
+  // Loaded lazily so audits that don't render don't pay for them
+  const [chromeLauncher, { default: puppeteer }] = await Promise.all([
+    import("chrome-launcher"),
+    import("puppeteer-core"),
+  ]);
+
+  const chrome: LaunchedChrome = await chromeLauncher.launch({ chromeFlags: CHROME_FLAGS });
+  try {
+    const browser = await puppeteer.connect({ browserURL: `http://127.0.0.1:${chrome.port}` });
+    return {
+      browser,
+      close: async () => {
+        await browser.disconnect().catch(() => {});
+        chrome.kill();
+      },
+    };
+  } catch (error) {
+    chrome.kill();
+    throw error;
+  }
+}
+
+/**
+ * The viewport the checks read the DOM from: mobile first, since most
+ * rental guests browse on a phone
+ */
+export function primaryViewport(render: PageRender | null | undefined): RenderedViewport | null {
+  return render?.viewports.mobile ?? render?.viewports.desktop ?? null;
+}
+
+async function renderPage(
+  browser: Browser,
+  url: string,
+  viewports: RenderViewportName[],
+  timeoutMs: number,
+  screenshots: boolean
+): Promise<PageRender> {
+  const render: PageRender = { url, finalUrl: url, status: 0, viewports: {} };
+  const errors: string[] = [];
+
+  for (const name of viewports) {
+    const start = Date.now();
+    const page = await browser.newPage();
+
+    try {
+      const viewport = RENDER_VIEWPORTS[name];
+      await page.setViewport({ ...viewport, hasTouch: viewport.isMobile });
+      await page.setUserAgent(`${await browser.userAgent()} ${USER_AGENT}`);
+
+      const response = await page.goto(url, { waitUntil: "load", timeout: timeoutMs });
+      // Booking widgets often load after the load event; chatty pages never go idle
+      await page.waitForNetworkIdle({ idleTime: 500, timeout: SETTLE_MS }).catch(() => {});
+
+      render.status = response?.status() ?? render.status;
+      render.finalUrl = page.url();
+
+      const [html, collected] = await Promise.all([
+        page.content(),
+        page.evaluate(collectElements, MAX_ELEMENTS),
+      ]);
+
+      render.viewports[name] = {
+        viewport: name,
+        width: viewport.width,
+        height: viewport.height,
+        html,
+        text: collected.text.slice(0, MAX_TEXT_LENGTH),
+        elements: collected.elements,
+        loadTimeMs: Date.now() - start,
+        screenshots: screenshots ? await takeScreenshots(page, viewport) : undefined,
+      };
+    } catch (error) {
+      errors.push(`${name}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      await page.close().catch(() => {});
+    }
+  }
+
+  if (errors.length > 0) {
+    console.warn(`[Render] ${url} failed:`, errors.join("; "));
+    render.error = errors.join("; ");
+  }
+  return render;
+}
+
+async function takeScreenshots(
+  page: Page,
+  viewport: (typeof RENDER_VIEWPORTS)[RenderViewportName]
+): Promise<NonNullable<RenderedViewport["screenshots"]>> {
+  const fold = await page.screenshot({ type: "jpeg", quality: 75 });
+
+  const pageHeight = await page.evaluate(() => document.documentElement.scrollHeight);
+  const fullHeight = Math.max(1, Math.min(pageHeight, MAX_SCREENSHOT_HEIGHT));
+  const full = await page.screenshot({
+    type: "jpeg",
+    quality: 60,
+    // At CSS pixel size; a retina-sized full page runs to megabytes
+    clip: { x: 0, y: 0, width: viewport.width, height: fullHeight, scale: 1 / viewport.deviceScaleFactor },
+    captureBeyondViewport: true,
+  });
+
+  return { fold: Buffer.from(fold), full: Buffer.from(full), fullHeight };
+}
+
+function failedRender(url: string, error: string): PageRender {
+  return { url, finalUrl: url, status: 0, viewports: {}, error };
+}
+
+// Runs inside the page, so it can only use what it's passed and the DOM
+function collectElements(limit: number): { text: string; elements: RenderedElement[] } {
+  const selector = [
+    "a[href]",
+    "button",
+    "input[type=submit]",
+    "input[type=button]",
+    "[role=button]",
+    "iframe",
+    "form",
+    "[class*=review i]",
+    "[id*=review i]",
+    "[class*=testimonial i]",
+    "[class*=rating i]",
+  ].join(",");
+
+  const foldHeight = window.innerHeight;
+  const elements: RenderedElement[] = [];
+
+  for (const element of Array.from(document.querySelectorAll<HTMLElement>(selector))) {
+    if (elements.length >= limit) break;
+
+    const tag = element.tagName.toLowerCase();
+    const kind: RenderedElement["kind"] =
+      tag === "iframe"
+        ? "iframe"
+        : tag === "form"
+          ? "form"
+          : tag === "a"
+            ? "link"
+            : tag === "button" || tag === "input" || element.getAttribute("role") === "button"
+              ? "button"
+              : "review";
+
+    const box = element.getBoundingClientRect();
+    const style = window.getComputedStyle(element);
+    const visible =
+      box.width > 0 &&
+      box.height > 0 &&
+      style.display !== "none" &&
+      style.visibility !== "hidden" &&
+      parseFloat(style.opacity || "1") > 0;
+
+    let fixed = false;
+    for (let node: HTMLElement | null = element; node && node !== document.body; node = node.parentElement) {
+      const position = window.getComputedStyle(node).position;
+      if (position === "fixed" || position === "sticky") {
+        fixed = true;
+        break;
+      }
+    }
+
+    const top = box.top + window.scrollY;
+    const text = (
+      element.innerText ||
+      (element as HTMLInputElement).value ||
+      element.getAttribute("aria-label") ||
+      element.getAttribute("title") ||
+      ""
+    )
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 200);
+
+    elements.push({
+      kind,
+      tag,
+      text,
+      href: element.getAttribute("href"),
+      src: element.getAttribute("src"),
+      rect: {
+        top: Math.round(top),
+        left: Math.round(box.left + window.scrollX),
+        width: Math.round(box.width),
+        height: Math.round(box.height),
+      },
+      visible,
+      aboveFold: visible && top < foldHeight,
+      fixed,
+    });
+  }
+
+  return { text: document.body?.innerText ?? "", elements };
+}
@@ -0,0 +1,230 @@
+// Audit Screenshots
+// Mobile and desktop screenshots of what the scanner saw - the first screen
+// and the whole page - stored as artifacts (see src/lib/artifacts) and
+// referenced from the audit result. Each one carries callouts for the
+// elements the conversion and trust checks looked at (booking button,
+// sticky bar, reviews, booking widget), tagged with the rule IDs they
+// explain, so the report can show them next to those recommendations.
+//
+// Taken in the same Chrome session as RENDER_MODE (see renderer.ts).
+// SCREENSHOT_MODE picks the pages:
+//
+//   off    - no screenshots
+//   home   - the homepage (default)
+//   funnel - the homepage and the first crawled listing, property and
+//            checkout page
+//
+// The funnel explorer's step screenshots are stored alongside, tagged with
+// the step they were taken after (funnelStep).
+
+import { putArtifact } from "@/lib/artifacts";
+import type { AuditScreenshot } from "@/types/audit";
+import type { PageKind } from "@/types/rules";
+import { detectBookingEngine, findRenderedCTAs } from "./checks/booking-flow";
+import type { CrawledPage } from "./crawler";
+import type { FunnelExploration } from "./funnel-explorer";
+import {
+  RENDER_VIEWPORTS,
+  type PageRender,
+  type RenderedElement,
+  type RenderedViewport,
+} from "./renderer";
+
+export type ScreenshotMode = "off" | "home" | "funnel";
+
+type Annotation = AuditScreenshot["annotations"][number];
+// The screenshots of a viewport an annotation goes on
+type Callout = Annotation & { variants: Array<AuditScreenshot["variant"]> };
+
+const FUNNEL_KINDS: PageKind[] = ["home", "listing", "property", "checkout"];
+
+const CTA_RULES = [
+  "conversion.missing_primary_cta",
+  "conversion.click_depth_high",
+  "conversion.cross_domain_booking",
+];
+const STICKY_RULES = ["conversion.no_sticky_cta_mobile"];
+const REVIEW_RULES = ["trust.missing_reviews", "trust.low_review_count", "trust.stale_reviews"];
+const WIDGET_RULES = [
+  "conversion.no_booking_engine",
+  "conversion.cross_domain_booking",
+  "conversion.no_date_picker",
+];
+
+export function getScreenshotMode(): ScreenshotMode {
+  const setting = (process.env.SCREENSHOT_MODE || "home").toLowerCase();
+  if (setting === "off" || setting === "home" || setting === "funnel") return setting;
+
+  console.warn(`[Screenshots] Unknown SCREENSHOT_MODE "${setting}", using home`);
+  return "home";
+}
+
+/**
+ * Pages to screenshot under `mode`: the homepage, plus one page per funnel
+ * step for "funnel". Pages that failed to load are skipped.
+ */
+export function screenshotTargets(pages: CrawledPage[], mode: ScreenshotMode): CrawledPage[] {
+  if (mode === "off") return [];
+
+  const loaded = pages.filter((p) => !p.error && p.status > 0 && p.status < 400);
+  const kinds = mode === "funnel" ? FUNNEL_KINDS : FUNNEL_KINDS.slice(0, 1);
+
+  return kinds
+    .map((kind) => loaded.find((p) => p.kind === kind))
+    .filter((p): p is CrawledPage => !!p);
+}
+
+/**
+ * Store the screenshots in `renders` for each target page, and those of
+ * each step of the funnel walk, and describe them for the audit result. A
+ * screenshot that fails to store is left out.
+ */
+export async function storeScreenshots(
+  targets: CrawledPage[],
+  renders: Map<string, PageRender>,
+  funnel?: FunnelExploration | null
+): Promise<AuditScreenshot[]> {
+  const captureId = `capture_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+  const screenshots: AuditScreenshot[] = [];
+
+  for (const page of targets) {
+    const render = renders.get(page.finalUrl);
+    for (const viewport of Object.values(render?.viewports ?? {})) {
+      if (!viewport.screenshots) continue;
+
+      const annotations = buildAnnotations(viewport);
+      const variants = [
+        { variant: "fold" as const, data: viewport.screenshots.fold, height: viewport.height },
+        { variant: "full" as const, data: viewport.screenshots.full, height: viewport.screenshots.fullHeight },
+      ];
+
+      for (const { variant, data, height } of variants) {
+        const id = `${page.kind}-${viewport.viewport}-${variant}`;
+        const key = `audits/${captureId}/${id}.jpg`;
+        try {
+          await putArtifact(key, data, "image/jpeg");
+        } catch (error) {
+          console.error(`[Screenshots] Failed to store ${key}:`, error);
+          continue;
+        }
+
+        screenshots.push({
+          id,
+          pageUrl: render!.finalUrl,
+          pageKind: page.kind,
+          viewport: viewport.viewport,
+          variant,
+          key,
+          width: viewport.width,
+          height,
+          annotations: annotations
+            .filter((a) => a.variants.includes(variant) && a.rect.top < height)
+            .map(({ label, rect, ruleIds }) => ({
+              label,
+              rect: clipRect(rect, viewport.width, height),
+              ruleIds,
+            })),
+        });
+      }
+    }
+  }
+
+  const mobile = RENDER_VIEWPORTS.mobile;
+  for (const step of funnel?.steps ?? []) {
+    if (!step.screenshot) continue;
+
+    const id = `funnel-${step.index}`;
+    const key = `audits/${captureId}/${id}.jpg`;
+    try {
+      await putArtifact(key, step.screenshot, "image/jpeg");
+    } catch (error) {
+      console.error(`[Screenshots] Failed to store ${key}:`, error);
+      continue;
+    }
+
+    screenshots.push({
+      id,
+      pageUrl: step.url,
+      pageKind: step.pageKind,
+      viewport: "mobile",
+      variant: "fold",
+      key,
+      funnelStep: step.index,
+      width: mobile.width,
+      height: mobile.height,
+      annotations: [],
+    });
+  }
+
+  return screenshots;
+}
+
+/**
+ * Callouts for one viewport. The first-screen callout only goes on the fold
+ * screenshot: it marks the booking button missing from it.
+ */
+function buildAnnotations(viewport: RenderedViewport): Callout[] {
+  const both: Callout["variants"] = ["fold", "full"];
+  const annotations: Callout[] = [];
+
+  const ctas = findRenderedCTAs(viewport);
+  const [primary] = ctas;
+  if (primary) {
+    annotations.push({
+      label: `"${primary.text}" booking button`,
+      rect: primary.rect,
+      ruleIds: primary.fixed ? [...CTA_RULES, ...STICKY_RULES] : CTA_RULES,
+      variants: both,
+    });
+  }
+
+  const sticky = ctas.find((e) => e.fixed && e !== primary);
+  if (sticky) {
+    annotations.push({ label: "Sticky booking button", rect: sticky.rect, ruleIds: STICKY_RULES, variants: both });
+  }
+
+  if (!ctas.some((e) => e.aboveFold)) {
+    annotations.push({
+      label: primary ? "First screen - the booking button is further down" : "First screen - no booking button",
+      rect: { top: 0, left: 0, width: viewport.width, height: viewport.height },
+      ruleIds: ["conversion.missing_primary_cta"],
+      variants: ["fold"],
+    });
+  }
+
+  const reviews = firstVisible(viewport.elements.filter((e) => e.kind === "review"));
+  if (reviews) {
+    annotations.push({ label: "Reviews", rect: reviews.rect, ruleIds: REVIEW_RULES, variants: both });
+  }
+
+  for (const element of viewport.elements) {
+    if (element.kind !== "iframe" || !element.visible) continue;
+    const engine = detectBookingEngine(element.src ?? "");
+    if (!engine) continue;
+
+    annotations.push({
+      label: `${engine.name} booking widget`,
+      rect: element.rect,
+      ruleIds: WIDGET_RULES,
+      variants: both,
+    });
+    break;
+  }
+
+  return annotations;
+}
+
+function firstVisible(elements: RenderedElement[]): RenderedElement | null {
+  return elements.filter((e) => e.visible).sort((a, b) => a.rect.top - b.rect.top)[0] ?? null;
+}
+
+function clipRect(rect: Annotation["rect"], width: number, height: number): Annotation["rect"] {
+  const top = Math.max(0, rect.top);
+  const left = Math.max(0, rect.left);
+  return {
+    top,
+    left,
+    width: Math.max(0, Math.min(rect.width, width - left)),
+    height: Math.max(0, Math.min(rect.height, height - top)),
+  };
+}
@@ -0,0 +1,96 @@
+// Audit Snapshots
+// What an audit fetched - every crawled page's HTML and response headers,
+// the DOMs rendered in Chrome, the funnel walk and the raw performance and
+// SEO provider responses - stored gzipped as an artifact (see
+// src/lib/artifacts) and referenced from the audit result. reanalyzeAudit in
+// the runner re-runs the current detectors and rules against it without
+// touching the network, so a detector fix doesn't mean re-fetching every
+// site.
+//
+// On by default; AUDIT_SNAPSHOTS=off stops storing them. Screenshots are left
+// out, they are stored on their own (see screenshots.ts).
+
+import { promisify } from "node:util";
+import { gunzip, gzip } from "node:zlib";
+import { getArtifact, putArtifact } from "@/lib/artifacts";
+import type { AuditInputs } from "@/app/api/audit/runner";
+import type { AuditSnapshotRef } from "@/types/audit";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// Bump when AuditInputs changes shape; older snapshots then need upgrading
+// before they can be re-analyzed
+const SNAPSHOT_FORMAT = 1;
+
+interface StoredSnapshot {
+  format: number;
+  capturedAt: string;
+  analyzerVersion: number;
+  inputs: AuditInputs;
+}
+
+export function isSnapshotEnabled(): boolean {
+  const setting = (process.env.AUDIT_SNAPSHOTS || "on").toLowerCase();
+  if (setting === "on" || setting === "off") return setting === "on";
+
+  console.warn(`[Snapshots] Unknown AUDIT_SNAPSHOTS "${setting}", storing snapshots`);
+  return true;
+}
+
+/**
+ * Store what an audit fetched. Returns null when it couldn't be stored - the
+ * audit is still saved, it just can't be re-analyzed.
+ */
+export async function storeSnapshot(
+  inputs: AuditInputs,
+  analyzerVersion: number
+): Promise<AuditSnapshotRef | null> {
+  const key = `snapshots/snapshot_${Date.now()}_${Math.random().toString(36).slice(2, 8)}.json.gz`;
+
+  const snapshot: StoredSnapshot = {
+    format: SNAPSHOT_FORMAT,
+    capturedAt: inputs.fetchedAt,
+    analyzerVersion,
+    inputs: withoutScreenshots(inputs),
+  };
+
+  try {
+    const data = await gzipAsync(JSON.stringify(snapshot));
+    await putArtifact(key, data, "application/gzip");
+    return { key, capturedAt: snapshot.capturedAt, analyzerVersion, sizeBytes: data.length };
+  } catch (error) {
+    console.error(`[Snapshots] Failed to store ${key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * The inputs stored in a snapshot, or null when its file is gone
+ */
+export async function loadSnapshot(ref: AuditSnapshotRef): Promise<AuditInputs | null> {
+  const artifact = await getArtifact(ref.key);
+  if (!artifact) return null;
+
+  const snapshot = JSON.parse((await gunzipAsync(artifact.data)).toString("utf-8")) as StoredSnapshot;
+  if (snapshot.format !== SNAPSHOT_FORMAT) {
+    throw new Error(`Snapshot ${ref.key} has format ${snapshot.format}, expected ${SNAPSHOT_FORMAT}`);
+  }
+  return snapshot.inputs;
+}
+
+function withoutScreenshots(inputs: AuditInputs): AuditInputs {
+  return {
+    ...inputs,
+    renders: inputs.renders.map((render) => ({
+      ...render,
+      viewports: Object.fromEntries(
+        Object.entries(render.viewports).map(([name, viewport]) => [name, { ...viewport, screenshots: undefined }])
+      ),
+    })),
+    funnel: inputs.funnel && {
+      ...inputs.funnel,
+      steps: inputs.funnel.steps.map((step) => ({ ...step, screenshot: undefined })),
+    },
+  };
+}
@@ -6,18 +6,40 @@ export interface AuditCategory {
   source?: string;
 }
 
+import type { Effort, Finding, NormalizedAudit, PageKind, Severity } from "./rules";
+
 export interface AuditRecommendation {
+  id?: string; // Rule ID that produced this row
   title: string;
   description: string;
   status: "pass" | "fail" | "warning";
   impact: "High" | "Medium" | "Low";
   category: string;
+  // Present on rows derived from rule findings
+  severity?: Severity;
+  effort?: Effort;
+  evidence?: string[];
+  fix?: string;
 }
 
 export interface Competitor {
   name: string;
-  rating: number;
-  rank: number;
+  rating: number; // Average review rating, 0 when none was found
+  rank: number; // By overall score among the audited site and its competitors, 1 = best
+  // Present on competitors benchmarked with the audit pipeline
+  domain?: string;
+  auditId?: string;
+  auditedAt?: string;
+  overallScore?: number;
+  categories?: Array<{ name: string; score: number }>;
+  bookingEngine?: string | null;
+  reviewCount?: number | null;
+  coreWebVitals?: {
+    lcpMs: number | null;
+    cls: number | null;
+    inpMs: number | null;
+    source: "field" | "lab" | null;
+  };
 }
 
 export interface CoreWebVitals {
@@ -25,6 +47,40 @@ export interface CoreWebVitals {
   FIRST_INPUT_DELAY_MS?: { percentile: number; category: string };
   CUMULATIVE_LAYOUT_SHIFT_SCORE?: { percentile: number; category: string };
   FIRST_CONTENTFUL_PAINT_MS?: { percentile: number; category: string };
+  INTERACTION_TO_NEXT_PAINT?: { percentile: number; category: string };
+}
+
+// PageSpeed Insights / Lighthouse response (the subset we read)
+export interface PageSpeedResult {
+  lighthouseResult?: {
+    categories: {
+      performance?: { score: number };
+      accessibility?: { score: number };
+      "best-practices"?: { score: number };
+      seo?: { score: number };
+    };
+    audits: Record<
+      string,
+      {
+        score: number | null;
+        displayValue?: string;
+        numericValue?: number;
+      }
+    >;
+  };
+  loadingExperience?: {
+    metrics: CoreWebVitals;
+  };
+}
+
+// Core Web Vitals as shown in the report: CrUX field data, or Lighthouse lab
+// data when the site has none. Field CLS is CrUX's percentile (CLS × 100).
+export interface AuditCoreWebVitals {
+  LCP: { value: number; rating: string; source: "field" | "lab" };
+  FID: { value: number; rating: string; source: "field" | "lab" } | null;
+  CLS: { value: number; rating: string; source: "field" | "lab" };
+  FCP: { value: number; rating: string; source: "field" | "lab" };
+  TBT: { value: number; rating: string; source: "lab" } | null;
 }
 
 export interface LighthouseScores {
@@ -40,12 +96,87 @@ export interface SEOMetrics {
   backlinks?: number;
   domain_rank?: number;
   authority_score?: number;
+  source?: "dataforseo" | "semrush" | "none";
+}
+
+// Request info for curl command generation
+export interface ApiRequestInfo {
+  method: "GET" | "POST";
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+// SEMrush parsed data types
+export interface SEMrushKeyword {
+  keyword: string;
+  position: number;
+  previousPosition: number | null;
+  searchVolume: number;
+  traffic: number;
+  trafficPercent: number;
+  cpc: number;
+  url: string;
+}
+
+export interface SEMrushRefDomain {
+  domain: string;
+  backlinksCount: number;
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface SEMrushParsedData {
+  domainRanks: {
+    rank: number;
+    organicKeywords: number;
+    organicTraffic: number;
+    organicCost: number;
+    adwordsKeywords: number;
+    adwordsTraffic: number;
+    adwordsCost: number;
+  } | null;
+  backlinks: {
+    authorityScore: number;
+    totalBacklinks: number;
+    referringDomains: number;
+    referringUrls: number;
+    referringIps: number;
+    followLinks: number;
+    nofollowLinks: number;
+  } | null;
+  topKeywords: SEMrushKeyword[];
+  refDomains: SEMrushRefDomain[];
+}
+
+// Raw API response storage with request details
+export interface RawApiData {
+  pageSpeed: { request: ApiRequestInfo; response: unknown } | null;
+  dataForSEO: { request: ApiRequestInfo; response: unknown } | null;
+  semrush: {
+    request: ApiRequestInfo;
+    response: unknown;
+    parsed?: SEMrushParsedData;
+  } | null;
+  htmlFetch: {
+    request: ApiRequestInfo;
+    response: {
+      statusCode: number;
+      contentLength: number;
+      headers: Record<string, string>;
+      loadTimeMs: number;
+      fetchedAt: string;
+      error?: string;
+    };
+  } | null;
 }
 
 export interface BookingFlowData {
   hasBookingCTA: boolean;
   ctaText: string | null;
   ctaLocation: "above-fold" | "below-fold" | "none";
+  // Measured in headless Chrome per viewport (render mode only)
+  ctaPositions?: Partial<Record<"mobile" | "desktop", "above-fold" | "below-fold" | "hidden">> | null;
   bookingEngine: {
     name: string;
     type: "embedded" | "redirect" | "native";
@@ -54,6 +185,8 @@ export interface BookingFlowData {
   hasDatePicker: boolean;
   hasInstantBook: boolean;
   estimatedClicksToBook: number;
+  // estimatedClicksToBook was counted by the funnel explorer, not estimated
+  clicksMeasured?: boolean;
   frictionScore: number;
 }
 
@@ -67,6 +200,7 @@ export interface TrustSignalsData {
   } | null;
   reviewCount: number | null;
   averageRating: number | null;
+  reviewPlacement?: "above-fold" | "below-fold" | "hidden" | null;
   trustBadges: Array<{ name: string; category: string }>;
   hasPhoneNumber: boolean;
   hasEmailAddress: boolean;
@@ -75,7 +209,123 @@ export interface TrustSignalsData {
   hasPrivacyPolicy: boolean;
 }
 
+// A crawled page and the page-level rule findings for it. These are reported
+// alongside the site findings and don't affect the scores.
+export interface AuditPage {
+  url: string;
+  finalUrl: string;
+  kind: PageKind;
+  depth: number; // Clicks from the homepage
+  status: number;
+  loadTimeMs: number;
+  error?: string;
+  findings: Finding[];
+}
+
+// A screenshot taken in headless Chrome during the audit (see SCREENSHOT_MODE).
+// The image lives in artifact storage under key and is served by
+// GET /api/audit/[auditId]/screenshots/[id].
+export interface AuditScreenshot {
+  id: string; // e.g. "home-mobile-fold"
+  pageUrl: string;
+  pageKind: PageKind;
+  viewport: "mobile" | "desktop";
+  variant: "fold" | "full"; // First screen or the whole page
+  key: string;
+  funnelStep?: number; // Taken by the funnel explorer after this step
+  width: number; // CSS pixels
+  height: number;
+  // What the scanner looked at, in CSS pixels from the top of the image.
+  // ruleIds are the recommendations the callout belongs next to.
+  annotations: Array<{
+    label: string;
+    rect: { top: number; left: number; width: number; height: number };
+    ruleIds: string[];
+  }>;
+}
+
+// One step of the walk through the booking funnel
+export interface AuditFunnelStep {
+  index: number;
+  action: "open" | "click" | "dates" | "guests" | "dismiss";
+  label: string; // e.g. 'Clicked "Book Now"'
+  url: string; // Where the step ended up
+  pageKind: PageKind;
+  durationMs: number;
+  clicks: number; // Counted so far, including this step
+  notes: string[]; // Friction seen on this step
+  screenshotId?: string;
+}
+
+// The booking funnel as walked in headless Chrome (see FUNNEL_EXPLORER):
+// from the homepage through the booking CTA, dates and guests to checkout
+export interface AuditFunnel {
+  startUrl: string;
+  startedAt: string;
+  durationMs: number;
+  outcome: "checkout" | "account_wall" | "captcha" | "dead_end" | "step_limit" | "error";
+  reachedCheckout: boolean;
+  clicks: number; // Clicks, date picks and guest changes from the homepage
+  crossDomain: boolean;
+  externalDomains: string[];
+  accountRequired: boolean;
+  feesRevealedLate: boolean;
+  steps: AuditFunnelStep[];
+  error?: string;
+}
+
+// Everything the audit fetched, stored gzipped for offline re-analysis
+// (see AUDIT_SNAPSHOTS). Re-analyzed copies share their source's snapshot.
+export interface AuditSnapshotRef {
+  key: string; // Artifact key
+  capturedAt: string;
+  analyzerVersion: number; // Analyzer that ran when it was captured
+  sizeBytes: number;
+}
+
+// Run details stored alongside a result
+export interface AuditMeta {
+  fetchTimeMs: number;
+  url: string;
+  // Scoring profile the scores were calculated under
+  scoringProfile?: string;
+  recalculatedAt?: string;
+  recalculatedFrom?: string; // Audit ID this result was re-scored or re-analyzed from
+  // Detector and rule version that produced this result (ANALYZER_VERSION)
+  analyzerVersion?: number;
+  reanalyzedAt?: string; // Re-analyzed from the snapshot rather than re-fetched
+  // Performance provider per Lighthouse strategy (PageSpeed API or local Lighthouse)
+  perfProviders?: { mobile?: "pagespeed" | "lighthouse"; desktop?: "pagespeed" | "lighthouse" };
+  crawl?: {
+    pagesCrawled: number;
+    maxPages: number;
+    maxDepth: number;
+    robotsTxtFound: boolean | null;
+    blockedByRobots: number;
+    skipped: number;
+  };
+  // Pages analyzed in headless Chrome (see RENDER_MODE)
+  render?: {
+    mode: "off" | "home" | "all";
+    pagesRendered: number;
+    failed: number;
+  };
+  dataSourcesUsed?: {
+    htmlAnalysis?: boolean;
+    pageSpeed: boolean;
+    coreWebVitals?: boolean;
+    seoData?: boolean;
+    semrush?: boolean; // Results from before seoData
+    bookingFlowAnalysis?: boolean;
+    trustSignalAnalysis?: boolean;
+  };
+  notes?: string[];
+}
+
+// Stored results carry the schemaVersion they were written with; older ones
+// are upgraded when loaded (see src/lib/audit-schema.ts)
 export interface AuditResult {
+  schemaVersion: number;
   domain: string;
   timestamp: string;
   overallScore: number;
@@ -84,26 +334,51 @@ export interface AuditResult {
   summary: string;
   categories: AuditCategory[];
   recommendations: AuditRecommendation[];
+  findings?: Finding[];
+  // Rule inputs (without page HTML), used to re-score under another profile
+  normalized?: NormalizedAudit;
+  // Every page crawled, homepage first
+  pages?: AuditPage[];
   competitors: Competitor[];
   // Persisted audit ID for shareable URLs
   auditId?: string;
   // Extended data from APIs
-  coreWebVitals?: CoreWebVitals | null;
+  coreWebVitals?: AuditCoreWebVitals | null;
   lighthouseScores?: LighthouseScores | null;
   seoMetrics?: SEOMetrics | null;
+  // Each SEO provider's metrics, seoMetrics being the preferred one
+  dataForSEOMetrics?: SEOMetrics | null;
+  semrushMetrics?: SEOMetrics | null;
   // STR-specific analysis
   bookingFlow?: BookingFlowData;
   trustSignals?: TrustSignalsData;
-  meta?: {
-    fetchTimeMs: number;
-    url: string;
-    dataSourcesUsed?: {
-      htmlAnalysis?: boolean;
-      pageSpeed: boolean;
-      semrush: boolean;
-      bookingFlowAnalysis?: boolean;
-      trustSignalAnalysis?: boolean;
-    };
-    notes?: string[];
-  };
+  screenshots?: AuditScreenshot[];
+  funnel?: AuditFunnel | null;
+  snapshot?: AuditSnapshotRef | null;
+  meta?: AuditMeta;
+  // Raw API responses for debugging and analysis
+  rawApiData?: RawApiData;
 }
+
+// Scanner phase a stage of the audit belongs to (ids match src/config/scanner-phases.json)
+export type AuditPhaseId = "domain" | "performance" | "seo" | "ui" | "scoring";
+
+// A stage of runAudit finished; partial is the part of the result it produced
+export interface AuditStage {
+  phase: AuditPhaseId;
+  progress: number;
+  step: string;
+  partial: Partial<AuditResult>;
+}
+
+// Events pushed by GET /api/audit/stream/[jobId], in order:
+// progress/stage events while the audit runs, then exactly one of
+// completed, failed or cancelled. A failed attempt that will be retried
+// sends retrying and the stream carries on.
+export type AuditStreamEvent =
+  | { type: "progress"; phase: AuditPhaseId; progress: number; step: string }
+  | ({ type: "stage" } & AuditStage)
+  | { type: "retrying"; error: string; attempt: number; maxAttempts: number; nextAttemptAt: string | null }
+  | { type: "completed"; result: AuditResult }
+  | { type: "failed"; error: string }
+  | { type: "cancelled" };
@@ -0,0 +1,251 @@
+// Rules engine types
+// See content/docs/rules and content/docs/scoring for the rule catalogue and formula
+
+export type RuleCategory =
+  | "conversion"
+  | "performance"
+  | "trust"
+  | "content"
+  | "seo"
+  | "security";
+
+export type Severity = "blocker" | "major" | "minor" | "trivial";
+
+export type Effort = "low" | "medium" | "high";
+
+// What a crawled page is for, from the crawler's classification
+export type PageKind =
+  | "home"
+  | "listing"
+  | "property"
+  | "checkout"
+  | "policy"
+  | "contact"
+  | "other";
+
+export interface Finding {
+  id: string; // e.g. "conversion.missing_primary_cta"
+  title: string;
+  category: RuleCategory;
+  severity: Severity;
+  impact: number; // 0-1, effect on bookings
+  confidence: number; // 0-1, how sure the detector is
+  penalty: number; // severity_base × impact × confidence
+  evidence: string[];
+  fix: string;
+  effort: Effort;
+  tags: string[];
+}
+
+// Core Web Vitals and lab metrics for a single Lighthouse strategy
+export interface PerfMetrics {
+  lcpMs: number | null;
+  cls: number | null;
+  inpMs: number | null;
+  tbtMs: number | null;
+  fcpMs: number | null;
+  source: "field" | "lab";
+}
+
+export interface NormalizedPage {
+  url: string;
+  finalUrl: string;
+  status: number;
+  html: string;
+  headers: Record<string, string>;
+  loadTimeMs: number;
+  error?: string;
+}
+
+export interface CrawledPageSummary {
+  url: string;
+  kind: PageKind;
+  depth: number; // Clicks from the homepage
+  status: number;
+}
+
+/**
+ * Everything collected about a site, flattened into one shape that rules
+ * (TypeScript or DSL) can read without knowing which provider produced it.
+ */
+export interface NormalizedAudit {
+  inputs: {
+    domain: string;
+    url: string;
+    auditedAt: string;
+  };
+  crawl: {
+    pages: {
+      home: NormalizedPage | null;
+      // Every page fetched, homepage included; booking and trust are merged across them
+      crawled: CrawledPageSummary[];
+    };
+    sitemap: { found: boolean; url: string } | null;
+    booking: {
+      hasBookingCTA: boolean;
+      ctaText: string | null;
+      ctaLocation: "above-fold" | "below-fold" | "none";
+      hasStickyCTA: boolean;
+      engine: { name: string; type: "embedded" | "redirect" | "native" } | null;
+      crossDomain: boolean;
+      clickDepth: number;
+      clickDepthMeasured?: boolean; // Counted by walking the funnel
+      frictionScore: number;
+      hasDatePicker: boolean;
+      hasInstantBook: boolean;
+      hasPricing: boolean;
+      showsFeesUpfront: boolean;
+      hasCancellationPolicy: boolean;
+      requiresAccount: boolean;
+    } | null;
+  };
+  perf: {
+    mobile: PerfMetrics | null;
+    desktop: PerfMetrics | null;
+    lighthouse: {
+      performance: number | null; // 0-100
+      accessibility: number | null;
+      seo: number | null;
+      bestPractices: number | null;
+    } | null;
+    loadTimeMs: number;
+    pageSizeBytes: number;
+    hasMobileViewport: boolean;
+  };
+  trust: {
+    reviews: {
+      onSite: { present: boolean; source: string | null; verified: boolean };
+      count: number | null;
+      averageRating: number | null;
+      latestAt: string | null;
+    };
+    identity: {
+      hasPhone: boolean;
+      hasEmail: boolean;
+      hasAddress: boolean;
+      hasAboutPage: boolean;
+    };
+    badges: Array<{ name: string; category: string }>;
+    socialProfiles: string[];
+    hasPrivacyPolicy: boolean;
+    hasTestimonials: boolean;
+    score: number;
+  } | null;
+  content: {
+    imageCount: number;
+    heroImage: { src: string; width: number | null } | null;
+    hasVideo: boolean;
+    wordCount: number;
+    hasDirectBookingBenefits: boolean;
+    hasLocalContent: boolean;
+  } | null;
+  seo: {
+    title: string | null;
+    metaDescription: string | null;
+    noindex: boolean;
+    schemaTypes: string[];
+    organic: {
+      traffic: number | null;
+      keywords: number | null;
+      backlinks: number | null;
+      authorityScore: number | null;
+      source: string | null;
+    } | null;
+  } | null;
+  security: {
+    reachable: boolean;
+    tls: { hasHttps: boolean };
+    mixedContentUrls: string[];
+  };
+}
+
+/**
+ * A rule module under src/rules/{category}/. Rules are pure: same audit in,
+ * same finding out.
+ */
+export interface RuleModule {
+  RULE_ID: string;
+  meta: {
+    category: RuleCategory;
+    // Label for the recommendation row when the rule passes
+    label: string;
+    // False when the audit lacks the data this rule needs (no pass row is emitted)
+    requires: (audit: NormalizedAudit) => boolean;
+    passMessage: (audit: NormalizedAudit) => string;
+    // Also evaluated against each crawled page of these kinds (see AuditResult.pages)
+    pageKinds?: PageKind[];
+  };
+  evaluate: (audit: NormalizedAudit) => Finding | null;
+}
+
+// ---------------------------------------------------------------------------
+// Scoring profiles (see docs/plans/scoring-dsl.md)
+// ---------------------------------------------------------------------------
+
+export interface FindingTemplate {
+  severity: Severity;
+  impact: number;
+  confidence?: number;
+  title: string;
+  // Strings may reference audit fields: "Mobile LCP: {perf.mobile.lcpMs}ms"
+  evidence?: string | string[];
+  fix?: string;
+  effort?: Effort;
+}
+
+/**
+ * A rule written in the DSL. A DSL rule whose id matches a built-in rule
+ * replaces it, which is how a profile changes a threshold.
+ */
+export interface DslRuleDefinition {
+  id: string;
+  category?: RuleCategory;
+  label?: string;
+  when: string;
+  // Condition for emitting a pass row; defaults to every field in `when` existing
+  requires?: string;
+  then: FindingTemplate;
+  escalate?: {
+    when: string;
+    to: Partial<FindingTemplate>;
+  };
+  passMessage?: string;
+  tags?: string[];
+  pageKinds?: PageKind[];
+}
+
+export interface RuleOverride {
+  ruleId: string;
+  action: "disable" | "modify";
+  modifications?: {
+    severity?: Severity;
+    impact?: number;
+    confidence?: number;
+  };
+}
+
+/** Weights, penalties and clamps used to turn findings into scores */
+export interface ScoringConfig {
+  weights: Record<RuleCategory, number>;
+  severityBase: Record<Severity, number>;
+  clamps: {
+    conversionBlocker: number | null;
+    noHttps: number | null;
+  };
+}
+
+/** The YAML/JSON document stored for a scoring profile */
+export interface ScoringProfileDefinition {
+  version?: string;
+  description?: string;
+  weights?: Partial<Record<RuleCategory, number>>;
+  severityBase?: Partial<Record<Severity, number>>;
+  clamps?: Partial<ScoringConfig["clamps"]>;
+  defaults?: {
+    category?: RuleCategory;
+    confidence?: number;
+    effort?: Effort;
+  };
+  rules?: DslRuleDefinition[];
+  overrides?: RuleOverride[];
+}